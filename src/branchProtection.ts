@@ -0,0 +1,87 @@
+import { compact, flatMap, includes, map, some } from 'lodash'
+import * as s from './schemaTypes'
+
+export type PushActor = {
+    // The login of the user, in lower case
+    login: string
+    // The teams through which the user has access to the repository
+    teams: string[]
+    // Is the user an administrator of the repository?
+    admin: boolean
+}
+
+type AllowanceActor = { __typename: 'App' } | { __typename: 'Team'; name: string } | { __typename: 'User'; login: string }
+
+type ActorAllowances = { nodes: s.Maybe<s.Maybe<{ actor: s.Maybe<AllowanceActor> }>[]> }
+
+/**
+ * Extracts the users and teams of a list of branch actor allowances.
+ *
+ * @param allowances - The allowances.
+ * @returns The logins of the users, in lower case, and the names of the teams.
+ */
+const actorAllowances = (allowances: ActorAllowances[]): { users: string[]; teams: string[] } => {
+    /* istanbul ignore next */
+    const actors = compact(flatMap(allowances, a => map(a.nodes ?? [], n => n?.actor)))
+
+    return {
+        users: compact(map(actors, a => (a.__typename === 'User' ? a.login.toLowerCase() : undefined))),
+        teams: compact(map(actors, a => (a.__typename === 'Team' ? a.name : undefined)))
+    }
+}
+
+/**
+ * Extracts the users and teams allowed to push to a protected branch.
+ *
+ * @param rule - The branch protection rule.
+ * @returns The logins of the users, in lower case, and the names of the teams.
+ */
+export const pushAllowances = (rule: s.BranchProtectionFragment): { users: string[]; teams: string[] } =>
+    actorAllowances([rule.pushAllowances])
+
+/**
+ * Extracts the users and teams allowed to bypass the pull requests on a protected branch.
+ * The allowances are missing when the schema doesn't have them, then nobody can bypass the pull requests.
+ *
+ * @param rule - The branch protection rule.
+ * @returns The logins of the users, in lower case, and the names of the teams.
+ */
+export const bypassAllowances = (rule: s.BranchProtectionFragment): { users: string[]; teams: string[] } =>
+    actorAllowances(compact([rule.bypassPullRequestAllowances]))
+
+/**
+ * Is the user, or one of their teams, in the allowances?
+ *
+ * @param allowances - The users and teams of the allowances.
+ * @param actor - The user.
+ * @returns True if the user is allowed.
+ */
+const isAllowed = (allowances: { users: string[]; teams: string[] }, actor: PushActor): boolean =>
+    includes(allowances.users, actor.login) || some(actor.teams, t => includes(allowances.teams, t))
+
+/**
+ * Can the user push to a protected branch?
+ *
+ * - Administrators can push, unless the rule is enforced for administrators.
+ * - Otherwise, if the rule requires approving reviews, only the bypass actors, who can bypass the pull requests, can push.
+ * - Then, if the rule restricts pushes, the user, or one of their teams, must also be in the push allowances.
+ *
+ * @param rule - The branch protection rule.
+ * @param actor - The user.
+ * @returns True if the user can push to the branch.
+ */
+export const canPushToProtectedBranch = (rule: s.BranchProtectionFragment, actor: PushActor): boolean => {
+    if (actor.admin && !rule.isAdminEnforced) {
+        return true
+    }
+
+    if (rule.requiresApprovingReviews && !isAllowed(bypassAllowances(rule), actor)) {
+        return false
+    }
+
+    if (rule.restrictsPushes) {
+        return isAllowed(pushAllowances(rule), actor)
+    }
+
+    return true
+}
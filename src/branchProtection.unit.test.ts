@@ -0,0 +1,76 @@
+import { bypassAllowances, canPushToProtectedBranch, pushAllowances } from './branchProtection'
+import * as s from './schemaTypes'
+
+describe('branchProtection', () => {
+    const rule = (overrides: Partial<s.BranchProtectionFragment> = {}): s.BranchProtectionFragment => ({
+        isAdminEnforced: false,
+        requiresApprovingReviews: false,
+        restrictsPushes: false,
+        pushAllowances: {
+            nodes: [
+                { actor: { __typename: 'User', login: 'Release_Bot' } },
+                { actor: { __typename: 'Team', name: 'release' } },
+                { actor: { __typename: 'App' } }
+            ]
+        },
+        bypassPullRequestAllowances: {
+            nodes: [{ actor: { __typename: 'User', login: 'Hotfixer' } }, { actor: { __typename: 'Team', name: 'hotfixers' } }]
+        },
+        ...overrides
+    })
+
+    const developer = { login: 'developer', teams: ['developers'], admin: false }
+    const admin = { login: 'admin', teams: [], admin: true }
+
+    describe('pushAllowances', () => {
+        it('extracts the users and teams', () => {
+            expect(pushAllowances(rule())).toStrictEqual({ users: ['release_bot'], teams: ['release'] })
+        })
+    })
+
+    describe('bypassAllowances', () => {
+        it('extracts the users and teams allowed to bypass the pull requests', () => {
+            expect(bypassAllowances(rule())).toStrictEqual({ users: ['hotfixer'], teams: ['hotfixers'] })
+        })
+
+        it('has no users and teams when the schema lacks the allowances', () => {
+            expect(bypassAllowances(rule({ bypassPullRequestAllowances: undefined }))).toStrictEqual({ users: [], teams: [] })
+        })
+    })
+
+    describe('canPushToProtectedBranch', () => {
+        it('lets the writers push when pushes are not restricted', () => {
+            expect(canPushToProtectedBranch(rule(), developer)).toBe(true)
+        })
+
+        it('only lets the push allowances push when pushes are restricted', () => {
+            expect(canPushToProtectedBranch(rule({ restrictsPushes: true }), developer)).toBe(false)
+            expect(canPushToProtectedBranch(rule({ restrictsPushes: true }), { ...developer, login: 'release_bot' })).toBe(true)
+            expect(canPushToProtectedBranch(rule({ restrictsPushes: true }), { ...developer, teams: ['release'] })).toBe(true)
+        })
+
+        it('only lets the administrators and the bypass actors push when reviews are required', () => {
+            expect(canPushToProtectedBranch(rule({ requiresApprovingReviews: true }), developer)).toBe(false)
+            expect(canPushToProtectedBranch(rule({ requiresApprovingReviews: true }), admin)).toBe(true)
+            expect(canPushToProtectedBranch(rule({ requiresApprovingReviews: true }), { ...developer, login: 'hotfixer' })).toBe(
+                true
+            )
+            expect(
+                canPushToProtectedBranch(rule({ requiresApprovingReviews: true }), { ...developer, teams: ['hotfixers'] })
+            ).toBe(true)
+        })
+
+        it('still applies the push allowances to the bypass actors', () => {
+            expect(
+                canPushToProtectedBranch(rule({ requiresApprovingReviews: true, restrictsPushes: true }), {
+                    ...developer,
+                    login: 'hotfixer'
+                })
+            ).toBe(false)
+        })
+
+        it('applies the rule to the administrators when it is enforced', () => {
+            expect(canPushToProtectedBranch(rule({ requiresApprovingReviews: true, isAdminEnforced: true }), admin)).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,28 @@
+import { URL } from 'url'
+
+export const defaultApiUrl = 'https://api.github.com'
+
+export type ApiEndpoints = {
+    // The base URL of the REST API
+    apiUrl: string
+    // The URL of the GraphQL API
+    graphqlUrl: string
+}
+
+/**
+ * Resolves the endpoints of the Github API.
+ *
+ * On Github Enterprise Server, the REST API is served from `https://<host>/api/v3`, and the GraphQL API from `https://<host>/api/graphql`.
+ *
+ * @param apiUrl - The base URL of the REST API, defaults to github.com.
+ * @param graphqlPath - The path of the GraphQL API, relative to the API URL. Derived from the API URL by default.
+ * @returns The endpoints.
+ */
+export const apiEndpoints = (apiUrl: string = defaultApiUrl, graphqlPath?: string): ApiEndpoints => {
+    const baseUrl = apiUrl.replace(/\/+$/, '')
+
+    return {
+        apiUrl: baseUrl,
+        graphqlUrl: graphqlPath ? new URL(graphqlPath, `${baseUrl}/`).toString() : `${baseUrl.replace(/\/v3$/, '')}/graphql`
+    }
+}
@@ -0,0 +1,27 @@
+import { apiEndpoints } from './endpoints'
+
+describe('endpoints', () => {
+    describe('apiEndpoints', () => {
+        it('defaults to github.com', () => {
+            expect(apiEndpoints()).toStrictEqual({
+                apiUrl: 'https://api.github.com',
+                graphqlUrl: 'https://api.github.com/graphql'
+            })
+        })
+
+        it('derives the GraphQL URL of Github Enterprise Server', () => {
+            expect(apiEndpoints('https://github.acme.com/api/v3/')).toStrictEqual({
+                apiUrl: 'https://github.acme.com/api/v3',
+                graphqlUrl: 'https://github.acme.com/api/graphql'
+            })
+        })
+
+        it.each([
+            ['/custom/graphql', 'https://github.acme.com/custom/graphql'],
+            ['../graphql', 'https://github.acme.com/api/graphql'],
+            ['graphql', 'https://github.acme.com/api/v3/graphql']
+        ])('resolves the GraphQL path %p against the API URL', (graphqlPath, graphqlUrl) => {
+            expect(apiEndpoints('https://github.acme.com/api/v3', graphqlPath).graphqlUrl).toStrictEqual(graphqlUrl)
+        })
+    })
+})
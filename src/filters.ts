@@ -0,0 +1,59 @@
+import { compact, every, includes, map, some } from 'lodash'
+import * as s from './schemaTypes'
+
+export interface RepositoryFiltersConfig {
+    requiredTopics?: string[]
+    forbiddenTopics?: string[]
+    primaryLanguage?: string[]
+    visibility?: s.RepositoryVisibility[]
+}
+
+/**
+ * Extracts the topic names of a repository.
+ *
+ * @param repository - The repository metadata.
+ * @returns The list of topic names.
+ */
+export const repositoryTopics = (repository: s.RepositoryMetadataFragment): string[] => {
+    /* istanbul ignore next */
+    const nodes = repository.repositoryTopics.nodes ?? []
+    // The code generator assumes we can have an array of null values
+    return compact(map(nodes, n => n?.topic.name.toLowerCase()))
+}
+
+/**
+ * Checks that a repository satisfies the configured filters.
+ *
+ * - The repository must have all of the required topics.
+ * - The repository must have none of the forbidden topics.
+ * - The primary language of the repository must be in the list, if provided.
+ * - The visibility of the repository must be in the list, if provided.
+ *
+ * @param repository - The repository metadata.
+ * @param filters - The repository filters.
+ * @returns True if the repository satisfies the filters.
+ */
+export const matchesRepositoryFilters = (repository: s.RepositoryMetadataFragment, filters: RepositoryFiltersConfig): boolean => {
+    const topics = repositoryTopics(repository)
+
+    if (filters.requiredTopics && !every(filters.requiredTopics, t => includes(topics, t.toLowerCase()))) {
+        return false
+    }
+
+    if (filters.forbiddenTopics && some(filters.forbiddenTopics, t => includes(topics, t.toLowerCase()))) {
+        return false
+    }
+
+    if (filters.primaryLanguage) {
+        const language = repository.primaryLanguage?.name.toLowerCase()
+        if (!some(filters.primaryLanguage, l => l.toLowerCase() === language)) {
+            return false
+        }
+    }
+
+    if (filters.visibility && !some(filters.visibility, v => v.toUpperCase() === repository.visibility)) {
+        return false
+    }
+
+    return true
+}
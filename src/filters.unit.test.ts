@@ -0,0 +1,65 @@
+import { matchesRepositoryFilters, repositoryTopics } from './filters'
+import * as s from './schemaTypes'
+
+const repository: s.RepositoryMetadataFragment = {
+    name: 'repo',
+    visibility: s.RepositoryVisibility.Internal,
+    isArchived: false,
+    isFork: false,
+    primaryLanguage: {
+        name: 'TypeScript'
+    },
+    repositoryTopics: {
+        nodes: [{ topic: { name: 'npm-package' } }, { topic: { name: 'frontend' } }]
+    }
+}
+
+describe('filters', () => {
+    describe('repositoryTopics', () => {
+        it('returns the topic names', () => {
+            expect(repositoryTopics(repository)).toStrictEqual(['npm-package', 'frontend'])
+        })
+    })
+
+    describe('matchesRepositoryFilters', () => {
+        it('matches all repositories without filters', () => {
+            expect(matchesRepositoryFilters(repository, {})).toStrictEqual(true)
+        })
+
+        it.each([
+            [['npm-package'], true],
+            [['npm-package', 'frontend'], true],
+            [['npm-package', 'backend'], false]
+        ])('requires the topics %p', (requiredTopics, expected) => {
+            expect(matchesRepositoryFilters(repository, { requiredTopics })).toStrictEqual(expected)
+        })
+
+        it.each([
+            [['deprecated'], true],
+            [['deprecated', 'frontend'], false]
+        ])('forbids the topics %p', (forbiddenTopics, expected) => {
+            expect(matchesRepositoryFilters(repository, { forbiddenTopics })).toStrictEqual(expected)
+        })
+
+        it.each([
+            [['typescript'], true],
+            [['JavaScript', 'TypeScript'], true],
+            [['Python'], false]
+        ])('filters on the primary languages %p', (primaryLanguage, expected) => {
+            expect(matchesRepositoryFilters(repository, { primaryLanguage })).toStrictEqual(expected)
+        })
+
+        it('excludes repositories without a primary language when filtering on the language', () => {
+            expect(
+                matchesRepositoryFilters({ ...repository, primaryLanguage: null }, { primaryLanguage: ['TypeScript'] })
+            ).toStrictEqual(false)
+        })
+
+        it.each([
+            [[s.RepositoryVisibility.Internal], true],
+            [[s.RepositoryVisibility.Public, s.RepositoryVisibility.Private], false]
+        ])('filters on the visibilities %p', (visibility, expected) => {
+            expect(matchesRepositoryFilters(repository, { visibility })).toStrictEqual(expected)
+        })
+    })
+})
@@ -0,0 +1,56 @@
+import { includes } from 'lodash'
+
+/**
+ * Who can publish a package that isn't mapped to any repository yet.
+ *
+ * - `deny`: nobody.
+ * - `owners`: the owners of the organization.
+ * - `teams`: the members of the configured teams.
+ * - `convention`: the users with write access to the repository named after the package.
+ */
+export type FirstPublishPolicy = 'deny' | 'owners' | 'teams' | 'convention'
+
+export const firstPublishPolicies: FirstPublishPolicy[] = ['deny', 'owners', 'teams', 'convention']
+
+export interface FirstPublishConfig {
+    policy?: FirstPublishPolicy
+    // The scopes of the packages the policy applies to, e.g. `@acme`
+    scopes?: string[]
+    // The teams allowed to publish, with the `teams` policy
+    teams?: string[]
+}
+
+/**
+ * Extracts the scope of a package name.
+ *
+ * @param packageName - The name of the package.
+ * @returns The scope, e.g. `@acme`, or undefined for unscoped packages.
+ */
+export const packageScope = (packageName: string): string | undefined => {
+    return packageName.startsWith('@') ? packageName.split('/')[0] : undefined
+}
+
+/**
+ * Is the package under one of the scopes?
+ *
+ * @param packageName - The name of the package.
+ * @param scopes - The scopes.
+ * @returns True if the package is under one of the scopes.
+ */
+export const isUnderScopes = (packageName: string, scopes: string[]): boolean => {
+    const scope = packageScope(packageName)
+    return scope !== undefined && includes(scopes, scope)
+}
+
+/**
+ * Is the repository named after the package, by convention?
+ * The name of the package, without its scope, must be the name of the repository, ignoring the case.
+ *
+ * @param packageName - The name of the package.
+ * @param repositoryName - The name of the repository.
+ * @returns True if the repository matches the package.
+ */
+export const matchesRepositoryConvention = (packageName: string, repositoryName: string): boolean => {
+    const name = packageScope(packageName) ? packageName.split('/')[1] : packageName
+    return name.toLowerCase() === repositoryName.toLowerCase()
+}
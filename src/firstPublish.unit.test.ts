@@ -0,0 +1,33 @@
+import { packageScope, isUnderScopes, matchesRepositoryConvention } from './firstPublish'
+
+describe('firstPublish', () => {
+    describe('packageScope', () => {
+        it('returns the scope of scoped packages', () => {
+            expect(packageScope('@acme/pkg')).toStrictEqual('@acme')
+        })
+
+        it('returns undefined for unscoped packages', () => {
+            expect(packageScope('pkg')).toBeUndefined()
+        })
+    })
+
+    describe('isUnderScopes', () => {
+        it.each([
+            ['@acme/pkg', true],
+            ['@other/pkg', false],
+            ['pkg', false]
+        ])('checks the scope of %p', (packageName, expected) => {
+            expect(isUnderScopes(packageName, ['@acme'])).toStrictEqual(expected)
+        })
+    })
+
+    describe('matchesRepositoryConvention', () => {
+        it.each([
+            ['@acme/ui-kit', 'UI-Kit', true],
+            ['ui-kit', 'ui-kit', true],
+            ['@acme/ui-kit', 'ui-kit-docs', false]
+        ])('matches %p with the repository %p', (packageName, repositoryName, expected) => {
+            expect(matchesRepositoryConvention(packageName, repositoryName)).toStrictEqual(expected)
+        })
+    })
+})
@@ -1,9 +1,12 @@
 import { graphql } from '@octokit/graphql'
+import { request } from '@octokit/request'
 import { withRateLimiting } from './rateLimiting'
 import { RateLimiter } from 'limiter'
 import { Logger } from '@verdaccio/types'
 import { DocumentNode } from 'graphql'
 import { PageInfo } from './schemaTypes'
+import { ApiEndpoints, apiEndpoints } from './endpoints'
+import { map } from 'lodash'
 
 type Result = Record<string, unknown>
 
@@ -18,9 +21,18 @@ type PageParams = {
 type PaginatedQueryParams = QueryParams & Partial<PageParams>
 
 export type PageInfoExtractor<T extends Result> = (page: T) => Pick<PageInfo, 'endCursor' | 'hasNextPage'> | undefined
+
+export type CustomRepositoryRole = {
+    name: string
+    // The role the custom role is based on, e.g. `write`, missing from older API versions
+    baseRole?: string
+}
+
 export class GraphQLClient {
     // graphql is actually a function
     client: typeof graphql
+    // For the few resources that can't be retrieved through GraphQL
+    restClient: typeof request
     logger: Logger
     ratedLimitedExecute: <T>(fn: () => Promise<T>) => Promise<T>
 
@@ -30,9 +42,18 @@ export class GraphQLClient {
      * @param token - The Github token.
      * @param logger - A logger object.
      * @param rateLimiter - A rate limiter.
+     * @param endpoints - The endpoints of the Github API, defaults to github.com.
      */
-    constructor(token: string, logger: Logger, rateLimiter?: RateLimiter) {
+    constructor(token: string, logger: Logger, rateLimiter?: RateLimiter, endpoints: ApiEndpoints = apiEndpoints()) {
         this.client = graphql.defaults({
+            // An absolute URL, so that it isn't derived from the base URL
+            url: endpoints.graphqlUrl,
+            headers: {
+                authorization: `token ${token}`
+            }
+        })
+        this.restClient = request.defaults({
+            baseUrl: endpoints.apiUrl,
             headers: {
                 authorization: `token ${token}`
             }
@@ -78,6 +99,46 @@ export class GraphQLClient {
         })
     }
 
+    /**
+     * Retrieves the contents of a Git blob through the REST API.
+     * GraphQL doesn't return the text of binary and truncated blobs.
+     *
+     * @param owner - The owner of the repository.
+     * @param repo - The name of the repository.
+     * @param oid - The object ID of the blob.
+     * @returns A Promise of the contents of the blob, decoded as UTF-8.
+     */
+    getBlob(owner: string, repo: string, oid: string): Promise<string> {
+        return this.ratedLimitedExecute(() => {
+            this.logger.trace({ owner, repo, oid }, 'rest: getting blob @{oid} of @{owner}/@{repo}')
+
+            return this.restClient('GET /repos/{owner}/{repo}/git/blobs/{file_sha}', {
+                owner,
+                repo,
+                file_sha: oid
+            }).then(response => Buffer.from(response.data.content, <BufferEncoding>response.data.encoding).toString('utf8'))
+        })
+    }
+
+    /**
+     * Retrieves the custom repository roles of an organization, through the REST API.
+     *
+     * @param org - The organization.
+     * @returns A promise of the custom repository roles.
+     */
+    getCustomRepositoryRoles(org: string): Promise<CustomRepositoryRole[]> {
+        return this.ratedLimitedExecute(() => {
+            this.logger.trace({ org }, 'rest: getting the custom repository roles of @{org}')
+
+            return this.restClient('GET /orgs/{org}/custom-repository-roles', { org }).then(response =>
+                map(<{ name: string; base_role?: string }[]>(response.data.custom_roles ?? []), role => ({
+                    name: role.name,
+                    baseRole: role.base_role
+                }))
+            )
+        })
+    }
+
     /**
      * Retrieve all pages for a given query and pagination node.
      * The query must follow the Relay edge/node convention.
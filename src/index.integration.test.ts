@@ -28,6 +28,9 @@ const config: GithubAuthPluginConfig = {
 
 const readWrite: RepositoryPermission[] = [RepositoryPermission.Admin, RepositoryPermission.Write, RepositoryPermission.Maintain]
 const readOnly: RepositoryPermission[] = [RepositoryPermission.Read, RepositoryPermission.Triage]
+// Only the administrators of the repositories can unpublish
+const unpublishers: RepositoryPermission[] = [RepositoryPermission.Admin]
+const publishers: RepositoryPermission[] = [RepositoryPermission.Write, RepositoryPermission.Maintain]
 
 const options: GithubAuthPluginOptions = <GithubAuthPluginOptions>{
     logger: <Logger>(<unknown>{
@@ -207,7 +210,7 @@ describe('index.js integration tests', () => {
 
                             return plugin.packageNames().then(packages => {
                                 expect(
-                                    every(scenarioPackages, (repoName, packageName) => packages[packageName] === repoName)
+                                    every(scenarioPackages, (repoName, packageName) => isEqual(packages[packageName], [repoName]))
                                 ).toBe(true)
                             })
                         })
@@ -232,7 +235,9 @@ describe('index.js integration tests', () => {
 
                             return plugin.packageNames().then(packages => {
                                 expect(
-                                    every(includedPackageWithRepo, (repoName, packageName) => packages[packageName] === repoName)
+                                    every(includedPackageWithRepo, (repoName, packageName) =>
+                                        isEqual(packages[packageName], [repoName])
+                                    )
                                 ).toBe(true)
                                 expect(
                                     every(excludedPackagesWithRepos, (_repoName, packageName) => !has(packages, packageName))
@@ -260,7 +265,9 @@ describe('index.js integration tests', () => {
 
                             return plugin.packageNames().then(packages => {
                                 expect(
-                                    every(includedPackagesWithRepo, (repoName, packageName) => packages[packageName] === repoName)
+                                    every(includedPackagesWithRepo, (repoName, packageName) =>
+                                        isEqual(packages[packageName], [repoName])
+                                    )
                                 ).toBe(true)
                                 expect(
                                     every(excludedPackageWithRepos, (_repoName, packageName) => !has(packages, packageName))
@@ -289,7 +296,9 @@ describe('index.js integration tests', () => {
 
                             return plugin.packageNames().then(packages => {
                                 expect(
-                                    every(includedPackagesWithRepo, (repoName, packageName) => packages[packageName] === repoName)
+                                    every(includedPackagesWithRepo, (repoName, packageName) =>
+                                        isEqual(packages[packageName], [repoName])
+                                    )
                                 ).toBe(true)
                                 expect(
                                     every(excludedPackagesWithRepos, (_repoName, packageName) => !has(packages, packageName))
@@ -329,16 +338,27 @@ describe('index.js integration tests', () => {
                         })
 
                         // eslint-disable-next-line jest/expect-expect
-                        it('can unpublish', () => {
+                        it('can access', () => {
                             return hasUserRole(scenario, remoteUser, role, (pkgAccess, cb) => {
-                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
+                                plugin.allow_access(remoteUser, pkgAccess, cb)
                             })
                         })
+                    })
 
+                    describe.each(unpublishers)('has unpublish permissions for %s', role => {
                         // eslint-disable-next-line jest/expect-expect
-                        it('can access', () => {
+                        it('can unpublish', () => {
                             return hasUserRole(scenario, remoteUser, role, (pkgAccess, cb) => {
-                                plugin.allow_access(remoteUser, pkgAccess, cb)
+                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
+                            })
+                        })
+                    })
+
+                    describe.each(publishers)('does not have unpublish permissions for %s', role => {
+                        // eslint-disable-next-line jest/no-identical-title, jest/expect-expect
+                        it('cannot unpublish', () => {
+                            return doesNotHaveUserRole(scenario, remoteUser, role, (pkgAccess, cb) => {
+                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
                             })
                         })
                     })
@@ -407,16 +427,27 @@ describe('index.js integration tests', () => {
                         })
 
                         // eslint-disable-next-line jest/expect-expect
-                        it('can unpublish', () => {
+                        it('can access', () => {
                             return hasTeamRole(scenario, remoteUser, role, (pkgAccess, cb) => {
-                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
+                                plugin.allow_access(remoteUser, pkgAccess, cb)
                             })
                         })
+                    })
 
+                    describe.each(unpublishers)('has unpublish permissions for %s', role => {
                         // eslint-disable-next-line jest/expect-expect
-                        it('can access', () => {
+                        it('can unpublish', () => {
                             return hasTeamRole(scenario, remoteUser, role, (pkgAccess, cb) => {
-                                plugin.allow_access(remoteUser, pkgAccess, cb)
+                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
+                            })
+                        })
+                    })
+
+                    describe.each(publishers)('does not have unpublish permissions for %s', role => {
+                        // eslint-disable-next-line jest/no-identical-title, jest/expect-expect
+                        it('cannot unpublish', () => {
+                            return doesNotHaveTeamRole(scenario, remoteUser, role, (pkgAccess, cb) => {
+                                plugin.allow_unpublish(remoteUser, pkgAccess, cb)
                             })
                         })
                     })
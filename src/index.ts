@@ -1,7 +1,26 @@
 import { GraphQLClient, PageInfoExtractor } from './graphql'
 import Cache from './cache'
 import { RateLimiter } from 'limiter'
-import { map, includes, reduce, forOwn, clone } from 'lodash'
+import minimatch from 'minimatch'
+import {
+    map,
+    includes,
+    reduce,
+    forOwn,
+    clone,
+    filter,
+    uniqBy,
+    has,
+    some,
+    fromPairs,
+    mapValues,
+    compact,
+    isEqual,
+    omit,
+    flatten,
+    uniq,
+    find
+} from 'lodash'
 import {
     AllowAccess,
     AuthError,
@@ -16,6 +35,48 @@ import {
 import * as s from './schemaTypes'
 import { RequestError } from '@octokit/request-error'
 import { PackageJson } from 'types-package-json'
+import { RepositoryFiltersConfig, matchesRepositoryFilters } from './filters'
+import { PackageMappings, parsePackageMappings, matchPackagePattern } from './packageMappings'
+import { RepositoryConfig, parseRepositoryConfig, repositoryConfigPath } from './repositoryConfig'
+import { PackageNameTemplate, compilePackageNameTemplate } from './packageNameTemplate'
+import { publishRejectionReason } from './publishConfig'
+import { repositoryFieldMismatch } from './repositoryField'
+import { canPushToProtectedBranch } from './branchProtection'
+import {
+    FirstPublishConfig,
+    firstPublishPolicies,
+    isUnderScopes,
+    matchesRepositoryConvention,
+    packageScope
+} from './firstPublish'
+import { organizationGroup, organizationTeams } from './organizations'
+import { teamAncestors } from './teams'
+import { OutsideCollaboratorsPolicy, outsideCollaboratorsGroup, outsideCollaboratorsPolicies } from './outsideCollaborators'
+import { ApiEndpoints, apiEndpoints, defaultApiUrl } from './endpoints'
+import {
+    GithubPermission,
+    PermissionMap,
+    RegistryAction,
+    baseRolePermission,
+    parseCustomRoles,
+    parsePermissionMap
+} from './permissionMap'
+import {
+    DuplicatePackagePolicy,
+    OwnershipLedger,
+    PackageClaims,
+    duplicatePackagePolicies,
+    organizationLedgerPath,
+    resolvePackageOwners
+} from './ownership'
+import {
+    WorkspaceFiles,
+    workspacePatterns,
+    expandWorkspacePatterns,
+    expandManifestPaths,
+    joinPath,
+    rootManifestPath
+} from './workspaces'
 
 type LoginState = true | false | null
 type MaybeRequestError = Error | RequestError
@@ -23,6 +84,80 @@ type MaybeAuthenticationError = MaybeRequestError | AuthenticationError
 
 type Definite<T> = Exclude<T, null | undefined>
 
+type GitObject =
+    | { __typename: 'Blob'; oid: string; isBinary: s.Maybe<boolean>; isTruncated: boolean; text: s.Maybe<string> }
+    | { __typename: 'Commit' | 'Tag' | 'Tree' }
+
+type RootFilesObjects = {
+    object: s.Maybe<GitObject>
+    pnpmWorkspace: s.Maybe<GitObject>
+    lernaConfig: s.Maybe<GitObject>
+    verdaccioConfig: s.Maybe<GitObject>
+}
+
+type RootFiles = WorkspaceFiles & {
+    verdaccioConfig?: string
+}
+
+/**
+ * Extracts the object IDs of the files at the root of a repository from a repository query result.
+ *
+ * @param repository - The repository.
+ * @returns The object IDs, undefined for the missing files.
+ */
+const rootObjectIds = (repository: Record<keyof RootFilesObjects, s.Maybe<{ oid: string }>>): (string | undefined)[] => {
+    return map([repository.object, repository.pnpmWorkspace, repository.lernaConfig, repository.verdaccioConfig], o => o?.oid)
+}
+
+/**
+ * Converts the permissions of a repository from the Github Enterprise Server versions that lack the permission sources
+ * of the collaborators. The permission of each collaborator is considered to be granted by the repository itself.
+ *
+ * @param repository - The repository permissions, without the permission sources.
+ * @returns The repository permissions, with the permission sources.
+ */
+const legacyRepositoryPermissions = (repository: s.RepositoryPermissionsLegacyFragment): s.RepositoryPermissionsFragment => {
+    /* istanbul ignore next */
+    const collaborators = map(repository.collaborators?.edges ?? [], collaborator =>
+        collaborator
+            ? {
+                  node: collaborator.node,
+                  permissionSources: [
+                      {
+                          permission: <s.DefaultRepositoryPermissionField>(<unknown>collaborator.permission),
+                          source: { __typename: <const>'Repository', name: repository.name }
+                      }
+                  ]
+              }
+            : null
+    )
+
+    return { ...repository, collaborators: { edges: collaborators } }
+}
+
+/**
+ * Extracts the repositories from pages of organization repositories.
+ *
+ * @param pages - The pages of the query.
+ * @returns The repositories.
+ */
+const organizationRepositories = <T>(
+    pages: { organization: s.Maybe<{ repositories: { edges: s.Maybe<s.Maybe<{ node: s.Maybe<T> }>[]> } }> }[]
+): T[] => {
+    /* istanbul ignore next */
+    return flatten(map(pages, page => compact(map(page.organization?.repositories.edges ?? [], edge => edge?.node))))
+}
+
+// `owner/name`
+const extraRepositoryPattern = /^[\w.-]+\/[\w.-]+$/
+
+type SchemaFeatures = {
+    // Does the schema have the permission sources of the repository collaborators?
+    permissionSources: boolean
+    // Does the schema have the actors who can bypass the pull requests of the branch protection rules?
+    bypassAllowances: boolean
+}
+
 export class APIError extends Error {
     constructor(message: string) {
         super(message)
@@ -63,35 +198,119 @@ export const setUnion = function <T>(a: Set<T>, b: Set<T>): Set<T> {
 
 const readPermission = 'read'
 const writePermission = 'write'
+const unpublishPermission = 'unpublish'
 
-type PackagePermission = typeof readPermission | typeof writePermission
+type PackagePermission = typeof readPermission | typeof writePermission | typeof unpublishPermission
 type PackagePermissions = Set<PackagePermission>
 type PackagesPermissions = Record<string, PackagePermissions>
 
+/**
+ * Removes the write and unpublish permissions from a set of permissions.
+ *
+ * @param permissions - The permissions.
+ * @returns The read-only permissions.
+ */
+const readOnly = (permissions: PackagePermissions): PackagePermissions => {
+    return new Set(filter([...permissions], p => p === readPermission))
+}
+
 type RepositoryPermissions = {
     teams: Record<string, PackagePermissions>
     users: Record<string, PackagePermissions>
+    // Can everyone read the packages of the repository?
+    public: boolean
+}
+
+export type Manifest = {
+    path: string
+    content: string
+}
+
+export type RepositoryPackageFiles = {
+    manifests: Manifest[]
+    config?: RepositoryConfig
+}
+
+// The package files of a repository, as of the last sync
+type RepositorySnapshot = {
+    pushedAt: string | null
+    // The object IDs of the files at the root of the repository
+    objectIds: (string | undefined)[]
+    packageFiles: RepositoryPackageFiles
 }
 
 export type Team = {
     name: string
     members: Member[]
+    // The name of the parent team, for the nested teams
+    parentTeam?: string
+    // The names of the immediate child teams
+    childTeams?: string[]
 }
 
+// Whether the members of the child teams are members of their parent teams
+type TeamMembership = s.TeamMembershipType.All | s.TeamMembershipType.Immediate
+
+const teamMemberships: TeamMembership[] = [s.TeamMembershipType.All, s.TeamMembershipType.Immediate]
+
 type User = string
 type Member = User
 
+export interface RepositoryOverrideConfig {
+    packageBranch?: string
+    manifestPaths?: string[]
+}
+
 export interface GithubAuthPluginConfig {
-    organization: string
-    token: string
+    organization?: string
+    token?: string
+    organizations?: OrganizationConfig[]
+    enterprise?: string
+    extraRepositories?: string[]
     rateLimiter?: RateLimiter
     repositoryPattern?: RegExp | string
     includeRepositories?: string[]
     excludeRepositories?: string[]
+    repositoryFilters?: RepositoryFiltersConfig
+    packageBranch?: string
+    manifestPaths?: string[]
+    repositoryOverrides?: Record<string, RepositoryOverrideConfig>
+    packageMappings?: Record<string, string>
+    packageNameTemplate?: string
+    duplicatePackagePolicy?: DuplicatePackagePolicy
+    ownershipLedger?: string
+    archivedRepositoriesReadOnly?: boolean
+    excludeForks?: boolean
+    publicPackages?: string[]
+    registryUrl?: string
+    firstPublish?: FirstPublishConfig
+    branchProtection?: boolean
+    verifyRepositoryField?: boolean
+    apiUrl?: string
+    graphqlPath?: string
+    permissionMap?: Partial<Record<GithubPermission, RegistryAction[]>>
+    customRoles?: Record<string, GithubPermission>
+    outsideCollaborators?: OutsideCollaboratorsPolicy
+    affiliation?: s.CollaboratorAffiliation
+    teamMembership?: TeamMembership
+    ancestorTeams?: boolean
+}
+
+// The configuration of one of several organizations, it overrides the top-level configuration
+export interface OrganizationConfig extends Omit<GithubAuthPluginConfig, 'organization' | 'token' | 'organizations'> {
+    organization: string
+    token: string
+    // The npm scopes of the packages owned by the organization, e.g. `@acme`
+    scopes?: string[]
 }
 
 export type GithubAuthPluginOptions = PluginOptions<GithubAuthPluginConfig>
 
+type OrganizationPlugin = {
+    plugin: GithubAuthPlugin
+    scopes: string[]
+}
+
 /**
  * Custom Verdaccio Authenticate Plugin.
  */
@@ -99,13 +318,48 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
     config: GithubAuthPluginConfig
     logger: Logger
 
+    // Empty when several organizations are configured
     organization: string
+    // Each of the configured organizations is handled by its own instance of the plugin
+    organizations: OrganizationPlugin[]
+    // Authenticates the members of the enterprise, rather than those of the organizations
+    enterprise?: string
+    // Repositories outside of the organization, as `owner/name`, whose packages are handled like those of the organization
+    extraRepositories: string[]
     includeRepositories?: string[]
     excludeRepositories?: string[]
     repositoryPattern?: RegExp
+    repositoryFilters: RepositoryFiltersConfig
+    packageBranch?: string
+    manifestPaths: string[]
+    repositoryOverrides: Record<string, RepositoryOverrideConfig>
+    packageMappings: PackageMappings
+    packageNameTemplate?: PackageNameTemplate
+    duplicatePackagePolicy: DuplicatePackagePolicy
+    ownershipLedger?: OwnershipLedger
+    archivedRepositoriesReadOnly: boolean
+    excludeForks: boolean
+    publicPackages: string[]
+    registryUrl?: string
+    firstPublish: Required<FirstPublishConfig>
+    branchProtection: boolean
+    verifyRepositoryField: boolean
+    endpoints: ApiEndpoints
+    // The registry actions granted by each Github permission
+    permissionMap: PermissionMap
+    // The custom repository roles, by lower case name, mapped to the Github permission they're resolved to
+    customRoles: Record<string, GithubPermission>
+    outsideCollaborators: OutsideCollaboratorsPolicy
+    // The collaborators whose permissions are retrieved
+    affiliation: s.CollaboratorAffiliation
+    teamMembership: TeamMembership
+    // Are the ancestors of the teams of the users part of their groups?
+    ancestorTeams: boolean
 
     client: GraphQLClient
     cache: Cache
+    // The package files of each repository as of the last sync, only the changed repositories are fetched again
+    snapshots?: Record<string, RepositorySnapshot>
 
     /**
      * Init.
@@ -114,26 +368,137 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
      * @param {PluginOptions} options - The plugin options.
      */
     constructor(config: GithubAuthPluginConfig, options: GithubAuthPluginOptions) {
-        const { organization, token, rateLimiter } = config
+        const { rateLimiter } = config
 
         this.config = config
         this.logger = options.logger
 
-        this.organization = organization
+        this.organizations = map(config.organizations ?? [], ({ scopes, ...organizationConfig }) => ({
+            plugin: new GithubAuthPlugin(
+                {
+                    ...omit(config, 'organizations'),
+                    // The repository names of the organizations would collide in a shared ledger
+                    ownershipLedger:
+                        config.ownershipLedger && organizationLedgerPath(config.ownershipLedger, organizationConfig.organization),
+                    ...organizationConfig
+                },
+                options
+            ),
+            scopes: scopes ?? []
+        }))
+
+        const ledgerPaths = compact(map(this.organizations, o => o.plugin.ownershipLedger?.path))
+        if (uniq(ledgerPaths).length < ledgerPaths.length) {
+            throw new Error('Each organization must have its own ownershipLedger')
+        }
+
+        if (this.organizations.length === 0 && (!config.organization || !config.token)) {
+            throw new Error('The organization and the token are required, unless organizations are configured')
+        }
+
+        this.organization = config.organization ?? ''
+        this.enterprise = config.enterprise
+        this.extraRepositories = config.extraRepositories ?? []
         this.logger = options.logger
 
         this.includeRepositories = config.includeRepositories
         this.excludeRepositories = config.excludeRepositories
         this.repositoryPattern = new RegExp(config.repositoryPattern || /.*/)
+        this.repositoryFilters = config.repositoryFilters ?? {}
+        this.packageBranch = config.packageBranch
+        this.manifestPaths = config.manifestPaths ?? [rootManifestPath]
+        this.repositoryOverrides = config.repositoryOverrides ?? {}
+        this.packageMappings = parsePackageMappings(config.packageMappings)
+        this.packageNameTemplate = config.packageNameTemplate ? compilePackageNameTemplate(config.packageNameTemplate) : undefined
+        this.duplicatePackagePolicy = config.duplicatePackagePolicy ?? 'first'
+        this.ownershipLedger = config.ownershipLedger ? new OwnershipLedger(config.ownershipLedger) : undefined
+        this.archivedRepositoriesReadOnly = config.archivedRepositoriesReadOnly ?? true
+        this.excludeForks = config.excludeForks ?? true
+        this.publicPackages = config.publicPackages ?? []
+        this.registryUrl = config.registryUrl
+        this.firstPublish = { policy: 'deny', scopes: [], teams: [], ...config.firstPublish }
+        this.branchProtection = config.branchProtection ?? false
+        this.verifyRepositoryField = config.verifyRepositoryField ?? false
+        this.endpoints = apiEndpoints(config.apiUrl, config.graphqlPath)
+        this.permissionMap = parsePermissionMap(config.permissionMap)
+        this.customRoles = parseCustomRoles(config.customRoles)
+        this.outsideCollaborators = config.outsideCollaborators ?? 'none'
+        this.affiliation = config.affiliation ?? s.CollaboratorAffiliation.All
+        this.teamMembership = config.teamMembership ?? s.TeamMembershipType.All
+        this.ancestorTeams = config.ancestorTeams ?? false
+
+        if (!includes(duplicatePackagePolicies, this.duplicatePackagePolicy)) {
+            throw new Error(
+                `Invalid duplicatePackagePolicy "${
+                    this.duplicatePackagePolicy
+                }", expected one of: ${duplicatePackagePolicies.join(', ')}`
+            )
+        }
+
+        if (!includes(outsideCollaboratorsPolicies, this.outsideCollaborators)) {
+            throw new Error(
+                `Invalid outsideCollaborators policy "${
+                    this.outsideCollaborators
+                }", expected one of: ${outsideCollaboratorsPolicies.join(', ')}`
+            )
+        }
+
+        // Only the members of the organizations or of the enterprise can log in, so they can't be outside collaborators
+        if ((this.organizations.length > 0 || this.enterprise) && this.outsideCollaborators !== 'none') {
+            throw new Error(
+                `The outsideCollaborators policy "${this.outsideCollaborators}" requires a single organization, expected: none`
+            )
+        }
+
+        // With the OUTSIDE affiliation, the members of the organization would have no access at all
+        const affiliations = [s.CollaboratorAffiliation.All, s.CollaboratorAffiliation.Direct]
+        if (!includes(affiliations, this.affiliation)) {
+            throw new Error(`Invalid affiliation "${this.affiliation}", expected one of: ${affiliations.join(', ')}`)
+        }
+
+        if (!includes(teamMemberships, this.teamMembership)) {
+            throw new Error(`Invalid teamMembership "${this.teamMembership}", expected one of: ${teamMemberships.join(', ')}`)
+        }
+
+        const invalidRepository = find(this.extraRepositories, r => !extraRepositoryPattern.test(r))
+        if (invalidRepository !== undefined) {
+            throw new Error(`Invalid extra repository "${invalidRepository}", expected owner/name`)
+        }
 
-        this.client = new GraphQLClient(token, this.logger, rateLimiter)
+        if (!includes(firstPublishPolicies, this.firstPublish.policy)) {
+            throw new Error(
+                `Invalid firstPublish policy "${this.firstPublish.policy}", expected one of: ${firstPublishPolicies.join(', ')}`
+            )
+        }
+
+        this.client = new GraphQLClient(config.token ?? '', this.logger, rateLimiter, this.endpoints)
         this.cache = new Cache()
 
         return this
     }
 
     /**
-     * Maps a Github permission to a package permission.
+     * Checks that the repository satisfies the configured repository filters
+     * (topics, primary language and visibility).
+     *
+     * @param repository - The repository metadata.
+     * @returns True if the repository should be used by the plugin.
+     */
+    isRepositorySelected(repository: s.RepositoryMetadataFragment): boolean {
+        const selected = matchesRepositoryFilters(repository, this.repositoryFilters)
+
+        if (!selected) {
+            this.logger.trace(
+                { repositoryName: repository.name },
+                'Repository @{repositoryName} excluded by the repository filters'
+            )
+        }
+
+        return selected
+    }
+
+    /**
+     * Maps a Github permission to a package permission, through the permission map.
      *
      * @param githubPermission - The Github permission.
      * @returns - The package permission.
@@ -141,19 +506,22 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
     mapPermission(
         githubPermission: s.RepositoryPermission | s.DefaultRepositoryPermissionField | undefined | null
     ): PackagePermissions {
-        switch (githubPermission) {
-            case 'ADMIN':
-            case 'MAINTAIN':
-            case 'WRITE':
-                return new Set([readPermission, writePermission])
-            case 'TRIAGE':
-            case 'READ':
-                return new Set([readPermission])
-            case 'NONE':
-                return new Set([])
-            default:
-                throw new APIError(`Unknown permission type`)
+        if (!githubPermission || !has(this.permissionMap, githubPermission)) {
+            throw new APIError(`Unknown permission type`)
         }
+
+        return new Set(this.permissionMap[githubPermission])
+    }
+
+    /**
+     * Maps the permission granted by a permission source to a package permission.
+     * The unknown permissions, such as unresolved custom roles, grant no access.
+     *
+     * @param permission - The permission of the source.
+     * @returns The package permission.
+     */
+    sourcePermission(permission: s.DefaultRepositoryPermissionField): PackagePermissions {
+        return has(this.permissionMap, permission) ? this.mapPermission(permission) : new Set()
     }
 
     /**
@@ -172,19 +540,19 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
     authenticate(user: string, token: string, cb: AuthCallback): void {
         const identity = () => {
             return this.verifyUserIdentity(user, token).then(() => {
-                return this.verifyOrganization(user)
+                // The membership of the enterprise, or of each of several organizations, is verified along with the groups
+                return this.enterprise !== undefined || this.organizations.length > 0 || this.verifyMembership(user)
             })
         }
 
         this.cache
             .get(`identity_${user}`, identity)
-            .then(() => this.getUserTeams(user))
-            .then(teams => {
+            .then(member =>
+                this.getUserGroups(user, member).then(groups => (member ? groups : [...groups, outsideCollaboratorsGroup]))
+            )
+            .then(groups => {
                 // If we're successful, return the list of groups
-                cb(
-                    null,
-                    map(teams, t => t.name)
-                )
+                cb(null, groups)
             })
             // Handle errors
             .catch((e: MaybeAuthenticationError) => {
@@ -215,16 +583,103 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
             })
     }
 
+    /**
+     * Get the groups of the user, the names of the teams they are a member of.
+     *
+     * When several organizations are configured, the user must be a member of at least one of them,
+     * and the teams are prefixed with the name of their organization, e.g. `acme/developers`.
+     *
+     * @param user - The user.
+     * @param member - Is the user a member of the organization, rather than an outside collaborator?
+     * @returns A Promise of the names of the groups.
+     */
+    getUserGroups(user: string, member = true): Promise<string[]> {
+        if (this.enterprise) {
+            return this.getEnterpriseGroups(user, this.enterprise)
+        }
+
+        if (this.organizations.length === 0) {
+            return this.getUserTeams(user, member).then(teams => map(teams, t => t.name))
+        }
+
+        return Promise.all(
+            map(this.organizations, ({ plugin }) => {
+                const membership = () =>
+                    plugin.verifyOrganization(user).catch((e: MaybeAuthenticationError) => {
+                        if (e instanceof AuthenticationError) {
+                            return false
+                        }
+                        throw e
+                    })
+
+                return plugin.cache
+                    .get(`membership_${user}`, membership)
+                    .then(member =>
+                        member
+                            ? plugin
+                                  .getUserTeams(user)
+                                  .then(teams => map(teams, t => organizationGroup(plugin.organization, t.name)))
+                            : []
+                    )
+            })
+        ).then(groups => {
+            const userGroups = flatten(groups)
+
+            if (userGroups.length === 0) {
+                throw new AuthenticationError('User not part of any organization', false)
+            }
+
+            return userGroups
+        })
+    }
+
+    /**
+     * Get the groups of a member of the enterprise: the enterprise, each of their organizations in the enterprise,
+     * and the teams of the configured organizations they are a member of.
+     *
+     * @param user - The user.
+     * @param enterprise - The slug of the enterprise.
+     * @returns A Promise of the names of the groups.
+     */
+    getEnterpriseGroups(user: string, enterprise: string): Promise<string[]> {
+        const plugins = this.organizations.length > 0 ? map(this.organizations, o => o.plugin) : [this]
+        // The top-level token is optional with several organizations, the first one then reads the enterprise
+        const enterprisePlugin = this.config.token ? this : plugins[0]
+
+        return this.cache
+            .get(`enterprise_${user}`, () => enterprisePlugin.verifyEnterprise(user, enterprise))
+            .then(userOrganizations => {
+                const logins = map(userOrganizations, o => o.toLowerCase())
+                const memberPlugins = filter(plugins, p => includes(logins, p.organization.toLowerCase()))
+
+                return Promise.all(
+                    map(memberPlugins, plugin =>
+                        plugin
+                            .getUserTeams(user)
+                            .then(teams =>
+                                map(teams, t =>
+                                    this.organizations.length > 0 ? organizationGroup(plugin.organization, t.name) : t.name
+                                )
+                            )
+                    )
+                ).then(teams => uniq([enterprise, ...userOrganizations, ...flatten(teams)]))
+            })
+    }
+
     /**
      * Get the list of teams the user is a member of.
      *
      * @param user - The user to check
+     * @param member - Is the user a member of the organization? Only the members get the virtual team of the organization.
      * @returns A Promise of the list of teams for this user.
      */
-    getUserTeams(user: string): Promise<Team[]> {
+    getUserTeams(user: string, member = true): Promise<Team[]> {
         this.logger.trace({ user }, 'Getting teams for @{user}')
         return this.getOrganizationTeams().then(allTeams => {
-            return reduce(
+            // Create a virtual team for the org, the outside collaborators aren't part of it
+            const organizationTeams: Team[] = member ? [{ name: this.organization, members: [user] }] : []
+
+            const userTeams = reduce(
                 allTeams,
                 (userTeams, team) => {
                     if (includes(team.members, user)) {
@@ -232,15 +687,18 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
                     }
                     return userTeams
                 },
-
-                // Create a virtual team for the org
-                <Team[]>[
-                    {
-                        name: this.organization,
-                        members: [user]
-                    }
-                ]
+                organizationTeams
             )
+
+            if (!this.ancestorTeams) {
+                return userTeams
+            }
+
+            // The user inherits the access of the ancestors of their teams
+            const parentTeams = fromPairs(map(allTeams, t => [t.name, t.parentTeam]))
+            const ancestors = flatten(map(userTeams, t => teamAncestors(t.name, parentTeams)))
+
+            return uniqBy([...userTeams, ...filter(allTeams, t => includes(ancestors, t.name))], t => t.name)
         })
     }
 
@@ -258,7 +716,7 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
             return this.client
                 .getAll<s.GetOrganizationTeamsQuery, s.GetOrganizationTeamsQueryVariables>(
                     s.GetOrganizationTeams,
-                    { login: this.organization },
+                    { login: this.organization, membership: this.teamMembership },
                     pageInfo
                 )
                 .then(resultPages => {
@@ -275,13 +733,22 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
                             }
                             /* istanbul ignore next */
                             const members = edge.node.members.nodes ?? []
+                            /* istanbul ignore next */
+                            const childTeams = edge.node.childTeams.nodes ?? []
 
-                            teams.push({
+                            const team: Team = {
                                 name: edge.node.name,
                                 // We use the Definite cast to overcome an excessively cautious code generator
                                 // that assumes we can have an array of null values
-                                members: map(members, n => (<Definite<typeof n>>n).login.toLowerCase())
-                            })
+                                members: map(members, n => (<Definite<typeof n>>n).login.toLowerCase()),
+                                childTeams: map(compact(childTeams), t => t.name)
+                            }
+
+                            if (edge.node.parentTeam) {
+                                team.parentTeam = edge.node.parentTeam.name
+                            }
+
+                            teams.push(team)
                         })
                     })
 
@@ -292,6 +759,86 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
         return this.cache.get('organizationTeams', organizationTeams)
     }
 
+    /**
+     * Get the list of the owners of the organization.
+     *
+     * @returns A Promise of the logins of the owners, in lower case.
+     */
+    getOrganizationOwners(): Promise<string[]> {
+        this.logger.trace({ organization: this.organization }, 'Getting owners for @{organization}')
+        const organizationOwners = () => {
+            /* istanbul ignore next */
+            const pageInfo: PageInfoExtractor<s.GetOrganizationOwnersQuery> = page => page.organization?.membersWithRole.pageInfo
+
+            return this.client
+                .getAll<s.GetOrganizationOwnersQuery, s.GetOrganizationOwnersQueryVariables>(
+                    s.GetOrganizationOwners,
+                    { login: this.organization },
+                    pageInfo
+                )
+                .then(results => {
+                    const owners: string[] = []
+
+                    results.forEach(page => {
+                        /* istanbul ignore next */
+                        const edges = page.organization?.membersWithRole.edges ?? []
+                        edges.forEach(edge => {
+                            /* istanbul ignore next */
+                            if (!edge?.node || edge.role !== s.OrganizationMemberRole.Admin) {
+                                return
+                            }
+
+                            owners.push(edge.node.login.toLowerCase())
+                        })
+                    })
+
+                    return owners
+                })
+        }
+
+        return this.cache.get('organizationOwners', organizationOwners)
+    }
+
+    /**
+     * Get the logins of the members of the organization.
+     *
+     * @returns A Promise of the logins, in lower case.
+     */
+    getOrganizationMembers(): Promise<string[]> {
+        this.logger.trace({ organization: this.organization }, 'Getting members for @{organization}')
+        const organizationMembers = () => {
+            /* istanbul ignore next */
+            const pageInfo: PageInfoExtractor<s.VerifyOrganizationQuery> = page => page.organization?.membersWithRole.pageInfo
+
+            return this.client
+                .getAll<s.VerifyOrganizationQuery, s.VerifyOrganizationQueryVariables>(
+                    s.VerifyOrganization,
+                    { login: this.organization },
+                    pageInfo
+                )
+                .then(results => {
+                    const members: string[] = []
+
+                    results.forEach(page => {
+                        /* istanbul ignore next */
+                        const edges = page.organization?.membersWithRole.edges ?? []
+                        edges.forEach(edge => {
+                            /* istanbul ignore next */
+                            if (!edge?.node) {
+                                return
+                            }
+
+                            members.push(edge.node.login.toLowerCase())
+                        })
+                    })
+
+                    return members
+                })
+        }
+
+        return this.cache.get('organizationMembers', organizationMembers)
+    }
+
     /**
      * Check if the user is part of the organization.
      *
@@ -301,43 +848,104 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
     verifyOrganization(user: string): Promise<boolean> {
         this.logger.trace({ user }, 'Verifying organization for @{user}')
 
+        return this.getOrganizationMembers().then(members => {
+            if (includes(members, user)) {
+                return true
+            } else {
+                throw new AuthenticationError('User not part of organization', false)
+            }
+        })
+    }
+
+    /**
+     * Check if the user is a member of the organization or, unless the policy denies them, an outside collaborator
+     * of one of its repositories.
+     *
+     * @param user - The user to check.
+     * @returns A Promise of true for the members, and false for the outside collaborators.
+     */
+    verifyMembership(user: string): Promise<boolean> {
+        return this.verifyOrganization(user).catch((e: MaybeAuthenticationError) => {
+            if (!(e instanceof AuthenticationError) || this.outsideCollaborators === 'none') {
+                throw e
+            }
+
+            return this.repositoryPermissions().then(repositoryPermissions => {
+                if (!some(repositoryPermissions, p => has(p.users, user.toLowerCase()))) {
+                    throw e
+                }
+
+                this.logger.debug({ user }, 'User @{user} is an outside collaborator')
+                return false
+            })
+        })
+    }
+
+    /**
+     * Check if the user is a member of the enterprise, through any of its organizations.
+     *
+     * @param user - The user to check.
+     * @param enterprise - The slug of the enterprise.
+     * @returns A Promise of the logins of the organizations of the enterprise the user is a member of.
+     */
+    verifyEnterprise(user: string, enterprise: string): Promise<string[]> {
+        this.logger.trace({ user, enterprise }, 'Verifying enterprise @{enterprise} for @{user}')
+
         /* istanbul ignore next */
-        const pageInfo: PageInfoExtractor<s.VerifyOrganizationQuery> = page => page.organization?.membersWithRole.pageInfo
+        const pageInfo: PageInfoExtractor<s.VerifyEnterpriseQuery> = page => page.enterprise?.members.pageInfo
 
         return this.client
-            .getAll<s.VerifyOrganizationQuery, s.VerifyOrganizationQueryVariables>(
-                s.VerifyOrganization,
-                { login: this.organization },
+            .getAll<s.VerifyEnterpriseQuery, s.VerifyEnterpriseQueryVariables>(
+                s.VerifyEnterprise,
+                { slug: enterprise, query: user },
                 pageInfo
             )
             .then(results => {
-                const members: string[] = []
+                let organizations: string[] | undefined
+
+                // The members can also belong to organizations outside of the enterprise
+                /* istanbul ignore next */
+                const enterpriseOrganizations = map(compact(results[0]?.enterprise?.organizations.nodes ?? []), o =>
+                    o.login.toLowerCase()
+                )
 
                 results.forEach(page => {
                     /* istanbul ignore next */
-                    const edges = page.organization?.membersWithRole.edges ?? []
+                    const edges = page.enterprise?.members.edges ?? []
                     edges.forEach(edge => {
+                        const member = edge?.node
+
                         /* istanbul ignore next */
-                        if (!edge?.node) {
+                        if (!member) {
                             return
                         }
 
-                        members.push(edge.node.login.toLowerCase())
+                        // The login of an enterprise user account can be an email address
+                        const login = member.__typename === 'EnterpriseUserAccount' ? member.user?.login : member.login
+
+                        // The members are searched by login and name, so the results can contain other users
+                        if (login?.toLowerCase() === user.toLowerCase()) {
+                            /* istanbul ignore next */
+                            organizations = filter(
+                                map(compact(member.organizations.nodes ?? []), o => o.login),
+                                o => includes(enterpriseOrganizations, o.toLowerCase())
+                            )
+                        }
                     })
                 })
 
-                if (includes(members, user)) {
-                    return true
-                } else {
-                    throw new AuthenticationError('User not part of organization', false)
+                if (!organizations) {
+                    throw new AuthenticationError('User not part of enterprise', false)
                 }
+
+                return organizations
             })
     }
 
     verifyUserIdentity(user: string, token: string): Promise<void> {
         this.logger.trace({ user }, 'Verifying identity for @{user}')
 
-        const userClient = new GraphQLClient(token, this.logger)
+        const userClient = new GraphQLClient(token, this.logger, undefined, this.endpoints)
 
         return userClient
             .get<s.VerifyUserIdentityQuery, s.VerifyUserIdentityQueryVariables>(s.VerifyUserIdentity)
@@ -389,7 +997,7 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
      */
     // eslint-disable-next-line camelcase
     allow_publish(user: RemoteUser, pkg: PackageAccess & AllowAccess, cb: AuthAccessCallback): void {
-        this.packagePermissionsForUserForPackage(user, pkg.name)
+        this.packagePermissionsForUserForPackage(user, pkg.name, true)
             .then(permissions => {
                 this.logger.trace(
                     { result: permissions.has(writePermission) },
@@ -414,8 +1022,20 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
      */
     // eslint-disable-next-line camelcase
     allow_unpublish(user: RemoteUser, pkg: PackageAccess & AllowAccess, cb: AuthAccessCallback): void {
-        // If you can publish, you can unpublish
-        this.allow_publish(user, pkg, cb)
+        this.packagePermissionsForUserForPackage(user, pkg.name)
+            .then(permissions => {
+                this.logger.trace(
+                    { result: permissions.has(unpublishPermission) },
+                    'user has unpublish permission for package? @{result}'
+                )
+                this.logger.trace({ user }, 'user:@{user}')
+                this.logger.trace({ permission: unpublishPermission }, 'permission:@{permission}')
+                this.logger.trace({ pkg }, 'pkg:@{pkg}')
+                cb(null, permissions.has(unpublishPermission))
+            })
+            .catch(err => {
+                cb(err, false)
+            })
     }
 
     /* istanbul ignore next */
@@ -429,52 +1049,254 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
      *
      * @param user - The user.
      * @param pkgName - The package.
+     * @param publishing - Is the user publishing the package? Only then the first-publish policy applies to unknown packages.
      * @returns The set of permissions.
      */
-    packagePermissionsForUserForPackage(user: RemoteUser, pkgName: string): Promise<PackagePermissions> {
-        return this.packagePermissionsForUser(user).then(packagePermissions => {
-            return packagePermissions[pkgName] || new Set()
-        })
+    packagePermissionsForUserForPackage(user: RemoteUser, pkgName: string, publishing = false): Promise<PackagePermissions> {
+        if (this.organizations.length > 0) {
+            return Promise.all(
+                map(this.packageOrganizations(pkgName), ({ plugin }) =>
+                    plugin.packagePermissionsForUserForPackage(
+                        GithubAuthPlugin.organizationUser(user, plugin.organization),
+                        pkgName,
+                        publishing
+                    )
+                )
+            ).then(allPermissions => reduce(allPermissions, (a, b) => setUnion(a, b), <PackagePermissions>new Set()))
+        }
+
+        return Promise.all([this.packageNames(), this.packagePermissionsForUser(user)])
+            .then(([packageNames, packagePermissions]) => {
+                // Packages that aren't known by name can still be mapped via a package pattern
+                const key = has(packageNames, pkgName) ? pkgName : matchPackagePattern(pkgName, this.packageMappings.patterns)
+
+                if (key) {
+                    return packagePermissions[key] || new Set<PackagePermission>()
+                }
+
+                // Packages that aren't mapped to any repository yet are subject to the first-publish policy, when published
+                return publishing ? this.firstPublishPermissions(user, pkgName) : new Set<PackagePermission>()
+            })
+            .then(permissions => {
+                // The public packages can be read by everyone, including anonymous users
+                if (some(this.publicPackages, p => minimatch(pkgName, p))) {
+                    return setUnion(permissions, new Set([readPermission]))
+                }
+
+                return permissions
+            })
     }
 
     /**
-     * What permissions does this user have for all packages?
+     * The organizations that can grant permissions on a package, when several organizations are configured.
+     * A package under a scope that is bound to organizations only belongs to those organizations.
+     *
+     * @param pkgName - The package.
+     * @returns The organizations.
+     */
+    packageOrganizations(pkgName: string): OrganizationPlugin[] {
+        const scope = packageScope(pkgName)
+        const boundOrganizations = filter(this.organizations, o => scope !== undefined && includes(o.scopes, scope))
+
+        return boundOrganizations.length > 0 ? boundOrganizations : this.organizations
+    }
+
+    /**
+     * The user, as seen by one of several organizations: with the teams of the organization as groups.
      *
      * @param user - The user.
-     * @returns - The permissions for all packages.
+     * @param organization - The name of the organization.
+     * @returns The user.
      */
-    packagePermissionsForUser(user: RemoteUser): Promise<PackagesPermissions> {
-        const username = <string>user.name
+    static organizationUser(user: RemoteUser, organization: string): RemoteUser {
+        return { ...user, real_groups: organizationTeams(organization, user.real_groups) }
+    }
 
-        // Fetch the list of packages
-        const packagePermissionsForUser = () => {
-            return this.packageNames().then(packageNames => {
-                // Get the list of repositories
-                return this.repositoryPermissions().then(allRepositoryPermissions => {
-                    const packagePermissionsForUser: PackagesPermissions = {}
+    /**
+     * What permissions does this user have for a package that isn't mapped to any repository yet?
+     *
+     * The configured first-publish policy only applies to the packages under the configured scopes,
+     * and its decisions are logged for auditing.
+     *
+     * @param user - The user.
+     * @param pkgName - The package.
+     * @returns A promise of the set of permissions.
+     */
+    firstPublishPermissions(user: RemoteUser, pkgName: string): Promise<PackagePermissions> {
+        const { policy, scopes, teams } = this.firstPublish
+        const username = user.name
 
-                    forOwn(packageNames, (repoName, packageName) => {
-                        let packagePermissions: PackagePermissions = new Set()
+        if (policy === 'deny' || !username || !isUnderScopes(pkgName, scopes)) {
+            return Promise.resolve(new Set())
+        }
 
+        let allowed: Promise<boolean>
+
+        switch (policy) {
+            case 'owners':
+                allowed = this.getOrganizationOwners().then(owners => includes(owners, username.toLowerCase()))
+                break
+            case 'teams':
+                allowed = this.teamUser(user).then(teamUser => some(teams, t => includes(teamUser.real_groups, t)))
+                break
+            case 'convention':
+                allowed = Promise.all([
+                    this.repositoryPermissions(),
+                    this.teamUser(user)
+                ]).then(([allRepositoryPermissions, teamUser]) =>
+                    some(
+                        allRepositoryPermissions,
+                        (repositoryPermissions, repositoryName) =>
+                            matchesRepositoryConvention(pkgName, repositoryName) &&
+                            this.userRepositoryPermissions(teamUser, repositoryPermissions).has(writePermission)
+                    )
+                )
+                break
+        }
+
+        return allowed.then(allowed => {
+            this.logger.info(
+                { user: username, packageName: pkgName, policy, allowed },
+                'First publish policy @{policy} for @{packageName} and @{user}, allowed: @{allowed}'
+            )
+
+            return allowed ? new Set([readPermission, writePermission]) : new Set()
+        })
+    }
+
+    /**
+     * The user, with the teams they are a member of as groups.
+     *
+     * The permissions of the teams are only granted through the actual memberships, rather than through the groups the
+     * user logged in with, as these groups also hold the names of organizations, which can clash with the names of teams.
+     *
+     * @param user - The user.
+     * @returns A promise of the user, with the names of their teams as groups.
+     */
+    teamUser(user: RemoteUser): Promise<RemoteUser> {
+        if (!user.name) {
+            return Promise.resolve({ ...user, real_groups: [] })
+        }
+
+        return this.getUserTeams(user.name, false).then(teams => ({ ...user, real_groups: map(teams, t => t.name) }))
+    }
+
+    /**
+     * What permissions does this user have on a repository, directly or via their teams?
+     *
+     * @param user - The user.
+     * @param repositoryPermissions - The permissions of the repository.
+     * @returns The permissions.
+     */
+    userRepositoryPermissions(user: RemoteUser, repositoryPermissions: RepositoryPermissions): PackagePermissions {
+        let permissions: PackagePermissions = new Set()
+        const userPermissions = user.name ? repositoryPermissions.users[user.name] : undefined
+
+        // If the user has direct permissions, add them
+        /* istanbul ignore else */
+        if (userPermissions) {
+            permissions = clone(userPermissions)
+        }
+
+        // Get the indirect permissions for the user, via their team
+        user.real_groups.forEach(group => {
+            permissions = setUnion(permissions, new Set(repositoryPermissions.teams[group]))
+        })
+
+        return permissions
+    }
+
+    /**
+     * What permissions does this user have for all packages?
+     *
+     * Anonymous users, without a name, can only read the packages of public repositories.
+     *
+     * When several organizations are configured, the permissions granted by each organization are merged,
+     * and the packages under a scope bound to other organizations are ignored.
+     *
+     * @param user - The user.
+     * @returns - The permissions for all packages.
+     */
+    packagePermissionsForUser(user: RemoteUser): Promise<PackagesPermissions> {
+        const username = user.name
+
+        if (this.organizations.length > 0) {
+            return Promise.all(
+                map(this.organizations, organization =>
+                    organization.plugin
+                        .packagePermissionsForUser(GithubAuthPlugin.organizationUser(user, organization.plugin.organization))
+                        .then(permissions => ({ organization, permissions }))
+                )
+            ).then(results => {
+                const packagePermissionsForUser: PackagesPermissions = {}
+
+                results.forEach(({ organization, permissions }) => {
+                    forOwn(permissions, (packagePermissions, packageName) => {
+                        if (includes(this.packageOrganizations(packageName), organization)) {
+                            packagePermissionsForUser[packageName] = setUnion(
+                                packagePermissionsForUser[packageName] ?? new Set(),
+                                packagePermissions
+                            )
+                        }
+                    })
+                })
+
+                return packagePermissionsForUser
+            })
+        }
+
+        // Fetch the list of packages
+        const packagePermissionsForUser = () => {
+            // The team permissions come from the team memberships, as the groups also hold the organizations
+            const sources = Promise.all([this.packageNames(), this.packageFiles(), this.teamUser(user)])
+            return sources.then(([packageNames, packageFiles, teamUser]) => {
+                // Get the list of repositories
+                return this.repositoryPermissions().then(allRepositoryPermissions => {
+                    const packagePermissionsForUser: PackagesPermissions = {}
+
+                    /**
+                     * Computes the permissions of the user on the packages of a repository.
+                     *
+                     * @param repoName - The name of the repository.
+                     * @returns The permissions.
+                     */
+                    const permissionsForRepository = (repoName: string): PackagePermissions => {
                         // Unknown repository -> no permissions
                         /* istanbul ignore next */
                         if (!allRepositoryPermissions[repoName]) {
-                            return
+                            return new Set()
                         }
 
                         const repositoryPermissions = allRepositoryPermissions[repoName]
-                        const userPackagePermissions = repositoryPermissions.users[username]
+                        const packagePermissions = this.userRepositoryPermissions(teamUser, repositoryPermissions)
+
+                        // The repository configuration can grant read access to every authenticated user, or to additional teams
+                        const config = packageFiles[repoName]?.config
+                        if (
+                            config &&
+                            ((config.public && username) || some(config.readTeams, t => teamUser.real_groups.includes(t)))
+                        ) {
+                            packagePermissions.add(readPermission)
+                        }
 
-                        // If the user has direct permissions, add them
-                        /* istanbul ignore else */
-                        if (userPackagePermissions) {
-                            packagePermissions = clone(userPackagePermissions)
+                        // The packages of public repositories can be read by everyone
+                        if (repositoryPermissions.public) {
+                            packagePermissions.add(readPermission)
                         }
 
-                        // Get the indirect permissions for the user, via their team
-                        user.real_groups.forEach(group => {
-                            packagePermissions = setUnion(packagePermissions, new Set(repositoryPermissions.teams[group]))
-                        })
+                        return packagePermissions
+                    }
+
+                    // The package patterns are keyed by pattern, alongside the package names
+                    const packageRepositories = { ...mapValues(this.packageMappings.patterns, r => [r]), ...packageNames }
+
+                    forOwn(packageRepositories, (repoNames, packageName) => {
+                        // Packages owned by several repositories get the union of the permissions
+                        const packagePermissions = reduce(
+                            repoNames,
+                            (permissions, repoName) => setUnion(permissions, permissionsForRepository(repoName)),
+                            <PackagePermissions>new Set()
+                        )
 
                         /* istanbul ignore else */
                         if (packagePermissions.size > 0) {
@@ -492,7 +1314,232 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
             })
         }
 
-        return this.cache.get(`packagePermissionsForUser_${<string>user.name}`, packagePermissionsForUser)
+        // The key of anonymous users can't clash with a Github login, as logins can't contain spaces
+        const key = username ? `packagePermissionsForUser_${username}` : 'packagePermissionsForUser anonymous'
+        return this.cache.get(key, packagePermissionsForUser)
+    }
+
+    /**
+     * Detects the features of the GraphQL schema, as older Github Enterprise Server versions lack some of its fields.
+     *
+     * @returns A promise of the schema features.
+     */
+    schemaFeatures(): Promise<SchemaFeatures> {
+        // github.com always serves the latest schema
+        if (this.endpoints.apiUrl === defaultApiUrl) {
+            return Promise.resolve({ permissionSources: true, bypassAllowances: true })
+        }
+
+        const schemaFeatures = () => {
+            return this.client
+                .get<s.GetSchemaFeaturesQuery, s.GetSchemaFeaturesQueryVariables>(s.GetSchemaFeatures)
+                .then(response => {
+                    /* istanbul ignore next */
+                    const collaboratorFields = map(response.collaboratorEdge?.fields ?? [], f => f.name)
+                    /* istanbul ignore next */
+                    const branchProtectionRuleFields = map(response.branchProtectionRule?.fields ?? [], f => f.name)
+                    const features = {
+                        permissionSources: includes(collaboratorFields, 'permissionSources'),
+                        bypassAllowances: includes(branchProtectionRuleFields, 'bypassPullRequestAllowances')
+                    }
+
+                    this.logger.trace({ features }, 'schemaFeatures: @{features}')
+
+                    return features
+                })
+        }
+
+        return this.cache.get('schemaFeatures', schemaFeatures)
+    }
+
+    /**
+     * Retrieves the permissions of the repositories of the organization and of the extra repositories, falling back
+     * to the effective permission of each collaborator when the schema lacks their permission sources.
+     * The custom repository roles are resolved to the permissions they're based on.
+     *
+     * @returns A promise of the repository permissions, the extra repositories are named `owner/name`.
+     */
+    repositoryPermissionNodes(): Promise<s.RepositoryPermissionsFragment[]> {
+        return this.schemaFeatures().then(features => {
+            const variables = {
+                login: this.organization,
+                branchProtection: this.branchProtection,
+                bypassAllowances: features.bypassAllowances,
+                affiliation: this.affiliation
+            }
+            let repositories: Promise<s.RepositoryPermissionsFragment[]>
+
+            if (features.permissionSources) {
+                /* istanbul ignore next */
+                const pageInfo: PageInfoExtractor<s.GetOrganizationRepositoryPermissionsQuery> = page =>
+                    page.organization?.repositories.pageInfo
+
+                repositories = this.client
+                    .getAll<s.GetOrganizationRepositoryPermissionsQuery, s.GetOrganizationRepositoryPermissionsQueryVariables>(
+                        s.GetOrganizationRepositoryPermissions,
+                        variables,
+                        pageInfo
+                    )
+                    .then(pages => organizationRepositories(pages))
+            } else {
+                /* istanbul ignore next */
+                const legacyPageInfo: PageInfoExtractor<s.GetOrganizationRepositoryPermissionsLegacyQuery> = page =>
+                    page.organization?.repositories.pageInfo
+
+                repositories = this.client
+                    .getAll<
+                        s.GetOrganizationRepositoryPermissionsLegacyQuery,
+                        s.GetOrganizationRepositoryPermissionsLegacyQueryVariables
+                    >(s.GetOrganizationRepositoryPermissionsLegacy, variables, legacyPageInfo)
+                    .then(pages => map(organizationRepositories(pages), legacyRepositoryPermissions))
+            }
+
+            const extraRepositories = Promise.all(
+                map(this.extraRepositories, repositoryName => this.extraRepositoryPermissions(repositoryName, features))
+            )
+
+            return Promise.all([repositories, extraRepositories]).then(([organizationRepositories, extraRepositories]) =>
+                this.resolveCustomRoles([...organizationRepositories, ...compact(extraRepositories)])
+            )
+        })
+    }
+
+    /**
+     * Retrieves the permissions of one of the extra repositories.
+     *
+     * @param repositoryName - The name of the repository, as `owner/name`.
+     * @param features - The features of the schema.
+     * @returns A promise of the repository permissions, named after the configured name, or undefined if the repository
+     * can't be found.
+     */
+    extraRepositoryPermissions(
+        repositoryName: string,
+        features: SchemaFeatures
+    ): Promise<s.RepositoryPermissionsFragment | undefined> {
+        const variables = {
+            ...this.repositoryCoordinates(repositoryName),
+            branchProtection: this.branchProtection,
+            bypassAllowances: features.bypassAllowances,
+            affiliation: this.affiliation
+        }
+
+        const repository = features.permissionSources
+            ? this.client
+                  .get<s.GetRepositoryPermissionsQuery, s.GetRepositoryPermissionsQueryVariables>(
+                      s.GetRepositoryPermissions,
+                      variables
+                  )
+                  .then(response => response.repository)
+            : this.client
+                  .get<s.GetRepositoryPermissionsLegacyQuery, s.GetRepositoryPermissionsLegacyQueryVariables>(
+                      s.GetRepositoryPermissionsLegacy,
+                      variables
+                  )
+                  .then(response => (response.repository ? legacyRepositoryPermissions(response.repository) : null))
+
+        return repository.then(repository => {
+            if (!repository) {
+                this.logger.warn({ repositoryName }, 'Extra repository @{repositoryName} not found')
+                return undefined
+            }
+
+            return { ...repository, name: repositoryName }
+        })
+    }
+
+    /**
+     * Retrieves the custom repository roles of the organization, mapped to the permissions they're based on.
+     * The configured custom roles take precedence.
+     *
+     * @returns A promise of the Github permissions, by lower case role name.
+     */
+    customRepositoryRoles(): Promise<Record<string, GithubPermission>> {
+        const customRepositoryRoles = () => {
+            return this.client
+                .getCustomRepositoryRoles(this.organization)
+                .then(roles => {
+                    const resolvedRoles: Record<string, GithubPermission> = {}
+
+                    roles.forEach(role => {
+                        // The roles without a base role stay unknown
+                        const permission = role.baseRole ? baseRolePermission(role.baseRole) : undefined
+
+                        if (permission) {
+                            resolvedRoles[role.name.toLowerCase()] = permission
+                        }
+                    })
+
+                    return resolvedRoles
+                })
+                .catch((err: Error) => {
+                    // Only available on Github Enterprise Cloud, and with the permission to read the roles
+                    this.logger.warn(
+                        { organization: this.organization, message: err.message },
+                        'Unable to read the custom repository roles of @{organization}: @{message}'
+                    )
+                    return {}
+                })
+                .then(roles => ({ ...roles, ...this.customRoles }))
+        }
+
+        return this.cache.get('customRepositoryRoles', customRepositoryRoles)
+    }
+
+    /**
+     * Resolves the custom repository roles granted by the permission sources to the permissions they're based on.
+     * The custom roles are only retrieved when some of the permissions are unknown, and the permissions that are
+     * still unknown are logged.
+     *
+     * @param repositories - The repository permissions.
+     * @returns A promise of the repository permissions, with the custom roles resolved.
+     */
+    resolveCustomRoles(repositories: s.RepositoryPermissionsFragment[]): Promise<s.RepositoryPermissionsFragment[]> {
+        /* istanbul ignore next */
+        const permissions = uniq(
+            flatten(
+                map(repositories, repository =>
+                    flatten(
+                        map(repository.collaborators?.edges ?? [], edge => map(edge?.permissionSources ?? [], p => p.permission))
+                    )
+                )
+            )
+        )
+        const unknownPermissions = filter(permissions, p => !has(this.permissionMap, p))
+
+        if (unknownPermissions.length === 0) {
+            return Promise.resolve(repositories)
+        }
+
+        return this.customRepositoryRoles().then(roles => {
+            unknownPermissions.forEach(permission => {
+                if (!roles[permission.toLowerCase()]) {
+                    this.logger.warn({ permission }, 'Unknown permission @{permission}, it grants no access')
+                }
+            })
+
+            const resolve = (permission: s.DefaultRepositoryPermissionField) =>
+                <s.DefaultRepositoryPermissionField>(
+                    (has(this.permissionMap, permission) ? permission : roles[permission.toLowerCase()] ?? permission)
+                )
+
+            /* istanbul ignore next */
+            return map(repositories, repository => ({
+                ...repository,
+                collaborators: repository.collaborators && {
+                    edges: map(repository.collaborators.edges ?? [], edge =>
+                        edge
+                            ? {
+                                  ...edge,
+                                  permissionSources: map(edge.permissionSources ?? [], p => ({
+                                      ...p,
+                                      permission: resolve(p.permission)
+                                  }))
+                              }
+                            : null
+                    )
+                }
+            }))
+        })
     }
 
     /**
@@ -504,76 +1551,149 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
         this.logger.trace('Getting repository permissions')
 
         const repositoryPermissions = () => {
-            /* istanbul ignore next */
-            const pageInfo: PageInfoExtractor<s.GetOrganizationRepositoryPermissionsQuery> = page =>
-                page.organization?.repositories.pageInfo
+            return this.repositoryPermissionNodes().then(repositories => {
+                const repositoryPermissions: Record<string, RepositoryPermissions> = {}
 
-            return this.client
-                .getAll<s.GetOrganizationRepositoryPermissionsQuery, s.GetOrganizationRepositoryPermissionsQueryVariables>(
-                    s.GetOrganizationRepositoryPermissions,
-                    { login: this.organization },
-                    pageInfo
-                )
-                .then(response => {
-                    const repositoryPermissions: Record<string, RepositoryPermissions> = {}
+                repositories.forEach(node => {
+                    // The repository filters only apply to the repositories of the organization
+                    if (!includes(this.extraRepositories, node.name) && !this.isRepositorySelected(node)) {
+                        return
+                    }
 
-                    response.forEach(page => {
-                        /* istanbul ignore next */
-                        const repos = page.organization?.repositories.edges ?? []
-                        repos.forEach(repo => {
-                            // A little bit of type-wrangling
-                            repo = <Definite<typeof repo>>repo
-                            let node = repo.node
-                            node = <Definite<typeof node>>node
+                    const permissions: RepositoryPermissions = {
+                        users: {},
+                        teams: {},
+                        public: node.visibility === s.RepositoryVisibility.Public
+                    }
+                    repositoryPermissions[node.name] = permissions
 
-                            const permissions: RepositoryPermissions = { users: {}, teams: {} }
-                            repositoryPermissions[node.name] = permissions
+                    // The packages of archived repositories can still be installed, but not published
+                    const archived = this.archivedRepositoriesReadOnly && node.isArchived
 
-                            /* istanbul ignore next */
-                            const collaborators = node.collaborators?.edges ?? []
-
-                            collaborators.forEach(collaborator => {
-                                collaborator = <Definite<typeof collaborator>>collaborator
-                                const username = collaborator.node.login.toLowerCase()
-                                /* istanbul ignore next */
-                                const permissionSources = collaborator.permissionSources ?? []
-                                let userPermissions = new Set<PackagePermission>()
-                                let teamName: string
-
-                                permissionSources.forEach(source => {
-                                    const mappedPermission = this.mapPermission(source.permission)
-
-                                    switch (source.source.__typename) {
-                                        case 'Organization':
-                                        case 'Repository':
-                                            // Here we deal with permissions that come from the Repo, or the Organization
-                                            userPermissions = setUnion(userPermissions, mappedPermission)
-                                            break
-                                        case 'Team':
-                                            // Here we deal with permissions from the teams
-                                            // We want to build up the set of permissions for a team
-                                            // by collect the permissions that a user acquires through membership
-                                            // of that team
-                                            teamName = source.source.name
-                                            permissions.teams[teamName] = setUnion(
-                                                permissions.teams[teamName] || new Set(),
-                                                mappedPermission
-                                            )
+                    // Only fetched when the branch protection is honoured
+                    const protectionRule = node.defaultBranchRef?.branchProtectionRule
+
+                    /* istanbul ignore next */
+                    const collaborators = node.collaborators?.edges ?? []
+
+                    collaborators.forEach(collaborator => {
+                        collaborator = <Definite<typeof collaborator>>collaborator
+                        const username = collaborator.node.login.toLowerCase()
+                        /* istanbul ignore next */
+                        const permissionSources = collaborator.permissionSources ?? []
+                        let userPermissions = new Set<PackagePermission>()
+                        let teamName: string
+
+                        permissionSources.forEach(source => {
+                            const permission = this.sourcePermission(source.permission)
+                            const mappedPermission = archived ? readOnly(permission) : permission
+
+                            switch (source.source.__typename) {
+                                case 'Organization':
+                                case 'Repository':
+                                    // Here we deal with permissions that come from the Repo, or the Organization
+                                    userPermissions = setUnion(userPermissions, mappedPermission)
+                                    break
+                                case 'Team':
+                                    // With the DIRECT affiliation, the teams don't grant access on their own,
+                                    // the collaborators keep the permissions they get through their teams
+                                    if (this.affiliation === s.CollaboratorAffiliation.Direct) {
+                                        userPermissions = setUnion(userPermissions, mappedPermission)
+                                        break
                                     }
-                                })
 
-                                permissions.users[username] = userPermissions
-                            })
+                                    // Here we deal with permissions from the teams
+                                    // We want to build up the set of permissions for a team
+                                    // by collect the permissions that a user acquires through membership
+                                    // of that team
+                                    teamName = source.source.name
+                                    permissions.teams[teamName] = setUnion(
+                                        permissions.teams[teamName] || new Set(),
+                                        mappedPermission
+                                    )
+                            }
                         })
-                    })
 
-                    this.logger.trace({ repositoryPermissions }, 'repositoryPermissions: @{repositoryPermissions}')
+                        // The users who can write to the repository can only publish if they can push to the protected branch.
+                        // It depends on the user, so the write permission is given to the user, rather than to their teams.
+                        if (protectionRule) {
+                            const writer = some(permissionSources, p => this.sourcePermission(p.permission).has(writePermission))
+                            const unpublisher = some(permissionSources, p =>
+                                this.sourcePermission(p.permission).has(unpublishPermission)
+                            )
+                            const actor = {
+                                login: username,
+                                teams: compact(
+                                    map(permissionSources, p => (p.source.__typename === 'Team' ? p.source.name : undefined))
+                                ),
+                                admin: some(permissionSources, p => p.permission === s.DefaultRepositoryPermissionField.Admin)
+                            }
 
-                    return repositoryPermissions
+                            if (writer && !archived && canPushToProtectedBranch(protectionRule, actor)) {
+                                userPermissions = new Set([readPermission, writePermission])
+
+                                if (unpublisher) {
+                                    userPermissions.add(unpublishPermission)
+                                }
+                            } else {
+                                userPermissions = readOnly(userPermissions)
+                            }
+                        }
+
+                        permissions.users[username] = userPermissions
+                    })
+
+                    if (protectionRule) {
+                        permissions.teams = mapValues(permissions.teams, readOnly)
+                    }
                 })
+
+                this.logger.trace({ repositoryPermissions }, 'repositoryPermissions: @{repositoryPermissions}')
+
+                return repositoryPermissions
+            })
         }
 
-        return this.cache.get('repositoryPermissions', repositoryPermissions)
+        return this.cache.get('repositoryPermissions', () =>
+            repositoryPermissions().then(permissions => this.restrictOutsideCollaborators(permissions))
+        )
+    }
+
+    /**
+     * Applies the outside collaborators policy to the permissions of the users who aren't members of the organization.
+     *
+     * The extra repositories are left untouched, since their collaborators, starting with their owner, are rarely members.
+     *
+     * @param repositoryPermissions - The permissions of the repositories.
+     * @returns A promise of the permissions of the repositories, restricted for the outside collaborators.
+     */
+    restrictOutsideCollaborators(
+        repositoryPermissions: Record<string, RepositoryPermissions>
+    ): Promise<Record<string, RepositoryPermissions>> {
+        if (this.outsideCollaborators === 'full') {
+            return Promise.resolve(repositoryPermissions)
+        }
+
+        return this.getOrganizationMembers().then(members =>
+            mapValues(repositoryPermissions, (permissions, repositoryName) => {
+                if (includes(this.extraRepositories, repositoryName)) {
+                    return permissions
+                }
+
+                return {
+                    ...permissions,
+                    users: mapValues(permissions.users, (userPermissions, login) => {
+                        if (includes(members, login)) {
+                            return userPermissions
+                        }
+
+                        return this.outsideCollaborators === 'read-only'
+                            ? readOnly(userPermissions)
+                            : new Set<PackagePermission>()
+                    })
+                }
+            })
+        )
     }
 
     /**
@@ -591,33 +1711,149 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
         }
     }
 
+    /**
+     * Checks that the manifest is meant to be published to the registry, when a `registryUrl` is configured.
+     *
+     * @param repositoryName - The name of the repository, used for logging.
+     * @param manifest - The manifest.
+     * @returns True if the manifest can claim its package name.
+     */
+    isPublishedManifest(repositoryName: string, manifest: Manifest): boolean {
+        if (!this.registryUrl) {
+            return true
+        }
+
+        const reason = publishRejectionReason(manifest.content, this.registryUrl)
+
+        if (reason) {
+            this.logger.debug(
+                { repositoryName, path: manifest.path, reason },
+                'Manifest @{path} of @{repositoryName} ignored: @{reason}'
+            )
+        }
+
+        return !reason
+    }
+
+    /**
+     * Checks that the `repository` field of the manifest points back to the repository, when `verifyRepositoryField` is enabled.
+     *
+     * @param repositoryName - The name of the repository the manifest was read from.
+     * @param manifest - The manifest.
+     * @returns True if the manifest can claim its package name.
+     */
+    isVerifiedManifest(repositoryName: string, manifest: Manifest): boolean {
+        if (!this.verifyRepositoryField) {
+            return true
+        }
+
+        const reason = repositoryFieldMismatch(manifest.content, {
+            ...this.repositoryCoordinates(repositoryName),
+            path: manifest.path
+        })
+
+        if (reason) {
+            this.logger.warn(
+                { repositoryName, path: manifest.path, reason },
+                'Manifest @{path} of @{repositoryName} ignored: @{reason}'
+            )
+        }
+
+        return !reason
+    }
+
     /**
      * Retrieve the list of package names and associated repositories.
      *
-     * @returns - A promise of an object mapping package names to repositories.
+     * When several repositories claim the same package name, the `duplicatePackagePolicy` decides which ones own it,
+     * and packages that are in the ownership ledger stay bound to the repository in the ledger.
+     *
+     * @returns - A promise of an object mapping package names to the repositories that own them.
      */
-    packageNames(): Promise<Record<string, string>> {
+    packageNames(): Promise<Record<string, string[]>> {
         this.logger.trace('Getting package names')
 
         const packageNames = () => {
-            return this.packageFiles().then(packageFiles => {
-                const packageNames: Record<string, string> = {}
+            /* istanbul ignore next */
+            const ledger = this.ownershipLedger ? this.ownershipLedger.load() : Promise.resolve({})
+
+            return Promise.all([this.packageFiles(), ledger]).then(([packageFiles, ledgerEntries]) => {
+                const claims: PackageClaims = {}
+
+                const claim = (packageName: string, repositoryName: string) => {
+                    claims[packageName] = [...(claims[packageName] ?? []), repositoryName]
+                }
+
+                forOwn(packageFiles, ({ manifests, config }, repositoryName) => {
+                    // The repository filters only apply to the repositories of the organization
+                    if (!includes(this.extraRepositories, repositoryName)) {
+                        if (this.includeRepositories && !includes(this.includeRepositories, repositoryName)) return
+                        if (this.excludeRepositories && includes(this.excludeRepositories, repositoryName)) return
+                        if (this.repositoryPattern && !this.repositoryPattern.test(repositoryName)) return
+                    }
+
+                    let hasManifestName = false
 
-                forOwn(packageFiles, (packageFileContent, repositoryName) => {
-                    if (this.includeRepositories && !includes(this.includeRepositories, repositoryName)) return
-                    if (this.excludeRepositories && includes(this.excludeRepositories, repositoryName)) return
-                    if (this.repositoryPattern && !this.repositoryPattern.test(repositoryName)) return
+                    manifests.forEach(manifest => {
+                        const packageName = GithubAuthPlugin.getPackageName(manifest.content)
 
-                    const packageName = GithubAuthPlugin.getPackageName(packageFileContent)
+                        if (packageName) {
+                            hasManifestName = true
 
-                    if (packageName) {
-                        packageNames[packageName] = repositoryName
+                            if (
+                                this.isPublishedManifest(repositoryName, manifest) &&
+                                this.isVerifiedManifest(repositoryName, manifest)
+                            ) {
+                                claim(packageName, repositoryName)
+                            }
+                        }
+                    })
+
+                    // Repositories without a package name get one from the template, if there is one
+                    if (!hasManifestName && this.packageNameTemplate) {
+                        const { owner, name } = this.repositoryCoordinates(repositoryName)
+                        claim(this.packageNameTemplate({ repo: name, org: owner }), repositoryName)
+                    }
+
+                    // The additional packages declared in the repository configuration have no manifest to verify,
+                    // the strict modes ignore them
+                    if (config?.packages.length && (this.verifyRepositoryField || this.registryUrl)) {
+                        this.logger.warn(
+                            { repositoryName, packageNames: config.packages },
+                            'Packages @{packageNames} of the configuration of @{repositoryName} ignored: no manifest to verify'
+                        )
+                    } else {
+                        config?.packages.forEach(packageName => claim(packageName, repositoryName))
                     }
                 })
 
-                this.logger.trace({ packageNames }, 'packageNames: @{packageNames}')
+                const { owners, conflicts, newEntries } = resolvePackageOwners(claims, this.duplicatePackagePolicy, ledgerEntries)
+
+                forOwn(conflicts, (repositories, packageName) => {
+                    this.logger.warn(
+                        { packageName, repositories, policy: this.duplicatePackagePolicy },
+                        'Package @{packageName} is claimed by several repositories: @{repositories}, applying the @{policy} policy'
+                    )
+                })
+
+                // The configured package mappings take precedence over the discovered package names
+                forOwn(this.packageMappings.names, (repositoryName, packageName) => {
+                    owners[packageName] = [repositoryName]
+                })
 
-                return packageNames
+                this.logger.trace({ packageNames: owners }, 'packageNames: @{packageNames}')
+
+                if (!this.ownershipLedger) {
+                    return owners
+                }
+
+                // Failing to persist the ledger doesn't prevent access, the claims will be recorded on the next attempt
+                return this.ownershipLedger
+                    .record(newEntries)
+                    .catch((err: Error) => {
+                        this.logger.error({ message: err.message }, 'Unable to update the ownership ledger: @{message}')
+                    })
+                    .then(() => owners)
             })
         }
 
@@ -625,11 +1861,282 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
     }
 
     /**
-     * Retrieves the package.json contents for each repository.
+     * Builds the Git object expression used to locate a file in a repository.
+     *
+     * @param path - The path of the file in the repository.
+     * @param branch - The branch to read from, defaults to the repository's default branch.
+     * @returns The object expression.
+     */
+    static fileExpression(path: string, branch?: string): string {
+        return `${branch ?? 'HEAD'}:${path}`
+    }
+
+    /**
+     * The branch from which the packages of a repository are read.
+     *
+     * @param repositoryName - The name of the repository.
+     * @returns The branch, or undefined for the repository's default branch.
+     */
+    repositoryBranch(repositoryName: string): string | undefined {
+        return this.repositoryOverrides[repositoryName]?.packageBranch ?? this.packageBranch
+    }
+
+    /**
+     * The owner and the name of a repository, the extra repositories are named `owner/name`.
+     *
+     * @param repositoryName - The name of the repository.
+     * @returns The owner and the name of the repository.
+     */
+    repositoryCoordinates(repositoryName: string): { owner: string; name: string } {
+        if (includes(this.extraRepositories, repositoryName)) {
+            const [owner, name] = repositoryName.split('/')
+            return { owner, name }
+        }
+
+        return { owner: this.organization, name: repositoryName }
+    }
+
+    /**
+     * Reads the text of a Git object, if it's a non-empty Blob.
+     *
+     * GraphQL doesn't return the text of binary and truncated blobs, so they are retrieved through the REST API instead.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param path - The path of the file, used for logging.
+     * @param object - The Git object.
+     * @returns A promise of the text of the blob, or undefined if there is none or it can't be read.
+     */
+    blobText(repositoryName: string, path: string, object: s.Maybe<GitObject> | undefined): Promise<string | undefined> {
+        if (object?.__typename !== 'Blob') {
+            return Promise.resolve(undefined)
+        }
+
+        if (!object.isBinary && !object.isTruncated && object.text !== null) {
+            return Promise.resolve(object.text || undefined)
+        }
+
+        const reason = object.isBinary
+            ? 'the blob is binary'
+            : object.isTruncated
+            ? 'the blob is truncated'
+            : 'the blob has no text'
+        this.logger.debug({ repositoryName, path, reason }, 'Getting the raw blob of @{path} in @{repositoryName}: @{reason}')
+
+        const { owner, name } = this.repositoryCoordinates(repositoryName)
+
+        return this.client.getBlob(owner, name, object.oid).then(
+            text => text || undefined,
+            (err: Error) => {
+                this.logger.warn(
+                    { repositoryName, path, reason, message: err.message },
+                    'Unable to read @{path} in @{repositoryName}, @{reason}: @{message}'
+                )
+                return undefined
+            }
+        )
+    }
+
+    /**
+     * Extracts the package.json, the workspace configuration files and the repository configuration
+     * from a repository query result.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param repository - The repository.
+     * @returns A promise of the files.
+     */
+    rootFiles(repositoryName: string, repository: s.Maybe<RootFilesObjects> | undefined): Promise<RootFiles> {
+        return Promise.all([
+            this.blobText(repositoryName, rootManifestPath, repository?.object),
+            this.blobText(repositoryName, 'pnpm-workspace.yaml', repository?.pnpmWorkspace),
+            this.blobText(repositoryName, 'lerna.json', repository?.lernaConfig),
+            this.blobText(repositoryName, repositoryConfigPath, repository?.verdaccioConfig)
+        ]).then(([packageFile, pnpmWorkspace, lernaConfig, verdaccioConfig]) => ({
+            packageFile,
+            pnpmWorkspace,
+            lernaConfig,
+            verdaccioConfig
+        }))
+    }
+
+    /**
+     * Retrieves the contents of a file in a repository.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param path - The path of the file in the repository.
+     * @param branch - The branch to read from.
+     * @returns A promise of the contents of the file, or undefined if there is none.
+     */
+    repositoryFile(repositoryName: string, path: string, branch?: string): Promise<string | undefined> {
+        return this.client
+            .get<s.GetRepositoryFileQuery, s.GetRepositoryFileQueryVariables>(s.GetRepositoryFile, {
+                ...this.repositoryCoordinates(repositoryName),
+                expression: GithubAuthPlugin.fileExpression(path, branch)
+            })
+            .then(response => this.blobText(repositoryName, path, response.repository?.object))
+    }
+
+    /**
+     * Lists the sub-directories of a directory in a repository.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param path - The path of the directory, the empty string for the root of the repository.
+     * @param branch - The branch to read from.
+     * @returns A promise of the names of the sub-directories.
+     */
+    repositoryDirectories(repositoryName: string, path: string, branch?: string): Promise<string[]> {
+        return this.client
+            .get<s.GetRepositoryDirectoriesQuery, s.GetRepositoryDirectoriesQueryVariables>(s.GetRepositoryDirectories, {
+                ...this.repositoryCoordinates(repositoryName),
+                expression: GithubAuthPlugin.fileExpression(path, branch)
+            })
+            .then(response => {
+                const object = response.repository?.object
+
+                if (object?.__typename !== 'Tree') {
+                    return []
+                }
+
+                /* istanbul ignore next */
+                const entries = object.entries ?? []
+                return map(
+                    filter(entries, e => e.type === 'tree'),
+                    e => e.name
+                )
+            })
+    }
+
+    /**
+     * Retrieves the package.json, workspace configuration and repository configuration files at the root of a repository.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param branch - The branch to read from, defaults to the repository's default branch.
+     * @returns A promise of the files.
+     */
+    repositoryRootFiles(repositoryName: string, branch?: string): Promise<RootFiles> {
+        this.logger.trace({ repositoryName, branch }, 'Getting package file for @{repositoryName} on @{branch}')
+
+        return this.client
+            .get<s.GetRepositoryPackageFileQuery, s.GetRepositoryPackageFileQueryVariables>(s.GetRepositoryPackageFile, {
+                ...this.repositoryCoordinates(repositoryName),
+                ...GithubAuthPlugin.rootFileExpressions(branch)
+            })
+            .then(response => this.rootFiles(repositoryName, response.repository))
+    }
+
+    /**
+     * Builds the object expressions for the package.json, the workspace configuration and the repository configuration files.
      *
-     * @returns A promise of an object mapping repository names to the contents of the package.json in the repository.
+     * @param branch - The branch to read from, defaults to the repository's default branch.
+     * @returns The object expressions, as query variables.
      */
-    packageFiles(): Promise<Record<string, string>> {
+    static rootFileExpressions(branch?: string): Omit<s.GetRepositoryPackageFileQueryVariables, 'owner' | 'name'> {
+        return {
+            expression: GithubAuthPlugin.fileExpression('package.json', branch),
+            pnpmWorkspaceExpression: GithubAuthPlugin.fileExpression('pnpm-workspace.yaml', branch),
+            lernaConfigExpression: GithubAuthPlugin.fileExpression('lerna.json', branch),
+            verdaccioConfigExpression: GithubAuthPlugin.fileExpression(repositoryConfigPath, branch)
+        }
+    }
+
+    /**
+     * The paths of the manifests of a repository, relative to the root of the repository.
+     *
+     * @param repositoryName - The name of the repository.
+     * @returns The paths or globs of the manifests.
+     */
+    repositoryManifestPaths(repositoryName: string): string[] {
+        return this.repositoryOverrides[repositoryName]?.manifestPaths ?? this.manifestPaths
+    }
+
+    /**
+     * Retrieves the manifests found at the configured manifest paths of the repository.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param files - The package.json and workspace configuration files at the root of the repository.
+     * @returns A promise of the manifests.
+     */
+    configuredManifests(repositoryName: string, files: WorkspaceFiles): Promise<Manifest[]> {
+        const branch = this.repositoryBranch(repositoryName)
+
+        return expandManifestPaths(this.repositoryManifestPaths(repositoryName), path =>
+            this.repositoryDirectories(repositoryName, path, branch)
+        ).then(paths =>
+            this.fetchManifests(repositoryName, paths, branch, path => {
+                // The root package.json has already been retrieved
+                return path === rootManifestPath ? Promise.resolve(files.packageFile) : undefined
+            })
+        )
+    }
+
+    /**
+     * Retrieves the manifests of each workspace package declared in the repository.
+     *
+     * Workspaces can be declared via the `workspaces` key of the package.json (npm/yarn), a
+     * `pnpm-workspace.yaml` file or a `lerna.json` file.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param files - The package.json and workspace configuration files at the root of the repository.
+     * @returns A promise of the workspace manifests.
+     */
+    workspaceManifests(repositoryName: string, files: WorkspaceFiles): Promise<Manifest[]> {
+        const patterns = workspacePatterns(files)
+
+        if (patterns.length === 0) {
+            return Promise.resolve([])
+        }
+
+        const branch = this.repositoryBranch(repositoryName)
+        this.logger.trace({ repositoryName, patterns }, 'Expanding workspaces for @{repositoryName}: @{patterns}')
+
+        return expandWorkspacePatterns(patterns, path => this.repositoryDirectories(repositoryName, path, branch)).then(
+            directories =>
+                this.fetchManifests(
+                    repositoryName,
+                    map(directories, d => joinPath(d, rootManifestPath)),
+                    branch
+                )
+        )
+    }
+
+    /**
+     * Retrieves the manifests at the given paths, skipping the paths that don't exist.
+     *
+     * @param repositoryName - The name of the repository.
+     * @param paths - The paths of the manifests.
+     * @param branch - The branch to read from.
+     * @param known - Provides the content of manifests that have already been retrieved.
+     * @returns A promise of the manifests.
+     */
+    fetchManifests(
+        repositoryName: string,
+        paths: string[],
+        branch?: string,
+        known?: (path: string) => Promise<string | undefined> | undefined
+    ): Promise<Manifest[]> {
+        return Promise.all(
+            map(paths, path => {
+                const content = known?.(path) ?? this.repositoryFile(repositoryName, path, branch)
+                return content.then(c => (c === undefined ? undefined : { path, content: c }))
+            })
+        ).then(manifests => <Manifest[]>filter(manifests, m => m !== undefined))
+    }
+
+    /**
+     * Retrieves the manifests and the configuration for each repository.
+     *
+     * The manifests are read from the repository's default branch, unless a `packageBranch`
+     * is configured, either globally or for the repository. By default, the manifest is the root
+     * package.json, unless `manifestPaths` are configured. For monorepos, the manifest of
+     * each workspace package is also retrieved.
+     *
+     * The repository configuration is read from the `.verdaccio.yml` file, or the `verdaccio` key of the root package.json.
+     *
+     * The files are only downloaded for every repository on the first sync. The following syncs only list the repositories,
+     * and fetch the files of the repositories that were pushed to, or whose root files changed, since the previous sync.
+     *
+     * @returns A promise of an object mapping the selected repository names to the manifests and configuration of the repository.
+     */
+    packageFiles(): Promise<Record<string, RepositoryPackageFiles>> {
         this.logger.trace('Getting packages files')
 
         return this.cache.get('packageFiles', () => {
@@ -637,14 +2144,61 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
             const pageInfo: PageInfoExtractor<s.GetOrganizationPackageFilesQuery> = page =>
                 page.organization?.repositories.pageInfo
 
+            const previousSnapshots = this.snapshots
+
             return this.client
                 .getAll<s.GetOrganizationPackageFilesQuery, s.GetOrganizationPackageFilesQueryVariables>(
                     s.GetOrganizationPackageFiles,
-                    { login: this.organization },
+                    {
+                        login: this.organization,
+                        ...GithubAuthPlugin.rootFileExpressions(this.packageBranch),
+                        // The contents of the files are fetched separately for the changed repositories
+                        withText: previousSnapshots === undefined
+                    },
                     pageInfo
                 )
                 .then(results => {
-                    const packageFiles: Record<string, string> = {}
+                    const repositorySnapshots: Promise<[string, RepositorySnapshot]>[] = []
+
+                    /**
+                     * Retrieves the manifests of the repository, along with those of its workspaces and its configuration.
+                     *
+                     * @param repositoryName - The name of the repository.
+                     * @param files - The files at the root of the repository.
+                     * @param branch - The name of the branch, used for logging.
+                     * @returns A promise of the package files of the repository.
+                     */
+                    const repositoryPackageFiles = (
+                        repositoryName: string,
+                        files: RootFiles,
+                        branch?: string
+                    ): Promise<RepositoryPackageFiles> => {
+                        const { config, errors } = parseRepositoryConfig(files.verdaccioConfig, files.packageFile)
+
+                        if (errors.length > 0) {
+                            this.logger.warn(
+                                { repositoryName, errors },
+                                'Invalid repository configuration for @{repositoryName}: @{errors}'
+                            )
+                        }
+
+                        return Promise.all([
+                            this.configuredManifests(repositoryName, files),
+                            this.workspaceManifests(repositoryName, files)
+                        ]).then(([configuredManifests, workspaceManifests]) => {
+                            const manifests = uniqBy([...configuredManifests, ...workspaceManifests], m => m.path)
+
+                            if (manifests.length === 0) {
+                                this.logger.trace(
+                                    { repositoryName, branch },
+                                    'No package.json found for @{repositoryName} on @{branch}'
+                                )
+                            }
+
+                            // Repositories without manifests are kept, they can still own packages via the package name template
+                            return config ? { manifests, config } : { manifests }
+                        })
+                    }
 
                     results.forEach(page => {
                         /* istanbul ignore next */
@@ -654,20 +2208,85 @@ class GithubAuthPlugin implements IPluginAuth<AllowAccess> {
                             repo = <Definite<typeof repo>>repo
 
                             /* istanbul ignore next */
-                            if (!repo.node?.object) {
+                            if (!repo.node || !this.isRepositorySelected(repo.node)) {
                                 return
                             }
 
-                            /* istanbul ignore else */
-                            if (repo.node.object.__typename === 'Blob' && repo.node.object.text) {
-                                packageFiles[repo.node.name] = repo.node.object.text
+                            const repositoryName = repo.node.name
+
+                            // Forks can't claim package names, they would take over the packages of the original repository
+                            if (this.excludeForks && repo.node.isFork) {
+                                this.logger.trace({ repositoryName }, 'Fork @{repositoryName} excluded from the packages')
+                                return
                             }
+
+                            const pushedAt = <string | null>repo.node.pushedAt
+                            const objectIds = rootObjectIds(repo.node)
+                            const previous = previousSnapshots?.[repositoryName]
+
+                            if (previous && previous.pushedAt === pushedAt && isEqual(previous.objectIds, objectIds)) {
+                                this.logger.trace(
+                                    { repositoryName },
+                                    'Repository @{repositoryName} unchanged since the last sync'
+                                )
+                                repositorySnapshots.push(Promise.resolve([repositoryName, previous]))
+                                return
+                            }
+
+                            const overrideBranch = this.repositoryOverrides[repositoryName]?.packageBranch
+                            const branch = overrideBranch ?? this.packageBranch ?? repo.node.defaultBranchRef?.name
+                            let files: Promise<RootFiles>
+
+                            if (overrideBranch) {
+                                // Repositories with a branch override are fetched individually
+                                files = this.repositoryRootFiles(repositoryName, overrideBranch).then(f => {
+                                    if (!f.packageFile) {
+                                        this.logger.warn(
+                                            { repositoryName, branch: overrideBranch },
+                                            'No package.json found for @{repositoryName} on configured branch @{branch}'
+                                        )
+                                    }
+                                    return f
+                                })
+                            } else if (previousSnapshots !== undefined) {
+                                // The contents of the files weren't fetched with the list of repositories
+                                files = this.repositoryRootFiles(repositoryName, this.packageBranch)
+                            } else {
+                                files = this.rootFiles(repositoryName, repo.node)
+                            }
+
+                            repositorySnapshots.push(
+                                files
+                                    .then(f => repositoryPackageFiles(repositoryName, f, branch))
+                                    .then(packageFiles => [repositoryName, { pushedAt, objectIds, packageFiles }])
+                            )
                         })
                     })
 
-                    this.logger.trace({ packageFiles }, 'packageFiles: @{packageFiles}')
+                    // The extra repositories are always fetched individually, after those of the organization
+                    const extraPackageFiles = map(this.extraRepositories, repositoryName => {
+                        const branch = this.repositoryBranch(repositoryName)
+
+                        return this.repositoryRootFiles(repositoryName, branch)
+                            .then(files => repositoryPackageFiles(repositoryName, files, branch))
+                            .then((packageFiles): [string, RepositoryPackageFiles] => [repositoryName, packageFiles])
+                    })
+
+                    // The repositories are kept in the order of the query, the oldest first, as it decides who claimed a package first
+                    return Promise.all([Promise.all(repositorySnapshots), Promise.all(extraPackageFiles)]).then(
+                        ([entries, extraEntries]) => {
+                            this.snapshots = fromPairs(entries)
 
-                    return packageFiles
+                            const packageFiles = {
+                                ...mapValues(this.snapshots, snapshot => snapshot.packageFiles),
+                                ...fromPairs(extraEntries)
+                            }
+
+                            this.logger.trace({ packageFiles }, 'packageFiles: @{packageFiles}')
+
+                            return packageFiles
+                        }
+                    )
                 })
         })
     }
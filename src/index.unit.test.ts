@@ -10,7 +10,11 @@ import GithubAuthPlugin, {
 import { GraphQLClient } from './graphql'
 import { Logger, Config, RemoteUser } from '@verdaccio/types'
 import * as s from './schemaTypes'
+import { compilePackageNameTemplate } from './packageNameTemplate'
+import { OwnershipLedger } from './ownership'
 import { map } from 'lodash'
+import { apiEndpoints } from './endpoints'
+import { OutsideCollaboratorsPolicy } from './outsideCollaborators'
 
 jest.mock('./graphql')
 
@@ -21,12 +25,13 @@ type MockedGraphQLClientInstance = jest.Mocked<GraphQLClient>
 
 const readPermission = 'read'
 const writePermission = 'write'
+const unpublishPermission = 'unpublish'
 
-type Permission = typeof readPermission | typeof writePermission
+type Permission = typeof readPermission | typeof writePermission | typeof unpublishPermission
 type GithubPermissionKey = s.RepositoryPermission | s.DefaultRepositoryPermissionField
 
 const permissionsMap: Record<GithubPermissionKey, Set<Permission>> = {
-    ADMIN: new Set([readPermission, writePermission]),
+    ADMIN: new Set([readPermission, writePermission, unpublishPermission]),
     WRITE: new Set([readPermission, writePermission]),
     READ: new Set([readPermission]),
     MAINTAIN: new Set([readPermission, writePermission]),
@@ -47,6 +52,38 @@ const expectSetsToBeStrictlyEqual = <T>(a: Set<T>, b: Set<T>) => {
     expect([...a].sort()).toStrictEqual([...b].sort())
 }
 
+const repositoryMetadata = (name: string): s.RepositoryMetadataFragment => ({
+    name,
+    visibility: s.RepositoryVisibility.Private,
+    isArchived: false,
+    isFork: false,
+    primaryLanguage: null,
+    repositoryTopics: {
+        nodes: []
+    }
+})
+
+type PackageFilesEdges = NonNullable<s.GetOrganizationPackageFilesQuery['organization']>['repositories']['edges']
+type PackageFilesNode = NonNullable<NonNullable<NonNullable<PackageFilesEdges>[number]>['node']>
+
+const repositoryNode = (name: string, pushedAt: string, packageFile: string | null): PackageFilesNode => ({
+    ...repositoryMetadata(name),
+    pushedAt,
+    defaultBranchRef: {
+        name: 'main'
+    },
+    object: {
+        __typename: 'Blob',
+        oid: `${name}_${pushedAt}`,
+        isBinary: false,
+        isTruncated: false,
+        text: packageFile
+    },
+    pnpmWorkspace: null,
+    lernaConfig: null,
+    verdaccioConfig: null
+})
+
 describe('index.js unit tests', () => {
     describe('setUnion', () => {
         it('creates the union of two sets', () => {
@@ -58,6 +95,424 @@ describe('index.js unit tests', () => {
         let plugin: GithubAuthPlugin
         let mockedClient: MockedGraphQLClientInstance
 
+        describe('constructor', () => {
+            it('rejects an invalid duplicate package policy', () => {
+                const config = <GithubAuthPluginConfig>(<unknown>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    duplicatePackagePolicy: 'last'
+                })
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid duplicatePackagePolicy "last"')
+            })
+
+            it('rejects an invalid first-publish policy', () => {
+                const config = <GithubAuthPluginConfig>(<unknown>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    firstPublish: { policy: 'allow' }
+                })
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid firstPublish policy "allow"')
+            })
+
+            it('rejects an invalid outside collaborators policy', () => {
+                const config = <GithubAuthPluginConfig>(<unknown>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    outsideCollaborators: 'write'
+                })
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid outsideCollaborators policy "write"')
+            })
+
+            it('rejects an outside collaborators policy with several organizations or an enterprise', () => {
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>{} }
+
+                expect(
+                    () =>
+                        new GithubAuthPlugin(
+                            {
+                                token: 'my-token',
+                                organizations: [
+                                    { organization: 'acme', token: 'acme-token' },
+                                    { organization: 'initech', token: 'initech-token' }
+                                ],
+                                outsideCollaborators: 'read-only'
+                            },
+                            options
+                        )
+                ).toThrow('The outsideCollaborators policy "read-only" requires a single organization')
+                expect(
+                    () =>
+                        new GithubAuthPlugin(
+                            { organization: 'my-org', token: 'my-token', enterprise: 'acme-corp', outsideCollaborators: 'full' },
+                            options
+                        )
+                ).toThrow('The outsideCollaborators policy "full" requires a single organization')
+            })
+
+            it('rejects an invalid team membership', () => {
+                const config = <GithubAuthPluginConfig>(<unknown>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    teamMembership: 'CHILD_TEAM'
+                })
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid teamMembership "CHILD_TEAM"')
+            })
+
+            it('rejects an invalid affiliation', () => {
+                const config = <GithubAuthPluginConfig>(<unknown>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    affiliation: 'MEMBERS'
+                })
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid affiliation "MEMBERS"')
+            })
+
+            it('rejects the OUTSIDE affiliation', () => {
+                const config: GithubAuthPluginConfig = {
+                    organization: 'my-org',
+                    token: 'my-token',
+                    affiliation: s.CollaboratorAffiliation.Outside
+                }
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid affiliation "OUTSIDE"')
+            })
+
+            it('rejects an extra repository without an owner', () => {
+                const config = <GithubAuthPluginConfig>{
+                    organization: 'my-org',
+                    token: 'my-token',
+                    extraRepositories: ['alice/legacy', 'legacy']
+                }
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('Invalid extra repository "legacy"')
+            })
+
+            it('requires an organization and a token, unless organizations are configured', () => {
+                const config = <GithubAuthPluginConfig>{ token: 'my-token' }
+                const options = { logger: <Logger>(<unknown>{}), config: <GithubAuthPluginConfig & Config>config }
+
+                expect(() => new GithubAuthPlugin(config, options)).toThrow('The organization and the token are required')
+            })
+        })
+
+        describe('multiple organizations', () => {
+            let options: GithubAuthPluginOptions
+            let acme: GithubAuthPlugin
+            let globex: GithubAuthPlugin
+
+            const config: GithubAuthPluginConfig = {
+                excludeForks: false,
+                organizations: [
+                    { organization: 'acme', token: 'acme-token', scopes: ['@acme'] },
+                    { organization: 'globex', token: 'globex-token', excludeForks: true }
+                ]
+            }
+
+            const remoteUser: RemoteUser = {
+                name: 'user',
+                groups: [],
+                real_groups: ['acme', 'acme/developers', 'globex/developers']
+            }
+
+            beforeEach(() => {
+                options = {
+                    logger: <Logger>(<unknown>{
+                        warn: jest.fn(),
+                        trace: jest.fn(),
+                        debug: jest.fn(),
+                        info: jest.fn(),
+                        error: jest.fn()
+                    }),
+                    config: <GithubAuthPluginConfig & Config>config
+                }
+
+                plugin = new GithubAuthPlugin(config, options)
+                acme = plugin.organizations[0].plugin
+                globex = plugin.organizations[1].plugin
+            })
+
+            it('creates a plugin per organization, with the organization configuration', () => {
+                expect(map(plugin.organizations, o => [o.plugin.organization, o.plugin.excludeForks, o.scopes])).toStrictEqual([
+                    ['acme', false, ['@acme']],
+                    ['globex', true, []]
+                ])
+            })
+
+            it('gives each organization its own ownership ledger', () => {
+                const ledgerConfig = { ...config, ownershipLedger: '/var/lib/verdaccio/ledger.json' }
+                plugin = new GithubAuthPlugin(ledgerConfig, { ...options, config: <GithubAuthPluginConfig & Config>ledgerConfig })
+
+                expect(map(plugin.organizations, o => o.plugin.ownershipLedger?.path)).toStrictEqual([
+                    '/var/lib/verdaccio/ledger.acme.json',
+                    '/var/lib/verdaccio/ledger.globex.json'
+                ])
+            })
+
+            it('rejects an ownership ledger shared by several organizations', () => {
+                const ledgerConfig: GithubAuthPluginConfig = {
+                    organizations: [
+                        { organization: 'acme', token: 'acme-token', ownershipLedger: 'ledger.json' },
+                        { organization: 'globex', token: 'globex-token', ownershipLedger: 'ledger.json' }
+                    ]
+                }
+
+                expect(
+                    () =>
+                        new GithubAuthPlugin(ledgerConfig, { ...options, config: <GithubAuthPluginConfig & Config>ledgerConfig })
+                ).toThrow('Each organization must have its own ownershipLedger')
+            })
+
+            it('returns the teams of each organization the user is a member of, prefixed with the organization', done => {
+                expect.assertions(2)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                jest.spyOn(acme, 'verifyOrganization').mockResolvedValue(true)
+                jest.spyOn(acme, 'getUserTeams').mockResolvedValue([
+                    { name: 'acme', members: ['user'] },
+                    { name: 'developers', members: ['user'] }
+                ])
+                jest.spyOn(globex, 'verifyOrganization').mockRejectedValue(new AuthenticationError('Org error', false))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err).toBeNull()
+                    expect(groups).toStrictEqual(['acme', 'acme/developers'])
+                    done()
+                })
+            })
+
+            it('verifies the enterprise with the token of the first organization, without a top-level token', done => {
+                expect.assertions(3)
+
+                const enterpriseConfig = { ...config, enterprise: 'acme-corp' }
+                plugin = new GithubAuthPlugin(enterpriseConfig, {
+                    ...options,
+                    config: <GithubAuthPluginConfig & Config>enterpriseConfig
+                })
+                acme = plugin.organizations[0].plugin
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                const verifyEnterprise = jest.spyOn(acme, 'verifyEnterprise').mockResolvedValue(['acme'])
+                jest.spyOn(acme, 'getUserTeams').mockResolvedValue([{ name: 'developers', members: ['user'] }])
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err).toBeNull()
+                    expect(groups).toStrictEqual(['acme-corp', 'acme', 'acme/developers'])
+                    expect(verifyEnterprise).toHaveBeenCalledWith('user', 'acme-corp')
+                    done()
+                })
+            })
+
+            it('fails if the user does not belong to any organization', done => {
+                expect.assertions(2)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                jest.spyOn(acme, 'verifyOrganization').mockRejectedValue(new AuthenticationError('Org error', false))
+                jest.spyOn(globex, 'verifyOrganization').mockRejectedValue(new AuthenticationError('Org error', false))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err?.status).toBe(401)
+                    expect(groups).toBe(false)
+                    done()
+                })
+            })
+
+            it('only asks the organizations bound to the scope of a package', () => {
+                expect.assertions(3)
+
+                const acmePermissions = jest
+                    .spyOn(acme, 'packagePermissionsForUserForPackage')
+                    .mockResolvedValue(new Set([readPermission]))
+                const globexPermissions = jest
+                    .spyOn(globex, 'packagePermissionsForUserForPackage')
+                    .mockResolvedValue(new Set([readPermission, writePermission]))
+
+                return plugin.packagePermissionsForUserForPackage(remoteUser, '@acme/pkg').then(permissions => {
+                    expectSetsToBeStrictlyEqual(permissions, new Set([readPermission]))
+                    expect(acmePermissions).toHaveBeenCalledWith(
+                        { ...remoteUser, real_groups: ['acme', 'developers'] },
+                        '@acme/pkg',
+                        false
+                    )
+                    expect(globexPermissions).not.toHaveBeenCalled()
+                })
+            })
+
+            it('merges the permissions of all the organizations for the other packages', () => {
+                expect.assertions(2)
+
+                jest.spyOn(acme, 'packagePermissionsForUserForPackage').mockResolvedValue(new Set([readPermission]))
+                const globexPermissions = jest
+                    .spyOn(globex, 'packagePermissionsForUserForPackage')
+                    .mockResolvedValue(new Set([writePermission]))
+
+                return plugin.packagePermissionsForUserForPackage(remoteUser, 'pkg').then(permissions => {
+                    expectSetsToBeStrictlyEqual(permissions, new Set([readPermission, writePermission]))
+                    expect(globexPermissions).toHaveBeenCalledWith({ ...remoteUser, real_groups: ['developers'] }, 'pkg', false)
+                })
+            })
+
+            it('merges the package permissions of all the organizations', () => {
+                expect.assertions(3)
+
+                jest.spyOn(acme, 'packagePermissionsForUser').mockResolvedValue({
+                    '@acme/pkg': new Set([readPermission]),
+                    pkg: new Set([readPermission])
+                })
+                jest.spyOn(globex, 'packagePermissionsForUser').mockResolvedValue({
+                    '@acme/pkg': new Set([readPermission, writePermission]),
+                    pkg: new Set([writePermission])
+                })
+
+                return plugin.packagePermissionsForUser(remoteUser).then(permissions => {
+                    expect(Object.keys(permissions).sort()).toStrictEqual(['@acme/pkg', 'pkg'])
+                    expectSetsToBeStrictlyEqual(permissions['@acme/pkg'], new Set([readPermission]))
+                    expectSetsToBeStrictlyEqual(permissions.pkg, new Set([readPermission, writePermission]))
+                })
+            })
+        })
+
+        describe('enterprise', () => {
+            let options: GithubAuthPluginOptions
+
+            const config = <GithubAuthPluginConfig>{
+                organization: 'acme',
+                token: 'my-token',
+                enterprise: 'acme-corp'
+            }
+
+            const enterpriseMembers = (login: string, organizations: string[]): s.VerifyEnterpriseQuery[] => [
+                {
+                    enterprise: {
+                        organizations: { nodes: [{ login: 'acme' }, { login: 'Initech' }] },
+                        members: {
+                            edges: [
+                                {
+                                    node: {
+                                        __typename: 'EnterpriseUserAccount',
+                                        login: `${login}_acme`,
+                                        user: { login },
+                                        organizations: { nodes: map(organizations, o => ({ login: o })) }
+                                    }
+                                },
+                                {
+                                    node: {
+                                        __typename: 'User',
+                                        login: `${login}-other`,
+                                        organizations: { nodes: [{ login: 'other-org' }] }
+                                    }
+                                }
+                            ],
+                            pageInfo: {
+                                hasNextPage: false,
+                                endCursor: null
+                            }
+                        }
+                    }
+                }
+            ]
+
+            beforeEach(() => {
+                options = {
+                    logger: <Logger>(<unknown>{
+                        warn: jest.fn(),
+                        trace: jest.fn(),
+                        debug: jest.fn(),
+                        info: jest.fn(),
+                        error: jest.fn()
+                    }),
+                    config: <GithubAuthPluginConfig & Config>config
+                }
+
+                plugin = new GithubAuthPlugin(config, options)
+                mockedClient = <MockedGraphQLClientInstance>(<unknown>plugin.client)
+            })
+
+            it('returns the enterprise, the organizations and the teams of the configured organization', done => {
+                expect.assertions(3)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                const verifyOrganization = jest.spyOn(plugin, 'verifyOrganization')
+                jest.spyOn(plugin, 'getUserTeams').mockResolvedValue([{ name: 'developers', members: ['user'] }])
+                mockedClient.getAll.mockResolvedValue(enterpriseMembers('User', ['acme', 'initech']))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err).toBeNull()
+                    expect(groups).toStrictEqual(['acme-corp', 'acme', 'initech', 'developers'])
+                    expect(verifyOrganization).not.toHaveBeenCalled()
+                    done()
+                })
+            })
+
+            it('does not ask for the teams of the configured organization if the user is not a member', done => {
+                expect.assertions(3)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                const getUserTeams = jest.spyOn(plugin, 'getUserTeams')
+                mockedClient.getAll.mockResolvedValue(enterpriseMembers('user', ['initech']))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err).toBeNull()
+                    expect(groups).toStrictEqual(['acme-corp', 'initech'])
+                    expect(getUserTeams).not.toHaveBeenCalled()
+                    done()
+                })
+            })
+
+            it('ignores the organizations outside of the enterprise', done => {
+                expect.assertions(2)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                jest.spyOn(plugin, 'getUserTeams').mockResolvedValue([])
+                mockedClient.getAll.mockResolvedValue(enterpriseMembers('user', ['acme', 'developers']))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err).toBeNull()
+                    expect(groups).toStrictEqual(['acme-corp', 'acme'])
+                    done()
+                })
+            })
+
+            it('fails if the user is not a member of the enterprise', done => {
+                expect.assertions(2)
+
+                jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                mockedClient.getAll.mockResolvedValue(enterpriseMembers('some_user', ['acme']))
+
+                plugin.authenticate('user', 'token', (err, groups) => {
+                    expect(err?.status).toBe(401)
+                    expect(groups).toBe(false)
+                    done()
+                })
+            })
+
+            it('searches the members of the enterprise by login', () => {
+                expect.assertions(2)
+
+                mockedClient.getAll.mockResolvedValue(enterpriseMembers('user', ['acme']))
+
+                return plugin.verifyEnterprise('user', 'acme-corp').then(organizations => {
+                    expect(organizations).toStrictEqual(['acme'])
+                    expect(mockedClient.getAll).toHaveBeenCalledWith(
+                        s.VerifyEnterprise,
+                        { slug: 'acme-corp', query: 'user' },
+                        expect.any(Function)
+                    )
+                })
+            })
+        })
+
         describe('methods', () => {
             let options: GithubAuthPluginOptions
 
@@ -71,6 +526,8 @@ describe('index.js unit tests', () => {
                     logger: <Logger>(<unknown>{
                         warn: jest.fn(),
                         trace: jest.fn(),
+                        debug: jest.fn(),
+                        info: jest.fn(),
                         error: jest.fn()
                     }),
                     config: <GithubAuthPluginConfig & Config>config
@@ -86,6 +543,16 @@ describe('index.js unit tests', () => {
                     expectSetsToBeStrictlyEqual(plugin.mapPermission(perm), permissionsMap[perm])
                 })
 
+                it('maps the permissions through the configured permission map', () => {
+                    plugin = new GithubAuthPlugin({ ...config, permissionMap: { WRITE: ['read'] } }, options)
+
+                    expectSetsToBeStrictlyEqual(plugin.mapPermission(s.RepositoryPermission.Write), new Set([readPermission]))
+                    expectSetsToBeStrictlyEqual(
+                        plugin.mapPermission(s.RepositoryPermission.Maintain),
+                        new Set([readPermission, writePermission])
+                    )
+                })
+
                 it('raises an error for unknown permissions', () => {
                     expect(() => {
                         plugin.mapPermission(null)
@@ -111,6 +578,7 @@ describe('index.js unit tests', () => {
 
                     jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
                     jest.spyOn(plugin, 'verifyOrganization').mockRejectedValue(new AuthenticationError('Org error', false))
+                    jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({})
 
                     plugin.authenticate('user', 'token', (err, groups) => {
                         expect(err).not.toBeNull()
@@ -119,6 +587,42 @@ describe('index.js unit tests', () => {
                     })
                 })
 
+                describe('outside collaborators', () => {
+                    beforeEach(() => {
+                        jest.spyOn(plugin, 'verifyUserIdentity').mockResolvedValue()
+                        jest.spyOn(plugin, 'verifyOrganization').mockRejectedValue(new AuthenticationError('Org error', false))
+                        jest.spyOn(plugin, 'getOrganizationTeams').mockResolvedValue([
+                            { name: 'developers', members: ['member'] }
+                        ])
+                        jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({
+                            repo_1: { teams: {}, users: { user: new Set([readPermission]) }, public: false }
+                        })
+                    })
+
+                    it('adds the outside collaborators to their group, without the organization group', done => {
+                        expect.assertions(2)
+
+                        plugin.outsideCollaborators = 'full'
+
+                        plugin.authenticate('user', 'token', (err, groups) => {
+                            expect(err).toBeNull()
+                            expect(groups).toStrictEqual(['outside-collaborators'])
+                            done()
+                        })
+                    })
+
+                    it('does not authenticate the outside collaborators by default', done => {
+                        expect.assertions(3)
+
+                        plugin.authenticate('user', 'token', (err, groups) => {
+                            expect(err?.status).toBe(401)
+                            expect(groups).toBe(false)
+                            expect(plugin.repositoryPermissions).not.toHaveBeenCalled()
+                            done()
+                        })
+                    })
+                })
+
                 it('fails if there is an error retrieving the teams', done => {
                     expect.assertions(2)
 
@@ -181,7 +685,7 @@ describe('index.js unit tests', () => {
                         .catch(() => true)
                         .finally(() => {
                             expect(MockedGraphQLClient).toHaveBeenCalledTimes(1)
-                            expect(MockedGraphQLClient).toHaveBeenCalledWith('token', options.logger)
+                            expect(MockedGraphQLClient).toHaveBeenCalledWith('token', options.logger, undefined, plugin.endpoints)
                         })
                 })
 
@@ -290,6 +794,10 @@ describe('index.js unit tests', () => {
                                         {
                                             node: {
                                                 name: userTeam,
+                                                parentTeam: null,
+                                                childTeams: {
+                                                    nodes: []
+                                                },
                                                 members: {
                                                     nodes: [
                                                         {
@@ -302,6 +810,10 @@ describe('index.js unit tests', () => {
                                         {
                                             node: {
                                                 name: notUserTeam,
+                                                parentTeam: null,
+                                                childTeams: {
+                                                    nodes: []
+                                                },
                                                 members: {
                                                     nodes: []
                                                 }
@@ -330,9 +842,93 @@ describe('index.js unit tests', () => {
                     return plugin.getUserTeams(user).then(result => {
                         expect(result).toStrictEqual([
                             { name: config.organization, members: [user] },
-                            { name: userTeam, members: [user] }
+                            { name: userTeam, members: [user], childTeams: [] }
+                        ])
+                    })
+                })
+
+                describe('nested teams', () => {
+                    const team = (name: string, parentTeam: string | null, childTeams: string[], members: string[]) => ({
+                        node: {
+                            name,
+                            parentTeam: parentTeam ? { name: parentTeam } : null,
+                            childTeams: { nodes: map(childTeams, t => ({ name: t })) },
+                            members: { nodes: map(members, login => ({ login })) }
+                        }
+                    })
+
+                    const response: s.GetOrganizationTeamsQuery[] = [
+                        {
+                            organization: {
+                                teams: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        team('engineering', null, ['platform'], []),
+                                        team('platform', 'engineering', ['registry'], []),
+                                        team('registry', 'platform', [], ['user'])
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    beforeEach(() => {
+                        // The previous tests override the implementation of the client
+                        plugin = new GithubAuthPlugin(config, options)
+                        mockedClient = <MockedGraphQLClientInstance>(<unknown>plugin.client)
+                        mockedClient.getAll.mockResolvedValue(response)
+                    })
+
+                    it('keeps the hierarchy of the teams', () => {
+                        expect.assertions(2)
+
+                        return plugin.getOrganizationTeams().then(teams => {
+                            expect(teams[1]).toStrictEqual({
+                                name: 'platform',
+                                members: [],
+                                childTeams: ['registry'],
+                                parentTeam: 'engineering'
+                            })
+                            expect(mockedClient.getAll.mock.calls[0][1]).toStrictEqual({
+                                login: config.organization,
+                                membership: s.TeamMembershipType.All
+                            })
+                        })
+                    })
+
+                    it('only returns the teams of the user by default', () => {
+                        return expect(plugin.getUserTeams('user').then(teams => map(teams, t => t.name))).resolves.toStrictEqual([
+                            config.organization,
+                            'registry'
+                        ])
+                    })
+
+                    it('adds the ancestors of the teams of the user', () => {
+                        plugin.ancestorTeams = true
+
+                        return expect(plugin.getUserTeams('user').then(teams => map(teams, t => t.name))).resolves.toStrictEqual([
+                            config.organization,
+                            'registry',
+                            'engineering',
+                            'platform'
                         ])
                     })
+
+                    it('retrieves the immediate members of the teams', () => {
+                        expect.assertions(1)
+
+                        plugin.teamMembership = s.TeamMembershipType.Immediate
+
+                        return plugin.getOrganizationTeams().then(() => {
+                            expect(mockedClient.getAll.mock.calls[0][1]).toStrictEqual({
+                                login: config.organization,
+                                membership: s.TeamMembershipType.Immediate
+                            })
+                        })
+                    })
                 })
             })
 
@@ -493,15 +1089,18 @@ describe('index.js unit tests', () => {
                 })
 
                 it('calls the callback with true if the user has write permission', done => {
-                    expect.assertions(2)
+                    expect.assertions(3)
 
-                    jest.spyOn(plugin, 'packagePermissionsForUserForPackage').mockImplementation(() => {
-                        return Promise.resolve(new Set([writePermission]))
-                    })
+                    const packagePermissions = jest
+                        .spyOn(plugin, 'packagePermissionsForUserForPackage')
+                        .mockImplementation(() => {
+                            return Promise.resolve(new Set([writePermission]))
+                        })
 
                     plugin.allow_publish(remoteUser, pkgAccess, (err, hasPermission) => {
                         expect(err).toBeNull()
                         expect(hasPermission).toBe(true)
+                        expect(packagePermissions).toHaveBeenCalledWith(remoteUser, pkgAccess.name, true)
                         done()
                     })
                 })
@@ -536,11 +1135,11 @@ describe('index.js unit tests', () => {
                     })
                 })
 
-                it('calls the callback with true if the user has write permission', done => {
+                it('calls the callback with true if the user has the unpublish permission', done => {
                     expect.assertions(2)
 
                     jest.spyOn(plugin, 'packagePermissionsForUserForPackage').mockImplementation(() => {
-                        return Promise.resolve(new Set([writePermission]))
+                        return Promise.resolve(new Set([readPermission, unpublishPermission]))
                     })
 
                     plugin.allow_unpublish(remoteUser, pkgAccess, (err, hasPermission) => {
@@ -550,11 +1149,11 @@ describe('index.js unit tests', () => {
                     })
                 })
 
-                it('calls the callback with false if the user does not have the write permission', done => {
+                it('calls the callback with false if the user only has the write permission', done => {
                     expect.assertions(2)
 
                     jest.spyOn(plugin, 'packagePermissionsForUserForPackage').mockImplementation(() => {
-                        return Promise.resolve(new Set([]))
+                        return Promise.resolve(new Set([readPermission, writePermission]))
                     })
 
                     plugin.allow_unpublish(remoteUser, pkgAccess, (err, hasPermission) => {
@@ -565,6 +1164,78 @@ describe('index.js unit tests', () => {
                 })
             })
 
+            describe('blobText', () => {
+                it('returns the text of the blob', () => {
+                    expect.assertions(2)
+
+                    return plugin
+                        .blobText('repo_1', 'package.json', {
+                            __typename: 'Blob',
+                            oid: 'blob_oid',
+                            isBinary: false,
+                            isTruncated: false,
+                            text: 'pkg_1_content'
+                        })
+                        .then(text => {
+                            expect(text).toStrictEqual('pkg_1_content')
+                            expect(mockedClient.getBlob).not.toHaveBeenCalled()
+                        })
+                })
+
+                it('returns undefined if the object is not a blob', () => {
+                    return expect(plugin.blobText('repo_1', 'package.json', { __typename: 'Tree' })).resolves.toBeUndefined()
+                })
+
+                it.each([
+                    ['binary', true, false],
+                    ['truncated', false, true]
+                ])('retrieves the %s blobs through the REST API', (_, isBinary, isTruncated) => {
+                    expect.assertions(2)
+
+                    mockedClient.getBlob.mockResolvedValue('pkg_1_content')
+
+                    return plugin
+                        .blobText('repo_1', 'package.json', {
+                            __typename: 'Blob',
+                            oid: 'blob_oid',
+                            isBinary,
+                            isTruncated,
+                            text: null
+                        })
+                        .then(text => {
+                            expect(text).toStrictEqual('pkg_1_content')
+                            expect(mockedClient.getBlob).toHaveBeenCalledWith(config.organization, 'repo_1', 'blob_oid')
+                        })
+                })
+
+                it('warns when the blob cannot be read', () => {
+                    expect.assertions(2)
+
+                    mockedClient.getBlob.mockRejectedValue(new Error('Not Found'))
+
+                    return plugin
+                        .blobText('repo_1', 'package.json', {
+                            __typename: 'Blob',
+                            oid: 'blob_oid',
+                            isBinary: false,
+                            isTruncated: true,
+                            text: null
+                        })
+                        .then(text => {
+                            expect(text).toBeUndefined()
+                            expect(options.logger.warn).toHaveBeenCalledWith(
+                                {
+                                    repositoryName: 'repo_1',
+                                    path: 'package.json',
+                                    reason: 'the blob is truncated',
+                                    message: 'Not Found'
+                                },
+                                expect.any(String)
+                            )
+                        })
+                })
+            })
+
             describe('packageFiles', () => {
                 it('returns a promise of an object mapping repository names to the contents of the package.json', () => {
                     const response: s.GetOrganizationPackageFilesQuery[] = [
@@ -578,20 +1249,40 @@ describe('index.js unit tests', () => {
                                     edges: [
                                         {
                                             node: {
-                                                name: 'repo_1',
+                                                ...repositoryMetadata('repo_1'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
                                                 object: {
                                                     __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
                                                     text: 'pkg_1_content'
-                                                }
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
                                             }
                                         },
                                         {
                                             node: {
-                                                name: 'repo_2',
+                                                ...repositoryMetadata('repo_2'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'master'
+                                                },
                                                 object: {
                                                     __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
                                                     text: 'pkg_2_content'
-                                                }
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
                                             }
                                         }
                                     ]
@@ -605,141 +1296,2084 @@ describe('index.js unit tests', () => {
                     })
 
                     const expectedOutput = {
-                        repo_1: 'pkg_1_content',
-                        repo_2: 'pkg_2_content'
+                        repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] },
+                        repo_2: { manifests: [{ path: 'package.json', content: 'pkg_2_content' }] }
                     }
 
                     return expect(plugin.packageFiles()).resolves.toStrictEqual(expectedOutput)
                 })
-            })
-
-            describe('getPackageName', () => {
-                it('returns the name from a valid package.json', () => {
-                    expect(GithubAuthPlugin.getPackageName('{ "name": "pkg" }')).toStrictEqual('pkg')
-                })
 
-                it('returns undefined from an invalid package.json', () => {
-                    expect(GithubAuthPlugin.getPackageName(' "name": "pkg" ')).toBeUndefined()
-                })
-            })
+                it('skips the repositories excluded by the repository filters', () => {
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                visibility: s.RepositoryVisibility.Public,
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: 'pkg_1_content'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: 'pkg_2_content'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
 
-            describe('packageNames', () => {
-                beforeEach(() => {
-                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
-                        repo_1: '{"name":"pkg_1"}',
-                        repo_2: '{"name":"pkg_2"}',
-                        repo_3: '"name":"pkg_1"'
+                    mockedClient.getAll.mockResolvedValue(response)
+                    plugin.repositoryFilters = { visibility: [s.RepositoryVisibility.Private] }
+
+                    return expect(plugin.packageFiles()).resolves.toStrictEqual({
+                        repo_2: { manifests: [{ path: 'package.json', content: 'pkg_2_content' }] }
                     })
                 })
 
-                it('should return the map of valid packages', () => {
-                    return expect(plugin.packageNames()).resolves.toStrictEqual({
-                        pkg_1: 'repo_1',
-                        pkg_2: 'repo_2'
+                it('reads the repository configuration, and warns about invalid ones', () => {
+                    expect.assertions(2)
+
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: null,
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: 'packages:\n  - pkg_1\npublic: true\n'
+                                                }
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: '{"name":"pkg_2","verdaccio":{"public":"yes"}}'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    mockedClient.getAll.mockResolvedValue(response)
+
+                    return plugin.packageFiles().then(packageFiles => {
+                        expect(packageFiles).toStrictEqual({
+                            repo_1: { manifests: [], config: { packages: ['pkg_1'], readTeams: [], public: true } },
+                            repo_2: {
+                                manifests: [{ path: 'package.json', content: '{"name":"pkg_2","verdaccio":{"public":"yes"}}' }]
+                            }
+                        })
+                        expect(options.logger.warn).toHaveBeenCalledWith(
+                            { repositoryName: 'repo_2', errors: [expect.stringMatching(/^public: /)] },
+                            expect.any(String)
+                        )
                     })
                 })
 
-                it('should only return included repos', () => {
-                    plugin.includeRepositories = ['repo_1']
-                    return expect(plugin.packageNames()).resolves.toStrictEqual({
-                        pkg_1: 'repo_1'
+                describe('forks', () => {
+                    beforeEach(() => {
+                        const response: s.GetOrganizationPackageFilesQuery[] = [
+                            {
+                                organization: {
+                                    repositories: {
+                                        pageInfo: {
+                                            hasNextPage: false,
+                                            endCursor: null
+                                        },
+                                        edges: [
+                                            {
+                                                node: {
+                                                    ...repositoryMetadata('repo_1'),
+                                                    pushedAt: '2021-01-01T00:00:00Z',
+                                                    defaultBranchRef: {
+                                                        name: 'main'
+                                                    },
+                                                    object: {
+                                                        __typename: 'Blob',
+                                                        oid: 'blob_oid',
+                                                        isBinary: false,
+                                                        isTruncated: false,
+                                                        text: 'pkg_1_content'
+                                                    },
+                                                    pnpmWorkspace: null,
+                                                    lernaConfig: null,
+                                                    verdaccioConfig: null
+                                                }
+                                            },
+                                            {
+                                                node: {
+                                                    ...repositoryMetadata('repo_1_fork'),
+                                                    pushedAt: '2021-01-01T00:00:00Z',
+                                                    isFork: true,
+                                                    defaultBranchRef: {
+                                                        name: 'main'
+                                                    },
+                                                    object: {
+                                                        __typename: 'Blob',
+                                                        oid: 'blob_oid',
+                                                        isBinary: false,
+                                                        isTruncated: false,
+                                                        text: 'pkg_1_content'
+                                                    },
+                                                    pnpmWorkspace: null,
+                                                    lernaConfig: null,
+                                                    verdaccioConfig: null
+                                                }
+                                            }
+                                        ]
+                                    }
+                                }
+                            }
+                        ]
+
+                        mockedClient.getAll.mockResolvedValue(response)
+                    })
+
+                    it('skips the forks', () => {
+                        return expect(plugin.packageFiles()).resolves.toStrictEqual({
+                            repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] }
+                        })
+                    })
+
+                    it('keeps the forks if configured', () => {
+                        plugin.excludeForks = false
+                        return expect(plugin.packageFiles()).resolves.toStrictEqual({
+                            repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] },
+                            repo_1_fork: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] }
+                        })
                     })
                 })
 
-                it('should not return excluded repos', () => {
-                    plugin.excludeRepositories = ['repo_1']
-                    return expect(plugin.packageNames()).resolves.toStrictEqual({
-                        pkg_2: 'repo_2'
+                it('reads the package.json from the configured branch', () => {
+                    expect.assertions(2)
+
+                    mockedClient.getAll.mockResolvedValue([])
+                    plugin.packageBranch = 'release'
+
+                    return plugin.packageFiles().then(() => {
+                        expect(mockedClient.getAll).toHaveBeenCalledTimes(1)
+                        expect(mockedClient.getAll.mock.calls[0][1]).toStrictEqual({
+                            login: config.organization,
+                            expression: 'release:package.json',
+                            pnpmWorkspaceExpression: 'release:pnpm-workspace.yaml',
+                            lernaConfigExpression: 'release:lerna.json',
+                            verdaccioConfigExpression: 'release:.verdaccio.yml',
+                            withText: true
+                        })
                     })
                 })
 
-                it('should only return repos matching the regex', () => {
-                    plugin.repositoryPattern = /_1$/
-                    return expect(plugin.packageNames()).resolves.toStrictEqual({
-                        pkg_1: 'repo_1'
+                it('reads the package.json from the repository override branch', () => {
+                    expect.assertions(3)
+
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: 'pkg_1_main_content'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: null,
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    const repositoryResponse: s.GetRepositoryPackageFileQuery = {
+                        repository: {
+                            name: 'repo_1',
+                            object: {
+                                __typename: 'Blob',
+                                oid: 'blob_oid',
+                                isBinary: false,
+                                isTruncated: false,
+                                text: 'pkg_1_release_content'
+                            },
+                            pnpmWorkspace: null,
+                            lernaConfig: null,
+                            verdaccioConfig: null
+                        }
+                    }
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    mockedClient.get.mockResolvedValue(repositoryResponse)
+                    plugin.repositoryOverrides = { repo_1: { packageBranch: 'release' } }
+
+                    return plugin.packageFiles().then(packageFiles => {
+                        expect(packageFiles).toStrictEqual({
+                            repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_release_content' }] },
+                            repo_2: { manifests: [] }
+                        })
+                        expect(mockedClient.get).toHaveBeenCalledWith(s.GetRepositoryPackageFile, {
+                            owner: config.organization,
+                            name: 'repo_1',
+                            expression: 'release:package.json',
+                            pnpmWorkspaceExpression: 'release:pnpm-workspace.yaml',
+                            lernaConfigExpression: 'release:lerna.json',
+                            verdaccioConfigExpression: 'release:.verdaccio.yml'
+                        })
+                        expect(options.logger.trace).toHaveBeenCalledWith(
+                            { repositoryName: 'repo_2', branch: 'main' },
+                            expect.any(String)
+                        )
                     })
                 })
-            })
 
-            describe('packagePermissionsForUserForPackage', () => {
-                beforeEach(() => {
-                    jest.spyOn(plugin, 'packagePermissionsForUser').mockResolvedValue({
-                        pkg_1: new Set([readPermission]),
-                        pkg_2: new Set([writePermission])
+                it('fetches the files of the extra repositories from their owner', () => {
+                    expect.assertions(2)
+
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [{ node: repositoryNode('repo_1', '2021-01-01T00:00:00Z', 'pkg_1_content') }]
+                                }
+                            }
+                        }
+                    ]
+
+                    const repositoryResponse: s.GetRepositoryPackageFileQuery = {
+                        repository: {
+                            name: 'legacy',
+                            object: {
+                                __typename: 'Blob',
+                                oid: 'blob_oid',
+                                isBinary: false,
+                                isTruncated: false,
+                                text: 'legacy_content'
+                            },
+                            pnpmWorkspace: null,
+                            lernaConfig: null,
+                            verdaccioConfig: null
+                        }
+                    }
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    mockedClient.get.mockResolvedValue(repositoryResponse)
+                    plugin.extraRepositories = ['alice/legacy']
+
+                    return plugin.packageFiles().then(packageFiles => {
+                        expect(packageFiles).toStrictEqual({
+                            repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] },
+                            'alice/legacy': { manifests: [{ path: 'package.json', content: 'legacy_content' }] }
+                        })
+                        expect(mockedClient.get).toHaveBeenCalledWith(s.GetRepositoryPackageFile, {
+                            owner: 'alice',
+                            name: 'legacy',
+                            expression: 'HEAD:package.json',
+                            pnpmWorkspaceExpression: 'HEAD:pnpm-workspace.yaml',
+                            lernaConfigExpression: 'HEAD:lerna.json',
+                            verdaccioConfigExpression: 'HEAD:.verdaccio.yml'
+                        })
                     })
                 })
 
-                const testUser: RemoteUser = {
-                    name: 'user',
-                    groups: [],
-                    real_groups: []
-                }
+                it('warns when the repository override branch has no package.json', () => {
+                    expect.assertions(2)
 
-                it('should return an empty set for unknown packages', () => {
-                    return expect(plugin.packagePermissionsForUserForPackage(testUser, 'pkg_3')).resolves.toStrictEqual(new Set())
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [{ node: repositoryNode('repo_1', '2021-01-01T00:00:00Z', 'pkg_1_main_content') }]
+                                }
+                            }
+                        }
+                    ]
+
+                    const repositoryResponse: s.GetRepositoryPackageFileQuery = {
+                        repository: {
+                            name: 'repo_1',
+                            object: null,
+                            pnpmWorkspace: null,
+                            lernaConfig: null,
+                            verdaccioConfig: null
+                        }
+                    }
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    mockedClient.get.mockResolvedValue(repositoryResponse)
+                    plugin.repositoryOverrides = { repo_1: { packageBranch: 'release' } }
+
+                    return plugin.packageFiles().then(packageFiles => {
+                        expect(packageFiles).toStrictEqual({ repo_1: { manifests: [] } })
+                        expect(options.logger.warn).toHaveBeenCalledWith(
+                            { repositoryName: 'repo_1', branch: 'release' },
+                            expect.any(String)
+                        )
+                    })
+                })
+
+                it('only fetches the files of the repositories changed since the last sync', () => {
+                    expect.assertions(5)
+
+                    const page = (nodes: s.Maybe<PackageFilesNode>[]): s.GetOrganizationPackageFilesQuery[] => [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: map(nodes, node => ({ node }))
+                                }
+                            }
+                        }
+                    ]
+
+                    const repositoryResponse = (name: string, text: string): s.GetRepositoryPackageFileQuery => ({
+                        repository: {
+                            name,
+                            object: {
+                                __typename: 'Blob',
+                                oid: 'blob_oid',
+                                isBinary: false,
+                                isTruncated: false,
+                                text
+                            },
+                            pnpmWorkspace: null,
+                            lernaConfig: null,
+                            verdaccioConfig: null
+                        }
+                    })
+
+                    mockedClient.getAll
+                        .mockResolvedValueOnce(
+                            page([
+                                repositoryNode('repo_1', '2021-01-01T00:00:00Z', 'pkg_1_content'),
+                                repositoryNode('repo_2', '2021-01-01T00:00:00Z', 'pkg_2_content'),
+                                repositoryNode('repo_3', '2021-01-01T00:00:00Z', 'pkg_3_content')
+                            ])
+                        )
+                        .mockResolvedValueOnce(
+                            page([
+                                repositoryNode('repo_1', '2021-01-01T00:00:00Z', null),
+                                repositoryNode('repo_2', '2021-02-01T00:00:00Z', null),
+                                repositoryNode('repo_4', '2021-02-01T00:00:00Z', null)
+                            ])
+                        )
+                    mockedClient.get
+                        .mockResolvedValueOnce(repositoryResponse('repo_2', 'pkg_2_new_content'))
+                        .mockResolvedValueOnce(repositoryResponse('repo_4', 'pkg_4_content'))
+
+                    return plugin
+                        .packageFiles()
+                        .then(() => {
+                            plugin.cache.cache.flushAll()
+                            return plugin.packageFiles()
+                        })
+                        .then(packageFiles => {
+                            expect(packageFiles).toStrictEqual({
+                                repo_1: { manifests: [{ path: 'package.json', content: 'pkg_1_content' }] },
+                                repo_2: { manifests: [{ path: 'package.json', content: 'pkg_2_new_content' }] },
+                                repo_4: { manifests: [{ path: 'package.json', content: 'pkg_4_content' }] }
+                            })
+                            expect(mockedClient.getAll.mock.calls[0][1]).toHaveProperty('withText', true)
+                            expect(mockedClient.getAll.mock.calls[1][1]).toHaveProperty('withText', false)
+                            expect(mockedClient.get).toHaveBeenCalledTimes(2)
+                            expect(mockedClient.get).not.toHaveBeenCalledWith(
+                                s.GetRepositoryPackageFile,
+                                expect.objectContaining({ name: 'repo_1' })
+                            )
+                        })
+                })
+
+                it('fetches the files of the repositories whose root files changed since the last sync', () => {
+                    expect.assertions(2)
+
+                    const page = (node: PackageFilesNode): s.GetOrganizationPackageFilesQuery[] => [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [{ node }]
+                                }
+                            }
+                        }
+                    ]
+
+                    const changedNode = repositoryNode('repo_1', '2021-01-01T00:00:00Z', null)
+                    changedNode.verdaccioConfig = {
+                        __typename: 'Blob',
+                        oid: 'config_oid',
+                        isBinary: false,
+                        isTruncated: false,
+                        text: null
+                    }
+
+                    mockedClient.getAll
+                        .mockResolvedValueOnce(page(repositoryNode('repo_1', '2021-01-01T00:00:00Z', 'pkg_1_content')))
+                        .mockResolvedValueOnce(page(changedNode))
+                    mockedClient.get.mockResolvedValue({
+                        repository: {
+                            name: 'repo_1',
+                            object: null,
+                            pnpmWorkspace: null,
+                            lernaConfig: null,
+                            verdaccioConfig: {
+                                __typename: 'Blob',
+                                oid: 'blob_oid',
+                                isBinary: false,
+                                isTruncated: false,
+                                text: 'public: true'
+                            }
+                        }
+                    })
+
+                    return plugin
+                        .packageFiles()
+                        .then(() => {
+                            plugin.cache.cache.flushAll()
+                            return plugin.packageFiles()
+                        })
+                        .then(packageFiles => {
+                            expect(packageFiles).toStrictEqual({
+                                repo_1: { manifests: [], config: { packages: [], readTeams: [], public: true } }
+                            })
+                            expect(mockedClient.get).toHaveBeenCalledTimes(1)
+                        })
                 })
 
-                it('should return the permissions for valid packages', () => {
-                    return expect(plugin.packagePermissionsForUserForPackage(testUser, 'pkg_1')).resolves.toStrictEqual(
-                        new Set([readPermission])
-                    )
+                it('includes the package.json of each workspace package', () => {
+                    expect.assertions(2)
+
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('monorepo'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: '{"name":"root","workspaces":["packages/*"]}'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    const packageFiles: Record<string, string> = {
+                        'HEAD:packages/pkg_1/package.json': '{"name":"pkg_1"}',
+                        'HEAD:packages/pkg_2/package.json': '{"name":"pkg_2"}'
+                    }
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    // @ts-expect-error, The mock serves both the directory and file queries
+                    mockedClient.get.mockImplementation((query, params: s.GetRepositoryFileQueryVariables) => {
+                        if (query === s.GetRepositoryDirectories) {
+                            const directoriesResponse: s.GetRepositoryDirectoriesQuery = {
+                                repository: {
+                                    object: {
+                                        __typename: 'Tree',
+                                        entries: [
+                                            { name: 'pkg_1', type: 'tree' },
+                                            { name: 'pkg_2', type: 'tree' },
+                                            { name: 'pkg_3', type: 'tree' },
+                                            { name: 'README.md', type: 'blob' }
+                                        ]
+                                    }
+                                }
+                            }
+                            return Promise.resolve(directoriesResponse)
+                        }
+
+                        const text = packageFiles[params.expression]
+                        const fileResponse: s.GetRepositoryFileQuery = {
+                            repository: {
+                                object: text
+                                    ? { __typename: 'Blob', oid: 'blob_oid', isBinary: false, isTruncated: false, text }
+                                    : null
+                            }
+                        }
+                        return Promise.resolve(fileResponse)
+                    })
+
+                    return plugin.packageFiles().then(result => {
+                        expect(result).toStrictEqual({
+                            monorepo: {
+                                manifests: [
+                                    { path: 'package.json', content: '{"name":"root","workspaces":["packages/*"]}' },
+                                    { path: 'packages/pkg_1/package.json', content: '{"name":"pkg_1"}' },
+                                    { path: 'packages/pkg_2/package.json', content: '{"name":"pkg_2"}' }
+                                ]
+                            }
+                        })
+                        expect(mockedClient.get).toHaveBeenCalledWith(s.GetRepositoryDirectories, {
+                            owner: config.organization,
+                            name: 'monorepo',
+                            expression: 'HEAD:packages'
+                        })
+                    })
+                })
+
+                it('reads the manifests from the configured manifest paths', () => {
+                    expect.assertions(1)
+
+                    const response: s.GetOrganizationPackageFilesQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: '{"name":"tooling"}'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                pushedAt: '2021-01-01T00:00:00Z',
+                                                defaultBranchRef: {
+                                                    name: 'main'
+                                                },
+                                                object: {
+                                                    __typename: 'Blob',
+                                                    oid: 'blob_oid',
+                                                    isBinary: false,
+                                                    isTruncated: false,
+                                                    text: '{"name":"pkg_2"}'
+                                                },
+                                                pnpmWorkspace: null,
+                                                lernaConfig: null,
+                                                verdaccioConfig: null
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    const packageFiles: Record<string, string> = {
+                        'HEAD:js/package.json': '{"name":"pkg_1_js"}',
+                        'HEAD:packages/client/package.json': '{"name":"pkg_1_client"}'
+                    }
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    // @ts-expect-error, The mock serves both the directory and file queries
+                    mockedClient.get.mockImplementation((query, params: s.GetRepositoryFileQueryVariables) => {
+                        if (query === s.GetRepositoryDirectories) {
+                            const directoriesResponse: s.GetRepositoryDirectoriesQuery = {
+                                repository: {
+                                    object: {
+                                        __typename: 'Tree',
+                                        entries: [
+                                            { name: 'client', type: 'tree' },
+                                            { name: 'docs', type: 'tree' }
+                                        ]
+                                    }
+                                }
+                            }
+                            return Promise.resolve(directoriesResponse)
+                        }
+
+                        const text = packageFiles[params.expression]
+                        const fileResponse: s.GetRepositoryFileQuery = {
+                            repository: {
+                                object: text
+                                    ? { __typename: 'Blob', oid: 'blob_oid', isBinary: false, isTruncated: false, text }
+                                    : null
+                            }
+                        }
+                        return Promise.resolve(fileResponse)
+                    })
+
+                    plugin.repositoryOverrides = { repo_1: { manifestPaths: ['js/package.json', 'packages/*/package.json'] } }
+
+                    return expect(plugin.packageFiles()).resolves.toStrictEqual({
+                        repo_1: {
+                            manifests: [
+                                { path: 'js/package.json', content: '{"name":"pkg_1_js"}' },
+                                { path: 'packages/client/package.json', content: '{"name":"pkg_1_client"}' }
+                            ]
+                        },
+                        repo_2: { manifests: [{ path: 'package.json', content: '{"name":"pkg_2"}' }] }
+                    })
+                })
+            })
+
+            describe('getPackageName', () => {
+                it('returns the name from a valid package.json', () => {
+                    expect(GithubAuthPlugin.getPackageName('{ "name": "pkg" }')).toStrictEqual('pkg')
+                })
+
+                it('returns undefined from an invalid package.json', () => {
+                    expect(GithubAuthPlugin.getPackageName(' "name": "pkg" ')).toBeUndefined()
+                })
+            })
+
+            describe('packageNames', () => {
+                beforeEach(() => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: { manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }] },
+                        repo_2: { manifests: [{ path: 'package.json', content: '{"name":"pkg_2"}' }] },
+                        repo_3: { manifests: [{ path: 'package.json', content: '"name":"pkg_1"' }] }
+                    })
+                })
+
+                it('should return the map of valid packages', () => {
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1'],
+                        pkg_2: ['repo_2']
+                    })
+                })
+
+                it('should only return included repos', () => {
+                    plugin.includeRepositories = ['repo_1']
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1']
+                    })
+                })
+
+                it('should not return excluded repos', () => {
+                    plugin.excludeRepositories = ['repo_1']
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_2: ['repo_2']
+                    })
+                })
+
+                it('should only return repos matching the regex', () => {
+                    plugin.repositoryPattern = /_1$/
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1']
+                    })
+                })
+
+                it('should not filter the extra repositories', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: { manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }] },
+                        'alice/legacy': { manifests: [{ path: 'package.json', content: '{"name":"legacy"}' }] }
+                    })
+                    plugin.extraRepositories = ['alice/legacy']
+                    plugin.includeRepositories = ['repo_1']
+
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1'],
+                        legacy: ['alice/legacy']
+                    })
+                })
+
+                it('should give precedence to the package mappings', () => {
+                    plugin.packageMappings = { names: { pkg_2: 'repo_1', pkg_3: 'repo_3' }, patterns: {} }
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1'],
+                        pkg_2: ['repo_1'],
+                        pkg_3: ['repo_3']
+                    })
+                })
+
+                it('should map every package of a repository to the repository', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        monorepo: {
+                            manifests: [
+                                { path: 'package.json', content: '{"name":"root"}' },
+                                { path: 'packages/pkg_1/package.json', content: '{"name":"pkg_1"}' },
+                                { path: 'packages/pkg_2/package.json', content: '{"name":"pkg_2"}' }
+                            ]
+                        }
+                    })
+
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        root: ['monorepo'],
+                        pkg_1: ['monorepo'],
+                        pkg_2: ['monorepo']
+                    })
+                })
+
+                it('should name the repositories without a package name from the template', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: { manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }] },
+                        Generated_SDK: { manifests: [] },
+                        invalid_manifest: { manifests: [{ path: 'package.json', content: 'not json' }] }
+                    })
+                    plugin.packageNameTemplate = compilePackageNameTemplate('@acme/{repo|kebab}')
+
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1'],
+                        '@acme/generated-sdk': ['Generated_SDK'],
+                        '@acme/invalid-manifest': ['invalid_manifest']
+                    })
+                })
+
+                describe('duplicate package names', () => {
+                    beforeEach(() => {
+                        jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                            repo_1: { manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }] },
+                            repo_2: { manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }] }
+                        })
+                    })
+
+                    it('should give the package to the first claimer by default, and warn about the conflict', () => {
+                        expect.assertions(2)
+
+                        return plugin.packageNames().then(packageNames => {
+                            expect(packageNames).toStrictEqual({ pkg_1: ['repo_1'] })
+                            expect(options.logger.warn).toHaveBeenCalledWith(
+                                { packageName: 'pkg_1', repositories: ['repo_1', 'repo_2'], policy: 'first' },
+                                expect.any(String)
+                            )
+                        })
+                    })
+
+                    it('should deny the package to everyone with the deny policy', () => {
+                        plugin.duplicatePackagePolicy = 'deny'
+                        return expect(plugin.packageNames()).resolves.toStrictEqual({ pkg_1: [] })
+                    })
+
+                    it('should give the package to all the claimers with the union policy', () => {
+                        plugin.duplicatePackagePolicy = 'union'
+                        return expect(plugin.packageNames()).resolves.toStrictEqual({ pkg_1: ['repo_1', 'repo_2'] })
+                    })
+
+                    it('should keep the package bound to the owner in the ledger, and record new claims', () => {
+                        expect.assertions(2)
+
+                        const ledger = new OwnershipLedger('ledger.json')
+                        jest.spyOn(ledger, 'load').mockResolvedValue({ pkg_1: 'repo_2' })
+                        const record = jest.spyOn(ledger, 'record').mockResolvedValue()
+                        plugin.ownershipLedger = ledger
+
+                        return plugin.packageNames().then(packageNames => {
+                            expect(packageNames).toStrictEqual({ pkg_1: ['repo_2'] })
+                            expect(record).toHaveBeenCalledWith({})
+                        })
+                    })
+
+                    it('should log the ledger errors without failing', () => {
+                        expect.assertions(2)
+
+                        const ledger = new OwnershipLedger('ledger.json')
+                        jest.spyOn(ledger, 'load').mockResolvedValue({})
+                        jest.spyOn(ledger, 'record').mockRejectedValue(new Error('read-only file system'))
+                        plugin.ownershipLedger = ledger
+
+                        return plugin.packageNames().then(packageNames => {
+                            expect(packageNames).toStrictEqual({ pkg_1: ['repo_1'] })
+                            expect(options.logger.error).toHaveBeenCalledWith(
+                                { message: 'read-only file system' },
+                                expect.any(String)
+                            )
+                        })
+                    })
+                })
+
+                it('should only include the manifests published to the registry, if configured', () => {
+                    expect.assertions(2)
+
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: {
+                            manifests: [
+                                {
+                                    path: 'package.json',
+                                    content: '{"name":"pkg_1","publishConfig":{"registry":"https://npm.acme.com/"}}'
+                                }
+                            ]
+                        },
+                        repo_2: {
+                            manifests: [{ path: 'package.json', content: '{"name":"pkg_2","private":true}' }]
+                        }
+                    })
+                    plugin.registryUrl = 'https://npm.acme.com'
+                    plugin.packageNameTemplate = compilePackageNameTemplate('@acme/{repo}')
+
+                    return plugin.packageNames().then(packageNames => {
+                        expect(packageNames).toStrictEqual({ pkg_1: ['repo_1'] })
+                        expect(options.logger.debug).toHaveBeenCalledWith(
+                            { repositoryName: 'repo_2', path: 'package.json', reason: 'the package is private' },
+                            expect.any(String)
+                        )
+                    })
+                })
+
+                it('should only include the manifests pointing back to the repository, if configured', () => {
+                    expect.assertions(2)
+
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: {
+                            manifests: [{ path: 'package.json', content: '{"name":"pkg_1","repository":"github:my-org/repo_1"}' }]
+                        },
+                        repo_2: {
+                            manifests: [{ path: 'package.json', content: '{"name":"pkg_1","repository":"github:my-org/repo_1"}' }]
+                        }
+                    })
+                    plugin.verifyRepositoryField = true
+
+                    return plugin.packageNames().then(packageNames => {
+                        expect(packageNames).toStrictEqual({ pkg_1: ['repo_1'] })
+                        expect(options.logger.warn).toHaveBeenCalledWith(
+                            {
+                                repositoryName: 'repo_2',
+                                path: 'package.json',
+                                reason: 'the repository field points to my-org/repo_1'
+                            },
+                            expect.any(String)
+                        )
+                    })
+                })
+
+                it('should include the packages declared in the repository configuration', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: {
+                            manifests: [{ path: 'package.json', content: '{"name":"pkg_1"}' }],
+                            config: { packages: ['pkg_1_legacy'], readTeams: [], public: false }
+                        }
+                    })
+
+                    return expect(plugin.packageNames()).resolves.toStrictEqual({
+                        pkg_1: ['repo_1'],
+                        pkg_1_legacy: ['repo_1']
+                    })
+                })
+
+                it.each([
+                    ['verifyRepositoryField', true],
+                    ['registryUrl', 'https://npm.acme.com']
+                ])('should ignore the packages declared in the repository configuration with %s', (option, value) => {
+                    expect.assertions(2)
+
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: {
+                            manifests: [],
+                            config: { packages: ['pkg_2'], readTeams: [], public: false }
+                        }
+                    })
+                    Object.assign(plugin, { [option]: value })
+
+                    return plugin.packageNames().then(packageNames => {
+                        expect(packageNames).toStrictEqual({})
+                        expect(options.logger.warn).toHaveBeenCalledWith(
+                            { repositoryName: 'repo_1', packageNames: ['pkg_2'] },
+                            expect.any(String)
+                        )
+                    })
+                })
+            })
+
+            describe('packagePermissionsForUserForPackage', () => {
+                beforeEach(() => {
+                    jest.spyOn(plugin, 'packageNames').mockResolvedValue({
+                        pkg_1: ['repo_1'],
+                        pkg_2: ['repo_2']
+                    })
+
+                    jest.spyOn(plugin, 'packagePermissionsForUser').mockResolvedValue({
+                        pkg_1: new Set([readPermission]),
+                        pkg_2: new Set([writePermission]),
+                        'pkg_*': new Set([readPermission, writePermission])
+                    })
+
+                    plugin.packageMappings = { names: {}, patterns: { 'pkg_*': 'repo_3' } }
+                })
+
+                const testUser: RemoteUser = {
+                    name: 'user',
+                    groups: [],
+                    real_groups: []
+                }
+
+                it('should return an empty set for unknown packages', () => {
+                    return expect(plugin.packagePermissionsForUserForPackage(testUser, 'other_pkg')).resolves.toStrictEqual(
+                        new Set()
+                    )
+                })
+
+                it('should return the permissions of the matching package pattern', () => {
+                    return expect(plugin.packagePermissionsForUserForPackage(testUser, 'pkg_3')).resolves.toStrictEqual(
+                        new Set([readPermission, writePermission])
+                    )
+                })
+
+                it('should return the permissions for valid packages', () => {
+                    return expect(plugin.packagePermissionsForUserForPackage(testUser, 'pkg_1')).resolves.toStrictEqual(
+                        new Set([readPermission])
+                    )
+                })
+
+                it('should apply the first-publish policy to unknown packages, when they are published', () => {
+                    expect.assertions(2)
+
+                    const firstPublishPermissions = jest
+                        .spyOn(plugin, 'firstPublishPermissions')
+                        .mockResolvedValue(new Set([readPermission, writePermission]))
+
+                    return plugin.packagePermissionsForUserForPackage(testUser, '@acme/new', true).then(permissions => {
+                        expect(permissions).toStrictEqual(new Set([readPermission, writePermission]))
+                        expect(firstPublishPermissions).toHaveBeenCalledWith(testUser, '@acme/new')
+                    })
+                })
+
+                it('should not apply the first-publish policy to the other accesses to unknown packages', () => {
+                    expect.assertions(2)
+
+                    const firstPublishPermissions = jest.spyOn(plugin, 'firstPublishPermissions')
+
+                    return plugin.packagePermissionsForUserForPackage(testUser, '@acme/new').then(permissions => {
+                        expect(permissions).toStrictEqual(new Set())
+                        expect(firstPublishPermissions).not.toHaveBeenCalled()
+                    })
+                })
+
+                it('should grant read access to the public packages', () => {
+                    plugin.publicPackages = ['@acme/public-*', 'pkg_2']
+                    return Promise.all([
+                        expect(plugin.packagePermissionsForUserForPackage(testUser, '@acme/public-ui')).resolves.toStrictEqual(
+                            new Set([readPermission])
+                        ),
+                        expect(plugin.packagePermissionsForUserForPackage(testUser, 'pkg_2')).resolves.toStrictEqual(
+                            new Set([writePermission, readPermission])
+                        )
+                    ])
+                })
+            })
+
+            describe('firstPublishPermissions', () => {
+                const testUser: RemoteUser = {
+                    name: 'user',
+                    groups: [],
+                    real_groups: ['team_1']
+                }
+
+                beforeEach(() => {
+                    plugin.firstPublish = { policy: 'deny', scopes: ['@acme'], teams: ['team_1'] }
+                    jest.spyOn(plugin, 'getOrganizationTeams').mockResolvedValue([{ name: 'team_1', members: ['user'] }])
+                })
+
+                it('should deny by default', () => {
+                    return expect(plugin.firstPublishPermissions(testUser, '@acme/new')).resolves.toStrictEqual(new Set())
+                })
+
+                it('should deny the packages outside of the scopes', () => {
+                    plugin.firstPublish.policy = 'teams'
+                    return expect(plugin.firstPublishPermissions(testUser, '@other/new')).resolves.toStrictEqual(new Set())
+                })
+
+                it('should deny anonymous users', () => {
+                    plugin.firstPublish.policy = 'teams'
+                    return expect(
+                        plugin.firstPublishPermissions({ name: undefined, groups: [], real_groups: ['team_1'] }, '@acme/new')
+                    ).resolves.toStrictEqual(new Set())
+                })
+
+                it('should allow the members of the teams, and audit the decision', () => {
+                    expect.assertions(2)
+                    plugin.firstPublish.policy = 'teams'
+
+                    return plugin.firstPublishPermissions(testUser, '@acme/new').then(permissions => {
+                        expect(permissions).toStrictEqual(new Set([readPermission, writePermission]))
+                        expect(options.logger.info).toHaveBeenCalledWith(
+                            { user: 'user', packageName: '@acme/new', policy: 'teams', allowed: true },
+                            expect.any(String)
+                        )
+                    })
+                })
+
+                it('should not allow the users whose groups are named after the teams', () => {
+                    plugin.firstPublish.policy = 'teams'
+                    return expect(
+                        plugin.firstPublishPermissions({ name: 'other_user', groups: [], real_groups: ['team_1'] }, '@acme/new')
+                    ).resolves.toStrictEqual(new Set())
+                })
+
+                it('should allow the owners of the organization', () => {
+                    plugin.firstPublish.policy = 'owners'
+                    jest.spyOn(plugin, 'getOrganizationOwners').mockResolvedValue(['owner'])
+
+                    return Promise.all([
+                        expect(plugin.firstPublishPermissions(testUser, '@acme/new')).resolves.toStrictEqual(new Set()),
+                        expect(
+                            plugin.firstPublishPermissions({ name: 'Owner', groups: [], real_groups: [] }, '@acme/new')
+                        ).resolves.toStrictEqual(new Set([readPermission, writePermission]))
+                    ])
+                })
+
+                it('should allow the writers of the repository named after the package', () => {
+                    plugin.firstPublish.policy = 'convention'
+                    jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({
+                        new: {
+                            users: { user: new Set([readPermission, writePermission]) },
+                            teams: {},
+                            public: false
+                        },
+                        other: {
+                            users: { other_user: new Set([readPermission, writePermission]) },
+                            teams: {},
+                            public: false
+                        }
+                    })
+
+                    return Promise.all([
+                        expect(plugin.firstPublishPermissions(testUser, '@acme/new')).resolves.toStrictEqual(
+                            new Set([readPermission, writePermission])
+                        ),
+                        expect(
+                            plugin.firstPublishPermissions({ name: 'other_user', groups: [], real_groups: [] }, '@acme/new')
+                        ).resolves.toStrictEqual(new Set())
+                    ])
+                })
+            })
+
+            describe('getOrganizationOwners', () => {
+                it('should return the owners of the organization', () => {
+                    const response: s.GetOrganizationOwnersQuery[] = [
+                        {
+                            organization: {
+                                membersWithRole: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        { role: s.OrganizationMemberRole.Admin, node: { login: 'Owner' } },
+                                        { role: s.OrganizationMemberRole.Member, node: { login: 'member' } }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    mockedClient.getAll.mockResolvedValue(response)
+
+                    return expect(plugin.getOrganizationOwners()).resolves.toStrictEqual(['owner'])
+                })
+            })
+
+            describe('packagePermissionsForUser', () => {
+                let remoteUser: RemoteUser
+
+                beforeEach(() => {
+                    jest.spyOn(plugin, 'packageNames').mockResolvedValue({
+                        pkg_1: ['repo_1'],
+                        pkg_2: ['repo_2']
+                    })
+
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({})
+
+                    jest.spyOn(plugin, 'getOrganizationTeams').mockResolvedValue([
+                        { name: 'team_1', members: ['other_user'] },
+                        { name: 'team_2', members: ['other_user'] }
+                    ])
+
+                    jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({
+                        repo_1: {
+                            users: {
+                                user: new Set([readPermission])
+                            },
+                            teams: {},
+                            public: false
+                        },
+                        repo_2: {
+                            users: {},
+                            teams: {
+                                team_1: new Set([readPermission]),
+                                team_2: new Set([writePermission])
+                            },
+                            public: false
+                        }
+                    })
+
+                    remoteUser = {
+                        name: 'user',
+                        real_groups: [],
+                        groups: []
+                    }
+                })
+
+                it('should return an empty set for an unknown user', () => {
+                    remoteUser.name = 'unknown_user'
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({})
+                })
+
+                it('should return the user permissions for a user', () => {
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_1: new Set([readPermission])
+                    })
+                })
+
+                it('should return the permissions for the package patterns', () => {
+                    plugin.packageMappings = { names: {}, patterns: { 'pkg_*': 'repo_1' } }
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        'pkg_*': new Set([readPermission]),
+                        pkg_1: new Set([readPermission])
+                    })
+                })
+
+                it("should return the union of permissions for a user's teams", () => {
+                    remoteUser.name = 'other_user'
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_2: new Set([readPermission, writePermission])
+                    })
+                })
+
+                it('should not grant the permissions of the teams to the groups named after them', () => {
+                    // e.g. an organization of the enterprise named like a team
+                    remoteUser.real_groups = ['team_2']
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_1: new Set([readPermission])
+                    })
+                })
+
+                it('should return the union of permissions for packages owned by several repositories', () => {
+                    jest.spyOn(plugin, 'packageNames').mockResolvedValue({
+                        pkg_1: ['repo_1', 'repo_2'],
+                        pkg_2: []
+                    })
+                    jest.spyOn(plugin, 'getOrganizationTeams').mockResolvedValue([{ name: 'team_2', members: ['user'] }])
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_1: new Set([readPermission, writePermission])
+                    })
+                })
+
+                it('should grant read access to the packages of the repositories configured as public', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_2: { manifests: [], config: { packages: [], readTeams: [], public: true } }
+                    })
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_1: new Set([readPermission]),
+                        pkg_2: new Set([readPermission])
+                    })
+                })
+
+                it('should not grant read access to anonymous users on the repositories configured as public', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_2: { manifests: [], config: { packages: [], readTeams: [], public: true } }
+                    })
+                    remoteUser = { name: undefined, real_groups: [], groups: [] }
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({})
+                })
+
+                describe('public repositories', () => {
+                    beforeEach(() => {
+                        jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({
+                            repo_1: {
+                                users: {
+                                    user: new Set([readPermission, writePermission])
+                                },
+                                teams: {},
+                                public: false
+                            },
+                            repo_2: {
+                                users: {
+                                    user: new Set([readPermission, writePermission])
+                                },
+                                teams: {},
+                                public: true
+                            }
+                        })
+                    })
+
+                    it('should grant read access to the packages of public repositories to anonymous users', () => {
+                        remoteUser = { name: undefined, real_groups: [], groups: [] }
+                        return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                            pkg_2: new Set([readPermission])
+                        })
+                    })
+
+                    it('should keep the permissions of the users on public repositories', () => {
+                        return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                            pkg_1: new Set([readPermission, writePermission]),
+                            pkg_2: new Set([readPermission, writePermission])
+                        })
+                    })
+                })
+
+                it('should grant read access to the read teams of the repository', () => {
+                    jest.spyOn(plugin, 'packageFiles').mockResolvedValue({
+                        repo_1: { manifests: [], config: { packages: [], readTeams: ['team_3'], public: false } }
+                    })
+                    jest.spyOn(plugin, 'getOrganizationTeams').mockResolvedValue([{ name: 'team_3', members: ['other_user'] }])
+                    remoteUser.name = 'other_user'
+                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
+                        pkg_1: new Set([readPermission])
+                    })
+                })
+            })
+
+            describe('repositoryPermissions', () => {
+                beforeEach(() => {
+                    // The outside collaborators policy is tested on its own
+                    plugin.outsideCollaborators = 'full'
+                })
+
+                it('should return the direct permissions for users', () => {
+                    const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: [
+                                                        {
+                                                            node: {
+                                                                login: 'user_1'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Admin,
+                                                                    source: {
+                                                                        __typename: 'Organization',
+                                                                        login: 'org'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        },
+                                                        {
+                                                            node: {
+                                                                login: 'user_2'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Read,
+                                                                    source: {
+                                                                        __typename: 'Organization',
+                                                                        login: 'org'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        }
+                                                    ]
+                                                }
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: [
+                                                        {
+                                                            node: {
+                                                                login: 'User_1'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Read,
+                                                                    source: {
+                                                                        __typename: 'Repository',
+                                                                        name: 'repo'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        },
+                                                        {
+                                                            node: {
+                                                                login: 'user_2'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Write,
+                                                                    source: {
+                                                                        __typename: 'Organization',
+                                                                        login: 'org'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        }
+                                                    ]
+                                                }
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    mockedClient.getAll.mockResolvedValue(response)
+
+                    return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
+                        repo_1: {
+                            teams: {},
+                            users: {
+                                user_1: new Set([readPermission, writePermission, unpublishPermission]),
+                                user_2: new Set([readPermission])
+                            },
+                            public: false
+                        },
+                        repo_2: {
+                            teams: {},
+                            users: {
+                                user_1: new Set([readPermission]),
+                                user_2: new Set([readPermission, writePermission])
+                            },
+                            public: false
+                        }
+                    })
+                })
+
+                it('should return the permissions for teams', () => {
+                    const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: [
+                                                        {
+                                                            node: {
+                                                                login: 'user_1'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Admin,
+                                                                    source: {
+                                                                        __typename: 'Team',
+                                                                        name: 'team_1'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        },
+                                                        {
+                                                            node: {
+                                                                login: 'user_2'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Read,
+                                                                    source: {
+                                                                        __typename: 'Team',
+                                                                        name: 'team_1'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        }
+                                                    ]
+                                                }
+                                            }
+                                        },
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_2'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: [
+                                                        {
+                                                            node: {
+                                                                login: 'user_1'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Read,
+                                                                    source: {
+                                                                        __typename: 'Team',
+                                                                        name: 'team_2'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        },
+                                                        {
+                                                            node: {
+                                                                login: 'user_2'
+                                                            },
+                                                            permissionSources: [
+                                                                {
+                                                                    permission: s.DefaultRepositoryPermissionField.Read,
+                                                                    source: {
+                                                                        __typename: 'Team',
+                                                                        name: 'team_2'
+                                                                    }
+                                                                }
+                                                            ]
+                                                        }
+                                                    ]
+                                                }
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    mockedClient.getAll.mockResolvedValue(response)
+
+                    return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
+                        repo_1: {
+                            teams: {
+                                team_1: new Set([readPermission, writePermission, unpublishPermission])
+                            },
+                            users: {
+                                user_1: new Set([]),
+                                user_2: new Set([])
+                            },
+                            public: false
+                        },
+                        repo_2: {
+                            teams: {
+                                team_2: new Set([readPermission])
+                            },
+                            users: {
+                                user_1: new Set([]),
+                                user_2: new Set([])
+                            },
+                            public: false
+                        }
+                    })
+                })
+
+                describe('outside collaborators', () => {
+                    const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: map(['member', 'Contractor'], login => ({
+                                                        node: { login },
+                                                        permissionSources: [
+                                                            {
+                                                                permission: s.DefaultRepositoryPermissionField.Write,
+                                                                source: { __typename: <const>'Repository', name: 'repo_1' }
+                                                            }
+                                                        ]
+                                                    }))
+                                                }
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    beforeEach(() => {
+                        mockedClient.getAll.mockResolvedValue(response)
+                        jest.spyOn(plugin, 'getOrganizationMembers').mockResolvedValue(['member'])
+                    })
+
+                    it.each([
+                        ['full', new Set([readPermission, writePermission])],
+                        ['read-only', new Set([readPermission])],
+                        ['none', new Set()]
+                    ])('applies the %s policy to the outside collaborators', (policy, expected) => {
+                        expect.assertions(1)
+
+                        plugin.outsideCollaborators = <OutsideCollaboratorsPolicy>policy
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions.repo_1.users).toStrictEqual({
+                                member: new Set([readPermission, writePermission]),
+                                contractor: expected
+                            })
+                        })
+                    })
+
+                    it('does not apply the policy to the extra repositories', () => {
+                        expect.assertions(1)
+
+                        plugin.outsideCollaborators = 'none'
+                        const extraPermissions = {
+                            users: { alice: new Set<Permission>([readPermission, writePermission]) },
+                            teams: {},
+                            public: false
+                        }
+
+                        plugin.extraRepositories = ['alice/legacy']
+
+                        return plugin
+                            .restrictOutsideCollaborators({ 'alice/legacy': extraPermissions })
+                            .then(repositoryPermissions => {
+                                expect(repositoryPermissions['alice/legacy']).toStrictEqual(extraPermissions)
+                            })
+                    })
+
+                    it('only retrieves the collaborators with the configured affiliation', () => {
+                        expect.assertions(1)
+
+                        plugin.affiliation = s.CollaboratorAffiliation.Direct
+
+                        return plugin.repositoryPermissions().then(() => {
+                            expect(mockedClient.getAll.mock.calls[0][1]).toStrictEqual({
+                                login: config.organization,
+                                branchProtection: false,
+                                bypassAllowances: true,
+                                affiliation: s.CollaboratorAffiliation.Direct
+                            })
+                        })
+                    })
+
+                    it('folds the team permissions into the collaborators with the DIRECT affiliation', () => {
+                        expect.assertions(1)
+
+                        mockedClient.getAll.mockResolvedValue([
+                            {
+                                organization: {
+                                    repositories: {
+                                        pageInfo: { hasNextPage: false, endCursor: null },
+                                        edges: [
+                                            {
+                                                node: {
+                                                    ...repositoryMetadata('repo_1'),
+                                                    defaultBranchRef: null,
+                                                    collaborators: {
+                                                        edges: [
+                                                            {
+                                                                node: { login: 'member' },
+                                                                permissionSources: [
+                                                                    {
+                                                                        permission: s.DefaultRepositoryPermissionField.Read,
+                                                                        source: { __typename: 'Repository', name: 'repo_1' }
+                                                                    },
+                                                                    {
+                                                                        permission: s.DefaultRepositoryPermissionField.Write,
+                                                                        source: { __typename: 'Team', name: 'developers' }
+                                                                    }
+                                                                ]
+                                                            }
+                                                        ]
+                                                    }
+                                                }
+                                            }
+                                        ]
+                                    }
+                                }
+                            }
+                        ])
+                        plugin.outsideCollaborators = 'full'
+                        plugin.affiliation = s.CollaboratorAffiliation.Direct
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions.repo_1).toStrictEqual({
+                                users: { member: new Set([readPermission, writePermission]) },
+                                teams: {},
+                                public: false
+                            })
+                        })
+                    })
+                })
+
+                describe('custom repository roles', () => {
+                    const collaborator = (login: string, permission: string) => ({
+                        node: { login },
+                        permissionSources: [
+                            {
+                                permission: <s.DefaultRepositoryPermissionField>permission,
+                                source: { __typename: <const>'Repository', name: 'repo_1' }
+                            }
+                        ]
+                    })
+
+                    const response = (permissions: Record<string, string>): s.GetOrganizationRepositoryPermissionsQuery[] => [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
+                                        {
+                                            node: {
+                                                ...repositoryMetadata('repo_1'),
+                                                defaultBranchRef: null,
+                                                collaborators: {
+                                                    edges: map(permissions, (permission, login) =>
+                                                        collaborator(login, permission)
+                                                    )
+                                                }
+                                            }
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    it('does not retrieve the custom roles if all the permissions are known', () => {
+                        expect.assertions(1)
+
+                        mockedClient.getAll.mockResolvedValue(response({ user_1: 'WRITE' }))
+
+                        return plugin.repositoryPermissions().then(() => {
+                            expect(mockedClient.getCustomRepositoryRoles).not.toHaveBeenCalled()
+                        })
+                    })
+
+                    it('resolves the custom roles to their base role, or to the configured permission', () => {
+                        expect.assertions(3)
+
+                        mockedClient.getAll.mockResolvedValue(
+                            response({ user_1: 'Security Reviewer', user_2: 'Release Manager', user_3: 'WRITE' })
+                        )
+                        mockedClient.getCustomRepositoryRoles.mockResolvedValue([
+                            { name: 'Security Reviewer', baseRole: 'triage' },
+                            { name: 'Release Manager', baseRole: 'write' }
+                        ])
+                        plugin.customRoles = { 'release manager': 'ADMIN' }
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions.repo_1.users).toStrictEqual({
+                                user_1: new Set([readPermission]),
+                                user_2: new Set([readPermission, writePermission, unpublishPermission]),
+                                user_3: new Set([readPermission, writePermission])
+                            })
+                            expect(mockedClient.getCustomRepositoryRoles).toHaveBeenCalledWith(config.organization)
+                            expect(options.logger.warn).not.toHaveBeenCalled()
+                        })
+                    })
+
+                    it('gives no access through the unknown permissions, without failing the other users', () => {
+                        expect.assertions(2)
+
+                        mockedClient.getAll.mockResolvedValue(response({ user_1: 'Auditor', user_2: 'READ' }))
+                        mockedClient.getCustomRepositoryRoles.mockRejectedValue(new Error('Not Found'))
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions.repo_1.users).toStrictEqual({
+                                user_1: new Set(),
+                                user_2: new Set([readPermission])
+                            })
+                            expect(options.logger.warn).toHaveBeenCalledWith({ permission: 'Auditor' }, expect.any(String))
+                        })
+                    })
+
+                    it('skips the custom roles without a base role', () => {
+                        expect.assertions(1)
+
+                        mockedClient.getAll.mockResolvedValue(response({ user_1: 'Auditor', user_2: 'Release Manager' }))
+                        mockedClient.getCustomRepositoryRoles.mockResolvedValue([
+                            { name: 'Auditor' },
+                            { name: 'Release Manager', baseRole: 'write' }
+                        ])
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions.repo_1.users).toStrictEqual({
+                                user_1: new Set(),
+                                user_2: new Set([readPermission, writePermission])
+                            })
+                        })
+                    })
+                })
+
+                describe('extra repositories', () => {
+                    const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: []
+                                }
+                            }
+                        }
+                    ]
+
+                    beforeEach(() => {
+                        plugin.extraRepositories = ['alice/legacy', 'bob/missing']
+                        mockedClient.getAll.mockResolvedValue(response)
+                    })
+
+                    it('returns the permissions of the extra repositories', () => {
+                        expect.assertions(3)
+
+                        const legacyResponse: s.GetRepositoryPermissionsQuery = {
+                            repository: {
+                                ...repositoryMetadata('legacy'),
+                                defaultBranchRef: null,
+                                collaborators: {
+                                    edges: [
+                                        {
+                                            node: {
+                                                login: 'Alice'
+                                            },
+                                            permissionSources: [
+                                                {
+                                                    permission: s.DefaultRepositoryPermissionField.Admin,
+                                                    source: {
+                                                        __typename: 'Repository',
+                                                        name: 'legacy'
+                                                    }
+                                                }
+                                            ]
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+
+                        mockedClient.get.mockImplementation((_query, params) =>
+                            Promise.resolve(params.owner === 'alice' ? legacyResponse : { repository: null })
+                        )
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(repositoryPermissions).toStrictEqual({
+                                'alice/legacy': {
+                                    teams: {},
+                                    users: {
+                                        alice: new Set([readPermission, writePermission, unpublishPermission])
+                                    },
+                                    public: false
+                                }
+                            })
+                            expect(mockedClient.get).toHaveBeenCalledWith(s.GetRepositoryPermissions, {
+                                owner: 'alice',
+                                name: 'legacy',
+                                branchProtection: false,
+                                bypassAllowances: true,
+                                affiliation: s.CollaboratorAffiliation.All
+                            })
+                            expect(options.logger.warn).toHaveBeenCalledWith(
+                                { repositoryName: 'bob/missing' },
+                                expect.any(String)
+                            )
+                        })
+                    })
                 })
-            })
 
-            describe('packagePermissionsForUser', () => {
-                let remoteUser: RemoteUser
+                describe('Github Enterprise Server', () => {
+                    beforeEach(() => {
+                        plugin.endpoints = apiEndpoints('https://github.acme.com/api/v3')
+                    })
 
-                beforeEach(() => {
-                    jest.spyOn(plugin, 'packageNames').mockResolvedValue({
-                        pkg_1: 'repo_1',
-                        pkg_2: 'repo_2'
+                    it('assumes that github.com has all the features of the schema', () => {
+                        expect.assertions(2)
+
+                        plugin.endpoints = apiEndpoints()
+
+                        return plugin.schemaFeatures().then(features => {
+                            expect(features).toStrictEqual({ permissionSources: true, bypassAllowances: true })
+                            expect(mockedClient.get).not.toHaveBeenCalled()
+                        })
                     })
 
-                    jest.spyOn(plugin, 'repositoryPermissions').mockResolvedValue({
-                        repo_1: {
-                            users: {
-                                user: new Set([readPermission])
+                    it('detects the features of the schema', () => {
+                        const response: s.GetSchemaFeaturesQuery = {
+                            collaboratorEdge: {
+                                fields: [{ name: 'node' }, { name: 'permission' }, { name: 'permissionSources' }]
                             },
-                            teams: {}
-                        },
-                        repo_2: {
-                            users: {},
-                            teams: {
-                                team_1: new Set([readPermission]),
-                                team_2: new Set([writePermission])
-                            }
+                            branchProtectionRule: { fields: [{ name: 'pushAllowances' }] }
                         }
+
+                        mockedClient.get.mockResolvedValue(response)
+
+                        return expect(plugin.schemaFeatures()).resolves.toStrictEqual({
+                            permissionSources: true,
+                            bypassAllowances: false
+                        })
                     })
 
-                    remoteUser = {
-                        name: 'user',
-                        real_groups: [],
-                        groups: []
-                    }
-                })
+                    it('falls back to the permission of the collaborators without the permission sources', () => {
+                        expect.assertions(2)
 
-                it('should return an empty set for an unknown user', () => {
-                    remoteUser.name = 'unknown_user'
-                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({})
-                })
+                        const featuresResponse: s.GetSchemaFeaturesQuery = {
+                            collaboratorEdge: { fields: [{ name: 'node' }, { name: 'permission' }] },
+                            branchProtectionRule: { fields: [{ name: 'pushAllowances' }] }
+                        }
 
-                it('should return the user permissions for a user', () => {
-                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
-                        pkg_1: new Set([readPermission])
+                        const response: s.GetOrganizationRepositoryPermissionsLegacyQuery[] = [
+                            {
+                                organization: {
+                                    repositories: {
+                                        pageInfo: {
+                                            hasNextPage: false,
+                                            endCursor: null
+                                        },
+                                        edges: [
+                                            {
+                                                node: {
+                                                    ...repositoryMetadata('repo_1'),
+                                                    defaultBranchRef: null,
+                                                    collaborators: {
+                                                        edges: [
+                                                            {
+                                                                node: {
+                                                                    login: 'User_1'
+                                                                },
+                                                                permission: s.RepositoryPermission.Maintain
+                                                            },
+                                                            {
+                                                                node: {
+                                                                    login: 'user_2'
+                                                                },
+                                                                permission: s.RepositoryPermission.Triage
+                                                            }
+                                                        ]
+                                                    }
+                                                }
+                                            }
+                                        ]
+                                    }
+                                }
+                            }
+                        ]
+
+                        mockedClient.get.mockResolvedValue(featuresResponse)
+                        mockedClient.getAll.mockResolvedValue(response)
+
+                        return plugin.repositoryPermissions().then(repositoryPermissions => {
+                            expect(mockedClient.getAll.mock.calls[0][0]).toBe(s.GetOrganizationRepositoryPermissionsLegacy)
+                            expect(repositoryPermissions).toStrictEqual({
+                                repo_1: {
+                                    teams: {},
+                                    users: {
+                                        user_1: new Set([readPermission, writePermission]),
+                                        user_2: new Set([readPermission])
+                                    },
+                                    public: false
+                                }
+                            })
+                        })
                     })
                 })
 
-                it("should return the union of permissions for a user's teams", () => {
-                    remoteUser.name = 'other_user'
-                    remoteUser.real_groups = ['team_1', 'team_2']
-                    return expect(plugin.packagePermissionsForUser(remoteUser)).resolves.toStrictEqual({
-                        pkg_2: new Set([readPermission, writePermission])
+                describe('archived repositories', () => {
+                    beforeEach(() => {
+                        const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                            {
+                                organization: {
+                                    repositories: {
+                                        pageInfo: {
+                                            hasNextPage: false,
+                                            endCursor: null
+                                        },
+                                        edges: [
+                                            {
+                                                node: {
+                                                    ...repositoryMetadata('repo_1'),
+                                                    isArchived: true,
+                                                    defaultBranchRef: null,
+                                                    collaborators: {
+                                                        edges: [
+                                                            {
+                                                                node: {
+                                                                    login: 'user_1'
+                                                                },
+                                                                permissionSources: [
+                                                                    {
+                                                                        permission: s.DefaultRepositoryPermissionField.Admin,
+                                                                        source: {
+                                                                            __typename: 'Organization',
+                                                                            login: 'org'
+                                                                        }
+                                                                    },
+                                                                    {
+                                                                        permission: s.DefaultRepositoryPermissionField.Write,
+                                                                        source: {
+                                                                            __typename: 'Team',
+                                                                            name: 'team_1'
+                                                                        }
+                                                                    }
+                                                                ]
+                                                            }
+                                                        ]
+                                                    }
+                                                }
+                                            }
+                                        ]
+                                    }
+                                }
+                            }
+                        ]
+
+                        mockedClient.getAll.mockResolvedValue(response)
+                    })
+
+                    it('should only give read permissions on archived repositories', () => {
+                        return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
+                            repo_1: {
+                                teams: {
+                                    team_1: new Set([readPermission])
+                                },
+                                users: {
+                                    user_1: new Set([readPermission])
+                                },
+                                public: false
+                            }
+                        })
+                    })
+
+                    it('should keep the permissions on archived repositories if configured', () => {
+                        plugin.archivedRepositoriesReadOnly = false
+                        return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
+                            repo_1: {
+                                teams: {
+                                    team_1: new Set([readPermission, writePermission])
+                                },
+                                users: {
+                                    user_1: new Set([readPermission, writePermission, unpublishPermission])
+                                },
+                                public: false
+                            }
+                        })
                     })
                 })
-            })
 
-            describe('repositoryPermissions', () => {
-                it('should return the direct permissions for users', () => {
+                it('should skip the repositories excluded by the repository filters', () => {
                     const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
                         {
                             organization: {
@@ -751,75 +3385,22 @@ describe('index.js unit tests', () => {
                                     edges: [
                                         {
                                             node: {
-                                                name: 'repo_1',
+                                                ...repositoryMetadata('repo_1'),
+                                                repositoryTopics: {
+                                                    nodes: [{ topic: { name: 'npm-package' } }]
+                                                },
+                                                defaultBranchRef: null,
                                                 collaborators: {
-                                                    edges: [
-                                                        {
-                                                            node: {
-                                                                login: 'user_1'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Admin,
-                                                                    source: {
-                                                                        __typename: 'Organization',
-                                                                        login: 'org'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        },
-                                                        {
-                                                            node: {
-                                                                login: 'user_2'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Read,
-                                                                    source: {
-                                                                        __typename: 'Organization',
-                                                                        login: 'org'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        }
-                                                    ]
+                                                    edges: []
                                                 }
                                             }
                                         },
                                         {
                                             node: {
-                                                name: 'repo_2',
+                                                ...repositoryMetadata('repo_2'),
+                                                defaultBranchRef: null,
                                                 collaborators: {
-                                                    edges: [
-                                                        {
-                                                            node: {
-                                                                login: 'User_1'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Read,
-                                                                    source: {
-                                                                        __typename: 'Repository',
-                                                                        name: 'repo'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        },
-                                                        {
-                                                            node: {
-                                                                login: 'user_2'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Write,
-                                                                    source: {
-                                                                        __typename: 'Organization',
-                                                                        login: 'org'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        }
-                                                    ]
+                                                    edges: []
                                                 }
                                             }
                                         }
@@ -830,26 +3411,26 @@ describe('index.js unit tests', () => {
                     ]
 
                     mockedClient.getAll.mockResolvedValue(response)
+                    plugin.repositoryFilters = { requiredTopics: ['npm-package'] }
 
                     return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
                         repo_1: {
                             teams: {},
-                            users: {
-                                user_1: new Set([readPermission, writePermission]),
-                                user_2: new Set([readPermission])
-                            }
-                        },
-                        repo_2: {
-                            teams: {},
-                            users: {
-                                user_1: new Set([readPermission]),
-                                user_2: new Set([readPermission, writePermission])
-                            }
+                            users: {},
+                            public: false
                         }
                     })
                 })
 
-                it('should return the permissions for teams', () => {
+                it('should only give publish permissions to the users who can push to the protected branch', () => {
+                    expect.assertions(2)
+
+                    const collaborator = (
+                        login: string,
+                        permission: s.DefaultRepositoryPermissionField,
+                        source: { __typename: 'Team'; name: string } | { __typename: 'Repository'; name: string }
+                    ) => ({ node: { login }, permissionSources: [{ permission, source }] })
+
                     const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
                         {
                             organization: {
@@ -861,75 +3442,90 @@ describe('index.js unit tests', () => {
                                     edges: [
                                         {
                                             node: {
-                                                name: 'repo_1',
+                                                ...repositoryMetadata('repo_1'),
+                                                defaultBranchRef: {
+                                                    branchProtectionRule: {
+                                                        isAdminEnforced: false,
+                                                        requiresApprovingReviews: false,
+                                                        restrictsPushes: true,
+                                                        pushAllowances: {
+                                                            nodes: [{ actor: { __typename: 'Team', name: 'release' } }]
+                                                        },
+                                                        bypassPullRequestAllowances: { nodes: [] }
+                                                    }
+                                                },
                                                 collaborators: {
                                                     edges: [
-                                                        {
-                                                            node: {
-                                                                login: 'user_1'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Admin,
-                                                                    source: {
-                                                                        __typename: 'Team',
-                                                                        name: 'team_1'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        },
-                                                        {
-                                                            node: {
-                                                                login: 'user_2'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Read,
-                                                                    source: {
-                                                                        __typename: 'Team',
-                                                                        name: 'team_1'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        }
+                                                        collaborator('admin', s.DefaultRepositoryPermissionField.Admin, {
+                                                            __typename: 'Repository',
+                                                            name: 'repo_1'
+                                                        }),
+                                                        collaborator('developer', s.DefaultRepositoryPermissionField.Write, {
+                                                            __typename: 'Team',
+                                                            name: 'developers'
+                                                        }),
+                                                        collaborator(
+                                                            'release_manager',
+                                                            s.DefaultRepositoryPermissionField.Write,
+                                                            {
+                                                                __typename: 'Team',
+                                                                name: 'release'
+                                                            }
+                                                        )
                                                     ]
                                                 }
                                             }
-                                        },
+                                        }
+                                    ]
+                                }
+                            }
+                        }
+                    ]
+
+                    mockedClient.getAll.mockResolvedValue(response)
+                    plugin.branchProtection = true
+
+                    return plugin.repositoryPermissions().then(repositoryPermissions => {
+                        expect(mockedClient.getAll.mock.calls[0][1]).toStrictEqual({
+                            login: config.organization,
+                            branchProtection: true,
+                            bypassAllowances: true,
+                            affiliation: s.CollaboratorAffiliation.All
+                        })
+                        expect(repositoryPermissions).toStrictEqual({
+                            repo_1: {
+                                teams: {
+                                    developers: new Set([readPermission]),
+                                    release: new Set([readPermission])
+                                },
+                                users: {
+                                    admin: new Set([readPermission, writePermission, unpublishPermission]),
+                                    developer: new Set(),
+                                    release_manager: new Set([readPermission, writePermission])
+                                },
+                                public: false
+                            }
+                        })
+                    })
+                })
+
+                it('should flag the public repositories', () => {
+                    const response: s.GetOrganizationRepositoryPermissionsQuery[] = [
+                        {
+                            organization: {
+                                repositories: {
+                                    pageInfo: {
+                                        hasNextPage: false,
+                                        endCursor: null
+                                    },
+                                    edges: [
                                         {
                                             node: {
-                                                name: 'repo_2',
+                                                ...repositoryMetadata('repo_1'),
+                                                visibility: s.RepositoryVisibility.Public,
+                                                defaultBranchRef: null,
                                                 collaborators: {
-                                                    edges: [
-                                                        {
-                                                            node: {
-                                                                login: 'user_1'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Read,
-                                                                    source: {
-                                                                        __typename: 'Team',
-                                                                        name: 'team_2'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        },
-                                                        {
-                                                            node: {
-                                                                login: 'user_2'
-                                                            },
-                                                            permissionSources: [
-                                                                {
-                                                                    permission: s.DefaultRepositoryPermissionField.Read,
-                                                                    source: {
-                                                                        __typename: 'Team',
-                                                                        name: 'team_2'
-                                                                    }
-                                                                }
-                                                            ]
-                                                        }
-                                                    ]
+                                                    edges: []
                                                 }
                                             }
                                         }
@@ -943,22 +3539,9 @@ describe('index.js unit tests', () => {
 
                     return expect(plugin.repositoryPermissions()).resolves.toStrictEqual({
                         repo_1: {
-                            teams: {
-                                team_1: new Set([readPermission, writePermission])
-                            },
-                            users: {
-                                user_1: new Set([]),
-                                user_2: new Set([])
-                            }
-                        },
-                        repo_2: {
-                            teams: {
-                                team_2: new Set([readPermission])
-                            },
-                            users: {
-                                user_1: new Set([]),
-                                user_2: new Set([])
-                            }
+                            teams: {},
+                            users: {},
+                            public: true
                         }
                     })
                 })
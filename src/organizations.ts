@@ -0,0 +1,33 @@
+import { compact, map } from 'lodash'
+
+/**
+ * The name of the group of a team, when several organizations are configured, e.g. `acme/developers`.
+ * The virtual team of the members of the organization keeps the name of the organization.
+ *
+ * @param organization - The name of the organization.
+ * @param team - The name of the team.
+ * @returns The name of the group.
+ */
+export const organizationGroup = (organization: string, team: string): string => {
+    return team === organization ? team : `${organization}/${team}`
+}
+
+/**
+ * Selects the groups of an organization, and removes the organization prefix from their names.
+ *
+ * @param organization - The name of the organization.
+ * @param groups - The names of the groups, as returned by `organizationGroup`.
+ * @returns The names of the teams of the organization.
+ */
+export const organizationTeams = (organization: string, groups: string[]): string[] => {
+    const prefix = `${organization}/`
+
+    return compact(
+        map(groups, g => {
+            if (g === organization) {
+                return g
+            }
+            return g.startsWith(prefix) ? g.slice(prefix.length) : undefined
+        })
+    )
+}
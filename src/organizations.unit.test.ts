@@ -0,0 +1,26 @@
+import { organizationGroup, organizationTeams } from './organizations'
+
+describe('organizations', () => {
+    describe('organizationGroup', () => {
+        it('prefixes the team with the organization', () => {
+            expect(organizationGroup('acme', 'developers')).toStrictEqual('acme/developers')
+        })
+
+        it('keeps the name of the organization team', () => {
+            expect(organizationGroup('acme', 'acme')).toStrictEqual('acme')
+        })
+    })
+
+    describe('organizationTeams', () => {
+        it('selects the teams of the organization', () => {
+            expect(organizationTeams('acme', ['acme', 'acme/developers', 'globex', 'globex/developers', '$all'])).toStrictEqual([
+                'acme',
+                'developers'
+            ])
+        })
+
+        it('does not select the teams of organizations with the same prefix', () => {
+            expect(organizationTeams('acme', ['acme-labs/developers'])).toStrictEqual([])
+        })
+    })
+})
@@ -0,0 +1,14 @@
+/**
+ * What the outside collaborators, who have access to repositories of the organization without being members of it,
+ * can do with the packages of the repositories.
+ *
+ * - `full`: the same as the members with the same repository permissions.
+ * - `read-only`: install the packages, but not publish them.
+ * - `none` (default): nothing, they can't log in.
+ */
+export type OutsideCollaboratorsPolicy = 'full' | 'read-only' | 'none'
+
+export const outsideCollaboratorsPolicies: OutsideCollaboratorsPolicy[] = ['full', 'read-only', 'none']
+
+// The group of the outside collaborators, for the `packages` rules of Verdaccio
+export const outsideCollaboratorsGroup = 'outside-collaborators'
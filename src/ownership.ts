@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs'
+import { forOwn, isEmpty, uniq } from 'lodash'
+import { join, parse } from 'path'
+
+/**
+ * What to do when several repositories claim the same package name.
+ *
+ * - `first`: the repository that claimed the package first owns it.
+ * - `deny`: nobody gets access to the package until the conflict is resolved.
+ * - `union`: all of the claiming repositories own the package.
+ */
+export type DuplicatePackagePolicy = 'first' | 'deny' | 'union'
+
+export const duplicatePackagePolicies: DuplicatePackagePolicy[] = ['first', 'deny', 'union']
+
+// Package names, mapped to the repositories that claim them, in claim order
+export type PackageClaims = Record<string, string[]>
+
+// Package names, mapped to the repository that owns them
+export type OwnershipLedgerEntries = Record<string, string>
+
+export type PackageOwners = {
+    // Package names, mapped to the repositories that own them
+    owners: Record<string, string[]>
+    // Package names claimed by several repositories, mapped to the claiming repositories
+    conflicts: PackageClaims
+    // The ledger entries for the packages that were claimed for the first time
+    newEntries: OwnershipLedgerEntries
+}
+
+/**
+ * Resolves the owners of the packages from the claims of the repositories.
+ *
+ * A package that is in the ownership ledger stays bound to the repository in the ledger,
+ * whichever repositories claim it. Otherwise, the duplicate package policy decides who owns
+ * packages that are claimed by several repositories.
+ *
+ * @param claims - The package claims.
+ * @param policy - The duplicate package policy.
+ * @param ledger - The ownership ledger entries.
+ * @returns The owners of the packages.
+ */
+export const resolvePackageOwners = (
+    claims: PackageClaims,
+    policy: DuplicatePackagePolicy,
+    ledger: OwnershipLedgerEntries = {}
+): PackageOwners => {
+    const result: PackageOwners = { owners: {}, conflicts: {}, newEntries: {} }
+
+    forOwn(claims, (repositories, packageName) => {
+        const claimers = uniq(repositories)
+        const pinnedOwner = ledger[packageName]
+
+        if (pinnedOwner) {
+            result.owners[packageName] = [pinnedOwner]
+
+            if (claimers.some(r => r !== pinnedOwner)) {
+                result.conflicts[packageName] = claimers
+            }
+            return
+        }
+
+        if (claimers.length === 1) {
+            result.owners[packageName] = claimers
+            result.newEntries[packageName] = claimers[0]
+            return
+        }
+
+        result.conflicts[packageName] = claimers
+
+        switch (policy) {
+            case 'first':
+                result.owners[packageName] = [claimers[0]]
+                result.newEntries[packageName] = claimers[0]
+                break
+            case 'deny':
+                result.owners[packageName] = []
+                break
+            case 'union':
+                result.owners[packageName] = claimers
+                break
+        }
+    })
+
+    return result
+}
+
+/**
+ * The path of the ownership ledger of one of several organizations, e.g. `ledger.acme.json` for `ledger.json`.
+ *
+ * @param ledgerPath - The configured path of the ledger.
+ * @param organization - The name of the organization.
+ * @returns The path of the ledger of the organization.
+ */
+export const organizationLedgerPath = (ledgerPath: string, organization: string): string => {
+    const { dir, name, ext } = parse(ledgerPath)
+    return join(dir, `${name}.${organization}${ext}`)
+}
+
+/**
+ * The ownership ledger, persisted as a JSON file mapping package names to repository names.
+ *
+ * Administrators transfer a package by editing its entry in the file.
+ */
+export class OwnershipLedger {
+    path: string
+    // The pending write, the writes are serialized so that concurrent records don't lose entries
+    writes: Promise<void>
+
+    constructor(path: string) {
+        this.path = path
+        this.writes = Promise.resolve()
+    }
+
+    /**
+     * Reads the ledger entries.
+     *
+     * @returns A promise of the ledger entries, empty if the ledger doesn't exist yet.
+     */
+    load(): Promise<OwnershipLedgerEntries> {
+        return fs.readFile(this.path, 'utf8').then(
+            content => <OwnershipLedgerEntries>JSON.parse(content),
+            (err: NodeJS.ErrnoException) => {
+                if (err.code === 'ENOENT') {
+                    return {}
+                }
+                throw err
+            }
+        )
+    }
+
+    /**
+     * Adds entries to the ledger. Existing entries are never overwritten.
+     *
+     * @param entries - The new ledger entries.
+     * @returns A promise that resolves once the ledger has been written.
+     */
+    record(entries: OwnershipLedgerEntries): Promise<void> {
+        if (isEmpty(entries)) {
+            return Promise.resolve()
+        }
+
+        const write = () =>
+            this.load().then(ledger => fs.writeFile(this.path, JSON.stringify({ ...entries, ...ledger }, null, 2) + '\n'))
+
+        const result = this.writes.then(write)
+        // A failed write doesn't prevent the next ones
+        this.writes = result.catch(() => undefined)
+        return result
+    }
+}
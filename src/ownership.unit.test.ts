@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { organizationLedgerPath, resolvePackageOwners, OwnershipLedger } from './ownership'
+
+describe('ownership', () => {
+    describe('resolvePackageOwners', () => {
+        const claims = {
+            pkg_1: ['repo_1'],
+            pkg_2: ['repo_1', 'repo_2']
+        }
+
+        it('gives the packages to the first claimer', () => {
+            expect(resolvePackageOwners(claims, 'first')).toStrictEqual({
+                owners: { pkg_1: ['repo_1'], pkg_2: ['repo_1'] },
+                conflicts: { pkg_2: ['repo_1', 'repo_2'] },
+                newEntries: { pkg_1: 'repo_1', pkg_2: 'repo_1' }
+            })
+        })
+
+        it('denies the conflicting packages', () => {
+            expect(resolvePackageOwners(claims, 'deny')).toStrictEqual({
+                owners: { pkg_1: ['repo_1'], pkg_2: [] },
+                conflicts: { pkg_2: ['repo_1', 'repo_2'] },
+                newEntries: { pkg_1: 'repo_1' }
+            })
+        })
+
+        it('gives the conflicting packages to all the claimers', () => {
+            expect(resolvePackageOwners(claims, 'union')).toStrictEqual({
+                owners: { pkg_1: ['repo_1'], pkg_2: ['repo_1', 'repo_2'] },
+                conflicts: { pkg_2: ['repo_1', 'repo_2'] },
+                newEntries: { pkg_1: 'repo_1' }
+            })
+        })
+
+        it('keeps the packages bound to the owner in the ledger', () => {
+            expect(
+                resolvePackageOwners({ pkg_1: ['repo_2'], pkg_2: ['repo_2'] }, 'union', { pkg_1: 'repo_1', pkg_2: 'repo_2' })
+            ).toStrictEqual({
+                owners: { pkg_1: ['repo_1'], pkg_2: ['repo_2'] },
+                conflicts: { pkg_1: ['repo_2'] },
+                newEntries: {}
+            })
+        })
+
+        it('ignores several claims by the same repository', () => {
+            expect(resolvePackageOwners({ pkg_1: ['repo_1', 'repo_1'] }, 'deny')).toStrictEqual({
+                owners: { pkg_1: ['repo_1'] },
+                conflicts: {},
+                newEntries: { pkg_1: 'repo_1' }
+            })
+        })
+    })
+
+    describe('organizationLedgerPath', () => {
+        it('adds the organization to the name of the ledger', () => {
+            expect(organizationLedgerPath('/var/lib/ledger.json', 'acme')).toBe('/var/lib/ledger.acme.json')
+        })
+    })
+
+    describe('OwnershipLedger', () => {
+        let directory: string
+        let ledger: OwnershipLedger
+
+        beforeEach(() => {
+            return fs.mkdtemp(path.join(os.tmpdir(), 'ledger-')).then(d => {
+                directory = d
+                ledger = new OwnershipLedger(path.join(directory, 'ledger.json'))
+            })
+        })
+
+        afterEach(() => {
+            return fs.rm(directory, { recursive: true, force: true })
+        })
+
+        it('is empty when the file does not exist', () => {
+            return expect(ledger.load()).resolves.toStrictEqual({})
+        })
+
+        it('records the new entries without overwriting the existing ones', () => {
+            expect.assertions(1)
+
+            return ledger
+                .record({ pkg_1: 'repo_1' })
+                .then(() => ledger.record({ pkg_1: 'repo_2', pkg_2: 'repo_2' }))
+                .then(() => ledger.load())
+                .then(entries => {
+                    expect(entries).toStrictEqual({ pkg_1: 'repo_1', pkg_2: 'repo_2' })
+                })
+        })
+
+        it('does not lose entries recorded concurrently', () => {
+            expect.assertions(1)
+
+            return Promise.all([ledger.record({ pkg_1: 'repo_1' }), ledger.record({ pkg_2: 'repo_2' })])
+                .then(() => ledger.load())
+                .then(entries => {
+                    expect(entries).toStrictEqual({ pkg_1: 'repo_1', pkg_2: 'repo_2' })
+                })
+        })
+
+        it('does not create the file when there is nothing to record', () => {
+            return expect(ledger.record({}).then(() => fs.readdir(directory))).resolves.toHaveLength(0)
+        })
+
+        it('fails on an invalid file', () => {
+            return expect(fs.writeFile(ledger.path, '{').then(() => ledger.load())).rejects.toThrow(SyntaxError)
+        })
+    })
+})
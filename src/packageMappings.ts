@@ -0,0 +1,41 @@
+import minimatch from 'minimatch'
+import { find, forOwn, keys } from 'lodash'
+import { hasMagic } from './workspaces'
+
+export type PackageMappings = {
+    // Exact package names, mapped to repository names
+    names: Record<string, string>
+    // Package name globs, mapped to repository names
+    patterns: Record<string, string>
+}
+
+/**
+ * Splits the configured package mappings into exact package names and package name globs.
+ *
+ * @param mappings - The configured package mappings.
+ * @returns The package mappings.
+ */
+export const parsePackageMappings = (mappings: Record<string, string> = {}): PackageMappings => {
+    const packageMappings: PackageMappings = { names: {}, patterns: {} }
+
+    forOwn(mappings, (repositoryName, packageName) => {
+        if (hasMagic(packageName)) {
+            packageMappings.patterns[packageName] = repositoryName
+        } else {
+            packageMappings.names[packageName] = repositoryName
+        }
+    })
+
+    return packageMappings
+}
+
+/**
+ * Finds the first package name glob that matches the package name.
+ *
+ * @param packageName - The name of the package.
+ * @param patterns - The package name globs, mapped to repository names.
+ * @returns The matching glob, or undefined.
+ */
+export const matchPackagePattern = (packageName: string, patterns: Record<string, string>): string | undefined => {
+    return find(keys(patterns), p => minimatch(packageName, p))
+}
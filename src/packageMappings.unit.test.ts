@@ -0,0 +1,37 @@
+import { parsePackageMappings, matchPackagePattern } from './packageMappings'
+
+describe('packageMappings', () => {
+    describe('parsePackageMappings', () => {
+        it('splits the exact names from the patterns', () => {
+            expect(
+                parsePackageMappings({
+                    '@acme/sdk': 'sdk-generator',
+                    '@acme/icons-*': 'design-system'
+                })
+            ).toStrictEqual({
+                names: { '@acme/sdk': 'sdk-generator' },
+                patterns: { '@acme/icons-*': 'design-system' }
+            })
+        })
+
+        it('handles missing mappings', () => {
+            expect(parsePackageMappings()).toStrictEqual({ names: {}, patterns: {} })
+        })
+    })
+
+    describe('matchPackagePattern', () => {
+        const patterns = {
+            '@acme/icons-*': 'design-system',
+            '@acme/*': 'monorepo'
+        }
+
+        it('returns the first matching pattern', () => {
+            expect(matchPackagePattern('@acme/icons-arrows', patterns)).toStrictEqual('@acme/icons-*')
+            expect(matchPackagePattern('@acme/utils', patterns)).toStrictEqual('@acme/*')
+        })
+
+        it('returns undefined if no pattern matches', () => {
+            expect(matchPackagePattern('@other/utils', patterns)).toBeUndefined()
+        })
+    })
+})
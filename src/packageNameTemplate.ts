@@ -0,0 +1,66 @@
+import { camelCase, has, kebabCase, keys, map, snakeCase, toLower, toUpper, trim } from 'lodash'
+
+export type PackageNameVariables = {
+    // The name of the repository
+    repo: string
+    // The name of the organization
+    org: string
+}
+
+/**
+ * Renders the package name of a repository.
+ */
+export type PackageNameTemplate = (variables: PackageNameVariables) => string
+
+const transforms: Record<string, (value: string) => string> = {
+    kebab: kebabCase,
+    snake: snakeCase,
+    camel: camelCase,
+    lower: toLower,
+    upper: toUpper
+}
+
+const variableNames: (keyof PackageNameVariables)[] = ['repo', 'org']
+
+// Placeholders look like `{repo}`, or `{repo|kebab}` with transforms applied from left to right
+const placeholderPattern = /\{([^{}]*)\}/g
+
+/**
+ * Compiles a package name template, e.g. `@acme/{repo|kebab}`.
+ *
+ * The template is validated when it's compiled, so that configuration errors are reported on startup.
+ *
+ * @param template - The package name template.
+ * @returns The compiled template.
+ * @throws {Error} If the template uses an unknown variable or transform.
+ */
+export const compilePackageNameTemplate = (template: string): PackageNameTemplate => {
+    const placeholders = map(template.match(placeholderPattern), placeholder => {
+        const [name, ...transformNames] = map(placeholder.slice(1, -1).split('|'), trim)
+
+        if (!variableNames.includes(<keyof PackageNameVariables>name)) {
+            throw new Error(`Unknown variable "${name}" in package name template, expected one of: ${variableNames.join(', ')}`)
+        }
+
+        transformNames.forEach(transformName => {
+            if (!has(transforms, transformName)) {
+                throw new Error(
+                    `Unknown transform "${transformName}" in package name template, expected one of: ${keys(transforms).join(
+                        ', '
+                    )}`
+                )
+            }
+        })
+
+        return { name: <keyof PackageNameVariables>name, transformNames }
+    })
+
+    return variables => {
+        let index = 0
+
+        return template.replace(placeholderPattern, () => {
+            const { name, transformNames } = placeholders[index++]
+            return transformNames.reduce((value, transformName) => transforms[transformName](value), variables[name])
+        })
+    }
+}
@@ -0,0 +1,29 @@
+import { compilePackageNameTemplate } from './packageNameTemplate'
+
+describe('packageNameTemplate', () => {
+    describe('compilePackageNameTemplate', () => {
+        const variables = { repo: 'Generated_SDK', org: 'Acme' }
+
+        it('replaces the variables', () => {
+            expect(compilePackageNameTemplate('@{org}/{repo}')(variables)).toStrictEqual('@Acme/Generated_SDK')
+        })
+
+        it('applies the transforms in order', () => {
+            expect(compilePackageNameTemplate('@{ org | lower }/{repo|kebab}')(variables)).toStrictEqual('@acme/generated-sdk')
+            expect(compilePackageNameTemplate('{repo|camel|upper}')(variables)).toStrictEqual('GENERATEDSDK')
+            expect(compilePackageNameTemplate('{repo|snake}')(variables)).toStrictEqual('generated_sdk')
+        })
+
+        it('keeps templates without placeholders', () => {
+            expect(compilePackageNameTemplate('pkg')(variables)).toStrictEqual('pkg')
+        })
+
+        it('rejects unknown variables', () => {
+            expect(() => compilePackageNameTemplate('@acme/{name}')).toThrow('Unknown variable "name"')
+        })
+
+        it('rejects unknown transforms', () => {
+            expect(() => compilePackageNameTemplate('@acme/{repo|title}')).toThrow('Unknown transform "title"')
+        })
+    })
+})
@@ -0,0 +1,90 @@
+import { difference, forOwn, includes, isArray, uniq } from 'lodash'
+
+/**
+ * The Github permissions: the roles of the repository collaborators, and the default repository permission
+ * of the organization members.
+ */
+export type GithubPermission = 'ADMIN' | 'MAINTAIN' | 'WRITE' | 'TRIAGE' | 'READ' | 'NONE'
+
+export const githubPermissions: GithubPermission[] = ['ADMIN', 'MAINTAIN', 'WRITE', 'TRIAGE', 'READ', 'NONE']
+
+/**
+ * The actions of the users on the packages of the registry.
+ *
+ * - `read`: install the package.
+ * - `write`: publish the package.
+ * - `unpublish`: unpublish versions of the package, or the whole package.
+ */
+export type RegistryAction = 'read' | 'write' | 'unpublish'
+
+export const registryActions: RegistryAction[] = ['read', 'write', 'unpublish']
+
+export type PermissionMap = Record<GithubPermission, RegistryAction[]>
+
+export const defaultPermissionMap: PermissionMap = {
+    ADMIN: ['read', 'write', 'unpublish'],
+    MAINTAIN: ['read', 'write'],
+    WRITE: ['read', 'write'],
+    TRIAGE: ['read'],
+    READ: ['read'],
+    NONE: []
+}
+
+/**
+ * Validates the configured permission map, and completes it with the default mapping of the missing permissions.
+ *
+ * @param permissionMap - The configured permission map.
+ * @returns The permission map.
+ * @throws Error if a permission or an action is unknown.
+ */
+export const parsePermissionMap = (permissionMap: Partial<Record<string, unknown>> = {}): PermissionMap => {
+    const result: PermissionMap = { ...defaultPermissionMap }
+
+    forOwn(permissionMap, (actions, permission) => {
+        if (!includes(githubPermissions, permission)) {
+            throw new Error(`Invalid permissionMap permission "${permission}", expected one of: ${githubPermissions.join(', ')}`)
+        }
+
+        if (!isArray(actions) || difference(actions, registryActions).length > 0) {
+            throw new Error(
+                `Invalid permissionMap actions for "${permission}", expected a list of: ${registryActions.join(', ')}`
+            )
+        }
+
+        result[<GithubPermission>permission] = uniq(<RegistryAction[]>actions)
+    })
+
+    return result
+}
+
+/**
+ * Validates the configured custom repository roles.
+ *
+ * @param customRoles - The configured custom roles, mapped to the Github permission they are resolved to.
+ * @returns The custom roles, by lower case name.
+ * @throws Error if a permission is unknown.
+ */
+export const parseCustomRoles = (customRoles: Record<string, unknown> = {}): Record<string, GithubPermission> => {
+    const result: Record<string, GithubPermission> = {}
+
+    forOwn(customRoles, (permission, roleName) => {
+        if (typeof permission !== 'string' || !includes(githubPermissions, permission)) {
+            throw new Error(`Invalid customRoles permission for "${roleName}", expected one of: ${githubPermissions.join(', ')}`)
+        }
+
+        result[roleName.toLowerCase()] = <GithubPermission>permission
+    })
+
+    return result
+}
+
+/**
+ * Converts the base role of a custom repository role to a Github permission.
+ *
+ * @param baseRole - The base role, e.g. `write`.
+ * @returns The Github permission, or undefined if the base role is unknown.
+ */
+export const baseRolePermission = (baseRole: string): GithubPermission | undefined => {
+    const permission = baseRole.toUpperCase()
+    return includes(githubPermissions, permission) ? <GithubPermission>permission : undefined
+}
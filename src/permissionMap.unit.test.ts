@@ -0,0 +1,45 @@
+import { baseRolePermission, defaultPermissionMap, parseCustomRoles, parsePermissionMap } from './permissionMap'
+
+describe('permissionMap', () => {
+    describe('parsePermissionMap', () => {
+        it('defaults to the default permission map', () => {
+            expect(parsePermissionMap()).toStrictEqual(defaultPermissionMap)
+        })
+
+        it('overrides the mapping of the configured permissions', () => {
+            expect(parsePermissionMap({ WRITE: ['read'], TRIAGE: [] })).toStrictEqual({
+                ...defaultPermissionMap,
+                WRITE: ['read'],
+                TRIAGE: []
+            })
+        })
+
+        it('rejects an unknown permission', () => {
+            expect(() => parsePermissionMap({ OWNER: ['read'] })).toThrow('Invalid permissionMap permission "OWNER"')
+        })
+
+        it.each([['publish'], [['read', 'publish']]])('rejects the actions %p', actions => {
+            expect(() => parsePermissionMap({ ADMIN: actions })).toThrow('Invalid permissionMap actions for "ADMIN"')
+        })
+    })
+
+    describe('parseCustomRoles', () => {
+        it('indexes the custom roles by lower case name', () => {
+            expect(parseCustomRoles({ 'Security Reviewer': 'READ' })).toStrictEqual({ 'security reviewer': 'READ' })
+        })
+
+        it('rejects an unknown permission', () => {
+            expect(() => parseCustomRoles({ Auditor: 'read' })).toThrow('Invalid customRoles permission for "Auditor"')
+        })
+    })
+
+    describe('baseRolePermission', () => {
+        it.each([
+            ['write', 'WRITE'],
+            ['maintain', 'MAINTAIN'],
+            ['custom', undefined]
+        ])('converts the base role %p', (baseRole, expected) => {
+            expect(baseRolePermission(baseRole)).toStrictEqual(expected)
+        })
+    })
+})
@@ -0,0 +1,60 @@
+import * as z from 'zod'
+
+const packageFileSchema = z.object({
+    name: z.string().optional(),
+    private: z.boolean().optional(),
+    publishConfig: z.record(z.unknown()).optional()
+})
+
+/**
+ * Normalizes a registry URL for comparison, removing the trailing slashes and the case.
+ *
+ * @param url - The registry URL.
+ * @returns The normalized URL.
+ */
+const normalizeRegistryUrl = (url: string): string => url.trim().replace(/\/+$/, '').toLowerCase()
+
+/**
+ * Checks that a manifest is meant to be published to the registry.
+ *
+ * The package must not be private, and the registry of its `publishConfig` must be the registry.
+ * For scoped packages, the scope registry (e.g. `@acme:registry`) takes precedence over the `registry` key.
+ *
+ * @param packageFileContent - The contents of the package.json file.
+ * @param registryUrl - The URL of the registry.
+ * @returns The reason why the manifest is rejected, or undefined if it targets the registry.
+ */
+export const publishRejectionReason = (packageFileContent: string, registryUrl: string): string | undefined => {
+    let content: unknown
+
+    try {
+        content = JSON.parse(packageFileContent)
+    } catch (err) {
+        return 'the package.json is invalid'
+    }
+
+    const result = packageFileSchema.safeParse(content)
+
+    if (!result.success) {
+        return 'the package.json is invalid'
+    }
+
+    const { name, publishConfig } = result.data
+
+    if (result.data.private) {
+        return 'the package is private'
+    }
+
+    const scope = name?.startsWith('@') ? name.split('/')[0] : undefined
+    const target = (scope && publishConfig?.[`${scope}:registry`]) || publishConfig?.registry
+
+    if (typeof target !== 'string') {
+        return 'the publishConfig has no registry'
+    }
+
+    if (normalizeRegistryUrl(target) !== normalizeRegistryUrl(registryUrl)) {
+        return `the publishConfig registry is ${target}`
+    }
+
+    return undefined
+}
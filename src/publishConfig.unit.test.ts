@@ -0,0 +1,50 @@
+import { publishRejectionReason } from './publishConfig'
+
+describe('publishConfig', () => {
+    describe('publishRejectionReason', () => {
+        const registryUrl = 'https://npm.acme.com/'
+
+        it('accepts the manifests published to the registry', () => {
+            expect(
+                publishRejectionReason('{"name":"pkg","publishConfig":{"registry":"https://NPM.acme.com"}}', registryUrl)
+            ).toBeUndefined()
+        })
+
+        it('accepts the scope registry', () => {
+            expect(
+                publishRejectionReason(
+                    '{"name":"@acme/pkg","publishConfig":{"@acme:registry":"https://npm.acme.com/","registry":"https://registry.npmjs.org/"}}',
+                    registryUrl
+                )
+            ).toBeUndefined()
+        })
+
+        it('rejects private packages', () => {
+            expect(
+                publishRejectionReason(
+                    '{"name":"pkg","private":true,"publishConfig":{"registry":"https://npm.acme.com/"}}',
+                    registryUrl
+                )
+            ).toStrictEqual('the package is private')
+        })
+
+        it('rejects the manifests without a registry', () => {
+            expect(publishRejectionReason('{"name":"pkg","publishConfig":{"access":"public"}}', registryUrl)).toStrictEqual(
+                'the publishConfig has no registry'
+            )
+        })
+
+        it('rejects the manifests published to another registry', () => {
+            expect(
+                publishRejectionReason('{"name":"pkg","publishConfig":{"registry":"https://registry.npmjs.org/"}}', registryUrl)
+            ).toStrictEqual('the publishConfig registry is https://registry.npmjs.org/')
+        })
+
+        it('rejects invalid manifests', () => {
+            expect(publishRejectionReason('{"name":"pkg","private":"yes"}', registryUrl)).toStrictEqual(
+                'the package.json is invalid'
+            )
+            expect(publishRejectionReason('not json', registryUrl)).toStrictEqual('the package.json is invalid')
+        })
+    })
+})
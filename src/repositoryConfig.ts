@@ -0,0 +1,67 @@
+import * as z from 'zod'
+import yaml from 'js-yaml'
+import { map } from 'lodash'
+
+// The path of the repository configuration file, relative to the root of the repository
+export const repositoryConfigPath = '.verdaccio.yml'
+
+// The key of the repository configuration in the root package.json
+const packageFileKey = 'verdaccio'
+
+const repositoryConfigSchema = z.object({
+    // Additional package names owned by the repository
+    packages: z.array(z.string()).default([]),
+    // Teams that get read access to the packages of the repository
+    readTeams: z.array(z.string()).default([]),
+    // Are the packages of the repository readable by everyone?
+    public: z.boolean().default(false)
+})
+
+export type RepositoryConfig = z.infer<typeof repositoryConfigSchema>
+
+export type RepositoryConfigResult = {
+    config?: RepositoryConfig
+    errors: string[]
+}
+
+/**
+ * Parses and validates the repository configuration.
+ *
+ * The configuration is read from the `.verdaccio.yml` file if there is one, else from the
+ * `verdaccio` key of the root package.json.
+ *
+ * @param verdaccioConfig - The contents of the `.verdaccio.yml` file.
+ * @param packageFile - The contents of the root package.json.
+ * @returns The configuration if there is a valid one, along with the validation errors.
+ */
+export const parseRepositoryConfig = (verdaccioConfig?: string, packageFile?: string): RepositoryConfigResult => {
+    let rawConfig: unknown
+
+    if (verdaccioConfig) {
+        try {
+            rawConfig = yaml.safeLoad(verdaccioConfig)
+        } catch (err) {
+            return { errors: [(<Error>err).message] }
+        }
+    } else if (packageFile) {
+        try {
+            rawConfig = (<Record<string, unknown> | null>JSON.parse(packageFile))?.[packageFileKey]
+        } catch (err) {
+            // An invalid package.json simply doesn't provide a configuration
+            rawConfig = undefined
+        }
+    }
+
+    // No configuration is perfectly valid
+    if (rawConfig === undefined || rawConfig === null) {
+        return { errors: [] }
+    }
+
+    const result = repositoryConfigSchema.safeParse(rawConfig)
+
+    if (!result.success) {
+        return { errors: map(result.error.errors, e => `${e.path.join('.') || '(root)'}: ${e.message}`) }
+    }
+
+    return { config: result.data, errors: [] }
+}
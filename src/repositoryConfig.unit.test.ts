@@ -0,0 +1,44 @@
+import { parseRepositoryConfig } from './repositoryConfig'
+
+describe('repositoryConfig', () => {
+    describe('parseRepositoryConfig', () => {
+        it('returns no configuration when there is none', () => {
+            expect(parseRepositoryConfig(undefined, '{"name":"pkg"}')).toStrictEqual({ errors: [] })
+        })
+
+        it('reads the .verdaccio.yml file', () => {
+            expect(parseRepositoryConfig('packages:\n  - pkg_legacy\nreadTeams:\n  - team_1\n')).toStrictEqual({
+                config: { packages: ['pkg_legacy'], readTeams: ['team_1'], public: false },
+                errors: []
+            })
+        })
+
+        it('reads the verdaccio key of the package.json', () => {
+            expect(parseRepositoryConfig(undefined, '{"name":"pkg","verdaccio":{"public":true}}')).toStrictEqual({
+                config: { packages: [], readTeams: [], public: true },
+                errors: []
+            })
+        })
+
+        it('gives precedence to the .verdaccio.yml file', () => {
+            expect(parseRepositoryConfig('public: false', '{"name":"pkg","verdaccio":{"public":true}}')).toStrictEqual({
+                config: { packages: [], readTeams: [], public: false },
+                errors: []
+            })
+        })
+
+        it('ignores an invalid package.json', () => {
+            expect(parseRepositoryConfig(undefined, 'not json')).toStrictEqual({ errors: [] })
+        })
+
+        it('reports invalid YAML', () => {
+            expect(parseRepositoryConfig('packages: [')).toStrictEqual({ errors: [expect.any(String)] })
+        })
+
+        it('reports validation errors', () => {
+            expect(parseRepositoryConfig('readTeams: team_1\npublic: yes please')).toStrictEqual({
+                errors: [expect.stringMatching(/^readTeams: /), expect.stringMatching(/^public: /)]
+            })
+        })
+    })
+})
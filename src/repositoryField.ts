@@ -0,0 +1,125 @@
+import * as z from 'zod'
+
+export type RepositoryReference = {
+    owner: string
+    name: string
+    // The directory of the package in the repository, for monorepos
+    directory?: string
+}
+
+export type ManifestSource = {
+    owner: string
+    name: string
+    // The path of the manifest in the repository
+    path: string
+}
+
+const repositoryFieldSchema = z.union([
+    z.string(),
+    z.object({
+        url: z.string(),
+        directory: z.string().optional()
+    })
+])
+
+const packageFileSchema = z.object({
+    repository: repositoryFieldSchema.optional()
+})
+
+// Shorthands of the other hosts supported by npm
+const otherHostShorthandPattern = /^(gitlab|bitbucket|gist):/
+
+// `owner/repo` or `github:owner/repo`
+const githubShorthandPattern = /^(?:github:)?([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:#.*)?$/
+
+// `https://github.com/owner/repo.git`, `git+ssh://git@github.com/owner/repo.git`, ...
+const urlPattern = /^(?:git\+)?(?:https?|ssh|git):\/\/(?:[^@/]+@)?[^/]+\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?(?:#.*)?$/
+
+// `git@github.com:owner/repo.git`
+const scpPattern = /^[^@/]+@[^:/]+:([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:#.*)?$/
+
+/**
+ * Normalizes a directory, removing leading `./` and the leading and trailing slashes.
+ *
+ * @param directory - The directory.
+ * @returns The normalized directory, the empty string for the root.
+ */
+const normalizeDirectory = (directory: string): string => directory.replace(/^(\.\/)+/, '').replace(/^\/+|\/+$/g, '')
+
+/**
+ * Parses the `repository` field of a package.json.
+ *
+ * The field can be a string (a URL or a shorthand) or an object with a `url` and an optional `directory`.
+ * The host of the URLs isn't checked, so that Github Enterprise URLs are supported.
+ *
+ * @param field - The value of the field.
+ * @returns The repository, or undefined if the field doesn't reference a Github repository.
+ */
+export const parseRepositoryField = (field: unknown): RepositoryReference | undefined => {
+    const result = repositoryFieldSchema.safeParse(field)
+
+    if (!result.success) {
+        return undefined
+    }
+
+    const url = (typeof result.data === 'string' ? result.data : result.data.url).trim()
+    const directory = typeof result.data === 'string' ? undefined : result.data.directory
+
+    if (otherHostShorthandPattern.test(url)) {
+        return undefined
+    }
+
+    const match = urlPattern.exec(url) ?? scpPattern.exec(url) ?? githubShorthandPattern.exec(url)
+
+    if (!match) {
+        return undefined
+    }
+
+    return directory === undefined ? { owner: match[1], name: match[2] } : { owner: match[1], name: match[2], directory }
+}
+
+/**
+ * Checks that the `repository` field of a manifest points back to the repository it was read from.
+ *
+ * When the field has a `directory`, it must be the directory of the manifest.
+ *
+ * @param packageFileContent - The contents of the package.json file.
+ * @param source - The repository and the path the manifest was read from.
+ * @returns The reason why the manifest is rejected, or undefined if the field matches.
+ */
+export const repositoryFieldMismatch = (packageFileContent: string, source: ManifestSource): string | undefined => {
+    let content: unknown
+
+    try {
+        content = JSON.parse(packageFileContent)
+    } catch (err) {
+        return 'the package.json is invalid'
+    }
+
+    const packageFile = packageFileSchema.safeParse(content)
+
+    if (!packageFile.success || packageFile.data.repository === undefined) {
+        return 'the repository field is missing'
+    }
+
+    const reference = parseRepositoryField(packageFile.data.repository)
+
+    if (!reference) {
+        return 'the repository field is not a Github repository'
+    }
+
+    if (
+        reference.owner.toLowerCase() !== source.owner.toLowerCase() ||
+        reference.name.toLowerCase() !== source.name.toLowerCase()
+    ) {
+        return `the repository field points to ${reference.owner}/${reference.name}`
+    }
+
+    const manifestDirectory = source.path.split('/').slice(0, -1).join('/')
+
+    if (reference.directory !== undefined && normalizeDirectory(reference.directory) !== manifestDirectory) {
+        return `the repository directory is ${reference.directory}`
+    }
+
+    return undefined
+}
@@ -0,0 +1,72 @@
+import { parseRepositoryField, repositoryFieldMismatch } from './repositoryField'
+
+describe('repositoryField', () => {
+    describe('parseRepositoryField', () => {
+        it.each([
+            'acme/repo',
+            'github:acme/repo',
+            'https://github.com/acme/repo',
+            'https://github.com/acme/repo.git',
+            'git+https://github.com/acme/repo.git',
+            'git://github.com/acme/repo.git',
+            'git+ssh://git@github.com/acme/repo.git',
+            'git@github.com:acme/repo.git',
+            'https://github.acme.com/acme/repo#main'
+        ])('parses %p', field => {
+            expect(parseRepositoryField(field)).toStrictEqual({ owner: 'acme', name: 'repo' })
+        })
+
+        it('parses the object form, with the directory', () => {
+            expect(
+                parseRepositoryField({ type: 'git', url: 'https://github.com/acme/repo.git', directory: 'packages/pkg' })
+            ).toStrictEqual({ owner: 'acme', name: 'repo', directory: 'packages/pkg' })
+        })
+
+        it.each([
+            ['gitlab:acme/repo'],
+            ['bitbucket:acme/repo'],
+            ['https://github.com/acme/repo/tree/main'],
+            [42],
+            [{ type: 'git' }]
+        ])('rejects %p', field => {
+            expect(parseRepositoryField(field)).toBeUndefined()
+        })
+    })
+
+    describe('repositoryFieldMismatch', () => {
+        const source = { owner: 'Acme', name: 'Repo', path: 'package.json' }
+
+        it('accepts the manifests of the repository', () => {
+            expect(repositoryFieldMismatch('{"repository":"github:acme/repo"}', source)).toBeUndefined()
+        })
+
+        it('rejects the manifests without a repository field', () => {
+            expect(repositoryFieldMismatch('{"name":"pkg"}', source)).toStrictEqual('the repository field is missing')
+        })
+
+        it('rejects the manifests of other hosts', () => {
+            expect(repositoryFieldMismatch('{"repository":"gitlab:acme/repo"}', source)).toStrictEqual(
+                'the repository field is not a Github repository'
+            )
+        })
+
+        it('rejects the manifests pointing to another repository', () => {
+            expect(repositoryFieldMismatch('{"repository":"acme/other"}', source)).toStrictEqual(
+                'the repository field points to acme/other'
+            )
+        })
+
+        it('checks the directory of monorepo packages', () => {
+            const content = '{"repository":{"url":"https://github.com/acme/repo.git","directory":"./packages/pkg/"}}'
+
+            expect(repositoryFieldMismatch(content, { ...source, path: 'packages/pkg/package.json' })).toBeUndefined()
+            expect(repositoryFieldMismatch(content, { ...source, path: 'packages/other/package.json' })).toStrictEqual(
+                'the repository directory is ./packages/pkg/'
+            )
+        })
+
+        it('rejects invalid manifests', () => {
+            expect(repositoryFieldMismatch('not json', source)).toStrictEqual('the package.json is invalid')
+        })
+    })
+})
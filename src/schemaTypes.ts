@@ -14,6 +14,8 @@ export type Scalars = {
     Boolean: boolean
     Int: number
     Float: number
+    /** A (potentially binary) string encoded using base64. */
+    Base64String: any
     /** An ISO-8601 encoded date string. */
     Date: any
     /** An ISO-8601 encoded UTC date string. */
@@ -26,7 +28,7 @@ export type Scalars = {
     GitTimestamp: any
     /** A string containing HTML code. */
     HTML: any
-    /** An ISO-8601 encoded UTC date string with millisecond precison. */
+    /** An ISO-8601 encoded UTC date string with millisecond precision. */
     PreciseDateTime: any
     /** An RFC 3986, RFC 3987, and RFC 6570 (level 4) compliant URI string. */
     URI: any
@@ -34,6 +36,23 @@ export type Scalars = {
     X509Certificate: any
 }
 
+/** Autogenerated input type of AbortQueuedMigrations */
+export type AbortQueuedMigrationsInput = {
+    /** The ID of the organization that is running the migrations. */
+    ownerId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AbortQueuedMigrations */
+export type AbortQueuedMigrationsPayload = {
+    __typename?: 'AbortQueuedMigrationsPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** Did the operation succeed? */
+    success: Maybe<Scalars['Boolean']>
+}
+
 /** Autogenerated input type of AcceptEnterpriseAdministratorInvitation */
 export type AcceptEnterpriseAdministratorInvitationInput = {
     /** The id of the invitation being accepted */
@@ -104,6 +123,14 @@ export type ActorLocation = {
     regionCode: Maybe<Scalars['String']>
 }
 
+/** The actor's type. */
+export enum ActorType {
+    /** Indicates a user actor. */
+    User = 'USER',
+    /** Indicates a team actor. */
+    Team = 'TEAM'
+}
+
 /** Autogenerated input type of AddAssigneesToAssignable */
 export type AddAssigneesToAssignableInput = {
     /** The id of the assignable object to add assignees to. */
@@ -146,6 +173,44 @@ export type AddCommentPayload = {
     timelineEdge: Maybe<IssueTimelineItemEdge>
 }
 
+/** Autogenerated input type of AddDiscussionComment */
+export type AddDiscussionCommentInput = {
+    /** The Node ID of the discussion to comment on. */
+    discussionId: Scalars['ID']
+    /** The Node ID of the discussion comment within this discussion to reply to. */
+    replyToId: Maybe<Scalars['ID']>
+    /** The contents of the comment. */
+    body: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddDiscussionComment */
+export type AddDiscussionCommentPayload = {
+    __typename?: 'AddDiscussionCommentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The newly created discussion comment. */
+    comment: Maybe<DiscussionComment>
+}
+
+/** Autogenerated input type of AddDiscussionPollVote */
+export type AddDiscussionPollVoteInput = {
+    /** The Node ID of the discussion poll option to vote for. */
+    pollOptionId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddDiscussionPollVote */
+export type AddDiscussionPollVotePayload = {
+    __typename?: 'AddDiscussionPollVotePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The poll option that a vote was added to. */
+    pollOption: Maybe<DiscussionPollOption>
+}
+
 /** Autogenerated input type of AddEnterpriseSupportEntitlement */
 export type AddEnterpriseSupportEntitlementInput = {
     /** The ID of the Enterprise which the admin belongs to. */
@@ -228,6 +293,132 @@ export type AddProjectColumnPayload = {
     project: Maybe<Project>
 }
 
+/** Autogenerated input type of AddProjectDraftIssue */
+export type AddProjectDraftIssueInput = {
+    /**
+     * The ID of the Project to add the draft issue to. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `projectId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    projectId: Maybe<Scalars['ID']>
+    /**
+     * The title of the draft issue. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `title` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    title: Maybe<Scalars['String']>
+    /**
+     * The body of the draft issue.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `body` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    body: Maybe<Scalars['String']>
+    /**
+     * The IDs of the assignees of the draft issue.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `assigneeIds` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    assigneeIds: Maybe<Array<Scalars['ID']>>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddProjectDraftIssue */
+export type AddProjectDraftIssuePayload = {
+    __typename?: 'AddProjectDraftIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /**
+     * The draft issue added to the project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectNextItem: Maybe<ProjectNextItem>
+}
+
+/** Autogenerated input type of AddProjectNextItem */
+export type AddProjectNextItemInput = {
+    /**
+     * The ID of the Project to add the item to. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `projectId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    projectId: Maybe<Scalars['ID']>
+    /**
+     * The content id of the item (Issue or PullRequest). This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `contentId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    contentId: Maybe<Scalars['ID']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddProjectNextItem */
+export type AddProjectNextItemPayload = {
+    __typename?: 'AddProjectNextItemPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /**
+     * The item added to the project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectNextItem: Maybe<ProjectNextItem>
+}
+
+/** Autogenerated input type of AddProjectV2DraftIssue */
+export type AddProjectV2DraftIssueInput = {
+    /** The ID of the Project to add the draft issue to. */
+    projectId: Scalars['ID']
+    /** The title of the draft issue. */
+    title: Scalars['String']
+    /** The body of the draft issue. */
+    body: Maybe<Scalars['String']>
+    /** The IDs of the assignees of the draft issue. */
+    assigneeIds: Maybe<Array<Scalars['ID']>>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddProjectV2DraftIssue */
+export type AddProjectV2DraftIssuePayload = {
+    __typename?: 'AddProjectV2DraftIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The draft issue added to the project. */
+    projectItem: Maybe<ProjectV2Item>
+}
+
+/** Autogenerated input type of AddProjectV2ItemById */
+export type AddProjectV2ItemByIdInput = {
+    /** The ID of the Project to add the item to. */
+    projectId: Scalars['ID']
+    /** The id of the Issue or Pull Request to add. */
+    contentId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddProjectV2ItemById */
+export type AddProjectV2ItemByIdPayload = {
+    __typename?: 'AddProjectV2ItemByIdPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The item added to the project. */
+    item: Maybe<ProjectV2Item>
+}
+
 /** Autogenerated input type of AddPullRequestReviewComment */
 export type AddPullRequestReviewCommentInput = {
     /** The node ID of the pull request reviewing */
@@ -357,6 +548,42 @@ export type AddStarPayload = {
     starrable: Maybe<Starrable>
 }
 
+/** Autogenerated input type of AddUpvote */
+export type AddUpvoteInput = {
+    /** The Node ID of the discussion or comment to upvote. */
+    subjectId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddUpvote */
+export type AddUpvotePayload = {
+    __typename?: 'AddUpvotePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The votable subject. */
+    subject: Maybe<Votable>
+}
+
+/** Autogenerated input type of AddVerifiableDomain */
+export type AddVerifiableDomainInput = {
+    /** The ID of the owner to add the domain to */
+    ownerId: Scalars['ID']
+    /** The URL of the domain */
+    domain: Scalars['URI']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of AddVerifiableDomain */
+export type AddVerifiableDomainPayload = {
+    __typename?: 'AddVerifiableDomainPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The verifiable domain that was added. */
+    domain: Maybe<VerifiableDomain>
+}
+
 /** Represents a 'added_to_project' event on a given issue or pull request. */
 export type AddedToProjectEvent = Node & {
     __typename?: 'AddedToProjectEvent'
@@ -379,6 +606,8 @@ export type App = Node & {
     /** The description of the app. */
     description: Maybe<Scalars['String']>
     id: Scalars['ID']
+    /** The IP addresses of the app. */
+    ipAllowListEntries: IpAllowListEntryConnection
     /** The hex color code, without the leading '#', for the logo background. */
     logoBackgroundColor: Scalars['String']
     /** A URL pointing to the app's logo. */
@@ -393,11 +622,58 @@ export type App = Node & {
     url: Scalars['URI']
 }
 
+/** A GitHub App. */
+export type AppIpAllowListEntriesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<IpAllowListEntryOrder>
+}
+
 /** A GitHub App. */
 export type AppLogoUrlArgs = {
     size: Maybe<Scalars['Int']>
 }
 
+/** Autogenerated input type of ApproveDeployments */
+export type ApproveDeploymentsInput = {
+    /** The node ID of the workflow run containing the pending deployments. */
+    workflowRunId: Scalars['ID']
+    /** The ids of environments to reject deployments */
+    environmentIds: Array<Scalars['ID']>
+    /** Optional comment for approving deployments */
+    comment: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of ApproveDeployments */
+export type ApproveDeploymentsPayload = {
+    __typename?: 'ApproveDeploymentsPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The affected deployments. */
+    deployments: Maybe<Array<Deployment>>
+}
+
+/** Autogenerated input type of ApproveVerifiableDomain */
+export type ApproveVerifiableDomainInput = {
+    /** The ID of the verifiable domain to approve. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of ApproveVerifiableDomain */
+export type ApproveVerifiableDomainPayload = {
+    __typename?: 'ApproveVerifiableDomainPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The verifiable domain that was approved. */
+    domain: Maybe<VerifiableDomain>
+}
+
 /** Autogenerated input type of ArchiveRepository */
 export type ArchiveRepositoryInput = {
     /** The ID of the repository to mark as archived. */
@@ -530,6 +806,25 @@ export type AutoMergeEnabledEvent = Node & {
     pullRequest: Maybe<PullRequest>
 }
 
+/** Represents an auto-merge request for a pull request */
+export type AutoMergeRequest = {
+    __typename?: 'AutoMergeRequest'
+    /** The email address of the author of this auto-merge request. */
+    authorEmail: Maybe<Scalars['String']>
+    /** The commit message of the auto-merge request. If a merge queue is required by the base branch, this value will be set by the merge queue when merging. */
+    commitBody: Maybe<Scalars['String']>
+    /** The commit title of the auto-merge request. If a merge queue is required by the base branch, this value will be set by the merge queue when merging */
+    commitHeadline: Maybe<Scalars['String']>
+    /** When was this auto-merge request was enabled. */
+    enabledAt: Maybe<Scalars['DateTime']>
+    /** The actor who created the auto-merge request. */
+    enabledBy: Maybe<Actor>
+    /** The merge method of the auto-merge request. If a merge queue is required by the base branch, this value will be set by the merge queue when merging. */
+    mergeMethod: PullRequestMergeMethod
+    /** The pull request that this auto-merge request is set against. */
+    pullRequest: PullRequest
+}
+
 /** Represents a 'auto_rebase_enabled' event on a given pull request. */
 export type AutoRebaseEnabledEvent = Node & {
     __typename?: 'AutoRebaseEnabledEvent'
@@ -661,8 +956,8 @@ export type BlameRange = {
 }
 
 /** Represents a Git blob. */
-export type Blob = Node &
-    GitObject & {
+export type Blob = GitObject &
+    Node & {
         __typename?: 'Blob'
         /** An abbreviated version of the Git object ID */
         abbreviatedOid: Scalars['String']
@@ -712,6 +1007,9 @@ export type BotAvatarUrlArgs = {
     size: Maybe<Scalars['Int']>
 }
 
+/** Types which can be actors for `BranchActorAllowance` objects. */
+export type BranchActorAllowanceActor = App | Team | User
+
 /** A branch protection rule. */
 export type BranchProtectionRule = Node & {
     __typename?: 'BranchProtectionRule'
@@ -719,8 +1017,14 @@ export type BranchProtectionRule = Node & {
     allowsDeletions: Scalars['Boolean']
     /** Are force pushes allowed on this branch. */
     allowsForcePushes: Scalars['Boolean']
+    /** Is branch creation a protected operation. */
+    blocksCreations: Scalars['Boolean']
     /** A list of conflicts matching branches protection rule and other branch protection rules */
     branchProtectionRuleConflicts: BranchProtectionRuleConflictConnection
+    /** A list of actors able to force push for this branch protection rule. */
+    bypassForcePushAllowances: BypassForcePushAllowanceConnection
+    /** A list of actors able to bypass PRs for this branch protection rule. */
+    bypassPullRequestAllowances: BypassPullRequestAllowanceConnection
     /** The actor who created this branch protection rule. */
     creator: Maybe<Actor>
     /** Identifies the primary key from the database. */
@@ -742,12 +1046,16 @@ export type BranchProtectionRule = Node & {
     requiredApprovingReviewCount: Maybe<Scalars['Int']>
     /** List of required status check contexts that must pass for commits to be accepted to matching branches. */
     requiredStatusCheckContexts: Maybe<Array<Maybe<Scalars['String']>>>
+    /** List of required status checks that must pass for commits to be accepted to matching branches. */
+    requiredStatusChecks: Maybe<Array<RequiredStatusCheckDescription>>
     /** Are approving reviews required to update matching branches. */
     requiresApprovingReviews: Scalars['Boolean']
     /** Are reviews from code owners required to update matching branches. */
     requiresCodeOwnerReviews: Scalars['Boolean']
     /** Are commits required to be signed. */
     requiresCommitSignatures: Scalars['Boolean']
+    /** Are conversations required to be resolved before merging. */
+    requiresConversationResolution: Scalars['Boolean']
     /** Are merge commits prohibited from being pushed to this branch. */
     requiresLinearHistory: Scalars['Boolean']
     /** Are status checks required to update matching branches. */
@@ -770,6 +1078,22 @@ export type BranchProtectionRuleBranchProtectionRuleConflictsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A branch protection rule. */
+export type BranchProtectionRuleBypassForcePushAllowancesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A branch protection rule. */
+export type BranchProtectionRuleBypassPullRequestAllowancesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A branch protection rule. */
 export type BranchProtectionRuleMatchingRefsArgs = {
     query: Maybe<Scalars['String']>
@@ -850,6 +1174,113 @@ export type BranchProtectionRuleEdge = {
     node: Maybe<BranchProtectionRule>
 }
 
+/** A user, team, or app who has the ability to bypass a force push requirement on a protected branch. */
+export type BypassForcePushAllowance = Node & {
+    __typename?: 'BypassForcePushAllowance'
+    /** The actor that can force push. */
+    actor: Maybe<BranchActorAllowanceActor>
+    /** Identifies the branch protection rule associated with the allowed user, team, or app. */
+    branchProtectionRule: Maybe<BranchProtectionRule>
+    id: Scalars['ID']
+}
+
+/** The connection type for BypassForcePushAllowance. */
+export type BypassForcePushAllowanceConnection = {
+    __typename?: 'BypassForcePushAllowanceConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<BypassForcePushAllowanceEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<BypassForcePushAllowance>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type BypassForcePushAllowanceEdge = {
+    __typename?: 'BypassForcePushAllowanceEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<BypassForcePushAllowance>
+}
+
+/** A user, team, or app who has the ability to bypass a pull request requirement on a protected branch. */
+export type BypassPullRequestAllowance = Node & {
+    __typename?: 'BypassPullRequestAllowance'
+    /** The actor that can bypass. */
+    actor: Maybe<BranchActorAllowanceActor>
+    /** Identifies the branch protection rule associated with the allowed user, team, or app. */
+    branchProtectionRule: Maybe<BranchProtectionRule>
+    id: Scalars['ID']
+}
+
+/** The connection type for BypassPullRequestAllowance. */
+export type BypassPullRequestAllowanceConnection = {
+    __typename?: 'BypassPullRequestAllowanceConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<BypassPullRequestAllowanceEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<BypassPullRequestAllowance>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type BypassPullRequestAllowanceEdge = {
+    __typename?: 'BypassPullRequestAllowanceEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<BypassPullRequestAllowance>
+}
+
+/** The Common Vulnerability Scoring System */
+export type Cvss = {
+    __typename?: 'CVSS'
+    /** The CVSS score associated with this advisory */
+    score: Scalars['Float']
+    /** The CVSS vector string associated with this advisory */
+    vectorString: Maybe<Scalars['String']>
+}
+
+/** A common weakness enumeration */
+export type Cwe = Node & {
+    __typename?: 'CWE'
+    /** The id of the CWE */
+    cweId: Scalars['String']
+    /** A detailed description of this CWE */
+    description: Scalars['String']
+    id: Scalars['ID']
+    /** The name of this CWE */
+    name: Scalars['String']
+}
+
+/** The connection type for CWE. */
+export type CweConnection = {
+    __typename?: 'CWEConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<CweEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<Cwe>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type CweEdge = {
+    __typename?: 'CWEEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<Cwe>
+}
+
 /** Autogenerated input type of CancelEnterpriseAdminInvitation */
 export type CancelEnterpriseAdminInvitationInput = {
     /** The Node ID of the pending enterprise administrator invitation. */
@@ -869,6 +1300,29 @@ export type CancelEnterpriseAdminInvitationPayload = {
     message: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of CancelSponsorship */
+export type CancelSponsorshipInput = {
+    /** The ID of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorLogin is not given. */
+    sponsorId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorId is not given. */
+    sponsorLogin: Maybe<Scalars['String']>
+    /** The ID of the user or organization who is receiving the sponsorship. Required if sponsorableLogin is not given. */
+    sponsorableId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is receiving the sponsorship. Required if sponsorableId is not given. */
+    sponsorableLogin: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CancelSponsorship */
+export type CancelSponsorshipPayload = {
+    __typename?: 'CancelSponsorshipPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The tier that was being used at the time of cancellation. */
+    sponsorsTier: Maybe<SponsorsTier>
+}
+
 /** Autogenerated input type of ChangeUserStatus */
 export type ChangeUserStatusInput = {
     /** The emoji to represent your status. Can either be a native Unicode emoji or an emoji name with colons, e.g., :grinning:. */
@@ -1017,7 +1471,8 @@ export enum CheckConclusionState {
 
 /** A check run. */
 export type CheckRun = Node &
-    UniformResourceLocatable & {
+    UniformResourceLocatable &
+    RequirableByPullRequest & {
         __typename?: 'CheckRun'
         /** The check run's annotations */
         annotations: Maybe<CheckAnnotationConnection>
@@ -1029,13 +1484,19 @@ export type CheckRun = Node &
         conclusion: Maybe<CheckConclusionState>
         /** Identifies the primary key from the database. */
         databaseId: Maybe<Scalars['Int']>
+        /** The corresponding deployment for this job, if any */
+        deployment: Maybe<Deployment>
         /** The URL from which to find full details of the check run on the integrator's site. */
         detailsUrl: Maybe<Scalars['URI']>
         /** A reference for the check run on the integrator's system. */
         externalId: Maybe<Scalars['String']>
         id: Scalars['ID']
+        /** Whether this is required to pass before merging for a specific pull request. */
+        isRequired: Scalars['Boolean']
         /** The name of the check for this check run. */
         name: Scalars['String']
+        /** Information about a pending deployment, if any, in this check run */
+        pendingDeploymentRequest: Maybe<DeploymentRequest>
         /** The permalink to the check run summary. */
         permalink: Scalars['URI']
         /** The repository associated with this check run. */
@@ -1046,6 +1507,8 @@ export type CheckRun = Node &
         startedAt: Maybe<Scalars['DateTime']>
         /** The current status of the check run. */
         status: CheckStatusState
+        /** The check run's steps */
+        steps: Maybe<CheckStepConnection>
         /** A string representing the check run's summary */
         summary: Maybe<Scalars['String']>
         /** A string representing the check run's text */
@@ -1064,6 +1527,21 @@ export type CheckRunAnnotationsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A check run. */
+export type CheckRunIsRequiredArgs = {
+    pullRequestId: Maybe<Scalars['ID']>
+    pullRequestNumber: Maybe<Scalars['Int']>
+}
+
+/** A check run. */
+export type CheckRunStepsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    number: Maybe<Scalars['Int']>
+}
+
 /** Possible further actions the integrator can perform. */
 export type CheckRunAction = {
     /** The text to be displayed on a button in the web UI. */
@@ -1150,10 +1628,55 @@ export enum CheckStatusState {
     Completed = 'COMPLETED',
     /** The check suite or run is in waiting state. */
     Waiting = 'WAITING',
+    /** The check suite or run is in pending state. */
+    Pending = 'PENDING',
     /** The check suite or run has been requested. */
     Requested = 'REQUESTED'
 }
 
+/** A single check step. */
+export type CheckStep = {
+    __typename?: 'CheckStep'
+    /** Identifies the date and time when the check step was completed. */
+    completedAt: Maybe<Scalars['DateTime']>
+    /** The conclusion of the check step. */
+    conclusion: Maybe<CheckConclusionState>
+    /** A reference for the check step on the integrator's system. */
+    externalId: Maybe<Scalars['String']>
+    /** The step's name. */
+    name: Scalars['String']
+    /** The index of the step in the list of steps of the parent check run. */
+    number: Scalars['Int']
+    /** Number of seconds to completion. */
+    secondsToCompletion: Maybe<Scalars['Int']>
+    /** Identifies the date and time when the check step was started. */
+    startedAt: Maybe<Scalars['DateTime']>
+    /** The current status of the check step. */
+    status: CheckStatusState
+}
+
+/** The connection type for CheckStep. */
+export type CheckStepConnection = {
+    __typename?: 'CheckStepConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<CheckStepEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<CheckStep>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type CheckStepEdge = {
+    __typename?: 'CheckStepEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<CheckStep>
+}
+
 /** A check suite. */
 export type CheckSuite = Node & {
     __typename?: 'CheckSuite'
@@ -1169,6 +1692,8 @@ export type CheckSuite = Node & {
     conclusion: Maybe<CheckConclusionState>
     /** Identifies the date and time when the object was created. */
     createdAt: Scalars['DateTime']
+    /** The user who triggered the check suite. */
+    creator: Maybe<User>
     /** Identifies the primary key from the database. */
     databaseId: Maybe<Scalars['Int']>
     id: Scalars['ID']
@@ -1186,6 +1711,8 @@ export type CheckSuite = Node & {
     updatedAt: Scalars['DateTime']
     /** The HTTP URL for this check suite */
     url: Scalars['URI']
+    /** The workflow run associated with this check suite. */
+    workflowRun: Maybe<WorkflowRun>
 }
 
 /** A check suite. */
@@ -1333,6 +1860,8 @@ export type Closable = {
 export type CloseIssueInput = {
     /** ID of the issue to be closed. */
     issueId: Scalars['ID']
+    /** The reason the issue is to be closed. */
+    stateReason: Maybe<IssueClosedStateReason>
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
 }
@@ -1378,6 +1907,8 @@ export type ClosedEvent = Node &
         id: Scalars['ID']
         /** The HTTP path for this closed event. */
         resourcePath: Scalars['URI']
+        /** The reason the issue state was changed to closed. */
+        stateReason: Maybe<IssueStateReason>
         /** The HTTP URL for this closed event. */
         url: Scalars['URI']
     }
@@ -1514,7 +2045,7 @@ export type Commit = Node &
         abbreviatedOid: Scalars['String']
         /** The number of additions in this commit. */
         additions: Scalars['Int']
-        /** The pull requests associated with a commit */
+        /** The merged Pull Request that introduced the commit to the repository. If the commit is not present in the default branch, additionally returns open Pull Requests associated with the commit */
         associatedPullRequests: Maybe<PullRequestConnection>
         /** Authorship details of the commit. */
         author: Maybe<GitActor>
@@ -1541,9 +2072,9 @@ export type Commit = Node &
         commitUrl: Scalars['URI']
         /** The datetime when this commit was committed. */
         committedDate: Scalars['DateTime']
-        /** Check if commited via GitHub web UI. */
+        /** Check if committed via GitHub web UI. */
         committedViaWeb: Scalars['Boolean']
-        /** Committership details of the commit. */
+        /** Committer details of the commit. */
         committer: Maybe<GitActor>
         /** The number of deletions in this commit. */
         deletions: Scalars['Int']
@@ -1909,6 +2440,46 @@ export type CommitHistoryConnection = {
     totalCount: Scalars['Int']
 }
 
+/** A message to include with a new commit */
+export type CommitMessage = {
+    /** The headline of the message. */
+    headline: Scalars['String']
+    /** The body of the message. */
+    body: Maybe<Scalars['String']>
+}
+
+/**
+ * A git ref for a commit to be appended to.
+ *
+ * The ref must be a branch, i.e. its fully qualified name must start
+ * with `refs/heads/` (although the input is not required to be fully
+ * qualified).
+ *
+ * The Ref may be specified by its global node ID or by the
+ * repository nameWithOwner and branch name.
+ *
+ * ### Examples
+ *
+ * Specify a branch using a global node ID:
+ *
+ *     { "id": "MDM6UmVmMTpyZWZzL2hlYWRzL21haW4=" }
+ *
+ * Specify a branch using nameWithOwner and branch name:
+ *
+ *     {
+ *       "nameWithOwner": "github/graphql-client",
+ *       "branchName": "main"
+ *     }
+ */
+export type CommittableBranch = {
+    /** The Node ID of the Ref to be updated. */
+    id: Maybe<Scalars['ID']>
+    /** The nameWithOwner of the repository to commit to. */
+    repositoryNameWithOwner: Maybe<Scalars['String']>
+    /** The unqualified name of the branch to append the commit to. */
+    branchName: Maybe<Scalars['String']>
+}
+
 /** Represents a 'connected' event on a given issue or pull request. */
 export type ConnectedEvent = Node & {
     __typename?: 'ConnectedEvent'
@@ -1965,6 +2536,8 @@ export type ContributionCalendarDay = {
     color: Scalars['String']
     /** How many contributions were made by the user on this day. */
     contributionCount: Scalars['Int']
+    /** Indication of contributions, relative to other days. Can be used to indicate which color to represent this day on a calendar. */
+    contributionLevel: ContributionLevel
     /** The day this square represents. */
     date: Scalars['Date']
     /** A number representing which day of the week this square represents, e.g., 1 is Monday. */
@@ -1993,6 +2566,20 @@ export type ContributionCalendarWeek = {
     firstDay: Scalars['Date']
 }
 
+/** Varying levels of contributions from none to many. */
+export enum ContributionLevel {
+    /** No contributions occurred. */
+    None = 'NONE',
+    /** Lowest 25% of days of contributions. */
+    FirstQuartile = 'FIRST_QUARTILE',
+    /** Second lowest 25% of days of contributions. More contributions than the first quartile. */
+    SecondQuartile = 'SECOND_QUARTILE',
+    /** Second highest 25% of days of contributions. More contributions than second quartile, less than the fourth quartile. */
+    ThirdQuartile = 'THIRD_QUARTILE',
+    /** Highest 25% of days of contributions. More contributions than the third quartile. */
+    FourthQuartile = 'FOURTH_QUARTILE'
+}
+
 /** Ordering options for contribution connections. */
 export type ContributionOrder = {
     /** The ordering direction. */
@@ -2209,6 +2796,23 @@ export type ConvertProjectCardNoteToIssuePayload = {
     projectCard: Maybe<ProjectCard>
 }
 
+/** Autogenerated input type of ConvertPullRequestToDraft */
+export type ConvertPullRequestToDraftInput = {
+    /** ID of the pull request to convert to draft */
+    pullRequestId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of ConvertPullRequestToDraft */
+export type ConvertPullRequestToDraftPayload = {
+    __typename?: 'ConvertPullRequestToDraftPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The pull request that is now a draft. */
+    pullRequest: Maybe<PullRequest>
+}
+
 /** Represents a 'convert_to_draft' event on a given pull request. */
 export type ConvertToDraftEvent = Node &
     UniformResourceLocatable & {
@@ -2238,6 +2842,18 @@ export type ConvertedNoteToIssueEvent = Node & {
     id: Scalars['ID']
 }
 
+/** Represents a 'converted_to_discussion' event on a given issue. */
+export type ConvertedToDiscussionEvent = Node & {
+    __typename?: 'ConvertedToDiscussionEvent'
+    /** Identifies the actor who performed the event. */
+    actor: Maybe<Actor>
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The discussion that the issue was converted into. */
+    discussion: Maybe<Discussion>
+    id: Scalars['ID']
+}
+
 /** Autogenerated input type of CreateBranchProtectionRule */
 export type CreateBranchProtectionRuleInput = {
     /** The global relay id of the repository in which a new branch protection rule should be created in. */
@@ -2252,6 +2868,8 @@ export type CreateBranchProtectionRuleInput = {
     requiresCommitSignatures: Maybe<Scalars['Boolean']>
     /** Are merge commits prohibited from being pushed to this branch. */
     requiresLinearHistory: Maybe<Scalars['Boolean']>
+    /** Is branch creation a protected operation. */
+    blocksCreations: Maybe<Scalars['Boolean']>
     /** Are force pushes allowed on this branch. */
     allowsForcePushes: Maybe<Scalars['Boolean']>
     /** Can this branch be deleted. */
@@ -2268,14 +2886,22 @@ export type CreateBranchProtectionRuleInput = {
     dismissesStaleReviews: Maybe<Scalars['Boolean']>
     /** Is dismissal of pull request reviews restricted. */
     restrictsReviewDismissals: Maybe<Scalars['Boolean']>
-    /** A list of User or Team IDs allowed to dismiss reviews on pull requests targeting matching branches. */
+    /** A list of User, Team, or App IDs allowed to dismiss reviews on pull requests targeting matching branches. */
     reviewDismissalActorIds: Maybe<Array<Scalars['ID']>>
+    /** A list of User, Team, or App IDs allowed to bypass pull requests targeting matching branches. */
+    bypassPullRequestActorIds: Maybe<Array<Scalars['ID']>>
+    /** A list of User, Team, or App IDs allowed to bypass force push targeting matching branches. */
+    bypassForcePushActorIds: Maybe<Array<Scalars['ID']>>
     /** Is pushing to matching branches restricted. */
     restrictsPushes: Maybe<Scalars['Boolean']>
-    /** A list of User, Team or App IDs allowed to push to matching branches. */
+    /** A list of User, Team, or App IDs allowed to push to matching branches. */
     pushActorIds: Maybe<Array<Scalars['ID']>>
     /** List of required status check contexts that must pass for commits to be accepted to matching branches. */
     requiredStatusCheckContexts: Maybe<Array<Scalars['String']>>
+    /** The list of required status checks */
+    requiredStatusChecks: Maybe<Array<RequiredStatusCheckInput>>
+    /** Are conversations required to be resolved before merging. */
+    requiresConversationResolution: Maybe<Scalars['Boolean']>
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
 }
@@ -2345,6 +2971,54 @@ export type CreateCheckSuitePayload = {
     clientMutationId: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of CreateCommitOnBranch */
+export type CreateCommitOnBranchInput = {
+    /** The Ref to be updated.  Must be a branch. */
+    branch: CommittableBranch
+    /** A description of changes to files in this commit. */
+    fileChanges: Maybe<FileChanges>
+    /** The commit message the be included with the commit. */
+    message: CommitMessage
+    /** The git commit oid expected at the head of the branch prior to the commit */
+    expectedHeadOid: Scalars['GitObjectID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateCommitOnBranch */
+export type CreateCommitOnBranchPayload = {
+    __typename?: 'CreateCommitOnBranchPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The new commit. */
+    commit: Maybe<Commit>
+    /** The ref which has been updated to point to the new commit. */
+    ref: Maybe<Ref>
+}
+
+/** Autogenerated input type of CreateDiscussion */
+export type CreateDiscussionInput = {
+    /** The id of the repository on which to create the discussion. */
+    repositoryId: Scalars['ID']
+    /** The title of the discussion. */
+    title: Scalars['String']
+    /** The body of the discussion. */
+    body: Scalars['String']
+    /** The id of the discussion category to associate with this discussion. */
+    categoryId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateDiscussion */
+export type CreateDiscussionPayload = {
+    __typename?: 'CreateDiscussionPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The discussion that was just created. */
+    discussion: Maybe<Discussion>
+}
+
 /** Autogenerated input type of CreateEnterpriseOrganization */
 export type CreateEnterpriseOrganizationInput = {
     /** The ID of the enterprise owning the new organization. */
@@ -2372,6 +3046,25 @@ export type CreateEnterpriseOrganizationPayload = {
     organization: Maybe<Organization>
 }
 
+/** Autogenerated input type of CreateEnvironment */
+export type CreateEnvironmentInput = {
+    /** The node ID of the repository. */
+    repositoryId: Scalars['ID']
+    /** The name of the environment. */
+    name: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateEnvironment */
+export type CreateEnvironmentPayload = {
+    __typename?: 'CreateEnvironmentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The new or existing environment. */
+    environment: Maybe<Environment>
+}
+
 /** Autogenerated input type of CreateIpAllowListEntry */
 export type CreateIpAllowListEntryInput = {
     /** The ID of the owner for which to create the new IP allow list entry. */
@@ -2426,6 +3119,33 @@ export type CreateIssuePayload = {
     issue: Maybe<Issue>
 }
 
+/** Autogenerated input type of CreateMigrationSource */
+export type CreateMigrationSourceInput = {
+    /** The Octoshift migration source name. */
+    name: Scalars['String']
+    /** The Octoshift migration source URL. */
+    url: Scalars['String']
+    /** The Octoshift migration source access token. */
+    accessToken: Maybe<Scalars['String']>
+    /** The Octoshift migration source type. */
+    type: MigrationSourceType
+    /** The ID of the organization that will own the Octoshift migration source. */
+    ownerId: Scalars['ID']
+    /** The GitHub personal access token of the user importing to the target repository. */
+    githubPat: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateMigrationSource */
+export type CreateMigrationSourcePayload = {
+    __typename?: 'CreateMigrationSourcePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The created Octoshift migration source. */
+    migrationSource: Maybe<MigrationSource>
+}
+
 /** Autogenerated input type of CreateProject */
 export type CreateProjectInput = {
     /** The owner ID to create the project under. */
@@ -2451,6 +3171,25 @@ export type CreateProjectPayload = {
     project: Maybe<Project>
 }
 
+/** Autogenerated input type of CreateProjectV2 */
+export type CreateProjectV2Input = {
+    /** The owner ID to create the project under. */
+    ownerId: Scalars['ID']
+    /** The title of the project. */
+    title: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateProjectV2 */
+export type CreateProjectV2Payload = {
+    __typename?: 'CreateProjectV2Payload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The new project. */
+    projectV2: Maybe<ProjectV2>
+}
+
 /** Autogenerated input type of CreatePullRequest */
 export type CreatePullRequestInput = {
     /** The Node ID of the repository. */
@@ -2541,6 +3280,74 @@ export type CreateRepositoryPayload = {
     repository: Maybe<Repository>
 }
 
+/** Autogenerated input type of CreateSponsorsTier */
+export type CreateSponsorsTierInput = {
+    /** The ID of the user or organization who owns the GitHub Sponsors profile. Defaults to the current user if omitted and sponsorableLogin is not given. */
+    sponsorableId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who owns the GitHub Sponsors profile. Defaults to the current user if omitted and sponsorableId is not given. */
+    sponsorableLogin: Maybe<Scalars['String']>
+    /** The value of the new tier in US dollars. Valid values: 1-12000. */
+    amount: Scalars['Int']
+    /** Whether sponsorships using this tier should happen monthly/yearly or just once. */
+    isRecurring: Maybe<Scalars['Boolean']>
+    /** Optional ID of the private repository that sponsors at this tier should gain read-only access to. Must be owned by an organization. */
+    repositoryId: Maybe<Scalars['ID']>
+    /** Optional login of the organization owner of the private repository that sponsors at this tier should gain read-only access to. Necessary if repositoryName is given. Will be ignored if repositoryId is given. */
+    repositoryOwnerLogin: Maybe<Scalars['String']>
+    /** Optional name of the private repository that sponsors at this tier should gain read-only access to. Must be owned by an organization. Necessary if repositoryOwnerLogin is given. Will be ignored if repositoryId is given. */
+    repositoryName: Maybe<Scalars['String']>
+    /** Optional message new sponsors at this tier will receive. */
+    welcomeMessage: Maybe<Scalars['String']>
+    /** A description of what this tier is, what perks sponsors might receive, what a sponsorship at this tier means for you, etc. */
+    description: Scalars['String']
+    /** Whether to make the tier available immediately for sponsors to choose. Defaults to creating a draft tier that will not be publicly visible. */
+    publish: Maybe<Scalars['Boolean']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateSponsorsTier */
+export type CreateSponsorsTierPayload = {
+    __typename?: 'CreateSponsorsTierPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The new tier. */
+    sponsorsTier: Maybe<SponsorsTier>
+}
+
+/** Autogenerated input type of CreateSponsorship */
+export type CreateSponsorshipInput = {
+    /** The ID of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorLogin is not given. */
+    sponsorId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorId is not given. */
+    sponsorLogin: Maybe<Scalars['String']>
+    /** The ID of the user or organization who is receiving the sponsorship. Required if sponsorableLogin is not given. */
+    sponsorableId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is receiving the sponsorship. Required if sponsorableId is not given. */
+    sponsorableLogin: Maybe<Scalars['String']>
+    /** The ID of one of sponsorable's existing tiers to sponsor at. Required if amount is not specified. */
+    tierId: Maybe<Scalars['ID']>
+    /** The amount to pay to the sponsorable in US dollars. Required if a tierId is not specified. Valid values: 1-12000. */
+    amount: Maybe<Scalars['Int']>
+    /** Whether the sponsorship should happen monthly/yearly or just this one time. Required if a tierId is not specified. */
+    isRecurring: Maybe<Scalars['Boolean']>
+    /** Whether the sponsor should receive email updates from the sponsorable. */
+    receiveEmails: Maybe<Scalars['Boolean']>
+    /** Specify whether others should be able to see that the sponsor is sponsoring the sponsorable. Public visibility still does not reveal which tier is used. */
+    privacyLevel: Maybe<SponsorshipPrivacy>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of CreateSponsorship */
+export type CreateSponsorshipPayload = {
+    __typename?: 'CreateSponsorshipPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The sponsorship that was started. */
+    sponsorship: Maybe<Sponsorship>
+}
+
 /** Autogenerated input type of CreateTeamDiscussionComment */
 export type CreateTeamDiscussionCommentInput = {
     /** The ID of the discussion to which the comment belongs. */
@@ -2568,7 +3375,7 @@ export type CreateTeamDiscussionInput = {
     title: Scalars['String']
     /** The content of the discussion. */
     body: Scalars['String']
-    /** If true, restricts the visiblity of this discussion to team members and organization admins. If false or not specified, allows any organization member to view this discussion. */
+    /** If true, restricts the visibility of this discussion to team members and organization admins. If false or not specified, allows any organization member to view this discussion. */
     private: Maybe<Scalars['Boolean']>
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
@@ -2814,8 +3621,8 @@ export type CreatedRepositoryContributionEdge = {
 export type CreatedRepositoryOrRestrictedContribution = CreatedRepositoryContribution | RestrictedContribution
 
 /** Represents a mention made by one issue or pull request to another. */
-export type CrossReferencedEvent = Node &
-    UniformResourceLocatable & {
+export type CrossReferencedEvent = UniformResourceLocatable &
+    Node & {
         __typename?: 'CrossReferencedEvent'
         /** Identifies the actor who performed the event. */
         actor: Maybe<Actor>
@@ -2859,7 +3666,7 @@ export type DeclineTopicSuggestionPayload = {
     topic: Maybe<Topic>
 }
 
-/** The possible default permissions for repositories. */
+/** The possible base permissions for repositories. */
 export enum DefaultRepositoryPermissionField {
     /** No access */
     None = 'NONE',
@@ -2907,6 +3714,55 @@ export type DeleteDeploymentPayload = {
     clientMutationId: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of DeleteDiscussionComment */
+export type DeleteDiscussionCommentInput = {
+    /** The Node id of the discussion comment to delete. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteDiscussionComment */
+export type DeleteDiscussionCommentPayload = {
+    __typename?: 'DeleteDiscussionCommentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The discussion comment that was just deleted. */
+    comment: Maybe<DiscussionComment>
+}
+
+/** Autogenerated input type of DeleteDiscussion */
+export type DeleteDiscussionInput = {
+    /** The id of the discussion to delete. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteDiscussion */
+export type DeleteDiscussionPayload = {
+    __typename?: 'DeleteDiscussionPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The discussion that was just deleted. */
+    discussion: Maybe<Discussion>
+}
+
+/** Autogenerated input type of DeleteEnvironment */
+export type DeleteEnvironmentInput = {
+    /** The Node ID of the environment to be deleted. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteEnvironment */
+export type DeleteEnvironmentPayload = {
+    __typename?: 'DeleteEnvironmentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
 /** Autogenerated input type of DeleteIpAllowListEntry */
 export type DeleteIpAllowListEntryInput = {
     /** The ID of the IP allow list entry to delete. */
@@ -3002,6 +3858,40 @@ export type DeleteProjectInput = {
     clientMutationId: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of DeleteProjectNextItem */
+export type DeleteProjectNextItemInput = {
+    /**
+     * The ID of the Project from which the item should be removed. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `projectId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    projectId: Maybe<Scalars['ID']>
+    /**
+     * The ID of the item to be removed. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `itemId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    itemId: Maybe<Scalars['ID']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteProjectNextItem */
+export type DeleteProjectNextItemPayload = {
+    __typename?: 'DeleteProjectNextItemPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /**
+     * The ID of the deleted item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    deletedItemId: Maybe<Scalars['ID']>
+}
+
 /** Autogenerated return type of DeleteProject */
 export type DeleteProjectPayload = {
     __typename?: 'DeleteProjectPayload'
@@ -3011,6 +3901,25 @@ export type DeleteProjectPayload = {
     owner: Maybe<ProjectOwner>
 }
 
+/** Autogenerated input type of DeleteProjectV2Item */
+export type DeleteProjectV2ItemInput = {
+    /** The ID of the Project from which the item should be removed. */
+    projectId: Scalars['ID']
+    /** The ID of the item to be removed. */
+    itemId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteProjectV2Item */
+export type DeleteProjectV2ItemPayload = {
+    __typename?: 'DeleteProjectV2ItemPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The ID of the deleted item. */
+    deletedItemId: Maybe<Scalars['ID']>
+}
+
 /** Autogenerated input type of DeletePullRequestReviewComment */
 export type DeletePullRequestReviewCommentInput = {
     /** The ID of the comment to delete. */
@@ -3090,6 +3999,23 @@ export type DeleteTeamDiscussionPayload = {
     clientMutationId: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of DeleteVerifiableDomain */
+export type DeleteVerifiableDomainInput = {
+    /** The ID of the verifiable domain to delete. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DeleteVerifiableDomain */
+export type DeleteVerifiableDomainPayload = {
+    __typename?: 'DeleteVerifiableDomainPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The owning account from which the domain was deleted. */
+    owner: Maybe<VerifiableDomainOwner>
+}
+
 /** Represents a 'demilestoned' event on a given issue or pull request. */
 export type DemilestonedEvent = Node & {
     __typename?: 'DemilestonedEvent'
@@ -3104,6 +4030,50 @@ export type DemilestonedEvent = Node & {
     subject: MilestoneItem
 }
 
+/** A Dependabot Update for a dependency in a repository */
+export type DependabotUpdate = RepositoryNode & {
+    __typename?: 'DependabotUpdate'
+    /** The error from a dependency update */
+    error: Maybe<DependabotUpdateError>
+    /** The associated pull request */
+    pullRequest: Maybe<PullRequest>
+    /** The repository associated with this node. */
+    repository: Repository
+}
+
+/** An error produced from a Dependabot Update */
+export type DependabotUpdateError = {
+    __typename?: 'DependabotUpdateError'
+    /** The body of the error */
+    body: Scalars['String']
+    /** The error code */
+    errorType: Scalars['String']
+    /** The title of the error */
+    title: Scalars['String']
+}
+
+/** The possible ecosystems of a dependency graph package. */
+export enum DependencyGraphEcosystem {
+    /** Ruby gems hosted at RubyGems.org */
+    Rubygems = 'RUBYGEMS',
+    /** JavaScript packages hosted at npmjs.com */
+    Npm = 'NPM',
+    /** Python packages hosted at PyPI.org */
+    Pip = 'PIP',
+    /** Java artifacts hosted at the Maven central repository */
+    Maven = 'MAVEN',
+    /** .NET packages hosted at the NuGet Gallery */
+    Nuget = 'NUGET',
+    /** PHP packages hosted at packagist.org */
+    Composer = 'COMPOSER',
+    /** Go modules */
+    Go = 'GO',
+    /** GitHub Actions */
+    Actions = 'ACTIONS',
+    /** Rust crates */
+    Rust = 'RUST'
+}
+
 /** A repository deploy key. */
 export type DeployKey = Node & {
     __typename?: 'DeployKey'
@@ -3258,6 +4228,181 @@ export enum DeploymentOrderField {
     CreatedAt = 'CREATED_AT'
 }
 
+/** A protection rule. */
+export type DeploymentProtectionRule = {
+    __typename?: 'DeploymentProtectionRule'
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The teams or users that can review the deployment */
+    reviewers: DeploymentReviewerConnection
+    /** The timeout in minutes for this protection rule. */
+    timeout: Scalars['Int']
+    /** The type of protection rule. */
+    type: DeploymentProtectionRuleType
+}
+
+/** A protection rule. */
+export type DeploymentProtectionRuleReviewersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for DeploymentProtectionRule. */
+export type DeploymentProtectionRuleConnection = {
+    __typename?: 'DeploymentProtectionRuleConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DeploymentProtectionRuleEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DeploymentProtectionRule>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DeploymentProtectionRuleEdge = {
+    __typename?: 'DeploymentProtectionRuleEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DeploymentProtectionRule>
+}
+
+/** The possible protection rule types. */
+export enum DeploymentProtectionRuleType {
+    /** Required reviewers */
+    RequiredReviewers = 'REQUIRED_REVIEWERS',
+    /** Wait timer */
+    WaitTimer = 'WAIT_TIMER'
+}
+
+/** A request to deploy a workflow run to an environment. */
+export type DeploymentRequest = {
+    __typename?: 'DeploymentRequest'
+    /** Whether or not the current user can approve the deployment */
+    currentUserCanApprove: Scalars['Boolean']
+    /** The target environment of the deployment */
+    environment: Environment
+    /** The teams or users that can review the deployment */
+    reviewers: DeploymentReviewerConnection
+    /** The wait timer in minutes configured in the environment */
+    waitTimer: Scalars['Int']
+    /** The wait timer in minutes configured in the environment */
+    waitTimerStartedAt: Maybe<Scalars['DateTime']>
+}
+
+/** A request to deploy a workflow run to an environment. */
+export type DeploymentRequestReviewersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for DeploymentRequest. */
+export type DeploymentRequestConnection = {
+    __typename?: 'DeploymentRequestConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DeploymentRequestEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DeploymentRequest>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DeploymentRequestEdge = {
+    __typename?: 'DeploymentRequestEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DeploymentRequest>
+}
+
+/** A deployment review. */
+export type DeploymentReview = Node & {
+    __typename?: 'DeploymentReview'
+    /** The comment the user left. */
+    comment: Scalars['String']
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The environments approved or rejected */
+    environments: EnvironmentConnection
+    id: Scalars['ID']
+    /** The decision of the user. */
+    state: DeploymentReviewState
+    /** The user that reviewed the deployment. */
+    user: User
+}
+
+/** A deployment review. */
+export type DeploymentReviewEnvironmentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for DeploymentReview. */
+export type DeploymentReviewConnection = {
+    __typename?: 'DeploymentReviewConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DeploymentReviewEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DeploymentReview>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DeploymentReviewEdge = {
+    __typename?: 'DeploymentReviewEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DeploymentReview>
+}
+
+/** The possible states for a deployment review. */
+export enum DeploymentReviewState {
+    /** The deployment was approved. */
+    Approved = 'APPROVED',
+    /** The deployment was rejected. */
+    Rejected = 'REJECTED'
+}
+
+/** Users and teams. */
+export type DeploymentReviewer = Team | User
+
+/** The connection type for DeploymentReviewer. */
+export type DeploymentReviewerConnection = {
+    __typename?: 'DeploymentReviewerConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DeploymentReviewerEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DeploymentReviewer>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DeploymentReviewerEdge = {
+    __typename?: 'DeploymentReviewerEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DeploymentReviewer>
+}
+
 /** The possible states in which a deployment can be. */
 export enum DeploymentState {
     /** The pending deployment was not updated after 30 minutes. */
@@ -3341,7 +4486,9 @@ export enum DeploymentStatusState {
     /** The deployment is queued */
     Queued = 'QUEUED',
     /** The deployment is in progress. */
-    InProgress = 'IN_PROGRESS'
+    InProgress = 'IN_PROGRESS',
+    /** The deployment is waiting. */
+    Waiting = 'WAITING'
 }
 
 /** The possible sides of a diff. */
@@ -3352,6 +4499,25 @@ export enum DiffSide {
     Right = 'RIGHT'
 }
 
+/** Autogenerated input type of DisablePullRequestAutoMerge */
+export type DisablePullRequestAutoMergeInput = {
+    /** ID of the pull request to disable auto merge on. */
+    pullRequestId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DisablePullRequestAutoMerge */
+export type DisablePullRequestAutoMergePayload = {
+    __typename?: 'DisablePullRequestAutoMergePayload'
+    /** Identifies the actor who performed the event. */
+    actor: Maybe<Actor>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The pull request auto merge was disabled on. */
+    pullRequest: Maybe<PullRequest>
+}
+
 /** Represents a 'disconnected' event on a given issue or pull request. */
 export type DisconnectedEvent = Node & {
     __typename?: 'DisconnectedEvent'
@@ -3368,6 +4534,429 @@ export type DisconnectedEvent = Node & {
     subject: ReferencedSubject
 }
 
+/** A discussion in a repository. */
+export type Discussion = Comment &
+    Updatable &
+    Deletable &
+    Labelable &
+    Lockable &
+    RepositoryNode &
+    Subscribable &
+    Reactable &
+    Votable &
+    Node & {
+        __typename?: 'Discussion'
+        /** Reason that the conversation was locked. */
+        activeLockReason: Maybe<LockReason>
+        /** The comment chosen as this discussion's answer, if any. */
+        answer: Maybe<DiscussionComment>
+        /** The time when a user chose this discussion's answer, if answered. */
+        answerChosenAt: Maybe<Scalars['DateTime']>
+        /** The user who chose this discussion's answer, if answered. */
+        answerChosenBy: Maybe<Actor>
+        /** The actor who authored the comment. */
+        author: Maybe<Actor>
+        /** Author's association with the subject of the comment. */
+        authorAssociation: CommentAuthorAssociation
+        /** The main text of the discussion post. */
+        body: Scalars['String']
+        /** The body rendered to HTML. */
+        bodyHTML: Scalars['HTML']
+        /** The body rendered to text. */
+        bodyText: Scalars['String']
+        /** The category for this discussion. */
+        category: DiscussionCategory
+        /** The replies to the discussion. */
+        comments: DiscussionCommentConnection
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** Check if this comment was created via an email reply. */
+        createdViaEmail: Scalars['Boolean']
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The actor who edited the comment. */
+        editor: Maybe<Actor>
+        id: Scalars['ID']
+        /** Check if this comment was edited and includes an edit with the creation data */
+        includesCreatedEdit: Scalars['Boolean']
+        /** A list of labels associated with the object. */
+        labels: Maybe<LabelConnection>
+        /** The moment the editor made the last edit */
+        lastEditedAt: Maybe<Scalars['DateTime']>
+        /** `true` if the object is locked */
+        locked: Scalars['Boolean']
+        /** The number identifying this discussion within the repository. */
+        number: Scalars['Int']
+        /** The poll associated with this discussion, if one exists. */
+        poll: Maybe<DiscussionPoll>
+        /** Identifies when the comment was published at. */
+        publishedAt: Maybe<Scalars['DateTime']>
+        /** A list of reactions grouped by content left on the subject. */
+        reactionGroups: Maybe<Array<ReactionGroup>>
+        /** A list of Reactions left on the Issue. */
+        reactions: ReactionConnection
+        /** The repository associated with this node. */
+        repository: Repository
+        /** The path for this discussion. */
+        resourcePath: Scalars['URI']
+        /** The title of this discussion. */
+        title: Scalars['String']
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+        /** Number of upvotes that this subject has received. */
+        upvoteCount: Scalars['Int']
+        /** The URL for this discussion. */
+        url: Scalars['URI']
+        /** A list of edits to this content. */
+        userContentEdits: Maybe<UserContentEditConnection>
+        /** Check if the current viewer can delete this object. */
+        viewerCanDelete: Scalars['Boolean']
+        /** Can user react to this subject */
+        viewerCanReact: Scalars['Boolean']
+        /** Check if the viewer is able to change their subscription status for the repository. */
+        viewerCanSubscribe: Scalars['Boolean']
+        /** Check if the current viewer can update this object. */
+        viewerCanUpdate: Scalars['Boolean']
+        /** Whether or not the current user can add or remove an upvote on this subject. */
+        viewerCanUpvote: Scalars['Boolean']
+        /** Did the viewer author this comment. */
+        viewerDidAuthor: Scalars['Boolean']
+        /** Whether or not the current user has already upvoted this subject. */
+        viewerHasUpvoted: Scalars['Boolean']
+        /** Identifies if the viewer is watching, not watching, or ignoring the subscribable entity. */
+        viewerSubscription: Maybe<SubscriptionState>
+    }
+
+/** A discussion in a repository. */
+export type DiscussionCommentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A discussion in a repository. */
+export type DiscussionLabelsArgs = {
+    orderBy?: Maybe<LabelOrder>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A discussion in a repository. */
+export type DiscussionReactionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    content: Maybe<ReactionContent>
+    orderBy: Maybe<ReactionOrder>
+}
+
+/** A discussion in a repository. */
+export type DiscussionUserContentEditsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A category for discussions in a repository. */
+export type DiscussionCategory = Node &
+    RepositoryNode & {
+        __typename?: 'DiscussionCategory'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** A description of this category. */
+        description: Maybe<Scalars['String']>
+        /** An emoji representing this category. */
+        emoji: Scalars['String']
+        /** This category's emoji rendered as HTML. */
+        emojiHTML: Scalars['HTML']
+        id: Scalars['ID']
+        /** Whether or not discussions in this category support choosing an answer with the markDiscussionCommentAsAnswer mutation. */
+        isAnswerable: Scalars['Boolean']
+        /** The name of this category. */
+        name: Scalars['String']
+        /** The repository associated with this node. */
+        repository: Repository
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The connection type for DiscussionCategory. */
+export type DiscussionCategoryConnection = {
+    __typename?: 'DiscussionCategoryConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DiscussionCategoryEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DiscussionCategory>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DiscussionCategoryEdge = {
+    __typename?: 'DiscussionCategoryEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DiscussionCategory>
+}
+
+/** A comment on a discussion. */
+export type DiscussionComment = Comment &
+    Deletable &
+    Minimizable &
+    Updatable &
+    UpdatableComment &
+    Reactable &
+    Votable &
+    Node & {
+        __typename?: 'DiscussionComment'
+        /** The actor who authored the comment. */
+        author: Maybe<Actor>
+        /** Author's association with the subject of the comment. */
+        authorAssociation: CommentAuthorAssociation
+        /** The body as Markdown. */
+        body: Scalars['String']
+        /** The body rendered to HTML. */
+        bodyHTML: Scalars['HTML']
+        /** The body rendered to text. */
+        bodyText: Scalars['String']
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** Check if this comment was created via an email reply. */
+        createdViaEmail: Scalars['Boolean']
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The time when this replied-to comment was deleted */
+        deletedAt: Maybe<Scalars['DateTime']>
+        /** The discussion this comment was created in */
+        discussion: Maybe<Discussion>
+        /** The actor who edited the comment. */
+        editor: Maybe<Actor>
+        id: Scalars['ID']
+        /** Check if this comment was edited and includes an edit with the creation data */
+        includesCreatedEdit: Scalars['Boolean']
+        /** Has this comment been chosen as the answer of its discussion? */
+        isAnswer: Scalars['Boolean']
+        /** Returns whether or not a comment has been minimized. */
+        isMinimized: Scalars['Boolean']
+        /** The moment the editor made the last edit */
+        lastEditedAt: Maybe<Scalars['DateTime']>
+        /** Returns why the comment was minimized. */
+        minimizedReason: Maybe<Scalars['String']>
+        /** Identifies when the comment was published at. */
+        publishedAt: Maybe<Scalars['DateTime']>
+        /** A list of reactions grouped by content left on the subject. */
+        reactionGroups: Maybe<Array<ReactionGroup>>
+        /** A list of Reactions left on the Issue. */
+        reactions: ReactionConnection
+        /** The threaded replies to this comment. */
+        replies: DiscussionCommentConnection
+        /** The discussion comment this comment is a reply to */
+        replyTo: Maybe<DiscussionComment>
+        /** The path for this discussion comment. */
+        resourcePath: Scalars['URI']
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+        /** Number of upvotes that this subject has received. */
+        upvoteCount: Scalars['Int']
+        /** The URL for this discussion comment. */
+        url: Scalars['URI']
+        /** A list of edits to this content. */
+        userContentEdits: Maybe<UserContentEditConnection>
+        /** Check if the current viewer can delete this object. */
+        viewerCanDelete: Scalars['Boolean']
+        /** Can the current user mark this comment as an answer? */
+        viewerCanMarkAsAnswer: Scalars['Boolean']
+        /** Check if the current viewer can minimize this object. */
+        viewerCanMinimize: Scalars['Boolean']
+        /** Can user react to this subject */
+        viewerCanReact: Scalars['Boolean']
+        /** Can the current user unmark this comment as an answer? */
+        viewerCanUnmarkAsAnswer: Scalars['Boolean']
+        /** Check if the current viewer can update this object. */
+        viewerCanUpdate: Scalars['Boolean']
+        /** Whether or not the current user can add or remove an upvote on this subject. */
+        viewerCanUpvote: Scalars['Boolean']
+        /** Reasons why the current viewer can not update this comment. */
+        viewerCannotUpdateReasons: Array<CommentCannotUpdateReason>
+        /** Did the viewer author this comment. */
+        viewerDidAuthor: Scalars['Boolean']
+        /** Whether or not the current user has already upvoted this subject. */
+        viewerHasUpvoted: Scalars['Boolean']
+    }
+
+/** A comment on a discussion. */
+export type DiscussionCommentReactionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    content: Maybe<ReactionContent>
+    orderBy: Maybe<ReactionOrder>
+}
+
+/** A comment on a discussion. */
+export type DiscussionCommentRepliesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A comment on a discussion. */
+export type DiscussionCommentUserContentEditsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for DiscussionComment. */
+export type DiscussionCommentConnection = {
+    __typename?: 'DiscussionCommentConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DiscussionCommentEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DiscussionComment>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DiscussionCommentEdge = {
+    __typename?: 'DiscussionCommentEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DiscussionComment>
+}
+
+/** The connection type for Discussion. */
+export type DiscussionConnection = {
+    __typename?: 'DiscussionConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DiscussionEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<Discussion>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DiscussionEdge = {
+    __typename?: 'DiscussionEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<Discussion>
+}
+
+/** Ways in which lists of discussions can be ordered upon return. */
+export type DiscussionOrder = {
+    /** The field by which to order discussions. */
+    field: DiscussionOrderField
+    /** The direction in which to order discussions by the specified field. */
+    direction: OrderDirection
+}
+
+/** Properties by which discussion connections can be ordered. */
+export enum DiscussionOrderField {
+    /** Order discussions by creation time. */
+    CreatedAt = 'CREATED_AT',
+    /** Order discussions by most recent modification time. */
+    UpdatedAt = 'UPDATED_AT'
+}
+
+/** A poll for a discussion. */
+export type DiscussionPoll = Node & {
+    __typename?: 'DiscussionPoll'
+    /** The discussion that this poll belongs to. */
+    discussion: Maybe<Discussion>
+    id: Scalars['ID']
+    /** The options for this poll. */
+    options: Maybe<DiscussionPollOptionConnection>
+    /** The question that is being asked by this poll. */
+    question: Scalars['String']
+    /** The total number of votes that have been cast for this poll. */
+    totalVoteCount: Scalars['Int']
+    /** Indicates if the viewer has permission to vote in this poll. */
+    viewerCanVote: Scalars['Boolean']
+    /** Indicates if the viewer has voted for any option in this poll. */
+    viewerHasVoted: Scalars['Boolean']
+}
+
+/** A poll for a discussion. */
+export type DiscussionPollOptionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<DiscussionPollOptionOrder>
+}
+
+/** An option for a discussion poll. */
+export type DiscussionPollOption = Node & {
+    __typename?: 'DiscussionPollOption'
+    id: Scalars['ID']
+    /** The text for this option. */
+    option: Scalars['String']
+    /** The discussion poll that this option belongs to. */
+    poll: Maybe<DiscussionPoll>
+    /** The total number of votes that have been cast for this option. */
+    totalVoteCount: Scalars['Int']
+    /** Indicates if the viewer has voted for this option in the poll. */
+    viewerHasVoted: Scalars['Boolean']
+}
+
+/** The connection type for DiscussionPollOption. */
+export type DiscussionPollOptionConnection = {
+    __typename?: 'DiscussionPollOptionConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<DiscussionPollOptionEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<DiscussionPollOption>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type DiscussionPollOptionEdge = {
+    __typename?: 'DiscussionPollOptionEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<DiscussionPollOption>
+}
+
+/** Ordering options for discussion poll option connections. */
+export type DiscussionPollOptionOrder = {
+    /** The field to order poll options by. */
+    field: DiscussionPollOptionOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which discussion poll option connections can be ordered. */
+export enum DiscussionPollOptionOrderField {
+    /** Order poll options by the order that the poll author specified when creating the poll. */
+    AuthoredOrder = 'AUTHORED_ORDER',
+    /** Order poll options by the number of votes it has. */
+    VoteCount = 'VOTE_COUNT'
+}
+
 /** Autogenerated input type of DismissPullRequestReview */
 export type DismissPullRequestReviewInput = {
     /** The Node ID of the pull request review to modify. */
@@ -3387,6 +4976,93 @@ export type DismissPullRequestReviewPayload = {
     pullRequestReview: Maybe<PullRequestReview>
 }
 
+/** The possible reasons that a Dependabot alert was dismissed. */
+export enum DismissReason {
+    /** A fix has already been started */
+    FixStarted = 'FIX_STARTED',
+    /** No bandwidth to fix this */
+    NoBandwidth = 'NO_BANDWIDTH',
+    /** Risk is tolerable to this project */
+    TolerableRisk = 'TOLERABLE_RISK',
+    /** This alert is inaccurate or incorrect */
+    Inaccurate = 'INACCURATE',
+    /** Vulnerable code is not actually used */
+    NotUsed = 'NOT_USED'
+}
+
+/** Autogenerated input type of DismissRepositoryVulnerabilityAlert */
+export type DismissRepositoryVulnerabilityAlertInput = {
+    /** The Dependabot alert ID to dismiss. */
+    repositoryVulnerabilityAlertId: Scalars['ID']
+    /** The reason the Dependabot alert is being dismissed. */
+    dismissReason: DismissReason
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of DismissRepositoryVulnerabilityAlert */
+export type DismissRepositoryVulnerabilityAlertPayload = {
+    __typename?: 'DismissRepositoryVulnerabilityAlertPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The Dependabot alert that was dismissed */
+    repositoryVulnerabilityAlert: Maybe<RepositoryVulnerabilityAlert>
+}
+
+/** A draft issue within a project. */
+export type DraftIssue = Node & {
+    __typename?: 'DraftIssue'
+    /** A list of users to assigned to this draft issue. */
+    assignees: UserConnection
+    /** The body of the draft issue. */
+    body: Scalars['String']
+    /** The body of the draft issue rendered to HTML. */
+    bodyHTML: Scalars['HTML']
+    /** The body of the draft issue rendered to text. */
+    bodyText: Scalars['String']
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The actor who created this draft issue. */
+    creator: Maybe<Actor>
+    id: Scalars['ID']
+    /** The project (beta) that contains this draft issue. */
+    project: ProjectNext
+    /** The project (beta) item that wraps this draft issue. */
+    projectItem: ProjectNextItem
+    /** List of items linked with the draft issue (currently draft issue can be linked to only one item). */
+    projectV2Items: ProjectV2ItemConnection
+    /** Projects that link to this draft issue (currently draft issue can be linked to only one project). */
+    projectsV2: ProjectV2Connection
+    /** The title of the draft issue */
+    title: Scalars['String']
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** A draft issue within a project. */
+export type DraftIssueAssigneesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A draft issue within a project. */
+export type DraftIssueProjectV2ItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A draft issue within a project. */
+export type DraftIssueProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** Specifies a review comment to be left with a Pull Request Review. */
 export type DraftPullRequestReviewComment = {
     /** Path to the file being commented on. */
@@ -3413,6 +5089,33 @@ export type DraftPullRequestReviewThread = {
     body: Scalars['String']
 }
 
+/** Autogenerated input type of EnablePullRequestAutoMerge */
+export type EnablePullRequestAutoMergeInput = {
+    /** ID of the pull request to enable auto-merge on. */
+    pullRequestId: Scalars['ID']
+    /** Commit headline to use for the commit when the PR is mergable; if omitted, a default message will be used. */
+    commitHeadline: Maybe<Scalars['String']>
+    /** Commit body to use for the commit when the PR is mergable; if omitted, a default message will be used. */
+    commitBody: Maybe<Scalars['String']>
+    /** The merge method to use. If omitted, defaults to 'MERGE' */
+    mergeMethod: Maybe<PullRequestMergeMethod>
+    /** The email address to associate with this merge. */
+    authorEmail: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of EnablePullRequestAutoMerge */
+export type EnablePullRequestAutoMergePayload = {
+    __typename?: 'EnablePullRequestAutoMergePayload'
+    /** Identifies the actor who performed the event. */
+    actor: Maybe<Actor>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The pull request auto-merge was enabled on. */
+    pullRequest: Maybe<PullRequest>
+}
+
 /** An account to manage multiple organizations with consolidated policy and billing. */
 export type Enterprise = Node & {
     __typename?: 'Enterprise'
@@ -3445,7 +5148,10 @@ export type Enterprise = Node & {
     slug: Scalars['String']
     /** The HTTP URL for this enterprise. */
     url: Scalars['URI']
-    /** A list of user accounts on this enterprise. */
+    /**
+     * A list of user accounts on this enterprise.
+     * @deprecated The `Enterprise.userAccounts` field is being removed. Use the `Enterprise.members` field instead. Removal on 2022-07-01 UTC.
+     */
     userAccounts: EnterpriseUserAccountConnection
     /** Is the current viewer an admin of this enterprise? */
     viewerIsAdmin: Scalars['Boolean']
@@ -3474,6 +5180,7 @@ export type EnterpriseMembersArgs = {
 /** An account to manage multiple organizations with consolidated policy and billing. */
 export type EnterpriseOrganizationsArgs = {
     query: Maybe<Scalars['String']>
+    viewerOrganizationRole: Maybe<RoleInOrganization>
     orderBy?: Maybe<OrganizationOrder>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
@@ -3592,22 +5299,12 @@ export type EnterpriseBillingInfo = {
     allLicensableUsersCount: Scalars['Int']
     /** The number of data packs used by all organizations owned by the enterprise. */
     assetPacks: Scalars['Int']
-    /**
-     * The number of available seats across all owned organizations based on the unique number of billable users.
-     * @deprecated `availableSeats` will be replaced with `totalAvailableLicenses` to provide more clarity on the value being returned Use EnterpriseBillingInfo.totalAvailableLicenses instead. Removal on 2020-01-01 UTC.
-     */
-    availableSeats: Scalars['Int']
     /** The bandwidth quota in GB for all organizations owned by the enterprise. */
     bandwidthQuota: Scalars['Float']
     /** The bandwidth usage in GB for all organizations owned by the enterprise. */
     bandwidthUsage: Scalars['Float']
     /** The bandwidth usage as a percentage of the bandwidth quota. */
     bandwidthUsagePercentage: Scalars['Int']
-    /**
-     * The total seats across all organizations owned by the enterprise.
-     * @deprecated `seats` will be replaced with `totalLicenses` to provide more clarity on the value being returned Use EnterpriseBillingInfo.totalLicenses instead. Removal on 2020-01-01 UTC.
-     */
-    seats: Scalars['Int']
     /** The storage quota in GB for all organizations owned by the enterprise. */
     storageQuota: Scalars['Float']
     /** The storage usage in GB for all organizations owned by the enterprise. */
@@ -3620,9 +5317,9 @@ export type EnterpriseBillingInfo = {
     totalLicenses: Scalars['Int']
 }
 
-/** The possible values for the enterprise default repository permission setting. */
+/** The possible values for the enterprise base repository permission setting. */
 export enum EnterpriseDefaultRepositoryPermissionSettingValue {
-    /** Organizations in the enterprise choose default repository permissions for their members. */
+    /** Organizations in the enterprise choose base repository permissions for their members. */
     NoPolicy = 'NO_POLICY',
     /** Organization members will be able to clone, pull, push, and add new collaborators to all organization repositories. */
     Admin = 'ADMIN',
@@ -3676,6 +5373,9 @@ export type EnterpriseIdentityProvider = Node & {
 
 /** An identity provider configured to provision identities for an enterprise. */
 export type EnterpriseIdentityProviderExternalIdentitiesArgs = {
+    membersOnly: Maybe<Scalars['Boolean']>
+    login: Maybe<Scalars['String']>
+    userName: Maybe<Scalars['String']>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -3703,11 +5403,6 @@ export type EnterpriseMemberEdge = {
     __typename?: 'EnterpriseMemberEdge'
     /** A cursor for use in pagination. */
     cursor: Scalars['String']
-    /**
-     * Whether the user does not have a license for the enterprise.
-     * @deprecated All members consume a license Removal on 2021-01-01 UTC.
-     */
-    isUnlicensed: Scalars['Boolean']
     /** The item at the end of the edge. */
     node: Maybe<EnterpriseMember>
 }
@@ -3792,11 +5487,6 @@ export type EnterpriseOutsideCollaboratorEdge = {
     __typename?: 'EnterpriseOutsideCollaboratorEdge'
     /** A cursor for use in pagination. */
     cursor: Scalars['String']
-    /**
-     * Whether the outside collaborator does not have a license for the enterprise.
-     * @deprecated All outside collaborators consume a license Removal on 2021-01-01 UTC.
-     */
-    isUnlicensed: Scalars['Boolean']
     /** The item at the end of the edge. */
     node: Maybe<User>
     /** The enterprise organization repositories this user is a member of. */
@@ -3827,15 +5517,19 @@ export type EnterpriseOwnerInfo = {
     allowPrivateRepositoryForkingSettingOrganizations: OrganizationConnection
     /** The setting value for base repository permissions for organizations in this enterprise. */
     defaultRepositoryPermissionSetting: EnterpriseDefaultRepositoryPermissionSettingValue
-    /** A list of enterprise organizations configured with the provided default repository permission. */
+    /** A list of enterprise organizations configured with the provided base repository permission. */
     defaultRepositoryPermissionSettingOrganizations: OrganizationConnection
+    /** A list of domains owned by the enterprise. */
+    domains: VerifiableDomainConnection
     /** Enterprise Server installations owned by the enterprise. */
     enterpriseServerInstallations: EnterpriseServerInstallationConnection
     /** The setting value for whether the enterprise has an IP allow list enabled. */
     ipAllowListEnabledSetting: IpAllowListEnabledSettingValue
     /** The IP addresses that are allowed to access resources owned by the enterprise. */
     ipAllowListEntries: IpAllowListEntryConnection
-    /** Whether or not the default repository permission is currently being updated. */
+    /** The setting value for whether the enterprise has IP allow list configuration for installed GitHub Apps enabled. */
+    ipAllowListForInstalledAppsEnabledSetting: IpAllowListForInstalledAppsEnabledSettingValue
+    /** Whether or not the base repository permission is currently being updated. */
     isUpdatingDefaultRepositoryPermission: Scalars['Boolean']
     /** Whether the two-factor authentication requirement is currently being enforced. */
     isUpdatingTwoFactorRequirement: Scalars['Boolean']
@@ -3875,6 +5569,10 @@ export type EnterpriseOwnerInfo = {
     membersCanViewDependencyInsightsSetting: EnterpriseEnabledDisabledSettingValue
     /** A list of enterprise organizations configured with the provided members can view dependency insights setting value. */
     membersCanViewDependencyInsightsSettingOrganizations: OrganizationConnection
+    /** Indicates if email notification delivery for this enterprise is restricted to verified or approved domains. */
+    notificationDeliveryRestrictionEnabledSetting: NotificationRestrictionSettingValue
+    /** The OIDC Identity Provider for the enterprise. */
+    oidcProvider: Maybe<OidcProvider>
     /** The setting value for whether organization projects are enabled for organizations in this enterprise. */
     organizationProjectsSetting: EnterpriseEnabledDisabledSettingValue
     /** A list of enterprise organizations configured with the provided organization projects setting value. */
@@ -3885,18 +5583,13 @@ export type EnterpriseOwnerInfo = {
     pendingAdminInvitations: EnterpriseAdministratorInvitationConnection
     /** A list of pending collaborator invitations across the repositories in the enterprise. */
     pendingCollaboratorInvitations: RepositoryInvitationConnection
-    /**
-     * A list of pending collaborators across the repositories in the enterprise.
-     * @deprecated Repository invitations can now be associated with an email, not only an invitee. Use the `pendingCollaboratorInvitations` field instead. Removal on 2020-10-01 UTC.
-     */
-    pendingCollaborators: EnterprisePendingCollaboratorConnection
     /** A list of pending member invitations for organizations in the enterprise. */
     pendingMemberInvitations: EnterprisePendingMemberInvitationConnection
     /** The setting value for whether repository projects are enabled in this enterprise. */
     repositoryProjectsSetting: EnterpriseEnabledDisabledSettingValue
     /** A list of enterprise organizations configured with the provided repository projects setting value. */
     repositoryProjectsSettingOrganizations: OrganizationConnection
-    /** The SAML Identity Provider for the enterprise. */
+    /** The SAML Identity Provider for the enterprise. When used by a GitHub App, requires an installation token with read and write access to members. */
     samlIdentityProvider: Maybe<EnterpriseIdentityProvider>
     /** A list of enterprise organizations configured with the SAML single sign-on setting value. */
     samlIdentityProviderSettingOrganizations: OrganizationConnection
@@ -3914,6 +5607,7 @@ export type EnterpriseOwnerInfo = {
 
 /** Enterprise information only visible to enterprise owners. */
 export type EnterpriseOwnerInfoAdminsArgs = {
+    organizationLogins: Maybe<Array<Scalars['String']>>
     query: Maybe<Scalars['String']>
     role: Maybe<EnterpriseAdministratorRole>
     orderBy?: Maybe<EnterpriseMemberOrder>
@@ -3951,6 +5645,17 @@ export type EnterpriseOwnerInfoDefaultRepositoryPermissionSettingOrganizationsAr
     orderBy?: Maybe<OrganizationOrder>
 }
 
+/** Enterprise information only visible to enterprise owners. */
+export type EnterpriseOwnerInfoDomainsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    isVerified?: Maybe<Scalars['Boolean']>
+    isApproved?: Maybe<Scalars['Boolean']>
+    orderBy?: Maybe<VerifiableDomainOrder>
+}
+
 /** Enterprise information only visible to enterprise owners. */
 export type EnterpriseOwnerInfoEnterpriseServerInstallationsArgs = {
     after: Maybe<Scalars['String']>
@@ -4056,6 +5761,8 @@ export type EnterpriseOwnerInfoOutsideCollaboratorsArgs = {
     query: Maybe<Scalars['String']>
     orderBy?: Maybe<EnterpriseMemberOrder>
     visibility: Maybe<RepositoryVisibility>
+    hasTwoFactorEnabled?: Maybe<Scalars['Boolean']>
+    organizationLogins: Maybe<Array<Scalars['String']>>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -4083,19 +5790,10 @@ export type EnterpriseOwnerInfoPendingCollaboratorInvitationsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
-/** Enterprise information only visible to enterprise owners. */
-export type EnterpriseOwnerInfoPendingCollaboratorsArgs = {
-    query: Maybe<Scalars['String']>
-    orderBy?: Maybe<RepositoryInvitationOrder>
-    after: Maybe<Scalars['String']>
-    before: Maybe<Scalars['String']>
-    first: Maybe<Scalars['Int']>
-    last: Maybe<Scalars['Int']>
-}
-
 /** Enterprise information only visible to enterprise owners. */
 export type EnterpriseOwnerInfoPendingMemberInvitationsArgs = {
     query: Maybe<Scalars['String']>
+    organizationLogins: Maybe<Array<Scalars['String']>>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -4151,44 +5849,6 @@ export type EnterpriseOwnerInfoTwoFactorRequiredSettingOrganizationsArgs = {
     orderBy?: Maybe<OrganizationOrder>
 }
 
-/** The connection type for User. */
-export type EnterprisePendingCollaboratorConnection = {
-    __typename?: 'EnterprisePendingCollaboratorConnection'
-    /** A list of edges. */
-    edges: Maybe<Array<Maybe<EnterprisePendingCollaboratorEdge>>>
-    /** A list of nodes. */
-    nodes: Maybe<Array<Maybe<User>>>
-    /** Information to aid in pagination. */
-    pageInfo: PageInfo
-    /** Identifies the total count of items in the connection. */
-    totalCount: Scalars['Int']
-}
-
-/** A user with an invitation to be a collaborator on a repository owned by an organization in an enterprise. */
-export type EnterprisePendingCollaboratorEdge = {
-    __typename?: 'EnterprisePendingCollaboratorEdge'
-    /** A cursor for use in pagination. */
-    cursor: Scalars['String']
-    /**
-     * Whether the invited collaborator does not have a license for the enterprise.
-     * @deprecated All pending collaborators consume a license Removal on 2021-01-01 UTC.
-     */
-    isUnlicensed: Scalars['Boolean']
-    /** The item at the end of the edge. */
-    node: Maybe<User>
-    /** The enterprise organization repositories this user is a member of. */
-    repositories: EnterpriseRepositoryInfoConnection
-}
-
-/** A user with an invitation to be a collaborator on a repository owned by an organization in an enterprise. */
-export type EnterprisePendingCollaboratorEdgeRepositoriesArgs = {
-    after: Maybe<Scalars['String']>
-    before: Maybe<Scalars['String']>
-    first: Maybe<Scalars['Int']>
-    last: Maybe<Scalars['Int']>
-    orderBy?: Maybe<RepositoryOrder>
-}
-
 /** The connection type for OrganizationInvitation. */
 export type EnterprisePendingMemberInvitationConnection = {
     __typename?: 'EnterprisePendingMemberInvitationConnection'
@@ -4209,11 +5869,6 @@ export type EnterprisePendingMemberInvitationEdge = {
     __typename?: 'EnterprisePendingMemberInvitationEdge'
     /** A cursor for use in pagination. */
     cursor: Scalars['String']
-    /**
-     * Whether the invitation has a license for the enterprise.
-     * @deprecated All pending members consume a license Removal on 2020-07-01 UTC.
-     */
-    isUnlicensed: Scalars['Boolean']
     /** The item at the end of the edge. */
     node: Maybe<OrganizationInvitation>
 }
@@ -4222,7 +5877,7 @@ export type EnterprisePendingMemberInvitationEdge = {
 export type EnterpriseRepositoryInfo = Node & {
     __typename?: 'EnterpriseRepositoryInfo'
     id: Scalars['ID']
-    /** Identifies if the repository is private. */
+    /** Identifies if the repository is private or internal. */
     isPrivate: Scalars['Boolean']
     /** The repository's name. */
     name: Scalars['String']
@@ -4518,8 +6173,8 @@ export enum EnterpriseServerUserAccountsUploadSyncState {
 }
 
 /** An account for a user who is an admin of an enterprise or a member of an enterprise through one or more organizations. */
-export type EnterpriseUserAccount = Node &
-    Actor & {
+export type EnterpriseUserAccount = Actor &
+    Node & {
         __typename?: 'EnterpriseUserAccount'
         /** A URL pointing to the enterprise user account's public avatar. */
         avatarUrl: Scalars['URI']
@@ -4584,9 +6239,9 @@ export type EnterpriseUserAccountEdge = {
 
 /** The possible roles for enterprise membership. */
 export enum EnterpriseUserAccountMembershipRole {
-    /** The user is a member of the enterprise membership. */
+    /** The user is a member of an organization in the enterprise. */
     Member = 'MEMBER',
-    /** The user is an owner of the enterprise membership. */
+    /** The user is an owner of an organization in the enterprise. */
     Owner = 'OWNER'
 }
 
@@ -4598,6 +6253,48 @@ export enum EnterpriseUserDeployment {
     Server = 'SERVER'
 }
 
+/** An environment. */
+export type Environment = Node & {
+    __typename?: 'Environment'
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    id: Scalars['ID']
+    /** The name of the environment */
+    name: Scalars['String']
+    /** The protection rules defined for this environment */
+    protectionRules: DeploymentProtectionRuleConnection
+}
+
+/** An environment. */
+export type EnvironmentProtectionRulesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for Environment. */
+export type EnvironmentConnection = {
+    __typename?: 'EnvironmentConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<EnvironmentEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<Environment>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type EnvironmentEdge = {
+    __typename?: 'EnvironmentEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<Environment>
+}
+
 /** An external identity provisioned by SAML SSO or SCIM. */
 export type ExternalIdentity = Node & {
     __typename?: 'ExternalIdentity'
@@ -4614,6 +6311,17 @@ export type ExternalIdentity = Node & {
     user: Maybe<User>
 }
 
+/** An attribute for the External Identity attributes collection */
+export type ExternalIdentityAttribute = {
+    __typename?: 'ExternalIdentityAttribute'
+    /** The attribute metadata as JSON */
+    metadata: Maybe<Scalars['String']>
+    /** The attribute name */
+    name: Scalars['String']
+    /** The attribute value */
+    value: Scalars['String']
+}
+
 /** The connection type for ExternalIdentity. */
 export type ExternalIdentityConnection = {
     __typename?: 'ExternalIdentityConnection'
@@ -4639,6 +6347,8 @@ export type ExternalIdentityEdge = {
 /** SAML attributes for the External Identity */
 export type ExternalIdentitySamlAttributes = {
     __typename?: 'ExternalIdentitySamlAttributes'
+    /** SAML Identity attributes */
+    attributes: Array<ExternalIdentityAttribute>
     /** The emails associated with the SAML identity */
     emails: Maybe<Array<UserEmailMetadata>>
     /** Family name of the SAML identity */
@@ -4668,6 +6378,142 @@ export type ExternalIdentityScimAttributes = {
     username: Maybe<Scalars['String']>
 }
 
+/** A command to add a file at the given path with the given contents as part of a commit.  Any existing file at that that path will be replaced. */
+export type FileAddition = {
+    /** The path in the repository where the file will be located */
+    path: Scalars['String']
+    /** The base64 encoded contents of the file */
+    contents: Scalars['Base64String']
+}
+
+/**
+ * A description of a set of changes to a file tree to be made as part of
+ * a git commit, modeled as zero or more file `additions` and zero or more
+ * file `deletions`.
+ *
+ * Both fields are optional; omitting both will produce a commit with no
+ * file changes.
+ *
+ * `deletions` and `additions` describe changes to files identified
+ * by their path in the git tree using unix-style path separators, i.e.
+ * `/`.  The root of a git tree is an empty string, so paths are not
+ * slash-prefixed.
+ *
+ * `path` values must be unique across all `additions` and `deletions`
+ * provided.  Any duplication will result in a validation error.
+ *
+ * ### Encoding
+ *
+ * File contents must be provided in full for each `FileAddition`.
+ *
+ * The `contents` of a `FileAddition` must be encoded using RFC 4648
+ * compliant base64, i.e. correct padding is required and no characters
+ * outside the standard alphabet may be used.  Invalid base64
+ * encoding will be rejected with a validation error.
+ *
+ * The encoded contents may be binary.
+ *
+ * For text files, no assumptions are made about the character encoding of
+ * the file contents (after base64 decoding).  No charset transcoding or
+ * line-ending normalization will be performed; it is the client's
+ * responsibility to manage the character encoding of files they provide.
+ * However, for maximum compatibility we recommend using UTF-8 encoding
+ * and ensuring that all files in a repository use a consistent
+ * line-ending convention (`\n` or `\r\n`), and that all files end
+ * with a newline.
+ *
+ * ### Modeling file changes
+ *
+ * Each of the the five types of conceptual changes that can be made in a
+ * git commit can be described using the `FileChanges` type as follows:
+ *
+ * 1. New file addition: create file `hello world\n` at path `docs/README.txt`:
+ *
+ *        {
+ *          "additions" [
+ *            {
+ *              "path": "docs/README.txt",
+ *              "contents": base64encode("hello world\n")
+ *            }
+ *          ]
+ *        }
+ *
+ * 2. Existing file modification: change existing `docs/README.txt` to have new
+ *    content `new content here\n`:
+ *
+ *        {
+ *          "additions" [
+ *            {
+ *              "path": "docs/README.txt",
+ *              "contents": base64encode("new content here\n")
+ *            }
+ *          ]
+ *        }
+ *
+ * 3. Existing file deletion: remove existing file `docs/README.txt`.
+ *    Note that the path is required to exist -- specifying a
+ *    path that does not exist on the given branch will abort the
+ *    commit and return an error.
+ *
+ *        {
+ *          "deletions" [
+ *            {
+ *              "path": "docs/README.txt"
+ *            }
+ *          ]
+ *        }
+ *
+ *
+ * 4. File rename with no changes: rename `docs/README.txt` with
+ *    previous content `hello world\n` to the same content at
+ *    `newdocs/README.txt`:
+ *
+ *        {
+ *          "deletions" [
+ *            {
+ *              "path": "docs/README.txt",
+ *            }
+ *          ],
+ *          "additions" [
+ *            {
+ *              "path": "newdocs/README.txt",
+ *              "contents": base64encode("hello world\n")
+ *            }
+ *          ]
+ *        }
+ *
+ *
+ * 5. File rename with changes: rename `docs/README.txt` with
+ *    previous content `hello world\n` to a file at path
+ *    `newdocs/README.txt` with content `new contents\n`:
+ *
+ *        {
+ *          "deletions" [
+ *            {
+ *              "path": "docs/README.txt",
+ *            }
+ *          ],
+ *          "additions" [
+ *            {
+ *              "path": "newdocs/README.txt",
+ *              "contents": base64encode("new contents\n")
+ *            }
+ *          ]
+ *        }
+ */
+export type FileChanges = {
+    /** Files to delete. */
+    deletions: Maybe<Array<FileDeletion>>
+    /** File to add or change. */
+    additions: Maybe<Array<FileAddition>>
+}
+
+/** A command to delete the file at the given path as part of a commit. */
+export type FileDeletion = {
+    /** The path to delete */
+    path: Scalars['String']
+}
+
 /** The possible viewed states of a file . */
 export enum FileViewedState {
     /** The file has new changes since last viewed. */
@@ -4678,6 +6524,23 @@ export enum FileViewedState {
     Unviewed = 'UNVIEWED'
 }
 
+/** Autogenerated input type of FollowOrganization */
+export type FollowOrganizationInput = {
+    /** ID of the organization to follow. */
+    organizationId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of FollowOrganization */
+export type FollowOrganizationPayload = {
+    __typename?: 'FollowOrganizationPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The organization that was followed. */
+    organization: Maybe<Organization>
+}
+
 /** Autogenerated input type of FollowUser */
 export type FollowUserInput = {
     /** ID of the user to follow. */
@@ -4750,6 +6613,8 @@ export enum FundingPlatform {
     Issuehunt = 'ISSUEHUNT',
     /** Otechie funding platform. */
     Otechie = 'OTECHIE',
+    /** LFX Crowdfunding funding platform. */
+    LfxCrowdfunding = 'LFX_CROWDFUNDING',
     /** Custom funding platform. */
     Custom = 'CUSTOM'
 }
@@ -5120,7 +6985,7 @@ export enum GitSignatureState {
     ExpiredKey = 'EXPIRED_KEY',
     /** Valid signature, pending certificate revocation checking */
     OcspPending = 'OCSP_PENDING',
-    /** Valid siganture, though certificate revocation check failed */
+    /** Valid signature, though certificate revocation check failed */
     OcspError = 'OCSP_ERROR',
     /** The signing certificate or its chain could not be verified */
     BadCert = 'BAD_CERT',
@@ -5149,6 +7014,54 @@ export type GpgSignature = GitSignature & {
     wasSignedByGitHub: Scalars['Boolean']
 }
 
+/** Autogenerated input type of GrantEnterpriseOrganizationsMigratorRole */
+export type GrantEnterpriseOrganizationsMigratorRoleInput = {
+    /** The ID of the enterprise to which all organizations managed by it will be granted the migrator role. */
+    enterpriseId: Scalars['ID']
+    /** The login of the user to grant the migrator role */
+    login: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of GrantEnterpriseOrganizationsMigratorRole */
+export type GrantEnterpriseOrganizationsMigratorRolePayload = {
+    __typename?: 'GrantEnterpriseOrganizationsMigratorRolePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The organizations that had the migrator role applied to for the given user. */
+    organizations: Maybe<OrganizationConnection>
+}
+
+/** Autogenerated return type of GrantEnterpriseOrganizationsMigratorRole */
+export type GrantEnterpriseOrganizationsMigratorRolePayloadOrganizationsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** Autogenerated input type of GrantMigratorRole */
+export type GrantMigratorRoleInput = {
+    /** The ID of the organization that the user/team belongs to. */
+    organizationId: Scalars['ID']
+    /** The user login or Team slug to grant the migrator role. */
+    actor: Scalars['String']
+    /** Specifies the type of the actor, can be either USER or TEAM. */
+    actorType: ActorType
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of GrantMigratorRole */
+export type GrantMigratorRolePayload = {
+    __typename?: 'GrantMigratorRolePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** Did the operation succeed? */
+    success: Maybe<Scalars['Boolean']>
+}
+
 /** Represents a 'head_ref_deleted' event on a given pull request. */
 export type HeadRefDeletedEvent = Node & {
     __typename?: 'HeadRefDeletedEvent'
@@ -5307,8 +7220,16 @@ export enum IpAllowListEntryOrderField {
     AllowListValue = 'ALLOW_LIST_VALUE'
 }
 
+/** The possible values for the IP allow list configuration for installed GitHub Apps setting. */
+export enum IpAllowListForInstalledAppsEnabledSettingValue {
+    /** The setting is enabled for the owner. */
+    Enabled = 'ENABLED',
+    /** The setting is disabled for the owner. */
+    Disabled = 'DISABLED'
+}
+
 /** Types that can own an IP allow list. */
-export type IpAllowListOwner = Enterprise | Organization
+export type IpAllowListOwner = App | Enterprise | Organization
 
 /** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
 export type Issue = Node &
@@ -5322,7 +7243,9 @@ export type Issue = Node &
     Reactable &
     RepositoryNode &
     Subscribable &
-    UniformResourceLocatable & {
+    UniformResourceLocatable &
+    ProjectNextOwner &
+    ProjectV2Owner & {
         __typename?: 'Issue'
         /** Reason that the conversation was locked. */
         activeLockReason: Maybe<LockReason>
@@ -5361,6 +7284,8 @@ export type Issue = Node &
         id: Scalars['ID']
         /** Check if this comment was edited and includes an edit with the creation data */
         includesCreatedEdit: Scalars['Boolean']
+        /** Indicates whether or not this issue is currently pinned to the repository issues list */
+        isPinned: Maybe<Scalars['Boolean']>
         /** Is this issue read by the viewer */
         isReadByViewer: Maybe<Scalars['Boolean']>
         /** A list of labels associated with the object. */
@@ -5377,6 +7302,24 @@ export type Issue = Node &
         participants: UserConnection
         /** List of project cards associated with this issue. */
         projectCards: ProjectCardConnection
+        /** List of project items associated with this issue. */
+        projectItems: ProjectV2ItemConnection
+        /**
+         * Find a project by project (beta) number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNext: Maybe<ProjectNext>
+        /** List of project (beta) items associated with this issue. */
+        projectNextItems: ProjectNextItemConnection
+        /** Find a project by number. */
+        projectV2: Maybe<ProjectV2>
+        /**
+         * A list of projects (beta) under the owner.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectsNext: ProjectNextConnection
+        /** A list of projects under the owner. */
+        projectsV2: ProjectV2Connection
         /** Identifies when the comment was published at. */
         publishedAt: Maybe<Scalars['DateTime']>
         /** A list of reactions grouped by content left on the subject. */
@@ -5389,6 +7332,8 @@ export type Issue = Node &
         resourcePath: Scalars['URI']
         /** Identifies the state of the issue. */
         state: IssueState
+        /** Identifies the reason for the issue state. */
+        stateReason: Maybe<IssueStateReason>
         /**
          * A list of events, comments, commits, etc. associated with the issue.
          * @deprecated `timeline` will be removed Use Issue.timelineItems instead. Removal on 2020-10-01 UTC.
@@ -5398,6 +7343,14 @@ export type Issue = Node &
         timelineItems: IssueTimelineItemsConnection
         /** Identifies the issue title. */
         title: Scalars['String']
+        /** Identifies the issue title rendered to HTML. */
+        titleHTML: Scalars['String']
+        /** A list of issues that track this issue */
+        trackedInIssues: IssueConnection
+        /** A list of issues tracked inside the current issue */
+        trackedIssues: IssueConnection
+        /** The number of tracked issues for this issue */
+        trackedIssuesCount: Scalars['Int']
         /** Identifies the date and time when the object was last updated. */
         updatedAt: Scalars['DateTime']
         /** The HTTP URL for this issue */
@@ -5466,6 +7419,54 @@ export type IssueProjectCardsArgs = {
     archivedStates?: Maybe<Array<Maybe<ProjectCardArchivedState>>>
 }
 
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectItemsArgs = {
+    includeArchived?: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectNextItemsArgs = {
+    includeArchived?: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectV2Args = {
+    number: Scalars['Int']
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
 /** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
 export type IssueReactionsArgs = {
     after: Maybe<Scalars['String']>
@@ -5496,6 +7497,27 @@ export type IssueTimelineItemsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueTrackedInIssuesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueTrackedIssuesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
+export type IssueTrackedIssuesCountArgs = {
+    states: Maybe<Array<Maybe<TrackedIssueStates>>>
+}
+
 /** An Issue is a place to discuss ideas, enhancements, tasks, and bugs for a project. */
 export type IssueUserContentEditsArgs = {
     after: Maybe<Scalars['String']>
@@ -5504,6 +7526,14 @@ export type IssueUserContentEditsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** The possible state reasons of a closed issue. */
+export enum IssueClosedStateReason {
+    /** An issue that has been closed as completed */
+    Completed = 'COMPLETED',
+    /** An issue that has been closed as not planned */
+    NotPlanned = 'NOT_PLANNED'
+}
+
 /** Represents a comment on an Issue. */
 export type IssueComment = Node &
     Comment &
@@ -5682,8 +7712,10 @@ export type IssueFilters = {
     labels: Maybe<Array<Scalars['String']>>
     /** List issues where the given name is mentioned in the issue. */
     mentioned: Maybe<Scalars['String']>
-    /** List issues by given milestone argument. If an string representation of an integer is passed, it should refer to a milestone by its number field. Pass in `null` for issues with no milestone, and `*` for issues that are assigned to any milestone. */
+    /** List issues by given milestone argument. If an string representation of an integer is passed, it should refer to a milestone by its database ID. Pass in `null` for issues with no milestone, and `*` for issues that are assigned to any milestone. */
     milestone: Maybe<Scalars['String']>
+    /** List issues by given milestone argument. If an string representation of an integer is passed, it should refer to a milestone by its number field. Pass in `null` for issues with no milestone, and `*` for issues that are assigned to any milestone. */
+    milestoneNumber: Maybe<Scalars['String']>
     /** List issues that have been updated at or after the given date. */
     since: Maybe<Scalars['DateTime']>
     /** List issues filtered by the list of states given. */
@@ -5721,6 +7753,16 @@ export enum IssueState {
     Closed = 'CLOSED'
 }
 
+/** The possible state reasons of an issue. */
+export enum IssueStateReason {
+    /** An issue that has been reopened */
+    Reopened = 'REOPENED',
+    /** An issue that has been closed as not planned */
+    NotPlanned = 'NOT_PLANNED',
+    /** An issue that has been closed as completed */
+    Completed = 'COMPLETED'
+}
+
 /** A repository issue template. */
 export type IssueTemplate = {
     __typename?: 'IssueTemplate'
@@ -5786,6 +7828,7 @@ export type IssueTimelineItems =
     | CommentDeletedEvent
     | ConnectedEvent
     | ConvertedNoteToIssueEvent
+    | ConvertedToDiscussionEvent
     | CrossReferencedEvent
     | DemilestonedEvent
     | DisconnectedEvent
@@ -5857,6 +7900,8 @@ export enum IssueTimelineItemsItemType {
     ConnectedEvent = 'CONNECTED_EVENT',
     /** Represents a 'converted_note_to_issue' event on a given issue or pull request. */
     ConvertedNoteToIssueEvent = 'CONVERTED_NOTE_TO_ISSUE_EVENT',
+    /** Represents a 'converted_to_discussion' event on a given issue. */
+    ConvertedToDiscussionEvent = 'CONVERTED_TO_DISCUSSION_EVENT',
     /** Represents a 'demilestoned' event on a given issue or pull request. */
     DemilestonedEvent = 'DEMILESTONED_EVENT',
     /** Represents a 'disconnected' event on a given issue or pull request. */
@@ -5922,7 +7967,7 @@ export type JoinedGitHubContribution = Contribution & {
     user: User
 }
 
-/** A label for categorizing Issues or Milestones with a given Repository. */
+/** A label for categorizing Issues, Pull Requests, Milestones, or Discussions with a given Repository. */
 export type Label = Node & {
     __typename?: 'Label'
     /** Identifies the label color. */
@@ -5950,7 +7995,7 @@ export type Label = Node & {
     url: Scalars['URI']
 }
 
-/** A label for categorizing Issues or Milestones with a given Repository. */
+/** A label for categorizing Issues, Pull Requests, Milestones, or Discussions with a given Repository. */
 export type LabelIssuesArgs = {
     orderBy: Maybe<IssueOrder>
     labels: Maybe<Array<Scalars['String']>>
@@ -5962,7 +8007,7 @@ export type LabelIssuesArgs = {
     last: Maybe<Scalars['Int']>
 }
 
-/** A label for categorizing Issues or Milestones with a given Repository. */
+/** A label for categorizing Issues, Pull Requests, Milestones, or Discussions with a given Repository. */
 export type LabelPullRequestsArgs = {
     states: Maybe<Array<PullRequestState>>
     labels: Maybe<Array<Scalars['String']>>
@@ -6218,6 +8263,8 @@ export type Mannequin = Node &
         __typename?: 'Mannequin'
         /** A URL pointing to the GitHub App's public avatar. */
         avatarUrl: Scalars['URI']
+        /** The user that has claimed the data attributed to this mannequin. */
+        claimant: Maybe<User>
         /** Identifies the date and time when the object was created. */
         createdAt: Scalars['DateTime']
         /** Identifies the primary key from the database. */
@@ -6240,6 +8287,23 @@ export type MannequinAvatarUrlArgs = {
     size: Maybe<Scalars['Int']>
 }
 
+/** Autogenerated input type of MarkDiscussionCommentAsAnswer */
+export type MarkDiscussionCommentAsAnswerInput = {
+    /** The Node ID of the discussion comment to mark as an answer. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of MarkDiscussionCommentAsAnswer */
+export type MarkDiscussionCommentAsAnswerPayload = {
+    __typename?: 'MarkDiscussionCommentAsAnswerPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The discussion that includes the chosen comment. */
+    discussion: Maybe<Discussion>
+}
+
 /** Autogenerated input type of MarkFileAsViewed */
 export type MarkFileAsViewedInput = {
     /** The Node ID of the pull request. */
@@ -6733,6 +8797,71 @@ export type MergedEvent = Node &
         url: Scalars['URI']
     }
 
+/** Represents an Octoshift migration. */
+export type Migration = {
+    /** The Octoshift migration flag to continue on error. */
+    continueOnError: Scalars['Boolean']
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The reason the migration failed. */
+    failureReason: Maybe<Scalars['String']>
+    id: Scalars['ID']
+    /** The URL for the migration log (expires 1 day after migration completes). */
+    migrationLogUrl: Maybe<Scalars['URI']>
+    /** The Octoshift migration source. */
+    migrationSource: MigrationSource
+    /** The target repository name. */
+    repositoryName: Scalars['String']
+    /** The Octoshift migration source URL. */
+    sourceUrl: Scalars['URI']
+    /** The Octoshift migration state. */
+    state: MigrationState
+}
+
+/** An Octoshift migration source. */
+export type MigrationSource = Node & {
+    __typename?: 'MigrationSource'
+    id: Scalars['ID']
+    /** The Octoshift migration source name. */
+    name: Scalars['String']
+    /** The Octoshift migration source type. */
+    type: MigrationSourceType
+    /** The Octoshift migration source URL. */
+    url: Scalars['URI']
+}
+
+/** Represents the different Octoshift migration sources. */
+export enum MigrationSourceType {
+    /** A GitLab migration source. */
+    Gitlab = 'GITLAB',
+    /** An Azure DevOps migration source. */
+    AzureDevops = 'AZURE_DEVOPS',
+    /** A Bitbucket Server migration source. */
+    BitbucketServer = 'BITBUCKET_SERVER',
+    /** A GitHub migration source. */
+    Github = 'GITHUB',
+    /** A GitHub Migration API source. */
+    GithubArchive = 'GITHUB_ARCHIVE'
+}
+
+/** The Octoshift migration state. */
+export enum MigrationState {
+    /** The Octoshift migration has not started. */
+    NotStarted = 'NOT_STARTED',
+    /** The Octoshift migration has been queued. */
+    Queued = 'QUEUED',
+    /** The Octoshift migration is in progress. */
+    InProgress = 'IN_PROGRESS',
+    /** The Octoshift migration has succeeded. */
+    Succeeded = 'SUCCEEDED',
+    /** The Octoshift migration has failed. */
+    Failed = 'FAILED',
+    /** The Octoshift migration needs to have its credentials validated. */
+    PendingValidation = 'PENDING_VALIDATION',
+    /** The Octoshift migration has invalid credentials. */
+    FailedValidation = 'FAILED_VALIDATION'
+}
+
 /** Represents a Milestone object on a given repository. */
 export type Milestone = Node &
     Closable &
@@ -6755,7 +8884,7 @@ export type Milestone = Node &
         issues: IssueConnection
         /** Identifies the number of the milestone. */
         number: Scalars['Int']
-        /** Indentifies the percentage complete for the milestone */
+        /** Identifies the percentage complete for the milestone */
         progressPercentage: Scalars['Float']
         /** A list of pull requests associated with the milestone. */
         pullRequests: PullRequestConnection
@@ -6949,6 +9078,8 @@ export type MovedColumnsInProjectEvent = Node & {
 /** The root query for implementing GraphQL mutations. */
 export type Mutation = {
     __typename?: 'Mutation'
+    /** Clear all of a customer's queued migrations */
+    abortQueuedMigrations: Maybe<AbortQueuedMigrationsPayload>
     /** Accepts a pending invitation for a user to become an administrator of an enterprise. */
     acceptEnterpriseAdministratorInvitation: Maybe<AcceptEnterpriseAdministratorInvitationPayload>
     /** Applies a suggested topic to the repository. */
@@ -6957,6 +9088,10 @@ export type Mutation = {
     addAssigneesToAssignable: Maybe<AddAssigneesToAssignablePayload>
     /** Adds a comment to an Issue or Pull Request. */
     addComment: Maybe<AddCommentPayload>
+    /** Adds a comment to a Discussion, possibly as a reply to another comment. */
+    addDiscussionComment: Maybe<AddDiscussionCommentPayload>
+    /** Vote for an option in a discussion poll. */
+    addDiscussionPollVote: Maybe<AddDiscussionPollVotePayload>
     /** Adds a support entitlement to an enterprise member. */
     addEnterpriseSupportEntitlement: Maybe<AddEnterpriseSupportEntitlementPayload>
     /** Adds labels to a labelable object. */
@@ -6965,6 +9100,20 @@ export type Mutation = {
     addProjectCard: Maybe<AddProjectCardPayload>
     /** Adds a column to a Project. */
     addProjectColumn: Maybe<AddProjectColumnPayload>
+    /**
+     * Creates a new draft issue and add it to a Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    addProjectDraftIssue: Maybe<AddProjectDraftIssuePayload>
+    /**
+     * Adds an existing item (Issue or PullRequest) to a Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    addProjectNextItem: Maybe<AddProjectNextItemPayload>
+    /** Creates a new draft issue and add it to a Project. */
+    addProjectV2DraftIssue: Maybe<AddProjectV2DraftIssuePayload>
+    /** Links an existing content instance to a Project. */
+    addProjectV2ItemById: Maybe<AddProjectV2ItemByIdPayload>
     /** Adds a review to a Pull Request. */
     addPullRequestReview: Maybe<AddPullRequestReviewPayload>
     /** Adds a comment to a review. */
@@ -6975,10 +9124,20 @@ export type Mutation = {
     addReaction: Maybe<AddReactionPayload>
     /** Adds a star to a Starrable. */
     addStar: Maybe<AddStarPayload>
+    /** Add an upvote to a discussion or discussion comment. */
+    addUpvote: Maybe<AddUpvotePayload>
+    /** Adds a verifiable domain to an owning account. */
+    addVerifiableDomain: Maybe<AddVerifiableDomainPayload>
+    /** Approve all pending deployments under one or more environments */
+    approveDeployments: Maybe<ApproveDeploymentsPayload>
+    /** Approve a verifiable domain for notification delivery. */
+    approveVerifiableDomain: Maybe<ApproveVerifiableDomainPayload>
     /** Marks a repository as archived. */
     archiveRepository: Maybe<ArchiveRepositoryPayload>
     /** Cancels a pending invitation for an administrator to join an enterprise. */
     cancelEnterpriseAdminInvitation: Maybe<CancelEnterpriseAdminInvitationPayload>
+    /** Cancel an active sponsorship. */
+    cancelSponsorship: Maybe<CancelSponsorshipPayload>
     /** Update your status on GitHub. */
     changeUserStatus: Maybe<ChangeUserStatusPayload>
     /** Clears all labels from a labelable object. */
@@ -6993,26 +9152,85 @@ export type Mutation = {
     closePullRequest: Maybe<ClosePullRequestPayload>
     /** Convert a project note card to one associated with a newly created issue. */
     convertProjectCardNoteToIssue: Maybe<ConvertProjectCardNoteToIssuePayload>
+    /** Converts a pull request to draft */
+    convertPullRequestToDraft: Maybe<ConvertPullRequestToDraftPayload>
     /** Create a new branch protection rule */
     createBranchProtectionRule: Maybe<CreateBranchProtectionRulePayload>
     /** Create a check run. */
     createCheckRun: Maybe<CreateCheckRunPayload>
     /** Create a check suite */
     createCheckSuite: Maybe<CreateCheckSuitePayload>
+    /**
+     * Appends a commit to the given branch as the authenticated user.
+     *
+     * This mutation creates a commit whose parent is the HEAD of the provided
+     * branch and also updates that branch to point to the new commit.
+     * It can be thought of as similar to `git commit`.
+     *
+     * ### Locating a Branch
+     *
+     * Commits are appended to a `branch` of type `Ref`.
+     * This must refer to a git branch (i.e.  the fully qualified path must
+     * begin with `refs/heads/`, although including this prefix is optional.
+     *
+     * Callers may specify the `branch` to commit to either by its global node
+     * ID or by passing both of `repositoryNameWithOwner` and `refName`.  For
+     * more details see the documentation for `CommittableBranch`.
+     *
+     * ### Describing Changes
+     *
+     * `fileChanges` are specified as a `FilesChanges` object describing
+     * `FileAdditions` and `FileDeletions`.
+     *
+     * Please see the documentation for `FileChanges` for more information on
+     * how to use this argument to describe any set of file changes.
+     *
+     * ### Authorship
+     *
+     * Similar to the web commit interface, this mutation does not support
+     * specifying the author or committer of the commit and will not add
+     * support for this in the future.
+     *
+     * A commit created by a successful execution of this mutation will be
+     * authored by the owner of the credential which authenticates the API
+     * request.  The committer will be identical to that of commits authored
+     * using the web interface.
+     *
+     * If you need full control over author and committer information, please
+     * use the Git Database REST API instead.
+     *
+     * ### Commit Signing
+     *
+     * Commits made using this mutation are automatically signed by GitHub if
+     * supported and will be marked as verified in the user interface.
+     */
+    createCommitOnBranch: Maybe<CreateCommitOnBranchPayload>
+    /** Create a discussion. */
+    createDiscussion: Maybe<CreateDiscussionPayload>
     /** Creates an organization as part of an enterprise account. */
     createEnterpriseOrganization: Maybe<CreateEnterpriseOrganizationPayload>
+    /** Creates an environment or simply returns it if already exists. */
+    createEnvironment: Maybe<CreateEnvironmentPayload>
     /** Creates a new IP allow list entry. */
     createIpAllowListEntry: Maybe<CreateIpAllowListEntryPayload>
     /** Creates a new issue. */
     createIssue: Maybe<CreateIssuePayload>
+    /** Creates an Octoshift migration source. */
+    createMigrationSource: Maybe<CreateMigrationSourcePayload>
     /** Creates a new project. */
     createProject: Maybe<CreateProjectPayload>
+    /** Creates a new project. */
+    createProjectV2: Maybe<CreateProjectV2Payload>
     /** Create a new pull request */
     createPullRequest: Maybe<CreatePullRequestPayload>
     /** Create a new Git Ref. */
     createRef: Maybe<CreateRefPayload>
     /** Create a new repository. */
     createRepository: Maybe<CreateRepositoryPayload>
+    /** Create a new payment tier for your GitHub Sponsors profile. */
+    createSponsorsTier: Maybe<CreateSponsorsTierPayload>
+    /** Start a new sponsorship of a maintainer in GitHub Sponsors, or reactivate a past sponsorship. */
+    createSponsorship: Maybe<CreateSponsorshipPayload>
     /** Creates a new team discussion. */
     createTeamDiscussion: Maybe<CreateTeamDiscussionPayload>
     /** Creates a new team discussion comment. */
@@ -7023,6 +9241,12 @@ export type Mutation = {
     deleteBranchProtectionRule: Maybe<DeleteBranchProtectionRulePayload>
     /** Deletes a deployment. */
     deleteDeployment: Maybe<DeleteDeploymentPayload>
+    /** Delete a discussion and all of its replies. */
+    deleteDiscussion: Maybe<DeleteDiscussionPayload>
+    /** Delete a discussion comment. If it has replies, wipe it instead. */
+    deleteDiscussionComment: Maybe<DeleteDiscussionCommentPayload>
+    /** Deletes an environment */
+    deleteEnvironment: Maybe<DeleteEnvironmentPayload>
     /** Deletes an IP allow list entry. */
     deleteIpAllowListEntry: Maybe<DeleteIpAllowListEntryPayload>
     /** Deletes an Issue object. */
@@ -7035,6 +9259,13 @@ export type Mutation = {
     deleteProjectCard: Maybe<DeleteProjectCardPayload>
     /** Deletes a project column. */
     deleteProjectColumn: Maybe<DeleteProjectColumnPayload>
+    /**
+     * Deletes an item from a Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    deleteProjectNextItem: Maybe<DeleteProjectNextItemPayload>
+    /** Deletes an item from a Project. */
+    deleteProjectV2Item: Maybe<DeleteProjectV2ItemPayload>
     /** Deletes a pull request review. */
     deletePullRequestReview: Maybe<DeletePullRequestReviewPayload>
     /** Deletes a pull request review comment. */
@@ -7045,16 +9276,32 @@ export type Mutation = {
     deleteTeamDiscussion: Maybe<DeleteTeamDiscussionPayload>
     /** Deletes a team discussion comment. */
     deleteTeamDiscussionComment: Maybe<DeleteTeamDiscussionCommentPayload>
+    /** Deletes a verifiable domain. */
+    deleteVerifiableDomain: Maybe<DeleteVerifiableDomainPayload>
+    /** Disable auto merge on the given pull request */
+    disablePullRequestAutoMerge: Maybe<DisablePullRequestAutoMergePayload>
     /** Dismisses an approved or rejected pull request review. */
     dismissPullRequestReview: Maybe<DismissPullRequestReviewPayload>
+    /** Dismisses the Dependabot alert. */
+    dismissRepositoryVulnerabilityAlert: Maybe<DismissRepositoryVulnerabilityAlertPayload>
+    /** Enable the default auto-merge on a pull request. */
+    enablePullRequestAutoMerge: Maybe<EnablePullRequestAutoMergePayload>
+    /** Follow an organization. */
+    followOrganization: Maybe<FollowOrganizationPayload>
     /** Follow a user. */
     followUser: Maybe<FollowUserPayload>
+    /** Grant the migrator role to a user for all organizations under an enterprise account. */
+    grantEnterpriseOrganizationsMigratorRole: Maybe<GrantEnterpriseOrganizationsMigratorRolePayload>
+    /** Grant the migrator role to a user or a team. */
+    grantMigratorRole: Maybe<GrantMigratorRolePayload>
     /** Invite someone to become an administrator of the enterprise. */
     inviteEnterpriseAdmin: Maybe<InviteEnterpriseAdminPayload>
     /** Creates a repository link for a project. */
     linkRepositoryToProject: Maybe<LinkRepositoryToProjectPayload>
     /** Lock a lockable object */
     lockLockable: Maybe<LockLockablePayload>
+    /** Mark a discussion comment as the chosen answer for discussions in an answerable category. */
+    markDiscussionCommentAsAnswer: Maybe<MarkDiscussionCommentAsAnswerPayload>
     /** Mark a pull request file as viewed */
     markFileAsViewed: Maybe<MarkFileAsViewedPayload>
     /** Marks a pull request ready for review. */
@@ -7069,8 +9316,14 @@ export type Mutation = {
     moveProjectCard: Maybe<MoveProjectCardPayload>
     /** Moves a project column to another place. */
     moveProjectColumn: Maybe<MoveProjectColumnPayload>
+    /** Pin an issue to a repository */
+    pinIssue: Maybe<PinIssuePayload>
     /** Regenerates the identity provider recovery codes for an enterprise */
     regenerateEnterpriseIdentityProviderRecoveryCodes: Maybe<RegenerateEnterpriseIdentityProviderRecoveryCodesPayload>
+    /** Regenerates a verifiable domain's verification token. */
+    regenerateVerifiableDomainToken: Maybe<RegenerateVerifiableDomainTokenPayload>
+    /** Reject all pending deployments under one or more environments */
+    rejectDeployments: Maybe<RejectDeploymentsPayload>
     /** Removes assignees from an assignable object. */
     removeAssigneesFromAssignable: Maybe<RemoveAssigneesFromAssignablePayload>
     /** Removes an administrator from the enterprise. */
@@ -7089,6 +9342,8 @@ export type Mutation = {
     removeReaction: Maybe<RemoveReactionPayload>
     /** Removes a star from a Starrable. */
     removeStar: Maybe<RemoveStarPayload>
+    /** Remove an upvote to a discussion or discussion comment. */
+    removeUpvote: Maybe<RemoveUpvotePayload>
     /** Reopen a issue. */
     reopenIssue: Maybe<ReopenIssuePayload>
     /** Reopen a pull request. */
@@ -7099,6 +9354,10 @@ export type Mutation = {
     rerequestCheckSuite: Maybe<RerequestCheckSuitePayload>
     /** Marks a review thread as resolved. */
     resolveReviewThread: Maybe<ResolveReviewThreadPayload>
+    /** Revoke the migrator role to a user for all organizations under an enterprise account. */
+    revokeEnterpriseOrganizationsMigratorRole: Maybe<RevokeEnterpriseOrganizationsMigratorRolePayload>
+    /** Revoke the migrator role from a user or a team. */
+    revokeMigratorRole: Maybe<RevokeMigratorRolePayload>
     /** Creates or updates the identity provider for an enterprise. */
     setEnterpriseIdentityProvider: Maybe<SetEnterpriseIdentityProviderPayload>
     /** Set an organization level interaction limit for an organization's public repositories. */
@@ -7107,24 +9366,32 @@ export type Mutation = {
     setRepositoryInteractionLimit: Maybe<SetRepositoryInteractionLimitPayload>
     /** Set a user level interaction limit for an user's public repositories. */
     setUserInteractionLimit: Maybe<SetUserInteractionLimitPayload>
+    /** Start a repository migration. */
+    startRepositoryMigration: Maybe<StartRepositoryMigrationPayload>
     /** Submits a pending pull request review. */
     submitPullRequestReview: Maybe<SubmitPullRequestReviewPayload>
     /** Transfer an issue to a different repository */
     transferIssue: Maybe<TransferIssuePayload>
     /** Unarchives a repository. */
     unarchiveRepository: Maybe<UnarchiveRepositoryPayload>
+    /** Unfollow an organization. */
+    unfollowOrganization: Maybe<UnfollowOrganizationPayload>
     /** Unfollow a user. */
     unfollowUser: Maybe<UnfollowUserPayload>
     /** Deletes a repository link from a project. */
     unlinkRepositoryFromProject: Maybe<UnlinkRepositoryFromProjectPayload>
     /** Unlock a lockable object */
     unlockLockable: Maybe<UnlockLockablePayload>
+    /** Unmark a discussion comment as the chosen answer for discussions in an answerable category. */
+    unmarkDiscussionCommentAsAnswer: Maybe<UnmarkDiscussionCommentAsAnswerPayload>
     /** Unmark a pull request file as viewed */
     unmarkFileAsViewed: Maybe<UnmarkFileAsViewedPayload>
     /** Unmark an issue as a duplicate of another issue. */
     unmarkIssueAsDuplicate: Maybe<UnmarkIssueAsDuplicatePayload>
     /** Unminimizes a comment on an Issue, Commit, Pull Request, or Gist */
     unminimizeComment: Maybe<UnminimizeCommentPayload>
+    /** Unpin a pinned issue from a repository */
+    unpinIssue: Maybe<UnpinIssuePayload>
     /** Marks a review thread as unresolved. */
     unresolveReviewThread: Maybe<UnresolveReviewThreadPayload>
     /** Create a new branch protection rule */
@@ -7133,11 +9400,15 @@ export type Mutation = {
     updateCheckRun: Maybe<UpdateCheckRunPayload>
     /** Modifies the settings of an existing check suite */
     updateCheckSuitePreferences: Maybe<UpdateCheckSuitePreferencesPayload>
+    /** Update a discussion */
+    updateDiscussion: Maybe<UpdateDiscussionPayload>
+    /** Update the contents of a comment on a Discussion */
+    updateDiscussionComment: Maybe<UpdateDiscussionCommentPayload>
     /** Updates the role of an enterprise administrator. */
     updateEnterpriseAdministratorRole: Maybe<UpdateEnterpriseAdministratorRolePayload>
     /** Sets whether private repository forks are enabled for an enterprise. */
     updateEnterpriseAllowPrivateRepositoryForkingSetting: Maybe<UpdateEnterpriseAllowPrivateRepositoryForkingSettingPayload>
-    /** Sets the default repository permission for organizations in an enterprise. */
+    /** Sets the base repository permission for organizations in an enterprise. */
     updateEnterpriseDefaultRepositoryPermissionSetting: Maybe<UpdateEnterpriseDefaultRepositoryPermissionSettingPayload>
     /** Sets whether organization members with admin permissions on a repository can change repository visibility. */
     updateEnterpriseMembersCanChangeRepositoryVisibilitySetting: Maybe<UpdateEnterpriseMembersCanChangeRepositoryVisibilitySettingPayload>
@@ -7157,6 +9428,8 @@ export type Mutation = {
     updateEnterpriseMembersCanViewDependencyInsightsSetting: Maybe<UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload>
     /** Sets whether organization projects are enabled for an enterprise. */
     updateEnterpriseOrganizationProjectsSetting: Maybe<UpdateEnterpriseOrganizationProjectsSettingPayload>
+    /** Updates the role of an enterprise owner with an organization. */
+    updateEnterpriseOwnerOrganizationRole: Maybe<UpdateEnterpriseOwnerOrganizationRolePayload>
     /** Updates an enterprise's profile. */
     updateEnterpriseProfile: Maybe<UpdateEnterpriseProfilePayload>
     /** Sets whether repository projects are enabled for a enterprise. */
@@ -7165,22 +9438,55 @@ export type Mutation = {
     updateEnterpriseTeamDiscussionsSetting: Maybe<UpdateEnterpriseTeamDiscussionsSettingPayload>
     /** Sets whether two factor authentication is required for all users in an enterprise. */
     updateEnterpriseTwoFactorAuthenticationRequiredSetting: Maybe<UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload>
+    /** Updates an environment. */
+    updateEnvironment: Maybe<UpdateEnvironmentPayload>
     /** Sets whether an IP allow list is enabled on an owner. */
     updateIpAllowListEnabledSetting: Maybe<UpdateIpAllowListEnabledSettingPayload>
     /** Updates an IP allow list entry. */
     updateIpAllowListEntry: Maybe<UpdateIpAllowListEntryPayload>
+    /** Sets whether IP allow list configuration for installed GitHub Apps is enabled on an owner. */
+    updateIpAllowListForInstalledAppsEnabledSetting: Maybe<UpdateIpAllowListForInstalledAppsEnabledSettingPayload>
     /** Updates an Issue. */
     updateIssue: Maybe<UpdateIssuePayload>
     /** Updates an IssueComment object. */
     updateIssueComment: Maybe<UpdateIssueCommentPayload>
+    /** Update the setting to restrict notifications to only verified or approved domains available to an owner. */
+    updateNotificationRestrictionSetting: Maybe<UpdateNotificationRestrictionSettingPayload>
+    /** Sets whether private repository forks are enabled for an organization. */
+    updateOrganizationAllowPrivateRepositoryForkingSetting: Maybe<UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload>
     /** Updates an existing project. */
     updateProject: Maybe<UpdateProjectPayload>
     /** Updates an existing project card. */
     updateProjectCard: Maybe<UpdateProjectCardPayload>
     /** Updates an existing project column. */
     updateProjectColumn: Maybe<UpdateProjectColumnPayload>
+    /**
+     * Updates a draft issue within a Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updateProjectDraftIssue: Maybe<UpdateProjectDraftIssuePayload>
+    /**
+     * Updates an existing project (beta).
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updateProjectNext: Maybe<UpdateProjectNextPayload>
+    /**
+     * Updates a field of an item from a Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updateProjectNextItemField: Maybe<UpdateProjectNextItemFieldPayload>
+    /** Updates an existing project (beta). */
+    updateProjectV2: Maybe<UpdateProjectV2Payload>
+    /** Updates a draft issue within a Project. */
+    updateProjectV2DraftIssue: Maybe<UpdateProjectV2DraftIssuePayload>
+    /** This mutation updates the value of a field for an item in a Project. Currently only single-select, text, number, date, and iteration fields are supported. */
+    updateProjectV2ItemFieldValue: Maybe<UpdateProjectV2ItemFieldValuePayload>
+    /** This mutation updates the position of the item in the project, where the position represents the priority of an item. */
+    updateProjectV2ItemPosition: Maybe<UpdateProjectV2ItemPositionPayload>
     /** Update a pull request */
     updatePullRequest: Maybe<UpdatePullRequestPayload>
+    /** Merge or Rebase HEAD from upstream branch into pull request branch */
+    updatePullRequestBranch: Maybe<UpdatePullRequestBranchPayload>
     /** Updates the body of a pull request review. */
     updatePullRequestReview: Maybe<UpdatePullRequestReviewPayload>
     /** Updates a pull request review comment. */
@@ -7189,14 +9495,25 @@ export type Mutation = {
     updateRef: Maybe<UpdateRefPayload>
     /** Update information about a repository. */
     updateRepository: Maybe<UpdateRepositoryPayload>
+    /** Change visibility of your sponsorship and opt in or out of email updates from the maintainer. */
+    updateSponsorshipPreferences: Maybe<UpdateSponsorshipPreferencesPayload>
     /** Updates the state for subscribable subjects. */
     updateSubscription: Maybe<UpdateSubscriptionPayload>
     /** Updates a team discussion. */
     updateTeamDiscussion: Maybe<UpdateTeamDiscussionPayload>
     /** Updates a discussion comment. */
     updateTeamDiscussionComment: Maybe<UpdateTeamDiscussionCommentPayload>
+    /** Update team repository. */
+    updateTeamsRepository: Maybe<UpdateTeamsRepositoryPayload>
     /** Replaces the repository's topics with the given topics. */
     updateTopics: Maybe<UpdateTopicsPayload>
+    /** Verify that a verifiable domain has the expected DNS record. */
+    verifyVerifiableDomain: Maybe<VerifyVerifiableDomainPayload>
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAbortQueuedMigrationsArgs = {
+    input: AbortQueuedMigrationsInput
 }
 
 /** The root query for implementing GraphQL mutations. */
@@ -7219,6 +9536,16 @@ export type MutationAddCommentArgs = {
     input: AddCommentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddDiscussionCommentArgs = {
+    input: AddDiscussionCommentInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddDiscussionPollVoteArgs = {
+    input: AddDiscussionPollVoteInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationAddEnterpriseSupportEntitlementArgs = {
     input: AddEnterpriseSupportEntitlementInput
@@ -7239,6 +9566,26 @@ export type MutationAddProjectColumnArgs = {
     input: AddProjectColumnInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddProjectDraftIssueArgs = {
+    input: AddProjectDraftIssueInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddProjectNextItemArgs = {
+    input: AddProjectNextItemInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddProjectV2DraftIssueArgs = {
+    input: AddProjectV2DraftIssueInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddProjectV2ItemByIdArgs = {
+    input: AddProjectV2ItemByIdInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationAddPullRequestReviewArgs = {
     input: AddPullRequestReviewInput
@@ -7264,6 +9611,26 @@ export type MutationAddStarArgs = {
     input: AddStarInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddUpvoteArgs = {
+    input: AddUpvoteInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationAddVerifiableDomainArgs = {
+    input: AddVerifiableDomainInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationApproveDeploymentsArgs = {
+    input: ApproveDeploymentsInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationApproveVerifiableDomainArgs = {
+    input: ApproveVerifiableDomainInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationArchiveRepositoryArgs = {
     input: ArchiveRepositoryInput
@@ -7274,6 +9641,11 @@ export type MutationCancelEnterpriseAdminInvitationArgs = {
     input: CancelEnterpriseAdminInvitationInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCancelSponsorshipArgs = {
+    input: CancelSponsorshipInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationChangeUserStatusArgs = {
     input: ChangeUserStatusInput
@@ -7309,6 +9681,11 @@ export type MutationConvertProjectCardNoteToIssueArgs = {
     input: ConvertProjectCardNoteToIssueInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationConvertPullRequestToDraftArgs = {
+    input: ConvertPullRequestToDraftInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreateBranchProtectionRuleArgs = {
     input: CreateBranchProtectionRuleInput
@@ -7324,11 +9701,26 @@ export type MutationCreateCheckSuiteArgs = {
     input: CreateCheckSuiteInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateCommitOnBranchArgs = {
+    input: CreateCommitOnBranchInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateDiscussionArgs = {
+    input: CreateDiscussionInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreateEnterpriseOrganizationArgs = {
     input: CreateEnterpriseOrganizationInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateEnvironmentArgs = {
+    input: CreateEnvironmentInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreateIpAllowListEntryArgs = {
     input: CreateIpAllowListEntryInput
@@ -7339,11 +9731,21 @@ export type MutationCreateIssueArgs = {
     input: CreateIssueInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateMigrationSourceArgs = {
+    input: CreateMigrationSourceInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreateProjectArgs = {
     input: CreateProjectInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateProjectV2Args = {
+    input: CreateProjectV2Input
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreatePullRequestArgs = {
     input: CreatePullRequestInput
@@ -7359,6 +9761,16 @@ export type MutationCreateRepositoryArgs = {
     input: CreateRepositoryInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateSponsorsTierArgs = {
+    input: CreateSponsorsTierInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationCreateSponsorshipArgs = {
+    input: CreateSponsorshipInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationCreateTeamDiscussionArgs = {
     input: CreateTeamDiscussionInput
@@ -7384,6 +9796,21 @@ export type MutationDeleteDeploymentArgs = {
     input: DeleteDeploymentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteDiscussionArgs = {
+    input: DeleteDiscussionInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteDiscussionCommentArgs = {
+    input: DeleteDiscussionCommentInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteEnvironmentArgs = {
+    input: DeleteEnvironmentInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationDeleteIpAllowListEntryArgs = {
     input: DeleteIpAllowListEntryInput
@@ -7414,6 +9841,16 @@ export type MutationDeleteProjectColumnArgs = {
     input: DeleteProjectColumnInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteProjectNextItemArgs = {
+    input: DeleteProjectNextItemInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteProjectV2ItemArgs = {
+    input: DeleteProjectV2ItemInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationDeletePullRequestReviewArgs = {
     input: DeletePullRequestReviewInput
@@ -7439,16 +9876,51 @@ export type MutationDeleteTeamDiscussionCommentArgs = {
     input: DeleteTeamDiscussionCommentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationDeleteVerifiableDomainArgs = {
+    input: DeleteVerifiableDomainInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationDisablePullRequestAutoMergeArgs = {
+    input: DisablePullRequestAutoMergeInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationDismissPullRequestReviewArgs = {
     input: DismissPullRequestReviewInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationDismissRepositoryVulnerabilityAlertArgs = {
+    input: DismissRepositoryVulnerabilityAlertInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationEnablePullRequestAutoMergeArgs = {
+    input: EnablePullRequestAutoMergeInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationFollowOrganizationArgs = {
+    input: FollowOrganizationInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationFollowUserArgs = {
     input: FollowUserInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationGrantEnterpriseOrganizationsMigratorRoleArgs = {
+    input: GrantEnterpriseOrganizationsMigratorRoleInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationGrantMigratorRoleArgs = {
+    input: GrantMigratorRoleInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationInviteEnterpriseAdminArgs = {
     input: InviteEnterpriseAdminInput
@@ -7464,6 +9936,11 @@ export type MutationLockLockableArgs = {
     input: LockLockableInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationMarkDiscussionCommentAsAnswerArgs = {
+    input: MarkDiscussionCommentAsAnswerInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationMarkFileAsViewedArgs = {
     input: MarkFileAsViewedInput
@@ -7499,11 +9976,26 @@ export type MutationMoveProjectColumnArgs = {
     input: MoveProjectColumnInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationPinIssueArgs = {
+    input: PinIssueInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationRegenerateEnterpriseIdentityProviderRecoveryCodesArgs = {
     input: RegenerateEnterpriseIdentityProviderRecoveryCodesInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationRegenerateVerifiableDomainTokenArgs = {
+    input: RegenerateVerifiableDomainTokenInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationRejectDeploymentsArgs = {
+    input: RejectDeploymentsInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationRemoveAssigneesFromAssignableArgs = {
     input: RemoveAssigneesFromAssignableInput
@@ -7549,6 +10041,11 @@ export type MutationRemoveStarArgs = {
     input: RemoveStarInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationRemoveUpvoteArgs = {
+    input: RemoveUpvoteInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationReopenIssueArgs = {
     input: ReopenIssueInput
@@ -7574,6 +10071,16 @@ export type MutationResolveReviewThreadArgs = {
     input: ResolveReviewThreadInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationRevokeEnterpriseOrganizationsMigratorRoleArgs = {
+    input: RevokeEnterpriseOrganizationsMigratorRoleInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationRevokeMigratorRoleArgs = {
+    input: RevokeMigratorRoleInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationSetEnterpriseIdentityProviderArgs = {
     input: SetEnterpriseIdentityProviderInput
@@ -7594,6 +10101,11 @@ export type MutationSetUserInteractionLimitArgs = {
     input: SetUserInteractionLimitInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationStartRepositoryMigrationArgs = {
+    input: StartRepositoryMigrationInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationSubmitPullRequestReviewArgs = {
     input: SubmitPullRequestReviewInput
@@ -7609,6 +10121,11 @@ export type MutationUnarchiveRepositoryArgs = {
     input: UnarchiveRepositoryInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUnfollowOrganizationArgs = {
+    input: UnfollowOrganizationInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUnfollowUserArgs = {
     input: UnfollowUserInput
@@ -7624,6 +10141,11 @@ export type MutationUnlockLockableArgs = {
     input: UnlockLockableInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUnmarkDiscussionCommentAsAnswerArgs = {
+    input: UnmarkDiscussionCommentAsAnswerInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUnmarkFileAsViewedArgs = {
     input: UnmarkFileAsViewedInput
@@ -7639,6 +10161,11 @@ export type MutationUnminimizeCommentArgs = {
     input: UnminimizeCommentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUnpinIssueArgs = {
+    input: UnpinIssueInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUnresolveReviewThreadArgs = {
     input: UnresolveReviewThreadInput
@@ -7659,6 +10186,16 @@ export type MutationUpdateCheckSuitePreferencesArgs = {
     input: UpdateCheckSuitePreferencesInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateDiscussionArgs = {
+    input: UpdateDiscussionInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateDiscussionCommentArgs = {
+    input: UpdateDiscussionCommentInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateEnterpriseAdministratorRoleArgs = {
     input: UpdateEnterpriseAdministratorRoleInput
@@ -7719,6 +10256,11 @@ export type MutationUpdateEnterpriseOrganizationProjectsSettingArgs = {
     input: UpdateEnterpriseOrganizationProjectsSettingInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateEnterpriseOwnerOrganizationRoleArgs = {
+    input: UpdateEnterpriseOwnerOrganizationRoleInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateEnterpriseProfileArgs = {
     input: UpdateEnterpriseProfileInput
@@ -7739,6 +10281,11 @@ export type MutationUpdateEnterpriseTwoFactorAuthenticationRequiredSettingArgs =
     input: UpdateEnterpriseTwoFactorAuthenticationRequiredSettingInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateEnvironmentArgs = {
+    input: UpdateEnvironmentInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateIpAllowListEnabledSettingArgs = {
     input: UpdateIpAllowListEnabledSettingInput
@@ -7749,6 +10296,11 @@ export type MutationUpdateIpAllowListEntryArgs = {
     input: UpdateIpAllowListEntryInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateIpAllowListForInstalledAppsEnabledSettingArgs = {
+    input: UpdateIpAllowListForInstalledAppsEnabledSettingInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateIssueArgs = {
     input: UpdateIssueInput
@@ -7759,6 +10311,16 @@ export type MutationUpdateIssueCommentArgs = {
     input: UpdateIssueCommentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateNotificationRestrictionSettingArgs = {
+    input: UpdateNotificationRestrictionSettingInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateOrganizationAllowPrivateRepositoryForkingSettingArgs = {
+    input: UpdateOrganizationAllowPrivateRepositoryForkingSettingInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateProjectArgs = {
     input: UpdateProjectInput
@@ -7774,11 +10336,51 @@ export type MutationUpdateProjectColumnArgs = {
     input: UpdateProjectColumnInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectDraftIssueArgs = {
+    input: UpdateProjectDraftIssueInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectNextArgs = {
+    input: UpdateProjectNextInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectNextItemFieldArgs = {
+    input: UpdateProjectNextItemFieldInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectV2Args = {
+    input: UpdateProjectV2Input
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectV2DraftIssueArgs = {
+    input: UpdateProjectV2DraftIssueInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectV2ItemFieldValueArgs = {
+    input: UpdateProjectV2ItemFieldValueInput
+}
+
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateProjectV2ItemPositionArgs = {
+    input: UpdateProjectV2ItemPositionInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdatePullRequestArgs = {
     input: UpdatePullRequestInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdatePullRequestBranchArgs = {
+    input: UpdatePullRequestBranchInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdatePullRequestReviewArgs = {
     input: UpdatePullRequestReviewInput
@@ -7799,6 +10401,11 @@ export type MutationUpdateRepositoryArgs = {
     input: UpdateRepositoryInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateSponsorshipPreferencesArgs = {
+    input: UpdateSponsorshipPreferencesInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateSubscriptionArgs = {
     input: UpdateSubscriptionInput
@@ -7814,17 +10421,66 @@ export type MutationUpdateTeamDiscussionCommentArgs = {
     input: UpdateTeamDiscussionCommentInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationUpdateTeamsRepositoryArgs = {
+    input: UpdateTeamsRepositoryInput
+}
+
 /** The root query for implementing GraphQL mutations. */
 export type MutationUpdateTopicsArgs = {
     input: UpdateTopicsInput
 }
 
+/** The root query for implementing GraphQL mutations. */
+export type MutationVerifyVerifiableDomainArgs = {
+    input: VerifyVerifiableDomainInput
+}
+
 /** An object with an ID. */
 export type Node = {
     /** ID of the object. */
     id: Scalars['ID']
 }
 
+/** The possible values for the notification restriction setting. */
+export enum NotificationRestrictionSettingValue {
+    /** The setting is enabled for the owner. */
+    Enabled = 'ENABLED',
+    /** The setting is disabled for the owner. */
+    Disabled = 'DISABLED'
+}
+
+/** An OIDC identity provider configured to provision identities for an enterprise. */
+export type OidcProvider = Node & {
+    __typename?: 'OIDCProvider'
+    /** The enterprise this identity provider belongs to. */
+    enterprise: Maybe<Enterprise>
+    /** ExternalIdentities provisioned by this identity provider. */
+    externalIdentities: ExternalIdentityConnection
+    id: Scalars['ID']
+    /** The OIDC identity provider type */
+    providerType: OidcProviderType
+    /** The id of the tenant this provider is attached to */
+    tenantId: Scalars['String']
+}
+
+/** An OIDC identity provider configured to provision identities for an enterprise. */
+export type OidcProviderExternalIdentitiesArgs = {
+    membersOnly: Maybe<Scalars['Boolean']>
+    login: Maybe<Scalars['String']>
+    userName: Maybe<Scalars['String']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The OIDC identity provider type */
+export enum OidcProviderType {
+    /** Azure Active Directory */
+    Aad = 'AAD'
+}
+
 /** Metadata for an audit entry with action oauth_application.* */
 export type OauthApplicationAuditEntryData = {
     /** The name of the OAuth Application. */
@@ -8484,6 +11140,20 @@ export type OrgEnableTwoFactorRequirementAuditEntry = Node &
         userUrl: Maybe<Scalars['URI']>
     }
 
+/** Ordering options for an organization's enterprise owner connections. */
+export type OrgEnterpriseOwnerOrder = {
+    /** The field to order enterprise owners by. */
+    field: OrgEnterpriseOwnerOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which enterprise owners can be ordered. */
+export enum OrgEnterpriseOwnerOrderField {
+    /** Order enterprise owners by login. */
+    Login = 'LOGIN'
+}
+
 /** Audit log entry for a org.invite_member event. */
 export type OrgInviteMemberAuditEntry = Node &
     AuditEntry &
@@ -8828,6 +11498,8 @@ export type OrgRemoveMemberAuditEntry = Node &
 
 /** The type of membership a user has with an Organization. */
 export enum OrgRemoveMemberAuditEntryMembershipType {
+    /** A suspended member. */
+    Suspended = 'SUSPENDED',
     /** A direct member is a user that is a member of the Organization. */
     DirectMember = 'DIRECT_MEMBER',
     /** Organization administrators have full access and can change several settings, including the names of repositories that belong to the Organization and Owners team membership. In addition, organization admins can delete the organization and all of its repositories. */
@@ -8952,7 +11624,7 @@ export type OrgRestoreMemberAuditEntry = Node &
         organizationUrl: Maybe<Scalars['URI']>
         /** The number of custom email routings for the restored member. */
         restoredCustomEmailRoutingsCount: Maybe<Scalars['Int']>
-        /** The number of issue assignemnts for the restored member. */
+        /** The number of issue assignments for the restored member. */
         restoredIssueAssignmentsCount: Maybe<Scalars['Int']>
         /** Restored organization membership objects. */
         restoredMemberships: Maybe<Array<OrgRestoreMemberAuditEntryMembership>>
@@ -9101,9 +11773,9 @@ export type OrgUpdateDefaultRepositoryPermissionAuditEntry = Node &
         organizationResourcePath: Maybe<Scalars['URI']>
         /** The HTTP URL for the organization */
         organizationUrl: Maybe<Scalars['URI']>
-        /** The new default repository permission level for the organization. */
+        /** The new base repository permission level for the organization. */
         permission: Maybe<OrgUpdateDefaultRepositoryPermissionAuditEntryPermission>
-        /** The former default repository permission level for the organization. */
+        /** The former base repository permission level for the organization. */
         permissionWas: Maybe<OrgUpdateDefaultRepositoryPermissionAuditEntryPermission>
         /** The user affected by the action */
         user: Maybe<User>
@@ -9296,6 +11968,11 @@ export type Organization = Node &
     Actor &
     PackageOwner &
     ProjectOwner &
+    ProjectNextOwner &
+    ProjectV2Owner &
+    ProjectV2Recent &
+    RepositoryDiscussionAuthor &
+    RepositoryDiscussionCommentAuthor &
     RepositoryOwner &
     UniformResourceLocatable &
     MemberStatusable &
@@ -9316,8 +11993,14 @@ export type Organization = Node &
         description: Maybe<Scalars['String']>
         /** The organization's public profile description rendered to HTML. */
         descriptionHTML: Maybe<Scalars['String']>
+        /** A list of domains owned by the organization. */
+        domains: Maybe<VerifiableDomainConnection>
         /** The organization's public email. */
         email: Maybe<Scalars['String']>
+        /** A list of owners of the organization's enterprise account. */
+        enterpriseOwners: OrganizationEnterpriseOwnerConnection
+        /** The estimated next GitHub Sponsors payout for this user/organization in cents (USD). */
+        estimatedNextSponsorsPayoutInCents: Scalars['Int']
         /** True if this user/organization has a GitHub Sponsors listing. */
         hasSponsorsListing: Scalars['Boolean']
         id: Scalars['ID']
@@ -9327,9 +12010,13 @@ export type Organization = Node &
         ipAllowListEnabledSetting: IpAllowListEnabledSettingValue
         /** The IP addresses that are allowed to access resources owned by the organization. */
         ipAllowListEntries: IpAllowListEntryConnection
+        /** The setting value for whether the organization has IP allow list configuration for installed GitHub Apps enabled. */
+        ipAllowListForInstalledAppsEnabledSetting: IpAllowListForInstalledAppsEnabledSettingValue
+        /** Check if the given account is sponsoring this user/organization. */
+        isSponsoredBy: Scalars['Boolean']
         /** True if the viewer is sponsored by this user/organization. */
         isSponsoringViewer: Scalars['Boolean']
-        /** Whether the organization has verified its profile email and website, always false on Enterprise. */
+        /** Whether the organization has verified its profile email and website. */
         isVerified: Scalars['Boolean']
         /** Showcases a selection of repositories and gists that the profile owner has either curated or that have been selected automatically based on popularity. */
         itemShowcase: ProfileItemShowcase
@@ -9339,14 +12026,20 @@ export type Organization = Node &
         login: Scalars['String']
         /** Get the status messages members of this entity have set that are either public or visible only to the organization. */
         memberStatuses: UserStatusConnection
+        /** Members can fork private repositories in this organization */
+        membersCanForkPrivateRepositories: Scalars['Boolean']
         /** A list of users who are members of this organization. */
         membersWithRole: OrganizationMemberConnection
+        /** The estimated monthly GitHub Sponsors income for this user/organization in cents (USD). */
+        monthlyEstimatedSponsorsIncomeInCents: Scalars['Int']
         /** The organization's public profile name. */
         name: Maybe<Scalars['String']>
         /** The HTTP path creating a new team */
         newTeamResourcePath: Scalars['URI']
         /** The HTTP URL creating a new team */
         newTeamUrl: Scalars['URI']
+        /** Indicates if email notification delivery for this organization is restricted to verified or approved domains. */
+        notificationDeliveryRestrictionEnabledSetting: NotificationRestrictionSettingValue
         /** The billing email for the organization. */
         organizationBillingEmail: Maybe<Scalars['String']>
         /** A list of packages under the owner. */
@@ -9361,24 +12054,58 @@ export type Organization = Node &
         pinnedItemsRemaining: Scalars['Int']
         /** Find project by number. */
         project: Maybe<Project>
+        /**
+         * Find a project by project (beta) number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNext: Maybe<ProjectNext>
+        /** Find a project by number. */
+        projectV2: Maybe<ProjectV2>
         /** A list of projects under the owner. */
         projects: ProjectConnection
+        /**
+         * A list of projects (beta) under the owner.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectsNext: ProjectNextConnection
         /** The HTTP path listing organization's projects */
         projectsResourcePath: Scalars['URI']
         /** The HTTP URL listing organization's projects */
         projectsUrl: Scalars['URI']
+        /** A list of projects under the owner. */
+        projectsV2: ProjectV2Connection
+        /** Recent projects that this user has modified in the context of the owner. */
+        recentProjects: ProjectV2Connection
         /** A list of repositories that the user owns. */
         repositories: RepositoryConnection
         /** Find Repository. */
         repository: Maybe<Repository>
+        /** Discussion comments this user has authored. */
+        repositoryDiscussionComments: DiscussionCommentConnection
+        /** Discussions this user has started. */
+        repositoryDiscussions: DiscussionConnection
+        /** A list of all repository migrations for this organization. */
+        repositoryMigrations: RepositoryMigrationConnection
         /** When true the organization requires all members, billing managers, and outside collaborators to enable two-factor authentication. */
         requiresTwoFactorAuthentication: Maybe<Scalars['Boolean']>
         /** The HTTP path for this organization. */
         resourcePath: Scalars['URI']
         /** The Organization's SAML identity providers */
         samlIdentityProvider: Maybe<OrganizationIdentityProvider>
+        /** List of users and organizations this entity is sponsoring. */
+        sponsoring: SponsorConnection
+        /** List of sponsors for this user or organization. */
+        sponsors: SponsorConnection
+        /** Events involving this sponsorable, such as new sponsorships. */
+        sponsorsActivities: SponsorsActivityConnection
         /** The GitHub Sponsors listing for this user or organization. */
         sponsorsListing: Maybe<SponsorsListing>
+        /** The sponsorship from the viewer to this user/organization; that is, the sponsorship where you're the sponsor. Only returns a sponsorship if it is active. */
+        sponsorshipForViewerAsSponsor: Maybe<Sponsorship>
+        /** The sponsorship from this user/organization to the viewer; that is, the sponsorship you're receiving. Only returns a sponsorship if it is active. */
+        sponsorshipForViewerAsSponsorable: Maybe<Sponsorship>
+        /** List of sponsorship updates sent from this sponsorable to sponsors. */
+        sponsorshipNewsletters: SponsorshipNewsletterConnection
         /** This object's sponsorships as the maintainer. */
         sponsorshipsAsMaintainer: SponsorshipConnection
         /** This object's sponsorships as the sponsor. */
@@ -9411,6 +12138,8 @@ export type Organization = Node &
         viewerCanSponsor: Scalars['Boolean']
         /** Viewer is an active member of this organization. */
         viewerIsAMember: Scalars['Boolean']
+        /** Whether or not this Organization is followed by the viewer. */
+        viewerIsFollowing: Scalars['Boolean']
         /** True if the viewer is sponsoring this user/organization. */
         viewerIsSponsoring: Scalars['Boolean']
         /** The organization's public profile URL. */
@@ -9437,6 +12166,28 @@ export type OrganizationAvatarUrlArgs = {
     size: Maybe<Scalars['Int']>
 }
 
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationDomainsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    isVerified?: Maybe<Scalars['Boolean']>
+    isApproved?: Maybe<Scalars['Boolean']>
+    orderBy?: Maybe<VerifiableDomainOrder>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationEnterpriseOwnersArgs = {
+    query: Maybe<Scalars['String']>
+    organizationRole: Maybe<RoleInOrganization>
+    orderBy?: Maybe<OrgEnterpriseOwnerOrder>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
 export type OrganizationIpAllowListEntriesArgs = {
     after: Maybe<Scalars['String']>
@@ -9446,6 +12197,11 @@ export type OrganizationIpAllowListEntriesArgs = {
     orderBy?: Maybe<IpAllowListEntryOrder>
 }
 
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationIsSponsoredByArgs = {
+    accountLogin: Scalars['String']
+}
+
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
 export type OrganizationMemberStatusesArgs = {
     after: Maybe<Scalars['String']>
@@ -9506,6 +12262,16 @@ export type OrganizationProjectArgs = {
     number: Scalars['Int']
 }
 
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationProjectV2Args = {
+    number: Scalars['Int']
+}
+
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
 export type OrganizationProjectsArgs = {
     orderBy: Maybe<ProjectOrder>
@@ -9517,6 +12283,34 @@ export type OrganizationProjectsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationRecentProjectsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
 export type OrganizationRepositoriesArgs = {
     privacy: Maybe<RepositoryPrivacy>
@@ -9534,6 +12328,77 @@ export type OrganizationRepositoriesArgs = {
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
 export type OrganizationRepositoryArgs = {
     name: Scalars['String']
+    followRenames?: Maybe<Scalars['Boolean']>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationRepositoryDiscussionCommentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    repositoryId: Maybe<Scalars['ID']>
+    onlyAnswers?: Maybe<Scalars['Boolean']>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationRepositoryDiscussionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<DiscussionOrder>
+    repositoryId: Maybe<Scalars['ID']>
+    answered?: Maybe<Scalars['Boolean']>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationRepositoryMigrationsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    state: Maybe<MigrationState>
+    repositoryName: Maybe<Scalars['String']>
+    orderBy?: Maybe<RepositoryMigrationOrder>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationSponsoringArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationSponsorsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    tierId: Maybe<Scalars['ID']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationSponsorsActivitiesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    period?: Maybe<SponsorsActivityPeriod>
+    orderBy?: Maybe<SponsorsActivityOrder>
+}
+
+/** An account on GitHub, with one or more owners, that has repositories, members and teams. */
+export type OrganizationSponsorshipNewslettersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorshipNewsletterOrder>
 }
 
 /** An account on GitHub, with one or more owners, that has repositories, members and teams. */
@@ -9670,7 +12535,7 @@ export type OrganizationAuditEntryEdge = {
     node: Maybe<OrganizationAuditEntry>
 }
 
-/** The connection type for Organization. */
+/** A list of organizations managed by an enterprise. */
 export type OrganizationConnection = {
     __typename?: 'OrganizationConnection'
     /** A list of edges. */
@@ -9692,6 +12557,30 @@ export type OrganizationEdge = {
     node: Maybe<Organization>
 }
 
+/** The connection type for User. */
+export type OrganizationEnterpriseOwnerConnection = {
+    __typename?: 'OrganizationEnterpriseOwnerConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<OrganizationEnterpriseOwnerEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<User>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An enterprise owner in the context of an organization that is part of the enterprise. */
+export type OrganizationEnterpriseOwnerEdge = {
+    __typename?: 'OrganizationEnterpriseOwnerEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<User>
+    /** The role of the owner with respect to the organization. */
+    organizationRole: RoleInOrganization
+}
+
 /** An Identity Provider configured to provision SAML and SCIM identities for Organizations */
 export type OrganizationIdentityProvider = Node & {
     __typename?: 'OrganizationIdentityProvider'
@@ -9700,7 +12589,7 @@ export type OrganizationIdentityProvider = Node & {
     /** External Identities provisioned by this Identity Provider */
     externalIdentities: ExternalIdentityConnection
     id: Scalars['ID']
-    /** The x509 certificate used by the Identity Provder to sign assertions and responses. */
+    /** The x509 certificate used by the Identity Provider to sign assertions and responses. */
     idpCertificate: Maybe<Scalars['X509Certificate']>
     /** The Issuer Entity ID for the SAML Identity Provider */
     issuer: Maybe<Scalars['String']>
@@ -9714,6 +12603,9 @@ export type OrganizationIdentityProvider = Node & {
 
 /** An Identity Provider configured to provision SAML and SCIM identities for Organizations */
 export type OrganizationIdentityProviderExternalIdentitiesArgs = {
+    membersOnly: Maybe<Scalars['Boolean']>
+    login: Maybe<Scalars['String']>
+    userName: Maybe<Scalars['String']>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -9822,10 +12714,15 @@ export enum OrganizationMembersCanCreateRepositoriesSettingValue {
     All = 'ALL',
     /** Members will be able to create only private repositories. */
     Private = 'PRIVATE',
+    /** Members will be able to create only internal repositories. */
+    Internal = 'INTERNAL',
     /** Members will not be able to create public or private repositories. */
     Disabled = 'DISABLED'
 }
 
+/** Used for argument of CreateProjectV2 mutation. */
+export type OrganizationOrUser = Organization | User
+
 /** Ordering options for organization connections. */
 export type OrganizationOrder = {
     /** The field to order organizations by. */
@@ -10159,6 +13056,22 @@ export type PageInfo = {
     startCursor: Maybe<Scalars['String']>
 }
 
+/** The possible types of patch statuses. */
+export enum PatchStatus {
+    /** The file was added. Git status 'A'. */
+    Added = 'ADDED',
+    /** The file was deleted. Git status 'D'. */
+    Deleted = 'DELETED',
+    /** The file was renamed. Git status 'R'. */
+    Renamed = 'RENAMED',
+    /** The file was copied. Git status 'C'. */
+    Copied = 'COPIED',
+    /** The file's contents were changed. Git status 'M'. */
+    Modified = 'MODIFIED',
+    /** The file's type was changed. Git status 'T'. */
+    Changed = 'CHANGED'
+}
+
 /** Types that can grant permissions on a repository to a user */
 export type PermissionGranter = Organization | Repository | Team
 
@@ -10173,6 +13086,23 @@ export type PermissionSource = {
     source: PermissionGranter
 }
 
+/** Autogenerated input type of PinIssue */
+export type PinIssueInput = {
+    /** The ID of the issue to be pinned */
+    issueId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of PinIssue */
+export type PinIssuePayload = {
+    __typename?: 'PinIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The issue that was pinned */
+    issue: Maybe<Issue>
+}
+
 /** Types that can be pinned to a profile page. */
 export type PinnableItem = Gist | Repository
 
@@ -10218,6 +13148,83 @@ export enum PinnableItemType {
     Team = 'TEAM'
 }
 
+/** A Pinned Discussion is a discussion pinned to a repository's index page. */
+export type PinnedDiscussion = Node &
+    RepositoryNode & {
+        __typename?: 'PinnedDiscussion'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The discussion that was pinned. */
+        discussion: Discussion
+        /** Color stops of the chosen gradient */
+        gradientStopColors: Array<Scalars['String']>
+        id: Scalars['ID']
+        /** Background texture pattern */
+        pattern: PinnedDiscussionPattern
+        /** The actor that pinned this discussion. */
+        pinnedBy: Actor
+        /** Preconfigured background gradient option */
+        preconfiguredGradient: Maybe<PinnedDiscussionGradient>
+        /** The repository associated with this node. */
+        repository: Repository
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The connection type for PinnedDiscussion. */
+export type PinnedDiscussionConnection = {
+    __typename?: 'PinnedDiscussionConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<PinnedDiscussionEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<PinnedDiscussion>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type PinnedDiscussionEdge = {
+    __typename?: 'PinnedDiscussionEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<PinnedDiscussion>
+}
+
+/** Preconfigured gradients that may be used to style discussions pinned within a repository. */
+export enum PinnedDiscussionGradient {
+    /** A gradient of red to orange */
+    RedOrange = 'RED_ORANGE',
+    /** A gradient of blue to mint */
+    BlueMint = 'BLUE_MINT',
+    /** A gradient of blue to purple */
+    BluePurple = 'BLUE_PURPLE',
+    /** A gradient of pink to blue */
+    PinkBlue = 'PINK_BLUE',
+    /** A gradient of purple to coral */
+    PurpleCoral = 'PURPLE_CORAL'
+}
+
+/** Preconfigured background patterns that may be used to style discussions pinned within a repository. */
+export enum PinnedDiscussionPattern {
+    /** A solid dot pattern */
+    DotFill = 'DOT_FILL',
+    /** A plus sign pattern */
+    Plus = 'PLUS',
+    /** A lightning bolt pattern */
+    Zap = 'ZAP',
+    /** An upward-facing chevron pattern */
+    ChevronUp = 'CHEVRON_UP',
+    /** A hollow dot pattern */
+    Dot = 'DOT',
+    /** A heart pattern */
+    HeartFill = 'HEART_FILL'
+}
+
 /** Represents a 'pinned' event on a given issue or pull request. */
 export type PinnedEvent = Node & {
     __typename?: 'PinnedEvent'
@@ -10230,6 +13237,42 @@ export type PinnedEvent = Node & {
     issue: Issue
 }
 
+/** A Pinned Issue is a issue pinned to a repository's index page. */
+export type PinnedIssue = Node & {
+    __typename?: 'PinnedIssue'
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    id: Scalars['ID']
+    /** The issue that was pinned. */
+    issue: Issue
+    /** The actor that pinned this issue. */
+    pinnedBy: Actor
+    /** The repository that this issue was pinned to. */
+    repository: Repository
+}
+
+/** The connection type for PinnedIssue. */
+export type PinnedIssueConnection = {
+    __typename?: 'PinnedIssueConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<PinnedIssueEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<PinnedIssue>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type PinnedIssueEdge = {
+    __typename?: 'PinnedIssueEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<PinnedIssue>
+}
+
 /** Audit log entry for a private_repository_forking.disable event. */
 export type PrivateRepositoryForkingDisableAuditEntry = Node &
     AuditEntry &
@@ -10639,6 +13682,498 @@ export type ProjectEdge = {
     node: Maybe<Project>
 }
 
+/** The type of a project item. */
+export enum ProjectItemType {
+    /** Issue */
+    Issue = 'ISSUE',
+    /** Pull Request */
+    PullRequest = 'PULL_REQUEST',
+    /** Draft Issue */
+    DraftIssue = 'DRAFT_ISSUE',
+    /** Redacted Item */
+    Redacted = 'REDACTED'
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectNext = Node &
+    Closable &
+    Updatable & {
+        __typename?: 'ProjectNext'
+        /**
+         * Returns true if the project is closed.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        closed: Scalars['Boolean']
+        /** Identifies the date and time when the object was closed. */
+        closedAt: Maybe<Scalars['DateTime']>
+        /**
+         * Identifies the date and time when the object was created.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        createdAt: Scalars['DateTime']
+        /**
+         * The actor who originally created the project.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        creator: Maybe<Actor>
+        /**
+         * Identifies the primary key from the database.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        databaseId: Maybe<Scalars['Int']>
+        /**
+         * The project's description.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        description: Maybe<Scalars['String']>
+        /**
+         * List of fields in the project
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        fields: ProjectNextFieldConnection
+        id: Scalars['ID']
+        /**
+         * List of items in the project
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        items: ProjectNextItemConnection
+        /**
+         * The project's number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        number: Scalars['Int']
+        /**
+         * The project's owner. Currently limited to organizations and users.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        owner: ProjectNextOwner
+        /**
+         * Returns true if the project is public.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        public: Scalars['Boolean']
+        /**
+         * The repositories the project is linked to.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        repositories: RepositoryConnection
+        /**
+         * The HTTP path for this project
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        resourcePath: Scalars['URI']
+        /**
+         * The project's short description.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        shortDescription: Maybe<Scalars['String']>
+        /**
+         * The project's name.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        title: Maybe<Scalars['String']>
+        /**
+         * Identifies the date and time when the object was last updated.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        updatedAt: Scalars['DateTime']
+        /**
+         * The HTTP URL for this project
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        url: Scalars['URI']
+        /** Check if the current viewer can update this object. */
+        viewerCanUpdate: Scalars['Boolean']
+        /**
+         * List of views in the project
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        views: ProjectViewConnection
+    }
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectNextFieldsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectNextItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectNextRepositoriesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectNextViewsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectNext. */
+export type ProjectNextConnection = {
+    __typename?: 'ProjectNextConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectNextEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectNext>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectNextEdge = {
+    __typename?: 'ProjectNextEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectNext>
+}
+
+/** A field inside a project. */
+export type ProjectNextField = ProjectNextFieldCommon &
+    Node & {
+        __typename?: 'ProjectNextField'
+        /**
+         * Identifies the date and time when the object was created.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        createdAt: Scalars['DateTime']
+        /**
+         * The field's type.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        dataType: ProjectNextFieldType
+        /**
+         * Identifies the primary key from the database.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        databaseId: Maybe<Scalars['Int']>
+        id: Scalars['ID']
+        /**
+         * The project field's name.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        name: Scalars['String']
+        /**
+         * The project that contains this field.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        project: ProjectNext
+        /**
+         * The field's settings.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        settings: Maybe<Scalars['String']>
+        /**
+         * Identifies the date and time when the object was last updated.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** Common fields across different field types */
+export type ProjectNextFieldCommon = {
+    /**
+     * Identifies the date and time when the object was created.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    createdAt: Scalars['DateTime']
+    /**
+     * The field's type.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    dataType: ProjectNextFieldType
+    /**
+     * Identifies the primary key from the database.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    databaseId: Maybe<Scalars['Int']>
+    /** @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC. */
+    id: Scalars['ID']
+    /**
+     * The project field's name.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    name: Scalars['String']
+    /**
+     * The project that contains this field.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    project: ProjectNext
+    /**
+     * The field's settings.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    settings: Maybe<Scalars['String']>
+    /**
+     * Identifies the date and time when the object was last updated.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updatedAt: Scalars['DateTime']
+}
+
+/** The connection type for ProjectNextField. */
+export type ProjectNextFieldConnection = {
+    __typename?: 'ProjectNextFieldConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectNextFieldEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectNextField>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectNextFieldEdge = {
+    __typename?: 'ProjectNextFieldEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectNextField>
+}
+
+/** The type of a project next field. */
+export enum ProjectNextFieldType {
+    /** Assignees */
+    Assignees = 'ASSIGNEES',
+    /** Linked Pull Requests */
+    LinkedPullRequests = 'LINKED_PULL_REQUESTS',
+    /** Reviewers */
+    Reviewers = 'REVIEWERS',
+    /** Labels */
+    Labels = 'LABELS',
+    /** Milestone */
+    Milestone = 'MILESTONE',
+    /** Repository */
+    Repository = 'REPOSITORY',
+    /** Title */
+    Title = 'TITLE',
+    /** Text */
+    Text = 'TEXT',
+    /** Single Select */
+    SingleSelect = 'SINGLE_SELECT',
+    /** Number */
+    Number = 'NUMBER',
+    /** Date */
+    Date = 'DATE',
+    /** Iteration */
+    Iteration = 'ITERATION',
+    /** Tracks */
+    Tracks = 'TRACKS'
+}
+
+/** An item within a new Project. */
+export type ProjectNextItem = Node & {
+    __typename?: 'ProjectNextItem'
+    /**
+     * The content of the referenced draft issue, issue, or pull request
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    content: Maybe<ProjectNextItemContent>
+    /**
+     * Identifies the date and time when the object was created.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    createdAt: Scalars['DateTime']
+    /**
+     * The actor who created the item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    creator: Maybe<Actor>
+    /**
+     * Identifies the primary key from the database.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    databaseId: Maybe<Scalars['Int']>
+    /**
+     * List of field values
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    fieldValues: ProjectNextItemFieldValueConnection
+    id: Scalars['ID']
+    /**
+     * Whether the item is archived.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    isArchived: Scalars['Boolean']
+    /**
+     * The project that contains this item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    project: ProjectNext
+    /**
+     * The title of the item
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    title: Maybe<Scalars['String']>
+    /**
+     * The type of the item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    type: ProjectItemType
+    /**
+     * Identifies the date and time when the object was last updated.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updatedAt: Scalars['DateTime']
+}
+
+/** An item within a new Project. */
+export type ProjectNextItemFieldValuesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectNextItem. */
+export type ProjectNextItemConnection = {
+    __typename?: 'ProjectNextItemConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectNextItemEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectNextItem>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** Types that can be inside Project Items. */
+export type ProjectNextItemContent = DraftIssue | Issue | PullRequest
+
+/** An edge in a connection. */
+export type ProjectNextItemEdge = {
+    __typename?: 'ProjectNextItemEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectNextItem>
+}
+
+/** An value of a field in an item of a new Project. */
+export type ProjectNextItemFieldValue = Node & {
+    __typename?: 'ProjectNextItemFieldValue'
+    /**
+     * Identifies the date and time when the object was created.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    createdAt: Scalars['DateTime']
+    /**
+     * The actor who created the item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    creator: Maybe<Actor>
+    /**
+     * Identifies the primary key from the database.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    databaseId: Maybe<Scalars['Int']>
+    id: Scalars['ID']
+    /**
+     * The project field that contains this value.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectField: ProjectNextField
+    /**
+     * The project item that contains this value.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectItem: ProjectNextItem
+    /**
+     * Identifies the date and time when the object was last updated.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updatedAt: Scalars['DateTime']
+    /**
+     * The value of a field
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    value: Maybe<Scalars['String']>
+}
+
+/** The connection type for ProjectNextItemFieldValue. */
+export type ProjectNextItemFieldValueConnection = {
+    __typename?: 'ProjectNextItemFieldValueConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectNextItemFieldValueEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectNextItemFieldValue>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectNextItemFieldValueEdge = {
+    __typename?: 'ProjectNextItemFieldValueEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectNextItemFieldValue>
+}
+
+/** Properties by which the return project can be ordered. */
+export enum ProjectNextOrderField {
+    /** The project's title */
+    Title = 'TITLE',
+    /** The project's number */
+    Number = 'NUMBER',
+    /** The project's date and time of update */
+    UpdatedAt = 'UPDATED_AT',
+    /** The project's date and time of creation */
+    CreatedAt = 'CREATED_AT'
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectNextOwner = {
+    id: Scalars['ID']
+    /**
+     * Find a project by project (beta) number.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectNext: Maybe<ProjectNext>
+    /**
+     * A list of projects (beta) under the owner.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectsNext: ProjectNextConnection
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectNextOwnerProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectNextOwnerProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
 /** Ways in which lists of projects can be ordered upon return. */
 export type ProjectOrder = {
     /** The field in which to order projects by. */
@@ -10727,6 +14262,946 @@ export enum ProjectTemplate {
     BugTriage = 'BUG_TRIAGE'
 }
 
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2 = Closable &
+    Updatable &
+    Node & {
+        __typename?: 'ProjectV2'
+        /** Returns true if the project is closed. */
+        closed: Scalars['Boolean']
+        /** Identifies the date and time when the object was closed. */
+        closedAt: Maybe<Scalars['DateTime']>
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who originally created the project. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** A field of the project */
+        field: Maybe<ProjectV2FieldConfiguration>
+        /** List of fields and their constraints in the project */
+        fields: ProjectV2FieldConfigurationConnection
+        id: Scalars['ID']
+        /** List of items in the project */
+        items: ProjectV2ItemConnection
+        /** The project's number. */
+        number: Scalars['Int']
+        /** The project's owner. Currently limited to organizations and users. */
+        owner: ProjectV2Owner
+        /** Returns true if the project is public. */
+        public: Scalars['Boolean']
+        /** The project's readme. */
+        readme: Maybe<Scalars['String']>
+        /** The repositories the project is linked to. */
+        repositories: RepositoryConnection
+        /** The HTTP path for this project */
+        resourcePath: Scalars['URI']
+        /** The project's short description. */
+        shortDescription: Maybe<Scalars['String']>
+        /** The project's name. */
+        title: Scalars['String']
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+        /** The HTTP URL for this project */
+        url: Scalars['URI']
+        /** Check if the current viewer can update this object. */
+        viewerCanUpdate: Scalars['Boolean']
+        /** List of views in the project */
+        views: ProjectV2ViewConnection
+    }
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2FieldArgs = {
+    name: Scalars['String']
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2FieldsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2ItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2RepositoriesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** New projects that manage issues, pull requests and drafts using tables and boards. */
+export type ProjectV2ViewsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectV2. */
+export type ProjectV2Connection = {
+    __typename?: 'ProjectV2Connection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2Edge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2Edge = {
+    __typename?: 'ProjectV2Edge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2>
+}
+
+/** A field inside a project. */
+export type ProjectV2Field = ProjectV2FieldCommon &
+    Node & {
+        __typename?: 'ProjectV2Field'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The field's type. */
+        dataType: ProjectV2FieldType
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        id: Scalars['ID']
+        /** The project field's name. */
+        name: Scalars['String']
+        /** The project that contains this field. */
+        project: ProjectV2
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** Common fields across different project field types */
+export type ProjectV2FieldCommon = {
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The field's type. */
+    dataType: ProjectV2FieldType
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    id: Scalars['ID']
+    /** The project field's name. */
+    name: Scalars['String']
+    /** The project that contains this field. */
+    project: ProjectV2
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** Configurations for project fields. */
+export type ProjectV2FieldConfiguration = ProjectV2Field | ProjectV2IterationField | ProjectV2SingleSelectField
+
+/** The connection type for ProjectV2FieldConfiguration. */
+export type ProjectV2FieldConfigurationConnection = {
+    __typename?: 'ProjectV2FieldConfigurationConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2FieldConfigurationEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2FieldConfiguration>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2FieldConfigurationEdge = {
+    __typename?: 'ProjectV2FieldConfigurationEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2FieldConfiguration>
+}
+
+/** The connection type for ProjectV2Field. */
+export type ProjectV2FieldConnection = {
+    __typename?: 'ProjectV2FieldConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2FieldEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2Field>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2FieldEdge = {
+    __typename?: 'ProjectV2FieldEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2Field>
+}
+
+/** The type of a project field. */
+export enum ProjectV2FieldType {
+    /** Assignees */
+    Assignees = 'ASSIGNEES',
+    /** Linked Pull Requests */
+    LinkedPullRequests = 'LINKED_PULL_REQUESTS',
+    /** Reviewers */
+    Reviewers = 'REVIEWERS',
+    /** Labels */
+    Labels = 'LABELS',
+    /** Milestone */
+    Milestone = 'MILESTONE',
+    /** Repository */
+    Repository = 'REPOSITORY',
+    /** Title */
+    Title = 'TITLE',
+    /** Text */
+    Text = 'TEXT',
+    /** Single Select */
+    SingleSelect = 'SINGLE_SELECT',
+    /** Number */
+    Number = 'NUMBER',
+    /** Date */
+    Date = 'DATE',
+    /** Iteration */
+    Iteration = 'ITERATION',
+    /** Tracks */
+    Tracks = 'TRACKS'
+}
+
+/** The values that can be used to update a field of an item inside a Project. Only 1 value can be updated at a time. */
+export type ProjectV2FieldValue = {
+    /** The text to set on the field. */
+    text: Maybe<Scalars['String']>
+    /** The number to set on the field. */
+    number: Maybe<Scalars['Float']>
+    /** The ISO 8601 date to set on the field. */
+    date: Maybe<Scalars['Date']>
+    /** The id of the single select option to set on the field. */
+    singleSelectOptionId: Maybe<Scalars['String']>
+    /** The id of the iteration to set on the field. */
+    iterationId: Maybe<Scalars['String']>
+}
+
+/** An item within a Project. */
+export type ProjectV2Item = Node & {
+    __typename?: 'ProjectV2Item'
+    /** The content of the referenced draft issue, issue, or pull request */
+    content: Maybe<ProjectV2ItemContent>
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The actor who created the item. */
+    creator: Maybe<Actor>
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** List of field values */
+    fieldValues: ProjectV2ItemFieldValueConnection
+    id: Scalars['ID']
+    /** Whether the item is archived. */
+    isArchived: Scalars['Boolean']
+    /** The project that contains this item. */
+    project: ProjectV2
+    /** The type of the item. */
+    type: ProjectV2ItemType
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** An item within a Project. */
+export type ProjectV2ItemFieldValuesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectV2Item. */
+export type ProjectV2ItemConnection = {
+    __typename?: 'ProjectV2ItemConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2ItemEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2Item>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** Types that can be inside Project Items. */
+export type ProjectV2ItemContent = DraftIssue | Issue | PullRequest
+
+/** An edge in a connection. */
+export type ProjectV2ItemEdge = {
+    __typename?: 'ProjectV2ItemEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2Item>
+}
+
+/** The value of a date field in a Project item. */
+export type ProjectV2ItemFieldDateValue = ProjectV2ItemFieldValueCommon &
+    Node & {
+        __typename?: 'ProjectV2ItemFieldDateValue'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created the item. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** Date value for the field */
+        date: Maybe<Scalars['Date']>
+        /** The project field that contains this value. */
+        field: ProjectV2FieldConfiguration
+        id: Scalars['ID']
+        /** The project item that contains this value. */
+        item: ProjectV2Item
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The value of an iteration field in a Project item. */
+export type ProjectV2ItemFieldIterationValue = ProjectV2ItemFieldValueCommon &
+    Node & {
+        __typename?: 'ProjectV2ItemFieldIterationValue'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created the item. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The duration of the iteration in days. */
+        duration: Scalars['Int']
+        /** The project field that contains this value. */
+        field: ProjectV2FieldConfiguration
+        id: Scalars['ID']
+        /** The project item that contains this value. */
+        item: ProjectV2Item
+        /** The ID of the iteration. */
+        iterationId: Scalars['String']
+        /** The start date of the iteration. */
+        startDate: Scalars['Date']
+        /** The title of the iteration. */
+        title: Scalars['String']
+        /** The title of the iteration, with HTML. */
+        titleHTML: Scalars['String']
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The value of the labels field in a Project item. */
+export type ProjectV2ItemFieldLabelValue = {
+    __typename?: 'ProjectV2ItemFieldLabelValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** Labels value of a field */
+    labels: Maybe<LabelConnection>
+}
+
+/** The value of the labels field in a Project item. */
+export type ProjectV2ItemFieldLabelValueLabelsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The value of a milestone field in a Project item. */
+export type ProjectV2ItemFieldMilestoneValue = {
+    __typename?: 'ProjectV2ItemFieldMilestoneValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** Milestone value of a field */
+    milestone: Maybe<Milestone>
+}
+
+/** The value of a number field in a Project item. */
+export type ProjectV2ItemFieldNumberValue = ProjectV2ItemFieldValueCommon &
+    Node & {
+        __typename?: 'ProjectV2ItemFieldNumberValue'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created the item. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The project field that contains this value. */
+        field: ProjectV2FieldConfiguration
+        id: Scalars['ID']
+        /** The project item that contains this value. */
+        item: ProjectV2Item
+        /** Number as a float(8) */
+        number: Maybe<Scalars['Float']>
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The value of a pull request field in a Project item. */
+export type ProjectV2ItemFieldPullRequestValue = {
+    __typename?: 'ProjectV2ItemFieldPullRequestValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** The pull requests for this field */
+    pullRequests: Maybe<PullRequestConnection>
+}
+
+/** The value of a pull request field in a Project item. */
+export type ProjectV2ItemFieldPullRequestValuePullRequestsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The value of a repository field in a Project item. */
+export type ProjectV2ItemFieldRepositoryValue = {
+    __typename?: 'ProjectV2ItemFieldRepositoryValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** The repository for this field. */
+    repository: Maybe<Repository>
+}
+
+/** The value of a reviewers field in a Project item. */
+export type ProjectV2ItemFieldReviewerValue = {
+    __typename?: 'ProjectV2ItemFieldReviewerValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** The reviewers for this field. */
+    reviewers: Maybe<RequestedReviewerConnection>
+}
+
+/** The value of a reviewers field in a Project item. */
+export type ProjectV2ItemFieldReviewerValueReviewersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The value of a single select field in a Project item. */
+export type ProjectV2ItemFieldSingleSelectValue = ProjectV2ItemFieldValueCommon &
+    Node & {
+        __typename?: 'ProjectV2ItemFieldSingleSelectValue'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created the item. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The project field that contains this value. */
+        field: ProjectV2FieldConfiguration
+        id: Scalars['ID']
+        /** The project item that contains this value. */
+        item: ProjectV2Item
+        /** The name of the selected single select option. */
+        name: Maybe<Scalars['String']>
+        /** The html name of the selected single select option. */
+        nameHTML: Maybe<Scalars['String']>
+        /** The id of the selected single select option. */
+        optionId: Maybe<Scalars['String']>
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The value of a text field in a Project item. */
+export type ProjectV2ItemFieldTextValue = ProjectV2ItemFieldValueCommon &
+    Node & {
+        __typename?: 'ProjectV2ItemFieldTextValue'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created the item. */
+        creator: Maybe<Actor>
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        /** The project field that contains this value. */
+        field: ProjectV2FieldConfiguration
+        id: Scalars['ID']
+        /** The project item that contains this value. */
+        item: ProjectV2Item
+        /** Text value of a field */
+        text: Maybe<Scalars['String']>
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** The value of a user field in a Project item. */
+export type ProjectV2ItemFieldUserValue = {
+    __typename?: 'ProjectV2ItemFieldUserValue'
+    /** The field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    /** The users for this field */
+    users: Maybe<UserConnection>
+}
+
+/** The value of a user field in a Project item. */
+export type ProjectV2ItemFieldUserValueUsersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** Project field values */
+export type ProjectV2ItemFieldValue =
+    | ProjectV2ItemFieldDateValue
+    | ProjectV2ItemFieldIterationValue
+    | ProjectV2ItemFieldLabelValue
+    | ProjectV2ItemFieldMilestoneValue
+    | ProjectV2ItemFieldNumberValue
+    | ProjectV2ItemFieldPullRequestValue
+    | ProjectV2ItemFieldRepositoryValue
+    | ProjectV2ItemFieldReviewerValue
+    | ProjectV2ItemFieldSingleSelectValue
+    | ProjectV2ItemFieldTextValue
+    | ProjectV2ItemFieldUserValue
+
+/** Common fields across different project field value types */
+export type ProjectV2ItemFieldValueCommon = {
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** The actor who created the item. */
+    creator: Maybe<Actor>
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The project field that contains this value. */
+    field: ProjectV2FieldConfiguration
+    id: Scalars['ID']
+    /** The project item that contains this value. */
+    item: ProjectV2Item
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** The connection type for ProjectV2ItemFieldValue. */
+export type ProjectV2ItemFieldValueConnection = {
+    __typename?: 'ProjectV2ItemFieldValueConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2ItemFieldValueEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2ItemFieldValue>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2ItemFieldValueEdge = {
+    __typename?: 'ProjectV2ItemFieldValueEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2ItemFieldValue>
+}
+
+/** The type of a project item. */
+export enum ProjectV2ItemType {
+    /** Issue */
+    Issue = 'ISSUE',
+    /** Pull Request */
+    PullRequest = 'PULL_REQUEST',
+    /** Draft Issue */
+    DraftIssue = 'DRAFT_ISSUE',
+    /** Redacted Item */
+    Redacted = 'REDACTED'
+}
+
+/** An iteration field inside a project. */
+export type ProjectV2IterationField = ProjectV2FieldCommon &
+    Node & {
+        __typename?: 'ProjectV2IterationField'
+        /** Iteration configuration settings */
+        configuration: ProjectV2IterationFieldConfiguration
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The field's type. */
+        dataType: ProjectV2FieldType
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        id: Scalars['ID']
+        /** The project field's name. */
+        name: Scalars['String']
+        /** The project that contains this field. */
+        project: ProjectV2
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** Iteration field configuration for a project. */
+export type ProjectV2IterationFieldConfiguration = {
+    __typename?: 'ProjectV2IterationFieldConfiguration'
+    /** The iteration's completed iterations */
+    completedIterations: Array<ProjectV2IterationFieldIteration>
+    /** The iteration's duration in days */
+    duration: Scalars['Int']
+    /** The iteration's iterations */
+    iterations: Array<ProjectV2IterationFieldIteration>
+    /** The iteration's start day of the week */
+    startDay: Scalars['Int']
+}
+
+/** Iteration field iteration settings for a project. */
+export type ProjectV2IterationFieldIteration = {
+    __typename?: 'ProjectV2IterationFieldIteration'
+    /** The iteration's duration in days */
+    duration: Scalars['Int']
+    /** The iteration's ID. */
+    id: Scalars['String']
+    /** The iteration's start date */
+    startDate: Scalars['Date']
+    /** The iteration's title. */
+    title: Scalars['String']
+    /** The iteration's html title. */
+    titleHTML: Scalars['String']
+}
+
+/** Ways in which lists of projects can be ordered upon return. */
+export type ProjectV2Order = {
+    /** The field in which to order projects by. */
+    field: ProjectV2OrderField
+    /** The direction in which to order projects by the specified field. */
+    direction: OrderDirection
+}
+
+/** Properties by which projects can be ordered. */
+export enum ProjectV2OrderField {
+    /** The project's title */
+    Title = 'TITLE',
+    /** The project's number */
+    Number = 'NUMBER',
+    /** The project's date and time of update */
+    UpdatedAt = 'UPDATED_AT',
+    /** The project's date and time of creation */
+    CreatedAt = 'CREATED_AT'
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectV2Owner = {
+    id: Scalars['ID']
+    /** Find a project by number. */
+    projectV2: Maybe<ProjectV2>
+    /** A list of projects under the owner. */
+    projectsV2: ProjectV2Connection
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectV2OwnerProjectV2Args = {
+    number: Scalars['Int']
+}
+
+/** Represents an owner of a project (beta). */
+export type ProjectV2OwnerProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
+/** Recent projects for the owner. */
+export type ProjectV2Recent = {
+    /** Recent projects that this user has modified in the context of the owner. */
+    recentProjects: ProjectV2Connection
+}
+
+/** Recent projects for the owner. */
+export type ProjectV2RecentRecentProjectsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A single select field inside a project. */
+export type ProjectV2SingleSelectField = ProjectV2FieldCommon &
+    Node & {
+        __typename?: 'ProjectV2SingleSelectField'
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The field's type. */
+        dataType: ProjectV2FieldType
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
+        id: Scalars['ID']
+        /** The project field's name. */
+        name: Scalars['String']
+        /** Options for the single select field */
+        options: Array<ProjectV2SingleSelectFieldOption>
+        /** The project that contains this field. */
+        project: ProjectV2
+        /** Identifies the date and time when the object was last updated. */
+        updatedAt: Scalars['DateTime']
+    }
+
+/** Single select field option for a configuration for a project. */
+export type ProjectV2SingleSelectFieldOption = {
+    __typename?: 'ProjectV2SingleSelectFieldOption'
+    /** The option's ID. */
+    id: Scalars['String']
+    /** The option's name. */
+    name: Scalars['String']
+    /** The option's html name. */
+    nameHTML: Scalars['String']
+}
+
+/** Represents a sort by field and direction. */
+export type ProjectV2SortBy = {
+    __typename?: 'ProjectV2SortBy'
+    /** The direction of the sorting. Possible values are ASC and DESC. */
+    direction: OrderDirection
+    /** The field by which items are sorted. */
+    field: ProjectV2Field
+}
+
+/** The connection type for ProjectV2SortBy. */
+export type ProjectV2SortByConnection = {
+    __typename?: 'ProjectV2SortByConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2SortByEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2SortBy>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2SortByEdge = {
+    __typename?: 'ProjectV2SortByEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2SortBy>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2View = Node & {
+    __typename?: 'ProjectV2View'
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The project view's filter. */
+    filter: Maybe<Scalars['String']>
+    /** The view's group-by field. */
+    groupBy: Maybe<ProjectV2FieldConnection>
+    id: Scalars['ID']
+    /** The view's filtered items. */
+    items: ProjectV2ItemConnection
+    /** The project view's layout. */
+    layout: ProjectV2ViewLayout
+    /** The project view's name. */
+    name: Scalars['String']
+    /** The project view's number. */
+    number: Scalars['Int']
+    /** The project that contains this view. */
+    project: ProjectV2
+    /** The view's sort-by config. */
+    sortBy: Maybe<ProjectV2SortByConnection>
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+    /** The view's vertical-group-by field. */
+    verticalGroupBy: Maybe<ProjectV2FieldConnection>
+    /** The view's visible fields. */
+    visibleFields: Maybe<ProjectV2FieldConnection>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2ViewGroupByArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2ViewItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2ViewSortByArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2ViewVerticalGroupByArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A view within a ProjectV2. */
+export type ProjectV2ViewVisibleFieldsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectV2View. */
+export type ProjectV2ViewConnection = {
+    __typename?: 'ProjectV2ViewConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectV2ViewEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectV2View>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectV2ViewEdge = {
+    __typename?: 'ProjectV2ViewEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectV2View>
+}
+
+/** The layout of a project v2 view. */
+export enum ProjectV2ViewLayout {
+    /** Board layout */
+    BoardLayout = 'BOARD_LAYOUT',
+    /** Table layout */
+    TableLayout = 'TABLE_LAYOUT'
+}
+
+/** A view within a Project. */
+export type ProjectView = Node & {
+    __typename?: 'ProjectView'
+    /**
+     * Identifies the date and time when the object was created.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    createdAt: Scalars['DateTime']
+    /**
+     * Identifies the primary key from the database.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    databaseId: Maybe<Scalars['Int']>
+    /**
+     * The project view's filter.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    filter: Maybe<Scalars['String']>
+    /**
+     * The view's group-by field.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    groupBy: Maybe<Array<Scalars['Int']>>
+    id: Scalars['ID']
+    /**
+     * The view's filtered items.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    items: ProjectNextItemConnection
+    /**
+     * The project view's layout.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    layout: ProjectViewLayout
+    /**
+     * The project view's name.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    name: Scalars['String']
+    /**
+     * The project view's number.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    number: Scalars['Int']
+    /**
+     * The project that contains this view.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    project: ProjectNext
+    /**
+     * The view's sort-by config.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    sortBy: Maybe<Array<SortBy>>
+    /**
+     * Identifies the date and time when the object was last updated.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    updatedAt: Scalars['DateTime']
+    /**
+     * The view's vertical-group-by field.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    verticalGroupBy: Maybe<Array<Scalars['Int']>>
+    /**
+     * The view's visible fields.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    visibleFields: Maybe<Array<Scalars['Int']>>
+}
+
+/** A view within a Project. */
+export type ProjectViewItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** The connection type for ProjectView. */
+export type ProjectViewConnection = {
+    __typename?: 'ProjectViewConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ProjectViewEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<ProjectView>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type ProjectViewEdge = {
+    __typename?: 'ProjectViewEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<ProjectView>
+}
+
+/** The layout of a project view. */
+export enum ProjectViewLayout {
+    /** Board layout */
+    BoardLayout = 'BOARD_LAYOUT',
+    /** Table layout */
+    TableLayout = 'TABLE_LAYOUT'
+}
+
 /** A user's public key. */
 export type PublicKey = Node & {
     __typename?: 'PublicKey'
@@ -10779,7 +15254,9 @@ export type PullRequest = Node &
     Reactable &
     RepositoryNode &
     Subscribable &
-    UniformResourceLocatable & {
+    UniformResourceLocatable &
+    ProjectNextOwner &
+    ProjectV2Owner & {
         __typename?: 'PullRequest'
         /** Reason that the conversation was locked. */
         activeLockReason: Maybe<LockReason>
@@ -10791,6 +15268,8 @@ export type PullRequest = Node &
         author: Maybe<Actor>
         /** Author's association with the subject of the comment. */
         authorAssociation: CommentAuthorAssociation
+        /** Returns the auto-merge request object if one exists for this pull request. */
+        autoMergeRequest: Maybe<AutoMergeRequest>
         /** Identifies the base Ref associated with the pull request. */
         baseRef: Maybe<Ref>
         /** Identifies the name of the base Ref associated with the pull request, even if the ref has been deleted. */
@@ -10815,6 +15294,8 @@ export type PullRequest = Node &
         closed: Scalars['Boolean']
         /** Identifies the date and time when the object was closed. */
         closedAt: Maybe<Scalars['DateTime']>
+        /** List of issues that were may be closed by this pull request */
+        closingIssuesReferences: Maybe<IssueConnection>
         /** A list of comments associated with the pull request. */
         comments: IssueCommentConnection
         /** A list of commits present in this pull request's head branch not present in the base branch. */
@@ -10886,6 +15367,27 @@ export type PullRequest = Node &
         potentialMergeCommit: Maybe<Commit>
         /** List of project cards associated with this pull request. */
         projectCards: ProjectCardConnection
+        /** List of project items associated with this pull request. */
+        projectItems: ProjectV2ItemConnection
+        /**
+         * Find a project by project (beta) number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNext: Maybe<ProjectNext>
+        /**
+         * List of project (beta) items associated with this pull request.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNextItems: ProjectNextItemConnection
+        /** Find a project by number. */
+        projectV2: Maybe<ProjectV2>
+        /**
+         * A list of projects (beta) under the owner.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectsNext: ProjectNextConnection
+        /** A list of projects under the owner. */
+        projectsV2: ProjectV2Connection
         /** Identifies when the comment was published at. */
         publishedAt: Maybe<Scalars['DateTime']>
         /** A list of reactions grouped by content left on the subject. */
@@ -10921,6 +15423,8 @@ export type PullRequest = Node &
         timelineItems: PullRequestTimelineItemsConnection
         /** Identifies the pull request title. */
         title: Scalars['String']
+        /** Identifies the pull request title rendered to HTML. */
+        titleHTML: Scalars['HTML']
         /** Identifies the date and time when the object was last updated. */
         updatedAt: Scalars['DateTime']
         /** The HTTP URL for this pull request. */
@@ -10931,6 +15435,14 @@ export type PullRequest = Node &
         viewerCanApplySuggestion: Scalars['Boolean']
         /** Check if the viewer can restore the deleted head ref. */
         viewerCanDeleteHeadRef: Scalars['Boolean']
+        /** Whether or not the viewer can disable auto-merge */
+        viewerCanDisableAutoMerge: Scalars['Boolean']
+        /** Can the viewer edit files within this pull request. */
+        viewerCanEditFiles: Scalars['Boolean']
+        /** Whether or not the viewer can enable auto-merge */
+        viewerCanEnableAutoMerge: Scalars['Boolean']
+        /** Indicates whether the viewer can bypass branch protections and merge the pull request immediately */
+        viewerCanMergeAsAdmin: Scalars['Boolean']
         /** Can user react to this subject */
         viewerCanReact: Scalars['Boolean']
         /** Check if the viewer is able to change their subscription status for the repository. */
@@ -10941,6 +15453,10 @@ export type PullRequest = Node &
         viewerCannotUpdateReasons: Array<CommentCannotUpdateReason>
         /** Did the viewer author this comment. */
         viewerDidAuthor: Scalars['Boolean']
+        /** The latest review given from the viewer. */
+        viewerLatestReview: Maybe<PullRequestReview>
+        /** The person who has requested the viewer for review on this pull request. */
+        viewerLatestReviewRequest: Maybe<ReviewRequest>
         /** The merge body text for the viewer and method. */
         viewerMergeBodyText: Scalars['String']
         /** The merge headline text for the viewer and method. */
@@ -10957,6 +15473,16 @@ export type PullRequestAssigneesArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A repository pull request. */
+export type PullRequestClosingIssuesReferencesArgs = {
+    userLinkedOnly?: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy: Maybe<IssueOrder>
+}
+
 /** A repository pull request. */
 export type PullRequestCommentsArgs = {
     orderBy: Maybe<IssueCommentOrder>
@@ -11030,6 +15556,54 @@ export type PullRequestProjectCardsArgs = {
     archivedStates?: Maybe<Array<Maybe<ProjectCardArchivedState>>>
 }
 
+/** A repository pull request. */
+export type PullRequestProjectItemsArgs = {
+    includeArchived?: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A repository pull request. */
+export type PullRequestProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** A repository pull request. */
+export type PullRequestProjectNextItemsArgs = {
+    includeArchived?: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A repository pull request. */
+export type PullRequestProjectV2Args = {
+    number: Scalars['Int']
+}
+
+/** A repository pull request. */
+export type PullRequestProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
+/** A repository pull request. */
+export type PullRequestProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
 /** A repository pull request. */
 export type PullRequestReactionsArgs = {
     after: Maybe<Scalars['String']>
@@ -11109,6 +15683,8 @@ export type PullRequestChangedFile = {
     __typename?: 'PullRequestChangedFile'
     /** The number of additions to the file. */
     additions: Scalars['Int']
+    /** How the file was changed in this PullRequest */
+    changeType: PatchStatus
     /** The number of deletions to the file. */
     deletions: Scalars['Int']
     /** The path of the file. */
@@ -11155,8 +15731,8 @@ export type PullRequestCommit = Node &
     }
 
 /** Represents a commit comment thread part of a pull request. */
-export type PullRequestCommitCommentThread = Node &
-    RepositoryNode & {
+export type PullRequestCommitCommentThread = RepositoryNode &
+    Node & {
         __typename?: 'PullRequestCommitCommentThread'
         /** The comments that exist in this thread. */
         comments: CommitCommentConnection
@@ -11600,7 +16176,7 @@ export type PullRequestReviewThread = Node & {
     /** The side of the diff on which this thread was placed. */
     diffSide: DiffSide
     id: Scalars['ID']
-    /** Whether or not the thread has been collapsed (outdated or resolved) */
+    /** Whether or not the thread has been collapsed (resolved) */
     isCollapsed: Scalars['Boolean']
     /** Indicates whether this thread was outdated by newer changes. */
     isOutdated: Scalars['Boolean']
@@ -11684,6 +16260,17 @@ export enum PullRequestState {
     Merged = 'MERGED'
 }
 
+/** A repository pull request template. */
+export type PullRequestTemplate = {
+    __typename?: 'PullRequestTemplate'
+    /** The body of the template */
+    body: Maybe<Scalars['String']>
+    /** The filename of the template */
+    filename: Maybe<Scalars['String']>
+    /** The repository the template belongs to */
+    repository: Repository
+}
+
 /** The connection type for PullRequestTimelineItem. */
 export type PullRequestTimelineConnection = {
     __typename?: 'PullRequestTimelineConnection'
@@ -11760,6 +16347,7 @@ export type PullRequestTimelineItems =
     | ConnectedEvent
     | ConvertToDraftEvent
     | ConvertedNoteToIssueEvent
+    | ConvertedToDiscussionEvent
     | CrossReferencedEvent
     | DemilestonedEvent
     | DeployedEvent
@@ -11880,6 +16468,10 @@ export enum PullRequestTimelineItemsItemType {
     ReadyForReviewEvent = 'READY_FOR_REVIEW_EVENT',
     /** Represents a 'convert_to_draft' event on a given pull request. */
     ConvertToDraftEvent = 'CONVERT_TO_DRAFT_EVENT',
+    /** Represents an 'added_to_merge_queue' event on a given pull request. */
+    AddedToMergeQueueEvent = 'ADDED_TO_MERGE_QUEUE_EVENT',
+    /** Represents a 'removed_from_merge_queue' event on a given pull request. */
+    RemovedFromMergeQueueEvent = 'REMOVED_FROM_MERGE_QUEUE_EVENT',
     /** Represents a comment on an Issue. */
     IssueComment = 'ISSUE_COMMENT',
     /** Represents a mention made by one issue or pull request to another. */
@@ -11896,6 +16488,8 @@ export enum PullRequestTimelineItemsItemType {
     ConnectedEvent = 'CONNECTED_EVENT',
     /** Represents a 'converted_note_to_issue' event on a given issue or pull request. */
     ConvertedNoteToIssueEvent = 'CONVERTED_NOTE_TO_ISSUE_EVENT',
+    /** Represents a 'converted_to_discussion' event on a given issue. */
+    ConvertedToDiscussionEvent = 'CONVERTED_TO_DISCUSSION_EVENT',
     /** Represents a 'demilestoned' event on a given issue or pull request. */
     DemilestonedEvent = 'DEMILESTONED_EVENT',
     /** Represents a 'disconnected' event on a given issue or pull request. */
@@ -11960,18 +16554,18 @@ export type Push = Node & {
     permalink: Scalars['URI']
     /** The SHA before the push */
     previousSha: Maybe<Scalars['GitObjectID']>
-    /** The user who pushed */
-    pusher: User
+    /** The actor who pushed */
+    pusher: Actor
     /** The repository that was pushed to */
     repository: Repository
 }
 
-/** A team, user or app who has the ability to push to a protected branch. */
+/** A team, user, or app who has the ability to push to a protected branch. */
 export type PushAllowance = Node & {
     __typename?: 'PushAllowance'
     /** The actor that can push. */
     actor: Maybe<PushAllowanceActor>
-    /** Identifies the branch protection rule associated with the allowed user or team. */
+    /** Identifies the branch protection rule associated with the allowed user, team, or app. */
     branchProtectionRule: Maybe<BranchProtectionRule>
     id: Scalars['ID']
 }
@@ -12052,11 +16646,8 @@ export type Query = {
     securityAdvisory: Maybe<SecurityAdvisory>
     /** Software Vulnerabilities documented by GitHub Security Advisories */
     securityVulnerabilities: SecurityVulnerabilityConnection
-    /**
-     * Look up a single Sponsors Listing
-     * @deprecated `Query.sponsorsListing` will be removed. Use `Sponsorable.sponsorsListing` instead. Removal on 2020-04-01 UTC.
-     */
-    sponsorsListing: Maybe<SponsorsListing>
+    /** Users and organizations who can be sponsored via GitHub Sponsors. */
+    sponsorables: SponsorableItemConnection
     /** Look up a topic by name. */
     topic: Maybe<Topic>
     /** Lookup a user by login. */
@@ -12152,6 +16743,7 @@ export type QueryRateLimitArgs = {
 export type QueryRepositoryArgs = {
     owner: Scalars['String']
     name: Scalars['String']
+    followRenames?: Maybe<Scalars['Boolean']>
 }
 
 /** The query root of GitHub's GraphQL interface. */
@@ -12180,6 +16772,7 @@ export type QuerySecurityAdvisoriesArgs = {
     identifier: Maybe<SecurityAdvisoryIdentifierFilter>
     publishedSince: Maybe<Scalars['DateTime']>
     updatedSince: Maybe<Scalars['DateTime']>
+    classifications: Maybe<Array<SecurityAdvisoryClassification>>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -12197,6 +16790,7 @@ export type QuerySecurityVulnerabilitiesArgs = {
     ecosystem: Maybe<SecurityAdvisoryEcosystem>
     package: Maybe<Scalars['String']>
     severities: Maybe<Array<SecurityAdvisorySeverity>>
+    classifications: Maybe<Array<SecurityAdvisoryClassification>>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
@@ -12204,8 +16798,16 @@ export type QuerySecurityVulnerabilitiesArgs = {
 }
 
 /** The query root of GitHub's GraphQL interface. */
-export type QuerySponsorsListingArgs = {
-    slug: Scalars['String']
+export type QuerySponsorablesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorableOrder>
+    onlyDependencies?: Maybe<Scalars['Boolean']>
+    orgLoginForDependencies: Maybe<Scalars['String']>
+    dependencyEcosystem: Maybe<SecurityAdvisoryEcosystem>
+    ecosystem: Maybe<DependencyGraphEcosystem>
 }
 
 /** The query root of GitHub's GraphQL interface. */
@@ -12348,14 +16950,27 @@ export type ReactionGroup = {
     content: ReactionContent
     /** Identifies when the reaction was created. */
     createdAt: Maybe<Scalars['DateTime']>
+    /** Reactors to the reaction subject with the emotion represented by this reaction group. */
+    reactors: ReactorConnection
     /** The subject that was reacted to. */
     subject: Reactable
-    /** Users who have reacted to the reaction subject with the emotion represented by this reaction group */
+    /**
+     * Users who have reacted to the reaction subject with the emotion represented by this reaction group
+     * @deprecated Reactors can now be mannequins, bots, and organizations. Use the `reactors` field instead. Removal on 2021-10-01 UTC.
+     */
     users: ReactingUserConnection
     /** Whether or not the authenticated user has left a reaction on the subject. */
     viewerHasReacted: Scalars['Boolean']
 }
 
+/** A group of emoji reactions to a particular piece of content. */
+export type ReactionGroupReactorsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A group of emoji reactions to a particular piece of content. */
 export type ReactionGroupUsersArgs = {
     after: Maybe<Scalars['String']>
@@ -12378,6 +16993,33 @@ export enum ReactionOrderField {
     CreatedAt = 'CREATED_AT'
 }
 
+/** Types that can be assigned to reactions. */
+export type Reactor = Bot | Mannequin | Organization | User
+
+/** The connection type for Reactor. */
+export type ReactorConnection = {
+    __typename?: 'ReactorConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<ReactorEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<Reactor>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** Represents an author of a reaction. */
+export type ReactorEdge = {
+    __typename?: 'ReactorEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The author of the reaction. */
+    node: Reactor
+    /** The moment when the user made the reaction. */
+    reactedAt: Scalars['DateTime']
+}
+
 /** Represents a 'ready_for_review' event on a given pull request. */
 export type ReadyForReviewEvent = Node &
     UniformResourceLocatable & {
@@ -12473,16 +17115,24 @@ export type RefUpdateRule = {
     allowsDeletions: Scalars['Boolean']
     /** Are force pushes allowed on this branch. */
     allowsForcePushes: Scalars['Boolean']
+    /** Can matching branches be created. */
+    blocksCreations: Scalars['Boolean']
     /** Identifies the protection rule pattern. */
     pattern: Scalars['String']
     /** Number of approving reviews required to update matching branches. */
     requiredApprovingReviewCount: Maybe<Scalars['Int']>
     /** List of required status check contexts that must pass for commits to be accepted to matching branches. */
     requiredStatusCheckContexts: Maybe<Array<Maybe<Scalars['String']>>>
+    /** Are reviews from code owners required to update matching branches. */
+    requiresCodeOwnerReviews: Scalars['Boolean']
+    /** Are conversations required to be resolved before merging. */
+    requiresConversationResolution: Scalars['Boolean']
     /** Are merge commits prohibited from being pushed to this branch. */
     requiresLinearHistory: Scalars['Boolean']
     /** Are commits required to be signed. */
     requiresSignatures: Scalars['Boolean']
+    /** Is the viewer allowed to dismiss reviews. */
+    viewerAllowedToDismissReviews: Scalars['Boolean']
     /** Can the viewer push to the branch */
     viewerCanPush: Scalars['Boolean']
 }
@@ -12527,14 +17177,55 @@ export type RegenerateEnterpriseIdentityProviderRecoveryCodesPayload = {
     identityProvider: Maybe<EnterpriseIdentityProvider>
 }
 
+/** Autogenerated input type of RegenerateVerifiableDomainToken */
+export type RegenerateVerifiableDomainTokenInput = {
+    /** The ID of the verifiable domain to regenerate the verification token of. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of RegenerateVerifiableDomainToken */
+export type RegenerateVerifiableDomainTokenPayload = {
+    __typename?: 'RegenerateVerifiableDomainTokenPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The verification token that was generated. */
+    verificationToken: Maybe<Scalars['String']>
+}
+
+/** Autogenerated input type of RejectDeployments */
+export type RejectDeploymentsInput = {
+    /** The node ID of the workflow run containing the pending deployments. */
+    workflowRunId: Scalars['ID']
+    /** The ids of environments to reject deployments */
+    environmentIds: Array<Scalars['ID']>
+    /** Optional comment for rejecting deployments */
+    comment: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of RejectDeployments */
+export type RejectDeploymentsPayload = {
+    __typename?: 'RejectDeploymentsPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The affected deployments. */
+    deployments: Maybe<Array<Deployment>>
+}
+
 /** A release contains the content for a release. */
 export type Release = Node &
-    UniformResourceLocatable & {
+    UniformResourceLocatable &
+    Reactable & {
         __typename?: 'Release'
         /** The author of the release */
         author: Maybe<User>
         /** Identifies the date and time when the object was created. */
         createdAt: Scalars['DateTime']
+        /** Identifies the primary key from the database. */
+        databaseId: Maybe<Scalars['Int']>
         /** The description of the release. */
         description: Maybe<Scalars['String']>
         /** The description of this release rendered to HTML. */
@@ -12542,28 +17233,60 @@ export type Release = Node &
         id: Scalars['ID']
         /** Whether or not the release is a draft */
         isDraft: Scalars['Boolean']
+        /** Whether or not the release is the latest releast */
+        isLatest: Scalars['Boolean']
         /** Whether or not the release is a prerelease */
         isPrerelease: Scalars['Boolean']
+        /** A list of users mentioned in the release description */
+        mentions: Maybe<UserConnection>
         /** The title of the release. */
         name: Maybe<Scalars['String']>
         /** Identifies the date and time when the release was created. */
         publishedAt: Maybe<Scalars['DateTime']>
+        /** A list of reactions grouped by content left on the subject. */
+        reactionGroups: Maybe<Array<ReactionGroup>>
+        /** A list of Reactions left on the Issue. */
+        reactions: ReactionConnection
         /** List of releases assets which are dependent on this release. */
         releaseAssets: ReleaseAssetConnection
+        /** The repository that the release belongs to. */
+        repository: Repository
         /** The HTTP path for this issue */
         resourcePath: Scalars['URI']
         /** A description of the release, rendered to HTML without any links in it. */
         shortDescriptionHTML: Maybe<Scalars['HTML']>
         /** The Git tag the release points to */
         tag: Maybe<Ref>
+        /** The tag commit for this release. */
+        tagCommit: Maybe<Commit>
         /** The name of the release's Git tag */
         tagName: Scalars['String']
         /** Identifies the date and time when the object was last updated. */
         updatedAt: Scalars['DateTime']
         /** The HTTP URL for this issue */
         url: Scalars['URI']
+        /** Can user react to this subject */
+        viewerCanReact: Scalars['Boolean']
     }
 
+/** A release contains the content for a release. */
+export type ReleaseMentionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A release contains the content for a release. */
+export type ReleaseReactionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    content: Maybe<ReactionContent>
+    orderBy: Maybe<ReactionOrder>
+}
+
 /** A release contains the content for a release. */
 export type ReleaseReleaseAssetsArgs = {
     after: Maybe<Scalars['String']>
@@ -12843,6 +17566,23 @@ export type RemoveStarPayload = {
     starrable: Maybe<Starrable>
 }
 
+/** Autogenerated input type of RemoveUpvote */
+export type RemoveUpvoteInput = {
+    /** The Node ID of the discussion or comment to remove upvote. */
+    subjectId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of RemoveUpvote */
+export type RemoveUpvotePayload = {
+    __typename?: 'RemoveUpvotePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The votable subject. */
+    subject: Maybe<Votable>
+}
+
 /** Represents a 'removed_from_project' event on a given issue or pull request. */
 export type RemovedFromProjectEvent = Node & {
     __typename?: 'RemovedFromProjectEvent'
@@ -12918,6 +17658,8 @@ export type ReopenedEvent = Node & {
     /** Identifies the date and time when the object was created. */
     createdAt: Scalars['DateTime']
     id: Scalars['ID']
+    /** The reason the issue state was changed to open. */
+    stateReason: Maybe<IssueStateReason>
 }
 
 /** Audit log entry for a repo.access event. */
@@ -13764,7 +18506,7 @@ export type RepoCreateAuditEntry = Node &
         createdAt: Scalars['PreciseDateTime']
         /** The name of the parent repository for this forked repository. */
         forkParentName: Maybe<Scalars['String']>
-        /** The name of the root repository for this netork. */
+        /** The name of the root repository for this network. */
         forkSourceName: Maybe<Scalars['String']>
         id: Scalars['ID']
         /** The corresponding operation type for the action */
@@ -14007,6 +18749,7 @@ export enum ReportedContentClassifiers {
 
 /** A repository contains the content for a project. */
 export type Repository = Node &
+    ProjectV2Recent &
     ProjectOwner &
     PackageOwner &
     Subscribable &
@@ -14014,12 +18757,18 @@ export type Repository = Node &
     UniformResourceLocatable &
     RepositoryInfo & {
         __typename?: 'Repository'
+        /** Whether or not a pull request head branch that is behind its base branch can always be updated even if it is not required to be up to date before merging. */
+        allowUpdateBranch: Scalars['Boolean']
         /** A list of users that can be assigned to issues in this repository. */
         assignableUsers: UserConnection
+        /** Whether or not Auto-merge can be enabled on pull requests in this repository. */
+        autoMergeAllowed: Scalars['Boolean']
         /** A list of branch protection rules for this repository. */
         branchProtectionRules: BranchProtectionRuleConnection
         /** Returns the code of conduct for this repository */
         codeOfConduct: Maybe<CodeOfConduct>
+        /** Information extracted from the repository's `CODEOWNERS` file. */
+        codeowners: Maybe<RepositoryCodeowners>
         /** A list of collaborators associated with the repository. */
         collaborators: Maybe<RepositoryCollaboratorConnection>
         /** A list of commit comments associated with the repository. */
@@ -14042,10 +18791,22 @@ export type Repository = Node &
         description: Maybe<Scalars['String']>
         /** The description of the repository rendered to HTML. */
         descriptionHTML: Scalars['HTML']
+        /** Returns a single discussion from the current repository by number. */
+        discussion: Maybe<Discussion>
+        /** A list of discussion categories that are available in the repository. */
+        discussionCategories: DiscussionCategoryConnection
+        /** A list of discussions that have been opened in the repository. */
+        discussions: DiscussionConnection
         /** The number of kilobytes this repository occupies on disk. */
         diskUsage: Maybe<Scalars['Int']>
+        /** Returns a single active environment from the current repository by name. */
+        environment: Maybe<Environment>
+        /** A list of environments that are in this repository. */
+        environments: EnvironmentConnection
         /** Returns how many forks there are of this repository in the whole network. */
         forkCount: Scalars['Int']
+        /** Whether this repository allows forks. */
+        forkingAllowed: Scalars['Boolean']
         /** A list of direct forked repositories. */
         forks: RepositoryConnection
         /** The funding links for this repository */
@@ -14077,7 +18838,7 @@ export type Repository = Node &
         isLocked: Scalars['Boolean']
         /** Identifies if the repository is a mirror. */
         isMirror: Scalars['Boolean']
-        /** Identifies if the repository is private. */
+        /** Identifies if the repository is private or internal. */
         isPrivate: Scalars['Boolean']
         /** Returns true if this repository has a security policy */
         isSecurityPolicyEnabled: Maybe<Scalars['Boolean']>
@@ -14099,6 +18860,8 @@ export type Repository = Node &
         labels: Maybe<LabelConnection>
         /** A list containing a breakdown of the language composition of the repository. */
         languages: Maybe<LanguageConnection>
+        /** Get the latest release for the repository if one exists. */
+        latestRelease: Maybe<Release>
         /** The license associated with the repository */
         licenseInfo: Maybe<License>
         /** The reason the repository has been locked. */
@@ -14127,24 +18890,46 @@ export type Repository = Node &
         packages: PackageConnection
         /** The repository parent, if this is a fork. */
         parent: Maybe<Repository>
+        /** A list of discussions that have been pinned in this repository. */
+        pinnedDiscussions: PinnedDiscussionConnection
+        /** A list of pinned issues for this repository. */
+        pinnedIssues: Maybe<PinnedIssueConnection>
         /** The primary language of the repository's code. */
         primaryLanguage: Maybe<Language>
         /** Find project by number. */
         project: Maybe<Project>
+        /**
+         * Finds and returns the Project (beta) according to the provided Project (beta) number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNext: Maybe<ProjectNext>
+        /** Finds and returns the Project according to the provided Project number. */
+        projectV2: Maybe<ProjectV2>
         /** A list of projects under the owner. */
         projects: ProjectConnection
+        /**
+         * List of projects (beta) linked to this repository.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectsNext: ProjectNextConnection
         /** The HTTP path listing the repository's projects */
         projectsResourcePath: Scalars['URI']
         /** The HTTP URL listing the repository's projects */
         projectsUrl: Scalars['URI']
+        /** List of projects linked to this repository. */
+        projectsV2: ProjectV2Connection
         /** Returns a single pull request from the current repository by number. */
         pullRequest: Maybe<PullRequest>
+        /** Returns a list of pull request templates associated to the repository */
+        pullRequestTemplates: Maybe<Array<PullRequestTemplate>>
         /** A list of pull requests that have been opened in the repository. */
         pullRequests: PullRequestConnection
         /** Identifies when the repository was last pushed to. */
         pushedAt: Maybe<Scalars['DateTime']>
         /** Whether or not rebase-merging is enabled on this repository. */
         rebaseMergeAllowed: Scalars['Boolean']
+        /** Recent projects that this user has modified in the context of the owner. */
+        recentProjects: ProjectV2Connection
         /** Fetch a given ref from the repository */
         ref: Maybe<Ref>
         /** Fetch a list of refs from the repository */
@@ -14163,6 +18948,8 @@ export type Repository = Node &
         shortDescriptionHTML: Scalars['HTML']
         /** Whether or not squash-merging is enabled on this repository. */
         squashMergeAllowed: Scalars['Boolean']
+        /** Whether a squash merge commit can use the pull request title as default. */
+        squashPrTitleUsedAsDefault: Scalars['Boolean']
         /** The SSH URL to clone this repository */
         sshUrl: Scalars['GitSSHRemote']
         /** Returns a count of how many stargazers there are on this object */
@@ -14201,6 +18988,8 @@ export type Repository = Node &
         viewerPossibleCommitEmails: Maybe<Array<Scalars['String']>>
         /** Identifies if the viewer is watching, not watching, or ignoring the subscribable entity. */
         viewerSubscription: Maybe<SubscriptionState>
+        /** Indicates the repository's visibility level. */
+        visibility: RepositoryVisibility
         /** A list of vulnerability alerts that are on this repository. */
         vulnerabilityAlerts: Maybe<RepositoryVulnerabilityAlertConnection>
         /** A list of users watching the repository. */
@@ -14224,6 +19013,11 @@ export type RepositoryBranchProtectionRulesArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryCodeownersArgs = {
+    refName: Maybe<Scalars['String']>
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryCollaboratorsArgs = {
     affiliation: Maybe<CollaboratorAffiliation>
@@ -14260,6 +19054,43 @@ export type RepositoryDeploymentsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryDiscussionArgs = {
+    number: Scalars['Int']
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryDiscussionCategoriesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    filterByAssignable?: Maybe<Scalars['Boolean']>
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryDiscussionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    categoryId?: Maybe<Scalars['ID']>
+    orderBy?: Maybe<DiscussionOrder>
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryEnvironmentArgs = {
+    name: Scalars['String']
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryEnvironmentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryForksArgs = {
     privacy: Maybe<RepositoryPrivacy>
@@ -14362,11 +19193,37 @@ export type RepositoryPackagesArgs = {
     orderBy?: Maybe<PackageOrder>
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryPinnedDiscussionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryPinnedIssuesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryProjectArgs = {
     number: Scalars['Int']
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryProjectV2Args = {
+    number: Scalars['Int']
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryProjectsArgs = {
     orderBy: Maybe<ProjectOrder>
@@ -14378,6 +19235,26 @@ export type RepositoryProjectsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
+/** A repository contains the content for a project. */
+export type RepositoryProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryPullRequestArgs = {
     number: Scalars['Int']
@@ -14396,6 +19273,14 @@ export type RepositoryPullRequestsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A repository contains the content for a project. */
+export type RepositoryRecentProjectsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A repository contains the content for a project. */
 export type RepositoryRefArgs = {
     qualifiedName: Scalars['String']
@@ -14463,6 +19348,7 @@ export type RepositoryVulnerabilityAlertsArgs = {
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
     last: Maybe<Scalars['Int']>
+    states: Maybe<Array<RepositoryVulnerabilityAlertState>>
 }
 
 /** A repository contains the content for a project. */
@@ -14495,6 +19381,32 @@ export type RepositoryAuditEntryData = {
     repositoryUrl: Maybe<Scalars['URI']>
 }
 
+/** Information extracted from a repository's `CODEOWNERS` file. */
+export type RepositoryCodeowners = {
+    __typename?: 'RepositoryCodeowners'
+    /** Any problems that were encountered while parsing the `CODEOWNERS` file. */
+    errors: Array<RepositoryCodeownersError>
+}
+
+/** An error in a `CODEOWNERS` file. */
+export type RepositoryCodeownersError = {
+    __typename?: 'RepositoryCodeownersError'
+    /** The column number where the error occurs. */
+    column: Scalars['Int']
+    /** A short string describing the type of error. */
+    kind: Scalars['String']
+    /** The line number where the error occurs. */
+    line: Scalars['Int']
+    /** A complete description of the error, combining information from other fields. */
+    message: Scalars['String']
+    /** The path to the file when the error occurs. */
+    path: Scalars['String']
+    /** The content of the line where the error occurs. */
+    source: Scalars['String']
+    /** A suggestion of how to fix the error. */
+    suggestion: Maybe<Scalars['String']>
+}
+
 /** The connection type for User. */
 export type RepositoryCollaboratorConnection = {
     __typename?: 'RepositoryCollaboratorConnection'
@@ -14560,6 +19472,39 @@ export enum RepositoryContributionType {
     PullRequestReview = 'PULL_REQUEST_REVIEW'
 }
 
+/** Represents an author of discussions in repositories. */
+export type RepositoryDiscussionAuthor = {
+    /** Discussions this user has started. */
+    repositoryDiscussions: DiscussionConnection
+}
+
+/** Represents an author of discussions in repositories. */
+export type RepositoryDiscussionAuthorRepositoryDiscussionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<DiscussionOrder>
+    repositoryId: Maybe<Scalars['ID']>
+    answered?: Maybe<Scalars['Boolean']>
+}
+
+/** Represents an author of discussion comments in repositories. */
+export type RepositoryDiscussionCommentAuthor = {
+    /** Discussion comments this user has authored. */
+    repositoryDiscussionComments: DiscussionCommentConnection
+}
+
+/** Represents an author of discussion comments in repositories. */
+export type RepositoryDiscussionCommentAuthorRepositoryDiscussionCommentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    repositoryId: Maybe<Scalars['ID']>
+    onlyAnswers?: Maybe<Scalars['Boolean']>
+}
+
 /** An edge in a connection. */
 export type RepositoryEdge = {
     __typename?: 'RepositoryEdge'
@@ -14597,7 +19542,7 @@ export type RepositoryInfo = {
     isLocked: Scalars['Boolean']
     /** Identifies if the repository is a mirror. */
     isMirror: Scalars['Boolean']
-    /** Identifies if the repository is private. */
+    /** Identifies if the repository is private or internal. */
     isPrivate: Scalars['Boolean']
     /** Identifies if the repository is a template that can be used to generate new repositories. */
     isTemplate: Scalars['Boolean']
@@ -14627,6 +19572,8 @@ export type RepositoryInfo = {
     url: Scalars['URI']
     /** Whether this repository has a custom image to use with Open Graph as opposed to being represented by the owner's avatar. */
     usesCustomOpenGraphImage: Scalars['Boolean']
+    /** Indicates the repository's visibility level. */
+    visibility: RepositoryVisibility
 }
 
 /** A subset of repository info. */
@@ -14699,7 +19646,7 @@ export type RepositoryInvitation = Node & {
     repository: Maybe<RepositoryInfo>
 }
 
-/** The connection type for RepositoryInvitation. */
+/** A list of repository invitations. */
 export type RepositoryInvitationConnection = {
     __typename?: 'RepositoryInvitationConnection'
     /** A list of edges. */
@@ -14732,9 +19679,7 @@ export type RepositoryInvitationOrder = {
 /** Properties by which repository invitation connections can be ordered. */
 export enum RepositoryInvitationOrderField {
     /** Order repository invitations by creation time */
-    CreatedAt = 'CREATED_AT',
-    /** Order repository invitations by invitee login */
-    InviteeLogin = 'INVITEE_LOGIN'
+    CreatedAt = 'CREATED_AT'
 }
 
 /** The possible reasons a given repository could be in a locked state. */
@@ -14749,6 +19694,73 @@ export enum RepositoryLockReason {
     Migrating = 'MIGRATING'
 }
 
+/** An Octoshift repository migration. */
+export type RepositoryMigration = Node &
+    Migration & {
+        __typename?: 'RepositoryMigration'
+        /** The Octoshift migration flag to continue on error. */
+        continueOnError: Scalars['Boolean']
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The reason the migration failed. */
+        failureReason: Maybe<Scalars['String']>
+        id: Scalars['ID']
+        /** The URL for the migration log (expires 1 day after migration completes). */
+        migrationLogUrl: Maybe<Scalars['URI']>
+        /** The Octoshift migration source. */
+        migrationSource: MigrationSource
+        /** The target repository name. */
+        repositoryName: Scalars['String']
+        /** The Octoshift migration source URL. */
+        sourceUrl: Scalars['URI']
+        /** The Octoshift migration state. */
+        state: MigrationState
+    }
+
+/** The connection type for RepositoryMigration. */
+export type RepositoryMigrationConnection = {
+    __typename?: 'RepositoryMigrationConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<RepositoryMigrationEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<RepositoryMigration>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** Represents a repository migration. */
+export type RepositoryMigrationEdge = {
+    __typename?: 'RepositoryMigrationEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<RepositoryMigration>
+}
+
+/** Ordering options for repository migrations. */
+export type RepositoryMigrationOrder = {
+    /** The field to order repository migrations by. */
+    field: RepositoryMigrationOrderField
+    /** The ordering direction. */
+    direction: RepositoryMigrationOrderDirection
+}
+
+/** Possible directions in which to order a list of repository migrations when provided an `orderBy` argument. */
+export enum RepositoryMigrationOrderDirection {
+    /** Specifies an ascending order for a given `orderBy` argument. */
+    Asc = 'ASC',
+    /** Specifies a descending order for a given `orderBy` argument. */
+    Desc = 'DESC'
+}
+
+/** Properties by which repository migrations can be ordered. */
+export enum RepositoryMigrationOrderField {
+    /** Order mannequins why when they were created. */
+    CreatedAt = 'CREATED_AT'
+}
+
 /** Represents a object that belongs to a repository. */
 export type RepositoryNode = {
     /** The repository associated with this node. */
@@ -14816,6 +19828,7 @@ export type RepositoryOwnerRepositoriesArgs = {
 /** Represents an owner of a Repository. */
 export type RepositoryOwnerRepositoryArgs = {
     name: Scalars['String']
+    followRenames?: Maybe<Scalars['Boolean']>
 }
 
 /** The access level to a repository */
@@ -14983,25 +19996,38 @@ export type RepositoryVisibilityChangeEnableAuditEntry = Node &
         userUrl: Maybe<Scalars['URI']>
     }
 
-/** A alert for a repository with an affected vulnerability. */
+/** A Dependabot alert for a repository with a dependency affected by a security vulnerability. */
 export type RepositoryVulnerabilityAlert = Node &
     RepositoryNode & {
         __typename?: 'RepositoryVulnerabilityAlert'
         /** When was the alert created? */
         createdAt: Scalars['DateTime']
+        /** The associated Dependabot update */
+        dependabotUpdate: Maybe<DependabotUpdate>
         /** The reason the alert was dismissed */
         dismissReason: Maybe<Scalars['String']>
-        /** When was the alert dimissed? */
+        /** When was the alert dismissed? */
         dismissedAt: Maybe<Scalars['DateTime']>
         /** The user who dismissed the alert */
         dismisser: Maybe<User>
+        /**
+         * The reason the alert was marked as fixed.
+         * @deprecated The `fixReason` field is being removed. You can still use `fixedAt` and `dismissReason`. Removal on 2022-10-01 UTC.
+         */
+        fixReason: Maybe<Scalars['String']>
+        /** When was the alert fixed? */
+        fixedAt: Maybe<Scalars['DateTime']>
         id: Scalars['ID']
+        /** Identifies the alert number. */
+        number: Scalars['Int']
         /** The associated repository */
         repository: Repository
         /** The associated security advisory */
         securityAdvisory: Maybe<SecurityAdvisory>
-        /** The associated security vulnerablity */
+        /** The associated security vulnerability */
         securityVulnerability: Maybe<SecurityVulnerability>
+        /** Identifies the state of the alert. */
+        state: RepositoryVulnerabilityAlertState
         /** The vulnerable manifest filename */
         vulnerableManifestFilename: Scalars['String']
         /** The vulnerable manifest path */
@@ -15032,6 +20058,16 @@ export type RepositoryVulnerabilityAlertEdge = {
     node: Maybe<RepositoryVulnerabilityAlert>
 }
 
+/** The possible states of an alert */
+export enum RepositoryVulnerabilityAlertState {
+    /** An alert that is still open. */
+    Open = 'OPEN',
+    /** An alert that has been resolved by a code change. */
+    Fixed = 'FIXED',
+    /** An alert that has been manually closed by a user. */
+    Dismissed = 'DISMISSED'
+}
+
 /** Autogenerated input type of RequestReviews */
 export type RequestReviewsInput = {
     /** The Node ID of the pull request to modify. */
@@ -15068,12 +20104,65 @@ export enum RequestableCheckStatusState {
     /** The check suite or run has been completed. */
     Completed = 'COMPLETED',
     /** The check suite or run is in waiting state. */
-    Waiting = 'WAITING'
+    Waiting = 'WAITING',
+    /** The check suite or run is in pending state. */
+    Pending = 'PENDING'
 }
 
 /** Types that can be requested reviewers. */
 export type RequestedReviewer = Mannequin | Team | User
 
+/** The connection type for RequestedReviewer. */
+export type RequestedReviewerConnection = {
+    __typename?: 'RequestedReviewerConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<RequestedReviewerEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<RequestedReviewer>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type RequestedReviewerEdge = {
+    __typename?: 'RequestedReviewerEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<RequestedReviewer>
+}
+
+/** Represents a type that can be required by a pull request for merging. */
+export type RequirableByPullRequest = {
+    /** Whether this is required to pass before merging for a specific pull request. */
+    isRequired: Scalars['Boolean']
+}
+
+/** Represents a type that can be required by a pull request for merging. */
+export type RequirableByPullRequestIsRequiredArgs = {
+    pullRequestId: Maybe<Scalars['ID']>
+    pullRequestNumber: Maybe<Scalars['Int']>
+}
+
+/** Represents a required status check for a protected branch, but not any specific run of that check. */
+export type RequiredStatusCheckDescription = {
+    __typename?: 'RequiredStatusCheckDescription'
+    /** The App that must provide this status in order for it to be accepted. */
+    app: Maybe<App>
+    /** The name of this status. */
+    context: Scalars['String']
+}
+
+/** Specifies the attributes for a new or updated required status check. */
+export type RequiredStatusCheckInput = {
+    /** Status check context that must pass for commits to be accepted to the matching branch. */
+    context: Scalars['String']
+    /** The ID of the App that must set the status in order for it to be accepted. Omit this value to use whichever app has recently been setting this status, or use "any" to allow any app to set the status. */
+    appId: Maybe<Scalars['ID']>
+}
+
 /** Autogenerated input type of RerequestCheckSuite */
 export type RerequestCheckSuiteInput = {
     /** The Node ID of the repository. */
@@ -15129,18 +20218,18 @@ export type RestrictedContribution = Contribution & {
     user: User
 }
 
-/** A team or user who has the ability to dismiss a review on a protected branch. */
+/** A user, team, or app who has the ability to dismiss a review on a protected branch. */
 export type ReviewDismissalAllowance = Node & {
     __typename?: 'ReviewDismissalAllowance'
     /** The actor that can dismiss. */
     actor: Maybe<ReviewDismissalAllowanceActor>
-    /** Identifies the branch protection rule associated with the allowed user or team. */
+    /** Identifies the branch protection rule associated with the allowed user, team, or app. */
     branchProtectionRule: Maybe<BranchProtectionRule>
     id: Scalars['ID']
 }
 
 /** Types that can be an actor. */
-export type ReviewDismissalAllowanceActor = Team | User
+export type ReviewDismissalAllowanceActor = App | Team | User
 
 /** The connection type for ReviewDismissalAllowance. */
 export type ReviewDismissalAllowanceConnection = {
@@ -15271,6 +20360,64 @@ export type ReviewStatusHovercardContext = HovercardContext & {
     reviewDecision: Maybe<PullRequestReviewDecision>
 }
 
+/** Autogenerated input type of RevokeEnterpriseOrganizationsMigratorRole */
+export type RevokeEnterpriseOrganizationsMigratorRoleInput = {
+    /** The ID of the enterprise to which all organizations managed by it will be granted the migrator role. */
+    enterpriseId: Scalars['ID']
+    /** The login of the user to revoke the migrator role */
+    login: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of RevokeEnterpriseOrganizationsMigratorRole */
+export type RevokeEnterpriseOrganizationsMigratorRolePayload = {
+    __typename?: 'RevokeEnterpriseOrganizationsMigratorRolePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The organizations that had the migrator role revoked for the given user. */
+    organizations: Maybe<OrganizationConnection>
+}
+
+/** Autogenerated return type of RevokeEnterpriseOrganizationsMigratorRole */
+export type RevokeEnterpriseOrganizationsMigratorRolePayloadOrganizationsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** Autogenerated input type of RevokeMigratorRole */
+export type RevokeMigratorRoleInput = {
+    /** The ID of the organization that the user/team belongs to. */
+    organizationId: Scalars['ID']
+    /** The user login or Team slug to revoke the migrator role from. */
+    actor: Scalars['String']
+    /** Specifies the type of the actor, can be either USER or TEAM. */
+    actorType: ActorType
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of RevokeMigratorRole */
+export type RevokeMigratorRolePayload = {
+    __typename?: 'RevokeMigratorRolePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** Did the operation succeed? */
+    success: Maybe<Scalars['Boolean']>
+}
+
+/** Possible roles a user may have in relation to an organization. */
+export enum RoleInOrganization {
+    /** A user with full administrative access to the organization. */
+    Owner = 'OWNER',
+    /** A user who is a direct member of the organization. */
+    DirectMember = 'DIRECT_MEMBER',
+    /** A user who is unaffiliated with the organization. */
+    Unaffiliated = 'UNAFFILIATED'
+}
+
 /** The possible digest algorithms used to sign SAML requests for an identity provider. */
 export enum SamlDigestAlgorithm {
     /** SHA1 */
@@ -15348,13 +20495,15 @@ export enum SavedReplyOrderField {
 }
 
 /** The results of a search. */
-export type SearchResultItem = App | Issue | MarketplaceListing | Organization | PullRequest | Repository | User
+export type SearchResultItem = App | Discussion | Issue | MarketplaceListing | Organization | PullRequest | Repository | User
 
 /** A list of results that matched against a search query. */
 export type SearchResultItemConnection = {
     __typename?: 'SearchResultItemConnection'
     /** The number of pieces of code that matched the search query. */
     codeCount: Scalars['Int']
+    /** The number of discussions that matched the search query. */
+    discussionCount: Scalars['Int']
     /** A list of edges. */
     edges: Maybe<Array<Maybe<SearchResultItemEdge>>>
     /** The number of issues that matched the search query. */
@@ -15389,12 +20538,20 @@ export enum SearchType {
     /** Returns results matching repositories. */
     Repository = 'REPOSITORY',
     /** Returns results matching users and organizations on GitHub. */
-    User = 'USER'
+    User = 'USER',
+    /** Returns matching discussions in repositories. */
+    Discussion = 'DISCUSSION'
 }
 
 /** A GitHub Security Advisory */
 export type SecurityAdvisory = Node & {
     __typename?: 'SecurityAdvisory'
+    /** The classification of the advisory */
+    classification: SecurityAdvisoryClassification
+    /** The CVSS associated with this advisory */
+    cvss: Cvss
+    /** CWEs associated with this Advisory */
+    cwes: CweConnection
     /** Identifies the primary key from the database. */
     databaseId: Maybe<Scalars['Int']>
     /** This is a long plaintext description of the advisory */
@@ -15404,6 +20561,8 @@ export type SecurityAdvisory = Node & {
     id: Scalars['ID']
     /** A list of identifiers for this advisory */
     identifiers: Array<SecurityAdvisoryIdentifier>
+    /** The permalink for the advisory's dependabot alerts page */
+    notificationsPermalink: Maybe<Scalars['URI']>
     /** The organization that originated the advisory */
     origin: Scalars['String']
     /** The permalink for the advisory */
@@ -15424,18 +20583,35 @@ export type SecurityAdvisory = Node & {
     withdrawnAt: Maybe<Scalars['DateTime']>
 }
 
+/** A GitHub Security Advisory */
+export type SecurityAdvisoryCwesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A GitHub Security Advisory */
 export type SecurityAdvisoryVulnerabilitiesArgs = {
     orderBy?: Maybe<SecurityVulnerabilityOrder>
     ecosystem: Maybe<SecurityAdvisoryEcosystem>
     package: Maybe<Scalars['String']>
     severities: Maybe<Array<SecurityAdvisorySeverity>>
+    classifications: Maybe<Array<SecurityAdvisoryClassification>>
     after: Maybe<Scalars['String']>
     before: Maybe<Scalars['String']>
     first: Maybe<Scalars['Int']>
     last: Maybe<Scalars['Int']>
 }
 
+/** Classification of the advisory. */
+export enum SecurityAdvisoryClassification {
+    /** Classification of general advisories. */
+    General = 'GENERAL',
+    /** Classification of malware advisories. */
+    Malware = 'MALWARE'
+}
+
 /** The connection type for SecurityAdvisory. */
 export type SecurityAdvisoryConnection = {
     __typename?: 'SecurityAdvisoryConnection'
@@ -15451,18 +20627,24 @@ export type SecurityAdvisoryConnection = {
 
 /** The possible ecosystems of a security vulnerability's package. */
 export enum SecurityAdvisoryEcosystem {
-    /** Ruby gems hosted at RubyGems.org */
-    Rubygems = 'RUBYGEMS',
-    /** JavaScript packages hosted at npmjs.com */
-    Npm = 'NPM',
-    /** Python packages hosted at PyPI.org */
-    Pip = 'PIP',
+    /** PHP packages hosted at packagist.org */
+    Composer = 'COMPOSER',
+    /** Erlang/Elixir packages hosted at hex.pm */
+    Erlang = 'ERLANG',
+    /** Go modules */
+    Go = 'GO',
     /** Java artifacts hosted at the Maven central repository */
     Maven = 'MAVEN',
+    /** JavaScript packages hosted at npmjs.com */
+    Npm = 'NPM',
     /** .NET packages hosted at the NuGet Gallery */
     Nuget = 'NUGET',
-    /** PHP packages hosted at packagist.org */
-    Composer = 'COMPOSER'
+    /** Python packages hosted at PyPI.org */
+    Pip = 'PIP',
+    /** Ruby gems hosted at RubyGems.org */
+    Rubygems = 'RUBYGEMS',
+    /** Rust crates */
+    Rust = 'RUST'
 }
 
 /** An edge in a connection. */
@@ -15720,17 +20902,82 @@ export type SmimeSignature = GitSignature & {
     wasSignedByGitHub: Scalars['Boolean']
 }
 
-/** Entites that can sponsor others via GitHub Sponsors */
+/** Represents a sort by field and direction. */
+export type SortBy = {
+    __typename?: 'SortBy'
+    /** The direction of the sorting. Possible values are ASC and DESC. */
+    direction: OrderDirection
+    /** The id of the field by which the column is sorted. */
+    field: Scalars['Int']
+}
+
+/** Entities that can sponsor others via GitHub Sponsors */
 export type Sponsor = Organization | User
 
+/** The connection type for Sponsor. */
+export type SponsorConnection = {
+    __typename?: 'SponsorConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<SponsorEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<Sponsor>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** Represents a user or organization who is sponsoring someone in GitHub Sponsors. */
+export type SponsorEdge = {
+    __typename?: 'SponsorEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<Sponsor>
+}
+
+/** Ordering options for connections to get sponsor entities for GitHub Sponsors. */
+export type SponsorOrder = {
+    /** The field to order sponsor entities by. */
+    field: SponsorOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which sponsor connections can be ordered. */
+export enum SponsorOrderField {
+    /** Order sponsorable entities by login (username). */
+    Login = 'LOGIN',
+    /** Order sponsors by their relevance to the viewer. */
+    Relevance = 'RELEVANCE'
+}
+
 /** Entities that can be sponsored through GitHub Sponsors */
 export type Sponsorable = {
+    /** The estimated next GitHub Sponsors payout for this user/organization in cents (USD). */
+    estimatedNextSponsorsPayoutInCents: Scalars['Int']
     /** True if this user/organization has a GitHub Sponsors listing. */
     hasSponsorsListing: Scalars['Boolean']
+    /** Check if the given account is sponsoring this user/organization. */
+    isSponsoredBy: Scalars['Boolean']
     /** True if the viewer is sponsored by this user/organization. */
     isSponsoringViewer: Scalars['Boolean']
+    /** The estimated monthly GitHub Sponsors income for this user/organization in cents (USD). */
+    monthlyEstimatedSponsorsIncomeInCents: Scalars['Int']
+    /** List of users and organizations this entity is sponsoring. */
+    sponsoring: SponsorConnection
+    /** List of sponsors for this user or organization. */
+    sponsors: SponsorConnection
+    /** Events involving this sponsorable, such as new sponsorships. */
+    sponsorsActivities: SponsorsActivityConnection
     /** The GitHub Sponsors listing for this user or organization. */
     sponsorsListing: Maybe<SponsorsListing>
+    /** The sponsorship from the viewer to this user/organization; that is, the sponsorship where you're the sponsor. Only returns a sponsorship if it is active. */
+    sponsorshipForViewerAsSponsor: Maybe<Sponsorship>
+    /** The sponsorship from this user/organization to the viewer; that is, the sponsorship you're receiving. Only returns a sponsorship if it is active. */
+    sponsorshipForViewerAsSponsorable: Maybe<Sponsorship>
+    /** List of sponsorship updates sent from this sponsorable to sponsors. */
+    sponsorshipNewsletters: SponsorshipNewsletterConnection
     /** This object's sponsorships as the maintainer. */
     sponsorshipsAsMaintainer: SponsorshipConnection
     /** This object's sponsorships as the sponsor. */
@@ -15741,6 +20988,49 @@ export type Sponsorable = {
     viewerIsSponsoring: Scalars['Boolean']
 }
 
+/** Entities that can be sponsored through GitHub Sponsors */
+export type SponsorableIsSponsoredByArgs = {
+    accountLogin: Scalars['String']
+}
+
+/** Entities that can be sponsored through GitHub Sponsors */
+export type SponsorableSponsoringArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** Entities that can be sponsored through GitHub Sponsors */
+export type SponsorableSponsorsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    tierId: Maybe<Scalars['ID']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** Entities that can be sponsored through GitHub Sponsors */
+export type SponsorableSponsorsActivitiesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    period?: Maybe<SponsorsActivityPeriod>
+    orderBy?: Maybe<SponsorsActivityOrder>
+}
+
+/** Entities that can be sponsored through GitHub Sponsors */
+export type SponsorableSponsorshipNewslettersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorshipNewsletterOrder>
+}
+
 /** Entities that can be sponsored through GitHub Sponsors */
 export type SponsorableSponsorshipsAsMaintainerArgs = {
     after: Maybe<Scalars['String']>
@@ -15760,9 +21050,155 @@ export type SponsorableSponsorshipsAsSponsorArgs = {
     orderBy: Maybe<SponsorshipOrder>
 }
 
+/** Entities that can be sponsored via GitHub Sponsors */
+export type SponsorableItem = Organization | User
+
+/** The connection type for SponsorableItem. */
+export type SponsorableItemConnection = {
+    __typename?: 'SponsorableItemConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<SponsorableItemEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<SponsorableItem>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type SponsorableItemEdge = {
+    __typename?: 'SponsorableItemEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<SponsorableItem>
+}
+
+/** Ordering options for connections to get sponsorable entities for GitHub Sponsors. */
+export type SponsorableOrder = {
+    /** The field to order sponsorable entities by. */
+    field: SponsorableOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which sponsorable connections can be ordered. */
+export enum SponsorableOrderField {
+    /** Order sponsorable entities by login (username). */
+    Login = 'LOGIN'
+}
+
+/** An event related to sponsorship activity. */
+export type SponsorsActivity = Node & {
+    __typename?: 'SponsorsActivity'
+    /** What action this activity indicates took place. */
+    action: SponsorsActivityAction
+    id: Scalars['ID']
+    /** The tier that the sponsorship used to use, for tier change events. */
+    previousSponsorsTier: Maybe<SponsorsTier>
+    /** The user or organization who triggered this activity and was/is sponsoring the sponsorable. */
+    sponsor: Maybe<Sponsor>
+    /** The user or organization that is being sponsored, the maintainer. */
+    sponsorable: Sponsorable
+    /** The associated sponsorship tier. */
+    sponsorsTier: Maybe<SponsorsTier>
+    /** The timestamp of this event. */
+    timestamp: Maybe<Scalars['DateTime']>
+}
+
+/** The possible actions that GitHub Sponsors activities can represent. */
+export enum SponsorsActivityAction {
+    /** The activity was starting a sponsorship. */
+    NewSponsorship = 'NEW_SPONSORSHIP',
+    /** The activity was cancelling a sponsorship. */
+    CancelledSponsorship = 'CANCELLED_SPONSORSHIP',
+    /** The activity was changing the sponsorship tier, either directly by the sponsor or by a scheduled/pending change. */
+    TierChange = 'TIER_CHANGE',
+    /** The activity was funds being refunded to the sponsor or GitHub. */
+    Refund = 'REFUND',
+    /** The activity was scheduling a downgrade or cancellation. */
+    PendingChange = 'PENDING_CHANGE',
+    /** The activity was disabling matching for a previously matched sponsorship. */
+    SponsorMatchDisabled = 'SPONSOR_MATCH_DISABLED'
+}
+
+/** The connection type for SponsorsActivity. */
+export type SponsorsActivityConnection = {
+    __typename?: 'SponsorsActivityConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<SponsorsActivityEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<SponsorsActivity>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type SponsorsActivityEdge = {
+    __typename?: 'SponsorsActivityEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<SponsorsActivity>
+}
+
+/** Ordering options for GitHub Sponsors activity connections. */
+export type SponsorsActivityOrder = {
+    /** The field to order activity by. */
+    field: SponsorsActivityOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which GitHub Sponsors activity connections can be ordered. */
+export enum SponsorsActivityOrderField {
+    /** Order activities by when they happened. */
+    Timestamp = 'TIMESTAMP'
+}
+
+/** The possible time periods for which Sponsors activities can be requested. */
+export enum SponsorsActivityPeriod {
+    /** The previous calendar day. */
+    Day = 'DAY',
+    /** The previous seven days. */
+    Week = 'WEEK',
+    /** The previous thirty days. */
+    Month = 'MONTH',
+    /** Don't restrict the activity to any date range, include all activity. */
+    All = 'ALL'
+}
+
+/** A goal associated with a GitHub Sponsors listing, representing a target the sponsored maintainer would like to attain. */
+export type SponsorsGoal = {
+    __typename?: 'SponsorsGoal'
+    /** A description of the goal from the maintainer. */
+    description: Maybe<Scalars['String']>
+    /** What the objective of this goal is. */
+    kind: SponsorsGoalKind
+    /** The percentage representing how complete this goal is, between 0-100. */
+    percentComplete: Scalars['Int']
+    /** What the goal amount is. Represents an amount in USD for monthly sponsorship amount goals. Represents a count of unique sponsors for total sponsors count goals. */
+    targetValue: Scalars['Int']
+    /** A brief summary of the kind and target value of this goal. */
+    title: Scalars['String']
+}
+
+/** The different kinds of goals a GitHub Sponsors member can have. */
+export enum SponsorsGoalKind {
+    /** The goal is about reaching a certain number of sponsors. */
+    TotalSponsorsCount = 'TOTAL_SPONSORS_COUNT',
+    /** The goal is about getting a certain amount in USD from sponsorships each month. */
+    MonthlySponsorshipAmount = 'MONTHLY_SPONSORSHIP_AMOUNT'
+}
+
 /** A GitHub Sponsors listing. */
 export type SponsorsListing = Node & {
     __typename?: 'SponsorsListing'
+    /** The current goal the maintainer is trying to reach with GitHub Sponsors, if any. */
+    activeGoal: Maybe<SponsorsGoal>
     /** Identifies the date and time when the object was created. */
     createdAt: Scalars['DateTime']
     /** The full description of the listing. */
@@ -15770,12 +21206,18 @@ export type SponsorsListing = Node & {
     /** The full description of the listing rendered to HTML. */
     fullDescriptionHTML: Scalars['HTML']
     id: Scalars['ID']
+    /** Whether this listing is publicly visible. */
+    isPublic: Scalars['Boolean']
     /** The listing's full name. */
     name: Scalars['String']
+    /** A future date on which this listing is eligible to receive a payout. */
+    nextPayoutDate: Maybe<Scalars['Date']>
     /** The short description of the listing. */
     shortDescription: Scalars['String']
     /** The short name of the listing. */
     slug: Scalars['String']
+    /** The entity this listing represents who can be sponsored on GitHub Sponsors. */
+    sponsorable: Sponsorable
     /** The published tiers for this GitHub Sponsors listing. */
     tiers: Maybe<SponsorsTierConnection>
 }
@@ -15794,6 +21236,8 @@ export type SponsorsTier = Node & {
     __typename?: 'SponsorsTier'
     /** SponsorsTier information only visible to users that can administer the associated Sponsors listing. */
     adminInfo: Maybe<SponsorsTierAdminInfo>
+    /** Get a different tier for this tier's maintainer that is at the same frequency as this tier but with an equal or lesser cost. Returns the published tier with the monthly price closest to this tier's without going over. */
+    closestLesserValueTier: Maybe<SponsorsTier>
     /** Identifies the date and time when the object was created. */
     createdAt: Scalars['DateTime']
     /** The description of the tier. */
@@ -15801,9 +21245,13 @@ export type SponsorsTier = Node & {
     /** The tier description rendered to HTML */
     descriptionHTML: Scalars['HTML']
     id: Scalars['ID']
+    /** Whether this tier was chosen at checkout time by the sponsor rather than defined ahead of time by the maintainer who manages the Sponsors listing. */
+    isCustomAmount: Scalars['Boolean']
+    /** Whether this tier is only for use with one-time sponsorships. */
+    isOneTime: Scalars['Boolean']
     /** How much this tier costs per month in cents. */
     monthlyPriceInCents: Scalars['Int']
-    /** How much this tier costs per month in dollars. */
+    /** How much this tier costs per month in USD. */
     monthlyPriceInDollars: Scalars['Int']
     /** The name of the tier. */
     name: Scalars['String']
@@ -15874,6 +21322,10 @@ export type Sponsorship = Node & {
     /** Identifies the date and time when the object was created. */
     createdAt: Scalars['DateTime']
     id: Scalars['ID']
+    /** Whether this sponsorship represents a one-time payment versus a recurring sponsorship. */
+    isOneTimePayment: Scalars['Boolean']
+    /** Check if the sponsor has chosen to receive sponsorship update emails sent from the sponsorable. Only returns a non-null value when the viewer has permission to know this. */
+    isSponsorOptedIntoEmail: Maybe<Scalars['Boolean']>
     /**
      * The entity that is being sponsored
      * @deprecated `Sponsorship.maintainer` will be removed. Use `Sponsorship.sponsorable` instead. Removal on 2020-04-01 UTC.
@@ -15892,6 +21344,8 @@ export type Sponsorship = Node & {
     sponsorable: Sponsorable
     /** The associated sponsorship tier */
     tier: Maybe<SponsorsTier>
+    /** Identifies the date and time when the current tier was chosen for this sponsorship. */
+    tierSelectedAt: Maybe<Scalars['DateTime']>
 }
 
 /** The connection type for Sponsorship. */
@@ -15905,6 +21359,10 @@ export type SponsorshipConnection = {
     pageInfo: PageInfo
     /** Identifies the total count of items in the connection. */
     totalCount: Scalars['Int']
+    /** The total amount in cents of all recurring sponsorships in the connection whose amount you can view. Does not include one-time sponsorships. */
+    totalRecurringMonthlyPriceInCents: Scalars['Int']
+    /** The total amount in USD of all recurring sponsorships in the connection whose amount you can view. Does not include one-time sponsorships. */
+    totalRecurringMonthlyPriceInDollars: Scalars['Int']
 }
 
 /** An edge in a connection. */
@@ -15916,6 +21374,60 @@ export type SponsorshipEdge = {
     node: Maybe<Sponsorship>
 }
 
+/** An update sent to sponsors of a user or organization on GitHub Sponsors. */
+export type SponsorshipNewsletter = Node & {
+    __typename?: 'SponsorshipNewsletter'
+    /** The contents of the newsletter, the message the sponsorable wanted to give. */
+    body: Scalars['String']
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    id: Scalars['ID']
+    /** Indicates if the newsletter has been made available to sponsors. */
+    isPublished: Scalars['Boolean']
+    /** The user or organization this newsletter is from. */
+    sponsorable: Sponsorable
+    /** The subject of the newsletter, what it's about. */
+    subject: Scalars['String']
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** The connection type for SponsorshipNewsletter. */
+export type SponsorshipNewsletterConnection = {
+    __typename?: 'SponsorshipNewsletterConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<SponsorshipNewsletterEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<SponsorshipNewsletter>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type SponsorshipNewsletterEdge = {
+    __typename?: 'SponsorshipNewsletterEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<SponsorshipNewsletter>
+}
+
+/** Ordering options for sponsorship newsletter connections. */
+export type SponsorshipNewsletterOrder = {
+    /** The field to order sponsorship newsletters by. */
+    field: SponsorshipNewsletterOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which sponsorship update connections can be ordered. */
+export enum SponsorshipNewsletterOrderField {
+    /** Order sponsorship newsletters by when they were created. */
+    CreatedAt = 'CREATED_AT'
+}
+
 /** Ordering options for sponsorship connections. */
 export type SponsorshipOrder = {
     /** The field to order sponsorship by. */
@@ -16020,6 +21532,41 @@ export type StarredRepositoryEdge = {
     starredAt: Scalars['DateTime']
 }
 
+/** Autogenerated input type of StartRepositoryMigration */
+export type StartRepositoryMigrationInput = {
+    /** The ID of the Octoshift migration source. */
+    sourceId: Scalars['ID']
+    /** The ID of the organization that will own the imported repository. */
+    ownerId: Scalars['ID']
+    /** The Octoshift migration source repository URL. */
+    sourceRepositoryUrl: Scalars['URI']
+    /** The name of the imported repository. */
+    repositoryName: Scalars['String']
+    /** Whether to continue the migration on error */
+    continueOnError: Maybe<Scalars['Boolean']>
+    /** The signed URL to access the user-uploaded git archive */
+    gitArchiveUrl: Maybe<Scalars['String']>
+    /** The signed URL to access the user-uploaded metadata archive */
+    metadataArchiveUrl: Maybe<Scalars['String']>
+    /** The Octoshift migration source access token. */
+    accessToken: Scalars['String']
+    /** The GitHub personal access token of the user importing to the target repository. */
+    githubPat: Maybe<Scalars['String']>
+    /** Whether to skip migrating releases for the repository. */
+    skipReleases: Maybe<Scalars['Boolean']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of StartRepositoryMigration */
+export type StartRepositoryMigrationPayload = {
+    __typename?: 'StartRepositoryMigrationPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The new Octoshift repository migration. */
+    repositoryMigration: Maybe<RepositoryMigration>
+}
+
 /** Represents a commit status. */
 export type Status = Node & {
     __typename?: 'Status'
@@ -16095,32 +21642,41 @@ export type StatusCheckRollupContextEdge = {
 }
 
 /** Represents an individual commit status context */
-export type StatusContext = Node & {
-    __typename?: 'StatusContext'
-    /** The avatar of the OAuth application or the user that created the status */
-    avatarUrl: Maybe<Scalars['URI']>
-    /** This commit this status context is attached to. */
-    commit: Maybe<Commit>
-    /** The name of this status context. */
-    context: Scalars['String']
-    /** Identifies the date and time when the object was created. */
-    createdAt: Scalars['DateTime']
-    /** The actor who created this status context. */
-    creator: Maybe<Actor>
-    /** The description for this status context. */
-    description: Maybe<Scalars['String']>
-    id: Scalars['ID']
-    /** The state of this status context. */
-    state: StatusState
-    /** The URL for this status context. */
-    targetUrl: Maybe<Scalars['URI']>
-}
+export type StatusContext = RequirableByPullRequest &
+    Node & {
+        __typename?: 'StatusContext'
+        /** The avatar of the OAuth application or the user that created the status */
+        avatarUrl: Maybe<Scalars['URI']>
+        /** This commit this status context is attached to. */
+        commit: Maybe<Commit>
+        /** The name of this status context. */
+        context: Scalars['String']
+        /** Identifies the date and time when the object was created. */
+        createdAt: Scalars['DateTime']
+        /** The actor who created this status context. */
+        creator: Maybe<Actor>
+        /** The description for this status context. */
+        description: Maybe<Scalars['String']>
+        id: Scalars['ID']
+        /** Whether this is required to pass before merging for a specific pull request. */
+        isRequired: Scalars['Boolean']
+        /** The state of this status context. */
+        state: StatusState
+        /** The URL for this status context. */
+        targetUrl: Maybe<Scalars['URI']>
+    }
 
 /** Represents an individual commit status context */
 export type StatusContextAvatarUrlArgs = {
     size?: Maybe<Scalars['Int']>
 }
 
+/** Represents an individual commit status context */
+export type StatusContextIsRequiredArgs = {
+    pullRequestId: Maybe<Scalars['ID']>
+    pullRequestNumber: Maybe<Scalars['Int']>
+}
+
 /** The possible commit status states. */
 export enum StatusState {
     /** Status is expected. */
@@ -17190,6 +22746,8 @@ export type Topic = Node &
          * first. Returns up to 10 Topics.
          */
         relatedTopics: Array<Topic>
+        /** A list of repositories. */
+        repositories: RepositoryConnection
         /** Returns a count of how many stargazers there are on this object */
         stargazerCount: Scalars['Int']
         /** A list of users who have starred this starrable. */
@@ -17203,6 +22761,20 @@ export type TopicRelatedTopicsArgs = {
     first?: Maybe<Scalars['Int']>
 }
 
+/** A topic aggregates entities that are related to a subject. */
+export type TopicRepositoriesArgs = {
+    privacy: Maybe<RepositoryPrivacy>
+    orderBy: Maybe<RepositoryOrder>
+    affiliations: Maybe<Array<Maybe<RepositoryAffiliation>>>
+    ownerAffiliations?: Maybe<Array<Maybe<RepositoryAffiliation>>>
+    isLocked: Maybe<Scalars['Boolean']>
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    sponsorableOnly?: Maybe<Scalars['Boolean']>
+}
+
 /** A topic aggregates entities that are related to a subject. */
 export type TopicStargazersArgs = {
     after: Maybe<Scalars['String']>
@@ -17232,6 +22804,14 @@ export enum TopicSuggestionDeclineReason {
     TooGeneral = 'TOO_GENERAL'
 }
 
+/** The possible states of a tracked issue. */
+export enum TrackedIssueStates {
+    /** The tracked issue is open */
+    Open = 'OPEN',
+    /** The tracked issue is closed */
+    Closed = 'CLOSED'
+}
+
 /** Autogenerated input type of TransferIssue */
 export type TransferIssueInput = {
     /** The Node ID of the issue to be transferred */
@@ -17291,6 +22871,8 @@ export type TreeEntry = {
     extension: Maybe<Scalars['String']>
     /** Whether or not this tree entry is generated */
     isGenerated: Scalars['Boolean']
+    /** Number of lines in the file. */
+    lineCount: Maybe<Scalars['Int']>
     /** Entry file mode. */
     mode: Scalars['Int']
     /** Entry file name. */
@@ -17345,6 +22927,23 @@ export type UnassignedEvent = Node & {
     user: Maybe<User>
 }
 
+/** Autogenerated input type of UnfollowOrganization */
+export type UnfollowOrganizationInput = {
+    /** ID of the organization to unfollow. */
+    organizationId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UnfollowOrganization */
+export type UnfollowOrganizationPayload = {
+    __typename?: 'UnfollowOrganizationPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The organization that was unfollowed. */
+    organization: Maybe<Organization>
+}
+
 /** Autogenerated input type of UnfollowUser */
 export type UnfollowUserInput = {
     /** ID of the user to unfollow. */
@@ -17455,6 +23054,23 @@ export type UnlockedEvent = Node & {
     lockable: Lockable
 }
 
+/** Autogenerated input type of UnmarkDiscussionCommentAsAnswer */
+export type UnmarkDiscussionCommentAsAnswerInput = {
+    /** The Node ID of the discussion comment to unmark as an answer. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UnmarkDiscussionCommentAsAnswer */
+export type UnmarkDiscussionCommentAsAnswerPayload = {
+    __typename?: 'UnmarkDiscussionCommentAsAnswerPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The discussion that includes the comment. */
+    discussion: Maybe<Discussion>
+}
+
 /** Autogenerated input type of UnmarkFileAsViewed */
 export type UnmarkFileAsViewedInput = {
     /** The Node ID of the pull request. */
@@ -17526,6 +23142,23 @@ export type UnminimizeCommentPayload = {
     unminimizedComment: Maybe<Minimizable>
 }
 
+/** Autogenerated input type of UnpinIssue */
+export type UnpinIssueInput = {
+    /** The ID of the issue to be unpinned */
+    issueId: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UnpinIssue */
+export type UnpinIssuePayload = {
+    __typename?: 'UnpinIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The issue that was unpinned */
+    issue: Maybe<Issue>
+}
+
 /** Represents an 'unpinned' event on a given issue or pull request. */
 export type UnpinnedEvent = Node & {
     __typename?: 'UnpinnedEvent'
@@ -17593,6 +23226,8 @@ export type UpdateBranchProtectionRuleInput = {
     requiresCommitSignatures: Maybe<Scalars['Boolean']>
     /** Are merge commits prohibited from being pushed to this branch. */
     requiresLinearHistory: Maybe<Scalars['Boolean']>
+    /** Is branch creation a protected operation. */
+    blocksCreations: Maybe<Scalars['Boolean']>
     /** Are force pushes allowed on this branch. */
     allowsForcePushes: Maybe<Scalars['Boolean']>
     /** Can this branch be deleted. */
@@ -17609,14 +23244,22 @@ export type UpdateBranchProtectionRuleInput = {
     dismissesStaleReviews: Maybe<Scalars['Boolean']>
     /** Is dismissal of pull request reviews restricted. */
     restrictsReviewDismissals: Maybe<Scalars['Boolean']>
-    /** A list of User or Team IDs allowed to dismiss reviews on pull requests targeting matching branches. */
+    /** A list of User, Team, or App IDs allowed to dismiss reviews on pull requests targeting matching branches. */
     reviewDismissalActorIds: Maybe<Array<Scalars['ID']>>
+    /** A list of User, Team, or App IDs allowed to bypass pull requests targeting matching branches. */
+    bypassPullRequestActorIds: Maybe<Array<Scalars['ID']>>
+    /** A list of User, Team, or App IDs allowed to bypass force push targeting matching branches. */
+    bypassForcePushActorIds: Maybe<Array<Scalars['ID']>>
     /** Is pushing to matching branches restricted. */
     restrictsPushes: Maybe<Scalars['Boolean']>
-    /** A list of User, Team or App IDs allowed to push to matching branches. */
+    /** A list of User, Team, or App IDs allowed to push to matching branches. */
     pushActorIds: Maybe<Array<Scalars['ID']>>
     /** List of required status check contexts that must pass for commits to be accepted to matching branches. */
     requiredStatusCheckContexts: Maybe<Array<Scalars['String']>>
+    /** The list of required status checks */
+    requiredStatusChecks: Maybe<Array<RequiredStatusCheckInput>>
+    /** Are conversations required to be resolved before merging. */
+    requiresConversationResolution: Maybe<Scalars['Boolean']>
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
 }
@@ -17686,6 +23329,48 @@ export type UpdateCheckSuitePreferencesPayload = {
     repository: Maybe<Repository>
 }
 
+/** Autogenerated input type of UpdateDiscussionComment */
+export type UpdateDiscussionCommentInput = {
+    /** The Node ID of the discussion comment to update. */
+    commentId: Scalars['ID']
+    /** The new contents of the comment body. */
+    body: Scalars['String']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateDiscussionComment */
+export type UpdateDiscussionCommentPayload = {
+    __typename?: 'UpdateDiscussionCommentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The modified discussion comment. */
+    comment: Maybe<DiscussionComment>
+}
+
+/** Autogenerated input type of UpdateDiscussion */
+export type UpdateDiscussionInput = {
+    /** The Node ID of the discussion to update. */
+    discussionId: Scalars['ID']
+    /** The new discussion title. */
+    title: Maybe<Scalars['String']>
+    /** The new contents of the discussion body. */
+    body: Maybe<Scalars['String']>
+    /** The Node ID of a discussion category within the same repository to change this discussion to. */
+    categoryId: Maybe<Scalars['ID']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateDiscussion */
+export type UpdateDiscussionPayload = {
+    __typename?: 'UpdateDiscussionPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The modified discussion. */
+    discussion: Maybe<Discussion>
+}
+
 /** Autogenerated input type of UpdateEnterpriseAdministratorRole */
 export type UpdateEnterpriseAdministratorRoleInput = {
     /** The ID of the Enterprise which the admin belongs to. */
@@ -17730,9 +23415,9 @@ export type UpdateEnterpriseAllowPrivateRepositoryForkingSettingPayload = {
 
 /** Autogenerated input type of UpdateEnterpriseDefaultRepositoryPermissionSetting */
 export type UpdateEnterpriseDefaultRepositoryPermissionSettingInput = {
-    /** The ID of the enterprise on which to set the default repository permission setting. */
+    /** The ID of the enterprise on which to set the base repository permission setting. */
     enterpriseId: Scalars['ID']
-    /** The value for the default repository permission setting on the enterprise. */
+    /** The value for the base repository permission setting on the enterprise. */
     settingValue: EnterpriseDefaultRepositoryPermissionSettingValue
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
@@ -17743,9 +23428,9 @@ export type UpdateEnterpriseDefaultRepositoryPermissionSettingPayload = {
     __typename?: 'UpdateEnterpriseDefaultRepositoryPermissionSettingPayload'
     /** A unique identifier for the client performing the mutation. */
     clientMutationId: Maybe<Scalars['String']>
-    /** The enterprise with the updated default repository permission setting. */
+    /** The enterprise with the updated base repository permission setting. */
     enterprise: Maybe<Enterprise>
-    /** A message confirming the result of updating the default repository permission setting. */
+    /** A message confirming the result of updating the base repository permission setting. */
     message: Maybe<Scalars['String']>
 }
 
@@ -17946,6 +23631,27 @@ export type UpdateEnterpriseOrganizationProjectsSettingPayload = {
     message: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of UpdateEnterpriseOwnerOrganizationRole */
+export type UpdateEnterpriseOwnerOrganizationRoleInput = {
+    /** The ID of the Enterprise which the owner belongs to. */
+    enterpriseId: Scalars['ID']
+    /** The ID of the organization for membership change. */
+    organizationId: Scalars['ID']
+    /** The role to assume in the organization. */
+    organizationRole: RoleInOrganization
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateEnterpriseOwnerOrganizationRole */
+export type UpdateEnterpriseOwnerOrganizationRolePayload = {
+    __typename?: 'UpdateEnterpriseOwnerOrganizationRolePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** A message confirming the result of changing the owner's organization role. */
+    message: Maybe<Scalars['String']>
+}
+
 /** Autogenerated input type of UpdateEnterpriseProfile */
 export type UpdateEnterpriseProfileInput = {
     /** The Enterprise ID to update. */
@@ -18034,6 +23740,27 @@ export type UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload = {
     message: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of UpdateEnvironment */
+export type UpdateEnvironmentInput = {
+    /** The node ID of the environment. */
+    environmentId: Scalars['ID']
+    /** The wait timer in minutes. */
+    waitTimer: Maybe<Scalars['Int']>
+    /** The ids of users or teams that can approve deployments to this environment */
+    reviewers: Maybe<Array<Scalars['ID']>>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateEnvironment */
+export type UpdateEnvironmentPayload = {
+    __typename?: 'UpdateEnvironmentPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The updated environment. */
+    environment: Maybe<Environment>
+}
+
 /** Autogenerated input type of UpdateIpAllowListEnabledSetting */
 export type UpdateIpAllowListEnabledSettingInput = {
     /** The ID of the owner on which to set the IP allow list enabled setting. */
@@ -18076,6 +23803,25 @@ export type UpdateIpAllowListEntryPayload = {
     ipAllowListEntry: Maybe<IpAllowListEntry>
 }
 
+/** Autogenerated input type of UpdateIpAllowListForInstalledAppsEnabledSetting */
+export type UpdateIpAllowListForInstalledAppsEnabledSettingInput = {
+    /** The ID of the owner. */
+    ownerId: Scalars['ID']
+    /** The value for the IP allow list configuration for installed GitHub Apps setting. */
+    settingValue: IpAllowListForInstalledAppsEnabledSettingValue
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateIpAllowListForInstalledAppsEnabledSetting */
+export type UpdateIpAllowListForInstalledAppsEnabledSettingPayload = {
+    __typename?: 'UpdateIpAllowListForInstalledAppsEnabledSettingPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The IP allow list owner on which the setting was updated. */
+    owner: Maybe<IpAllowListOwner>
+}
+
 /** Autogenerated input type of UpdateIssueComment */
 export type UpdateIssueCommentInput = {
     /** The ID of the IssueComment to modify. */
@@ -18128,6 +23874,46 @@ export type UpdateIssuePayload = {
     issue: Maybe<Issue>
 }
 
+/** Autogenerated input type of UpdateNotificationRestrictionSetting */
+export type UpdateNotificationRestrictionSettingInput = {
+    /** The ID of the owner on which to set the restrict notifications setting. */
+    ownerId: Scalars['ID']
+    /** The value for the restrict notifications setting. */
+    settingValue: NotificationRestrictionSettingValue
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateNotificationRestrictionSetting */
+export type UpdateNotificationRestrictionSettingPayload = {
+    __typename?: 'UpdateNotificationRestrictionSettingPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The owner on which the setting was updated. */
+    owner: Maybe<VerifiableDomainOwner>
+}
+
+/** Autogenerated input type of UpdateOrganizationAllowPrivateRepositoryForkingSetting */
+export type UpdateOrganizationAllowPrivateRepositoryForkingSettingInput = {
+    /** The ID of the organization on which to set the allow private repository forking setting. */
+    organizationId: Scalars['ID']
+    /** Enable forking of private repositories in the organization? */
+    forkingEnabled: Scalars['Boolean']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateOrganizationAllowPrivateRepositoryForkingSetting */
+export type UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload = {
+    __typename?: 'UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** A message confirming the result of updating the allow private repository forking setting. */
+    message: Maybe<Scalars['String']>
+    /** The organization with the updated allow private repository forking setting. */
+    organization: Maybe<Organization>
+}
+
 /** Autogenerated input type of UpdateProjectCard */
 export type UpdateProjectCardInput = {
     /** The ProjectCard ID to update. */
@@ -18168,6 +23954,29 @@ export type UpdateProjectColumnPayload = {
     projectColumn: Maybe<ProjectColumn>
 }
 
+/** Autogenerated input type of UpdateProjectDraftIssue */
+export type UpdateProjectDraftIssueInput = {
+    /** The ID of the draft issue to update. */
+    draftIssueId: Scalars['ID']
+    /** The title of the draft issue. */
+    title: Maybe<Scalars['String']>
+    /** The body of the draft issue. */
+    body: Maybe<Scalars['String']>
+    /** The IDs of the assignees of the draft issue. */
+    assigneeIds: Maybe<Array<Scalars['ID']>>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateProjectDraftIssue */
+export type UpdateProjectDraftIssuePayload = {
+    __typename?: 'UpdateProjectDraftIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The draft issue updated in the project. */
+    draftIssue: Maybe<DraftIssue>
+}
+
 /** Autogenerated input type of UpdateProject */
 export type UpdateProjectInput = {
     /** The Project ID to update. */
@@ -18184,6 +23993,116 @@ export type UpdateProjectInput = {
     clientMutationId: Maybe<Scalars['String']>
 }
 
+/** Autogenerated input type of UpdateProjectNext */
+export type UpdateProjectNextInput = {
+    /**
+     * The ID of the Project to update. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `projectId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    projectId: Maybe<Scalars['ID']>
+    /**
+     * Set the title of the project.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `title` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    title: Maybe<Scalars['String']>
+    /**
+     * Set the readme description of the project.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `description` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    description: Maybe<Scalars['String']>
+    /**
+     * Set the short description of the project.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `shortDescription` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    shortDescription: Maybe<Scalars['String']>
+    /**
+     * Set the project to closed or open.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `closed` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    closed: Maybe<Scalars['Boolean']>
+    /**
+     * Set the project to public or private.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `public` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    public: Maybe<Scalars['Boolean']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated input type of UpdateProjectNextItemField */
+export type UpdateProjectNextItemFieldInput = {
+    /** The ID of the Project. This field is required. */
+    projectId: Maybe<Scalars['ID']>
+    /**
+     * The id of the item to be updated. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `itemId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    itemId: Maybe<Scalars['ID']>
+    /**
+     * The id of the field to be updated.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `fieldId` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    fieldId: Maybe<Scalars['ID']>
+    /**
+     * The value which will be set on the field. This field is required.
+     *
+     * **Upcoming Change on 2022-10-01 UTC**
+     * **Description:** `value` will be removed. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement.
+     * **Reason:** The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API.
+     */
+    value: Maybe<Scalars['String']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateProjectNextItemField */
+export type UpdateProjectNextItemFieldPayload = {
+    __typename?: 'UpdateProjectNextItemFieldPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /**
+     * The updated item.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectNextItem: Maybe<ProjectNextItem>
+}
+
+/** Autogenerated return type of UpdateProjectNext */
+export type UpdateProjectNextPayload = {
+    __typename?: 'UpdateProjectNextPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /**
+     * The updated Project.
+     * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+     */
+    projectNext: Maybe<ProjectNext>
+}
+
 /** Autogenerated return type of UpdateProject */
 export type UpdateProjectPayload = {
     __typename?: 'UpdateProjectPayload'
@@ -18193,6 +24112,127 @@ export type UpdateProjectPayload = {
     project: Maybe<Project>
 }
 
+/** Autogenerated input type of UpdateProjectV2DraftIssue */
+export type UpdateProjectV2DraftIssueInput = {
+    /** The ID of the draft issue to update. */
+    draftIssueId: Scalars['ID']
+    /** The title of the draft issue. */
+    title: Maybe<Scalars['String']>
+    /** The body of the draft issue. */
+    body: Maybe<Scalars['String']>
+    /** The IDs of the assignees of the draft issue. */
+    assigneeIds: Maybe<Array<Scalars['ID']>>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateProjectV2DraftIssue */
+export type UpdateProjectV2DraftIssuePayload = {
+    __typename?: 'UpdateProjectV2DraftIssuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The draft issue updated in the project. */
+    draftIssue: Maybe<DraftIssue>
+}
+
+/** Autogenerated input type of UpdateProjectV2 */
+export type UpdateProjectV2Input = {
+    /** The ID of the Project to update. */
+    projectId: Scalars['ID']
+    /** Set the title of the project. */
+    title: Maybe<Scalars['String']>
+    /** Set the short description of the project. */
+    shortDescription: Maybe<Scalars['String']>
+    /** Set the readme description of the project. */
+    readme: Maybe<Scalars['String']>
+    /** Set the project to closed or open. */
+    closed: Maybe<Scalars['Boolean']>
+    /** Set the project to public or private. */
+    public: Maybe<Scalars['Boolean']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated input type of UpdateProjectV2ItemFieldValue */
+export type UpdateProjectV2ItemFieldValueInput = {
+    /** The ID of the Project. */
+    projectId: Scalars['ID']
+    /** The ID of the item to be updated. */
+    itemId: Scalars['ID']
+    /** The ID of the field to be updated. */
+    fieldId: Scalars['ID']
+    /** The value which will be set on the field. */
+    value: ProjectV2FieldValue
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateProjectV2ItemFieldValue */
+export type UpdateProjectV2ItemFieldValuePayload = {
+    __typename?: 'UpdateProjectV2ItemFieldValuePayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The updated item. */
+    projectV2Item: Maybe<ProjectV2Item>
+}
+
+/** Autogenerated input type of UpdateProjectV2ItemPosition */
+export type UpdateProjectV2ItemPositionInput = {
+    /** The ID of the Project. */
+    projectId: Scalars['ID']
+    /** The ID of the item to be moved. */
+    itemId: Scalars['ID']
+    /** The ID of the item to position this item after. If omitted or set to null the item will be moved to top. */
+    afterId: Maybe<Scalars['ID']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateProjectV2ItemPosition */
+export type UpdateProjectV2ItemPositionPayload = {
+    __typename?: 'UpdateProjectV2ItemPositionPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The items in the new order */
+    items: Maybe<ProjectV2ItemConnection>
+}
+
+/** Autogenerated return type of UpdateProjectV2ItemPosition */
+export type UpdateProjectV2ItemPositionPayloadItemsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** Autogenerated return type of UpdateProjectV2 */
+export type UpdateProjectV2Payload = {
+    __typename?: 'UpdateProjectV2Payload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The updated Project. */
+    projectV2: Maybe<ProjectV2>
+}
+
+/** Autogenerated input type of UpdatePullRequestBranch */
+export type UpdatePullRequestBranchInput = {
+    /** The Node ID of the pull request. */
+    pullRequestId: Scalars['ID']
+    /** The head ref oid for the upstream branch. */
+    expectedHeadOid: Maybe<Scalars['GitObjectID']>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdatePullRequestBranch */
+export type UpdatePullRequestBranchPayload = {
+    __typename?: 'UpdatePullRequestBranchPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The updated pull request. */
+    pullRequest: Maybe<PullRequest>
+}
+
 /** Autogenerated input type of UpdatePullRequest */
 export type UpdatePullRequestInput = {
     /** The Node ID of the pull request. */
@@ -18323,6 +24363,33 @@ export type UpdateRepositoryPayload = {
     repository: Maybe<Repository>
 }
 
+/** Autogenerated input type of UpdateSponsorshipPreferences */
+export type UpdateSponsorshipPreferencesInput = {
+    /** The ID of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorLogin is not given. */
+    sponsorId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is acting as the sponsor, paying for the sponsorship. Required if sponsorId is not given. */
+    sponsorLogin: Maybe<Scalars['String']>
+    /** The ID of the user or organization who is receiving the sponsorship. Required if sponsorableLogin is not given. */
+    sponsorableId: Maybe<Scalars['ID']>
+    /** The username of the user or organization who is receiving the sponsorship. Required if sponsorableId is not given. */
+    sponsorableLogin: Maybe<Scalars['String']>
+    /** Whether the sponsor should receive email updates from the sponsorable. */
+    receiveEmails: Maybe<Scalars['Boolean']>
+    /** Specify whether others should be able to see that the sponsor is sponsoring the sponsorable. Public visibility still does not reveal which tier is used. */
+    privacyLevel: Maybe<SponsorshipPrivacy>
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateSponsorshipPreferences */
+export type UpdateSponsorshipPreferencesPayload = {
+    __typename?: 'UpdateSponsorshipPreferencesPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The sponsorship that was updated. */
+    sponsorship: Maybe<Sponsorship>
+}
+
 /** Autogenerated input type of UpdateSubscription */
 export type UpdateSubscriptionInput = {
     /** The Node ID of the subscribable object to modify. */
@@ -18388,6 +24455,29 @@ export type UpdateTeamDiscussionPayload = {
     teamDiscussion: Maybe<TeamDiscussion>
 }
 
+/** Autogenerated input type of UpdateTeamsRepository */
+export type UpdateTeamsRepositoryInput = {
+    /** Repository ID being granted access to. */
+    repositoryId: Scalars['ID']
+    /** A list of teams being granted access. Limit: 10 */
+    teamIds: Array<Scalars['ID']>
+    /** Permission that should be granted to the teams. */
+    permission: RepositoryPermission
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of UpdateTeamsRepository */
+export type UpdateTeamsRepositoryPayload = {
+    __typename?: 'UpdateTeamsRepositoryPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The repository that was updated. */
+    repository: Maybe<Repository>
+    /** The teams granted permission on the repository. */
+    teams: Maybe<Array<Team>>
+}
+
 /** Autogenerated input type of UpdateTopics */
 export type UpdateTopicsInput = {
     /** The Node ID of the repository. */
@@ -18414,6 +24504,11 @@ export type User = Node &
     Actor &
     PackageOwner &
     ProjectOwner &
+    ProjectNextOwner &
+    ProjectV2Owner &
+    ProjectV2Recent &
+    RepositoryDiscussionAuthor &
+    RepositoryDiscussionCommentAuthor &
     RepositoryOwner &
     UniformResourceLocatable &
     ProfileOwner &
@@ -18427,6 +24522,8 @@ export type User = Node &
         bio: Maybe<Scalars['String']>
         /** The user's public profile bio as HTML. */
         bioHTML: Scalars['HTML']
+        /** Could this user receive email notifications, if the organization had notification restrictions enabled? */
+        canReceiveOrganizationEmailsWhenNotificationsRestricted: Scalars['Boolean']
         /** A list of commit comments made by this user. */
         commitComments: CommitCommentConnection
         /** The user's public profile company. */
@@ -18441,6 +24538,8 @@ export type User = Node &
         databaseId: Maybe<Scalars['Int']>
         /** The user's publicly visible profile email. */
         email: Scalars['String']
+        /** The estimated next GitHub Sponsors payout for this user/organization in cents (USD). */
+        estimatedNextSponsorsPayoutInCents: Scalars['Int']
         /** A list of users the given user is followed by. */
         followers: FollowerConnection
         /** A list of users the given user is following. */
@@ -18466,10 +24565,16 @@ export type User = Node &
         isDeveloperProgramMember: Scalars['Boolean']
         /** Whether or not this user is a GitHub employee. */
         isEmployee: Scalars['Boolean']
+        /** Whether or not this user is following the viewer. Inverse of viewer_is_following */
+        isFollowingViewer: Scalars['Boolean']
+        /** Whether or not this user is a member of the GitHub Stars Program. */
+        isGitHubStar: Scalars['Boolean']
         /** Whether or not the user has marked themselves as for hire. */
         isHireable: Scalars['Boolean']
         /** Whether or not this user is a site administrator. */
         isSiteAdmin: Scalars['Boolean']
+        /** Check if the given account is sponsoring this user/organization. */
+        isSponsoredBy: Scalars['Boolean']
         /** True if the viewer is sponsored by this user/organization. */
         isSponsoringViewer: Scalars['Boolean']
         /** Whether or not this user is the viewing user. */
@@ -18484,6 +24589,8 @@ export type User = Node &
         location: Maybe<Scalars['String']>
         /** The username used to login. */
         login: Scalars['String']
+        /** The estimated monthly GitHub Sponsors income for this user/organization in cents (USD). */
+        monthlyEstimatedSponsorsIncomeInCents: Scalars['Int']
         /** The user's public profile name. */
         name: Maybe<Scalars['String']>
         /** Find an organization by its login that the user belongs to. */
@@ -18502,28 +24609,60 @@ export type User = Node &
         pinnedItemsRemaining: Scalars['Int']
         /** Find project by number. */
         project: Maybe<Project>
+        /**
+         * Find a project by project (beta) number.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectNext: Maybe<ProjectNext>
+        /** Find a project by number. */
+        projectV2: Maybe<ProjectV2>
         /** A list of projects under the owner. */
         projects: ProjectConnection
+        /**
+         * A list of projects (beta) under the owner.
+         * @deprecated The `ProjectNext` API is deprecated in favour of the more capable `ProjectV2` API. Follow the ProjectV2 guide at https://github.blog/changelog/2022-06-23-the-new-github-issues-june-23rd-update/, to find a suitable replacement. Removal on 2022-10-01 UTC.
+         */
+        projectsNext: ProjectNextConnection
         /** The HTTP path listing user's projects */
         projectsResourcePath: Scalars['URI']
         /** The HTTP URL listing user's projects */
         projectsUrl: Scalars['URI']
+        /** A list of projects under the owner. */
+        projectsV2: ProjectV2Connection
         /** A list of public keys associated with this user. */
         publicKeys: PublicKeyConnection
         /** A list of pull requests associated with this user. */
         pullRequests: PullRequestConnection
+        /** Recent projects that this user has modified in the context of the owner. */
+        recentProjects: ProjectV2Connection
         /** A list of repositories that the user owns. */
         repositories: RepositoryConnection
         /** A list of repositories that the user recently contributed to. */
         repositoriesContributedTo: RepositoryConnection
         /** Find Repository. */
         repository: Maybe<Repository>
+        /** Discussion comments this user has authored. */
+        repositoryDiscussionComments: DiscussionCommentConnection
+        /** Discussions this user has started. */
+        repositoryDiscussions: DiscussionConnection
         /** The HTTP path for this user */
         resourcePath: Scalars['URI']
         /** Replies this user has saved */
         savedReplies: Maybe<SavedReplyConnection>
+        /** List of users and organizations this entity is sponsoring. */
+        sponsoring: SponsorConnection
+        /** List of sponsors for this user or organization. */
+        sponsors: SponsorConnection
+        /** Events involving this sponsorable, such as new sponsorships. */
+        sponsorsActivities: SponsorsActivityConnection
         /** The GitHub Sponsors listing for this user or organization. */
         sponsorsListing: Maybe<SponsorsListing>
+        /** The sponsorship from the viewer to this user/organization; that is, the sponsorship where you're the sponsor. Only returns a sponsorship if it is active. */
+        sponsorshipForViewerAsSponsor: Maybe<Sponsorship>
+        /** The sponsorship from this user/organization to the viewer; that is, the sponsorship you're receiving. Only returns a sponsorship if it is active. */
+        sponsorshipForViewerAsSponsorable: Maybe<Sponsorship>
+        /** List of sponsorship updates sent from this sponsorable to sponsors. */
+        sponsorshipNewsletters: SponsorshipNewsletterConnection
         /** This object's sponsorships as the maintainer. */
         sponsorshipsAsMaintainer: SponsorshipConnection
         /** This object's sponsorships as the sponsor. */
@@ -18548,7 +24687,7 @@ export type User = Node &
         viewerCanFollow: Scalars['Boolean']
         /** Whether or not the viewer is able to sponsor this user/organization. */
         viewerCanSponsor: Scalars['Boolean']
-        /** Whether or not this user is followed by the viewer. */
+        /** Whether or not this user is followed by the viewer. Inverse of is_following_viewer. */
         viewerIsFollowing: Scalars['Boolean']
         /** True if the viewer is sponsoring this user/organization. */
         viewerIsSponsoring: Scalars['Boolean']
@@ -18568,6 +24707,11 @@ export type UserAvatarUrlArgs = {
     size: Maybe<Scalars['Int']>
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserCanReceiveOrganizationEmailsWhenNotificationsRestrictedArgs = {
+    login: Scalars['String']
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserCommitCommentsArgs = {
     after: Maybe<Scalars['String']>
@@ -18627,6 +24771,11 @@ export type UserHovercardArgs = {
     primarySubjectId: Maybe<Scalars['ID']>
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserIsSponsoredByArgs = {
+    accountLogin: Scalars['String']
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserIssueCommentsArgs = {
     orderBy: Maybe<IssueCommentOrder>
@@ -18701,6 +24850,16 @@ export type UserProjectArgs = {
     number: Scalars['Int']
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserProjectNextArgs = {
+    number: Scalars['Int']
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserProjectV2Args = {
+    number: Scalars['Int']
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserProjectsArgs = {
     orderBy: Maybe<ProjectOrder>
@@ -18712,6 +24871,26 @@ export type UserProjectsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserProjectsNextArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    sortBy?: Maybe<ProjectNextOrderField>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserProjectsV2Args = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    query: Maybe<Scalars['String']>
+    orderBy?: Maybe<ProjectV2Order>
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserPublicKeysArgs = {
     after: Maybe<Scalars['String']>
@@ -18733,6 +24912,14 @@ export type UserPullRequestsArgs = {
     last: Maybe<Scalars['Int']>
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserRecentProjectsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserRepositoriesArgs = {
     privacy: Maybe<RepositoryPrivacy>
@@ -18763,6 +24950,28 @@ export type UserRepositoriesContributedToArgs = {
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserRepositoryArgs = {
     name: Scalars['String']
+    followRenames?: Maybe<Scalars['Boolean']>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserRepositoryDiscussionCommentsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    repositoryId: Maybe<Scalars['ID']>
+    onlyAnswers?: Maybe<Scalars['Boolean']>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserRepositoryDiscussionsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<DiscussionOrder>
+    repositoryId: Maybe<Scalars['ID']>
+    answered?: Maybe<Scalars['Boolean']>
 }
 
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
@@ -18774,6 +24983,44 @@ export type UserSavedRepliesArgs = {
     orderBy?: Maybe<SavedReplyOrder>
 }
 
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserSponsoringArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserSponsorsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    tierId: Maybe<Scalars['ID']>
+    orderBy?: Maybe<SponsorOrder>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserSponsorsActivitiesArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    period?: Maybe<SponsorsActivityPeriod>
+    orderBy?: Maybe<SponsorsActivityOrder>
+}
+
+/** A user is an individual's account on GitHub that owns repositories and can make new content. */
+export type UserSponsorshipNewslettersArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+    orderBy?: Maybe<SponsorshipNewsletterOrder>
+}
+
 /** A user is an individual's account on GitHub that owns repositories and can make new content. */
 export type UserSponsorshipsAsMaintainerArgs = {
     after: Maybe<Scalars['String']>
@@ -18940,7 +25187,6 @@ export type UserStatus = Node & {
     emojiHTML: Maybe<Scalars['HTML']>
     /** If set, the status will not be shown after this date. */
     expiresAt: Maybe<Scalars['DateTime']>
-    /** ID of the object. */
     id: Scalars['ID']
     /** Whether this status indicates the user is not fully available on GitHub. */
     indicatesLimitedAvailability: Scalars['Boolean']
@@ -18990,6 +25236,98 @@ export enum UserStatusOrderField {
     UpdatedAt = 'UPDATED_AT'
 }
 
+/** A domain that can be verified or approved for an organization or an enterprise. */
+export type VerifiableDomain = Node & {
+    __typename?: 'VerifiableDomain'
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The DNS host name that should be used for verification. */
+    dnsHostName: Maybe<Scalars['URI']>
+    /** The unicode encoded domain. */
+    domain: Scalars['URI']
+    /** Whether a TXT record for verification with the expected host name was found. */
+    hasFoundHostName: Scalars['Boolean']
+    /** Whether a TXT record for verification with the expected verification token was found. */
+    hasFoundVerificationToken: Scalars['Boolean']
+    id: Scalars['ID']
+    /** Whether or not the domain is approved. */
+    isApproved: Scalars['Boolean']
+    /** Whether this domain is required to exist for an organization or enterprise policy to be enforced. */
+    isRequiredForPolicyEnforcement: Scalars['Boolean']
+    /** Whether or not the domain is verified. */
+    isVerified: Scalars['Boolean']
+    /** The owner of the domain. */
+    owner: VerifiableDomainOwner
+    /** The punycode encoded domain. */
+    punycodeEncodedDomain: Scalars['URI']
+    /** The time that the current verification token will expire. */
+    tokenExpirationTime: Maybe<Scalars['DateTime']>
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+    /** The current verification token for the domain. */
+    verificationToken: Maybe<Scalars['String']>
+}
+
+/** The connection type for VerifiableDomain. */
+export type VerifiableDomainConnection = {
+    __typename?: 'VerifiableDomainConnection'
+    /** A list of edges. */
+    edges: Maybe<Array<Maybe<VerifiableDomainEdge>>>
+    /** A list of nodes. */
+    nodes: Maybe<Array<Maybe<VerifiableDomain>>>
+    /** Information to aid in pagination. */
+    pageInfo: PageInfo
+    /** Identifies the total count of items in the connection. */
+    totalCount: Scalars['Int']
+}
+
+/** An edge in a connection. */
+export type VerifiableDomainEdge = {
+    __typename?: 'VerifiableDomainEdge'
+    /** A cursor for use in pagination. */
+    cursor: Scalars['String']
+    /** The item at the end of the edge. */
+    node: Maybe<VerifiableDomain>
+}
+
+/** Ordering options for verifiable domain connections. */
+export type VerifiableDomainOrder = {
+    /** The field to order verifiable domains by. */
+    field: VerifiableDomainOrderField
+    /** The ordering direction. */
+    direction: OrderDirection
+}
+
+/** Properties by which verifiable domain connections can be ordered. */
+export enum VerifiableDomainOrderField {
+    /** Order verifiable domains by the domain name. */
+    Domain = 'DOMAIN',
+    /** Order verifiable domains by their creation date. */
+    CreatedAt = 'CREATED_AT'
+}
+
+/** Types that can own a verifiable domain. */
+export type VerifiableDomainOwner = Enterprise | Organization
+
+/** Autogenerated input type of VerifyVerifiableDomain */
+export type VerifyVerifiableDomainInput = {
+    /** The ID of the verifiable domain to verify. */
+    id: Scalars['ID']
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+}
+
+/** Autogenerated return type of VerifyVerifiableDomain */
+export type VerifyVerifiableDomainPayload = {
+    __typename?: 'VerifyVerifiableDomainPayload'
+    /** A unique identifier for the client performing the mutation. */
+    clientMutationId: Maybe<Scalars['String']>
+    /** The verifiable domain that was verified. */
+    domain: Maybe<VerifiableDomain>
+}
+
 /** A hovercard context with a message describing how the viewer is related. */
 export type ViewerHovercardContext = HovercardContext & {
     __typename?: 'ViewerHovercardContext'
@@ -19001,6 +25339,175 @@ export type ViewerHovercardContext = HovercardContext & {
     viewer: User
 }
 
+/** A subject that may be upvoted. */
+export type Votable = {
+    /** Number of upvotes that this subject has received. */
+    upvoteCount: Scalars['Int']
+    /** Whether or not the current user can add or remove an upvote on this subject. */
+    viewerCanUpvote: Scalars['Boolean']
+    /** Whether or not the current user has already upvoted this subject. */
+    viewerHasUpvoted: Scalars['Boolean']
+}
+
+/** A workflow contains meta information about an Actions workflow file. */
+export type Workflow = Node & {
+    __typename?: 'Workflow'
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    id: Scalars['ID']
+    /** The name of the workflow. */
+    name: Scalars['String']
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+}
+
+/** A workflow run. */
+export type WorkflowRun = Node & {
+    __typename?: 'WorkflowRun'
+    /** The check suite this workflow run belongs to. */
+    checkSuite: CheckSuite
+    /** Identifies the date and time when the object was created. */
+    createdAt: Scalars['DateTime']
+    /** Identifies the primary key from the database. */
+    databaseId: Maybe<Scalars['Int']>
+    /** The log of deployment reviews */
+    deploymentReviews: DeploymentReviewConnection
+    id: Scalars['ID']
+    /** The pending deployment requests of all check runs in this workflow run */
+    pendingDeploymentRequests: DeploymentRequestConnection
+    /** The HTTP path for this workflow run */
+    resourcePath: Scalars['URI']
+    /** A number that uniquely identifies this workflow run in its parent workflow. */
+    runNumber: Scalars['Int']
+    /** Identifies the date and time when the object was last updated. */
+    updatedAt: Scalars['DateTime']
+    /** The HTTP URL for this workflow run */
+    url: Scalars['URI']
+    /** The workflow executed in this workflow run. */
+    workflow: Workflow
+}
+
+/** A workflow run. */
+export type WorkflowRunDeploymentReviewsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/** A workflow run. */
+export type WorkflowRunPendingDeploymentRequestsArgs = {
+    after: Maybe<Scalars['String']>
+    before: Maybe<Scalars['String']>
+    first: Maybe<Scalars['Int']>
+    last: Maybe<Scalars['Int']>
+}
+
+/**
+ * The fundamental unit of any GraphQL Schema is the type. There are many kinds of types in GraphQL as represented by the `__TypeKind` enum.
+ *
+ * Depending on the kind of a type, certain fields describe information about that type. Scalar types provide no information beyond a name, description and optional `specifiedByUrl`, while Enum types provide their values. Object and Interface types provide the fields they describe. Abstract types, Union and Interface, provide the Object types possible at runtime. List and NonNull types compose other types.
+ */
+export type __Type = {
+    __typename?: '__Type'
+    kind: __TypeKind
+    name: Maybe<Scalars['String']>
+    description: Maybe<Scalars['String']>
+    specifiedByUrl: Maybe<Scalars['String']>
+    fields: Maybe<Array<__Field>>
+    interfaces: Maybe<Array<__Type>>
+    possibleTypes: Maybe<Array<__Type>>
+    enumValues: Maybe<Array<__EnumValue>>
+    inputFields: Maybe<Array<__InputValue>>
+    ofType: Maybe<__Type>
+}
+
+/**
+ * The fundamental unit of any GraphQL Schema is the type. There are many kinds of types in GraphQL as represented by the `__TypeKind` enum.
+ *
+ * Depending on the kind of a type, certain fields describe information about that type. Scalar types provide no information beyond a name, description and optional `specifiedByUrl`, while Enum types provide their values. Object and Interface types provide the fields they describe. Abstract types, Union and Interface, provide the Object types possible at runtime. List and NonNull types compose other types.
+ */
+export type __TypeFieldsArgs = {
+    includeDeprecated?: Maybe<Scalars['Boolean']>
+}
+
+/**
+ * The fundamental unit of any GraphQL Schema is the type. There are many kinds of types in GraphQL as represented by the `__TypeKind` enum.
+ *
+ * Depending on the kind of a type, certain fields describe information about that type. Scalar types provide no information beyond a name, description and optional `specifiedByUrl`, while Enum types provide their values. Object and Interface types provide the fields they describe. Abstract types, Union and Interface, provide the Object types possible at runtime. List and NonNull types compose other types.
+ */
+export type __TypeEnumValuesArgs = {
+    includeDeprecated?: Maybe<Scalars['Boolean']>
+}
+
+/**
+ * The fundamental unit of any GraphQL Schema is the type. There are many kinds of types in GraphQL as represented by the `__TypeKind` enum.
+ *
+ * Depending on the kind of a type, certain fields describe information about that type. Scalar types provide no information beyond a name, description and optional `specifiedByUrl`, while Enum types provide their values. Object and Interface types provide the fields they describe. Abstract types, Union and Interface, provide the Object types possible at runtime. List and NonNull types compose other types.
+ */
+export type __TypeInputFieldsArgs = {
+    includeDeprecated?: Maybe<Scalars['Boolean']>
+}
+
+/** An enum describing what kind of type a given `__Type` is. */
+export enum __TypeKind {
+    /** Indicates this type is a scalar. */
+    Scalar = 'SCALAR',
+    /** Indicates this type is an object. `fields` and `interfaces` are valid fields. */
+    Object = 'OBJECT',
+    /** Indicates this type is an interface. `fields`, `interfaces`, and `possibleTypes` are valid fields. */
+    Interface = 'INTERFACE',
+    /** Indicates this type is a union. `possibleTypes` is a valid field. */
+    Union = 'UNION',
+    /** Indicates this type is an enum. `enumValues` is a valid field. */
+    Enum = 'ENUM',
+    /** Indicates this type is an input object. `inputFields` is a valid field. */
+    InputObject = 'INPUT_OBJECT',
+    /** Indicates this type is a list. `ofType` is a valid field. */
+    List = 'LIST',
+    /** Indicates this type is a non-null. `ofType` is a valid field. */
+    NonNull = 'NON_NULL'
+}
+
+/** Object and Interface types are described by a list of Fields, each of which has a name, potentially a list of arguments, and a return type. */
+export type __Field = {
+    __typename?: '__Field'
+    name: Scalars['String']
+    description: Maybe<Scalars['String']>
+    args: Array<__InputValue>
+    type: __Type
+    isDeprecated: Scalars['Boolean']
+    deprecationReason: Maybe<Scalars['String']>
+}
+
+/** Object and Interface types are described by a list of Fields, each of which has a name, potentially a list of arguments, and a return type. */
+export type __FieldArgsArgs = {
+    includeDeprecated?: Maybe<Scalars['Boolean']>
+}
+
+/** Arguments provided to Fields or Directives and the input fields of an InputObject are represented as Input Values which describe their type and optionally a default value. */
+export type __InputValue = {
+    __typename?: '__InputValue'
+    name: Scalars['String']
+    description: Maybe<Scalars['String']>
+    type: __Type
+    /** A GraphQL-formatted string representing the default value for this input value. */
+    defaultValue: Maybe<Scalars['String']>
+    isDeprecated: Scalars['Boolean']
+    deprecationReason: Maybe<Scalars['String']>
+}
+
+/** One possible value for a given Enum. Enum values are unique values, not a placeholder for a string or numeric value. However an Enum value is returned in a JSON response as a string. */
+export type __EnumValue = {
+    __typename?: '__EnumValue'
+    name: Scalars['String']
+    description: Maybe<Scalars['String']>
+    isDeprecated: Scalars['Boolean']
+    deprecationReason: Maybe<Scalars['String']>
+}
+
 export type ResolverTypeWrapper<T> = Promise<T> | T
 
 export type LegacyStitchingResolver<TResult, TParent, TContext, TArgs> = {
@@ -19082,9 +25589,12 @@ export type DirectiveResolverFn<TResult = {}, TParent = {}, TContext = {}, TArgs
 
 /** Mapping between all available schema types and the resolvers types */
 export type ResolversTypes = {
-    AcceptEnterpriseAdministratorInvitationInput: AcceptEnterpriseAdministratorInvitationInput
+    AbortQueuedMigrationsInput: AbortQueuedMigrationsInput
     ID: ResolverTypeWrapper<Scalars['ID']>
     String: ResolverTypeWrapper<Scalars['String']>
+    AbortQueuedMigrationsPayload: ResolverTypeWrapper<AbortQueuedMigrationsPayload>
+    Boolean: ResolverTypeWrapper<Scalars['Boolean']>
+    AcceptEnterpriseAdministratorInvitationInput: AcceptEnterpriseAdministratorInvitationInput
     AcceptEnterpriseAdministratorInvitationPayload: ResolverTypeWrapper<AcceptEnterpriseAdministratorInvitationPayload>
     AcceptTopicSuggestionInput: AcceptTopicSuggestionInput
     AcceptTopicSuggestionPayload: ResolverTypeWrapper<AcceptTopicSuggestionPayload>
@@ -19096,10 +25606,15 @@ export type ResolversTypes = {
         | ResolversTypes['User']
     Int: ResolverTypeWrapper<Scalars['Int']>
     ActorLocation: ResolverTypeWrapper<ActorLocation>
+    ActorType: ActorType
     AddAssigneesToAssignableInput: AddAssigneesToAssignableInput
     AddAssigneesToAssignablePayload: ResolverTypeWrapper<AddAssigneesToAssignablePayload>
     AddCommentInput: AddCommentInput
     AddCommentPayload: ResolverTypeWrapper<AddCommentPayload>
+    AddDiscussionCommentInput: AddDiscussionCommentInput
+    AddDiscussionCommentPayload: ResolverTypeWrapper<AddDiscussionCommentPayload>
+    AddDiscussionPollVoteInput: AddDiscussionPollVoteInput
+    AddDiscussionPollVotePayload: ResolverTypeWrapper<AddDiscussionPollVotePayload>
     AddEnterpriseSupportEntitlementInput: AddEnterpriseSupportEntitlementInput
     AddEnterpriseSupportEntitlementPayload: ResolverTypeWrapper<AddEnterpriseSupportEntitlementPayload>
     AddLabelsToLabelableInput: AddLabelsToLabelableInput
@@ -19108,6 +25623,14 @@ export type ResolversTypes = {
     AddProjectCardPayload: ResolverTypeWrapper<AddProjectCardPayload>
     AddProjectColumnInput: AddProjectColumnInput
     AddProjectColumnPayload: ResolverTypeWrapper<AddProjectColumnPayload>
+    AddProjectDraftIssueInput: AddProjectDraftIssueInput
+    AddProjectDraftIssuePayload: ResolverTypeWrapper<AddProjectDraftIssuePayload>
+    AddProjectNextItemInput: AddProjectNextItemInput
+    AddProjectNextItemPayload: ResolverTypeWrapper<AddProjectNextItemPayload>
+    AddProjectV2DraftIssueInput: AddProjectV2DraftIssueInput
+    AddProjectV2DraftIssuePayload: ResolverTypeWrapper<AddProjectV2DraftIssuePayload>
+    AddProjectV2ItemByIdInput: AddProjectV2ItemByIdInput
+    AddProjectV2ItemByIdPayload: ResolverTypeWrapper<AddProjectV2ItemByIdPayload>
     AddPullRequestReviewCommentInput: AddPullRequestReviewCommentInput
     AddPullRequestReviewCommentPayload: ResolverTypeWrapper<AddPullRequestReviewCommentPayload>
     AddPullRequestReviewInput: AddPullRequestReviewInput
@@ -19118,8 +25641,16 @@ export type ResolversTypes = {
     AddReactionPayload: ResolverTypeWrapper<AddReactionPayload>
     AddStarInput: AddStarInput
     AddStarPayload: ResolverTypeWrapper<AddStarPayload>
+    AddUpvoteInput: AddUpvoteInput
+    AddUpvotePayload: ResolverTypeWrapper<AddUpvotePayload>
+    AddVerifiableDomainInput: AddVerifiableDomainInput
+    AddVerifiableDomainPayload: ResolverTypeWrapper<AddVerifiableDomainPayload>
     AddedToProjectEvent: ResolverTypeWrapper<AddedToProjectEvent>
     App: ResolverTypeWrapper<App>
+    ApproveDeploymentsInput: ApproveDeploymentsInput
+    ApproveDeploymentsPayload: ResolverTypeWrapper<ApproveDeploymentsPayload>
+    ApproveVerifiableDomainInput: ApproveVerifiableDomainInput
+    ApproveVerifiableDomainPayload: ResolverTypeWrapper<ApproveVerifiableDomainPayload>
     ArchiveRepositoryInput: ArchiveRepositoryInput
     ArchiveRepositoryPayload: ResolverTypeWrapper<ArchiveRepositoryPayload>
     Assignable: ResolversTypes['Issue'] | ResolversTypes['PullRequest']
@@ -19189,26 +25720,45 @@ export type ResolversTypes = {
     AuditLogOrderField: AuditLogOrderField
     AutoMergeDisabledEvent: ResolverTypeWrapper<AutoMergeDisabledEvent>
     AutoMergeEnabledEvent: ResolverTypeWrapper<AutoMergeEnabledEvent>
+    AutoMergeRequest: ResolverTypeWrapper<AutoMergeRequest>
     AutoRebaseEnabledEvent: ResolverTypeWrapper<AutoRebaseEnabledEvent>
     AutoSquashEnabledEvent: ResolverTypeWrapper<AutoSquashEnabledEvent>
     AutomaticBaseChangeFailedEvent: ResolverTypeWrapper<AutomaticBaseChangeFailedEvent>
     AutomaticBaseChangeSucceededEvent: ResolverTypeWrapper<AutomaticBaseChangeSucceededEvent>
+    Base64String: ResolverTypeWrapper<Scalars['Base64String']>
     BaseRefChangedEvent: ResolverTypeWrapper<BaseRefChangedEvent>
     BaseRefDeletedEvent: ResolverTypeWrapper<BaseRefDeletedEvent>
     BaseRefForcePushedEvent: ResolverTypeWrapper<BaseRefForcePushedEvent>
     Blame: ResolverTypeWrapper<Blame>
     BlameRange: ResolverTypeWrapper<BlameRange>
     Blob: ResolverTypeWrapper<Blob>
-    Boolean: ResolverTypeWrapper<Scalars['Boolean']>
     Bot: ResolverTypeWrapper<Bot>
+    BranchActorAllowanceActor: ResolversTypes['App'] | ResolversTypes['Team'] | ResolversTypes['User']
     BranchProtectionRule: ResolverTypeWrapper<BranchProtectionRule>
     BranchProtectionRuleConflict: ResolverTypeWrapper<BranchProtectionRuleConflict>
     BranchProtectionRuleConflictConnection: ResolverTypeWrapper<BranchProtectionRuleConflictConnection>
     BranchProtectionRuleConflictEdge: ResolverTypeWrapper<BranchProtectionRuleConflictEdge>
     BranchProtectionRuleConnection: ResolverTypeWrapper<BranchProtectionRuleConnection>
     BranchProtectionRuleEdge: ResolverTypeWrapper<BranchProtectionRuleEdge>
+    BypassForcePushAllowance: ResolverTypeWrapper<
+        Omit<BypassForcePushAllowance, 'actor'> & { actor: Maybe<ResolversTypes['BranchActorAllowanceActor']> }
+    >
+    BypassForcePushAllowanceConnection: ResolverTypeWrapper<BypassForcePushAllowanceConnection>
+    BypassForcePushAllowanceEdge: ResolverTypeWrapper<BypassForcePushAllowanceEdge>
+    BypassPullRequestAllowance: ResolverTypeWrapper<
+        Omit<BypassPullRequestAllowance, 'actor'> & { actor: Maybe<ResolversTypes['BranchActorAllowanceActor']> }
+    >
+    BypassPullRequestAllowanceConnection: ResolverTypeWrapper<BypassPullRequestAllowanceConnection>
+    BypassPullRequestAllowanceEdge: ResolverTypeWrapper<BypassPullRequestAllowanceEdge>
+    CVSS: ResolverTypeWrapper<Cvss>
+    Float: ResolverTypeWrapper<Scalars['Float']>
+    CWE: ResolverTypeWrapper<Cwe>
+    CWEConnection: ResolverTypeWrapper<CweConnection>
+    CWEEdge: ResolverTypeWrapper<CweEdge>
     CancelEnterpriseAdminInvitationInput: CancelEnterpriseAdminInvitationInput
     CancelEnterpriseAdminInvitationPayload: ResolverTypeWrapper<CancelEnterpriseAdminInvitationPayload>
+    CancelSponsorshipInput: CancelSponsorshipInput
+    CancelSponsorshipPayload: ResolverTypeWrapper<CancelSponsorshipPayload>
     ChangeUserStatusInput: ChangeUserStatusInput
     ChangeUserStatusPayload: ResolverTypeWrapper<ChangeUserStatusPayload>
     CheckAnnotation: ResolverTypeWrapper<CheckAnnotation>
@@ -19229,6 +25779,9 @@ export type ResolversTypes = {
     CheckRunOutputImage: CheckRunOutputImage
     CheckRunType: CheckRunType
     CheckStatusState: CheckStatusState
+    CheckStep: ResolverTypeWrapper<CheckStep>
+    CheckStepConnection: ResolverTypeWrapper<CheckStepConnection>
+    CheckStepEdge: ResolverTypeWrapper<CheckStepEdge>
     CheckSuite: ResolverTypeWrapper<CheckSuite>
     CheckSuiteAutoTriggerPreference: CheckSuiteAutoTriggerPreference
     CheckSuiteConnection: ResolverTypeWrapper<CheckSuiteConnection>
@@ -19240,7 +25793,13 @@ export type ResolversTypes = {
     CloneProjectPayload: ResolverTypeWrapper<CloneProjectPayload>
     CloneTemplateRepositoryInput: CloneTemplateRepositoryInput
     CloneTemplateRepositoryPayload: ResolverTypeWrapper<CloneTemplateRepositoryPayload>
-    Closable: ResolversTypes['Issue'] | ResolversTypes['Milestone'] | ResolversTypes['Project'] | ResolversTypes['PullRequest']
+    Closable:
+        | ResolversTypes['Issue']
+        | ResolversTypes['Milestone']
+        | ResolversTypes['Project']
+        | ResolversTypes['ProjectNext']
+        | ResolversTypes['ProjectV2']
+        | ResolversTypes['PullRequest']
     CloseIssueInput: CloseIssueInput
     CloseIssuePayload: ResolverTypeWrapper<CloseIssuePayload>
     ClosePullRequestInput: ClosePullRequestInput
@@ -19251,6 +25810,8 @@ export type ResolversTypes = {
     CollaboratorAffiliation: CollaboratorAffiliation
     Comment:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['GistComment']
         | ResolversTypes['Issue']
         | ResolversTypes['IssueComment']
@@ -19274,6 +25835,8 @@ export type ResolversTypes = {
     CommitContributionsByRepository: ResolverTypeWrapper<CommitContributionsByRepository>
     CommitEdge: ResolverTypeWrapper<CommitEdge>
     CommitHistoryConnection: ResolverTypeWrapper<CommitHistoryConnection>
+    CommitMessage: CommitMessage
+    CommittableBranch: CommittableBranch
     ConnectedEvent: ResolverTypeWrapper<
         Omit<ConnectedEvent, 'source' | 'subject'> & {
             source: ResolversTypes['ReferencedSubject']
@@ -19292,6 +25855,7 @@ export type ResolversTypes = {
     ContributionCalendarDay: ResolverTypeWrapper<ContributionCalendarDay>
     ContributionCalendarMonth: ResolverTypeWrapper<ContributionCalendarMonth>
     ContributionCalendarWeek: ResolverTypeWrapper<ContributionCalendarWeek>
+    ContributionLevel: ContributionLevel
     ContributionOrder: ContributionOrder
     ContributionsCollection: ResolverTypeWrapper<
         Omit<
@@ -19305,28 +25869,45 @@ export type ResolversTypes = {
     >
     ConvertProjectCardNoteToIssueInput: ConvertProjectCardNoteToIssueInput
     ConvertProjectCardNoteToIssuePayload: ResolverTypeWrapper<ConvertProjectCardNoteToIssuePayload>
+    ConvertPullRequestToDraftInput: ConvertPullRequestToDraftInput
+    ConvertPullRequestToDraftPayload: ResolverTypeWrapper<ConvertPullRequestToDraftPayload>
     ConvertToDraftEvent: ResolverTypeWrapper<ConvertToDraftEvent>
     ConvertedNoteToIssueEvent: ResolverTypeWrapper<ConvertedNoteToIssueEvent>
+    ConvertedToDiscussionEvent: ResolverTypeWrapper<ConvertedToDiscussionEvent>
     CreateBranchProtectionRuleInput: CreateBranchProtectionRuleInput
     CreateBranchProtectionRulePayload: ResolverTypeWrapper<CreateBranchProtectionRulePayload>
     CreateCheckRunInput: CreateCheckRunInput
     CreateCheckRunPayload: ResolverTypeWrapper<CreateCheckRunPayload>
     CreateCheckSuiteInput: CreateCheckSuiteInput
     CreateCheckSuitePayload: ResolverTypeWrapper<CreateCheckSuitePayload>
+    CreateCommitOnBranchInput: CreateCommitOnBranchInput
+    CreateCommitOnBranchPayload: ResolverTypeWrapper<CreateCommitOnBranchPayload>
+    CreateDiscussionInput: CreateDiscussionInput
+    CreateDiscussionPayload: ResolverTypeWrapper<CreateDiscussionPayload>
     CreateEnterpriseOrganizationInput: CreateEnterpriseOrganizationInput
     CreateEnterpriseOrganizationPayload: ResolverTypeWrapper<CreateEnterpriseOrganizationPayload>
+    CreateEnvironmentInput: CreateEnvironmentInput
+    CreateEnvironmentPayload: ResolverTypeWrapper<CreateEnvironmentPayload>
     CreateIpAllowListEntryInput: CreateIpAllowListEntryInput
     CreateIpAllowListEntryPayload: ResolverTypeWrapper<CreateIpAllowListEntryPayload>
     CreateIssueInput: CreateIssueInput
     CreateIssuePayload: ResolverTypeWrapper<CreateIssuePayload>
+    CreateMigrationSourceInput: CreateMigrationSourceInput
+    CreateMigrationSourcePayload: ResolverTypeWrapper<CreateMigrationSourcePayload>
     CreateProjectInput: CreateProjectInput
     CreateProjectPayload: ResolverTypeWrapper<CreateProjectPayload>
+    CreateProjectV2Input: CreateProjectV2Input
+    CreateProjectV2Payload: ResolverTypeWrapper<CreateProjectV2Payload>
     CreatePullRequestInput: CreatePullRequestInput
     CreatePullRequestPayload: ResolverTypeWrapper<CreatePullRequestPayload>
     CreateRefInput: CreateRefInput
     CreateRefPayload: ResolverTypeWrapper<CreateRefPayload>
     CreateRepositoryInput: CreateRepositoryInput
     CreateRepositoryPayload: ResolverTypeWrapper<CreateRepositoryPayload>
+    CreateSponsorsTierInput: CreateSponsorsTierInput
+    CreateSponsorsTierPayload: ResolverTypeWrapper<CreateSponsorsTierPayload>
+    CreateSponsorshipInput: CreateSponsorshipInput
+    CreateSponsorshipPayload: ResolverTypeWrapper<CreateSponsorshipPayload>
     CreateTeamDiscussionCommentInput: CreateTeamDiscussionCommentInput
     CreateTeamDiscussionCommentPayload: ResolverTypeWrapper<CreateTeamDiscussionCommentPayload>
     CreateTeamDiscussionInput: CreateTeamDiscussionInput
@@ -19366,6 +25947,8 @@ export type ResolversTypes = {
     DefaultRepositoryPermissionField: DefaultRepositoryPermissionField
     Deletable:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['GistComment']
         | ResolversTypes['IssueComment']
         | ResolversTypes['PullRequestReview']
@@ -19376,6 +25959,12 @@ export type ResolversTypes = {
     DeleteBranchProtectionRulePayload: ResolverTypeWrapper<DeleteBranchProtectionRulePayload>
     DeleteDeploymentInput: DeleteDeploymentInput
     DeleteDeploymentPayload: ResolverTypeWrapper<DeleteDeploymentPayload>
+    DeleteDiscussionCommentInput: DeleteDiscussionCommentInput
+    DeleteDiscussionCommentPayload: ResolverTypeWrapper<DeleteDiscussionCommentPayload>
+    DeleteDiscussionInput: DeleteDiscussionInput
+    DeleteDiscussionPayload: ResolverTypeWrapper<DeleteDiscussionPayload>
+    DeleteEnvironmentInput: DeleteEnvironmentInput
+    DeleteEnvironmentPayload: ResolverTypeWrapper<DeleteEnvironmentPayload>
     DeleteIpAllowListEntryInput: DeleteIpAllowListEntryInput
     DeleteIpAllowListEntryPayload: ResolverTypeWrapper<DeleteIpAllowListEntryPayload>
     DeleteIssueCommentInput: DeleteIssueCommentInput
@@ -19387,7 +25976,11 @@ export type ResolversTypes = {
     DeleteProjectColumnInput: DeleteProjectColumnInput
     DeleteProjectColumnPayload: ResolverTypeWrapper<DeleteProjectColumnPayload>
     DeleteProjectInput: DeleteProjectInput
+    DeleteProjectNextItemInput: DeleteProjectNextItemInput
+    DeleteProjectNextItemPayload: ResolverTypeWrapper<DeleteProjectNextItemPayload>
     DeleteProjectPayload: ResolverTypeWrapper<DeleteProjectPayload>
+    DeleteProjectV2ItemInput: DeleteProjectV2ItemInput
+    DeleteProjectV2ItemPayload: ResolverTypeWrapper<DeleteProjectV2ItemPayload>
     DeletePullRequestReviewCommentInput: DeletePullRequestReviewCommentInput
     DeletePullRequestReviewCommentPayload: ResolverTypeWrapper<DeletePullRequestReviewCommentPayload>
     DeletePullRequestReviewInput: DeletePullRequestReviewInput
@@ -19398,7 +25991,14 @@ export type ResolversTypes = {
     DeleteTeamDiscussionCommentPayload: ResolverTypeWrapper<DeleteTeamDiscussionCommentPayload>
     DeleteTeamDiscussionInput: DeleteTeamDiscussionInput
     DeleteTeamDiscussionPayload: ResolverTypeWrapper<DeleteTeamDiscussionPayload>
+    DeleteVerifiableDomainInput: DeleteVerifiableDomainInput
+    DeleteVerifiableDomainPayload: ResolverTypeWrapper<
+        Omit<DeleteVerifiableDomainPayload, 'owner'> & { owner: Maybe<ResolversTypes['VerifiableDomainOwner']> }
+    >
     DemilestonedEvent: ResolverTypeWrapper<Omit<DemilestonedEvent, 'subject'> & { subject: ResolversTypes['MilestoneItem'] }>
+    DependabotUpdate: ResolverTypeWrapper<DependabotUpdate>
+    DependabotUpdateError: ResolverTypeWrapper<DependabotUpdateError>
+    DependencyGraphEcosystem: DependencyGraphEcosystem
     DeployKey: ResolverTypeWrapper<DeployKey>
     DeployKeyConnection: ResolverTypeWrapper<DeployKeyConnection>
     DeployKeyEdge: ResolverTypeWrapper<DeployKeyEdge>
@@ -19409,22 +26009,65 @@ export type ResolversTypes = {
     DeploymentEnvironmentChangedEvent: ResolverTypeWrapper<DeploymentEnvironmentChangedEvent>
     DeploymentOrder: DeploymentOrder
     DeploymentOrderField: DeploymentOrderField
+    DeploymentProtectionRule: ResolverTypeWrapper<DeploymentProtectionRule>
+    DeploymentProtectionRuleConnection: ResolverTypeWrapper<DeploymentProtectionRuleConnection>
+    DeploymentProtectionRuleEdge: ResolverTypeWrapper<DeploymentProtectionRuleEdge>
+    DeploymentProtectionRuleType: DeploymentProtectionRuleType
+    DeploymentRequest: ResolverTypeWrapper<DeploymentRequest>
+    DeploymentRequestConnection: ResolverTypeWrapper<DeploymentRequestConnection>
+    DeploymentRequestEdge: ResolverTypeWrapper<DeploymentRequestEdge>
+    DeploymentReview: ResolverTypeWrapper<DeploymentReview>
+    DeploymentReviewConnection: ResolverTypeWrapper<DeploymentReviewConnection>
+    DeploymentReviewEdge: ResolverTypeWrapper<DeploymentReviewEdge>
+    DeploymentReviewState: DeploymentReviewState
+    DeploymentReviewer: ResolversTypes['Team'] | ResolversTypes['User']
+    DeploymentReviewerConnection: ResolverTypeWrapper<
+        Omit<DeploymentReviewerConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['DeploymentReviewer']>>> }
+    >
+    DeploymentReviewerEdge: ResolverTypeWrapper<
+        Omit<DeploymentReviewerEdge, 'node'> & { node: Maybe<ResolversTypes['DeploymentReviewer']> }
+    >
     DeploymentState: DeploymentState
     DeploymentStatus: ResolverTypeWrapper<DeploymentStatus>
     DeploymentStatusConnection: ResolverTypeWrapper<DeploymentStatusConnection>
     DeploymentStatusEdge: ResolverTypeWrapper<DeploymentStatusEdge>
     DeploymentStatusState: DeploymentStatusState
     DiffSide: DiffSide
+    DisablePullRequestAutoMergeInput: DisablePullRequestAutoMergeInput
+    DisablePullRequestAutoMergePayload: ResolverTypeWrapper<DisablePullRequestAutoMergePayload>
     DisconnectedEvent: ResolverTypeWrapper<
         Omit<DisconnectedEvent, 'source' | 'subject'> & {
             source: ResolversTypes['ReferencedSubject']
             subject: ResolversTypes['ReferencedSubject']
         }
     >
+    Discussion: ResolverTypeWrapper<Discussion>
+    DiscussionCategory: ResolverTypeWrapper<DiscussionCategory>
+    DiscussionCategoryConnection: ResolverTypeWrapper<DiscussionCategoryConnection>
+    DiscussionCategoryEdge: ResolverTypeWrapper<DiscussionCategoryEdge>
+    DiscussionComment: ResolverTypeWrapper<DiscussionComment>
+    DiscussionCommentConnection: ResolverTypeWrapper<DiscussionCommentConnection>
+    DiscussionCommentEdge: ResolverTypeWrapper<DiscussionCommentEdge>
+    DiscussionConnection: ResolverTypeWrapper<DiscussionConnection>
+    DiscussionEdge: ResolverTypeWrapper<DiscussionEdge>
+    DiscussionOrder: DiscussionOrder
+    DiscussionOrderField: DiscussionOrderField
+    DiscussionPoll: ResolverTypeWrapper<DiscussionPoll>
+    DiscussionPollOption: ResolverTypeWrapper<DiscussionPollOption>
+    DiscussionPollOptionConnection: ResolverTypeWrapper<DiscussionPollOptionConnection>
+    DiscussionPollOptionEdge: ResolverTypeWrapper<DiscussionPollOptionEdge>
+    DiscussionPollOptionOrder: DiscussionPollOptionOrder
+    DiscussionPollOptionOrderField: DiscussionPollOptionOrderField
     DismissPullRequestReviewInput: DismissPullRequestReviewInput
     DismissPullRequestReviewPayload: ResolverTypeWrapper<DismissPullRequestReviewPayload>
+    DismissReason: DismissReason
+    DismissRepositoryVulnerabilityAlertInput: DismissRepositoryVulnerabilityAlertInput
+    DismissRepositoryVulnerabilityAlertPayload: ResolverTypeWrapper<DismissRepositoryVulnerabilityAlertPayload>
+    DraftIssue: ResolverTypeWrapper<DraftIssue>
     DraftPullRequestReviewComment: DraftPullRequestReviewComment
     DraftPullRequestReviewThread: DraftPullRequestReviewThread
+    EnablePullRequestAutoMergeInput: EnablePullRequestAutoMergeInput
+    EnablePullRequestAutoMergePayload: ResolverTypeWrapper<EnablePullRequestAutoMergePayload>
     Enterprise: ResolverTypeWrapper<Enterprise>
     EnterpriseAdministratorConnection: ResolverTypeWrapper<EnterpriseAdministratorConnection>
     EnterpriseAdministratorEdge: ResolverTypeWrapper<EnterpriseAdministratorEdge>
@@ -19444,7 +26087,6 @@ export type ResolversTypes = {
         | ResolversTypes['RepositoryVisibilityChangeDisableAuditEntry']
         | ResolversTypes['RepositoryVisibilityChangeEnableAuditEntry']
     EnterpriseBillingInfo: ResolverTypeWrapper<EnterpriseBillingInfo>
-    Float: ResolverTypeWrapper<Scalars['Float']>
     EnterpriseDefaultRepositoryPermissionSettingValue: EnterpriseDefaultRepositoryPermissionSettingValue
     EnterpriseEnabledDisabledSettingValue: EnterpriseEnabledDisabledSettingValue
     EnterpriseEnabledSettingValue: EnterpriseEnabledSettingValue
@@ -19465,8 +26107,6 @@ export type ResolversTypes = {
     EnterpriseOutsideCollaboratorConnection: ResolverTypeWrapper<EnterpriseOutsideCollaboratorConnection>
     EnterpriseOutsideCollaboratorEdge: ResolverTypeWrapper<EnterpriseOutsideCollaboratorEdge>
     EnterpriseOwnerInfo: ResolverTypeWrapper<EnterpriseOwnerInfo>
-    EnterprisePendingCollaboratorConnection: ResolverTypeWrapper<EnterprisePendingCollaboratorConnection>
-    EnterprisePendingCollaboratorEdge: ResolverTypeWrapper<EnterprisePendingCollaboratorEdge>
     EnterprisePendingMemberInvitationConnection: ResolverTypeWrapper<EnterprisePendingMemberInvitationConnection>
     EnterprisePendingMemberInvitationEdge: ResolverTypeWrapper<EnterprisePendingMemberInvitationEdge>
     EnterpriseRepositoryInfo: ResolverTypeWrapper<EnterpriseRepositoryInfo>
@@ -19498,12 +26138,21 @@ export type ResolversTypes = {
     EnterpriseUserAccountEdge: ResolverTypeWrapper<EnterpriseUserAccountEdge>
     EnterpriseUserAccountMembershipRole: EnterpriseUserAccountMembershipRole
     EnterpriseUserDeployment: EnterpriseUserDeployment
+    Environment: ResolverTypeWrapper<Environment>
+    EnvironmentConnection: ResolverTypeWrapper<EnvironmentConnection>
+    EnvironmentEdge: ResolverTypeWrapper<EnvironmentEdge>
     ExternalIdentity: ResolverTypeWrapper<ExternalIdentity>
+    ExternalIdentityAttribute: ResolverTypeWrapper<ExternalIdentityAttribute>
     ExternalIdentityConnection: ResolverTypeWrapper<ExternalIdentityConnection>
     ExternalIdentityEdge: ResolverTypeWrapper<ExternalIdentityEdge>
     ExternalIdentitySamlAttributes: ResolverTypeWrapper<ExternalIdentitySamlAttributes>
     ExternalIdentityScimAttributes: ResolverTypeWrapper<ExternalIdentityScimAttributes>
+    FileAddition: FileAddition
+    FileChanges: FileChanges
+    FileDeletion: FileDeletion
     FileViewedState: FileViewedState
+    FollowOrganizationInput: FollowOrganizationInput
+    FollowOrganizationPayload: ResolverTypeWrapper<FollowOrganizationPayload>
     FollowUserInput: FollowUserInput
     FollowUserPayload: ResolverTypeWrapper<FollowUserPayload>
     FollowerConnection: ResolverTypeWrapper<FollowerConnection>
@@ -19532,6 +26181,10 @@ export type ResolversTypes = {
     GitSignatureState: GitSignatureState
     GitTimestamp: ResolverTypeWrapper<Scalars['GitTimestamp']>
     GpgSignature: ResolverTypeWrapper<GpgSignature>
+    GrantEnterpriseOrganizationsMigratorRoleInput: GrantEnterpriseOrganizationsMigratorRoleInput
+    GrantEnterpriseOrganizationsMigratorRolePayload: ResolverTypeWrapper<GrantEnterpriseOrganizationsMigratorRolePayload>
+    GrantMigratorRoleInput: GrantMigratorRoleInput
+    GrantMigratorRolePayload: ResolverTypeWrapper<GrantMigratorRolePayload>
     HTML: ResolverTypeWrapper<Scalars['HTML']>
     HeadRefDeletedEvent: ResolverTypeWrapper<HeadRefDeletedEvent>
     HeadRefForcePushedEvent: ResolverTypeWrapper<HeadRefForcePushedEvent>
@@ -19552,8 +26205,10 @@ export type ResolversTypes = {
     IpAllowListEntryEdge: ResolverTypeWrapper<IpAllowListEntryEdge>
     IpAllowListEntryOrder: IpAllowListEntryOrder
     IpAllowListEntryOrderField: IpAllowListEntryOrderField
-    IpAllowListOwner: ResolversTypes['Enterprise'] | ResolversTypes['Organization']
+    IpAllowListForInstalledAppsEnabledSettingValue: IpAllowListForInstalledAppsEnabledSettingValue
+    IpAllowListOwner: ResolversTypes['App'] | ResolversTypes['Enterprise'] | ResolversTypes['Organization']
     Issue: ResolverTypeWrapper<Issue>
+    IssueClosedStateReason: IssueClosedStateReason
     IssueComment: ResolverTypeWrapper<IssueComment>
     IssueCommentConnection: ResolverTypeWrapper<IssueCommentConnection>
     IssueCommentEdge: ResolverTypeWrapper<IssueCommentEdge>
@@ -19567,6 +26222,7 @@ export type ResolversTypes = {
     IssueOrder: IssueOrder
     IssueOrderField: IssueOrderField
     IssueState: IssueState
+    IssueStateReason: IssueStateReason
     IssueTemplate: ResolverTypeWrapper<IssueTemplate>
     IssueTimelineConnection: ResolverTypeWrapper<
         Omit<IssueTimelineConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['IssueTimelineItem']>>> }
@@ -19601,6 +26257,7 @@ export type ResolversTypes = {
         | ResolversTypes['CommentDeletedEvent']
         | ResolversTypes['ConnectedEvent']
         | ResolversTypes['ConvertedNoteToIssueEvent']
+        | ResolversTypes['ConvertedToDiscussionEvent']
         | ResolversTypes['CrossReferencedEvent']
         | ResolversTypes['DemilestonedEvent']
         | ResolversTypes['DisconnectedEvent']
@@ -19638,7 +26295,7 @@ export type ResolversTypes = {
     LabelEdge: ResolverTypeWrapper<LabelEdge>
     LabelOrder: LabelOrder
     LabelOrderField: LabelOrderField
-    Labelable: ResolversTypes['Issue'] | ResolversTypes['PullRequest']
+    Labelable: ResolversTypes['Discussion'] | ResolversTypes['Issue'] | ResolversTypes['PullRequest']
     LabeledEvent: ResolverTypeWrapper<LabeledEvent>
     Language: ResolverTypeWrapper<Language>
     LanguageConnection: ResolverTypeWrapper<LanguageConnection>
@@ -19652,9 +26309,11 @@ export type ResolversTypes = {
     LockLockableInput: LockLockableInput
     LockLockablePayload: ResolverTypeWrapper<LockLockablePayload>
     LockReason: LockReason
-    Lockable: ResolversTypes['Issue'] | ResolversTypes['PullRequest']
+    Lockable: ResolversTypes['Discussion'] | ResolversTypes['Issue'] | ResolversTypes['PullRequest']
     LockedEvent: ResolverTypeWrapper<LockedEvent>
     Mannequin: ResolverTypeWrapper<Mannequin>
+    MarkDiscussionCommentAsAnswerInput: MarkDiscussionCommentAsAnswerInput
+    MarkDiscussionCommentAsAnswerPayload: ResolverTypeWrapper<MarkDiscussionCommentAsAnswerPayload>
     MarkFileAsViewedInput: MarkFileAsViewedInput
     MarkFileAsViewedPayload: ResolverTypeWrapper<MarkFileAsViewedPayload>
     MarkPullRequestReadyForReviewInput: MarkPullRequestReadyForReviewInput
@@ -19686,6 +26345,10 @@ export type ResolversTypes = {
     MergePullRequestPayload: ResolverTypeWrapper<MergePullRequestPayload>
     MergeableState: MergeableState
     MergedEvent: ResolverTypeWrapper<MergedEvent>
+    Migration: ResolversTypes['RepositoryMigration']
+    MigrationSource: ResolverTypeWrapper<MigrationSource>
+    MigrationSourceType: MigrationSourceType
+    MigrationState: MigrationState
     Milestone: ResolverTypeWrapper<Milestone>
     MilestoneConnection: ResolverTypeWrapper<MilestoneConnection>
     MilestoneEdge: ResolverTypeWrapper<MilestoneEdge>
@@ -19696,6 +26359,7 @@ export type ResolversTypes = {
     MilestonedEvent: ResolverTypeWrapper<Omit<MilestonedEvent, 'subject'> & { subject: ResolversTypes['MilestoneItem'] }>
     Minimizable:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['GistComment']
         | ResolversTypes['IssueComment']
         | ResolversTypes['PullRequestReviewComment']
@@ -19723,6 +26387,9 @@ export type ResolversTypes = {
         | ResolversTypes['Blob']
         | ResolversTypes['Bot']
         | ResolversTypes['BranchProtectionRule']
+        | ResolversTypes['BypassForcePushAllowance']
+        | ResolversTypes['BypassPullRequestAllowance']
+        | ResolversTypes['CWE']
         | ResolversTypes['CheckRun']
         | ResolversTypes['CheckSuite']
         | ResolversTypes['ClosedEvent']
@@ -19734,14 +26401,22 @@ export type ResolversTypes = {
         | ResolversTypes['ConnectedEvent']
         | ResolversTypes['ConvertToDraftEvent']
         | ResolversTypes['ConvertedNoteToIssueEvent']
+        | ResolversTypes['ConvertedToDiscussionEvent']
         | ResolversTypes['CrossReferencedEvent']
         | ResolversTypes['DemilestonedEvent']
         | ResolversTypes['DeployKey']
         | ResolversTypes['DeployedEvent']
         | ResolversTypes['Deployment']
         | ResolversTypes['DeploymentEnvironmentChangedEvent']
+        | ResolversTypes['DeploymentReview']
         | ResolversTypes['DeploymentStatus']
         | ResolversTypes['DisconnectedEvent']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionCategory']
+        | ResolversTypes['DiscussionComment']
+        | ResolversTypes['DiscussionPoll']
+        | ResolversTypes['DiscussionPollOption']
+        | ResolversTypes['DraftIssue']
         | ResolversTypes['Enterprise']
         | ResolversTypes['EnterpriseAdministratorInvitation']
         | ResolversTypes['EnterpriseIdentityProvider']
@@ -19751,6 +26426,7 @@ export type ResolversTypes = {
         | ResolversTypes['EnterpriseServerUserAccountEmail']
         | ResolversTypes['EnterpriseServerUserAccountsUpload']
         | ResolversTypes['EnterpriseUserAccount']
+        | ResolversTypes['Environment']
         | ResolversTypes['ExternalIdentity']
         | ResolversTypes['Gist']
         | ResolversTypes['GistComment']
@@ -19774,9 +26450,11 @@ export type ResolversTypes = {
         | ResolversTypes['MembersCanDeleteReposEnableAuditEntry']
         | ResolversTypes['MentionedEvent']
         | ResolversTypes['MergedEvent']
+        | ResolversTypes['MigrationSource']
         | ResolversTypes['Milestone']
         | ResolversTypes['MilestonedEvent']
         | ResolversTypes['MovedColumnsInProjectEvent']
+        | ResolversTypes['OIDCProvider']
         | ResolversTypes['OauthApplicationCreateAuditEntry']
         | ResolversTypes['OrgAddBillingManagerAuditEntry']
         | ResolversTypes['OrgAddMemberAuditEntry']
@@ -19811,12 +26489,30 @@ export type ResolversTypes = {
         | ResolversTypes['PackageFile']
         | ResolversTypes['PackageTag']
         | ResolversTypes['PackageVersion']
+        | ResolversTypes['PinnedDiscussion']
         | ResolversTypes['PinnedEvent']
+        | ResolversTypes['PinnedIssue']
         | ResolversTypes['PrivateRepositoryForkingDisableAuditEntry']
         | ResolversTypes['PrivateRepositoryForkingEnableAuditEntry']
         | ResolversTypes['Project']
         | ResolversTypes['ProjectCard']
         | ResolversTypes['ProjectColumn']
+        | ResolversTypes['ProjectNext']
+        | ResolversTypes['ProjectNextField']
+        | ResolversTypes['ProjectNextItem']
+        | ResolversTypes['ProjectNextItemFieldValue']
+        | ResolversTypes['ProjectV2']
+        | ResolversTypes['ProjectV2Field']
+        | ResolversTypes['ProjectV2Item']
+        | ResolversTypes['ProjectV2ItemFieldDateValue']
+        | ResolversTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversTypes['ProjectV2ItemFieldTextValue']
+        | ResolversTypes['ProjectV2IterationField']
+        | ResolversTypes['ProjectV2SingleSelectField']
+        | ResolversTypes['ProjectV2View']
+        | ResolversTypes['ProjectView']
         | ResolversTypes['PublicKey']
         | ResolversTypes['PullRequest']
         | ResolversTypes['PullRequestCommit']
@@ -19856,6 +26552,7 @@ export type ResolversTypes = {
         | ResolversTypes['RepoRemoveTopicAuditEntry']
         | ResolversTypes['Repository']
         | ResolversTypes['RepositoryInvitation']
+        | ResolversTypes['RepositoryMigration']
         | ResolversTypes['RepositoryTopic']
         | ResolversTypes['RepositoryVisibilityChangeDisableAuditEntry']
         | ResolversTypes['RepositoryVisibilityChangeEnableAuditEntry']
@@ -19867,9 +26564,11 @@ export type ResolversTypes = {
         | ResolversTypes['ReviewRequestedEvent']
         | ResolversTypes['SavedReply']
         | ResolversTypes['SecurityAdvisory']
+        | ResolversTypes['SponsorsActivity']
         | ResolversTypes['SponsorsListing']
         | ResolversTypes['SponsorsTier']
         | ResolversTypes['Sponsorship']
+        | ResolversTypes['SponsorshipNewsletter']
         | ResolversTypes['Status']
         | ResolversTypes['StatusCheckRollup']
         | ResolversTypes['StatusContext']
@@ -19896,6 +26595,12 @@ export type ResolversTypes = {
         | ResolversTypes['UserBlockedEvent']
         | ResolversTypes['UserContentEdit']
         | ResolversTypes['UserStatus']
+        | ResolversTypes['VerifiableDomain']
+        | ResolversTypes['Workflow']
+        | ResolversTypes['WorkflowRun']
+    NotificationRestrictionSettingValue: NotificationRestrictionSettingValue
+    OIDCProvider: ResolverTypeWrapper<OidcProvider>
+    OIDCProviderType: OidcProviderType
     OauthApplicationAuditEntryData:
         | ResolversTypes['OauthApplicationCreateAuditEntry']
         | ResolversTypes['OrgOauthAppAccessApprovedAuditEntry']
@@ -19945,6 +26650,8 @@ export type ResolversTypes = {
     OrgEnableTwoFactorRequirementAuditEntry: ResolverTypeWrapper<
         Omit<OrgEnableTwoFactorRequirementAuditEntry, 'actor'> & { actor: Maybe<ResolversTypes['AuditEntryActor']> }
     >
+    OrgEnterpriseOwnerOrder: OrgEnterpriseOwnerOrder
+    OrgEnterpriseOwnerOrderField: OrgEnterpriseOwnerOrderField
     OrgInviteMemberAuditEntry: ResolverTypeWrapper<
         Omit<OrgInviteMemberAuditEntry, 'actor'> & { actor: Maybe<ResolversTypes['AuditEntryActor']> }
     >
@@ -20135,6 +26842,8 @@ export type ResolversTypes = {
     >
     OrganizationConnection: ResolverTypeWrapper<OrganizationConnection>
     OrganizationEdge: ResolverTypeWrapper<OrganizationEdge>
+    OrganizationEnterpriseOwnerConnection: ResolverTypeWrapper<OrganizationEnterpriseOwnerConnection>
+    OrganizationEnterpriseOwnerEdge: ResolverTypeWrapper<OrganizationEnterpriseOwnerEdge>
     OrganizationIdentityProvider: ResolverTypeWrapper<OrganizationIdentityProvider>
     OrganizationInvitation: ResolverTypeWrapper<OrganizationInvitation>
     OrganizationInvitationConnection: ResolverTypeWrapper<OrganizationInvitationConnection>
@@ -20145,6 +26854,7 @@ export type ResolversTypes = {
     OrganizationMemberEdge: ResolverTypeWrapper<OrganizationMemberEdge>
     OrganizationMemberRole: OrganizationMemberRole
     OrganizationMembersCanCreateRepositoriesSettingValue: OrganizationMembersCanCreateRepositoriesSettingValue
+    OrganizationOrUser: ResolversTypes['Organization'] | ResolversTypes['User']
     OrganizationOrder: OrganizationOrder
     OrganizationOrderField: OrganizationOrderField
     OrganizationTeamsHovercardContext: ResolverTypeWrapper<OrganizationTeamsHovercardContext>
@@ -20170,15 +26880,26 @@ export type ResolversTypes = {
     PackageVersionOrderField: PackageVersionOrderField
     PackageVersionStatistics: ResolverTypeWrapper<PackageVersionStatistics>
     PageInfo: ResolverTypeWrapper<PageInfo>
+    PatchStatus: PatchStatus
     PermissionGranter: ResolversTypes['Organization'] | ResolversTypes['Repository'] | ResolversTypes['Team']
     PermissionSource: ResolverTypeWrapper<Omit<PermissionSource, 'source'> & { source: ResolversTypes['PermissionGranter'] }>
+    PinIssueInput: PinIssueInput
+    PinIssuePayload: ResolverTypeWrapper<PinIssuePayload>
     PinnableItem: ResolversTypes['Gist'] | ResolversTypes['Repository']
     PinnableItemConnection: ResolverTypeWrapper<
         Omit<PinnableItemConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['PinnableItem']>>> }
     >
     PinnableItemEdge: ResolverTypeWrapper<Omit<PinnableItemEdge, 'node'> & { node: Maybe<ResolversTypes['PinnableItem']> }>
     PinnableItemType: PinnableItemType
+    PinnedDiscussion: ResolverTypeWrapper<PinnedDiscussion>
+    PinnedDiscussionConnection: ResolverTypeWrapper<PinnedDiscussionConnection>
+    PinnedDiscussionEdge: ResolverTypeWrapper<PinnedDiscussionEdge>
+    PinnedDiscussionGradient: PinnedDiscussionGradient
+    PinnedDiscussionPattern: PinnedDiscussionPattern
     PinnedEvent: ResolverTypeWrapper<PinnedEvent>
+    PinnedIssue: ResolverTypeWrapper<PinnedIssue>
+    PinnedIssueConnection: ResolverTypeWrapper<PinnedIssueConnection>
+    PinnedIssueEdge: ResolverTypeWrapper<PinnedIssueEdge>
     PreciseDateTime: ResolverTypeWrapper<Scalars['PreciseDateTime']>
     PrivateRepositoryForkingDisableAuditEntry: ResolverTypeWrapper<
         Omit<PrivateRepositoryForkingDisableAuditEntry, 'actor'> & { actor: Maybe<ResolversTypes['AuditEntryActor']> }
@@ -20201,12 +26922,150 @@ export type ResolversTypes = {
     ProjectColumnPurpose: ProjectColumnPurpose
     ProjectConnection: ResolverTypeWrapper<ProjectConnection>
     ProjectEdge: ResolverTypeWrapper<ProjectEdge>
+    ProjectItemType: ProjectItemType
+    ProjectNext: ResolverTypeWrapper<ProjectNext>
+    ProjectNextConnection: ResolverTypeWrapper<ProjectNextConnection>
+    ProjectNextEdge: ResolverTypeWrapper<ProjectNextEdge>
+    ProjectNextField: ResolverTypeWrapper<ProjectNextField>
+    ProjectNextFieldCommon: ResolversTypes['ProjectNextField']
+    ProjectNextFieldConnection: ResolverTypeWrapper<ProjectNextFieldConnection>
+    ProjectNextFieldEdge: ResolverTypeWrapper<ProjectNextFieldEdge>
+    ProjectNextFieldType: ProjectNextFieldType
+    ProjectNextItem: ResolverTypeWrapper<
+        Omit<ProjectNextItem, 'content'> & { content: Maybe<ResolversTypes['ProjectNextItemContent']> }
+    >
+    ProjectNextItemConnection: ResolverTypeWrapper<ProjectNextItemConnection>
+    ProjectNextItemContent: ResolversTypes['DraftIssue'] | ResolversTypes['Issue'] | ResolversTypes['PullRequest']
+    ProjectNextItemEdge: ResolverTypeWrapper<ProjectNextItemEdge>
+    ProjectNextItemFieldValue: ResolverTypeWrapper<ProjectNextItemFieldValue>
+    ProjectNextItemFieldValueConnection: ResolverTypeWrapper<ProjectNextItemFieldValueConnection>
+    ProjectNextItemFieldValueEdge: ResolverTypeWrapper<ProjectNextItemFieldValueEdge>
+    ProjectNextOrderField: ProjectNextOrderField
+    ProjectNextOwner:
+        | ResolversTypes['Issue']
+        | ResolversTypes['Organization']
+        | ResolversTypes['PullRequest']
+        | ResolversTypes['User']
     ProjectOrder: ProjectOrder
     ProjectOrderField: ProjectOrderField
     ProjectOwner: ResolversTypes['Organization'] | ResolversTypes['Repository'] | ResolversTypes['User']
     ProjectProgress: ResolverTypeWrapper<ProjectProgress>
     ProjectState: ProjectState
     ProjectTemplate: ProjectTemplate
+    ProjectV2: ResolverTypeWrapper<Omit<ProjectV2, 'field'> & { field: Maybe<ResolversTypes['ProjectV2FieldConfiguration']> }>
+    ProjectV2Connection: ResolverTypeWrapper<ProjectV2Connection>
+    ProjectV2Edge: ResolverTypeWrapper<ProjectV2Edge>
+    ProjectV2Field: ResolverTypeWrapper<ProjectV2Field>
+    ProjectV2FieldCommon:
+        | ResolversTypes['ProjectV2Field']
+        | ResolversTypes['ProjectV2IterationField']
+        | ResolversTypes['ProjectV2SingleSelectField']
+    ProjectV2FieldConfiguration:
+        | ResolversTypes['ProjectV2Field']
+        | ResolversTypes['ProjectV2IterationField']
+        | ResolversTypes['ProjectV2SingleSelectField']
+    ProjectV2FieldConfigurationConnection: ResolverTypeWrapper<
+        Omit<ProjectV2FieldConfigurationConnection, 'nodes'> & {
+            nodes: Maybe<Array<Maybe<ResolversTypes['ProjectV2FieldConfiguration']>>>
+        }
+    >
+    ProjectV2FieldConfigurationEdge: ResolverTypeWrapper<
+        Omit<ProjectV2FieldConfigurationEdge, 'node'> & { node: Maybe<ResolversTypes['ProjectV2FieldConfiguration']> }
+    >
+    ProjectV2FieldConnection: ResolverTypeWrapper<ProjectV2FieldConnection>
+    ProjectV2FieldEdge: ResolverTypeWrapper<ProjectV2FieldEdge>
+    ProjectV2FieldType: ProjectV2FieldType
+    ProjectV2FieldValue: ProjectV2FieldValue
+    ProjectV2Item: ResolverTypeWrapper<
+        Omit<ProjectV2Item, 'content'> & { content: Maybe<ResolversTypes['ProjectV2ItemContent']> }
+    >
+    ProjectV2ItemConnection: ResolverTypeWrapper<ProjectV2ItemConnection>
+    ProjectV2ItemContent: ResolversTypes['DraftIssue'] | ResolversTypes['Issue'] | ResolversTypes['PullRequest']
+    ProjectV2ItemEdge: ResolverTypeWrapper<ProjectV2ItemEdge>
+    ProjectV2ItemFieldDateValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldDateValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldIterationValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldIterationValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldLabelValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldLabelValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldMilestoneValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldMilestoneValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldNumberValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldNumberValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldPullRequestValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldPullRequestValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldRepositoryValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldRepositoryValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldReviewerValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldReviewerValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldSingleSelectValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldSingleSelectValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldTextValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldTextValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldUserValue: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldUserValue, 'field'> & { field: ResolversTypes['ProjectV2FieldConfiguration'] }
+    >
+    ProjectV2ItemFieldValue:
+        | ResolversTypes['ProjectV2ItemFieldDateValue']
+        | ResolversTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversTypes['ProjectV2ItemFieldLabelValue']
+        | ResolversTypes['ProjectV2ItemFieldMilestoneValue']
+        | ResolversTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversTypes['ProjectV2ItemFieldPullRequestValue']
+        | ResolversTypes['ProjectV2ItemFieldRepositoryValue']
+        | ResolversTypes['ProjectV2ItemFieldReviewerValue']
+        | ResolversTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversTypes['ProjectV2ItemFieldTextValue']
+        | ResolversTypes['ProjectV2ItemFieldUserValue']
+    ProjectV2ItemFieldValueCommon:
+        | ResolversTypes['ProjectV2ItemFieldDateValue']
+        | ResolversTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversTypes['ProjectV2ItemFieldTextValue']
+    ProjectV2ItemFieldValueConnection: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldValueConnection, 'nodes'> & {
+            nodes: Maybe<Array<Maybe<ResolversTypes['ProjectV2ItemFieldValue']>>>
+        }
+    >
+    ProjectV2ItemFieldValueEdge: ResolverTypeWrapper<
+        Omit<ProjectV2ItemFieldValueEdge, 'node'> & { node: Maybe<ResolversTypes['ProjectV2ItemFieldValue']> }
+    >
+    ProjectV2ItemType: ProjectV2ItemType
+    ProjectV2IterationField: ResolverTypeWrapper<ProjectV2IterationField>
+    ProjectV2IterationFieldConfiguration: ResolverTypeWrapper<ProjectV2IterationFieldConfiguration>
+    ProjectV2IterationFieldIteration: ResolverTypeWrapper<ProjectV2IterationFieldIteration>
+    ProjectV2Order: ProjectV2Order
+    ProjectV2OrderField: ProjectV2OrderField
+    ProjectV2Owner:
+        | ResolversTypes['Issue']
+        | ResolversTypes['Organization']
+        | ResolversTypes['PullRequest']
+        | ResolversTypes['User']
+    ProjectV2Recent: ResolversTypes['Organization'] | ResolversTypes['Repository'] | ResolversTypes['User']
+    ProjectV2SingleSelectField: ResolverTypeWrapper<ProjectV2SingleSelectField>
+    ProjectV2SingleSelectFieldOption: ResolverTypeWrapper<ProjectV2SingleSelectFieldOption>
+    ProjectV2SortBy: ResolverTypeWrapper<ProjectV2SortBy>
+    ProjectV2SortByConnection: ResolverTypeWrapper<ProjectV2SortByConnection>
+    ProjectV2SortByEdge: ResolverTypeWrapper<ProjectV2SortByEdge>
+    ProjectV2View: ResolverTypeWrapper<ProjectV2View>
+    ProjectV2ViewConnection: ResolverTypeWrapper<ProjectV2ViewConnection>
+    ProjectV2ViewEdge: ResolverTypeWrapper<ProjectV2ViewEdge>
+    ProjectV2ViewLayout: ProjectV2ViewLayout
+    ProjectView: ResolverTypeWrapper<ProjectView>
+    ProjectViewConnection: ResolverTypeWrapper<ProjectViewConnection>
+    ProjectViewEdge: ResolverTypeWrapper<ProjectViewEdge>
+    ProjectViewLayout: ProjectViewLayout
     PublicKey: ResolverTypeWrapper<PublicKey>
     PublicKeyConnection: ResolverTypeWrapper<PublicKeyConnection>
     PublicKeyEdge: ResolverTypeWrapper<PublicKeyEdge>
@@ -20240,6 +27099,7 @@ export type ResolversTypes = {
     PullRequestReviewThreadEdge: ResolverTypeWrapper<PullRequestReviewThreadEdge>
     PullRequestRevisionMarker: ResolverTypeWrapper<PullRequestRevisionMarker>
     PullRequestState: PullRequestState
+    PullRequestTemplate: ResolverTypeWrapper<PullRequestTemplate>
     PullRequestTimelineConnection: ResolverTypeWrapper<
         Omit<PullRequestTimelineConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['PullRequestTimelineItem']>>> }
     >
@@ -20297,6 +27157,7 @@ export type ResolversTypes = {
         | ResolversTypes['ConnectedEvent']
         | ResolversTypes['ConvertToDraftEvent']
         | ResolversTypes['ConvertedNoteToIssueEvent']
+        | ResolversTypes['ConvertedToDiscussionEvent']
         | ResolversTypes['CrossReferencedEvent']
         | ResolversTypes['DemilestonedEvent']
         | ResolversTypes['DeployedEvent']
@@ -20355,11 +27216,14 @@ export type ResolversTypes = {
     RateLimit: ResolverTypeWrapper<RateLimit>
     Reactable:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['Issue']
         | ResolversTypes['IssueComment']
         | ResolversTypes['PullRequest']
         | ResolversTypes['PullRequestReview']
         | ResolversTypes['PullRequestReviewComment']
+        | ResolversTypes['Release']
         | ResolversTypes['TeamDiscussion']
         | ResolversTypes['TeamDiscussionComment']
     ReactingUserConnection: ResolverTypeWrapper<ReactingUserConnection>
@@ -20371,6 +27235,11 @@ export type ResolversTypes = {
     ReactionGroup: ResolverTypeWrapper<ReactionGroup>
     ReactionOrder: ReactionOrder
     ReactionOrderField: ReactionOrderField
+    Reactor: ResolversTypes['Bot'] | ResolversTypes['Mannequin'] | ResolversTypes['Organization'] | ResolversTypes['User']
+    ReactorConnection: ResolverTypeWrapper<
+        Omit<ReactorConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['Reactor']>>> }
+    >
+    ReactorEdge: ResolverTypeWrapper<Omit<ReactorEdge, 'node'> & { node: ResolversTypes['Reactor'] }>
     ReadyForReviewEvent: ResolverTypeWrapper<ReadyForReviewEvent>
     Ref: ResolverTypeWrapper<Ref>
     RefConnection: ResolverTypeWrapper<RefConnection>
@@ -20382,6 +27251,10 @@ export type ResolversTypes = {
     ReferencedSubject: ResolversTypes['Issue'] | ResolversTypes['PullRequest']
     RegenerateEnterpriseIdentityProviderRecoveryCodesInput: RegenerateEnterpriseIdentityProviderRecoveryCodesInput
     RegenerateEnterpriseIdentityProviderRecoveryCodesPayload: ResolverTypeWrapper<RegenerateEnterpriseIdentityProviderRecoveryCodesPayload>
+    RegenerateVerifiableDomainTokenInput: RegenerateVerifiableDomainTokenInput
+    RegenerateVerifiableDomainTokenPayload: ResolverTypeWrapper<RegenerateVerifiableDomainTokenPayload>
+    RejectDeploymentsInput: RejectDeploymentsInput
+    RejectDeploymentsPayload: ResolverTypeWrapper<RejectDeploymentsPayload>
     Release: ResolverTypeWrapper<Release>
     ReleaseAsset: ResolverTypeWrapper<ReleaseAsset>
     ReleaseAssetConnection: ResolverTypeWrapper<ReleaseAssetConnection>
@@ -20408,6 +27281,8 @@ export type ResolversTypes = {
     RemoveReactionPayload: ResolverTypeWrapper<RemoveReactionPayload>
     RemoveStarInput: RemoveStarInput
     RemoveStarPayload: ResolverTypeWrapper<RemoveStarPayload>
+    RemoveUpvoteInput: RemoveUpvoteInput
+    RemoveUpvotePayload: ResolverTypeWrapper<RemoveUpvotePayload>
     RemovedFromProjectEvent: ResolverTypeWrapper<RemovedFromProjectEvent>
     RenamedTitleEvent: ResolverTypeWrapper<
         Omit<RenamedTitleEvent, 'subject'> & { subject: ResolversTypes['RenamedTitleSubject'] }
@@ -20512,11 +27387,15 @@ export type ResolversTypes = {
         | ResolversTypes['RepoRemoveTopicAuditEntry']
         | ResolversTypes['TeamAddRepositoryAuditEntry']
         | ResolversTypes['TeamRemoveRepositoryAuditEntry']
+    RepositoryCodeowners: ResolverTypeWrapper<RepositoryCodeowners>
+    RepositoryCodeownersError: ResolverTypeWrapper<RepositoryCodeownersError>
     RepositoryCollaboratorConnection: ResolverTypeWrapper<RepositoryCollaboratorConnection>
     RepositoryCollaboratorEdge: ResolverTypeWrapper<RepositoryCollaboratorEdge>
     RepositoryConnection: ResolverTypeWrapper<RepositoryConnection>
     RepositoryContactLink: ResolverTypeWrapper<RepositoryContactLink>
     RepositoryContributionType: RepositoryContributionType
+    RepositoryDiscussionAuthor: ResolversTypes['Organization'] | ResolversTypes['User']
+    RepositoryDiscussionCommentAuthor: ResolversTypes['Organization'] | ResolversTypes['User']
     RepositoryEdge: ResolverTypeWrapper<RepositoryEdge>
     RepositoryInfo: ResolversTypes['Repository']
     RepositoryInteractionAbility: ResolverTypeWrapper<RepositoryInteractionAbility>
@@ -20529,11 +27408,21 @@ export type ResolversTypes = {
     RepositoryInvitationOrder: RepositoryInvitationOrder
     RepositoryInvitationOrderField: RepositoryInvitationOrderField
     RepositoryLockReason: RepositoryLockReason
+    RepositoryMigration: ResolverTypeWrapper<RepositoryMigration>
+    RepositoryMigrationConnection: ResolverTypeWrapper<RepositoryMigrationConnection>
+    RepositoryMigrationEdge: ResolverTypeWrapper<RepositoryMigrationEdge>
+    RepositoryMigrationOrder: RepositoryMigrationOrder
+    RepositoryMigrationOrderDirection: RepositoryMigrationOrderDirection
+    RepositoryMigrationOrderField: RepositoryMigrationOrderField
     RepositoryNode:
         | ResolversTypes['CommitComment']
         | ResolversTypes['CommitCommentThread']
+        | ResolversTypes['DependabotUpdate']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionCategory']
         | ResolversTypes['Issue']
         | ResolversTypes['IssueComment']
+        | ResolversTypes['PinnedDiscussion']
         | ResolversTypes['PullRequest']
         | ResolversTypes['PullRequestCommitCommentThread']
         | ResolversTypes['PullRequestReview']
@@ -20557,10 +27446,20 @@ export type ResolversTypes = {
     RepositoryVulnerabilityAlert: ResolverTypeWrapper<RepositoryVulnerabilityAlert>
     RepositoryVulnerabilityAlertConnection: ResolverTypeWrapper<RepositoryVulnerabilityAlertConnection>
     RepositoryVulnerabilityAlertEdge: ResolverTypeWrapper<RepositoryVulnerabilityAlertEdge>
+    RepositoryVulnerabilityAlertState: RepositoryVulnerabilityAlertState
     RequestReviewsInput: RequestReviewsInput
     RequestReviewsPayload: ResolverTypeWrapper<RequestReviewsPayload>
     RequestableCheckStatusState: RequestableCheckStatusState
     RequestedReviewer: ResolversTypes['Mannequin'] | ResolversTypes['Team'] | ResolversTypes['User']
+    RequestedReviewerConnection: ResolverTypeWrapper<
+        Omit<RequestedReviewerConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['RequestedReviewer']>>> }
+    >
+    RequestedReviewerEdge: ResolverTypeWrapper<
+        Omit<RequestedReviewerEdge, 'node'> & { node: Maybe<ResolversTypes['RequestedReviewer']> }
+    >
+    RequirableByPullRequest: ResolversTypes['CheckRun'] | ResolversTypes['StatusContext']
+    RequiredStatusCheckDescription: ResolverTypeWrapper<RequiredStatusCheckDescription>
+    RequiredStatusCheckInput: RequiredStatusCheckInput
     RerequestCheckSuiteInput: RerequestCheckSuiteInput
     RerequestCheckSuitePayload: ResolverTypeWrapper<RerequestCheckSuitePayload>
     ResolveReviewThreadInput: ResolveReviewThreadInput
@@ -20569,7 +27468,7 @@ export type ResolversTypes = {
     ReviewDismissalAllowance: ResolverTypeWrapper<
         Omit<ReviewDismissalAllowance, 'actor'> & { actor: Maybe<ResolversTypes['ReviewDismissalAllowanceActor']> }
     >
-    ReviewDismissalAllowanceActor: ResolversTypes['Team'] | ResolversTypes['User']
+    ReviewDismissalAllowanceActor: ResolversTypes['App'] | ResolversTypes['Team'] | ResolversTypes['User']
     ReviewDismissalAllowanceConnection: ResolverTypeWrapper<ReviewDismissalAllowanceConnection>
     ReviewDismissalAllowanceEdge: ResolverTypeWrapper<ReviewDismissalAllowanceEdge>
     ReviewDismissedEvent: ResolverTypeWrapper<ReviewDismissedEvent>
@@ -20585,6 +27484,11 @@ export type ResolversTypes = {
         Omit<ReviewRequestedEvent, 'requestedReviewer'> & { requestedReviewer: Maybe<ResolversTypes['RequestedReviewer']> }
     >
     ReviewStatusHovercardContext: ResolverTypeWrapper<ReviewStatusHovercardContext>
+    RevokeEnterpriseOrganizationsMigratorRoleInput: RevokeEnterpriseOrganizationsMigratorRoleInput
+    RevokeEnterpriseOrganizationsMigratorRolePayload: ResolverTypeWrapper<RevokeEnterpriseOrganizationsMigratorRolePayload>
+    RevokeMigratorRoleInput: RevokeMigratorRoleInput
+    RevokeMigratorRolePayload: ResolverTypeWrapper<RevokeMigratorRolePayload>
+    RoleInOrganization: RoleInOrganization
     SamlDigestAlgorithm: SamlDigestAlgorithm
     SamlSignatureAlgorithm: SamlSignatureAlgorithm
     SavedReply: ResolverTypeWrapper<SavedReply>
@@ -20594,6 +27498,7 @@ export type ResolversTypes = {
     SavedReplyOrderField: SavedReplyOrderField
     SearchResultItem:
         | ResolversTypes['App']
+        | ResolversTypes['Discussion']
         | ResolversTypes['Issue']
         | ResolversTypes['MarketplaceListing']
         | ResolversTypes['Organization']
@@ -20608,6 +27513,7 @@ export type ResolversTypes = {
     >
     SearchType: SearchType
     SecurityAdvisory: ResolverTypeWrapper<SecurityAdvisory>
+    SecurityAdvisoryClassification: SecurityAdvisoryClassification
     SecurityAdvisoryConnection: ResolverTypeWrapper<SecurityAdvisoryConnection>
     SecurityAdvisoryEcosystem: SecurityAdvisoryEcosystem
     SecurityAdvisoryEdge: ResolverTypeWrapper<SecurityAdvisoryEdge>
@@ -20634,8 +27540,33 @@ export type ResolversTypes = {
     SetUserInteractionLimitInput: SetUserInteractionLimitInput
     SetUserInteractionLimitPayload: ResolverTypeWrapper<SetUserInteractionLimitPayload>
     SmimeSignature: ResolverTypeWrapper<SmimeSignature>
+    SortBy: ResolverTypeWrapper<SortBy>
     Sponsor: ResolversTypes['Organization'] | ResolversTypes['User']
+    SponsorConnection: ResolverTypeWrapper<
+        Omit<SponsorConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['Sponsor']>>> }
+    >
+    SponsorEdge: ResolverTypeWrapper<Omit<SponsorEdge, 'node'> & { node: Maybe<ResolversTypes['Sponsor']> }>
+    SponsorOrder: SponsorOrder
+    SponsorOrderField: SponsorOrderField
     Sponsorable: ResolversTypes['Organization'] | ResolversTypes['User']
+    SponsorableItem: ResolversTypes['Organization'] | ResolversTypes['User']
+    SponsorableItemConnection: ResolverTypeWrapper<
+        Omit<SponsorableItemConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversTypes['SponsorableItem']>>> }
+    >
+    SponsorableItemEdge: ResolverTypeWrapper<
+        Omit<SponsorableItemEdge, 'node'> & { node: Maybe<ResolversTypes['SponsorableItem']> }
+    >
+    SponsorableOrder: SponsorableOrder
+    SponsorableOrderField: SponsorableOrderField
+    SponsorsActivity: ResolverTypeWrapper<Omit<SponsorsActivity, 'sponsor'> & { sponsor: Maybe<ResolversTypes['Sponsor']> }>
+    SponsorsActivityAction: SponsorsActivityAction
+    SponsorsActivityConnection: ResolverTypeWrapper<SponsorsActivityConnection>
+    SponsorsActivityEdge: ResolverTypeWrapper<SponsorsActivityEdge>
+    SponsorsActivityOrder: SponsorsActivityOrder
+    SponsorsActivityOrderField: SponsorsActivityOrderField
+    SponsorsActivityPeriod: SponsorsActivityPeriod
+    SponsorsGoal: ResolverTypeWrapper<SponsorsGoal>
+    SponsorsGoalKind: SponsorsGoalKind
     SponsorsListing: ResolverTypeWrapper<SponsorsListing>
     SponsorsTier: ResolverTypeWrapper<SponsorsTier>
     SponsorsTierAdminInfo: ResolverTypeWrapper<SponsorsTierAdminInfo>
@@ -20646,6 +27577,11 @@ export type ResolversTypes = {
     Sponsorship: ResolverTypeWrapper<Omit<Sponsorship, 'sponsorEntity'> & { sponsorEntity: Maybe<ResolversTypes['Sponsor']> }>
     SponsorshipConnection: ResolverTypeWrapper<SponsorshipConnection>
     SponsorshipEdge: ResolverTypeWrapper<SponsorshipEdge>
+    SponsorshipNewsletter: ResolverTypeWrapper<SponsorshipNewsletter>
+    SponsorshipNewsletterConnection: ResolverTypeWrapper<SponsorshipNewsletterConnection>
+    SponsorshipNewsletterEdge: ResolverTypeWrapper<SponsorshipNewsletterEdge>
+    SponsorshipNewsletterOrder: SponsorshipNewsletterOrder
+    SponsorshipNewsletterOrderField: SponsorshipNewsletterOrderField
     SponsorshipOrder: SponsorshipOrder
     SponsorshipOrderField: SponsorshipOrderField
     SponsorshipPrivacy: SponsorshipPrivacy
@@ -20656,6 +27592,8 @@ export type ResolversTypes = {
     Starrable: ResolversTypes['Gist'] | ResolversTypes['Repository'] | ResolversTypes['Topic']
     StarredRepositoryConnection: ResolverTypeWrapper<StarredRepositoryConnection>
     StarredRepositoryEdge: ResolverTypeWrapper<StarredRepositoryEdge>
+    StartRepositoryMigrationInput: StartRepositoryMigrationInput
+    StartRepositoryMigrationPayload: ResolverTypeWrapper<StartRepositoryMigrationPayload>
     Status: ResolverTypeWrapper<Status>
     StatusCheckRollup: ResolverTypeWrapper<StatusCheckRollup>
     StatusCheckRollupContext: ResolversTypes['CheckRun'] | ResolversTypes['StatusContext']
@@ -20676,6 +27614,7 @@ export type ResolversTypes = {
     SubmoduleEdge: ResolverTypeWrapper<SubmoduleEdge>
     Subscribable:
         | ResolversTypes['Commit']
+        | ResolversTypes['Discussion']
         | ResolversTypes['Issue']
         | ResolversTypes['PullRequest']
         | ResolversTypes['Repository']
@@ -20739,6 +27678,7 @@ export type ResolversTypes = {
     Topic: ResolverTypeWrapper<Topic>
     TopicAuditEntryData: ResolversTypes['RepoAddTopicAuditEntry'] | ResolversTypes['RepoRemoveTopicAuditEntry']
     TopicSuggestionDeclineReason: TopicSuggestionDeclineReason
+    TrackedIssueStates: TrackedIssueStates
     TransferIssueInput: TransferIssueInput
     TransferIssuePayload: ResolverTypeWrapper<TransferIssuePayload>
     TransferredEvent: ResolverTypeWrapper<TransferredEvent>
@@ -20748,6 +27688,8 @@ export type ResolversTypes = {
     UnarchiveRepositoryInput: UnarchiveRepositoryInput
     UnarchiveRepositoryPayload: ResolverTypeWrapper<UnarchiveRepositoryPayload>
     UnassignedEvent: ResolverTypeWrapper<Omit<UnassignedEvent, 'assignee'> & { assignee: Maybe<ResolversTypes['Assignee']> }>
+    UnfollowOrganizationInput: UnfollowOrganizationInput
+    UnfollowOrganizationPayload: ResolverTypeWrapper<UnfollowOrganizationPayload>
     UnfollowUserInput: UnfollowUserInput
     UnfollowUserPayload: ResolverTypeWrapper<UnfollowUserPayload>
     UniformResourceLocatable:
@@ -20780,6 +27722,8 @@ export type ResolversTypes = {
     UnlockLockableInput: UnlockLockableInput
     UnlockLockablePayload: ResolverTypeWrapper<UnlockLockablePayload>
     UnlockedEvent: ResolverTypeWrapper<UnlockedEvent>
+    UnmarkDiscussionCommentAsAnswerInput: UnmarkDiscussionCommentAsAnswerInput
+    UnmarkDiscussionCommentAsAnswerPayload: ResolverTypeWrapper<UnmarkDiscussionCommentAsAnswerPayload>
     UnmarkFileAsViewedInput: UnmarkFileAsViewedInput
     UnmarkFileAsViewedPayload: ResolverTypeWrapper<UnmarkFileAsViewedPayload>
     UnmarkIssueAsDuplicateInput: UnmarkIssueAsDuplicateInput
@@ -20794,16 +27738,22 @@ export type ResolversTypes = {
     >
     UnminimizeCommentInput: UnminimizeCommentInput
     UnminimizeCommentPayload: ResolverTypeWrapper<UnminimizeCommentPayload>
+    UnpinIssueInput: UnpinIssueInput
+    UnpinIssuePayload: ResolverTypeWrapper<UnpinIssuePayload>
     UnpinnedEvent: ResolverTypeWrapper<UnpinnedEvent>
     UnresolveReviewThreadInput: UnresolveReviewThreadInput
     UnresolveReviewThreadPayload: ResolverTypeWrapper<UnresolveReviewThreadPayload>
     UnsubscribedEvent: ResolverTypeWrapper<UnsubscribedEvent>
     Updatable:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['Discussion']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['GistComment']
         | ResolversTypes['Issue']
         | ResolversTypes['IssueComment']
         | ResolversTypes['Project']
+        | ResolversTypes['ProjectNext']
+        | ResolversTypes['ProjectV2']
         | ResolversTypes['PullRequest']
         | ResolversTypes['PullRequestReview']
         | ResolversTypes['PullRequestReviewComment']
@@ -20811,6 +27761,7 @@ export type ResolversTypes = {
         | ResolversTypes['TeamDiscussionComment']
     UpdatableComment:
         | ResolversTypes['CommitComment']
+        | ResolversTypes['DiscussionComment']
         | ResolversTypes['GistComment']
         | ResolversTypes['Issue']
         | ResolversTypes['IssueComment']
@@ -20825,6 +27776,10 @@ export type ResolversTypes = {
     UpdateCheckRunPayload: ResolverTypeWrapper<UpdateCheckRunPayload>
     UpdateCheckSuitePreferencesInput: UpdateCheckSuitePreferencesInput
     UpdateCheckSuitePreferencesPayload: ResolverTypeWrapper<UpdateCheckSuitePreferencesPayload>
+    UpdateDiscussionCommentInput: UpdateDiscussionCommentInput
+    UpdateDiscussionCommentPayload: ResolverTypeWrapper<UpdateDiscussionCommentPayload>
+    UpdateDiscussionInput: UpdateDiscussionInput
+    UpdateDiscussionPayload: ResolverTypeWrapper<UpdateDiscussionPayload>
     UpdateEnterpriseAdministratorRoleInput: UpdateEnterpriseAdministratorRoleInput
     UpdateEnterpriseAdministratorRolePayload: ResolverTypeWrapper<UpdateEnterpriseAdministratorRolePayload>
     UpdateEnterpriseAllowPrivateRepositoryForkingSettingInput: UpdateEnterpriseAllowPrivateRepositoryForkingSettingInput
@@ -20849,6 +27804,8 @@ export type ResolversTypes = {
     UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload: ResolverTypeWrapper<UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload>
     UpdateEnterpriseOrganizationProjectsSettingInput: UpdateEnterpriseOrganizationProjectsSettingInput
     UpdateEnterpriseOrganizationProjectsSettingPayload: ResolverTypeWrapper<UpdateEnterpriseOrganizationProjectsSettingPayload>
+    UpdateEnterpriseOwnerOrganizationRoleInput: UpdateEnterpriseOwnerOrganizationRoleInput
+    UpdateEnterpriseOwnerOrganizationRolePayload: ResolverTypeWrapper<UpdateEnterpriseOwnerOrganizationRolePayload>
     UpdateEnterpriseProfileInput: UpdateEnterpriseProfileInput
     UpdateEnterpriseProfilePayload: ResolverTypeWrapper<UpdateEnterpriseProfilePayload>
     UpdateEnterpriseRepositoryProjectsSettingInput: UpdateEnterpriseRepositoryProjectsSettingInput
@@ -20857,22 +27814,52 @@ export type ResolversTypes = {
     UpdateEnterpriseTeamDiscussionsSettingPayload: ResolverTypeWrapper<UpdateEnterpriseTeamDiscussionsSettingPayload>
     UpdateEnterpriseTwoFactorAuthenticationRequiredSettingInput: UpdateEnterpriseTwoFactorAuthenticationRequiredSettingInput
     UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload: ResolverTypeWrapper<UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload>
+    UpdateEnvironmentInput: UpdateEnvironmentInput
+    UpdateEnvironmentPayload: ResolverTypeWrapper<UpdateEnvironmentPayload>
     UpdateIpAllowListEnabledSettingInput: UpdateIpAllowListEnabledSettingInput
     UpdateIpAllowListEnabledSettingPayload: ResolverTypeWrapper<
         Omit<UpdateIpAllowListEnabledSettingPayload, 'owner'> & { owner: Maybe<ResolversTypes['IpAllowListOwner']> }
     >
     UpdateIpAllowListEntryInput: UpdateIpAllowListEntryInput
     UpdateIpAllowListEntryPayload: ResolverTypeWrapper<UpdateIpAllowListEntryPayload>
+    UpdateIpAllowListForInstalledAppsEnabledSettingInput: UpdateIpAllowListForInstalledAppsEnabledSettingInput
+    UpdateIpAllowListForInstalledAppsEnabledSettingPayload: ResolverTypeWrapper<
+        Omit<UpdateIpAllowListForInstalledAppsEnabledSettingPayload, 'owner'> & {
+            owner: Maybe<ResolversTypes['IpAllowListOwner']>
+        }
+    >
     UpdateIssueCommentInput: UpdateIssueCommentInput
     UpdateIssueCommentPayload: ResolverTypeWrapper<UpdateIssueCommentPayload>
     UpdateIssueInput: UpdateIssueInput
     UpdateIssuePayload: ResolverTypeWrapper<UpdateIssuePayload>
+    UpdateNotificationRestrictionSettingInput: UpdateNotificationRestrictionSettingInput
+    UpdateNotificationRestrictionSettingPayload: ResolverTypeWrapper<
+        Omit<UpdateNotificationRestrictionSettingPayload, 'owner'> & { owner: Maybe<ResolversTypes['VerifiableDomainOwner']> }
+    >
+    UpdateOrganizationAllowPrivateRepositoryForkingSettingInput: UpdateOrganizationAllowPrivateRepositoryForkingSettingInput
+    UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload: ResolverTypeWrapper<UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload>
     UpdateProjectCardInput: UpdateProjectCardInput
     UpdateProjectCardPayload: ResolverTypeWrapper<UpdateProjectCardPayload>
     UpdateProjectColumnInput: UpdateProjectColumnInput
     UpdateProjectColumnPayload: ResolverTypeWrapper<UpdateProjectColumnPayload>
+    UpdateProjectDraftIssueInput: UpdateProjectDraftIssueInput
+    UpdateProjectDraftIssuePayload: ResolverTypeWrapper<UpdateProjectDraftIssuePayload>
     UpdateProjectInput: UpdateProjectInput
+    UpdateProjectNextInput: UpdateProjectNextInput
+    UpdateProjectNextItemFieldInput: UpdateProjectNextItemFieldInput
+    UpdateProjectNextItemFieldPayload: ResolverTypeWrapper<UpdateProjectNextItemFieldPayload>
+    UpdateProjectNextPayload: ResolverTypeWrapper<UpdateProjectNextPayload>
     UpdateProjectPayload: ResolverTypeWrapper<UpdateProjectPayload>
+    UpdateProjectV2DraftIssueInput: UpdateProjectV2DraftIssueInput
+    UpdateProjectV2DraftIssuePayload: ResolverTypeWrapper<UpdateProjectV2DraftIssuePayload>
+    UpdateProjectV2Input: UpdateProjectV2Input
+    UpdateProjectV2ItemFieldValueInput: UpdateProjectV2ItemFieldValueInput
+    UpdateProjectV2ItemFieldValuePayload: ResolverTypeWrapper<UpdateProjectV2ItemFieldValuePayload>
+    UpdateProjectV2ItemPositionInput: UpdateProjectV2ItemPositionInput
+    UpdateProjectV2ItemPositionPayload: ResolverTypeWrapper<UpdateProjectV2ItemPositionPayload>
+    UpdateProjectV2Payload: ResolverTypeWrapper<UpdateProjectV2Payload>
+    UpdatePullRequestBranchInput: UpdatePullRequestBranchInput
+    UpdatePullRequestBranchPayload: ResolverTypeWrapper<UpdatePullRequestBranchPayload>
     UpdatePullRequestInput: UpdatePullRequestInput
     UpdatePullRequestPayload: ResolverTypeWrapper<UpdatePullRequestPayload>
     UpdatePullRequestReviewCommentInput: UpdatePullRequestReviewCommentInput
@@ -20883,12 +27870,16 @@ export type ResolversTypes = {
     UpdateRefPayload: ResolverTypeWrapper<UpdateRefPayload>
     UpdateRepositoryInput: UpdateRepositoryInput
     UpdateRepositoryPayload: ResolverTypeWrapper<UpdateRepositoryPayload>
+    UpdateSponsorshipPreferencesInput: UpdateSponsorshipPreferencesInput
+    UpdateSponsorshipPreferencesPayload: ResolverTypeWrapper<UpdateSponsorshipPreferencesPayload>
     UpdateSubscriptionInput: UpdateSubscriptionInput
     UpdateSubscriptionPayload: ResolverTypeWrapper<UpdateSubscriptionPayload>
     UpdateTeamDiscussionCommentInput: UpdateTeamDiscussionCommentInput
     UpdateTeamDiscussionCommentPayload: ResolverTypeWrapper<UpdateTeamDiscussionCommentPayload>
     UpdateTeamDiscussionInput: UpdateTeamDiscussionInput
     UpdateTeamDiscussionPayload: ResolverTypeWrapper<UpdateTeamDiscussionPayload>
+    UpdateTeamsRepositoryInput: UpdateTeamsRepositoryInput
+    UpdateTeamsRepositoryPayload: ResolverTypeWrapper<UpdateTeamsRepositoryPayload>
     UpdateTopicsInput: UpdateTopicsInput
     UpdateTopicsPayload: ResolverTypeWrapper<UpdateTopicsPayload>
     User: ResolverTypeWrapper<User>
@@ -20905,15 +27896,29 @@ export type ResolversTypes = {
     UserStatusEdge: ResolverTypeWrapper<UserStatusEdge>
     UserStatusOrder: UserStatusOrder
     UserStatusOrderField: UserStatusOrderField
+    VerifiableDomain: ResolverTypeWrapper<Omit<VerifiableDomain, 'owner'> & { owner: ResolversTypes['VerifiableDomainOwner'] }>
+    VerifiableDomainConnection: ResolverTypeWrapper<VerifiableDomainConnection>
+    VerifiableDomainEdge: ResolverTypeWrapper<VerifiableDomainEdge>
+    VerifiableDomainOrder: VerifiableDomainOrder
+    VerifiableDomainOrderField: VerifiableDomainOrderField
+    VerifiableDomainOwner: ResolversTypes['Enterprise'] | ResolversTypes['Organization']
+    VerifyVerifiableDomainInput: VerifyVerifiableDomainInput
+    VerifyVerifiableDomainPayload: ResolverTypeWrapper<VerifyVerifiableDomainPayload>
     ViewerHovercardContext: ResolverTypeWrapper<ViewerHovercardContext>
+    Votable: ResolversTypes['Discussion'] | ResolversTypes['DiscussionComment']
+    Workflow: ResolverTypeWrapper<Workflow>
+    WorkflowRun: ResolverTypeWrapper<WorkflowRun>
     X509Certificate: ResolverTypeWrapper<Scalars['X509Certificate']>
 }
 
 /** Mapping between all available schema types and the resolvers parents */
 export type ResolversParentTypes = {
-    AcceptEnterpriseAdministratorInvitationInput: AcceptEnterpriseAdministratorInvitationInput
+    AbortQueuedMigrationsInput: AbortQueuedMigrationsInput
     ID: Scalars['ID']
     String: Scalars['String']
+    AbortQueuedMigrationsPayload: AbortQueuedMigrationsPayload
+    Boolean: Scalars['Boolean']
+    AcceptEnterpriseAdministratorInvitationInput: AcceptEnterpriseAdministratorInvitationInput
     AcceptEnterpriseAdministratorInvitationPayload: AcceptEnterpriseAdministratorInvitationPayload
     AcceptTopicSuggestionInput: AcceptTopicSuggestionInput
     AcceptTopicSuggestionPayload: AcceptTopicSuggestionPayload
@@ -20929,6 +27934,10 @@ export type ResolversParentTypes = {
     AddAssigneesToAssignablePayload: AddAssigneesToAssignablePayload
     AddCommentInput: AddCommentInput
     AddCommentPayload: AddCommentPayload
+    AddDiscussionCommentInput: AddDiscussionCommentInput
+    AddDiscussionCommentPayload: AddDiscussionCommentPayload
+    AddDiscussionPollVoteInput: AddDiscussionPollVoteInput
+    AddDiscussionPollVotePayload: AddDiscussionPollVotePayload
     AddEnterpriseSupportEntitlementInput: AddEnterpriseSupportEntitlementInput
     AddEnterpriseSupportEntitlementPayload: AddEnterpriseSupportEntitlementPayload
     AddLabelsToLabelableInput: AddLabelsToLabelableInput
@@ -20937,6 +27946,14 @@ export type ResolversParentTypes = {
     AddProjectCardPayload: AddProjectCardPayload
     AddProjectColumnInput: AddProjectColumnInput
     AddProjectColumnPayload: AddProjectColumnPayload
+    AddProjectDraftIssueInput: AddProjectDraftIssueInput
+    AddProjectDraftIssuePayload: AddProjectDraftIssuePayload
+    AddProjectNextItemInput: AddProjectNextItemInput
+    AddProjectNextItemPayload: AddProjectNextItemPayload
+    AddProjectV2DraftIssueInput: AddProjectV2DraftIssueInput
+    AddProjectV2DraftIssuePayload: AddProjectV2DraftIssuePayload
+    AddProjectV2ItemByIdInput: AddProjectV2ItemByIdInput
+    AddProjectV2ItemByIdPayload: AddProjectV2ItemByIdPayload
     AddPullRequestReviewCommentInput: AddPullRequestReviewCommentInput
     AddPullRequestReviewCommentPayload: AddPullRequestReviewCommentPayload
     AddPullRequestReviewInput: AddPullRequestReviewInput
@@ -20947,8 +27964,16 @@ export type ResolversParentTypes = {
     AddReactionPayload: AddReactionPayload
     AddStarInput: AddStarInput
     AddStarPayload: AddStarPayload
+    AddUpvoteInput: AddUpvoteInput
+    AddUpvotePayload: AddUpvotePayload
+    AddVerifiableDomainInput: AddVerifiableDomainInput
+    AddVerifiableDomainPayload: AddVerifiableDomainPayload
     AddedToProjectEvent: AddedToProjectEvent
     App: App
+    ApproveDeploymentsInput: ApproveDeploymentsInput
+    ApproveDeploymentsPayload: ApproveDeploymentsPayload
+    ApproveVerifiableDomainInput: ApproveVerifiableDomainInput
+    ApproveVerifiableDomainPayload: ApproveVerifiableDomainPayload
     ArchiveRepositoryInput: ArchiveRepositoryInput
     ArchiveRepositoryPayload: ArchiveRepositoryPayload
     Assignable: ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
@@ -21021,26 +28046,45 @@ export type ResolversParentTypes = {
     AuditLogOrder: AuditLogOrder
     AutoMergeDisabledEvent: AutoMergeDisabledEvent
     AutoMergeEnabledEvent: AutoMergeEnabledEvent
+    AutoMergeRequest: AutoMergeRequest
     AutoRebaseEnabledEvent: AutoRebaseEnabledEvent
     AutoSquashEnabledEvent: AutoSquashEnabledEvent
     AutomaticBaseChangeFailedEvent: AutomaticBaseChangeFailedEvent
     AutomaticBaseChangeSucceededEvent: AutomaticBaseChangeSucceededEvent
+    Base64String: Scalars['Base64String']
     BaseRefChangedEvent: BaseRefChangedEvent
     BaseRefDeletedEvent: BaseRefDeletedEvent
     BaseRefForcePushedEvent: BaseRefForcePushedEvent
     Blame: Blame
     BlameRange: BlameRange
     Blob: Blob
-    Boolean: Scalars['Boolean']
     Bot: Bot
+    BranchActorAllowanceActor: ResolversParentTypes['App'] | ResolversParentTypes['Team'] | ResolversParentTypes['User']
     BranchProtectionRule: BranchProtectionRule
     BranchProtectionRuleConflict: BranchProtectionRuleConflict
     BranchProtectionRuleConflictConnection: BranchProtectionRuleConflictConnection
     BranchProtectionRuleConflictEdge: BranchProtectionRuleConflictEdge
     BranchProtectionRuleConnection: BranchProtectionRuleConnection
     BranchProtectionRuleEdge: BranchProtectionRuleEdge
+    BypassForcePushAllowance: Omit<BypassForcePushAllowance, 'actor'> & {
+        actor: Maybe<ResolversParentTypes['BranchActorAllowanceActor']>
+    }
+    BypassForcePushAllowanceConnection: BypassForcePushAllowanceConnection
+    BypassForcePushAllowanceEdge: BypassForcePushAllowanceEdge
+    BypassPullRequestAllowance: Omit<BypassPullRequestAllowance, 'actor'> & {
+        actor: Maybe<ResolversParentTypes['BranchActorAllowanceActor']>
+    }
+    BypassPullRequestAllowanceConnection: BypassPullRequestAllowanceConnection
+    BypassPullRequestAllowanceEdge: BypassPullRequestAllowanceEdge
+    CVSS: Cvss
+    Float: Scalars['Float']
+    CWE: Cwe
+    CWEConnection: CweConnection
+    CWEEdge: CweEdge
     CancelEnterpriseAdminInvitationInput: CancelEnterpriseAdminInvitationInput
     CancelEnterpriseAdminInvitationPayload: CancelEnterpriseAdminInvitationPayload
+    CancelSponsorshipInput: CancelSponsorshipInput
+    CancelSponsorshipPayload: CancelSponsorshipPayload
     ChangeUserStatusInput: ChangeUserStatusInput
     ChangeUserStatusPayload: ChangeUserStatusPayload
     CheckAnnotation: CheckAnnotation
@@ -21057,6 +28101,9 @@ export type ResolversParentTypes = {
     CheckRunFilter: CheckRunFilter
     CheckRunOutput: CheckRunOutput
     CheckRunOutputImage: CheckRunOutputImage
+    CheckStep: CheckStep
+    CheckStepConnection: CheckStepConnection
+    CheckStepEdge: CheckStepEdge
     CheckSuite: CheckSuite
     CheckSuiteAutoTriggerPreference: CheckSuiteAutoTriggerPreference
     CheckSuiteConnection: CheckSuiteConnection
@@ -21072,6 +28119,8 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['Milestone']
         | ResolversParentTypes['Project']
+        | ResolversParentTypes['ProjectNext']
+        | ResolversParentTypes['ProjectV2']
         | ResolversParentTypes['PullRequest']
     CloseIssueInput: CloseIssueInput
     CloseIssuePayload: CloseIssuePayload
@@ -21082,6 +28131,8 @@ export type ResolversParentTypes = {
     CodeOfConduct: CodeOfConduct
     Comment:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['GistComment']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['IssueComment']
@@ -21102,6 +28153,8 @@ export type ResolversParentTypes = {
     CommitContributionsByRepository: CommitContributionsByRepository
     CommitEdge: CommitEdge
     CommitHistoryConnection: CommitHistoryConnection
+    CommitMessage: CommitMessage
+    CommittableBranch: CommittableBranch
     ConnectedEvent: Omit<ConnectedEvent, 'source' | 'subject'> & {
         source: ResolversParentTypes['ReferencedSubject']
         subject: ResolversParentTypes['ReferencedSubject']
@@ -21129,28 +28182,45 @@ export type ResolversParentTypes = {
     }
     ConvertProjectCardNoteToIssueInput: ConvertProjectCardNoteToIssueInput
     ConvertProjectCardNoteToIssuePayload: ConvertProjectCardNoteToIssuePayload
+    ConvertPullRequestToDraftInput: ConvertPullRequestToDraftInput
+    ConvertPullRequestToDraftPayload: ConvertPullRequestToDraftPayload
     ConvertToDraftEvent: ConvertToDraftEvent
     ConvertedNoteToIssueEvent: ConvertedNoteToIssueEvent
+    ConvertedToDiscussionEvent: ConvertedToDiscussionEvent
     CreateBranchProtectionRuleInput: CreateBranchProtectionRuleInput
     CreateBranchProtectionRulePayload: CreateBranchProtectionRulePayload
     CreateCheckRunInput: CreateCheckRunInput
     CreateCheckRunPayload: CreateCheckRunPayload
     CreateCheckSuiteInput: CreateCheckSuiteInput
     CreateCheckSuitePayload: CreateCheckSuitePayload
+    CreateCommitOnBranchInput: CreateCommitOnBranchInput
+    CreateCommitOnBranchPayload: CreateCommitOnBranchPayload
+    CreateDiscussionInput: CreateDiscussionInput
+    CreateDiscussionPayload: CreateDiscussionPayload
     CreateEnterpriseOrganizationInput: CreateEnterpriseOrganizationInput
     CreateEnterpriseOrganizationPayload: CreateEnterpriseOrganizationPayload
+    CreateEnvironmentInput: CreateEnvironmentInput
+    CreateEnvironmentPayload: CreateEnvironmentPayload
     CreateIpAllowListEntryInput: CreateIpAllowListEntryInput
     CreateIpAllowListEntryPayload: CreateIpAllowListEntryPayload
     CreateIssueInput: CreateIssueInput
     CreateIssuePayload: CreateIssuePayload
+    CreateMigrationSourceInput: CreateMigrationSourceInput
+    CreateMigrationSourcePayload: CreateMigrationSourcePayload
     CreateProjectInput: CreateProjectInput
     CreateProjectPayload: CreateProjectPayload
+    CreateProjectV2Input: CreateProjectV2Input
+    CreateProjectV2Payload: CreateProjectV2Payload
     CreatePullRequestInput: CreatePullRequestInput
     CreatePullRequestPayload: CreatePullRequestPayload
     CreateRefInput: CreateRefInput
     CreateRefPayload: CreateRefPayload
     CreateRepositoryInput: CreateRepositoryInput
     CreateRepositoryPayload: CreateRepositoryPayload
+    CreateSponsorsTierInput: CreateSponsorsTierInput
+    CreateSponsorsTierPayload: CreateSponsorsTierPayload
+    CreateSponsorshipInput: CreateSponsorshipInput
+    CreateSponsorshipPayload: CreateSponsorshipPayload
     CreateTeamDiscussionCommentInput: CreateTeamDiscussionCommentInput
     CreateTeamDiscussionCommentPayload: CreateTeamDiscussionCommentPayload
     CreateTeamDiscussionInput: CreateTeamDiscussionInput
@@ -21189,6 +28259,8 @@ export type ResolversParentTypes = {
     DeclineTopicSuggestionPayload: DeclineTopicSuggestionPayload
     Deletable:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['GistComment']
         | ResolversParentTypes['IssueComment']
         | ResolversParentTypes['PullRequestReview']
@@ -21199,6 +28271,12 @@ export type ResolversParentTypes = {
     DeleteBranchProtectionRulePayload: DeleteBranchProtectionRulePayload
     DeleteDeploymentInput: DeleteDeploymentInput
     DeleteDeploymentPayload: DeleteDeploymentPayload
+    DeleteDiscussionCommentInput: DeleteDiscussionCommentInput
+    DeleteDiscussionCommentPayload: DeleteDiscussionCommentPayload
+    DeleteDiscussionInput: DeleteDiscussionInput
+    DeleteDiscussionPayload: DeleteDiscussionPayload
+    DeleteEnvironmentInput: DeleteEnvironmentInput
+    DeleteEnvironmentPayload: DeleteEnvironmentPayload
     DeleteIpAllowListEntryInput: DeleteIpAllowListEntryInput
     DeleteIpAllowListEntryPayload: DeleteIpAllowListEntryPayload
     DeleteIssueCommentInput: DeleteIssueCommentInput
@@ -21210,7 +28288,11 @@ export type ResolversParentTypes = {
     DeleteProjectColumnInput: DeleteProjectColumnInput
     DeleteProjectColumnPayload: DeleteProjectColumnPayload
     DeleteProjectInput: DeleteProjectInput
+    DeleteProjectNextItemInput: DeleteProjectNextItemInput
+    DeleteProjectNextItemPayload: DeleteProjectNextItemPayload
     DeleteProjectPayload: DeleteProjectPayload
+    DeleteProjectV2ItemInput: DeleteProjectV2ItemInput
+    DeleteProjectV2ItemPayload: DeleteProjectV2ItemPayload
     DeletePullRequestReviewCommentInput: DeletePullRequestReviewCommentInput
     DeletePullRequestReviewCommentPayload: DeletePullRequestReviewCommentPayload
     DeletePullRequestReviewInput: DeletePullRequestReviewInput
@@ -21221,7 +28303,13 @@ export type ResolversParentTypes = {
     DeleteTeamDiscussionCommentPayload: DeleteTeamDiscussionCommentPayload
     DeleteTeamDiscussionInput: DeleteTeamDiscussionInput
     DeleteTeamDiscussionPayload: DeleteTeamDiscussionPayload
+    DeleteVerifiableDomainInput: DeleteVerifiableDomainInput
+    DeleteVerifiableDomainPayload: Omit<DeleteVerifiableDomainPayload, 'owner'> & {
+        owner: Maybe<ResolversParentTypes['VerifiableDomainOwner']>
+    }
     DemilestonedEvent: Omit<DemilestonedEvent, 'subject'> & { subject: ResolversParentTypes['MilestoneItem'] }
+    DependabotUpdate: DependabotUpdate
+    DependabotUpdateError: DependabotUpdateError
     DeployKey: DeployKey
     DeployKeyConnection: DeployKeyConnection
     DeployKeyEdge: DeployKeyEdge
@@ -21231,17 +28319,53 @@ export type ResolversParentTypes = {
     DeploymentEdge: DeploymentEdge
     DeploymentEnvironmentChangedEvent: DeploymentEnvironmentChangedEvent
     DeploymentOrder: DeploymentOrder
+    DeploymentProtectionRule: DeploymentProtectionRule
+    DeploymentProtectionRuleConnection: DeploymentProtectionRuleConnection
+    DeploymentProtectionRuleEdge: DeploymentProtectionRuleEdge
+    DeploymentRequest: DeploymentRequest
+    DeploymentRequestConnection: DeploymentRequestConnection
+    DeploymentRequestEdge: DeploymentRequestEdge
+    DeploymentReview: DeploymentReview
+    DeploymentReviewConnection: DeploymentReviewConnection
+    DeploymentReviewEdge: DeploymentReviewEdge
+    DeploymentReviewer: ResolversParentTypes['Team'] | ResolversParentTypes['User']
+    DeploymentReviewerConnection: Omit<DeploymentReviewerConnection, 'nodes'> & {
+        nodes: Maybe<Array<Maybe<ResolversParentTypes['DeploymentReviewer']>>>
+    }
+    DeploymentReviewerEdge: Omit<DeploymentReviewerEdge, 'node'> & { node: Maybe<ResolversParentTypes['DeploymentReviewer']> }
     DeploymentStatus: DeploymentStatus
     DeploymentStatusConnection: DeploymentStatusConnection
     DeploymentStatusEdge: DeploymentStatusEdge
+    DisablePullRequestAutoMergeInput: DisablePullRequestAutoMergeInput
+    DisablePullRequestAutoMergePayload: DisablePullRequestAutoMergePayload
     DisconnectedEvent: Omit<DisconnectedEvent, 'source' | 'subject'> & {
         source: ResolversParentTypes['ReferencedSubject']
         subject: ResolversParentTypes['ReferencedSubject']
     }
+    Discussion: Discussion
+    DiscussionCategory: DiscussionCategory
+    DiscussionCategoryConnection: DiscussionCategoryConnection
+    DiscussionCategoryEdge: DiscussionCategoryEdge
+    DiscussionComment: DiscussionComment
+    DiscussionCommentConnection: DiscussionCommentConnection
+    DiscussionCommentEdge: DiscussionCommentEdge
+    DiscussionConnection: DiscussionConnection
+    DiscussionEdge: DiscussionEdge
+    DiscussionOrder: DiscussionOrder
+    DiscussionPoll: DiscussionPoll
+    DiscussionPollOption: DiscussionPollOption
+    DiscussionPollOptionConnection: DiscussionPollOptionConnection
+    DiscussionPollOptionEdge: DiscussionPollOptionEdge
+    DiscussionPollOptionOrder: DiscussionPollOptionOrder
     DismissPullRequestReviewInput: DismissPullRequestReviewInput
     DismissPullRequestReviewPayload: DismissPullRequestReviewPayload
+    DismissRepositoryVulnerabilityAlertInput: DismissRepositoryVulnerabilityAlertInput
+    DismissRepositoryVulnerabilityAlertPayload: DismissRepositoryVulnerabilityAlertPayload
+    DraftIssue: DraftIssue
     DraftPullRequestReviewComment: DraftPullRequestReviewComment
     DraftPullRequestReviewThread: DraftPullRequestReviewThread
+    EnablePullRequestAutoMergeInput: EnablePullRequestAutoMergeInput
+    EnablePullRequestAutoMergePayload: EnablePullRequestAutoMergePayload
     Enterprise: Enterprise
     EnterpriseAdministratorConnection: EnterpriseAdministratorConnection
     EnterpriseAdministratorEdge: EnterpriseAdministratorEdge
@@ -21259,7 +28383,6 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['RepositoryVisibilityChangeDisableAuditEntry']
         | ResolversParentTypes['RepositoryVisibilityChangeEnableAuditEntry']
     EnterpriseBillingInfo: EnterpriseBillingInfo
-    Float: Scalars['Float']
     EnterpriseIdentityProvider: EnterpriseIdentityProvider
     EnterpriseMember: ResolversParentTypes['EnterpriseUserAccount'] | ResolversParentTypes['User']
     EnterpriseMemberConnection: Omit<EnterpriseMemberConnection, 'nodes'> & {
@@ -21272,8 +28395,6 @@ export type ResolversParentTypes = {
     EnterpriseOutsideCollaboratorConnection: EnterpriseOutsideCollaboratorConnection
     EnterpriseOutsideCollaboratorEdge: EnterpriseOutsideCollaboratorEdge
     EnterpriseOwnerInfo: EnterpriseOwnerInfo
-    EnterprisePendingCollaboratorConnection: EnterprisePendingCollaboratorConnection
-    EnterprisePendingCollaboratorEdge: EnterprisePendingCollaboratorEdge
     EnterprisePendingMemberInvitationConnection: EnterprisePendingMemberInvitationConnection
     EnterprisePendingMemberInvitationEdge: EnterprisePendingMemberInvitationEdge
     EnterpriseRepositoryInfo: EnterpriseRepositoryInfo
@@ -21298,11 +28419,20 @@ export type ResolversParentTypes = {
     EnterpriseUserAccount: EnterpriseUserAccount
     EnterpriseUserAccountConnection: EnterpriseUserAccountConnection
     EnterpriseUserAccountEdge: EnterpriseUserAccountEdge
+    Environment: Environment
+    EnvironmentConnection: EnvironmentConnection
+    EnvironmentEdge: EnvironmentEdge
     ExternalIdentity: ExternalIdentity
+    ExternalIdentityAttribute: ExternalIdentityAttribute
     ExternalIdentityConnection: ExternalIdentityConnection
     ExternalIdentityEdge: ExternalIdentityEdge
     ExternalIdentitySamlAttributes: ExternalIdentitySamlAttributes
     ExternalIdentityScimAttributes: ExternalIdentityScimAttributes
+    FileAddition: FileAddition
+    FileChanges: FileChanges
+    FileDeletion: FileDeletion
+    FollowOrganizationInput: FollowOrganizationInput
+    FollowOrganizationPayload: FollowOrganizationPayload
     FollowUserInput: FollowUserInput
     FollowUserPayload: FollowUserPayload
     FollowerConnection: FollowerConnection
@@ -21334,6 +28464,10 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['UnknownSignature']
     GitTimestamp: Scalars['GitTimestamp']
     GpgSignature: GpgSignature
+    GrantEnterpriseOrganizationsMigratorRoleInput: GrantEnterpriseOrganizationsMigratorRoleInput
+    GrantEnterpriseOrganizationsMigratorRolePayload: GrantEnterpriseOrganizationsMigratorRolePayload
+    GrantMigratorRoleInput: GrantMigratorRoleInput
+    GrantMigratorRolePayload: GrantMigratorRolePayload
     HTML: Scalars['HTML']
     HeadRefDeletedEvent: HeadRefDeletedEvent
     HeadRefForcePushedEvent: HeadRefForcePushedEvent
@@ -21351,7 +28485,7 @@ export type ResolversParentTypes = {
     IpAllowListEntryConnection: IpAllowListEntryConnection
     IpAllowListEntryEdge: IpAllowListEntryEdge
     IpAllowListEntryOrder: IpAllowListEntryOrder
-    IpAllowListOwner: ResolversParentTypes['Enterprise'] | ResolversParentTypes['Organization']
+    IpAllowListOwner: ResolversParentTypes['App'] | ResolversParentTypes['Enterprise'] | ResolversParentTypes['Organization']
     Issue: Issue
     IssueComment: IssueComment
     IssueCommentConnection: IssueCommentConnection
@@ -21395,6 +28529,7 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['CommentDeletedEvent']
         | ResolversParentTypes['ConnectedEvent']
         | ResolversParentTypes['ConvertedNoteToIssueEvent']
+        | ResolversParentTypes['ConvertedToDiscussionEvent']
         | ResolversParentTypes['CrossReferencedEvent']
         | ResolversParentTypes['DemilestonedEvent']
         | ResolversParentTypes['DisconnectedEvent']
@@ -21428,7 +28563,7 @@ export type ResolversParentTypes = {
     LabelConnection: LabelConnection
     LabelEdge: LabelEdge
     LabelOrder: LabelOrder
-    Labelable: ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
+    Labelable: ResolversParentTypes['Discussion'] | ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
     LabeledEvent: LabeledEvent
     Language: Language
     LanguageConnection: LanguageConnection
@@ -21440,9 +28575,11 @@ export type ResolversParentTypes = {
     LinkRepositoryToProjectPayload: LinkRepositoryToProjectPayload
     LockLockableInput: LockLockableInput
     LockLockablePayload: LockLockablePayload
-    Lockable: ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
+    Lockable: ResolversParentTypes['Discussion'] | ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
     LockedEvent: LockedEvent
     Mannequin: Mannequin
+    MarkDiscussionCommentAsAnswerInput: MarkDiscussionCommentAsAnswerInput
+    MarkDiscussionCommentAsAnswerPayload: MarkDiscussionCommentAsAnswerPayload
     MarkFileAsViewedInput: MarkFileAsViewedInput
     MarkFileAsViewedPayload: MarkFileAsViewedPayload
     MarkPullRequestReadyForReviewInput: MarkPullRequestReadyForReviewInput
@@ -21471,6 +28608,8 @@ export type ResolversParentTypes = {
     MergePullRequestInput: MergePullRequestInput
     MergePullRequestPayload: MergePullRequestPayload
     MergedEvent: MergedEvent
+    Migration: ResolversParentTypes['RepositoryMigration']
+    MigrationSource: MigrationSource
     Milestone: Milestone
     MilestoneConnection: MilestoneConnection
     MilestoneEdge: MilestoneEdge
@@ -21479,6 +28618,7 @@ export type ResolversParentTypes = {
     MilestonedEvent: Omit<MilestonedEvent, 'subject'> & { subject: ResolversParentTypes['MilestoneItem'] }
     Minimizable:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['GistComment']
         | ResolversParentTypes['IssueComment']
         | ResolversParentTypes['PullRequestReviewComment']
@@ -21506,6 +28646,9 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['Blob']
         | ResolversParentTypes['Bot']
         | ResolversParentTypes['BranchProtectionRule']
+        | ResolversParentTypes['BypassForcePushAllowance']
+        | ResolversParentTypes['BypassPullRequestAllowance']
+        | ResolversParentTypes['CWE']
         | ResolversParentTypes['CheckRun']
         | ResolversParentTypes['CheckSuite']
         | ResolversParentTypes['ClosedEvent']
@@ -21517,14 +28660,22 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['ConnectedEvent']
         | ResolversParentTypes['ConvertToDraftEvent']
         | ResolversParentTypes['ConvertedNoteToIssueEvent']
+        | ResolversParentTypes['ConvertedToDiscussionEvent']
         | ResolversParentTypes['CrossReferencedEvent']
         | ResolversParentTypes['DemilestonedEvent']
         | ResolversParentTypes['DeployKey']
         | ResolversParentTypes['DeployedEvent']
         | ResolversParentTypes['Deployment']
         | ResolversParentTypes['DeploymentEnvironmentChangedEvent']
+        | ResolversParentTypes['DeploymentReview']
         | ResolversParentTypes['DeploymentStatus']
         | ResolversParentTypes['DisconnectedEvent']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionCategory']
+        | ResolversParentTypes['DiscussionComment']
+        | ResolversParentTypes['DiscussionPoll']
+        | ResolversParentTypes['DiscussionPollOption']
+        | ResolversParentTypes['DraftIssue']
         | ResolversParentTypes['Enterprise']
         | ResolversParentTypes['EnterpriseAdministratorInvitation']
         | ResolversParentTypes['EnterpriseIdentityProvider']
@@ -21534,6 +28685,7 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['EnterpriseServerUserAccountEmail']
         | ResolversParentTypes['EnterpriseServerUserAccountsUpload']
         | ResolversParentTypes['EnterpriseUserAccount']
+        | ResolversParentTypes['Environment']
         | ResolversParentTypes['ExternalIdentity']
         | ResolversParentTypes['Gist']
         | ResolversParentTypes['GistComment']
@@ -21557,9 +28709,11 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['MembersCanDeleteReposEnableAuditEntry']
         | ResolversParentTypes['MentionedEvent']
         | ResolversParentTypes['MergedEvent']
+        | ResolversParentTypes['MigrationSource']
         | ResolversParentTypes['Milestone']
         | ResolversParentTypes['MilestonedEvent']
         | ResolversParentTypes['MovedColumnsInProjectEvent']
+        | ResolversParentTypes['OIDCProvider']
         | ResolversParentTypes['OauthApplicationCreateAuditEntry']
         | ResolversParentTypes['OrgAddBillingManagerAuditEntry']
         | ResolversParentTypes['OrgAddMemberAuditEntry']
@@ -21594,12 +28748,30 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['PackageFile']
         | ResolversParentTypes['PackageTag']
         | ResolversParentTypes['PackageVersion']
+        | ResolversParentTypes['PinnedDiscussion']
         | ResolversParentTypes['PinnedEvent']
+        | ResolversParentTypes['PinnedIssue']
         | ResolversParentTypes['PrivateRepositoryForkingDisableAuditEntry']
         | ResolversParentTypes['PrivateRepositoryForkingEnableAuditEntry']
         | ResolversParentTypes['Project']
         | ResolversParentTypes['ProjectCard']
         | ResolversParentTypes['ProjectColumn']
+        | ResolversParentTypes['ProjectNext']
+        | ResolversParentTypes['ProjectNextField']
+        | ResolversParentTypes['ProjectNextItem']
+        | ResolversParentTypes['ProjectNextItemFieldValue']
+        | ResolversParentTypes['ProjectV2']
+        | ResolversParentTypes['ProjectV2Field']
+        | ResolversParentTypes['ProjectV2Item']
+        | ResolversParentTypes['ProjectV2ItemFieldDateValue']
+        | ResolversParentTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversParentTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversParentTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversParentTypes['ProjectV2ItemFieldTextValue']
+        | ResolversParentTypes['ProjectV2IterationField']
+        | ResolversParentTypes['ProjectV2SingleSelectField']
+        | ResolversParentTypes['ProjectV2View']
+        | ResolversParentTypes['ProjectView']
         | ResolversParentTypes['PublicKey']
         | ResolversParentTypes['PullRequest']
         | ResolversParentTypes['PullRequestCommit']
@@ -21639,6 +28811,7 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['RepoRemoveTopicAuditEntry']
         | ResolversParentTypes['Repository']
         | ResolversParentTypes['RepositoryInvitation']
+        | ResolversParentTypes['RepositoryMigration']
         | ResolversParentTypes['RepositoryTopic']
         | ResolversParentTypes['RepositoryVisibilityChangeDisableAuditEntry']
         | ResolversParentTypes['RepositoryVisibilityChangeEnableAuditEntry']
@@ -21650,9 +28823,11 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['ReviewRequestedEvent']
         | ResolversParentTypes['SavedReply']
         | ResolversParentTypes['SecurityAdvisory']
+        | ResolversParentTypes['SponsorsActivity']
         | ResolversParentTypes['SponsorsListing']
         | ResolversParentTypes['SponsorsTier']
         | ResolversParentTypes['Sponsorship']
+        | ResolversParentTypes['SponsorshipNewsletter']
         | ResolversParentTypes['Status']
         | ResolversParentTypes['StatusCheckRollup']
         | ResolversParentTypes['StatusContext']
@@ -21679,6 +28854,10 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['UserBlockedEvent']
         | ResolversParentTypes['UserContentEdit']
         | ResolversParentTypes['UserStatus']
+        | ResolversParentTypes['VerifiableDomain']
+        | ResolversParentTypes['Workflow']
+        | ResolversParentTypes['WorkflowRun']
+    OIDCProvider: OidcProvider
     OauthApplicationAuditEntryData:
         | ResolversParentTypes['OauthApplicationCreateAuditEntry']
         | ResolversParentTypes['OrgOauthAppAccessApprovedAuditEntry']
@@ -21713,6 +28892,7 @@ export type ResolversParentTypes = {
     OrgEnableTwoFactorRequirementAuditEntry: Omit<OrgEnableTwoFactorRequirementAuditEntry, 'actor'> & {
         actor: Maybe<ResolversParentTypes['AuditEntryActor']>
     }
+    OrgEnterpriseOwnerOrder: OrgEnterpriseOwnerOrder
     OrgInviteMemberAuditEntry: Omit<OrgInviteMemberAuditEntry, 'actor'> & {
         actor: Maybe<ResolversParentTypes['AuditEntryActor']>
     }
@@ -21891,12 +29071,15 @@ export type ResolversParentTypes = {
     }
     OrganizationConnection: OrganizationConnection
     OrganizationEdge: OrganizationEdge
+    OrganizationEnterpriseOwnerConnection: OrganizationEnterpriseOwnerConnection
+    OrganizationEnterpriseOwnerEdge: OrganizationEnterpriseOwnerEdge
     OrganizationIdentityProvider: OrganizationIdentityProvider
     OrganizationInvitation: OrganizationInvitation
     OrganizationInvitationConnection: OrganizationInvitationConnection
     OrganizationInvitationEdge: OrganizationInvitationEdge
     OrganizationMemberConnection: OrganizationMemberConnection
     OrganizationMemberEdge: OrganizationMemberEdge
+    OrganizationOrUser: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
     OrganizationOrder: OrganizationOrder
     OrganizationTeamsHovercardContext: OrganizationTeamsHovercardContext
     OrganizationsHovercardContext: OrganizationsHovercardContext
@@ -21919,12 +29102,20 @@ export type ResolversParentTypes = {
     PageInfo: PageInfo
     PermissionGranter: ResolversParentTypes['Organization'] | ResolversParentTypes['Repository'] | ResolversParentTypes['Team']
     PermissionSource: Omit<PermissionSource, 'source'> & { source: ResolversParentTypes['PermissionGranter'] }
+    PinIssueInput: PinIssueInput
+    PinIssuePayload: PinIssuePayload
     PinnableItem: ResolversParentTypes['Gist'] | ResolversParentTypes['Repository']
     PinnableItemConnection: Omit<PinnableItemConnection, 'nodes'> & {
         nodes: Maybe<Array<Maybe<ResolversParentTypes['PinnableItem']>>>
     }
     PinnableItemEdge: Omit<PinnableItemEdge, 'node'> & { node: Maybe<ResolversParentTypes['PinnableItem']> }
+    PinnedDiscussion: PinnedDiscussion
+    PinnedDiscussionConnection: PinnedDiscussionConnection
+    PinnedDiscussionEdge: PinnedDiscussionEdge
     PinnedEvent: PinnedEvent
+    PinnedIssue: PinnedIssue
+    PinnedIssueConnection: PinnedIssueConnection
+    PinnedIssueEdge: PinnedIssueEdge
     PreciseDateTime: Scalars['PreciseDateTime']
     PrivateRepositoryForkingDisableAuditEntry: Omit<PrivateRepositoryForkingDisableAuditEntry, 'actor'> & {
         actor: Maybe<ResolversParentTypes['AuditEntryActor']>
@@ -21944,9 +29135,134 @@ export type ResolversParentTypes = {
     ProjectColumnEdge: ProjectColumnEdge
     ProjectConnection: ProjectConnection
     ProjectEdge: ProjectEdge
+    ProjectNext: ProjectNext
+    ProjectNextConnection: ProjectNextConnection
+    ProjectNextEdge: ProjectNextEdge
+    ProjectNextField: ProjectNextField
+    ProjectNextFieldCommon: ResolversParentTypes['ProjectNextField']
+    ProjectNextFieldConnection: ProjectNextFieldConnection
+    ProjectNextFieldEdge: ProjectNextFieldEdge
+    ProjectNextItem: Omit<ProjectNextItem, 'content'> & { content: Maybe<ResolversParentTypes['ProjectNextItemContent']> }
+    ProjectNextItemConnection: ProjectNextItemConnection
+    ProjectNextItemContent:
+        | ResolversParentTypes['DraftIssue']
+        | ResolversParentTypes['Issue']
+        | ResolversParentTypes['PullRequest']
+    ProjectNextItemEdge: ProjectNextItemEdge
+    ProjectNextItemFieldValue: ProjectNextItemFieldValue
+    ProjectNextItemFieldValueConnection: ProjectNextItemFieldValueConnection
+    ProjectNextItemFieldValueEdge: ProjectNextItemFieldValueEdge
+    ProjectNextOwner:
+        | ResolversParentTypes['Issue']
+        | ResolversParentTypes['Organization']
+        | ResolversParentTypes['PullRequest']
+        | ResolversParentTypes['User']
     ProjectOrder: ProjectOrder
     ProjectOwner: ResolversParentTypes['Organization'] | ResolversParentTypes['Repository'] | ResolversParentTypes['User']
     ProjectProgress: ProjectProgress
+    ProjectV2: Omit<ProjectV2, 'field'> & { field: Maybe<ResolversParentTypes['ProjectV2FieldConfiguration']> }
+    ProjectV2Connection: ProjectV2Connection
+    ProjectV2Edge: ProjectV2Edge
+    ProjectV2Field: ProjectV2Field
+    ProjectV2FieldCommon:
+        | ResolversParentTypes['ProjectV2Field']
+        | ResolversParentTypes['ProjectV2IterationField']
+        | ResolversParentTypes['ProjectV2SingleSelectField']
+    ProjectV2FieldConfiguration:
+        | ResolversParentTypes['ProjectV2Field']
+        | ResolversParentTypes['ProjectV2IterationField']
+        | ResolversParentTypes['ProjectV2SingleSelectField']
+    ProjectV2FieldConfigurationConnection: Omit<ProjectV2FieldConfigurationConnection, 'nodes'> & {
+        nodes: Maybe<Array<Maybe<ResolversParentTypes['ProjectV2FieldConfiguration']>>>
+    }
+    ProjectV2FieldConfigurationEdge: Omit<ProjectV2FieldConfigurationEdge, 'node'> & {
+        node: Maybe<ResolversParentTypes['ProjectV2FieldConfiguration']>
+    }
+    ProjectV2FieldConnection: ProjectV2FieldConnection
+    ProjectV2FieldEdge: ProjectV2FieldEdge
+    ProjectV2FieldValue: ProjectV2FieldValue
+    ProjectV2Item: Omit<ProjectV2Item, 'content'> & { content: Maybe<ResolversParentTypes['ProjectV2ItemContent']> }
+    ProjectV2ItemConnection: ProjectV2ItemConnection
+    ProjectV2ItemContent: ResolversParentTypes['DraftIssue'] | ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
+    ProjectV2ItemEdge: ProjectV2ItemEdge
+    ProjectV2ItemFieldDateValue: Omit<ProjectV2ItemFieldDateValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldIterationValue: Omit<ProjectV2ItemFieldIterationValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldLabelValue: Omit<ProjectV2ItemFieldLabelValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldMilestoneValue: Omit<ProjectV2ItemFieldMilestoneValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldNumberValue: Omit<ProjectV2ItemFieldNumberValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldPullRequestValue: Omit<ProjectV2ItemFieldPullRequestValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldRepositoryValue: Omit<ProjectV2ItemFieldRepositoryValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldReviewerValue: Omit<ProjectV2ItemFieldReviewerValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldSingleSelectValue: Omit<ProjectV2ItemFieldSingleSelectValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldTextValue: Omit<ProjectV2ItemFieldTextValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldUserValue: Omit<ProjectV2ItemFieldUserValue, 'field'> & {
+        field: ResolversParentTypes['ProjectV2FieldConfiguration']
+    }
+    ProjectV2ItemFieldValue:
+        | ResolversParentTypes['ProjectV2ItemFieldDateValue']
+        | ResolversParentTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversParentTypes['ProjectV2ItemFieldLabelValue']
+        | ResolversParentTypes['ProjectV2ItemFieldMilestoneValue']
+        | ResolversParentTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversParentTypes['ProjectV2ItemFieldPullRequestValue']
+        | ResolversParentTypes['ProjectV2ItemFieldRepositoryValue']
+        | ResolversParentTypes['ProjectV2ItemFieldReviewerValue']
+        | ResolversParentTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversParentTypes['ProjectV2ItemFieldTextValue']
+        | ResolversParentTypes['ProjectV2ItemFieldUserValue']
+    ProjectV2ItemFieldValueCommon:
+        | ResolversParentTypes['ProjectV2ItemFieldDateValue']
+        | ResolversParentTypes['ProjectV2ItemFieldIterationValue']
+        | ResolversParentTypes['ProjectV2ItemFieldNumberValue']
+        | ResolversParentTypes['ProjectV2ItemFieldSingleSelectValue']
+        | ResolversParentTypes['ProjectV2ItemFieldTextValue']
+    ProjectV2ItemFieldValueConnection: Omit<ProjectV2ItemFieldValueConnection, 'nodes'> & {
+        nodes: Maybe<Array<Maybe<ResolversParentTypes['ProjectV2ItemFieldValue']>>>
+    }
+    ProjectV2ItemFieldValueEdge: Omit<ProjectV2ItemFieldValueEdge, 'node'> & {
+        node: Maybe<ResolversParentTypes['ProjectV2ItemFieldValue']>
+    }
+    ProjectV2IterationField: ProjectV2IterationField
+    ProjectV2IterationFieldConfiguration: ProjectV2IterationFieldConfiguration
+    ProjectV2IterationFieldIteration: ProjectV2IterationFieldIteration
+    ProjectV2Order: ProjectV2Order
+    ProjectV2Owner:
+        | ResolversParentTypes['Issue']
+        | ResolversParentTypes['Organization']
+        | ResolversParentTypes['PullRequest']
+        | ResolversParentTypes['User']
+    ProjectV2Recent: ResolversParentTypes['Organization'] | ResolversParentTypes['Repository'] | ResolversParentTypes['User']
+    ProjectV2SingleSelectField: ProjectV2SingleSelectField
+    ProjectV2SingleSelectFieldOption: ProjectV2SingleSelectFieldOption
+    ProjectV2SortBy: ProjectV2SortBy
+    ProjectV2SortByConnection: ProjectV2SortByConnection
+    ProjectV2SortByEdge: ProjectV2SortByEdge
+    ProjectV2View: ProjectV2View
+    ProjectV2ViewConnection: ProjectV2ViewConnection
+    ProjectV2ViewEdge: ProjectV2ViewEdge
+    ProjectView: ProjectView
+    ProjectViewConnection: ProjectViewConnection
+    ProjectViewEdge: ProjectViewEdge
     PublicKey: PublicKey
     PublicKeyConnection: PublicKeyConnection
     PublicKeyEdge: PublicKeyEdge
@@ -21973,6 +29289,7 @@ export type ResolversParentTypes = {
     PullRequestReviewThreadConnection: PullRequestReviewThreadConnection
     PullRequestReviewThreadEdge: PullRequestReviewThreadEdge
     PullRequestRevisionMarker: PullRequestRevisionMarker
+    PullRequestTemplate: PullRequestTemplate
     PullRequestTimelineConnection: Omit<PullRequestTimelineConnection, 'nodes'> & {
         nodes: Maybe<Array<Maybe<ResolversParentTypes['PullRequestTimelineItem']>>>
     }
@@ -22030,6 +29347,7 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['ConnectedEvent']
         | ResolversParentTypes['ConvertToDraftEvent']
         | ResolversParentTypes['ConvertedNoteToIssueEvent']
+        | ResolversParentTypes['ConvertedToDiscussionEvent']
         | ResolversParentTypes['CrossReferencedEvent']
         | ResolversParentTypes['DemilestonedEvent']
         | ResolversParentTypes['DeployedEvent']
@@ -22084,11 +29402,14 @@ export type ResolversParentTypes = {
     RateLimit: RateLimit
     Reactable:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['IssueComment']
         | ResolversParentTypes['PullRequest']
         | ResolversParentTypes['PullRequestReview']
         | ResolversParentTypes['PullRequestReviewComment']
+        | ResolversParentTypes['Release']
         | ResolversParentTypes['TeamDiscussion']
         | ResolversParentTypes['TeamDiscussionComment']
     ReactingUserConnection: ReactingUserConnection
@@ -22098,6 +29419,13 @@ export type ResolversParentTypes = {
     ReactionEdge: ReactionEdge
     ReactionGroup: ReactionGroup
     ReactionOrder: ReactionOrder
+    Reactor:
+        | ResolversParentTypes['Bot']
+        | ResolversParentTypes['Mannequin']
+        | ResolversParentTypes['Organization']
+        | ResolversParentTypes['User']
+    ReactorConnection: Omit<ReactorConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversParentTypes['Reactor']>>> }
+    ReactorEdge: Omit<ReactorEdge, 'node'> & { node: ResolversParentTypes['Reactor'] }
     ReadyForReviewEvent: ReadyForReviewEvent
     Ref: Ref
     RefConnection: RefConnection
@@ -22108,6 +29436,10 @@ export type ResolversParentTypes = {
     ReferencedSubject: ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
     RegenerateEnterpriseIdentityProviderRecoveryCodesInput: RegenerateEnterpriseIdentityProviderRecoveryCodesInput
     RegenerateEnterpriseIdentityProviderRecoveryCodesPayload: RegenerateEnterpriseIdentityProviderRecoveryCodesPayload
+    RegenerateVerifiableDomainTokenInput: RegenerateVerifiableDomainTokenInput
+    RegenerateVerifiableDomainTokenPayload: RegenerateVerifiableDomainTokenPayload
+    RejectDeploymentsInput: RejectDeploymentsInput
+    RejectDeploymentsPayload: RejectDeploymentsPayload
     Release: Release
     ReleaseAsset: ReleaseAsset
     ReleaseAssetConnection: ReleaseAssetConnection
@@ -22133,6 +29465,8 @@ export type ResolversParentTypes = {
     RemoveReactionPayload: RemoveReactionPayload
     RemoveStarInput: RemoveStarInput
     RemoveStarPayload: RemoveStarPayload
+    RemoveUpvoteInput: RemoveUpvoteInput
+    RemoveUpvotePayload: RemoveUpvotePayload
     RemovedFromProjectEvent: RemovedFromProjectEvent
     RenamedTitleEvent: Omit<RenamedTitleEvent, 'subject'> & { subject: ResolversParentTypes['RenamedTitleSubject'] }
     RenamedTitleSubject: ResolversParentTypes['Issue'] | ResolversParentTypes['PullRequest']
@@ -22212,10 +29546,14 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['RepoRemoveTopicAuditEntry']
         | ResolversParentTypes['TeamAddRepositoryAuditEntry']
         | ResolversParentTypes['TeamRemoveRepositoryAuditEntry']
+    RepositoryCodeowners: RepositoryCodeowners
+    RepositoryCodeownersError: RepositoryCodeownersError
     RepositoryCollaboratorConnection: RepositoryCollaboratorConnection
     RepositoryCollaboratorEdge: RepositoryCollaboratorEdge
     RepositoryConnection: RepositoryConnection
     RepositoryContactLink: RepositoryContactLink
+    RepositoryDiscussionAuthor: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
+    RepositoryDiscussionCommentAuthor: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
     RepositoryEdge: RepositoryEdge
     RepositoryInfo: ResolversParentTypes['Repository']
     RepositoryInteractionAbility: RepositoryInteractionAbility
@@ -22223,11 +29561,19 @@ export type ResolversParentTypes = {
     RepositoryInvitationConnection: RepositoryInvitationConnection
     RepositoryInvitationEdge: RepositoryInvitationEdge
     RepositoryInvitationOrder: RepositoryInvitationOrder
+    RepositoryMigration: RepositoryMigration
+    RepositoryMigrationConnection: RepositoryMigrationConnection
+    RepositoryMigrationEdge: RepositoryMigrationEdge
+    RepositoryMigrationOrder: RepositoryMigrationOrder
     RepositoryNode:
         | ResolversParentTypes['CommitComment']
         | ResolversParentTypes['CommitCommentThread']
+        | ResolversParentTypes['DependabotUpdate']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionCategory']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['IssueComment']
+        | ResolversParentTypes['PinnedDiscussion']
         | ResolversParentTypes['PullRequest']
         | ResolversParentTypes['PullRequestCommitCommentThread']
         | ResolversParentTypes['PullRequestReview']
@@ -22250,6 +29596,13 @@ export type ResolversParentTypes = {
     RequestReviewsInput: RequestReviewsInput
     RequestReviewsPayload: RequestReviewsPayload
     RequestedReviewer: ResolversParentTypes['Mannequin'] | ResolversParentTypes['Team'] | ResolversParentTypes['User']
+    RequestedReviewerConnection: Omit<RequestedReviewerConnection, 'nodes'> & {
+        nodes: Maybe<Array<Maybe<ResolversParentTypes['RequestedReviewer']>>>
+    }
+    RequestedReviewerEdge: Omit<RequestedReviewerEdge, 'node'> & { node: Maybe<ResolversParentTypes['RequestedReviewer']> }
+    RequirableByPullRequest: ResolversParentTypes['CheckRun'] | ResolversParentTypes['StatusContext']
+    RequiredStatusCheckDescription: RequiredStatusCheckDescription
+    RequiredStatusCheckInput: RequiredStatusCheckInput
     RerequestCheckSuiteInput: RerequestCheckSuiteInput
     RerequestCheckSuitePayload: RerequestCheckSuitePayload
     ResolveReviewThreadInput: ResolveReviewThreadInput
@@ -22258,7 +29611,7 @@ export type ResolversParentTypes = {
     ReviewDismissalAllowance: Omit<ReviewDismissalAllowance, 'actor'> & {
         actor: Maybe<ResolversParentTypes['ReviewDismissalAllowanceActor']>
     }
-    ReviewDismissalAllowanceActor: ResolversParentTypes['Team'] | ResolversParentTypes['User']
+    ReviewDismissalAllowanceActor: ResolversParentTypes['App'] | ResolversParentTypes['Team'] | ResolversParentTypes['User']
     ReviewDismissalAllowanceConnection: ReviewDismissalAllowanceConnection
     ReviewDismissalAllowanceEdge: ReviewDismissalAllowanceEdge
     ReviewDismissedEvent: ReviewDismissedEvent
@@ -22274,12 +29627,17 @@ export type ResolversParentTypes = {
         requestedReviewer: Maybe<ResolversParentTypes['RequestedReviewer']>
     }
     ReviewStatusHovercardContext: ReviewStatusHovercardContext
+    RevokeEnterpriseOrganizationsMigratorRoleInput: RevokeEnterpriseOrganizationsMigratorRoleInput
+    RevokeEnterpriseOrganizationsMigratorRolePayload: RevokeEnterpriseOrganizationsMigratorRolePayload
+    RevokeMigratorRoleInput: RevokeMigratorRoleInput
+    RevokeMigratorRolePayload: RevokeMigratorRolePayload
     SavedReply: SavedReply
     SavedReplyConnection: SavedReplyConnection
     SavedReplyEdge: SavedReplyEdge
     SavedReplyOrder: SavedReplyOrder
     SearchResultItem:
         | ResolversParentTypes['App']
+        | ResolversParentTypes['Discussion']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['MarketplaceListing']
         | ResolversParentTypes['Organization']
@@ -22312,8 +29670,23 @@ export type ResolversParentTypes = {
     SetUserInteractionLimitInput: SetUserInteractionLimitInput
     SetUserInteractionLimitPayload: SetUserInteractionLimitPayload
     SmimeSignature: SmimeSignature
+    SortBy: SortBy
     Sponsor: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
+    SponsorConnection: Omit<SponsorConnection, 'nodes'> & { nodes: Maybe<Array<Maybe<ResolversParentTypes['Sponsor']>>> }
+    SponsorEdge: Omit<SponsorEdge, 'node'> & { node: Maybe<ResolversParentTypes['Sponsor']> }
+    SponsorOrder: SponsorOrder
     Sponsorable: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
+    SponsorableItem: ResolversParentTypes['Organization'] | ResolversParentTypes['User']
+    SponsorableItemConnection: Omit<SponsorableItemConnection, 'nodes'> & {
+        nodes: Maybe<Array<Maybe<ResolversParentTypes['SponsorableItem']>>>
+    }
+    SponsorableItemEdge: Omit<SponsorableItemEdge, 'node'> & { node: Maybe<ResolversParentTypes['SponsorableItem']> }
+    SponsorableOrder: SponsorableOrder
+    SponsorsActivity: Omit<SponsorsActivity, 'sponsor'> & { sponsor: Maybe<ResolversParentTypes['Sponsor']> }
+    SponsorsActivityConnection: SponsorsActivityConnection
+    SponsorsActivityEdge: SponsorsActivityEdge
+    SponsorsActivityOrder: SponsorsActivityOrder
+    SponsorsGoal: SponsorsGoal
     SponsorsListing: SponsorsListing
     SponsorsTier: SponsorsTier
     SponsorsTierAdminInfo: SponsorsTierAdminInfo
@@ -22323,6 +29696,10 @@ export type ResolversParentTypes = {
     Sponsorship: Omit<Sponsorship, 'sponsorEntity'> & { sponsorEntity: Maybe<ResolversParentTypes['Sponsor']> }
     SponsorshipConnection: SponsorshipConnection
     SponsorshipEdge: SponsorshipEdge
+    SponsorshipNewsletter: SponsorshipNewsletter
+    SponsorshipNewsletterConnection: SponsorshipNewsletterConnection
+    SponsorshipNewsletterEdge: SponsorshipNewsletterEdge
+    SponsorshipNewsletterOrder: SponsorshipNewsletterOrder
     SponsorshipOrder: SponsorshipOrder
     StarOrder: StarOrder
     StargazerConnection: StargazerConnection
@@ -22330,6 +29707,8 @@ export type ResolversParentTypes = {
     Starrable: ResolversParentTypes['Gist'] | ResolversParentTypes['Repository'] | ResolversParentTypes['Topic']
     StarredRepositoryConnection: StarredRepositoryConnection
     StarredRepositoryEdge: StarredRepositoryEdge
+    StartRepositoryMigrationInput: StartRepositoryMigrationInput
+    StartRepositoryMigrationPayload: StartRepositoryMigrationPayload
     Status: Status
     StatusCheckRollup: StatusCheckRollup
     StatusCheckRollupContext: ResolversParentTypes['CheckRun'] | ResolversParentTypes['StatusContext']
@@ -22347,6 +29726,7 @@ export type ResolversParentTypes = {
     SubmoduleEdge: SubmoduleEdge
     Subscribable:
         | ResolversParentTypes['Commit']
+        | ResolversParentTypes['Discussion']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['PullRequest']
         | ResolversParentTypes['Repository']
@@ -22406,6 +29786,8 @@ export type ResolversParentTypes = {
     UnarchiveRepositoryInput: UnarchiveRepositoryInput
     UnarchiveRepositoryPayload: UnarchiveRepositoryPayload
     UnassignedEvent: Omit<UnassignedEvent, 'assignee'> & { assignee: Maybe<ResolversParentTypes['Assignee']> }
+    UnfollowOrganizationInput: UnfollowOrganizationInput
+    UnfollowOrganizationPayload: UnfollowOrganizationPayload
     UnfollowUserInput: UnfollowUserInput
     UnfollowUserPayload: UnfollowUserPayload
     UniformResourceLocatable:
@@ -22438,6 +29820,8 @@ export type ResolversParentTypes = {
     UnlockLockableInput: UnlockLockableInput
     UnlockLockablePayload: UnlockLockablePayload
     UnlockedEvent: UnlockedEvent
+    UnmarkDiscussionCommentAsAnswerInput: UnmarkDiscussionCommentAsAnswerInput
+    UnmarkDiscussionCommentAsAnswerPayload: UnmarkDiscussionCommentAsAnswerPayload
     UnmarkFileAsViewedInput: UnmarkFileAsViewedInput
     UnmarkFileAsViewedPayload: UnmarkFileAsViewedPayload
     UnmarkIssueAsDuplicateInput: UnmarkIssueAsDuplicateInput
@@ -22450,16 +29834,22 @@ export type ResolversParentTypes = {
     }
     UnminimizeCommentInput: UnminimizeCommentInput
     UnminimizeCommentPayload: UnminimizeCommentPayload
+    UnpinIssueInput: UnpinIssueInput
+    UnpinIssuePayload: UnpinIssuePayload
     UnpinnedEvent: UnpinnedEvent
     UnresolveReviewThreadInput: UnresolveReviewThreadInput
     UnresolveReviewThreadPayload: UnresolveReviewThreadPayload
     UnsubscribedEvent: UnsubscribedEvent
     Updatable:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['Discussion']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['GistComment']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['IssueComment']
         | ResolversParentTypes['Project']
+        | ResolversParentTypes['ProjectNext']
+        | ResolversParentTypes['ProjectV2']
         | ResolversParentTypes['PullRequest']
         | ResolversParentTypes['PullRequestReview']
         | ResolversParentTypes['PullRequestReviewComment']
@@ -22467,6 +29857,7 @@ export type ResolversParentTypes = {
         | ResolversParentTypes['TeamDiscussionComment']
     UpdatableComment:
         | ResolversParentTypes['CommitComment']
+        | ResolversParentTypes['DiscussionComment']
         | ResolversParentTypes['GistComment']
         | ResolversParentTypes['Issue']
         | ResolversParentTypes['IssueComment']
@@ -22481,6 +29872,10 @@ export type ResolversParentTypes = {
     UpdateCheckRunPayload: UpdateCheckRunPayload
     UpdateCheckSuitePreferencesInput: UpdateCheckSuitePreferencesInput
     UpdateCheckSuitePreferencesPayload: UpdateCheckSuitePreferencesPayload
+    UpdateDiscussionCommentInput: UpdateDiscussionCommentInput
+    UpdateDiscussionCommentPayload: UpdateDiscussionCommentPayload
+    UpdateDiscussionInput: UpdateDiscussionInput
+    UpdateDiscussionPayload: UpdateDiscussionPayload
     UpdateEnterpriseAdministratorRoleInput: UpdateEnterpriseAdministratorRoleInput
     UpdateEnterpriseAdministratorRolePayload: UpdateEnterpriseAdministratorRolePayload
     UpdateEnterpriseAllowPrivateRepositoryForkingSettingInput: UpdateEnterpriseAllowPrivateRepositoryForkingSettingInput
@@ -22505,6 +29900,8 @@ export type ResolversParentTypes = {
     UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload: UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload
     UpdateEnterpriseOrganizationProjectsSettingInput: UpdateEnterpriseOrganizationProjectsSettingInput
     UpdateEnterpriseOrganizationProjectsSettingPayload: UpdateEnterpriseOrganizationProjectsSettingPayload
+    UpdateEnterpriseOwnerOrganizationRoleInput: UpdateEnterpriseOwnerOrganizationRoleInput
+    UpdateEnterpriseOwnerOrganizationRolePayload: UpdateEnterpriseOwnerOrganizationRolePayload
     UpdateEnterpriseProfileInput: UpdateEnterpriseProfileInput
     UpdateEnterpriseProfilePayload: UpdateEnterpriseProfilePayload
     UpdateEnterpriseRepositoryProjectsSettingInput: UpdateEnterpriseRepositoryProjectsSettingInput
@@ -22513,22 +29910,51 @@ export type ResolversParentTypes = {
     UpdateEnterpriseTeamDiscussionsSettingPayload: UpdateEnterpriseTeamDiscussionsSettingPayload
     UpdateEnterpriseTwoFactorAuthenticationRequiredSettingInput: UpdateEnterpriseTwoFactorAuthenticationRequiredSettingInput
     UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload: UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload
+    UpdateEnvironmentInput: UpdateEnvironmentInput
+    UpdateEnvironmentPayload: UpdateEnvironmentPayload
     UpdateIpAllowListEnabledSettingInput: UpdateIpAllowListEnabledSettingInput
     UpdateIpAllowListEnabledSettingPayload: Omit<UpdateIpAllowListEnabledSettingPayload, 'owner'> & {
         owner: Maybe<ResolversParentTypes['IpAllowListOwner']>
     }
     UpdateIpAllowListEntryInput: UpdateIpAllowListEntryInput
     UpdateIpAllowListEntryPayload: UpdateIpAllowListEntryPayload
+    UpdateIpAllowListForInstalledAppsEnabledSettingInput: UpdateIpAllowListForInstalledAppsEnabledSettingInput
+    UpdateIpAllowListForInstalledAppsEnabledSettingPayload: Omit<
+        UpdateIpAllowListForInstalledAppsEnabledSettingPayload,
+        'owner'
+    > & { owner: Maybe<ResolversParentTypes['IpAllowListOwner']> }
     UpdateIssueCommentInput: UpdateIssueCommentInput
     UpdateIssueCommentPayload: UpdateIssueCommentPayload
     UpdateIssueInput: UpdateIssueInput
     UpdateIssuePayload: UpdateIssuePayload
+    UpdateNotificationRestrictionSettingInput: UpdateNotificationRestrictionSettingInput
+    UpdateNotificationRestrictionSettingPayload: Omit<UpdateNotificationRestrictionSettingPayload, 'owner'> & {
+        owner: Maybe<ResolversParentTypes['VerifiableDomainOwner']>
+    }
+    UpdateOrganizationAllowPrivateRepositoryForkingSettingInput: UpdateOrganizationAllowPrivateRepositoryForkingSettingInput
+    UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload: UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload
     UpdateProjectCardInput: UpdateProjectCardInput
     UpdateProjectCardPayload: UpdateProjectCardPayload
     UpdateProjectColumnInput: UpdateProjectColumnInput
     UpdateProjectColumnPayload: UpdateProjectColumnPayload
+    UpdateProjectDraftIssueInput: UpdateProjectDraftIssueInput
+    UpdateProjectDraftIssuePayload: UpdateProjectDraftIssuePayload
     UpdateProjectInput: UpdateProjectInput
+    UpdateProjectNextInput: UpdateProjectNextInput
+    UpdateProjectNextItemFieldInput: UpdateProjectNextItemFieldInput
+    UpdateProjectNextItemFieldPayload: UpdateProjectNextItemFieldPayload
+    UpdateProjectNextPayload: UpdateProjectNextPayload
     UpdateProjectPayload: UpdateProjectPayload
+    UpdateProjectV2DraftIssueInput: UpdateProjectV2DraftIssueInput
+    UpdateProjectV2DraftIssuePayload: UpdateProjectV2DraftIssuePayload
+    UpdateProjectV2Input: UpdateProjectV2Input
+    UpdateProjectV2ItemFieldValueInput: UpdateProjectV2ItemFieldValueInput
+    UpdateProjectV2ItemFieldValuePayload: UpdateProjectV2ItemFieldValuePayload
+    UpdateProjectV2ItemPositionInput: UpdateProjectV2ItemPositionInput
+    UpdateProjectV2ItemPositionPayload: UpdateProjectV2ItemPositionPayload
+    UpdateProjectV2Payload: UpdateProjectV2Payload
+    UpdatePullRequestBranchInput: UpdatePullRequestBranchInput
+    UpdatePullRequestBranchPayload: UpdatePullRequestBranchPayload
     UpdatePullRequestInput: UpdatePullRequestInput
     UpdatePullRequestPayload: UpdatePullRequestPayload
     UpdatePullRequestReviewCommentInput: UpdatePullRequestReviewCommentInput
@@ -22539,12 +29965,16 @@ export type ResolversParentTypes = {
     UpdateRefPayload: UpdateRefPayload
     UpdateRepositoryInput: UpdateRepositoryInput
     UpdateRepositoryPayload: UpdateRepositoryPayload
+    UpdateSponsorshipPreferencesInput: UpdateSponsorshipPreferencesInput
+    UpdateSponsorshipPreferencesPayload: UpdateSponsorshipPreferencesPayload
     UpdateSubscriptionInput: UpdateSubscriptionInput
     UpdateSubscriptionPayload: UpdateSubscriptionPayload
     UpdateTeamDiscussionCommentInput: UpdateTeamDiscussionCommentInput
     UpdateTeamDiscussionCommentPayload: UpdateTeamDiscussionCommentPayload
     UpdateTeamDiscussionInput: UpdateTeamDiscussionInput
     UpdateTeamDiscussionPayload: UpdateTeamDiscussionPayload
+    UpdateTeamsRepositoryInput: UpdateTeamsRepositoryInput
+    UpdateTeamsRepositoryPayload: UpdateTeamsRepositoryPayload
     UpdateTopicsInput: UpdateTopicsInput
     UpdateTopicsPayload: UpdateTopicsPayload
     User: User
@@ -22559,10 +29989,38 @@ export type ResolversParentTypes = {
     UserStatusConnection: UserStatusConnection
     UserStatusEdge: UserStatusEdge
     UserStatusOrder: UserStatusOrder
+    VerifiableDomain: Omit<VerifiableDomain, 'owner'> & { owner: ResolversParentTypes['VerifiableDomainOwner'] }
+    VerifiableDomainConnection: VerifiableDomainConnection
+    VerifiableDomainEdge: VerifiableDomainEdge
+    VerifiableDomainOrder: VerifiableDomainOrder
+    VerifiableDomainOwner: ResolversParentTypes['Enterprise'] | ResolversParentTypes['Organization']
+    VerifyVerifiableDomainInput: VerifyVerifiableDomainInput
+    VerifyVerifiableDomainPayload: VerifyVerifiableDomainPayload
     ViewerHovercardContext: ViewerHovercardContext
+    Votable: ResolversParentTypes['Discussion'] | ResolversParentTypes['DiscussionComment']
+    Workflow: Workflow
+    WorkflowRun: WorkflowRun
     X509Certificate: Scalars['X509Certificate']
 }
 
+export type RequiredCapabilitiesDirectiveArgs = { requiredCapabilities: Maybe<Array<Scalars['String']>> }
+
+export type RequiredCapabilitiesDirectiveResolver<
+    Result,
+    Parent,
+    ContextType = any,
+    Args = RequiredCapabilitiesDirectiveArgs
+> = DirectiveResolverFn<Result, Parent, ContextType, Args>
+
+export type AbortQueuedMigrationsPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AbortQueuedMigrationsPayload'] = ResolversParentTypes['AbortQueuedMigrationsPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    success: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type AcceptEnterpriseAdministratorInvitationPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['AcceptEnterpriseAdministratorInvitationPayload'] = ResolversParentTypes['AcceptEnterpriseAdministratorInvitationPayload']
@@ -22625,6 +30083,24 @@ export type AddCommentPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type AddDiscussionCommentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddDiscussionCommentPayload'] = ResolversParentTypes['AddDiscussionCommentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    comment: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type AddDiscussionPollVotePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddDiscussionPollVotePayload'] = ResolversParentTypes['AddDiscussionPollVotePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    pollOption: Resolver<Maybe<ResolversTypes['DiscussionPollOption']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type AddEnterpriseSupportEntitlementPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['AddEnterpriseSupportEntitlementPayload'] = ResolversParentTypes['AddEnterpriseSupportEntitlementPayload']
@@ -22663,6 +30139,42 @@ export type AddProjectColumnPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type AddProjectDraftIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddProjectDraftIssuePayload'] = ResolversParentTypes['AddProjectDraftIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectNextItem: Resolver<Maybe<ResolversTypes['ProjectNextItem']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type AddProjectNextItemPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddProjectNextItemPayload'] = ResolversParentTypes['AddProjectNextItemPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectNextItem: Resolver<Maybe<ResolversTypes['ProjectNextItem']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type AddProjectV2DraftIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddProjectV2DraftIssuePayload'] = ResolversParentTypes['AddProjectV2DraftIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectItem: Resolver<Maybe<ResolversTypes['ProjectV2Item']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type AddProjectV2ItemByIdPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddProjectV2ItemByIdPayload'] = ResolversParentTypes['AddProjectV2ItemByIdPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    item: Resolver<Maybe<ResolversTypes['ProjectV2Item']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type AddPullRequestReviewCommentPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['AddPullRequestReviewCommentPayload'] = ResolversParentTypes['AddPullRequestReviewCommentPayload']
@@ -22711,6 +30223,24 @@ export type AddStarPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type AddUpvotePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddUpvotePayload'] = ResolversParentTypes['AddUpvotePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    subject: Resolver<Maybe<ResolversTypes['Votable']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type AddVerifiableDomainPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AddVerifiableDomainPayload'] = ResolversParentTypes['AddVerifiableDomainPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    domain: Resolver<Maybe<ResolversTypes['VerifiableDomain']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type AddedToProjectEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['AddedToProjectEvent'] = ResolversParentTypes['AddedToProjectEvent']
@@ -22727,6 +30257,12 @@ export type AppResolvers<ContextType = any, ParentType extends ResolversParentTy
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    ipAllowListEntries: Resolver<
+        ResolversTypes['IpAllowListEntryConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<AppIpAllowListEntriesArgs, 'orderBy'>
+    >
     logoBackgroundColor: Resolver<ResolversTypes['String'], ParentType, ContextType>
     logoUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType, RequireFields<AppLogoUrlArgs, never>>
     name: Resolver<ResolversTypes['String'], ParentType, ContextType>
@@ -22736,6 +30272,24 @@ export type AppResolvers<ContextType = any, ParentType extends ResolversParentTy
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ApproveDeploymentsPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ApproveDeploymentsPayload'] = ResolversParentTypes['ApproveDeploymentsPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    deployments: Resolver<Maybe<Array<ResolversTypes['Deployment']>>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ApproveVerifiableDomainPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ApproveVerifiableDomainPayload'] = ResolversParentTypes['ApproveVerifiableDomainPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    domain: Resolver<Maybe<ResolversTypes['VerifiableDomain']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ArchiveRepositoryPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ArchiveRepositoryPayload'] = ResolversParentTypes['ArchiveRepositoryPayload']
@@ -22887,6 +30441,20 @@ export type AutoMergeEnabledEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type AutoMergeRequestResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['AutoMergeRequest'] = ResolversParentTypes['AutoMergeRequest']
+> = {
+    authorEmail: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    commitBody: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    commitHeadline: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    enabledAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    enabledBy: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    mergeMethod: Resolver<ResolversTypes['PullRequestMergeMethod'], ParentType, ContextType>
+    pullRequest: Resolver<ResolversTypes['PullRequest'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type AutoRebaseEnabledEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['AutoRebaseEnabledEvent'] = ResolversParentTypes['AutoRebaseEnabledEvent']
@@ -22937,6 +30505,10 @@ export type AutomaticBaseChangeSucceededEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export interface Base64StringScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['Base64String'], any> {
+    name: 'Base64String'
+}
+
 export type BaseRefChangedEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['BaseRefChangedEvent'] = ResolversParentTypes['BaseRefChangedEvent']
@@ -23022,18 +30594,38 @@ export type BotResolvers<ContextType = any, ParentType extends ResolversParentTy
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type BranchActorAllowanceActorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BranchActorAllowanceActor'] = ResolversParentTypes['BranchActorAllowanceActor']
+> = {
+    __resolveType: TypeResolveFn<'App' | 'Team' | 'User', ParentType, ContextType>
+}
+
 export type BranchProtectionRuleResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['BranchProtectionRule'] = ResolversParentTypes['BranchProtectionRule']
 > = {
     allowsDeletions: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     allowsForcePushes: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    blocksCreations: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     branchProtectionRuleConflicts: Resolver<
         ResolversTypes['BranchProtectionRuleConflictConnection'],
         ParentType,
         ContextType,
         RequireFields<BranchProtectionRuleBranchProtectionRuleConflictsArgs, never>
     >
+    bypassForcePushAllowances: Resolver<
+        ResolversTypes['BypassForcePushAllowanceConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<BranchProtectionRuleBypassForcePushAllowancesArgs, never>
+    >
+    bypassPullRequestAllowances: Resolver<
+        ResolversTypes['BypassPullRequestAllowanceConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<BranchProtectionRuleBypassPullRequestAllowancesArgs, never>
+    >
     creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     dismissesStaleReviews: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
@@ -23055,9 +30647,11 @@ export type BranchProtectionRuleResolvers<
     repository: Resolver<Maybe<ResolversTypes['Repository']>, ParentType, ContextType>
     requiredApprovingReviewCount: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     requiredStatusCheckContexts: Resolver<Maybe<Array<Maybe<ResolversTypes['String']>>>, ParentType, ContextType>
+    requiredStatusChecks: Resolver<Maybe<Array<ResolversTypes['RequiredStatusCheckDescription']>>, ParentType, ContextType>
     requiresApprovingReviews: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresCodeOwnerReviews: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresCommitSignatures: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    requiresConversationResolution: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresLinearHistory: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresStatusChecks: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresStrictStatusChecks: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
@@ -23122,6 +30716,100 @@ export type BranchProtectionRuleEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type BypassForcePushAllowanceResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassForcePushAllowance'] = ResolversParentTypes['BypassForcePushAllowance']
+> = {
+    actor: Resolver<Maybe<ResolversTypes['BranchActorAllowanceActor']>, ParentType, ContextType>
+    branchProtectionRule: Resolver<Maybe<ResolversTypes['BranchProtectionRule']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type BypassForcePushAllowanceConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassForcePushAllowanceConnection'] = ResolversParentTypes['BypassForcePushAllowanceConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['BypassForcePushAllowanceEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['BypassForcePushAllowance']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type BypassForcePushAllowanceEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassForcePushAllowanceEdge'] = ResolversParentTypes['BypassForcePushAllowanceEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['BypassForcePushAllowance']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type BypassPullRequestAllowanceResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassPullRequestAllowance'] = ResolversParentTypes['BypassPullRequestAllowance']
+> = {
+    actor: Resolver<Maybe<ResolversTypes['BranchActorAllowanceActor']>, ParentType, ContextType>
+    branchProtectionRule: Resolver<Maybe<ResolversTypes['BranchProtectionRule']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type BypassPullRequestAllowanceConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassPullRequestAllowanceConnection'] = ResolversParentTypes['BypassPullRequestAllowanceConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['BypassPullRequestAllowanceEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['BypassPullRequestAllowance']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type BypassPullRequestAllowanceEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['BypassPullRequestAllowanceEdge'] = ResolversParentTypes['BypassPullRequestAllowanceEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['BypassPullRequestAllowance']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CvssResolvers<ContextType = any, ParentType extends ResolversParentTypes['CVSS'] = ResolversParentTypes['CVSS']> = {
+    score: Resolver<ResolversTypes['Float'], ParentType, ContextType>
+    vectorString: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CweResolvers<ContextType = any, ParentType extends ResolversParentTypes['CWE'] = ResolversParentTypes['CWE']> = {
+    cweId: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    description: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CweConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CWEConnection'] = ResolversParentTypes['CWEConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['CWEEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['CWE']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CweEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CWEEdge'] = ResolversParentTypes['CWEEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['CWE']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CancelEnterpriseAdminInvitationPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CancelEnterpriseAdminInvitationPayload'] = ResolversParentTypes['CancelEnterpriseAdminInvitationPayload']
@@ -23132,6 +30820,15 @@ export type CancelEnterpriseAdminInvitationPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CancelSponsorshipPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CancelSponsorshipPayload'] = ResolversParentTypes['CancelSponsorshipPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    sponsorsTier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ChangeUserStatusPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ChangeUserStatusPayload'] = ResolversParentTypes['ChangeUserStatusPayload']
@@ -23208,15 +30905,24 @@ export type CheckRunResolvers<
     completedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     conclusion: Resolver<Maybe<ResolversTypes['CheckConclusionState']>, ParentType, ContextType>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    deployment: Resolver<Maybe<ResolversTypes['Deployment']>, ParentType, ContextType>
     detailsUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
     externalId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isRequired: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<CheckRunIsRequiredArgs, never>>
     name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    pendingDeploymentRequest: Resolver<Maybe<ResolversTypes['DeploymentRequest']>, ParentType, ContextType>
     permalink: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     startedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     status: Resolver<ResolversTypes['CheckStatusState'], ParentType, ContextType>
+    steps: Resolver<
+        Maybe<ResolversTypes['CheckStepConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<CheckRunStepsArgs, never>
+    >
     summary: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     text: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     title: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
@@ -23244,6 +30950,41 @@ export type CheckRunEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CheckStepResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CheckStep'] = ResolversParentTypes['CheckStep']
+> = {
+    completedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    conclusion: Resolver<Maybe<ResolversTypes['CheckConclusionState']>, ParentType, ContextType>
+    externalId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    secondsToCompletion: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    startedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    status: Resolver<ResolversTypes['CheckStatusState'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CheckStepConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CheckStepConnection'] = ResolversParentTypes['CheckStepConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['CheckStepEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['CheckStep']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CheckStepEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CheckStepEdge'] = ResolversParentTypes['CheckStepEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['CheckStep']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CheckSuiteResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CheckSuite'] = ResolversParentTypes['CheckSuite']
@@ -23259,6 +31000,7 @@ export type CheckSuiteResolvers<
     commit: Resolver<ResolversTypes['Commit'], ParentType, ContextType>
     conclusion: Resolver<Maybe<ResolversTypes['CheckConclusionState']>, ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     matchingPullRequests: Resolver<
@@ -23273,6 +31015,7 @@ export type CheckSuiteResolvers<
     status: Resolver<ResolversTypes['CheckStatusState'], ParentType, ContextType>
     updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    workflowRun: Resolver<Maybe<ResolversTypes['WorkflowRun']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
@@ -23328,7 +31071,11 @@ export type ClosableResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Closable'] = ResolversParentTypes['Closable']
 > = {
-    __resolveType: TypeResolveFn<'Issue' | 'Milestone' | 'Project' | 'PullRequest', ParentType, ContextType>
+    __resolveType: TypeResolveFn<
+        'Issue' | 'Milestone' | 'Project' | 'ProjectNext' | 'ProjectV2' | 'PullRequest',
+        ParentType,
+        ContextType
+    >
     closed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     closedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
 }
@@ -23361,6 +31108,7 @@ export type ClosedEventResolvers<
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    stateReason: Resolver<Maybe<ResolversTypes['IssueStateReason']>, ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
@@ -23391,6 +31139,8 @@ export type CommentResolvers<
 > = {
     __resolveType: TypeResolveFn<
         | 'CommitComment'
+        | 'Discussion'
+        | 'DiscussionComment'
         | 'GistComment'
         | 'Issue'
         | 'IssueComment'
@@ -23698,6 +31448,7 @@ export type ContributionCalendarDayResolvers<
 > = {
     color: Resolver<ResolversTypes['String'], ParentType, ContextType>
     contributionCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    contributionLevel: Resolver<ResolversTypes['ContributionLevel'], ParentType, ContextType>
     date: Resolver<ResolversTypes['Date'], ParentType, ContextType>
     weekday: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
@@ -23856,6 +31607,15 @@ export type ConvertProjectCardNoteToIssuePayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ConvertPullRequestToDraftPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ConvertPullRequestToDraftPayload'] = ResolversParentTypes['ConvertPullRequestToDraftPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    pullRequest: Resolver<Maybe<ResolversTypes['PullRequest']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ConvertToDraftEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ConvertToDraftEvent'] = ResolversParentTypes['ConvertToDraftEvent']
@@ -23880,6 +31640,17 @@ export type ConvertedNoteToIssueEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ConvertedToDiscussionEventResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ConvertedToDiscussionEvent'] = ResolversParentTypes['ConvertedToDiscussionEvent']
+> = {
+    actor: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreateBranchProtectionRulePayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreateBranchProtectionRulePayload'] = ResolversParentTypes['CreateBranchProtectionRulePayload']
@@ -23907,6 +31678,25 @@ export type CreateCheckSuitePayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CreateCommitOnBranchPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateCommitOnBranchPayload'] = ResolversParentTypes['CreateCommitOnBranchPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    commit: Resolver<Maybe<ResolversTypes['Commit']>, ParentType, ContextType>
+    ref: Resolver<Maybe<ResolversTypes['Ref']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CreateDiscussionPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateDiscussionPayload'] = ResolversParentTypes['CreateDiscussionPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreateEnterpriseOrganizationPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreateEnterpriseOrganizationPayload'] = ResolversParentTypes['CreateEnterpriseOrganizationPayload']
@@ -23917,6 +31707,15 @@ export type CreateEnterpriseOrganizationPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CreateEnvironmentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateEnvironmentPayload'] = ResolversParentTypes['CreateEnvironmentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    environment: Resolver<Maybe<ResolversTypes['Environment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreateIpAllowListEntryPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreateIpAllowListEntryPayload'] = ResolversParentTypes['CreateIpAllowListEntryPayload']
@@ -23935,6 +31734,15 @@ export type CreateIssuePayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CreateMigrationSourcePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateMigrationSourcePayload'] = ResolversParentTypes['CreateMigrationSourcePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    migrationSource: Resolver<Maybe<ResolversTypes['MigrationSource']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreateProjectPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreateProjectPayload'] = ResolversParentTypes['CreateProjectPayload']
@@ -23944,6 +31752,15 @@ export type CreateProjectPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CreateProjectV2PayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateProjectV2Payload'] = ResolversParentTypes['CreateProjectV2Payload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectV2: Resolver<Maybe<ResolversTypes['ProjectV2']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreatePullRequestPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreatePullRequestPayload'] = ResolversParentTypes['CreatePullRequestPayload']
@@ -23971,6 +31788,24 @@ export type CreateRepositoryPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type CreateSponsorsTierPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateSponsorsTierPayload'] = ResolversParentTypes['CreateSponsorsTierPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    sponsorsTier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type CreateSponsorshipPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['CreateSponsorshipPayload'] = ResolversParentTypes['CreateSponsorshipPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    sponsorship: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type CreateTeamDiscussionCommentPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['CreateTeamDiscussionCommentPayload'] = ResolversParentTypes['CreateTeamDiscussionCommentPayload']
@@ -24218,6 +32053,8 @@ export type DeletableResolvers<
 > = {
     __resolveType: TypeResolveFn<
         | 'CommitComment'
+        | 'Discussion'
+        | 'DiscussionComment'
         | 'GistComment'
         | 'IssueComment'
         | 'PullRequestReview'
@@ -24246,6 +32083,32 @@ export type DeleteDeploymentPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DeleteDiscussionCommentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteDiscussionCommentPayload'] = ResolversParentTypes['DeleteDiscussionCommentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    comment: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeleteDiscussionPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteDiscussionPayload'] = ResolversParentTypes['DeleteDiscussionPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeleteEnvironmentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteEnvironmentPayload'] = ResolversParentTypes['DeleteEnvironmentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DeleteIpAllowListEntryPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DeleteIpAllowListEntryPayload'] = ResolversParentTypes['DeleteIpAllowListEntryPayload']
@@ -24292,6 +32155,15 @@ export type DeleteProjectColumnPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DeleteProjectNextItemPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteProjectNextItemPayload'] = ResolversParentTypes['DeleteProjectNextItemPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    deletedItemId: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DeleteProjectPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DeleteProjectPayload'] = ResolversParentTypes['DeleteProjectPayload']
@@ -24301,6 +32173,15 @@ export type DeleteProjectPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DeleteProjectV2ItemPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteProjectV2ItemPayload'] = ResolversParentTypes['DeleteProjectV2ItemPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    deletedItemId: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DeletePullRequestReviewCommentPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DeletePullRequestReviewCommentPayload'] = ResolversParentTypes['DeletePullRequestReviewCommentPayload']
@@ -24343,6 +32224,15 @@ export type DeleteTeamDiscussionPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DeleteVerifiableDomainPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeleteVerifiableDomainPayload'] = ResolversParentTypes['DeleteVerifiableDomainPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    owner: Resolver<Maybe<ResolversTypes['VerifiableDomainOwner']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DemilestonedEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DemilestonedEvent'] = ResolversParentTypes['DemilestonedEvent']
@@ -24355,6 +32245,26 @@ export type DemilestonedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DependabotUpdateResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DependabotUpdate'] = ResolversParentTypes['DependabotUpdate']
+> = {
+    error: Resolver<Maybe<ResolversTypes['DependabotUpdateError']>, ParentType, ContextType>
+    pullRequest: Resolver<Maybe<ResolversTypes['PullRequest']>, ParentType, ContextType>
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DependabotUpdateErrorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DependabotUpdateError'] = ResolversParentTypes['DependabotUpdateError']
+> = {
+    body: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    errorType: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DeployKeyResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DeployKey'] = ResolversParentTypes['DeployKey']
@@ -24464,6 +32374,144 @@ export type DeploymentEnvironmentChangedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DeploymentProtectionRuleResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentProtectionRule'] = ResolversParentTypes['DeploymentProtectionRule']
+> = {
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    reviewers: Resolver<
+        ResolversTypes['DeploymentReviewerConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DeploymentProtectionRuleReviewersArgs, never>
+    >
+    timeout: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    type: Resolver<ResolversTypes['DeploymentProtectionRuleType'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentProtectionRuleConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentProtectionRuleConnection'] = ResolversParentTypes['DeploymentProtectionRuleConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentProtectionRuleEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentProtectionRule']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentProtectionRuleEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentProtectionRuleEdge'] = ResolversParentTypes['DeploymentProtectionRuleEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DeploymentProtectionRule']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentRequestResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentRequest'] = ResolversParentTypes['DeploymentRequest']
+> = {
+    currentUserCanApprove: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    environment: Resolver<ResolversTypes['Environment'], ParentType, ContextType>
+    reviewers: Resolver<
+        ResolversTypes['DeploymentReviewerConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DeploymentRequestReviewersArgs, never>
+    >
+    waitTimer: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    waitTimerStartedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentRequestConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentRequestConnection'] = ResolversParentTypes['DeploymentRequestConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentRequestEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentRequest']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentRequestEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentRequestEdge'] = ResolversParentTypes['DeploymentRequestEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DeploymentRequest']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentReviewResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReview'] = ResolversParentTypes['DeploymentReview']
+> = {
+    comment: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    environments: Resolver<
+        ResolversTypes['EnvironmentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DeploymentReviewEnvironmentsArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    state: Resolver<ResolversTypes['DeploymentReviewState'], ParentType, ContextType>
+    user: Resolver<ResolversTypes['User'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentReviewConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReviewConnection'] = ResolversParentTypes['DeploymentReviewConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentReviewEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentReview']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentReviewEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReviewEdge'] = ResolversParentTypes['DeploymentReviewEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DeploymentReview']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentReviewerResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReviewer'] = ResolversParentTypes['DeploymentReviewer']
+> = {
+    __resolveType: TypeResolveFn<'Team' | 'User', ParentType, ContextType>
+}
+
+export type DeploymentReviewerConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReviewerConnection'] = ResolversParentTypes['DeploymentReviewerConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentReviewerEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DeploymentReviewer']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DeploymentReviewerEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DeploymentReviewerEdge'] = ResolversParentTypes['DeploymentReviewerEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DeploymentReviewer']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DeploymentStatusResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DeploymentStatus'] = ResolversParentTypes['DeploymentStatus']
@@ -24500,6 +32548,16 @@ export type DeploymentStatusEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DisablePullRequestAutoMergePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DisablePullRequestAutoMergePayload'] = ResolversParentTypes['DisablePullRequestAutoMergePayload']
+> = {
+    actor: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    pullRequest: Resolver<Maybe<ResolversTypes['PullRequest']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DisconnectedEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DisconnectedEvent'] = ResolversParentTypes['DisconnectedEvent']
@@ -24513,6 +32571,259 @@ export type DisconnectedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DiscussionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Discussion'] = ResolversParentTypes['Discussion']
+> = {
+    activeLockReason: Resolver<Maybe<ResolversTypes['LockReason']>, ParentType, ContextType>
+    answer: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    answerChosenAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    answerChosenBy: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    author: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    authorAssociation: Resolver<ResolversTypes['CommentAuthorAssociation'], ParentType, ContextType>
+    body: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    bodyHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    bodyText: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    category: Resolver<ResolversTypes['DiscussionCategory'], ParentType, ContextType>
+    comments: Resolver<
+        ResolversTypes['DiscussionCommentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionCommentsArgs, never>
+    >
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    createdViaEmail: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    editor: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    includesCreatedEdit: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    labels: Resolver<
+        Maybe<ResolversTypes['LabelConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionLabelsArgs, 'orderBy'>
+    >
+    lastEditedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    locked: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    poll: Resolver<Maybe<ResolversTypes['DiscussionPoll']>, ParentType, ContextType>
+    publishedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    reactionGroups: Resolver<Maybe<Array<ResolversTypes['ReactionGroup']>>, ParentType, ContextType>
+    reactions: Resolver<
+        ResolversTypes['ReactionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionReactionsArgs, never>
+    >
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    upvoteCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    userContentEdits: Resolver<
+        Maybe<ResolversTypes['UserContentEditConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionUserContentEditsArgs, never>
+    >
+    viewerCanDelete: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanReact: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanSubscribe: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanUpdate: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanUpvote: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerDidAuthor: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerHasUpvoted: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerSubscription: Resolver<Maybe<ResolversTypes['SubscriptionState']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCategoryResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionCategory'] = ResolversParentTypes['DiscussionCategory']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    emoji: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    emojiHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isAnswerable: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCategoryConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionCategoryConnection'] = ResolversParentTypes['DiscussionCategoryConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionCategoryEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionCategory']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCategoryEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionCategoryEdge'] = ResolversParentTypes['DiscussionCategoryEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DiscussionCategory']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCommentResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionComment'] = ResolversParentTypes['DiscussionComment']
+> = {
+    author: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    authorAssociation: Resolver<ResolversTypes['CommentAuthorAssociation'], ParentType, ContextType>
+    body: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    bodyHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    bodyText: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    createdViaEmail: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    deletedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    editor: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    includesCreatedEdit: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isAnswer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isMinimized: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    lastEditedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    minimizedReason: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    publishedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    reactionGroups: Resolver<Maybe<Array<ResolversTypes['ReactionGroup']>>, ParentType, ContextType>
+    reactions: Resolver<
+        ResolversTypes['ReactionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionCommentReactionsArgs, never>
+    >
+    replies: Resolver<
+        ResolversTypes['DiscussionCommentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionCommentRepliesArgs, never>
+    >
+    replyTo: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    upvoteCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    userContentEdits: Resolver<
+        Maybe<ResolversTypes['UserContentEditConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionCommentUserContentEditsArgs, never>
+    >
+    viewerCanDelete: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanMarkAsAnswer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanMinimize: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanReact: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanUnmarkAsAnswer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanUpdate: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanUpvote: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCannotUpdateReasons: Resolver<Array<ResolversTypes['CommentCannotUpdateReason']>, ParentType, ContextType>
+    viewerDidAuthor: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerHasUpvoted: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCommentConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionCommentConnection'] = ResolversParentTypes['DiscussionCommentConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionCommentEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionComment']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionCommentEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionCommentEdge'] = ResolversParentTypes['DiscussionCommentEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionConnection'] = ResolversParentTypes['DiscussionConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['Discussion']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionEdge'] = ResolversParentTypes['DiscussionEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionPollResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionPoll'] = ResolversParentTypes['DiscussionPoll']
+> = {
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    options: Resolver<
+        Maybe<ResolversTypes['DiscussionPollOptionConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<DiscussionPollOptionsArgs, 'orderBy'>
+    >
+    question: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    totalVoteCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    viewerCanVote: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerHasVoted: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionPollOptionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionPollOption'] = ResolversParentTypes['DiscussionPollOption']
+> = {
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    option: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    poll: Resolver<Maybe<ResolversTypes['DiscussionPoll']>, ParentType, ContextType>
+    totalVoteCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    viewerHasVoted: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionPollOptionConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionPollOptionConnection'] = ResolversParentTypes['DiscussionPollOptionConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionPollOptionEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['DiscussionPollOption']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DiscussionPollOptionEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DiscussionPollOptionEdge'] = ResolversParentTypes['DiscussionPollOptionEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['DiscussionPollOption']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type DismissPullRequestReviewPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['DismissPullRequestReviewPayload'] = ResolversParentTypes['DismissPullRequestReviewPayload']
@@ -24522,6 +32833,55 @@ export type DismissPullRequestReviewPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type DismissRepositoryVulnerabilityAlertPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DismissRepositoryVulnerabilityAlertPayload'] = ResolversParentTypes['DismissRepositoryVulnerabilityAlertPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    repositoryVulnerabilityAlert: Resolver<Maybe<ResolversTypes['RepositoryVulnerabilityAlert']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type DraftIssueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['DraftIssue'] = ResolversParentTypes['DraftIssue']
+> = {
+    assignees: Resolver<ResolversTypes['UserConnection'], ParentType, ContextType, RequireFields<DraftIssueAssigneesArgs, never>>
+    body: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    bodyHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    bodyText: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectNext'], ParentType, ContextType>
+    projectItem: Resolver<ResolversTypes['ProjectNextItem'], ParentType, ContextType>
+    projectV2Items: Resolver<
+        ResolversTypes['ProjectV2ItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<DraftIssueProjectV2ItemsArgs, never>
+    >
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<DraftIssueProjectsV2Args, never>
+    >
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type EnablePullRequestAutoMergePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['EnablePullRequestAutoMergePayload'] = ResolversParentTypes['EnablePullRequestAutoMergePayload']
+> = {
+    actor: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    pullRequest: Resolver<Maybe<ResolversTypes['PullRequest']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type EnterpriseResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Enterprise'] = ResolversParentTypes['Enterprise']
@@ -24644,11 +33004,9 @@ export type EnterpriseBillingInfoResolvers<
 > = {
     allLicensableUsersCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     assetPacks: Resolver<ResolversTypes['Int'], ParentType, ContextType>
-    availableSeats: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     bandwidthQuota: Resolver<ResolversTypes['Float'], ParentType, ContextType>
     bandwidthUsage: Resolver<ResolversTypes['Float'], ParentType, ContextType>
     bandwidthUsagePercentage: Resolver<ResolversTypes['Int'], ParentType, ContextType>
-    seats: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     storageQuota: Resolver<ResolversTypes['Float'], ParentType, ContextType>
     storageUsage: Resolver<ResolversTypes['Float'], ParentType, ContextType>
     storageUsagePercentage: Resolver<ResolversTypes['Int'], ParentType, ContextType>
@@ -24701,7 +33059,6 @@ export type EnterpriseMemberEdgeResolvers<
     ParentType extends ResolversParentTypes['EnterpriseMemberEdge'] = ResolversParentTypes['EnterpriseMemberEdge']
 > = {
     cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
-    isUnlicensed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     node: Resolver<Maybe<ResolversTypes['EnterpriseMember']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
@@ -24743,7 +33100,6 @@ export type EnterpriseOutsideCollaboratorEdgeResolvers<
     ParentType extends ResolversParentTypes['EnterpriseOutsideCollaboratorEdge'] = ResolversParentTypes['EnterpriseOutsideCollaboratorEdge']
 > = {
     cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
-    isUnlicensed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     node: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
     repositories: Resolver<
         ResolversTypes['EnterpriseRepositoryInfoConnection'],
@@ -24793,6 +33149,12 @@ export type EnterpriseOwnerInfoResolvers<
         ContextType,
         RequireFields<EnterpriseOwnerInfoDefaultRepositoryPermissionSettingOrganizationsArgs, 'value' | 'orderBy'>
     >
+    domains: Resolver<
+        ResolversTypes['VerifiableDomainConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<EnterpriseOwnerInfoDomainsArgs, 'isVerified' | 'isApproved' | 'orderBy'>
+    >
     enterpriseServerInstallations: Resolver<
         ResolversTypes['EnterpriseServerInstallationConnection'],
         ParentType,
@@ -24806,6 +33168,11 @@ export type EnterpriseOwnerInfoResolvers<
         ContextType,
         RequireFields<EnterpriseOwnerInfoIpAllowListEntriesArgs, 'orderBy'>
     >
+    ipAllowListForInstalledAppsEnabledSetting: Resolver<
+        ResolversTypes['IpAllowListForInstalledAppsEnabledSettingValue'],
+        ParentType,
+        ContextType
+    >
     isUpdatingDefaultRepositoryPermission: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isUpdatingTwoFactorRequirement: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     membersCanChangeRepositoryVisibilitySetting: Resolver<
@@ -24889,6 +33256,12 @@ export type EnterpriseOwnerInfoResolvers<
         ContextType,
         RequireFields<EnterpriseOwnerInfoMembersCanViewDependencyInsightsSettingOrganizationsArgs, 'value' | 'orderBy'>
     >
+    notificationDeliveryRestrictionEnabledSetting: Resolver<
+        ResolversTypes['NotificationRestrictionSettingValue'],
+        ParentType,
+        ContextType
+    >
+    oidcProvider: Resolver<Maybe<ResolversTypes['OIDCProvider']>, ParentType, ContextType>
     organizationProjectsSetting: Resolver<ResolversTypes['EnterpriseEnabledDisabledSettingValue'], ParentType, ContextType>
     organizationProjectsSettingOrganizations: Resolver<
         ResolversTypes['OrganizationConnection'],
@@ -24900,7 +33273,7 @@ export type EnterpriseOwnerInfoResolvers<
         ResolversTypes['EnterpriseOutsideCollaboratorConnection'],
         ParentType,
         ContextType,
-        RequireFields<EnterpriseOwnerInfoOutsideCollaboratorsArgs, 'orderBy'>
+        RequireFields<EnterpriseOwnerInfoOutsideCollaboratorsArgs, 'orderBy' | 'hasTwoFactorEnabled'>
     >
     pendingAdminInvitations: Resolver<
         ResolversTypes['EnterpriseAdministratorInvitationConnection'],
@@ -24914,12 +33287,6 @@ export type EnterpriseOwnerInfoResolvers<
         ContextType,
         RequireFields<EnterpriseOwnerInfoPendingCollaboratorInvitationsArgs, 'orderBy'>
     >
-    pendingCollaborators: Resolver<
-        ResolversTypes['EnterprisePendingCollaboratorConnection'],
-        ParentType,
-        ContextType,
-        RequireFields<EnterpriseOwnerInfoPendingCollaboratorsArgs, 'orderBy'>
-    >
     pendingMemberInvitations: Resolver<
         ResolversTypes['EnterprisePendingMemberInvitationConnection'],
         ParentType,
@@ -24963,33 +33330,6 @@ export type EnterpriseOwnerInfoResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
-export type EnterprisePendingCollaboratorConnectionResolvers<
-    ContextType = any,
-    ParentType extends ResolversParentTypes['EnterprisePendingCollaboratorConnection'] = ResolversParentTypes['EnterprisePendingCollaboratorConnection']
-> = {
-    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['EnterprisePendingCollaboratorEdge']>>>, ParentType, ContextType>
-    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['User']>>>, ParentType, ContextType>
-    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
-    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
-    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
-}
-
-export type EnterprisePendingCollaboratorEdgeResolvers<
-    ContextType = any,
-    ParentType extends ResolversParentTypes['EnterprisePendingCollaboratorEdge'] = ResolversParentTypes['EnterprisePendingCollaboratorEdge']
-> = {
-    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
-    isUnlicensed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
-    node: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
-    repositories: Resolver<
-        ResolversTypes['EnterpriseRepositoryInfoConnection'],
-        ParentType,
-        ContextType,
-        RequireFields<EnterprisePendingCollaboratorEdgeRepositoriesArgs, 'orderBy'>
-    >
-    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
-}
-
 export type EnterprisePendingMemberInvitationConnectionResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['EnterprisePendingMemberInvitationConnection'] = ResolversParentTypes['EnterprisePendingMemberInvitationConnection']
@@ -25007,7 +33347,6 @@ export type EnterprisePendingMemberInvitationEdgeResolvers<
     ParentType extends ResolversParentTypes['EnterprisePendingMemberInvitationEdge'] = ResolversParentTypes['EnterprisePendingMemberInvitationEdge']
 > = {
     cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
-    isUnlicensed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     node: Resolver<Maybe<ResolversTypes['OrganizationInvitation']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
@@ -25240,6 +33579,42 @@ export type EnterpriseUserAccountEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type EnvironmentResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Environment'] = ResolversParentTypes['Environment']
+> = {
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    protectionRules: Resolver<
+        ResolversTypes['DeploymentProtectionRuleConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<EnvironmentProtectionRulesArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type EnvironmentConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['EnvironmentConnection'] = ResolversParentTypes['EnvironmentConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['EnvironmentEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['Environment']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type EnvironmentEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['EnvironmentEdge'] = ResolversParentTypes['EnvironmentEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['Environment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ExternalIdentityResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ExternalIdentity'] = ResolversParentTypes['ExternalIdentity']
@@ -25253,6 +33628,16 @@ export type ExternalIdentityResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ExternalIdentityAttributeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ExternalIdentityAttribute'] = ResolversParentTypes['ExternalIdentityAttribute']
+> = {
+    metadata: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    value: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ExternalIdentityConnectionResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ExternalIdentityConnection'] = ResolversParentTypes['ExternalIdentityConnection']
@@ -25277,6 +33662,7 @@ export type ExternalIdentitySamlAttributesResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ExternalIdentitySamlAttributes'] = ResolversParentTypes['ExternalIdentitySamlAttributes']
 > = {
+    attributes: Resolver<Array<ResolversTypes['ExternalIdentityAttribute']>, ParentType, ContextType>
     emails: Resolver<Maybe<Array<ResolversTypes['UserEmailMetadata']>>, ParentType, ContextType>
     familyName: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     givenName: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
@@ -25298,6 +33684,15 @@ export type ExternalIdentityScimAttributesResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type FollowOrganizationPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['FollowOrganizationPayload'] = ResolversParentTypes['FollowOrganizationPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    organization: Resolver<Maybe<ResolversTypes['Organization']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type FollowUserPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['FollowUserPayload'] = ResolversParentTypes['FollowUserPayload']
@@ -25563,6 +33958,29 @@ export type GpgSignatureResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type GrantEnterpriseOrganizationsMigratorRolePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['GrantEnterpriseOrganizationsMigratorRolePayload'] = ResolversParentTypes['GrantEnterpriseOrganizationsMigratorRolePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    organizations: Resolver<
+        Maybe<ResolversTypes['OrganizationConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<GrantEnterpriseOrganizationsMigratorRolePayloadOrganizationsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type GrantMigratorRolePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['GrantMigratorRolePayload'] = ResolversParentTypes['GrantMigratorRolePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    success: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export interface HtmlScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['HTML'], any> {
     name: 'HTML'
 }
@@ -25677,7 +34095,7 @@ export type IpAllowListOwnerResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['IpAllowListOwner'] = ResolversParentTypes['IpAllowListOwner']
 > = {
-    __resolveType: TypeResolveFn<'Enterprise' | 'Organization', ParentType, ContextType>
+    __resolveType: TypeResolveFn<'App' | 'Enterprise' | 'Organization', ParentType, ContextType>
 }
 
 export type IssueResolvers<
@@ -25708,6 +34126,7 @@ export type IssueResolvers<
     >
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     includesCreatedEdit: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isPinned: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
     isReadByViewer: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
     labels: Resolver<Maybe<ResolversTypes['LabelConnection']>, ParentType, ContextType, RequireFields<IssueLabelsArgs, 'orderBy'>>
     lastEditedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
@@ -25721,12 +34140,44 @@ export type IssueResolvers<
         ContextType,
         RequireFields<IssueProjectCardsArgs, 'archivedStates'>
     >
+    projectItems: Resolver<
+        ResolversTypes['ProjectV2ItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueProjectItemsArgs, 'includeArchived'>
+    >
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<IssueProjectNextArgs, 'number'>
+    >
+    projectNextItems: Resolver<
+        ResolversTypes['ProjectNextItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueProjectNextItemsArgs, 'includeArchived'>
+    >
+    projectV2: Resolver<Maybe<ResolversTypes['ProjectV2']>, ParentType, ContextType, RequireFields<IssueProjectV2Args, 'number'>>
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueProjectsNextArgs, 'sortBy'>
+    >
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueProjectsV2Args, 'orderBy'>
+    >
     publishedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     reactionGroups: Resolver<Maybe<Array<ResolversTypes['ReactionGroup']>>, ParentType, ContextType>
     reactions: Resolver<ResolversTypes['ReactionConnection'], ParentType, ContextType, RequireFields<IssueReactionsArgs, never>>
     repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     state: Resolver<ResolversTypes['IssueState'], ParentType, ContextType>
+    stateReason: Resolver<Maybe<ResolversTypes['IssueStateReason']>, ParentType, ContextType>
     timeline: Resolver<
         ResolversTypes['IssueTimelineConnection'],
         ParentType,
@@ -25740,6 +34191,25 @@ export type IssueResolvers<
         RequireFields<IssueTimelineItemsArgs, never>
     >
     title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    titleHTML: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    trackedInIssues: Resolver<
+        ResolversTypes['IssueConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueTrackedInIssuesArgs, never>
+    >
+    trackedIssues: Resolver<
+        ResolversTypes['IssueConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueTrackedIssuesArgs, never>
+    >
+    trackedIssuesCount: Resolver<
+        ResolversTypes['Int'],
+        ParentType,
+        ContextType,
+        RequireFields<IssueTrackedIssuesCountArgs, never>
+    >
     updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     userContentEdits: Resolver<
@@ -25936,6 +34406,7 @@ export type IssueTimelineItemsResolvers<
         | 'CommentDeletedEvent'
         | 'ConnectedEvent'
         | 'ConvertedNoteToIssueEvent'
+        | 'ConvertedToDiscussionEvent'
         | 'CrossReferencedEvent'
         | 'DemilestonedEvent'
         | 'DisconnectedEvent'
@@ -26048,7 +34519,7 @@ export type LabelableResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Labelable'] = ResolversParentTypes['Labelable']
 > = {
-    __resolveType: TypeResolveFn<'Issue' | 'PullRequest', ParentType, ContextType>
+    __resolveType: TypeResolveFn<'Discussion' | 'Issue' | 'PullRequest', ParentType, ContextType>
     labels: Resolver<
         Maybe<ResolversTypes['LabelConnection']>,
         ParentType,
@@ -26157,7 +34628,7 @@ export type LockableResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Lockable'] = ResolversParentTypes['Lockable']
 > = {
-    __resolveType: TypeResolveFn<'Issue' | 'PullRequest', ParentType, ContextType>
+    __resolveType: TypeResolveFn<'Discussion' | 'Issue' | 'PullRequest', ParentType, ContextType>
     activeLockReason: Resolver<Maybe<ResolversTypes['LockReason']>, ParentType, ContextType>
     locked: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
 }
@@ -26179,6 +34650,7 @@ export type MannequinResolvers<
     ParentType extends ResolversParentTypes['Mannequin'] = ResolversParentTypes['Mannequin']
 > = {
     avatarUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType, RequireFields<MannequinAvatarUrlArgs, never>>
+    claimant: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     email: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
@@ -26190,6 +34662,15 @@ export type MannequinResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type MarkDiscussionCommentAsAnswerPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['MarkDiscussionCommentAsAnswerPayload'] = ResolversParentTypes['MarkDiscussionCommentAsAnswerPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type MarkFileAsViewedPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['MarkFileAsViewedPayload'] = ResolversParentTypes['MarkFileAsViewedPayload']
@@ -26463,6 +34944,33 @@ export type MergedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type MigrationResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Migration'] = ResolversParentTypes['Migration']
+> = {
+    __resolveType: TypeResolveFn<'RepositoryMigration', ParentType, ContextType>
+    continueOnError: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    failureReason: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    migrationLogUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
+    migrationSource: Resolver<ResolversTypes['MigrationSource'], ParentType, ContextType>
+    repositoryName: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    sourceUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    state: Resolver<ResolversTypes['MigrationState'], ParentType, ContextType>
+}
+
+export type MigrationSourceResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['MigrationSource'] = ResolversParentTypes['MigrationSource']
+> = {
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    type: Resolver<ResolversTypes['MigrationSourceType'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type MilestoneResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Milestone'] = ResolversParentTypes['Milestone']
@@ -26536,7 +35044,7 @@ export type MinimizableResolvers<
     ParentType extends ResolversParentTypes['Minimizable'] = ResolversParentTypes['Minimizable']
 > = {
     __resolveType: TypeResolveFn<
-        'CommitComment' | 'GistComment' | 'IssueComment' | 'PullRequestReviewComment',
+        'CommitComment' | 'DiscussionComment' | 'GistComment' | 'IssueComment' | 'PullRequestReviewComment',
         ParentType,
         ContextType
     >
@@ -26587,6 +35095,12 @@ export type MutationResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Mutation'] = ResolversParentTypes['Mutation']
 > = {
+    abortQueuedMigrations: Resolver<
+        Maybe<ResolversTypes['AbortQueuedMigrationsPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAbortQueuedMigrationsArgs, 'input'>
+    >
     acceptEnterpriseAdministratorInvitation: Resolver<
         Maybe<ResolversTypes['AcceptEnterpriseAdministratorInvitationPayload']>,
         ParentType,
@@ -26611,6 +35125,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationAddCommentArgs, 'input'>
     >
+    addDiscussionComment: Resolver<
+        Maybe<ResolversTypes['AddDiscussionCommentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddDiscussionCommentArgs, 'input'>
+    >
+    addDiscussionPollVote: Resolver<
+        Maybe<ResolversTypes['AddDiscussionPollVotePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddDiscussionPollVoteArgs, 'input'>
+    >
     addEnterpriseSupportEntitlement: Resolver<
         Maybe<ResolversTypes['AddEnterpriseSupportEntitlementPayload']>,
         ParentType,
@@ -26635,6 +35161,30 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationAddProjectColumnArgs, 'input'>
     >
+    addProjectDraftIssue: Resolver<
+        Maybe<ResolversTypes['AddProjectDraftIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddProjectDraftIssueArgs, 'input'>
+    >
+    addProjectNextItem: Resolver<
+        Maybe<ResolversTypes['AddProjectNextItemPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddProjectNextItemArgs, 'input'>
+    >
+    addProjectV2DraftIssue: Resolver<
+        Maybe<ResolversTypes['AddProjectV2DraftIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddProjectV2DraftIssueArgs, 'input'>
+    >
+    addProjectV2ItemById: Resolver<
+        Maybe<ResolversTypes['AddProjectV2ItemByIdPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddProjectV2ItemByIdArgs, 'input'>
+    >
     addPullRequestReview: Resolver<
         Maybe<ResolversTypes['AddPullRequestReviewPayload']>,
         ParentType,
@@ -26665,6 +35215,30 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationAddStarArgs, 'input'>
     >
+    addUpvote: Resolver<
+        Maybe<ResolversTypes['AddUpvotePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddUpvoteArgs, 'input'>
+    >
+    addVerifiableDomain: Resolver<
+        Maybe<ResolversTypes['AddVerifiableDomainPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationAddVerifiableDomainArgs, 'input'>
+    >
+    approveDeployments: Resolver<
+        Maybe<ResolversTypes['ApproveDeploymentsPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationApproveDeploymentsArgs, 'input'>
+    >
+    approveVerifiableDomain: Resolver<
+        Maybe<ResolversTypes['ApproveVerifiableDomainPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationApproveVerifiableDomainArgs, 'input'>
+    >
     archiveRepository: Resolver<
         Maybe<ResolversTypes['ArchiveRepositoryPayload']>,
         ParentType,
@@ -26677,6 +35251,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationCancelEnterpriseAdminInvitationArgs, 'input'>
     >
+    cancelSponsorship: Resolver<
+        Maybe<ResolversTypes['CancelSponsorshipPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCancelSponsorshipArgs, 'input'>
+    >
     changeUserStatus: Resolver<
         Maybe<ResolversTypes['ChangeUserStatusPayload']>,
         ParentType,
@@ -26719,6 +35299,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationConvertProjectCardNoteToIssueArgs, 'input'>
     >
+    convertPullRequestToDraft: Resolver<
+        Maybe<ResolversTypes['ConvertPullRequestToDraftPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationConvertPullRequestToDraftArgs, 'input'>
+    >
     createBranchProtectionRule: Resolver<
         Maybe<ResolversTypes['CreateBranchProtectionRulePayload']>,
         ParentType,
@@ -26737,12 +35323,30 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationCreateCheckSuiteArgs, 'input'>
     >
+    createCommitOnBranch: Resolver<
+        Maybe<ResolversTypes['CreateCommitOnBranchPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateCommitOnBranchArgs, 'input'>
+    >
+    createDiscussion: Resolver<
+        Maybe<ResolversTypes['CreateDiscussionPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateDiscussionArgs, 'input'>
+    >
     createEnterpriseOrganization: Resolver<
         Maybe<ResolversTypes['CreateEnterpriseOrganizationPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationCreateEnterpriseOrganizationArgs, 'input'>
     >
+    createEnvironment: Resolver<
+        Maybe<ResolversTypes['CreateEnvironmentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateEnvironmentArgs, 'input'>
+    >
     createIpAllowListEntry: Resolver<
         Maybe<ResolversTypes['CreateIpAllowListEntryPayload']>,
         ParentType,
@@ -26755,12 +35359,24 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationCreateIssueArgs, 'input'>
     >
+    createMigrationSource: Resolver<
+        Maybe<ResolversTypes['CreateMigrationSourcePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateMigrationSourceArgs, 'input'>
+    >
     createProject: Resolver<
         Maybe<ResolversTypes['CreateProjectPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationCreateProjectArgs, 'input'>
     >
+    createProjectV2: Resolver<
+        Maybe<ResolversTypes['CreateProjectV2Payload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateProjectV2Args, 'input'>
+    >
     createPullRequest: Resolver<
         Maybe<ResolversTypes['CreatePullRequestPayload']>,
         ParentType,
@@ -26779,6 +35395,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationCreateRepositoryArgs, 'input'>
     >
+    createSponsorsTier: Resolver<
+        Maybe<ResolversTypes['CreateSponsorsTierPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateSponsorsTierArgs, 'input'>
+    >
+    createSponsorship: Resolver<
+        Maybe<ResolversTypes['CreateSponsorshipPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationCreateSponsorshipArgs, 'input'>
+    >
     createTeamDiscussion: Resolver<
         Maybe<ResolversTypes['CreateTeamDiscussionPayload']>,
         ParentType,
@@ -26809,6 +35437,24 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationDeleteDeploymentArgs, 'input'>
     >
+    deleteDiscussion: Resolver<
+        Maybe<ResolversTypes['DeleteDiscussionPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteDiscussionArgs, 'input'>
+    >
+    deleteDiscussionComment: Resolver<
+        Maybe<ResolversTypes['DeleteDiscussionCommentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteDiscussionCommentArgs, 'input'>
+    >
+    deleteEnvironment: Resolver<
+        Maybe<ResolversTypes['DeleteEnvironmentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteEnvironmentArgs, 'input'>
+    >
     deleteIpAllowListEntry: Resolver<
         Maybe<ResolversTypes['DeleteIpAllowListEntryPayload']>,
         ParentType,
@@ -26845,6 +35491,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationDeleteProjectColumnArgs, 'input'>
     >
+    deleteProjectNextItem: Resolver<
+        Maybe<ResolversTypes['DeleteProjectNextItemPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteProjectNextItemArgs, 'input'>
+    >
+    deleteProjectV2Item: Resolver<
+        Maybe<ResolversTypes['DeleteProjectV2ItemPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteProjectV2ItemArgs, 'input'>
+    >
     deletePullRequestReview: Resolver<
         Maybe<ResolversTypes['DeletePullRequestReviewPayload']>,
         ParentType,
@@ -26875,18 +35533,60 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationDeleteTeamDiscussionCommentArgs, 'input'>
     >
+    deleteVerifiableDomain: Resolver<
+        Maybe<ResolversTypes['DeleteVerifiableDomainPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDeleteVerifiableDomainArgs, 'input'>
+    >
+    disablePullRequestAutoMerge: Resolver<
+        Maybe<ResolversTypes['DisablePullRequestAutoMergePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDisablePullRequestAutoMergeArgs, 'input'>
+    >
     dismissPullRequestReview: Resolver<
         Maybe<ResolversTypes['DismissPullRequestReviewPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationDismissPullRequestReviewArgs, 'input'>
     >
+    dismissRepositoryVulnerabilityAlert: Resolver<
+        Maybe<ResolversTypes['DismissRepositoryVulnerabilityAlertPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationDismissRepositoryVulnerabilityAlertArgs, 'input'>
+    >
+    enablePullRequestAutoMerge: Resolver<
+        Maybe<ResolversTypes['EnablePullRequestAutoMergePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationEnablePullRequestAutoMergeArgs, 'input'>
+    >
+    followOrganization: Resolver<
+        Maybe<ResolversTypes['FollowOrganizationPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationFollowOrganizationArgs, 'input'>
+    >
     followUser: Resolver<
         Maybe<ResolversTypes['FollowUserPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationFollowUserArgs, 'input'>
     >
+    grantEnterpriseOrganizationsMigratorRole: Resolver<
+        Maybe<ResolversTypes['GrantEnterpriseOrganizationsMigratorRolePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationGrantEnterpriseOrganizationsMigratorRoleArgs, 'input'>
+    >
+    grantMigratorRole: Resolver<
+        Maybe<ResolversTypes['GrantMigratorRolePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationGrantMigratorRoleArgs, 'input'>
+    >
     inviteEnterpriseAdmin: Resolver<
         Maybe<ResolversTypes['InviteEnterpriseAdminPayload']>,
         ParentType,
@@ -26905,6 +35605,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationLockLockableArgs, 'input'>
     >
+    markDiscussionCommentAsAnswer: Resolver<
+        Maybe<ResolversTypes['MarkDiscussionCommentAsAnswerPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationMarkDiscussionCommentAsAnswerArgs, 'input'>
+    >
     markFileAsViewed: Resolver<
         Maybe<ResolversTypes['MarkFileAsViewedPayload']>,
         ParentType,
@@ -26947,12 +35653,30 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationMoveProjectColumnArgs, 'input'>
     >
+    pinIssue: Resolver<
+        Maybe<ResolversTypes['PinIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationPinIssueArgs, 'input'>
+    >
     regenerateEnterpriseIdentityProviderRecoveryCodes: Resolver<
         Maybe<ResolversTypes['RegenerateEnterpriseIdentityProviderRecoveryCodesPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationRegenerateEnterpriseIdentityProviderRecoveryCodesArgs, 'input'>
     >
+    regenerateVerifiableDomainToken: Resolver<
+        Maybe<ResolversTypes['RegenerateVerifiableDomainTokenPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationRegenerateVerifiableDomainTokenArgs, 'input'>
+    >
+    rejectDeployments: Resolver<
+        Maybe<ResolversTypes['RejectDeploymentsPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationRejectDeploymentsArgs, 'input'>
+    >
     removeAssigneesFromAssignable: Resolver<
         Maybe<ResolversTypes['RemoveAssigneesFromAssignablePayload']>,
         ParentType,
@@ -27007,6 +35731,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationRemoveStarArgs, 'input'>
     >
+    removeUpvote: Resolver<
+        Maybe<ResolversTypes['RemoveUpvotePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationRemoveUpvoteArgs, 'input'>
+    >
     reopenIssue: Resolver<
         Maybe<ResolversTypes['ReopenIssuePayload']>,
         ParentType,
@@ -27037,6 +35767,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationResolveReviewThreadArgs, 'input'>
     >
+    revokeEnterpriseOrganizationsMigratorRole: Resolver<
+        Maybe<ResolversTypes['RevokeEnterpriseOrganizationsMigratorRolePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationRevokeEnterpriseOrganizationsMigratorRoleArgs, 'input'>
+    >
+    revokeMigratorRole: Resolver<
+        Maybe<ResolversTypes['RevokeMigratorRolePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationRevokeMigratorRoleArgs, 'input'>
+    >
     setEnterpriseIdentityProvider: Resolver<
         Maybe<ResolversTypes['SetEnterpriseIdentityProviderPayload']>,
         ParentType,
@@ -27061,6 +35803,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationSetUserInteractionLimitArgs, 'input'>
     >
+    startRepositoryMigration: Resolver<
+        Maybe<ResolversTypes['StartRepositoryMigrationPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationStartRepositoryMigrationArgs, 'input'>
+    >
     submitPullRequestReview: Resolver<
         Maybe<ResolversTypes['SubmitPullRequestReviewPayload']>,
         ParentType,
@@ -27079,6 +35827,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUnarchiveRepositoryArgs, 'input'>
     >
+    unfollowOrganization: Resolver<
+        Maybe<ResolversTypes['UnfollowOrganizationPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUnfollowOrganizationArgs, 'input'>
+    >
     unfollowUser: Resolver<
         Maybe<ResolversTypes['UnfollowUserPayload']>,
         ParentType,
@@ -27097,6 +35851,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUnlockLockableArgs, 'input'>
     >
+    unmarkDiscussionCommentAsAnswer: Resolver<
+        Maybe<ResolversTypes['UnmarkDiscussionCommentAsAnswerPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUnmarkDiscussionCommentAsAnswerArgs, 'input'>
+    >
     unmarkFileAsViewed: Resolver<
         Maybe<ResolversTypes['UnmarkFileAsViewedPayload']>,
         ParentType,
@@ -27115,6 +35875,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUnminimizeCommentArgs, 'input'>
     >
+    unpinIssue: Resolver<
+        Maybe<ResolversTypes['UnpinIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUnpinIssueArgs, 'input'>
+    >
     unresolveReviewThread: Resolver<
         Maybe<ResolversTypes['UnresolveReviewThreadPayload']>,
         ParentType,
@@ -27139,6 +35905,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateCheckSuitePreferencesArgs, 'input'>
     >
+    updateDiscussion: Resolver<
+        Maybe<ResolversTypes['UpdateDiscussionPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateDiscussionArgs, 'input'>
+    >
+    updateDiscussionComment: Resolver<
+        Maybe<ResolversTypes['UpdateDiscussionCommentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateDiscussionCommentArgs, 'input'>
+    >
     updateEnterpriseAdministratorRole: Resolver<
         Maybe<ResolversTypes['UpdateEnterpriseAdministratorRolePayload']>,
         ParentType,
@@ -27211,6 +35989,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateEnterpriseOrganizationProjectsSettingArgs, 'input'>
     >
+    updateEnterpriseOwnerOrganizationRole: Resolver<
+        Maybe<ResolversTypes['UpdateEnterpriseOwnerOrganizationRolePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateEnterpriseOwnerOrganizationRoleArgs, 'input'>
+    >
     updateEnterpriseProfile: Resolver<
         Maybe<ResolversTypes['UpdateEnterpriseProfilePayload']>,
         ParentType,
@@ -27235,6 +36019,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateEnterpriseTwoFactorAuthenticationRequiredSettingArgs, 'input'>
     >
+    updateEnvironment: Resolver<
+        Maybe<ResolversTypes['UpdateEnvironmentPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateEnvironmentArgs, 'input'>
+    >
     updateIpAllowListEnabledSetting: Resolver<
         Maybe<ResolversTypes['UpdateIpAllowListEnabledSettingPayload']>,
         ParentType,
@@ -27247,6 +36037,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateIpAllowListEntryArgs, 'input'>
     >
+    updateIpAllowListForInstalledAppsEnabledSetting: Resolver<
+        Maybe<ResolversTypes['UpdateIpAllowListForInstalledAppsEnabledSettingPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateIpAllowListForInstalledAppsEnabledSettingArgs, 'input'>
+    >
     updateIssue: Resolver<
         Maybe<ResolversTypes['UpdateIssuePayload']>,
         ParentType,
@@ -27259,6 +36055,18 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateIssueCommentArgs, 'input'>
     >
+    updateNotificationRestrictionSetting: Resolver<
+        Maybe<ResolversTypes['UpdateNotificationRestrictionSettingPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateNotificationRestrictionSettingArgs, 'input'>
+    >
+    updateOrganizationAllowPrivateRepositoryForkingSetting: Resolver<
+        Maybe<ResolversTypes['UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateOrganizationAllowPrivateRepositoryForkingSettingArgs, 'input'>
+    >
     updateProject: Resolver<
         Maybe<ResolversTypes['UpdateProjectPayload']>,
         ParentType,
@@ -27277,12 +36085,60 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateProjectColumnArgs, 'input'>
     >
+    updateProjectDraftIssue: Resolver<
+        Maybe<ResolversTypes['UpdateProjectDraftIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectDraftIssueArgs, 'input'>
+    >
+    updateProjectNext: Resolver<
+        Maybe<ResolversTypes['UpdateProjectNextPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectNextArgs, 'input'>
+    >
+    updateProjectNextItemField: Resolver<
+        Maybe<ResolversTypes['UpdateProjectNextItemFieldPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectNextItemFieldArgs, 'input'>
+    >
+    updateProjectV2: Resolver<
+        Maybe<ResolversTypes['UpdateProjectV2Payload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectV2Args, 'input'>
+    >
+    updateProjectV2DraftIssue: Resolver<
+        Maybe<ResolversTypes['UpdateProjectV2DraftIssuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectV2DraftIssueArgs, 'input'>
+    >
+    updateProjectV2ItemFieldValue: Resolver<
+        Maybe<ResolversTypes['UpdateProjectV2ItemFieldValuePayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectV2ItemFieldValueArgs, 'input'>
+    >
+    updateProjectV2ItemPosition: Resolver<
+        Maybe<ResolversTypes['UpdateProjectV2ItemPositionPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateProjectV2ItemPositionArgs, 'input'>
+    >
     updatePullRequest: Resolver<
         Maybe<ResolversTypes['UpdatePullRequestPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationUpdatePullRequestArgs, 'input'>
     >
+    updatePullRequestBranch: Resolver<
+        Maybe<ResolversTypes['UpdatePullRequestBranchPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdatePullRequestBranchArgs, 'input'>
+    >
     updatePullRequestReview: Resolver<
         Maybe<ResolversTypes['UpdatePullRequestReviewPayload']>,
         ParentType,
@@ -27307,6 +36163,12 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateRepositoryArgs, 'input'>
     >
+    updateSponsorshipPreferences: Resolver<
+        Maybe<ResolversTypes['UpdateSponsorshipPreferencesPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateSponsorshipPreferencesArgs, 'input'>
+    >
     updateSubscription: Resolver<
         Maybe<ResolversTypes['UpdateSubscriptionPayload']>,
         ParentType,
@@ -27325,12 +36187,24 @@ export type MutationResolvers<
         ContextType,
         RequireFields<MutationUpdateTeamDiscussionCommentArgs, 'input'>
     >
+    updateTeamsRepository: Resolver<
+        Maybe<ResolversTypes['UpdateTeamsRepositoryPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationUpdateTeamsRepositoryArgs, 'input'>
+    >
     updateTopics: Resolver<
         Maybe<ResolversTypes['UpdateTopicsPayload']>,
         ParentType,
         ContextType,
         RequireFields<MutationUpdateTopicsArgs, 'input'>
     >
+    verifyVerifiableDomain: Resolver<
+        Maybe<ResolversTypes['VerifyVerifiableDomainPayload']>,
+        ParentType,
+        ContextType,
+        RequireFields<MutationVerifyVerifiableDomainArgs, 'input'>
+    >
 }
 
 export type NodeResolvers<ContextType = any, ParentType extends ResolversParentTypes['Node'] = ResolversParentTypes['Node']> = {
@@ -27350,6 +36224,9 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'Blob'
         | 'Bot'
         | 'BranchProtectionRule'
+        | 'BypassForcePushAllowance'
+        | 'BypassPullRequestAllowance'
+        | 'CWE'
         | 'CheckRun'
         | 'CheckSuite'
         | 'ClosedEvent'
@@ -27361,14 +36238,22 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'ConnectedEvent'
         | 'ConvertToDraftEvent'
         | 'ConvertedNoteToIssueEvent'
+        | 'ConvertedToDiscussionEvent'
         | 'CrossReferencedEvent'
         | 'DemilestonedEvent'
         | 'DeployKey'
         | 'DeployedEvent'
         | 'Deployment'
         | 'DeploymentEnvironmentChangedEvent'
+        | 'DeploymentReview'
         | 'DeploymentStatus'
         | 'DisconnectedEvent'
+        | 'Discussion'
+        | 'DiscussionCategory'
+        | 'DiscussionComment'
+        | 'DiscussionPoll'
+        | 'DiscussionPollOption'
+        | 'DraftIssue'
         | 'Enterprise'
         | 'EnterpriseAdministratorInvitation'
         | 'EnterpriseIdentityProvider'
@@ -27378,6 +36263,7 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'EnterpriseServerUserAccountEmail'
         | 'EnterpriseServerUserAccountsUpload'
         | 'EnterpriseUserAccount'
+        | 'Environment'
         | 'ExternalIdentity'
         | 'Gist'
         | 'GistComment'
@@ -27401,9 +36287,11 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'MembersCanDeleteReposEnableAuditEntry'
         | 'MentionedEvent'
         | 'MergedEvent'
+        | 'MigrationSource'
         | 'Milestone'
         | 'MilestonedEvent'
         | 'MovedColumnsInProjectEvent'
+        | 'OIDCProvider'
         | 'OauthApplicationCreateAuditEntry'
         | 'OrgAddBillingManagerAuditEntry'
         | 'OrgAddMemberAuditEntry'
@@ -27438,12 +36326,30 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'PackageFile'
         | 'PackageTag'
         | 'PackageVersion'
+        | 'PinnedDiscussion'
         | 'PinnedEvent'
+        | 'PinnedIssue'
         | 'PrivateRepositoryForkingDisableAuditEntry'
         | 'PrivateRepositoryForkingEnableAuditEntry'
         | 'Project'
         | 'ProjectCard'
         | 'ProjectColumn'
+        | 'ProjectNext'
+        | 'ProjectNextField'
+        | 'ProjectNextItem'
+        | 'ProjectNextItemFieldValue'
+        | 'ProjectV2'
+        | 'ProjectV2Field'
+        | 'ProjectV2Item'
+        | 'ProjectV2ItemFieldDateValue'
+        | 'ProjectV2ItemFieldIterationValue'
+        | 'ProjectV2ItemFieldNumberValue'
+        | 'ProjectV2ItemFieldSingleSelectValue'
+        | 'ProjectV2ItemFieldTextValue'
+        | 'ProjectV2IterationField'
+        | 'ProjectV2SingleSelectField'
+        | 'ProjectV2View'
+        | 'ProjectView'
         | 'PublicKey'
         | 'PullRequest'
         | 'PullRequestCommit'
@@ -27483,6 +36389,7 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'RepoRemoveTopicAuditEntry'
         | 'Repository'
         | 'RepositoryInvitation'
+        | 'RepositoryMigration'
         | 'RepositoryTopic'
         | 'RepositoryVisibilityChangeDisableAuditEntry'
         | 'RepositoryVisibilityChangeEnableAuditEntry'
@@ -27494,9 +36401,11 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'ReviewRequestedEvent'
         | 'SavedReply'
         | 'SecurityAdvisory'
+        | 'SponsorsActivity'
         | 'SponsorsListing'
         | 'SponsorsTier'
         | 'Sponsorship'
+        | 'SponsorshipNewsletter'
         | 'Status'
         | 'StatusCheckRollup'
         | 'StatusContext'
@@ -27522,13 +36431,33 @@ export type NodeResolvers<ContextType = any, ParentType extends ResolversParentT
         | 'User'
         | 'UserBlockedEvent'
         | 'UserContentEdit'
-        | 'UserStatus',
+        | 'UserStatus'
+        | 'VerifiableDomain'
+        | 'Workflow'
+        | 'WorkflowRun',
         ParentType,
         ContextType
     >
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
 }
 
+export type OidcProviderResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['OIDCProvider'] = ResolversParentTypes['OIDCProvider']
+> = {
+    enterprise: Resolver<Maybe<ResolversTypes['Enterprise']>, ParentType, ContextType>
+    externalIdentities: Resolver<
+        ResolversTypes['ExternalIdentityConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OidcProviderExternalIdentitiesArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    providerType: Resolver<ResolversTypes['OIDCProviderType'], ParentType, ContextType>
+    tenantId: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type OauthApplicationAuditEntryDataResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['OauthApplicationAuditEntryData'] = ResolversParentTypes['OauthApplicationAuditEntryData']
@@ -28363,7 +37292,20 @@ export type OrganizationResolvers<
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     descriptionHTML: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    domains: Resolver<
+        Maybe<ResolversTypes['VerifiableDomainConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationDomainsArgs, 'isVerified' | 'isApproved' | 'orderBy'>
+    >
     email: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    enterpriseOwners: Resolver<
+        ResolversTypes['OrganizationEnterpriseOwnerConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationEnterpriseOwnersArgs, 'orderBy'>
+    >
+    estimatedNextSponsorsPayoutInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     hasSponsorsListing: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     interactionAbility: Resolver<Maybe<ResolversTypes['RepositoryInteractionAbility']>, ParentType, ContextType>
@@ -28374,6 +37316,17 @@ export type OrganizationResolvers<
         ContextType,
         RequireFields<OrganizationIpAllowListEntriesArgs, 'orderBy'>
     >
+    ipAllowListForInstalledAppsEnabledSetting: Resolver<
+        ResolversTypes['IpAllowListForInstalledAppsEnabledSettingValue'],
+        ParentType,
+        ContextType
+    >
+    isSponsoredBy: Resolver<
+        ResolversTypes['Boolean'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationIsSponsoredByArgs, 'accountLogin'>
+    >
     isSponsoringViewer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isVerified: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     itemShowcase: Resolver<ResolversTypes['ProfileItemShowcase'], ParentType, ContextType>
@@ -28385,15 +37338,22 @@ export type OrganizationResolvers<
         ContextType,
         RequireFields<OrganizationMemberStatusesArgs, 'orderBy'>
     >
+    membersCanForkPrivateRepositories: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     membersWithRole: Resolver<
         ResolversTypes['OrganizationMemberConnection'],
         ParentType,
         ContextType,
         RequireFields<OrganizationMembersWithRoleArgs, never>
     >
+    monthlyEstimatedSponsorsIncomeInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     name: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     newTeamResourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     newTeamUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    notificationDeliveryRestrictionEnabledSetting: Resolver<
+        ResolversTypes['NotificationRestrictionSettingValue'],
+        ParentType,
+        ContextType
+    >
     organizationBillingEmail: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     packages: Resolver<
         ResolversTypes['PackageConnection'],
@@ -28421,14 +37381,44 @@ export type OrganizationResolvers<
     >
     pinnedItemsRemaining: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     project: Resolver<Maybe<ResolversTypes['Project']>, ParentType, ContextType, RequireFields<OrganizationProjectArgs, 'number'>>
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationProjectNextArgs, 'number'>
+    >
+    projectV2: Resolver<
+        Maybe<ResolversTypes['ProjectV2']>,
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationProjectV2Args, 'number'>
+    >
     projects: Resolver<
         ResolversTypes['ProjectConnection'],
         ParentType,
         ContextType,
         RequireFields<OrganizationProjectsArgs, never>
     >
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationProjectsNextArgs, 'sortBy'>
+    >
     projectsResourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     projectsUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationProjectsV2Args, 'orderBy'>
+    >
+    recentProjects: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationRecentProjectsArgs, never>
+    >
     repositories: Resolver<
         ResolversTypes['RepositoryConnection'],
         ParentType,
@@ -28439,12 +37429,56 @@ export type OrganizationResolvers<
         Maybe<ResolversTypes['Repository']>,
         ParentType,
         ContextType,
-        RequireFields<OrganizationRepositoryArgs, 'name'>
+        RequireFields<OrganizationRepositoryArgs, 'name' | 'followRenames'>
+    >
+    repositoryDiscussionComments: Resolver<
+        ResolversTypes['DiscussionCommentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationRepositoryDiscussionCommentsArgs, 'onlyAnswers'>
+    >
+    repositoryDiscussions: Resolver<
+        ResolversTypes['DiscussionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationRepositoryDiscussionsArgs, 'orderBy' | 'answered'>
+    >
+    repositoryMigrations: Resolver<
+        ResolversTypes['RepositoryMigrationConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationRepositoryMigrationsArgs, 'orderBy'>
     >
     requiresTwoFactorAuthentication: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     samlIdentityProvider: Resolver<Maybe<ResolversTypes['OrganizationIdentityProvider']>, ParentType, ContextType>
+    sponsoring: Resolver<
+        ResolversTypes['SponsorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationSponsoringArgs, 'orderBy'>
+    >
+    sponsors: Resolver<
+        ResolversTypes['SponsorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationSponsorsArgs, 'orderBy'>
+    >
+    sponsorsActivities: Resolver<
+        ResolversTypes['SponsorsActivityConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationSponsorsActivitiesArgs, 'period' | 'orderBy'>
+    >
     sponsorsListing: Resolver<Maybe<ResolversTypes['SponsorsListing']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsor: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsorable: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipNewsletters: Resolver<
+        ResolversTypes['SponsorshipNewsletterConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<OrganizationSponsorshipNewslettersArgs, 'orderBy'>
+    >
     sponsorshipsAsMaintainer: Resolver<
         ResolversTypes['SponsorshipConnection'],
         ParentType,
@@ -28476,6 +37510,7 @@ export type OrganizationResolvers<
     viewerCanCreateTeams: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanSponsor: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerIsAMember: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerIsFollowing: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerIsSponsoring: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     websiteUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
@@ -28662,6 +37697,27 @@ export type OrganizationEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type OrganizationEnterpriseOwnerConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['OrganizationEnterpriseOwnerConnection'] = ResolversParentTypes['OrganizationEnterpriseOwnerConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['OrganizationEnterpriseOwnerEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['User']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type OrganizationEnterpriseOwnerEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['OrganizationEnterpriseOwnerEdge'] = ResolversParentTypes['OrganizationEnterpriseOwnerEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
+    organizationRole: Resolver<ResolversTypes['RoleInOrganization'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type OrganizationIdentityProviderResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['OrganizationIdentityProvider'] = ResolversParentTypes['OrganizationIdentityProvider']
@@ -28739,6 +37795,13 @@ export type OrganizationMemberEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type OrganizationOrUserResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['OrganizationOrUser'] = ResolversParentTypes['OrganizationOrUser']
+> = {
+    __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
+}
+
 export type OrganizationTeamsHovercardContextResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['OrganizationTeamsHovercardContext'] = ResolversParentTypes['OrganizationTeamsHovercardContext']
@@ -28964,6 +38027,15 @@ export type PermissionSourceResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type PinIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinIssuePayload'] = ResolversParentTypes['PinIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    issue: Resolver<Maybe<ResolversTypes['Issue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type PinnableItemResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['PinnableItem'] = ResolversParentTypes['PinnableItem']
@@ -28991,6 +38063,43 @@ export type PinnableItemEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type PinnedDiscussionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedDiscussion'] = ResolversParentTypes['PinnedDiscussion']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    discussion: Resolver<ResolversTypes['Discussion'], ParentType, ContextType>
+    gradientStopColors: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    pattern: Resolver<ResolversTypes['PinnedDiscussionPattern'], ParentType, ContextType>
+    pinnedBy: Resolver<ResolversTypes['Actor'], ParentType, ContextType>
+    preconfiguredGradient: Resolver<Maybe<ResolversTypes['PinnedDiscussionGradient']>, ParentType, ContextType>
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type PinnedDiscussionConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedDiscussionConnection'] = ResolversParentTypes['PinnedDiscussionConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['PinnedDiscussionEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['PinnedDiscussion']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type PinnedDiscussionEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedDiscussionEdge'] = ResolversParentTypes['PinnedDiscussionEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['PinnedDiscussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type PinnedEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['PinnedEvent'] = ResolversParentTypes['PinnedEvent']
@@ -29002,6 +38111,38 @@ export type PinnedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type PinnedIssueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedIssue'] = ResolversParentTypes['PinnedIssue']
+> = {
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    issue: Resolver<ResolversTypes['Issue'], ParentType, ContextType>
+    pinnedBy: Resolver<ResolversTypes['Actor'], ParentType, ContextType>
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type PinnedIssueConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedIssueConnection'] = ResolversParentTypes['PinnedIssueConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['PinnedIssueEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['PinnedIssue']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type PinnedIssueEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PinnedIssueEdge'] = ResolversParentTypes['PinnedIssueEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['PinnedIssue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export interface PreciseDateTimeScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['PreciseDateTime'], any> {
     name: 'PreciseDateTime'
 }
@@ -29263,6 +38404,223 @@ export type ProjectEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ProjectNextResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNext'] = ResolversParentTypes['ProjectNext']
+> = {
+    closed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    closedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    fields: Resolver<
+        ResolversTypes['ProjectNextFieldConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextFieldsArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    items: Resolver<
+        ResolversTypes['ProjectNextItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextItemsArgs, never>
+    >
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    owner: Resolver<ResolversTypes['ProjectNextOwner'], ParentType, ContextType>
+    public: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    repositories: Resolver<
+        ResolversTypes['RepositoryConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextRepositoriesArgs, never>
+    >
+    resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    shortDescription: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    title: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    viewerCanUpdate: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    views: Resolver<ResolversTypes['ProjectViewConnection'], ParentType, ContextType, RequireFields<ProjectNextViewsArgs, never>>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextConnection'] = ResolversParentTypes['ProjectNextConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNext']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextEdge'] = ResolversParentTypes['ProjectNextEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectNext']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextFieldResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextField'] = ResolversParentTypes['ProjectNextField']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectNextFieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectNext'], ParentType, ContextType>
+    settings: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextFieldCommonResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextFieldCommon'] = ResolversParentTypes['ProjectNextFieldCommon']
+> = {
+    __resolveType: TypeResolveFn<'ProjectNextField', ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectNextFieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectNext'], ParentType, ContextType>
+    settings: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+}
+
+export type ProjectNextFieldConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextFieldConnection'] = ResolversParentTypes['ProjectNextFieldConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextFieldEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextField']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextFieldEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextFieldEdge'] = ResolversParentTypes['ProjectNextFieldEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectNextField']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItem'] = ResolversParentTypes['ProjectNextItem']
+> = {
+    content: Resolver<Maybe<ResolversTypes['ProjectNextItemContent']>, ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    fieldValues: Resolver<
+        ResolversTypes['ProjectNextItemFieldValueConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextItemFieldValuesArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isArchived: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectNext'], ParentType, ContextType>
+    title: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    type: Resolver<ResolversTypes['ProjectItemType'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemConnection'] = ResolversParentTypes['ProjectNextItemConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextItemEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextItem']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemContentResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemContent'] = ResolversParentTypes['ProjectNextItemContent']
+> = {
+    __resolveType: TypeResolveFn<'DraftIssue' | 'Issue' | 'PullRequest', ParentType, ContextType>
+}
+
+export type ProjectNextItemEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemEdge'] = ResolversParentTypes['ProjectNextItemEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectNextItem']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemFieldValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemFieldValue'] = ResolversParentTypes['ProjectNextItemFieldValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    projectField: Resolver<ResolversTypes['ProjectNextField'], ParentType, ContextType>
+    projectItem: Resolver<ResolversTypes['ProjectNextItem'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    value: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemFieldValueConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemFieldValueConnection'] = ResolversParentTypes['ProjectNextItemFieldValueConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextItemFieldValueEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectNextItemFieldValue']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextItemFieldValueEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextItemFieldValueEdge'] = ResolversParentTypes['ProjectNextItemFieldValueEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectNextItemFieldValue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectNextOwnerResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectNextOwner'] = ResolversParentTypes['ProjectNextOwner']
+> = {
+    __resolveType: TypeResolveFn<'Issue' | 'Organization' | 'PullRequest' | 'User', ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextOwnerProjectNextArgs, 'number'>
+    >
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectNextOwnerProjectsNextArgs, 'sortBy'>
+    >
+}
+
 export type ProjectOwnerResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ProjectOwner'] = ResolversParentTypes['ProjectOwner']
@@ -29295,6 +38653,656 @@ export type ProjectProgressResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ProjectV2Resolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2'] = ResolversParentTypes['ProjectV2']
+> = {
+    closed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    closedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    field: Resolver<
+        Maybe<ResolversTypes['ProjectV2FieldConfiguration']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2FieldArgs, 'name'>
+    >
+    fields: Resolver<
+        ResolversTypes['ProjectV2FieldConfigurationConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2FieldsArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    items: Resolver<ResolversTypes['ProjectV2ItemConnection'], ParentType, ContextType, RequireFields<ProjectV2ItemsArgs, never>>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    owner: Resolver<ResolversTypes['ProjectV2Owner'], ParentType, ContextType>
+    public: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    readme: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    repositories: Resolver<
+        ResolversTypes['RepositoryConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2RepositoriesArgs, never>
+    >
+    resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    shortDescription: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    viewerCanUpdate: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    views: Resolver<ResolversTypes['ProjectV2ViewConnection'], ParentType, ContextType, RequireFields<ProjectV2ViewsArgs, never>>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Connection'] = ResolversParentTypes['ProjectV2Connection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2Edge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2EdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Edge'] = ResolversParentTypes['ProjectV2Edge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2FieldResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Field'] = ResolversParentTypes['ProjectV2Field']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectV2FieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2FieldCommonResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldCommon'] = ResolversParentTypes['ProjectV2FieldCommon']
+> = {
+    __resolveType: TypeResolveFn<
+        'ProjectV2Field' | 'ProjectV2IterationField' | 'ProjectV2SingleSelectField',
+        ParentType,
+        ContextType
+    >
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectV2FieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+}
+
+export type ProjectV2FieldConfigurationResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldConfiguration'] = ResolversParentTypes['ProjectV2FieldConfiguration']
+> = {
+    __resolveType: TypeResolveFn<
+        'ProjectV2Field' | 'ProjectV2IterationField' | 'ProjectV2SingleSelectField',
+        ParentType,
+        ContextType
+    >
+}
+
+export type ProjectV2FieldConfigurationConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldConfigurationConnection'] = ResolversParentTypes['ProjectV2FieldConfigurationConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2FieldConfigurationEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2FieldConfiguration']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2FieldConfigurationEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldConfigurationEdge'] = ResolversParentTypes['ProjectV2FieldConfigurationEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2FieldConfiguration']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2FieldConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldConnection'] = ResolversParentTypes['ProjectV2FieldConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2FieldEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2Field']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2FieldEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2FieldEdge'] = ResolversParentTypes['ProjectV2FieldEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2Field']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Item'] = ResolversParentTypes['ProjectV2Item']
+> = {
+    content: Resolver<Maybe<ResolversTypes['ProjectV2ItemContent']>, ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    fieldValues: Resolver<
+        ResolversTypes['ProjectV2ItemFieldValueConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ItemFieldValuesArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isArchived: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    type: Resolver<ResolversTypes['ProjectV2ItemType'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemConnection'] = ResolversParentTypes['ProjectV2ItemConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2ItemEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2Item']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemContentResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemContent'] = ResolversParentTypes['ProjectV2ItemContent']
+> = {
+    __resolveType: TypeResolveFn<'DraftIssue' | 'Issue' | 'PullRequest', ParentType, ContextType>
+}
+
+export type ProjectV2ItemEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemEdge'] = ResolversParentTypes['ProjectV2ItemEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2Item']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldDateValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldDateValue'] = ResolversParentTypes['ProjectV2ItemFieldDateValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    date: Resolver<Maybe<ResolversTypes['Date']>, ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldIterationValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldIterationValue'] = ResolversParentTypes['ProjectV2ItemFieldIterationValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    duration: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    iterationId: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    startDate: Resolver<ResolversTypes['Date'], ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    titleHTML: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldLabelValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldLabelValue'] = ResolversParentTypes['ProjectV2ItemFieldLabelValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    labels: Resolver<
+        Maybe<ResolversTypes['LabelConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ItemFieldLabelValueLabelsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldMilestoneValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldMilestoneValue'] = ResolversParentTypes['ProjectV2ItemFieldMilestoneValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    milestone: Resolver<Maybe<ResolversTypes['Milestone']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldNumberValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldNumberValue'] = ResolversParentTypes['ProjectV2ItemFieldNumberValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    number: Resolver<Maybe<ResolversTypes['Float']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldPullRequestValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldPullRequestValue'] = ResolversParentTypes['ProjectV2ItemFieldPullRequestValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    pullRequests: Resolver<
+        Maybe<ResolversTypes['PullRequestConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ItemFieldPullRequestValuePullRequestsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldRepositoryValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldRepositoryValue'] = ResolversParentTypes['ProjectV2ItemFieldRepositoryValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    repository: Resolver<Maybe<ResolversTypes['Repository']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldReviewerValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldReviewerValue'] = ResolversParentTypes['ProjectV2ItemFieldReviewerValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    reviewers: Resolver<
+        Maybe<ResolversTypes['RequestedReviewerConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ItemFieldReviewerValueReviewersArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldSingleSelectValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldSingleSelectValue'] = ResolversParentTypes['ProjectV2ItemFieldSingleSelectValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    name: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    nameHTML: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    optionId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldTextValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldTextValue'] = ResolversParentTypes['ProjectV2ItemFieldTextValue']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    text: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldUserValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldUserValue'] = ResolversParentTypes['ProjectV2ItemFieldUserValue']
+> = {
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    users: Resolver<
+        Maybe<ResolversTypes['UserConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ItemFieldUserValueUsersArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldValueResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldValue'] = ResolversParentTypes['ProjectV2ItemFieldValue']
+> = {
+    __resolveType: TypeResolveFn<
+        | 'ProjectV2ItemFieldDateValue'
+        | 'ProjectV2ItemFieldIterationValue'
+        | 'ProjectV2ItemFieldLabelValue'
+        | 'ProjectV2ItemFieldMilestoneValue'
+        | 'ProjectV2ItemFieldNumberValue'
+        | 'ProjectV2ItemFieldPullRequestValue'
+        | 'ProjectV2ItemFieldRepositoryValue'
+        | 'ProjectV2ItemFieldReviewerValue'
+        | 'ProjectV2ItemFieldSingleSelectValue'
+        | 'ProjectV2ItemFieldTextValue'
+        | 'ProjectV2ItemFieldUserValue',
+        ParentType,
+        ContextType
+    >
+}
+
+export type ProjectV2ItemFieldValueCommonResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldValueCommon'] = ResolversParentTypes['ProjectV2ItemFieldValueCommon']
+> = {
+    __resolveType: TypeResolveFn<
+        | 'ProjectV2ItemFieldDateValue'
+        | 'ProjectV2ItemFieldIterationValue'
+        | 'ProjectV2ItemFieldNumberValue'
+        | 'ProjectV2ItemFieldSingleSelectValue'
+        | 'ProjectV2ItemFieldTextValue',
+        ParentType,
+        ContextType
+    >
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2FieldConfiguration'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    item: Resolver<ResolversTypes['ProjectV2Item'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldValueConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldValueConnection'] = ResolversParentTypes['ProjectV2ItemFieldValueConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2ItemFieldValueEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2ItemFieldValue']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ItemFieldValueEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ItemFieldValueEdge'] = ResolversParentTypes['ProjectV2ItemFieldValueEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2ItemFieldValue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2IterationFieldResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2IterationField'] = ResolversParentTypes['ProjectV2IterationField']
+> = {
+    configuration: Resolver<ResolversTypes['ProjectV2IterationFieldConfiguration'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectV2FieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2IterationFieldConfigurationResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2IterationFieldConfiguration'] = ResolversParentTypes['ProjectV2IterationFieldConfiguration']
+> = {
+    completedIterations: Resolver<Array<ResolversTypes['ProjectV2IterationFieldIteration']>, ParentType, ContextType>
+    duration: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    iterations: Resolver<Array<ResolversTypes['ProjectV2IterationFieldIteration']>, ParentType, ContextType>
+    startDay: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2IterationFieldIterationResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2IterationFieldIteration'] = ResolversParentTypes['ProjectV2IterationFieldIteration']
+> = {
+    duration: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    startDate: Resolver<ResolversTypes['Date'], ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    titleHTML: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2OwnerResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Owner'] = ResolversParentTypes['ProjectV2Owner']
+> = {
+    __resolveType: TypeResolveFn<'Issue' | 'Organization' | 'PullRequest' | 'User', ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    projectV2: Resolver<
+        Maybe<ResolversTypes['ProjectV2']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2OwnerProjectV2Args, 'number'>
+    >
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2OwnerProjectsV2Args, 'orderBy'>
+    >
+}
+
+export type ProjectV2RecentResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2Recent'] = ResolversParentTypes['ProjectV2Recent']
+> = {
+    __resolveType: TypeResolveFn<'Organization' | 'Repository' | 'User', ParentType, ContextType>
+    recentProjects: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2RecentRecentProjectsArgs, never>
+    >
+}
+
+export type ProjectV2SingleSelectFieldResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2SingleSelectField'] = ResolversParentTypes['ProjectV2SingleSelectField']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dataType: Resolver<ResolversTypes['ProjectV2FieldType'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    options: Resolver<Array<ResolversTypes['ProjectV2SingleSelectFieldOption']>, ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2SingleSelectFieldOptionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2SingleSelectFieldOption'] = ResolversParentTypes['ProjectV2SingleSelectFieldOption']
+> = {
+    id: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    nameHTML: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2SortByResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2SortBy'] = ResolversParentTypes['ProjectV2SortBy']
+> = {
+    direction: Resolver<ResolversTypes['OrderDirection'], ParentType, ContextType>
+    field: Resolver<ResolversTypes['ProjectV2Field'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2SortByConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2SortByConnection'] = ResolversParentTypes['ProjectV2SortByConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2SortByEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2SortBy']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2SortByEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2SortByEdge'] = ResolversParentTypes['ProjectV2SortByEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2SortBy']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ViewResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2View'] = ResolversParentTypes['ProjectV2View']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    filter: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    groupBy: Resolver<
+        Maybe<ResolversTypes['ProjectV2FieldConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ViewGroupByArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    items: Resolver<
+        ResolversTypes['ProjectV2ItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ViewItemsArgs, never>
+    >
+    layout: Resolver<ResolversTypes['ProjectV2ViewLayout'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectV2'], ParentType, ContextType>
+    sortBy: Resolver<
+        Maybe<ResolversTypes['ProjectV2SortByConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ViewSortByArgs, never>
+    >
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    verticalGroupBy: Resolver<
+        Maybe<ResolversTypes['ProjectV2FieldConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ViewVerticalGroupByArgs, never>
+    >
+    visibleFields: Resolver<
+        Maybe<ResolversTypes['ProjectV2FieldConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ProjectV2ViewVisibleFieldsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ViewConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ViewConnection'] = ResolversParentTypes['ProjectV2ViewConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2ViewEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectV2View']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectV2ViewEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectV2ViewEdge'] = ResolversParentTypes['ProjectV2ViewEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectV2View']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectViewResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectView'] = ResolversParentTypes['ProjectView']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    filter: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    groupBy: Resolver<Maybe<Array<ResolversTypes['Int']>>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    items: Resolver<
+        ResolversTypes['ProjectNextItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ProjectViewItemsArgs, never>
+    >
+    layout: Resolver<ResolversTypes['ProjectViewLayout'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    project: Resolver<ResolversTypes['ProjectNext'], ParentType, ContextType>
+    sortBy: Resolver<Maybe<Array<ResolversTypes['SortBy']>>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    verticalGroupBy: Resolver<Maybe<Array<ResolversTypes['Int']>>, ParentType, ContextType>
+    visibleFields: Resolver<Maybe<Array<ResolversTypes['Int']>>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectViewConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectViewConnection'] = ResolversParentTypes['ProjectViewConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectViewEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['ProjectView']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ProjectViewEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ProjectViewEdge'] = ResolversParentTypes['ProjectViewEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['ProjectView']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type PublicKeyResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['PublicKey'] = ResolversParentTypes['PublicKey']
@@ -29338,6 +39346,7 @@ export type PullRequestResolvers<
     assignees: Resolver<ResolversTypes['UserConnection'], ParentType, ContextType, RequireFields<PullRequestAssigneesArgs, never>>
     author: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
     authorAssociation: Resolver<ResolversTypes['CommentAuthorAssociation'], ParentType, ContextType>
+    autoMergeRequest: Resolver<Maybe<ResolversTypes['AutoMergeRequest']>, ParentType, ContextType>
     baseRef: Resolver<Maybe<ResolversTypes['Ref']>, ParentType, ContextType>
     baseRefName: Resolver<ResolversTypes['String'], ParentType, ContextType>
     baseRefOid: Resolver<ResolversTypes['GitObjectID'], ParentType, ContextType>
@@ -29350,6 +39359,12 @@ export type PullRequestResolvers<
     checksUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     closed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     closedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    closingIssuesReferences: Resolver<
+        Maybe<ResolversTypes['IssueConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestClosingIssuesReferencesArgs, 'userLinkedOnly'>
+    >
     comments: Resolver<
         ResolversTypes['IssueCommentConnection'],
         ParentType,
@@ -29431,6 +39446,42 @@ export type PullRequestResolvers<
         ContextType,
         RequireFields<PullRequestProjectCardsArgs, 'archivedStates'>
     >
+    projectItems: Resolver<
+        ResolversTypes['ProjectV2ItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectItemsArgs, 'includeArchived'>
+    >
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectNextArgs, 'number'>
+    >
+    projectNextItems: Resolver<
+        ResolversTypes['ProjectNextItemConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectNextItemsArgs, 'includeArchived'>
+    >
+    projectV2: Resolver<
+        Maybe<ResolversTypes['ProjectV2']>,
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectV2Args, 'number'>
+    >
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectsNextArgs, 'sortBy'>
+    >
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<PullRequestProjectsV2Args, 'orderBy'>
+    >
     publishedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     reactionGroups: Resolver<Maybe<Array<ResolversTypes['ReactionGroup']>>, ParentType, ContextType>
     reactions: Resolver<
@@ -29477,6 +39528,7 @@ export type PullRequestResolvers<
         RequireFields<PullRequestTimelineItemsArgs, never>
     >
     title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    titleHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
     updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     userContentEdits: Resolver<
@@ -29487,11 +39539,17 @@ export type PullRequestResolvers<
     >
     viewerCanApplySuggestion: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanDeleteHeadRef: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanDisableAutoMerge: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanEditFiles: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanEnableAutoMerge: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerCanMergeAsAdmin: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanReact: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanSubscribe: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanUpdate: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCannotUpdateReasons: Resolver<Array<ResolversTypes['CommentCannotUpdateReason']>, ParentType, ContextType>
     viewerDidAuthor: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerLatestReview: Resolver<Maybe<ResolversTypes['PullRequestReview']>, ParentType, ContextType>
+    viewerLatestReviewRequest: Resolver<Maybe<ResolversTypes['ReviewRequest']>, ParentType, ContextType>
     viewerMergeBodyText: Resolver<
         ResolversTypes['String'],
         ParentType,
@@ -29513,6 +39571,7 @@ export type PullRequestChangedFileResolvers<
     ParentType extends ResolversParentTypes['PullRequestChangedFile'] = ResolversParentTypes['PullRequestChangedFile']
 > = {
     additions: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    changeType: Resolver<ResolversTypes['PatchStatus'], ParentType, ContextType>
     deletions: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     path: Resolver<ResolversTypes['String'], ParentType, ContextType>
     viewerViewedState: Resolver<ResolversTypes['FileViewedState'], ParentType, ContextType>
@@ -29854,6 +39913,16 @@ export type PullRequestRevisionMarkerResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type PullRequestTemplateResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['PullRequestTemplate'] = ResolversParentTypes['PullRequestTemplate']
+> = {
+    body: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    filename: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type PullRequestTimelineConnectionResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['PullRequestTimelineConnection'] = ResolversParentTypes['PullRequestTimelineConnection']
@@ -29938,6 +40007,7 @@ export type PullRequestTimelineItemsResolvers<
         | 'ConnectedEvent'
         | 'ConvertToDraftEvent'
         | 'ConvertedNoteToIssueEvent'
+        | 'ConvertedToDiscussionEvent'
         | 'CrossReferencedEvent'
         | 'DemilestonedEvent'
         | 'DeployedEvent'
@@ -30010,7 +40080,7 @@ export type PushResolvers<ContextType = any, ParentType extends ResolversParentT
     nextSha: Resolver<Maybe<ResolversTypes['GitObjectID']>, ParentType, ContextType>
     permalink: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     previousSha: Resolver<Maybe<ResolversTypes['GitObjectID']>, ParentType, ContextType>
-    pusher: Resolver<ResolversTypes['User'], ParentType, ContextType>
+    pusher: Resolver<ResolversTypes['Actor'], ParentType, ContextType>
     repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
@@ -30117,7 +40187,7 @@ export type QueryResolvers<
         Maybe<ResolversTypes['Repository']>,
         ParentType,
         ContextType,
-        RequireFields<QueryRepositoryArgs, 'owner' | 'name'>
+        RequireFields<QueryRepositoryArgs, 'owner' | 'name' | 'followRenames'>
     >
     repositoryOwner: Resolver<
         Maybe<ResolversTypes['RepositoryOwner']>,
@@ -30155,11 +40225,11 @@ export type QueryResolvers<
         ContextType,
         RequireFields<QuerySecurityVulnerabilitiesArgs, 'orderBy'>
     >
-    sponsorsListing: Resolver<
-        Maybe<ResolversTypes['SponsorsListing']>,
+    sponsorables: Resolver<
+        ResolversTypes['SponsorableItemConnection'],
         ParentType,
         ContextType,
-        RequireFields<QuerySponsorsListingArgs, 'slug'>
+        RequireFields<QuerySponsorablesArgs, 'orderBy' | 'onlyDependencies'>
     >
     topic: Resolver<Maybe<ResolversTypes['Topic']>, ParentType, ContextType, RequireFields<QueryTopicArgs, 'name'>>
     user: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType, RequireFields<QueryUserArgs, 'login'>>
@@ -30185,11 +40255,14 @@ export type ReactableResolvers<
 > = {
     __resolveType: TypeResolveFn<
         | 'CommitComment'
+        | 'Discussion'
+        | 'DiscussionComment'
         | 'Issue'
         | 'IssueComment'
         | 'PullRequest'
         | 'PullRequestReview'
         | 'PullRequestReviewComment'
+        | 'Release'
         | 'TeamDiscussion'
         | 'TeamDiscussionComment',
         ParentType,
@@ -30268,6 +40341,12 @@ export type ReactionGroupResolvers<
 > = {
     content: Resolver<ResolversTypes['ReactionContent'], ParentType, ContextType>
     createdAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    reactors: Resolver<
+        ResolversTypes['ReactorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<ReactionGroupReactorsArgs, never>
+    >
     subject: Resolver<ResolversTypes['Reactable'], ParentType, ContextType>
     users: Resolver<
         ResolversTypes['ReactingUserConnection'],
@@ -30279,6 +40358,34 @@ export type ReactionGroupResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type ReactorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Reactor'] = ResolversParentTypes['Reactor']
+> = {
+    __resolveType: TypeResolveFn<'Bot' | 'Mannequin' | 'Organization' | 'User', ParentType, ContextType>
+}
+
+export type ReactorConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ReactorConnection'] = ResolversParentTypes['ReactorConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['ReactorEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['Reactor']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type ReactorEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['ReactorEdge'] = ResolversParentTypes['ReactorEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<ResolversTypes['Reactor'], ParentType, ContextType>
+    reactedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ReadyForReviewEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ReadyForReviewEvent'] = ResolversParentTypes['ReadyForReviewEvent']
@@ -30335,11 +40442,15 @@ export type RefUpdateRuleResolvers<
 > = {
     allowsDeletions: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     allowsForcePushes: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    blocksCreations: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     pattern: Resolver<ResolversTypes['String'], ParentType, ContextType>
     requiredApprovingReviewCount: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     requiredStatusCheckContexts: Resolver<Maybe<Array<Maybe<ResolversTypes['String']>>>, ParentType, ContextType>
+    requiresCodeOwnerReviews: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    requiresConversationResolution: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresLinearHistory: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     requiresSignatures: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerAllowedToDismissReviews: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     viewerCanPush: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
@@ -30375,25 +40486,54 @@ export type RegenerateEnterpriseIdentityProviderRecoveryCodesPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type RegenerateVerifiableDomainTokenPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RegenerateVerifiableDomainTokenPayload'] = ResolversParentTypes['RegenerateVerifiableDomainTokenPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    verificationToken: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RejectDeploymentsPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RejectDeploymentsPayload'] = ResolversParentTypes['RejectDeploymentsPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    deployments: Resolver<Maybe<Array<ResolversTypes['Deployment']>>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ReleaseResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Release'] = ResolversParentTypes['Release']
 > = {
     author: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     descriptionHTML: Resolver<Maybe<ResolversTypes['HTML']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     isDraft: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isLatest: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isPrerelease: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    mentions: Resolver<
+        Maybe<ResolversTypes['UserConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<ReleaseMentionsArgs, never>
+    >
     name: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     publishedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    reactionGroups: Resolver<Maybe<Array<ResolversTypes['ReactionGroup']>>, ParentType, ContextType>
+    reactions: Resolver<ResolversTypes['ReactionConnection'], ParentType, ContextType, RequireFields<ReleaseReactionsArgs, never>>
     releaseAssets: Resolver<
         ResolversTypes['ReleaseAssetConnection'],
         ParentType,
         ContextType,
         RequireFields<ReleaseReleaseAssetsArgs, never>
     >
+    repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     shortDescriptionHTML: Resolver<
         Maybe<ResolversTypes['HTML']>,
@@ -30402,9 +40542,11 @@ export type ReleaseResolvers<
         RequireFields<ReleaseShortDescriptionHtmlArgs, 'limit'>
     >
     tag: Resolver<Maybe<ResolversTypes['Ref']>, ParentType, ContextType>
+    tagCommit: Resolver<Maybe<ResolversTypes['Commit']>, ParentType, ContextType>
     tagName: Resolver<ResolversTypes['String'], ParentType, ContextType>
     updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    viewerCanReact: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
@@ -30553,6 +40695,15 @@ export type RemoveStarPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type RemoveUpvotePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RemoveUpvotePayload'] = ResolversParentTypes['RemoveUpvotePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    subject: Resolver<Maybe<ResolversTypes['Votable']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type RemovedFromProjectEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['RemovedFromProjectEvent'] = ResolversParentTypes['RemovedFromProjectEvent']
@@ -30610,6 +40761,7 @@ export type ReopenedEventResolvers<
     closable: Resolver<ResolversTypes['Closable'], ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    stateReason: Resolver<Maybe<ResolversTypes['IssueStateReason']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
@@ -31182,12 +41334,14 @@ export type RepositoryResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Repository'] = ResolversParentTypes['Repository']
 > = {
+    allowUpdateBranch: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     assignableUsers: Resolver<
         ResolversTypes['UserConnection'],
         ParentType,
         ContextType,
         RequireFields<RepositoryAssignableUsersArgs, never>
     >
+    autoMergeAllowed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     branchProtectionRules: Resolver<
         ResolversTypes['BranchProtectionRuleConnection'],
         ParentType,
@@ -31195,6 +41349,12 @@ export type RepositoryResolvers<
         RequireFields<RepositoryBranchProtectionRulesArgs, never>
     >
     codeOfConduct: Resolver<Maybe<ResolversTypes['CodeOfConduct']>, ParentType, ContextType>
+    codeowners: Resolver<
+        Maybe<ResolversTypes['RepositoryCodeowners']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryCodeownersArgs, never>
+    >
     collaborators: Resolver<
         Maybe<ResolversTypes['RepositoryCollaboratorConnection']>,
         ParentType,
@@ -31226,8 +41386,39 @@ export type RepositoryResolvers<
     >
     description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     descriptionHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    discussion: Resolver<
+        Maybe<ResolversTypes['Discussion']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryDiscussionArgs, 'number'>
+    >
+    discussionCategories: Resolver<
+        ResolversTypes['DiscussionCategoryConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryDiscussionCategoriesArgs, 'filterByAssignable'>
+    >
+    discussions: Resolver<
+        ResolversTypes['DiscussionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryDiscussionsArgs, 'categoryId' | 'orderBy'>
+    >
     diskUsage: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    environment: Resolver<
+        Maybe<ResolversTypes['Environment']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryEnvironmentArgs, 'name'>
+    >
+    environments: Resolver<
+        ResolversTypes['EnvironmentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryEnvironmentsArgs, never>
+    >
     forkCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    forkingAllowed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     forks: Resolver<
         ResolversTypes['RepositoryConnection'],
         ParentType,
@@ -31275,6 +41466,7 @@ export type RepositoryResolvers<
         ContextType,
         RequireFields<RepositoryLanguagesArgs, never>
     >
+    latestRelease: Resolver<Maybe<ResolversTypes['Release']>, ParentType, ContextType>
     licenseInfo: Resolver<Maybe<ResolversTypes['License']>, ParentType, ContextType>
     lockReason: Resolver<Maybe<ResolversTypes['RepositoryLockReason']>, ParentType, ContextType>
     mentionableUsers: Resolver<
@@ -31309,17 +41501,54 @@ export type RepositoryResolvers<
         RequireFields<RepositoryPackagesArgs, 'orderBy'>
     >
     parent: Resolver<Maybe<ResolversTypes['Repository']>, ParentType, ContextType>
+    pinnedDiscussions: Resolver<
+        ResolversTypes['PinnedDiscussionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryPinnedDiscussionsArgs, never>
+    >
+    pinnedIssues: Resolver<
+        Maybe<ResolversTypes['PinnedIssueConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryPinnedIssuesArgs, never>
+    >
     primaryLanguage: Resolver<Maybe<ResolversTypes['Language']>, ParentType, ContextType>
     project: Resolver<Maybe<ResolversTypes['Project']>, ParentType, ContextType, RequireFields<RepositoryProjectArgs, 'number'>>
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryProjectNextArgs, 'number'>
+    >
+    projectV2: Resolver<
+        Maybe<ResolversTypes['ProjectV2']>,
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryProjectV2Args, 'number'>
+    >
     projects: Resolver<ResolversTypes['ProjectConnection'], ParentType, ContextType, RequireFields<RepositoryProjectsArgs, never>>
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryProjectsNextArgs, 'sortBy'>
+    >
     projectsResourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     projectsUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryProjectsV2Args, 'orderBy'>
+    >
     pullRequest: Resolver<
         Maybe<ResolversTypes['PullRequest']>,
         ParentType,
         ContextType,
         RequireFields<RepositoryPullRequestArgs, 'number'>
     >
+    pullRequestTemplates: Resolver<Maybe<Array<ResolversTypes['PullRequestTemplate']>>, ParentType, ContextType>
     pullRequests: Resolver<
         ResolversTypes['PullRequestConnection'],
         ParentType,
@@ -31328,6 +41557,12 @@ export type RepositoryResolvers<
     >
     pushedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     rebaseMergeAllowed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    recentProjects: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryRecentProjectsArgs, never>
+    >
     ref: Resolver<Maybe<ResolversTypes['Ref']>, ParentType, ContextType, RequireFields<RepositoryRefArgs, 'qualifiedName'>>
     refs: Resolver<
         Maybe<ResolversTypes['RefConnection']>,
@@ -31352,6 +41587,7 @@ export type RepositoryResolvers<
         RequireFields<RepositoryShortDescriptionHtmlArgs, 'limit'>
     >
     squashMergeAllowed: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    squashPrTitleUsedAsDefault: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     sshUrl: Resolver<ResolversTypes['GitSSHRemote'], ParentType, ContextType>
     stargazerCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     stargazers: Resolver<
@@ -31381,6 +41617,7 @@ export type RepositoryResolvers<
     viewerPermission: Resolver<Maybe<ResolversTypes['RepositoryPermission']>, ParentType, ContextType>
     viewerPossibleCommitEmails: Resolver<Maybe<Array<ResolversTypes['String']>>, ParentType, ContextType>
     viewerSubscription: Resolver<Maybe<ResolversTypes['SubscriptionState']>, ParentType, ContextType>
+    visibility: Resolver<ResolversTypes['RepositoryVisibility'], ParentType, ContextType>
     vulnerabilityAlerts: Resolver<
         Maybe<ResolversTypes['RepositoryVulnerabilityAlertConnection']>,
         ParentType,
@@ -31429,6 +41666,28 @@ export type RepositoryAuditEntryDataResolvers<
     repositoryUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
 }
 
+export type RepositoryCodeownersResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryCodeowners'] = ResolversParentTypes['RepositoryCodeowners']
+> = {
+    errors: Resolver<Array<ResolversTypes['RepositoryCodeownersError']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RepositoryCodeownersErrorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryCodeownersError'] = ResolversParentTypes['RepositoryCodeownersError']
+> = {
+    column: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    kind: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    line: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    message: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    path: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    source: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    suggestion: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type RepositoryCollaboratorConnectionResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['RepositoryCollaboratorConnection'] = ResolversParentTypes['RepositoryCollaboratorConnection']
@@ -31473,6 +41732,32 @@ export type RepositoryContactLinkResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type RepositoryDiscussionAuthorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryDiscussionAuthor'] = ResolversParentTypes['RepositoryDiscussionAuthor']
+> = {
+    __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
+    repositoryDiscussions: Resolver<
+        ResolversTypes['DiscussionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryDiscussionAuthorRepositoryDiscussionsArgs, 'orderBy' | 'answered'>
+    >
+}
+
+export type RepositoryDiscussionCommentAuthorResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryDiscussionCommentAuthor'] = ResolversParentTypes['RepositoryDiscussionCommentAuthor']
+> = {
+    __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
+    repositoryDiscussionComments: Resolver<
+        ResolversTypes['DiscussionCommentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<RepositoryDiscussionCommentAuthorRepositoryDiscussionCommentsArgs, 'onlyAnswers'>
+    >
+}
+
 export type RepositoryEdgeResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['RepositoryEdge'] = ResolversParentTypes['RepositoryEdge']
@@ -31520,6 +41805,7 @@ export type RepositoryInfoResolvers<
     updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     usesCustomOpenGraphImage: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    visibility: Resolver<ResolversTypes['RepositoryVisibility'], ParentType, ContextType>
 }
 
 export type RepositoryInteractionAbilityResolvers<
@@ -31566,6 +41852,42 @@ export type RepositoryInvitationEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type RepositoryMigrationResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryMigration'] = ResolversParentTypes['RepositoryMigration']
+> = {
+    continueOnError: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    failureReason: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    migrationLogUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
+    migrationSource: Resolver<ResolversTypes['MigrationSource'], ParentType, ContextType>
+    repositoryName: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    sourceUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    state: Resolver<ResolversTypes['MigrationState'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RepositoryMigrationConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryMigrationConnection'] = ResolversParentTypes['RepositoryMigrationConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['RepositoryMigrationEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['RepositoryMigration']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RepositoryMigrationEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RepositoryMigrationEdge'] = ResolversParentTypes['RepositoryMigrationEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['RepositoryMigration']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type RepositoryNodeResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['RepositoryNode'] = ResolversParentTypes['RepositoryNode']
@@ -31573,8 +41895,12 @@ export type RepositoryNodeResolvers<
     __resolveType: TypeResolveFn<
         | 'CommitComment'
         | 'CommitCommentThread'
+        | 'DependabotUpdate'
+        | 'Discussion'
+        | 'DiscussionCategory'
         | 'Issue'
         | 'IssueComment'
+        | 'PinnedDiscussion'
         | 'PullRequest'
         | 'PullRequestCommitCommentThread'
         | 'PullRequestReview'
@@ -31604,7 +41930,7 @@ export type RepositoryOwnerResolvers<
         Maybe<ResolversTypes['Repository']>,
         ParentType,
         ContextType,
-        RequireFields<RepositoryOwnerRepositoryArgs, 'name'>
+        RequireFields<RepositoryOwnerRepositoryArgs, 'name' | 'followRenames'>
     >
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
@@ -31702,13 +42028,18 @@ export type RepositoryVulnerabilityAlertResolvers<
     ParentType extends ResolversParentTypes['RepositoryVulnerabilityAlert'] = ResolversParentTypes['RepositoryVulnerabilityAlert']
 > = {
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    dependabotUpdate: Resolver<Maybe<ResolversTypes['DependabotUpdate']>, ParentType, ContextType>
     dismissReason: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     dismissedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     dismisser: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
+    fixReason: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    fixedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    number: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     repository: Resolver<ResolversTypes['Repository'], ParentType, ContextType>
     securityAdvisory: Resolver<Maybe<ResolversTypes['SecurityAdvisory']>, ParentType, ContextType>
     securityVulnerability: Resolver<Maybe<ResolversTypes['SecurityVulnerability']>, ParentType, ContextType>
+    state: Resolver<ResolversTypes['RepositoryVulnerabilityAlertState'], ParentType, ContextType>
     vulnerableManifestFilename: Resolver<ResolversTypes['String'], ParentType, ContextType>
     vulnerableManifestPath: Resolver<ResolversTypes['String'], ParentType, ContextType>
     vulnerableRequirements: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
@@ -31753,6 +42084,48 @@ export type RequestedReviewerResolvers<
     __resolveType: TypeResolveFn<'Mannequin' | 'Team' | 'User', ParentType, ContextType>
 }
 
+export type RequestedReviewerConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RequestedReviewerConnection'] = ResolversParentTypes['RequestedReviewerConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['RequestedReviewerEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['RequestedReviewer']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RequestedReviewerEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RequestedReviewerEdge'] = ResolversParentTypes['RequestedReviewerEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['RequestedReviewer']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RequirableByPullRequestResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RequirableByPullRequest'] = ResolversParentTypes['RequirableByPullRequest']
+> = {
+    __resolveType: TypeResolveFn<'CheckRun' | 'StatusContext', ParentType, ContextType>
+    isRequired: Resolver<
+        ResolversTypes['Boolean'],
+        ParentType,
+        ContextType,
+        RequireFields<RequirableByPullRequestIsRequiredArgs, never>
+    >
+}
+
+export type RequiredStatusCheckDescriptionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RequiredStatusCheckDescription'] = ResolversParentTypes['RequiredStatusCheckDescription']
+> = {
+    app: Resolver<Maybe<ResolversTypes['App']>, ParentType, ContextType>
+    context: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type RerequestCheckSuitePayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['RerequestCheckSuitePayload'] = ResolversParentTypes['RerequestCheckSuitePayload']
@@ -31797,7 +42170,7 @@ export type ReviewDismissalAllowanceActorResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ReviewDismissalAllowanceActor'] = ResolversParentTypes['ReviewDismissalAllowanceActor']
 > = {
-    __resolveType: TypeResolveFn<'Team' | 'User', ParentType, ContextType>
+    __resolveType: TypeResolveFn<'App' | 'Team' | 'User', ParentType, ContextType>
 }
 
 export type ReviewDismissalAllowanceConnectionResolvers<
@@ -31905,6 +42278,29 @@ export type ReviewStatusHovercardContextResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type RevokeEnterpriseOrganizationsMigratorRolePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RevokeEnterpriseOrganizationsMigratorRolePayload'] = ResolversParentTypes['RevokeEnterpriseOrganizationsMigratorRolePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    organizations: Resolver<
+        Maybe<ResolversTypes['OrganizationConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<RevokeEnterpriseOrganizationsMigratorRolePayloadOrganizationsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type RevokeMigratorRolePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['RevokeMigratorRolePayload'] = ResolversParentTypes['RevokeMigratorRolePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    success: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type SavedReplyResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['SavedReply'] = ResolversParentTypes['SavedReply']
@@ -31943,7 +42339,7 @@ export type SearchResultItemResolvers<
     ParentType extends ResolversParentTypes['SearchResultItem'] = ResolversParentTypes['SearchResultItem']
 > = {
     __resolveType: TypeResolveFn<
-        'App' | 'Issue' | 'MarketplaceListing' | 'Organization' | 'PullRequest' | 'Repository' | 'User',
+        'App' | 'Discussion' | 'Issue' | 'MarketplaceListing' | 'Organization' | 'PullRequest' | 'Repository' | 'User',
         ParentType,
         ContextType
     >
@@ -31954,6 +42350,7 @@ export type SearchResultItemConnectionResolvers<
     ParentType extends ResolversParentTypes['SearchResultItemConnection'] = ResolversParentTypes['SearchResultItemConnection']
 > = {
     codeCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    discussionCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     edges: Resolver<Maybe<Array<Maybe<ResolversTypes['SearchResultItemEdge']>>>, ParentType, ContextType>
     issueCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['SearchResultItem']>>>, ParentType, ContextType>
@@ -31978,11 +42375,15 @@ export type SecurityAdvisoryResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['SecurityAdvisory'] = ResolversParentTypes['SecurityAdvisory']
 > = {
+    classification: Resolver<ResolversTypes['SecurityAdvisoryClassification'], ParentType, ContextType>
+    cvss: Resolver<ResolversTypes['CVSS'], ParentType, ContextType>
+    cwes: Resolver<ResolversTypes['CWEConnection'], ParentType, ContextType, RequireFields<SecurityAdvisoryCwesArgs, never>>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     description: Resolver<ResolversTypes['String'], ParentType, ContextType>
     ghsaId: Resolver<ResolversTypes['String'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
     identifiers: Resolver<Array<ResolversTypes['SecurityAdvisoryIdentifier']>, ParentType, ContextType>
+    notificationsPermalink: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
     origin: Resolver<ResolversTypes['String'], ParentType, ContextType>
     permalink: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
     publishedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
@@ -32137,6 +42538,15 @@ export type SmimeSignatureResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type SortByResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SortBy'] = ResolversParentTypes['SortBy']
+> = {
+    direction: Resolver<ResolversTypes['OrderDirection'], ParentType, ContextType>
+    field: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type SponsorResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Sponsor'] = ResolversParentTypes['Sponsor']
@@ -32144,14 +42554,68 @@ export type SponsorResolvers<
     __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
 }
 
+export type SponsorConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorConnection'] = ResolversParentTypes['SponsorConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['Sponsor']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorEdge'] = ResolversParentTypes['SponsorEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['Sponsor']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type SponsorableResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Sponsorable'] = ResolversParentTypes['Sponsorable']
 > = {
     __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
+    estimatedNextSponsorsPayoutInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     hasSponsorsListing: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isSponsoredBy: Resolver<
+        ResolversTypes['Boolean'],
+        ParentType,
+        ContextType,
+        RequireFields<SponsorableIsSponsoredByArgs, 'accountLogin'>
+    >
     isSponsoringViewer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    monthlyEstimatedSponsorsIncomeInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    sponsoring: Resolver<
+        ResolversTypes['SponsorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<SponsorableSponsoringArgs, 'orderBy'>
+    >
+    sponsors: Resolver<
+        ResolversTypes['SponsorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<SponsorableSponsorsArgs, 'orderBy'>
+    >
+    sponsorsActivities: Resolver<
+        ResolversTypes['SponsorsActivityConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<SponsorableSponsorsActivitiesArgs, 'period' | 'orderBy'>
+    >
     sponsorsListing: Resolver<Maybe<ResolversTypes['SponsorsListing']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsor: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsorable: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipNewsletters: Resolver<
+        ResolversTypes['SponsorshipNewsletterConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<SponsorableSponsorshipNewslettersArgs, 'orderBy'>
+    >
     sponsorshipsAsMaintainer: Resolver<
         ResolversTypes['SponsorshipConnection'],
         ParentType,
@@ -32168,17 +42632,94 @@ export type SponsorableResolvers<
     viewerIsSponsoring: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
 }
 
+export type SponsorableItemResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorableItem'] = ResolversParentTypes['SponsorableItem']
+> = {
+    __resolveType: TypeResolveFn<'Organization' | 'User', ParentType, ContextType>
+}
+
+export type SponsorableItemConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorableItemConnection'] = ResolversParentTypes['SponsorableItemConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorableItemEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorableItem']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorableItemEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorableItemEdge'] = ResolversParentTypes['SponsorableItemEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['SponsorableItem']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorsActivityResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorsActivity'] = ResolversParentTypes['SponsorsActivity']
+> = {
+    action: Resolver<ResolversTypes['SponsorsActivityAction'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    previousSponsorsTier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
+    sponsor: Resolver<Maybe<ResolversTypes['Sponsor']>, ParentType, ContextType>
+    sponsorable: Resolver<ResolversTypes['Sponsorable'], ParentType, ContextType>
+    sponsorsTier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
+    timestamp: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorsActivityConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorsActivityConnection'] = ResolversParentTypes['SponsorsActivityConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorsActivityEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorsActivity']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorsActivityEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorsActivityEdge'] = ResolversParentTypes['SponsorsActivityEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['SponsorsActivity']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorsGoalResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorsGoal'] = ResolversParentTypes['SponsorsGoal']
+> = {
+    description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    kind: Resolver<ResolversTypes['SponsorsGoalKind'], ParentType, ContextType>
+    percentComplete: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    targetValue: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    title: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type SponsorsListingResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['SponsorsListing'] = ResolversParentTypes['SponsorsListing']
 > = {
+    activeGoal: Resolver<Maybe<ResolversTypes['SponsorsGoal']>, ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     fullDescription: Resolver<ResolversTypes['String'], ParentType, ContextType>
     fullDescriptionHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isPublic: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    nextPayoutDate: Resolver<Maybe<ResolversTypes['Date']>, ParentType, ContextType>
     shortDescription: Resolver<ResolversTypes['String'], ParentType, ContextType>
     slug: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    sponsorable: Resolver<ResolversTypes['Sponsorable'], ParentType, ContextType>
     tiers: Resolver<
         Maybe<ResolversTypes['SponsorsTierConnection']>,
         ParentType,
@@ -32193,10 +42734,13 @@ export type SponsorsTierResolvers<
     ParentType extends ResolversParentTypes['SponsorsTier'] = ResolversParentTypes['SponsorsTier']
 > = {
     adminInfo: Resolver<Maybe<ResolversTypes['SponsorsTierAdminInfo']>, ParentType, ContextType>
+    closestLesserValueTier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     description: Resolver<ResolversTypes['String'], ParentType, ContextType>
     descriptionHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isCustomAmount: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isOneTime: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     monthlyPriceInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     monthlyPriceInDollars: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     name: Resolver<ResolversTypes['String'], ParentType, ContextType>
@@ -32244,12 +42788,15 @@ export type SponsorshipResolvers<
 > = {
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isOneTimePayment: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isSponsorOptedIntoEmail: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>
     maintainer: Resolver<ResolversTypes['User'], ParentType, ContextType>
     privacyLevel: Resolver<ResolversTypes['SponsorshipPrivacy'], ParentType, ContextType>
     sponsor: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>
     sponsorEntity: Resolver<Maybe<ResolversTypes['Sponsor']>, ParentType, ContextType>
     sponsorable: Resolver<ResolversTypes['Sponsorable'], ParentType, ContextType>
     tier: Resolver<Maybe<ResolversTypes['SponsorsTier']>, ParentType, ContextType>
+    tierSelectedAt: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
@@ -32261,6 +42808,8 @@ export type SponsorshipConnectionResolvers<
     nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['Sponsorship']>>>, ParentType, ContextType>
     pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
     totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    totalRecurringMonthlyPriceInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    totalRecurringMonthlyPriceInDollars: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
@@ -32273,6 +42822,40 @@ export type SponsorshipEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type SponsorshipNewsletterResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorshipNewsletter'] = ResolversParentTypes['SponsorshipNewsletter']
+> = {
+    body: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isPublished: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    sponsorable: Resolver<ResolversTypes['Sponsorable'], ParentType, ContextType>
+    subject: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorshipNewsletterConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorshipNewsletterConnection'] = ResolversParentTypes['SponsorshipNewsletterConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorshipNewsletterEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['SponsorshipNewsletter']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type SponsorshipNewsletterEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['SponsorshipNewsletterEdge'] = ResolversParentTypes['SponsorshipNewsletterEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['SponsorshipNewsletter']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type StargazerConnectionResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['StargazerConnection'] = ResolversParentTypes['StargazerConnection']
@@ -32332,6 +42915,15 @@ export type StarredRepositoryEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type StartRepositoryMigrationPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['StartRepositoryMigrationPayload'] = ResolversParentTypes['StartRepositoryMigrationPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    repositoryMigration: Resolver<Maybe<ResolversTypes['RepositoryMigration']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type StatusResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['Status'] = ResolversParentTypes['Status']
@@ -32404,6 +42996,7 @@ export type StatusContextResolvers<
     creator: Resolver<Maybe<ResolversTypes['Actor']>, ParentType, ContextType>
     description: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isRequired: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<StatusContextIsRequiredArgs, never>>
     state: Resolver<ResolversTypes['StatusState'], ParentType, ContextType>
     targetUrl: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
@@ -32455,7 +43048,7 @@ export type SubscribableResolvers<
     ParentType extends ResolversParentTypes['Subscribable'] = ResolversParentTypes['Subscribable']
 > = {
     __resolveType: TypeResolveFn<
-        'Commit' | 'Issue' | 'PullRequest' | 'Repository' | 'Team' | 'TeamDiscussion',
+        'Commit' | 'Discussion' | 'Issue' | 'PullRequest' | 'Repository' | 'Team' | 'TeamDiscussion',
         ParentType,
         ContextType
     >
@@ -32999,6 +43592,12 @@ export type TopicResolvers<
         ContextType,
         RequireFields<TopicRelatedTopicsArgs, 'first'>
     >
+    repositories: Resolver<
+        ResolversTypes['RepositoryConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<TopicRepositoriesArgs, 'ownerAffiliations' | 'sponsorableOnly'>
+    >
     stargazerCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     stargazers: Resolver<
         ResolversTypes['StargazerConnection'],
@@ -33057,6 +43656,7 @@ export type TreeEntryResolvers<
 > = {
     extension: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     isGenerated: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    lineCount: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     mode: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     name: Resolver<ResolversTypes['String'], ParentType, ContextType>
     object: Resolver<Maybe<ResolversTypes['GitObject']>, ParentType, ContextType>
@@ -33094,6 +43694,15 @@ export type UnassignedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UnfollowOrganizationPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UnfollowOrganizationPayload'] = ResolversParentTypes['UnfollowOrganizationPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    organization: Resolver<Maybe<ResolversTypes['Organization']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UnfollowUserPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UnfollowUserPayload'] = ResolversParentTypes['UnfollowUserPayload']
@@ -33194,6 +43803,15 @@ export type UnlockedEventResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UnmarkDiscussionCommentAsAnswerPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UnmarkDiscussionCommentAsAnswerPayload'] = ResolversParentTypes['UnmarkDiscussionCommentAsAnswerPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UnmarkFileAsViewedPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UnmarkFileAsViewedPayload'] = ResolversParentTypes['UnmarkFileAsViewedPayload']
@@ -33234,6 +43852,15 @@ export type UnminimizeCommentPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UnpinIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UnpinIssuePayload'] = ResolversParentTypes['UnpinIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    issue: Resolver<Maybe<ResolversTypes['Issue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UnpinnedEventResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UnpinnedEvent'] = ResolversParentTypes['UnpinnedEvent']
@@ -33271,10 +43898,14 @@ export type UpdatableResolvers<
 > = {
     __resolveType: TypeResolveFn<
         | 'CommitComment'
+        | 'Discussion'
+        | 'DiscussionComment'
         | 'GistComment'
         | 'Issue'
         | 'IssueComment'
         | 'Project'
+        | 'ProjectNext'
+        | 'ProjectV2'
         | 'PullRequest'
         | 'PullRequestReview'
         | 'PullRequestReviewComment'
@@ -33292,6 +43923,7 @@ export type UpdatableCommentResolvers<
 > = {
     __resolveType: TypeResolveFn<
         | 'CommitComment'
+        | 'DiscussionComment'
         | 'GistComment'
         | 'Issue'
         | 'IssueComment'
@@ -33333,6 +43965,24 @@ export type UpdateCheckSuitePreferencesPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateDiscussionCommentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateDiscussionCommentPayload'] = ResolversParentTypes['UpdateDiscussionCommentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    comment: Resolver<Maybe<ResolversTypes['DiscussionComment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateDiscussionPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateDiscussionPayload'] = ResolversParentTypes['UpdateDiscussionPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    discussion: Resolver<Maybe<ResolversTypes['Discussion']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateEnterpriseAdministratorRolePayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateEnterpriseAdministratorRolePayload'] = ResolversParentTypes['UpdateEnterpriseAdministratorRolePayload']
@@ -33452,6 +44102,15 @@ export type UpdateEnterpriseOrganizationProjectsSettingPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateEnterpriseOwnerOrganizationRolePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateEnterpriseOwnerOrganizationRolePayload'] = ResolversParentTypes['UpdateEnterpriseOwnerOrganizationRolePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    message: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateEnterpriseProfilePayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateEnterpriseProfilePayload'] = ResolversParentTypes['UpdateEnterpriseProfilePayload']
@@ -33491,6 +44150,15 @@ export type UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayloadResolve
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateEnvironmentPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateEnvironmentPayload'] = ResolversParentTypes['UpdateEnvironmentPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    environment: Resolver<Maybe<ResolversTypes['Environment']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateIpAllowListEnabledSettingPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateIpAllowListEnabledSettingPayload'] = ResolversParentTypes['UpdateIpAllowListEnabledSettingPayload']
@@ -33509,6 +44177,15 @@ export type UpdateIpAllowListEntryPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateIpAllowListForInstalledAppsEnabledSettingPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateIpAllowListForInstalledAppsEnabledSettingPayload'] = ResolversParentTypes['UpdateIpAllowListForInstalledAppsEnabledSettingPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    owner: Resolver<Maybe<ResolversTypes['IpAllowListOwner']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateIssueCommentPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateIssueCommentPayload'] = ResolversParentTypes['UpdateIssueCommentPayload']
@@ -33528,6 +44205,25 @@ export type UpdateIssuePayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateNotificationRestrictionSettingPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateNotificationRestrictionSettingPayload'] = ResolversParentTypes['UpdateNotificationRestrictionSettingPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    owner: Resolver<Maybe<ResolversTypes['VerifiableDomainOwner']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateOrganizationAllowPrivateRepositoryForkingSettingPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload'] = ResolversParentTypes['UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    message: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    organization: Resolver<Maybe<ResolversTypes['Organization']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateProjectCardPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateProjectCardPayload'] = ResolversParentTypes['UpdateProjectCardPayload']
@@ -33546,6 +44242,33 @@ export type UpdateProjectColumnPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateProjectDraftIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectDraftIssuePayload'] = ResolversParentTypes['UpdateProjectDraftIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    draftIssue: Resolver<Maybe<ResolversTypes['DraftIssue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateProjectNextItemFieldPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectNextItemFieldPayload'] = ResolversParentTypes['UpdateProjectNextItemFieldPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectNextItem: Resolver<Maybe<ResolversTypes['ProjectNextItem']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateProjectNextPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectNextPayload'] = ResolversParentTypes['UpdateProjectNextPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectNext: Resolver<Maybe<ResolversTypes['ProjectNext']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateProjectPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateProjectPayload'] = ResolversParentTypes['UpdateProjectPayload']
@@ -33555,6 +44278,56 @@ export type UpdateProjectPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateProjectV2DraftIssuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectV2DraftIssuePayload'] = ResolversParentTypes['UpdateProjectV2DraftIssuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    draftIssue: Resolver<Maybe<ResolversTypes['DraftIssue']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateProjectV2ItemFieldValuePayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectV2ItemFieldValuePayload'] = ResolversParentTypes['UpdateProjectV2ItemFieldValuePayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectV2Item: Resolver<Maybe<ResolversTypes['ProjectV2Item']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateProjectV2ItemPositionPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectV2ItemPositionPayload'] = ResolversParentTypes['UpdateProjectV2ItemPositionPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    items: Resolver<
+        Maybe<ResolversTypes['ProjectV2ItemConnection']>,
+        ParentType,
+        ContextType,
+        RequireFields<UpdateProjectV2ItemPositionPayloadItemsArgs, never>
+    >
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdateProjectV2PayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateProjectV2Payload'] = ResolversParentTypes['UpdateProjectV2Payload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    projectV2: Resolver<Maybe<ResolversTypes['ProjectV2']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type UpdatePullRequestBranchPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdatePullRequestBranchPayload'] = ResolversParentTypes['UpdatePullRequestBranchPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    pullRequest: Resolver<Maybe<ResolversTypes['PullRequest']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdatePullRequestPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdatePullRequestPayload'] = ResolversParentTypes['UpdatePullRequestPayload']
@@ -33601,6 +44374,15 @@ export type UpdateRepositoryPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateSponsorshipPreferencesPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateSponsorshipPreferencesPayload'] = ResolversParentTypes['UpdateSponsorshipPreferencesPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    sponsorship: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateSubscriptionPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateSubscriptionPayload'] = ResolversParentTypes['UpdateSubscriptionPayload']
@@ -33628,6 +44410,16 @@ export type UpdateTeamDiscussionPayloadResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type UpdateTeamsRepositoryPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['UpdateTeamsRepositoryPayload'] = ResolversParentTypes['UpdateTeamsRepositoryPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    repository: Resolver<Maybe<ResolversTypes['Repository']>, ParentType, ContextType>
+    teams: Resolver<Maybe<Array<ResolversTypes['Team']>>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type UpdateTopicsPayloadResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['UpdateTopicsPayload'] = ResolversParentTypes['UpdateTopicsPayload']
@@ -33643,6 +44435,12 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
     avatarUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType, RequireFields<UserAvatarUrlArgs, never>>
     bio: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     bioHTML: Resolver<ResolversTypes['HTML'], ParentType, ContextType>
+    canReceiveOrganizationEmailsWhenNotificationsRestricted: Resolver<
+        ResolversTypes['Boolean'],
+        ParentType,
+        ContextType,
+        RequireFields<UserCanReceiveOrganizationEmailsWhenNotificationsRestrictedArgs, 'login'>
+    >
     commitComments: Resolver<
         ResolversTypes['CommitCommentConnection'],
         ParentType,
@@ -33660,6 +44458,7 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
     createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
     databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
     email: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    estimatedNextSponsorsPayoutInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     followers: Resolver<ResolversTypes['FollowerConnection'], ParentType, ContextType, RequireFields<UserFollowersArgs, never>>
     following: Resolver<ResolversTypes['FollowingConnection'], ParentType, ContextType, RequireFields<UserFollowingArgs, never>>
     gist: Resolver<Maybe<ResolversTypes['Gist']>, ParentType, ContextType, RequireFields<UserGistArgs, 'name'>>
@@ -33678,8 +44477,16 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
     isCampusExpert: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isDeveloperProgramMember: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isEmployee: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isFollowingViewer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isGitHubStar: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isHireable: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isSiteAdmin: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isSponsoredBy: Resolver<
+        ResolversTypes['Boolean'],
+        ParentType,
+        ContextType,
+        RequireFields<UserIsSponsoredByArgs, 'accountLogin'>
+    >
     isSponsoringViewer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     isViewer: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
     issueComments: Resolver<
@@ -33692,6 +44499,7 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
     itemShowcase: Resolver<ResolversTypes['ProfileItemShowcase'], ParentType, ContextType>
     location: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     login: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    monthlyEstimatedSponsorsIncomeInCents: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     name: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
     organization: Resolver<
         Maybe<ResolversTypes['Organization']>,
@@ -33726,9 +44534,28 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
     >
     pinnedItemsRemaining: Resolver<ResolversTypes['Int'], ParentType, ContextType>
     project: Resolver<Maybe<ResolversTypes['Project']>, ParentType, ContextType, RequireFields<UserProjectArgs, 'number'>>
+    projectNext: Resolver<
+        Maybe<ResolversTypes['ProjectNext']>,
+        ParentType,
+        ContextType,
+        RequireFields<UserProjectNextArgs, 'number'>
+    >
+    projectV2: Resolver<Maybe<ResolversTypes['ProjectV2']>, ParentType, ContextType, RequireFields<UserProjectV2Args, 'number'>>
     projects: Resolver<ResolversTypes['ProjectConnection'], ParentType, ContextType, RequireFields<UserProjectsArgs, never>>
+    projectsNext: Resolver<
+        ResolversTypes['ProjectNextConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserProjectsNextArgs, 'sortBy'>
+    >
     projectsResourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     projectsUrl: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    projectsV2: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserProjectsV2Args, 'orderBy'>
+    >
     publicKeys: Resolver<ResolversTypes['PublicKeyConnection'], ParentType, ContextType, RequireFields<UserPublicKeysArgs, never>>
     pullRequests: Resolver<
         ResolversTypes['PullRequestConnection'],
@@ -33736,6 +44563,12 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
         ContextType,
         RequireFields<UserPullRequestsArgs, never>
     >
+    recentProjects: Resolver<
+        ResolversTypes['ProjectV2Connection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserRecentProjectsArgs, never>
+    >
     repositories: Resolver<
         ResolversTypes['RepositoryConnection'],
         ParentType,
@@ -33748,7 +44581,24 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
         ContextType,
         RequireFields<UserRepositoriesContributedToArgs, never>
     >
-    repository: Resolver<Maybe<ResolversTypes['Repository']>, ParentType, ContextType, RequireFields<UserRepositoryArgs, 'name'>>
+    repository: Resolver<
+        Maybe<ResolversTypes['Repository']>,
+        ParentType,
+        ContextType,
+        RequireFields<UserRepositoryArgs, 'name' | 'followRenames'>
+    >
+    repositoryDiscussionComments: Resolver<
+        ResolversTypes['DiscussionCommentConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserRepositoryDiscussionCommentsArgs, 'onlyAnswers'>
+    >
+    repositoryDiscussions: Resolver<
+        ResolversTypes['DiscussionConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserRepositoryDiscussionsArgs, 'orderBy' | 'answered'>
+    >
     resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
     savedReplies: Resolver<
         Maybe<ResolversTypes['SavedReplyConnection']>,
@@ -33756,7 +44606,28 @@ export type UserResolvers<ContextType = any, ParentType extends ResolversParentT
         ContextType,
         RequireFields<UserSavedRepliesArgs, 'orderBy'>
     >
+    sponsoring: Resolver<
+        ResolversTypes['SponsorConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserSponsoringArgs, 'orderBy'>
+    >
+    sponsors: Resolver<ResolversTypes['SponsorConnection'], ParentType, ContextType, RequireFields<UserSponsorsArgs, 'orderBy'>>
+    sponsorsActivities: Resolver<
+        ResolversTypes['SponsorsActivityConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserSponsorsActivitiesArgs, 'period' | 'orderBy'>
+    >
     sponsorsListing: Resolver<Maybe<ResolversTypes['SponsorsListing']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsor: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipForViewerAsSponsorable: Resolver<Maybe<ResolversTypes['Sponsorship']>, ParentType, ContextType>
+    sponsorshipNewsletters: Resolver<
+        ResolversTypes['SponsorshipNewsletterConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<UserSponsorshipNewslettersArgs, 'orderBy'>
+    >
     sponsorshipsAsMaintainer: Resolver<
         ResolversTypes['SponsorshipConnection'],
         ParentType,
@@ -33915,6 +44786,64 @@ export type UserStatusEdgeResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type VerifiableDomainResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['VerifiableDomain'] = ResolversParentTypes['VerifiableDomain']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    dnsHostName: Resolver<Maybe<ResolversTypes['URI']>, ParentType, ContextType>
+    domain: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    hasFoundHostName: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    hasFoundVerificationToken: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    isApproved: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isRequiredForPolicyEnforcement: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    isVerified: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    owner: Resolver<ResolversTypes['VerifiableDomainOwner'], ParentType, ContextType>
+    punycodeEncodedDomain: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    tokenExpirationTime: Resolver<Maybe<ResolversTypes['DateTime']>, ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    verificationToken: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type VerifiableDomainConnectionResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['VerifiableDomainConnection'] = ResolversParentTypes['VerifiableDomainConnection']
+> = {
+    edges: Resolver<Maybe<Array<Maybe<ResolversTypes['VerifiableDomainEdge']>>>, ParentType, ContextType>
+    nodes: Resolver<Maybe<Array<Maybe<ResolversTypes['VerifiableDomain']>>>, ParentType, ContextType>
+    pageInfo: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>
+    totalCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type VerifiableDomainEdgeResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['VerifiableDomainEdge'] = ResolversParentTypes['VerifiableDomainEdge']
+> = {
+    cursor: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    node: Resolver<Maybe<ResolversTypes['VerifiableDomain']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type VerifiableDomainOwnerResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['VerifiableDomainOwner'] = ResolversParentTypes['VerifiableDomainOwner']
+> = {
+    __resolveType: TypeResolveFn<'Enterprise' | 'Organization', ParentType, ContextType>
+}
+
+export type VerifyVerifiableDomainPayloadResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['VerifyVerifiableDomainPayload'] = ResolversParentTypes['VerifyVerifiableDomainPayload']
+> = {
+    clientMutationId: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>
+    domain: Resolver<Maybe<ResolversTypes['VerifiableDomain']>, ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export type ViewerHovercardContextResolvers<
     ContextType = any,
     ParentType extends ResolversParentTypes['ViewerHovercardContext'] = ResolversParentTypes['ViewerHovercardContext']
@@ -33925,28 +44854,89 @@ export type ViewerHovercardContextResolvers<
     __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
 }
 
+export type VotableResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Votable'] = ResolversParentTypes['Votable']
+> = {
+    __resolveType: TypeResolveFn<'Discussion' | 'DiscussionComment', ParentType, ContextType>
+    upvoteCount: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    viewerCanUpvote: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+    viewerHasUpvoted: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>
+}
+
+export type WorkflowResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['Workflow'] = ResolversParentTypes['Workflow']
+> = {
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    name: Resolver<ResolversTypes['String'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
+export type WorkflowRunResolvers<
+    ContextType = any,
+    ParentType extends ResolversParentTypes['WorkflowRun'] = ResolversParentTypes['WorkflowRun']
+> = {
+    checkSuite: Resolver<ResolversTypes['CheckSuite'], ParentType, ContextType>
+    createdAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    databaseId: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>
+    deploymentReviews: Resolver<
+        ResolversTypes['DeploymentReviewConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<WorkflowRunDeploymentReviewsArgs, never>
+    >
+    id: Resolver<ResolversTypes['ID'], ParentType, ContextType>
+    pendingDeploymentRequests: Resolver<
+        ResolversTypes['DeploymentRequestConnection'],
+        ParentType,
+        ContextType,
+        RequireFields<WorkflowRunPendingDeploymentRequestsArgs, never>
+    >
+    resourcePath: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    runNumber: Resolver<ResolversTypes['Int'], ParentType, ContextType>
+    updatedAt: Resolver<ResolversTypes['DateTime'], ParentType, ContextType>
+    url: Resolver<ResolversTypes['URI'], ParentType, ContextType>
+    workflow: Resolver<ResolversTypes['Workflow'], ParentType, ContextType>
+    __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>
+}
+
 export interface X509CertificateScalarConfig extends GraphQLScalarTypeConfig<ResolversTypes['X509Certificate'], any> {
     name: 'X509Certificate'
 }
 
 export type Resolvers<ContextType = any> = {
+    AbortQueuedMigrationsPayload: AbortQueuedMigrationsPayloadResolvers<ContextType>
     AcceptEnterpriseAdministratorInvitationPayload: AcceptEnterpriseAdministratorInvitationPayloadResolvers<ContextType>
     AcceptTopicSuggestionPayload: AcceptTopicSuggestionPayloadResolvers<ContextType>
     Actor: ActorResolvers<ContextType>
     ActorLocation: ActorLocationResolvers<ContextType>
     AddAssigneesToAssignablePayload: AddAssigneesToAssignablePayloadResolvers<ContextType>
     AddCommentPayload: AddCommentPayloadResolvers<ContextType>
+    AddDiscussionCommentPayload: AddDiscussionCommentPayloadResolvers<ContextType>
+    AddDiscussionPollVotePayload: AddDiscussionPollVotePayloadResolvers<ContextType>
     AddEnterpriseSupportEntitlementPayload: AddEnterpriseSupportEntitlementPayloadResolvers<ContextType>
     AddLabelsToLabelablePayload: AddLabelsToLabelablePayloadResolvers<ContextType>
     AddProjectCardPayload: AddProjectCardPayloadResolvers<ContextType>
     AddProjectColumnPayload: AddProjectColumnPayloadResolvers<ContextType>
+    AddProjectDraftIssuePayload: AddProjectDraftIssuePayloadResolvers<ContextType>
+    AddProjectNextItemPayload: AddProjectNextItemPayloadResolvers<ContextType>
+    AddProjectV2DraftIssuePayload: AddProjectV2DraftIssuePayloadResolvers<ContextType>
+    AddProjectV2ItemByIdPayload: AddProjectV2ItemByIdPayloadResolvers<ContextType>
     AddPullRequestReviewCommentPayload: AddPullRequestReviewCommentPayloadResolvers<ContextType>
     AddPullRequestReviewPayload: AddPullRequestReviewPayloadResolvers<ContextType>
     AddPullRequestReviewThreadPayload: AddPullRequestReviewThreadPayloadResolvers<ContextType>
     AddReactionPayload: AddReactionPayloadResolvers<ContextType>
     AddStarPayload: AddStarPayloadResolvers<ContextType>
+    AddUpvotePayload: AddUpvotePayloadResolvers<ContextType>
+    AddVerifiableDomainPayload: AddVerifiableDomainPayloadResolvers<ContextType>
     AddedToProjectEvent: AddedToProjectEventResolvers<ContextType>
     App: AppResolvers<ContextType>
+    ApproveDeploymentsPayload: ApproveDeploymentsPayloadResolvers<ContextType>
+    ApproveVerifiableDomainPayload: ApproveVerifiableDomainPayloadResolvers<ContextType>
     ArchiveRepositoryPayload: ArchiveRepositoryPayloadResolvers<ContextType>
     Assignable: AssignableResolvers<ContextType>
     AssignedEvent: AssignedEventResolvers<ContextType>
@@ -33955,10 +44945,12 @@ export type Resolvers<ContextType = any> = {
     AuditEntryActor: AuditEntryActorResolvers<ContextType>
     AutoMergeDisabledEvent: AutoMergeDisabledEventResolvers<ContextType>
     AutoMergeEnabledEvent: AutoMergeEnabledEventResolvers<ContextType>
+    AutoMergeRequest: AutoMergeRequestResolvers<ContextType>
     AutoRebaseEnabledEvent: AutoRebaseEnabledEventResolvers<ContextType>
     AutoSquashEnabledEvent: AutoSquashEnabledEventResolvers<ContextType>
     AutomaticBaseChangeFailedEvent: AutomaticBaseChangeFailedEventResolvers<ContextType>
     AutomaticBaseChangeSucceededEvent: AutomaticBaseChangeSucceededEventResolvers<ContextType>
+    Base64String: GraphQLScalarType
     BaseRefChangedEvent: BaseRefChangedEventResolvers<ContextType>
     BaseRefDeletedEvent: BaseRefDeletedEventResolvers<ContextType>
     BaseRefForcePushedEvent: BaseRefForcePushedEventResolvers<ContextType>
@@ -33966,13 +44958,25 @@ export type Resolvers<ContextType = any> = {
     BlameRange: BlameRangeResolvers<ContextType>
     Blob: BlobResolvers<ContextType>
     Bot: BotResolvers<ContextType>
+    BranchActorAllowanceActor: BranchActorAllowanceActorResolvers<ContextType>
     BranchProtectionRule: BranchProtectionRuleResolvers<ContextType>
     BranchProtectionRuleConflict: BranchProtectionRuleConflictResolvers<ContextType>
     BranchProtectionRuleConflictConnection: BranchProtectionRuleConflictConnectionResolvers<ContextType>
     BranchProtectionRuleConflictEdge: BranchProtectionRuleConflictEdgeResolvers<ContextType>
     BranchProtectionRuleConnection: BranchProtectionRuleConnectionResolvers<ContextType>
     BranchProtectionRuleEdge: BranchProtectionRuleEdgeResolvers<ContextType>
+    BypassForcePushAllowance: BypassForcePushAllowanceResolvers<ContextType>
+    BypassForcePushAllowanceConnection: BypassForcePushAllowanceConnectionResolvers<ContextType>
+    BypassForcePushAllowanceEdge: BypassForcePushAllowanceEdgeResolvers<ContextType>
+    BypassPullRequestAllowance: BypassPullRequestAllowanceResolvers<ContextType>
+    BypassPullRequestAllowanceConnection: BypassPullRequestAllowanceConnectionResolvers<ContextType>
+    BypassPullRequestAllowanceEdge: BypassPullRequestAllowanceEdgeResolvers<ContextType>
+    CVSS: CvssResolvers<ContextType>
+    CWE: CweResolvers<ContextType>
+    CWEConnection: CweConnectionResolvers<ContextType>
+    CWEEdge: CweEdgeResolvers<ContextType>
     CancelEnterpriseAdminInvitationPayload: CancelEnterpriseAdminInvitationPayloadResolvers<ContextType>
+    CancelSponsorshipPayload: CancelSponsorshipPayloadResolvers<ContextType>
     ChangeUserStatusPayload: ChangeUserStatusPayloadResolvers<ContextType>
     CheckAnnotation: CheckAnnotationResolvers<ContextType>
     CheckAnnotationConnection: CheckAnnotationConnectionResolvers<ContextType>
@@ -33982,6 +44986,9 @@ export type Resolvers<ContextType = any> = {
     CheckRun: CheckRunResolvers<ContextType>
     CheckRunConnection: CheckRunConnectionResolvers<ContextType>
     CheckRunEdge: CheckRunEdgeResolvers<ContextType>
+    CheckStep: CheckStepResolvers<ContextType>
+    CheckStepConnection: CheckStepConnectionResolvers<ContextType>
+    CheckStepEdge: CheckStepEdgeResolvers<ContextType>
     CheckSuite: CheckSuiteResolvers<ContextType>
     CheckSuiteConnection: CheckSuiteConnectionResolvers<ContextType>
     CheckSuiteEdge: CheckSuiteEdgeResolvers<ContextType>
@@ -34013,18 +45020,27 @@ export type Resolvers<ContextType = any> = {
     ContributionCalendarWeek: ContributionCalendarWeekResolvers<ContextType>
     ContributionsCollection: ContributionsCollectionResolvers<ContextType>
     ConvertProjectCardNoteToIssuePayload: ConvertProjectCardNoteToIssuePayloadResolvers<ContextType>
+    ConvertPullRequestToDraftPayload: ConvertPullRequestToDraftPayloadResolvers<ContextType>
     ConvertToDraftEvent: ConvertToDraftEventResolvers<ContextType>
     ConvertedNoteToIssueEvent: ConvertedNoteToIssueEventResolvers<ContextType>
+    ConvertedToDiscussionEvent: ConvertedToDiscussionEventResolvers<ContextType>
     CreateBranchProtectionRulePayload: CreateBranchProtectionRulePayloadResolvers<ContextType>
     CreateCheckRunPayload: CreateCheckRunPayloadResolvers<ContextType>
     CreateCheckSuitePayload: CreateCheckSuitePayloadResolvers<ContextType>
+    CreateCommitOnBranchPayload: CreateCommitOnBranchPayloadResolvers<ContextType>
+    CreateDiscussionPayload: CreateDiscussionPayloadResolvers<ContextType>
     CreateEnterpriseOrganizationPayload: CreateEnterpriseOrganizationPayloadResolvers<ContextType>
+    CreateEnvironmentPayload: CreateEnvironmentPayloadResolvers<ContextType>
     CreateIpAllowListEntryPayload: CreateIpAllowListEntryPayloadResolvers<ContextType>
     CreateIssuePayload: CreateIssuePayloadResolvers<ContextType>
+    CreateMigrationSourcePayload: CreateMigrationSourcePayloadResolvers<ContextType>
     CreateProjectPayload: CreateProjectPayloadResolvers<ContextType>
+    CreateProjectV2Payload: CreateProjectV2PayloadResolvers<ContextType>
     CreatePullRequestPayload: CreatePullRequestPayloadResolvers<ContextType>
     CreateRefPayload: CreateRefPayloadResolvers<ContextType>
     CreateRepositoryPayload: CreateRepositoryPayloadResolvers<ContextType>
+    CreateSponsorsTierPayload: CreateSponsorsTierPayloadResolvers<ContextType>
+    CreateSponsorshipPayload: CreateSponsorshipPayloadResolvers<ContextType>
     CreateTeamDiscussionCommentPayload: CreateTeamDiscussionCommentPayloadResolvers<ContextType>
     CreateTeamDiscussionPayload: CreateTeamDiscussionPayloadResolvers<ContextType>
     CreatedCommitContribution: CreatedCommitContributionResolvers<ContextType>
@@ -34052,18 +45068,26 @@ export type Resolvers<ContextType = any> = {
     Deletable: DeletableResolvers<ContextType>
     DeleteBranchProtectionRulePayload: DeleteBranchProtectionRulePayloadResolvers<ContextType>
     DeleteDeploymentPayload: DeleteDeploymentPayloadResolvers<ContextType>
+    DeleteDiscussionCommentPayload: DeleteDiscussionCommentPayloadResolvers<ContextType>
+    DeleteDiscussionPayload: DeleteDiscussionPayloadResolvers<ContextType>
+    DeleteEnvironmentPayload: DeleteEnvironmentPayloadResolvers<ContextType>
     DeleteIpAllowListEntryPayload: DeleteIpAllowListEntryPayloadResolvers<ContextType>
     DeleteIssueCommentPayload: DeleteIssueCommentPayloadResolvers<ContextType>
     DeleteIssuePayload: DeleteIssuePayloadResolvers<ContextType>
     DeleteProjectCardPayload: DeleteProjectCardPayloadResolvers<ContextType>
     DeleteProjectColumnPayload: DeleteProjectColumnPayloadResolvers<ContextType>
+    DeleteProjectNextItemPayload: DeleteProjectNextItemPayloadResolvers<ContextType>
     DeleteProjectPayload: DeleteProjectPayloadResolvers<ContextType>
+    DeleteProjectV2ItemPayload: DeleteProjectV2ItemPayloadResolvers<ContextType>
     DeletePullRequestReviewCommentPayload: DeletePullRequestReviewCommentPayloadResolvers<ContextType>
     DeletePullRequestReviewPayload: DeletePullRequestReviewPayloadResolvers<ContextType>
     DeleteRefPayload: DeleteRefPayloadResolvers<ContextType>
     DeleteTeamDiscussionCommentPayload: DeleteTeamDiscussionCommentPayloadResolvers<ContextType>
     DeleteTeamDiscussionPayload: DeleteTeamDiscussionPayloadResolvers<ContextType>
+    DeleteVerifiableDomainPayload: DeleteVerifiableDomainPayloadResolvers<ContextType>
     DemilestonedEvent: DemilestonedEventResolvers<ContextType>
+    DependabotUpdate: DependabotUpdateResolvers<ContextType>
+    DependabotUpdateError: DependabotUpdateErrorResolvers<ContextType>
     DeployKey: DeployKeyResolvers<ContextType>
     DeployKeyConnection: DeployKeyConnectionResolvers<ContextType>
     DeployKeyEdge: DeployKeyEdgeResolvers<ContextType>
@@ -34072,11 +45096,40 @@ export type Resolvers<ContextType = any> = {
     DeploymentConnection: DeploymentConnectionResolvers<ContextType>
     DeploymentEdge: DeploymentEdgeResolvers<ContextType>
     DeploymentEnvironmentChangedEvent: DeploymentEnvironmentChangedEventResolvers<ContextType>
+    DeploymentProtectionRule: DeploymentProtectionRuleResolvers<ContextType>
+    DeploymentProtectionRuleConnection: DeploymentProtectionRuleConnectionResolvers<ContextType>
+    DeploymentProtectionRuleEdge: DeploymentProtectionRuleEdgeResolvers<ContextType>
+    DeploymentRequest: DeploymentRequestResolvers<ContextType>
+    DeploymentRequestConnection: DeploymentRequestConnectionResolvers<ContextType>
+    DeploymentRequestEdge: DeploymentRequestEdgeResolvers<ContextType>
+    DeploymentReview: DeploymentReviewResolvers<ContextType>
+    DeploymentReviewConnection: DeploymentReviewConnectionResolvers<ContextType>
+    DeploymentReviewEdge: DeploymentReviewEdgeResolvers<ContextType>
+    DeploymentReviewer: DeploymentReviewerResolvers<ContextType>
+    DeploymentReviewerConnection: DeploymentReviewerConnectionResolvers<ContextType>
+    DeploymentReviewerEdge: DeploymentReviewerEdgeResolvers<ContextType>
     DeploymentStatus: DeploymentStatusResolvers<ContextType>
     DeploymentStatusConnection: DeploymentStatusConnectionResolvers<ContextType>
     DeploymentStatusEdge: DeploymentStatusEdgeResolvers<ContextType>
+    DisablePullRequestAutoMergePayload: DisablePullRequestAutoMergePayloadResolvers<ContextType>
     DisconnectedEvent: DisconnectedEventResolvers<ContextType>
+    Discussion: DiscussionResolvers<ContextType>
+    DiscussionCategory: DiscussionCategoryResolvers<ContextType>
+    DiscussionCategoryConnection: DiscussionCategoryConnectionResolvers<ContextType>
+    DiscussionCategoryEdge: DiscussionCategoryEdgeResolvers<ContextType>
+    DiscussionComment: DiscussionCommentResolvers<ContextType>
+    DiscussionCommentConnection: DiscussionCommentConnectionResolvers<ContextType>
+    DiscussionCommentEdge: DiscussionCommentEdgeResolvers<ContextType>
+    DiscussionConnection: DiscussionConnectionResolvers<ContextType>
+    DiscussionEdge: DiscussionEdgeResolvers<ContextType>
+    DiscussionPoll: DiscussionPollResolvers<ContextType>
+    DiscussionPollOption: DiscussionPollOptionResolvers<ContextType>
+    DiscussionPollOptionConnection: DiscussionPollOptionConnectionResolvers<ContextType>
+    DiscussionPollOptionEdge: DiscussionPollOptionEdgeResolvers<ContextType>
     DismissPullRequestReviewPayload: DismissPullRequestReviewPayloadResolvers<ContextType>
+    DismissRepositoryVulnerabilityAlertPayload: DismissRepositoryVulnerabilityAlertPayloadResolvers<ContextType>
+    DraftIssue: DraftIssueResolvers<ContextType>
+    EnablePullRequestAutoMergePayload: EnablePullRequestAutoMergePayloadResolvers<ContextType>
     Enterprise: EnterpriseResolvers<ContextType>
     EnterpriseAdministratorConnection: EnterpriseAdministratorConnectionResolvers<ContextType>
     EnterpriseAdministratorEdge: EnterpriseAdministratorEdgeResolvers<ContextType>
@@ -34094,8 +45147,6 @@ export type Resolvers<ContextType = any> = {
     EnterpriseOutsideCollaboratorConnection: EnterpriseOutsideCollaboratorConnectionResolvers<ContextType>
     EnterpriseOutsideCollaboratorEdge: EnterpriseOutsideCollaboratorEdgeResolvers<ContextType>
     EnterpriseOwnerInfo: EnterpriseOwnerInfoResolvers<ContextType>
-    EnterprisePendingCollaboratorConnection: EnterprisePendingCollaboratorConnectionResolvers<ContextType>
-    EnterprisePendingCollaboratorEdge: EnterprisePendingCollaboratorEdgeResolvers<ContextType>
     EnterprisePendingMemberInvitationConnection: EnterprisePendingMemberInvitationConnectionResolvers<ContextType>
     EnterprisePendingMemberInvitationEdge: EnterprisePendingMemberInvitationEdgeResolvers<ContextType>
     EnterpriseRepositoryInfo: EnterpriseRepositoryInfoResolvers<ContextType>
@@ -34116,11 +45167,16 @@ export type Resolvers<ContextType = any> = {
     EnterpriseUserAccount: EnterpriseUserAccountResolvers<ContextType>
     EnterpriseUserAccountConnection: EnterpriseUserAccountConnectionResolvers<ContextType>
     EnterpriseUserAccountEdge: EnterpriseUserAccountEdgeResolvers<ContextType>
+    Environment: EnvironmentResolvers<ContextType>
+    EnvironmentConnection: EnvironmentConnectionResolvers<ContextType>
+    EnvironmentEdge: EnvironmentEdgeResolvers<ContextType>
     ExternalIdentity: ExternalIdentityResolvers<ContextType>
+    ExternalIdentityAttribute: ExternalIdentityAttributeResolvers<ContextType>
     ExternalIdentityConnection: ExternalIdentityConnectionResolvers<ContextType>
     ExternalIdentityEdge: ExternalIdentityEdgeResolvers<ContextType>
     ExternalIdentitySamlAttributes: ExternalIdentitySamlAttributesResolvers<ContextType>
     ExternalIdentityScimAttributes: ExternalIdentityScimAttributesResolvers<ContextType>
+    FollowOrganizationPayload: FollowOrganizationPayloadResolvers<ContextType>
     FollowUserPayload: FollowUserPayloadResolvers<ContextType>
     FollowerConnection: FollowerConnectionResolvers<ContextType>
     FollowingConnection: FollowingConnectionResolvers<ContextType>
@@ -34143,6 +45199,8 @@ export type Resolvers<ContextType = any> = {
     GitSignature: GitSignatureResolvers<ContextType>
     GitTimestamp: GraphQLScalarType
     GpgSignature: GpgSignatureResolvers<ContextType>
+    GrantEnterpriseOrganizationsMigratorRolePayload: GrantEnterpriseOrganizationsMigratorRolePayloadResolvers<ContextType>
+    GrantMigratorRolePayload: GrantMigratorRolePayloadResolvers<ContextType>
     HTML: GraphQLScalarType
     HeadRefDeletedEvent: HeadRefDeletedEventResolvers<ContextType>
     HeadRefForcePushedEvent: HeadRefForcePushedEventResolvers<ContextType>
@@ -34185,6 +45243,7 @@ export type Resolvers<ContextType = any> = {
     Lockable: LockableResolvers<ContextType>
     LockedEvent: LockedEventResolvers<ContextType>
     Mannequin: MannequinResolvers<ContextType>
+    MarkDiscussionCommentAsAnswerPayload: MarkDiscussionCommentAsAnswerPayloadResolvers<ContextType>
     MarkFileAsViewedPayload: MarkFileAsViewedPayloadResolvers<ContextType>
     MarkPullRequestReadyForReviewPayload: MarkPullRequestReadyForReviewPayloadResolvers<ContextType>
     MarkedAsDuplicateEvent: MarkedAsDuplicateEventResolvers<ContextType>
@@ -34200,6 +45259,8 @@ export type Resolvers<ContextType = any> = {
     MergeBranchPayload: MergeBranchPayloadResolvers<ContextType>
     MergePullRequestPayload: MergePullRequestPayloadResolvers<ContextType>
     MergedEvent: MergedEventResolvers<ContextType>
+    Migration: MigrationResolvers<ContextType>
+    MigrationSource: MigrationSourceResolvers<ContextType>
     Milestone: MilestoneResolvers<ContextType>
     MilestoneConnection: MilestoneConnectionResolvers<ContextType>
     MilestoneEdge: MilestoneEdgeResolvers<ContextType>
@@ -34212,6 +45273,7 @@ export type Resolvers<ContextType = any> = {
     MovedColumnsInProjectEvent: MovedColumnsInProjectEventResolvers<ContextType>
     Mutation: MutationResolvers<ContextType>
     Node: NodeResolvers<ContextType>
+    OIDCProvider: OidcProviderResolvers<ContextType>
     OauthApplicationAuditEntryData: OauthApplicationAuditEntryDataResolvers<ContextType>
     OauthApplicationCreateAuditEntry: OauthApplicationCreateAuditEntryResolvers<ContextType>
     OrgAddBillingManagerAuditEntry: OrgAddBillingManagerAuditEntryResolvers<ContextType>
@@ -34251,12 +45313,15 @@ export type Resolvers<ContextType = any> = {
     OrganizationAuditEntryEdge: OrganizationAuditEntryEdgeResolvers<ContextType>
     OrganizationConnection: OrganizationConnectionResolvers<ContextType>
     OrganizationEdge: OrganizationEdgeResolvers<ContextType>
+    OrganizationEnterpriseOwnerConnection: OrganizationEnterpriseOwnerConnectionResolvers<ContextType>
+    OrganizationEnterpriseOwnerEdge: OrganizationEnterpriseOwnerEdgeResolvers<ContextType>
     OrganizationIdentityProvider: OrganizationIdentityProviderResolvers<ContextType>
     OrganizationInvitation: OrganizationInvitationResolvers<ContextType>
     OrganizationInvitationConnection: OrganizationInvitationConnectionResolvers<ContextType>
     OrganizationInvitationEdge: OrganizationInvitationEdgeResolvers<ContextType>
     OrganizationMemberConnection: OrganizationMemberConnectionResolvers<ContextType>
     OrganizationMemberEdge: OrganizationMemberEdgeResolvers<ContextType>
+    OrganizationOrUser: OrganizationOrUserResolvers<ContextType>
     OrganizationTeamsHovercardContext: OrganizationTeamsHovercardContextResolvers<ContextType>
     OrganizationsHovercardContext: OrganizationsHovercardContextResolvers<ContextType>
     Package: PackageResolvers<ContextType>
@@ -34275,10 +45340,17 @@ export type Resolvers<ContextType = any> = {
     PageInfo: PageInfoResolvers<ContextType>
     PermissionGranter: PermissionGranterResolvers<ContextType>
     PermissionSource: PermissionSourceResolvers<ContextType>
+    PinIssuePayload: PinIssuePayloadResolvers<ContextType>
     PinnableItem: PinnableItemResolvers<ContextType>
     PinnableItemConnection: PinnableItemConnectionResolvers<ContextType>
     PinnableItemEdge: PinnableItemEdgeResolvers<ContextType>
+    PinnedDiscussion: PinnedDiscussionResolvers<ContextType>
+    PinnedDiscussionConnection: PinnedDiscussionConnectionResolvers<ContextType>
+    PinnedDiscussionEdge: PinnedDiscussionEdgeResolvers<ContextType>
     PinnedEvent: PinnedEventResolvers<ContextType>
+    PinnedIssue: PinnedIssueResolvers<ContextType>
+    PinnedIssueConnection: PinnedIssueConnectionResolvers<ContextType>
+    PinnedIssueEdge: PinnedIssueEdgeResolvers<ContextType>
     PreciseDateTime: GraphQLScalarType
     PrivateRepositoryForkingDisableAuditEntry: PrivateRepositoryForkingDisableAuditEntryResolvers<ContextType>
     PrivateRepositoryForkingEnableAuditEntry: PrivateRepositoryForkingEnableAuditEntryResolvers<ContextType>
@@ -34294,8 +45366,68 @@ export type Resolvers<ContextType = any> = {
     ProjectColumnEdge: ProjectColumnEdgeResolvers<ContextType>
     ProjectConnection: ProjectConnectionResolvers<ContextType>
     ProjectEdge: ProjectEdgeResolvers<ContextType>
+    ProjectNext: ProjectNextResolvers<ContextType>
+    ProjectNextConnection: ProjectNextConnectionResolvers<ContextType>
+    ProjectNextEdge: ProjectNextEdgeResolvers<ContextType>
+    ProjectNextField: ProjectNextFieldResolvers<ContextType>
+    ProjectNextFieldCommon: ProjectNextFieldCommonResolvers<ContextType>
+    ProjectNextFieldConnection: ProjectNextFieldConnectionResolvers<ContextType>
+    ProjectNextFieldEdge: ProjectNextFieldEdgeResolvers<ContextType>
+    ProjectNextItem: ProjectNextItemResolvers<ContextType>
+    ProjectNextItemConnection: ProjectNextItemConnectionResolvers<ContextType>
+    ProjectNextItemContent: ProjectNextItemContentResolvers<ContextType>
+    ProjectNextItemEdge: ProjectNextItemEdgeResolvers<ContextType>
+    ProjectNextItemFieldValue: ProjectNextItemFieldValueResolvers<ContextType>
+    ProjectNextItemFieldValueConnection: ProjectNextItemFieldValueConnectionResolvers<ContextType>
+    ProjectNextItemFieldValueEdge: ProjectNextItemFieldValueEdgeResolvers<ContextType>
+    ProjectNextOwner: ProjectNextOwnerResolvers<ContextType>
     ProjectOwner: ProjectOwnerResolvers<ContextType>
     ProjectProgress: ProjectProgressResolvers<ContextType>
+    ProjectV2: ProjectV2Resolvers<ContextType>
+    ProjectV2Connection: ProjectV2ConnectionResolvers<ContextType>
+    ProjectV2Edge: ProjectV2EdgeResolvers<ContextType>
+    ProjectV2Field: ProjectV2FieldResolvers<ContextType>
+    ProjectV2FieldCommon: ProjectV2FieldCommonResolvers<ContextType>
+    ProjectV2FieldConfiguration: ProjectV2FieldConfigurationResolvers<ContextType>
+    ProjectV2FieldConfigurationConnection: ProjectV2FieldConfigurationConnectionResolvers<ContextType>
+    ProjectV2FieldConfigurationEdge: ProjectV2FieldConfigurationEdgeResolvers<ContextType>
+    ProjectV2FieldConnection: ProjectV2FieldConnectionResolvers<ContextType>
+    ProjectV2FieldEdge: ProjectV2FieldEdgeResolvers<ContextType>
+    ProjectV2Item: ProjectV2ItemResolvers<ContextType>
+    ProjectV2ItemConnection: ProjectV2ItemConnectionResolvers<ContextType>
+    ProjectV2ItemContent: ProjectV2ItemContentResolvers<ContextType>
+    ProjectV2ItemEdge: ProjectV2ItemEdgeResolvers<ContextType>
+    ProjectV2ItemFieldDateValue: ProjectV2ItemFieldDateValueResolvers<ContextType>
+    ProjectV2ItemFieldIterationValue: ProjectV2ItemFieldIterationValueResolvers<ContextType>
+    ProjectV2ItemFieldLabelValue: ProjectV2ItemFieldLabelValueResolvers<ContextType>
+    ProjectV2ItemFieldMilestoneValue: ProjectV2ItemFieldMilestoneValueResolvers<ContextType>
+    ProjectV2ItemFieldNumberValue: ProjectV2ItemFieldNumberValueResolvers<ContextType>
+    ProjectV2ItemFieldPullRequestValue: ProjectV2ItemFieldPullRequestValueResolvers<ContextType>
+    ProjectV2ItemFieldRepositoryValue: ProjectV2ItemFieldRepositoryValueResolvers<ContextType>
+    ProjectV2ItemFieldReviewerValue: ProjectV2ItemFieldReviewerValueResolvers<ContextType>
+    ProjectV2ItemFieldSingleSelectValue: ProjectV2ItemFieldSingleSelectValueResolvers<ContextType>
+    ProjectV2ItemFieldTextValue: ProjectV2ItemFieldTextValueResolvers<ContextType>
+    ProjectV2ItemFieldUserValue: ProjectV2ItemFieldUserValueResolvers<ContextType>
+    ProjectV2ItemFieldValue: ProjectV2ItemFieldValueResolvers<ContextType>
+    ProjectV2ItemFieldValueCommon: ProjectV2ItemFieldValueCommonResolvers<ContextType>
+    ProjectV2ItemFieldValueConnection: ProjectV2ItemFieldValueConnectionResolvers<ContextType>
+    ProjectV2ItemFieldValueEdge: ProjectV2ItemFieldValueEdgeResolvers<ContextType>
+    ProjectV2IterationField: ProjectV2IterationFieldResolvers<ContextType>
+    ProjectV2IterationFieldConfiguration: ProjectV2IterationFieldConfigurationResolvers<ContextType>
+    ProjectV2IterationFieldIteration: ProjectV2IterationFieldIterationResolvers<ContextType>
+    ProjectV2Owner: ProjectV2OwnerResolvers<ContextType>
+    ProjectV2Recent: ProjectV2RecentResolvers<ContextType>
+    ProjectV2SingleSelectField: ProjectV2SingleSelectFieldResolvers<ContextType>
+    ProjectV2SingleSelectFieldOption: ProjectV2SingleSelectFieldOptionResolvers<ContextType>
+    ProjectV2SortBy: ProjectV2SortByResolvers<ContextType>
+    ProjectV2SortByConnection: ProjectV2SortByConnectionResolvers<ContextType>
+    ProjectV2SortByEdge: ProjectV2SortByEdgeResolvers<ContextType>
+    ProjectV2View: ProjectV2ViewResolvers<ContextType>
+    ProjectV2ViewConnection: ProjectV2ViewConnectionResolvers<ContextType>
+    ProjectV2ViewEdge: ProjectV2ViewEdgeResolvers<ContextType>
+    ProjectView: ProjectViewResolvers<ContextType>
+    ProjectViewConnection: ProjectViewConnectionResolvers<ContextType>
+    ProjectViewEdge: ProjectViewEdgeResolvers<ContextType>
     PublicKey: PublicKeyResolvers<ContextType>
     PublicKeyConnection: PublicKeyConnectionResolvers<ContextType>
     PublicKeyEdge: PublicKeyEdgeResolvers<ContextType>
@@ -34321,6 +45453,7 @@ export type Resolvers<ContextType = any> = {
     PullRequestReviewThreadConnection: PullRequestReviewThreadConnectionResolvers<ContextType>
     PullRequestReviewThreadEdge: PullRequestReviewThreadEdgeResolvers<ContextType>
     PullRequestRevisionMarker: PullRequestRevisionMarkerResolvers<ContextType>
+    PullRequestTemplate: PullRequestTemplateResolvers<ContextType>
     PullRequestTimelineConnection: PullRequestTimelineConnectionResolvers<ContextType>
     PullRequestTimelineItem: PullRequestTimelineItemResolvers<ContextType>
     PullRequestTimelineItemEdge: PullRequestTimelineItemEdgeResolvers<ContextType>
@@ -34341,6 +45474,9 @@ export type Resolvers<ContextType = any> = {
     ReactionConnection: ReactionConnectionResolvers<ContextType>
     ReactionEdge: ReactionEdgeResolvers<ContextType>
     ReactionGroup: ReactionGroupResolvers<ContextType>
+    Reactor: ReactorResolvers<ContextType>
+    ReactorConnection: ReactorConnectionResolvers<ContextType>
+    ReactorEdge: ReactorEdgeResolvers<ContextType>
     ReadyForReviewEvent: ReadyForReviewEventResolvers<ContextType>
     Ref: RefResolvers<ContextType>
     RefConnection: RefConnectionResolvers<ContextType>
@@ -34349,6 +45485,8 @@ export type Resolvers<ContextType = any> = {
     ReferencedEvent: ReferencedEventResolvers<ContextType>
     ReferencedSubject: ReferencedSubjectResolvers<ContextType>
     RegenerateEnterpriseIdentityProviderRecoveryCodesPayload: RegenerateEnterpriseIdentityProviderRecoveryCodesPayloadResolvers<ContextType>
+    RegenerateVerifiableDomainTokenPayload: RegenerateVerifiableDomainTokenPayloadResolvers<ContextType>
+    RejectDeploymentsPayload: RejectDeploymentsPayloadResolvers<ContextType>
     Release: ReleaseResolvers<ContextType>
     ReleaseAsset: ReleaseAssetResolvers<ContextType>
     ReleaseAssetConnection: ReleaseAssetConnectionResolvers<ContextType>
@@ -34364,6 +45502,7 @@ export type Resolvers<ContextType = any> = {
     RemoveOutsideCollaboratorPayload: RemoveOutsideCollaboratorPayloadResolvers<ContextType>
     RemoveReactionPayload: RemoveReactionPayloadResolvers<ContextType>
     RemoveStarPayload: RemoveStarPayloadResolvers<ContextType>
+    RemoveUpvotePayload: RemoveUpvotePayloadResolvers<ContextType>
     RemovedFromProjectEvent: RemovedFromProjectEventResolvers<ContextType>
     RenamedTitleEvent: RenamedTitleEventResolvers<ContextType>
     RenamedTitleSubject: RenamedTitleSubjectResolvers<ContextType>
@@ -34391,16 +45530,23 @@ export type Resolvers<ContextType = any> = {
     RepoRemoveTopicAuditEntry: RepoRemoveTopicAuditEntryResolvers<ContextType>
     Repository: RepositoryResolvers<ContextType>
     RepositoryAuditEntryData: RepositoryAuditEntryDataResolvers<ContextType>
+    RepositoryCodeowners: RepositoryCodeownersResolvers<ContextType>
+    RepositoryCodeownersError: RepositoryCodeownersErrorResolvers<ContextType>
     RepositoryCollaboratorConnection: RepositoryCollaboratorConnectionResolvers<ContextType>
     RepositoryCollaboratorEdge: RepositoryCollaboratorEdgeResolvers<ContextType>
     RepositoryConnection: RepositoryConnectionResolvers<ContextType>
     RepositoryContactLink: RepositoryContactLinkResolvers<ContextType>
+    RepositoryDiscussionAuthor: RepositoryDiscussionAuthorResolvers<ContextType>
+    RepositoryDiscussionCommentAuthor: RepositoryDiscussionCommentAuthorResolvers<ContextType>
     RepositoryEdge: RepositoryEdgeResolvers<ContextType>
     RepositoryInfo: RepositoryInfoResolvers<ContextType>
     RepositoryInteractionAbility: RepositoryInteractionAbilityResolvers<ContextType>
     RepositoryInvitation: RepositoryInvitationResolvers<ContextType>
     RepositoryInvitationConnection: RepositoryInvitationConnectionResolvers<ContextType>
     RepositoryInvitationEdge: RepositoryInvitationEdgeResolvers<ContextType>
+    RepositoryMigration: RepositoryMigrationResolvers<ContextType>
+    RepositoryMigrationConnection: RepositoryMigrationConnectionResolvers<ContextType>
+    RepositoryMigrationEdge: RepositoryMigrationEdgeResolvers<ContextType>
     RepositoryNode: RepositoryNodeResolvers<ContextType>
     RepositoryOwner: RepositoryOwnerResolvers<ContextType>
     RepositoryTopic: RepositoryTopicResolvers<ContextType>
@@ -34413,6 +45559,10 @@ export type Resolvers<ContextType = any> = {
     RepositoryVulnerabilityAlertEdge: RepositoryVulnerabilityAlertEdgeResolvers<ContextType>
     RequestReviewsPayload: RequestReviewsPayloadResolvers<ContextType>
     RequestedReviewer: RequestedReviewerResolvers<ContextType>
+    RequestedReviewerConnection: RequestedReviewerConnectionResolvers<ContextType>
+    RequestedReviewerEdge: RequestedReviewerEdgeResolvers<ContextType>
+    RequirableByPullRequest: RequirableByPullRequestResolvers<ContextType>
+    RequiredStatusCheckDescription: RequiredStatusCheckDescriptionResolvers<ContextType>
     RerequestCheckSuitePayload: RerequestCheckSuitePayloadResolvers<ContextType>
     ResolveReviewThreadPayload: ResolveReviewThreadPayloadResolvers<ContextType>
     RestrictedContribution: RestrictedContributionResolvers<ContextType>
@@ -34427,6 +45577,8 @@ export type Resolvers<ContextType = any> = {
     ReviewRequestRemovedEvent: ReviewRequestRemovedEventResolvers<ContextType>
     ReviewRequestedEvent: ReviewRequestedEventResolvers<ContextType>
     ReviewStatusHovercardContext: ReviewStatusHovercardContextResolvers<ContextType>
+    RevokeEnterpriseOrganizationsMigratorRolePayload: RevokeEnterpriseOrganizationsMigratorRolePayloadResolvers<ContextType>
+    RevokeMigratorRolePayload: RevokeMigratorRolePayloadResolvers<ContextType>
     SavedReply: SavedReplyResolvers<ContextType>
     SavedReplyConnection: SavedReplyConnectionResolvers<ContextType>
     SavedReplyEdge: SavedReplyEdgeResolvers<ContextType>
@@ -34448,8 +45600,18 @@ export type Resolvers<ContextType = any> = {
     SetRepositoryInteractionLimitPayload: SetRepositoryInteractionLimitPayloadResolvers<ContextType>
     SetUserInteractionLimitPayload: SetUserInteractionLimitPayloadResolvers<ContextType>
     SmimeSignature: SmimeSignatureResolvers<ContextType>
+    SortBy: SortByResolvers<ContextType>
     Sponsor: SponsorResolvers<ContextType>
+    SponsorConnection: SponsorConnectionResolvers<ContextType>
+    SponsorEdge: SponsorEdgeResolvers<ContextType>
     Sponsorable: SponsorableResolvers<ContextType>
+    SponsorableItem: SponsorableItemResolvers<ContextType>
+    SponsorableItemConnection: SponsorableItemConnectionResolvers<ContextType>
+    SponsorableItemEdge: SponsorableItemEdgeResolvers<ContextType>
+    SponsorsActivity: SponsorsActivityResolvers<ContextType>
+    SponsorsActivityConnection: SponsorsActivityConnectionResolvers<ContextType>
+    SponsorsActivityEdge: SponsorsActivityEdgeResolvers<ContextType>
+    SponsorsGoal: SponsorsGoalResolvers<ContextType>
     SponsorsListing: SponsorsListingResolvers<ContextType>
     SponsorsTier: SponsorsTierResolvers<ContextType>
     SponsorsTierAdminInfo: SponsorsTierAdminInfoResolvers<ContextType>
@@ -34458,11 +45620,15 @@ export type Resolvers<ContextType = any> = {
     Sponsorship: SponsorshipResolvers<ContextType>
     SponsorshipConnection: SponsorshipConnectionResolvers<ContextType>
     SponsorshipEdge: SponsorshipEdgeResolvers<ContextType>
+    SponsorshipNewsletter: SponsorshipNewsletterResolvers<ContextType>
+    SponsorshipNewsletterConnection: SponsorshipNewsletterConnectionResolvers<ContextType>
+    SponsorshipNewsletterEdge: SponsorshipNewsletterEdgeResolvers<ContextType>
     StargazerConnection: StargazerConnectionResolvers<ContextType>
     StargazerEdge: StargazerEdgeResolvers<ContextType>
     Starrable: StarrableResolvers<ContextType>
     StarredRepositoryConnection: StarredRepositoryConnectionResolvers<ContextType>
     StarredRepositoryEdge: StarredRepositoryEdgeResolvers<ContextType>
+    StartRepositoryMigrationPayload: StartRepositoryMigrationPayloadResolvers<ContextType>
     Status: StatusResolvers<ContextType>
     StatusCheckRollup: StatusCheckRollupResolvers<ContextType>
     StatusCheckRollupContext: StatusCheckRollupContextResolvers<ContextType>
@@ -34507,6 +45673,7 @@ export type Resolvers<ContextType = any> = {
     URI: GraphQLScalarType
     UnarchiveRepositoryPayload: UnarchiveRepositoryPayloadResolvers<ContextType>
     UnassignedEvent: UnassignedEventResolvers<ContextType>
+    UnfollowOrganizationPayload: UnfollowOrganizationPayloadResolvers<ContextType>
     UnfollowUserPayload: UnfollowUserPayloadResolvers<ContextType>
     UniformResourceLocatable: UniformResourceLocatableResolvers<ContextType>
     UnknownSignature: UnknownSignatureResolvers<ContextType>
@@ -34514,10 +45681,12 @@ export type Resolvers<ContextType = any> = {
     UnlinkRepositoryFromProjectPayload: UnlinkRepositoryFromProjectPayloadResolvers<ContextType>
     UnlockLockablePayload: UnlockLockablePayloadResolvers<ContextType>
     UnlockedEvent: UnlockedEventResolvers<ContextType>
+    UnmarkDiscussionCommentAsAnswerPayload: UnmarkDiscussionCommentAsAnswerPayloadResolvers<ContextType>
     UnmarkFileAsViewedPayload: UnmarkFileAsViewedPayloadResolvers<ContextType>
     UnmarkIssueAsDuplicatePayload: UnmarkIssueAsDuplicatePayloadResolvers<ContextType>
     UnmarkedAsDuplicateEvent: UnmarkedAsDuplicateEventResolvers<ContextType>
     UnminimizeCommentPayload: UnminimizeCommentPayloadResolvers<ContextType>
+    UnpinIssuePayload: UnpinIssuePayloadResolvers<ContextType>
     UnpinnedEvent: UnpinnedEventResolvers<ContextType>
     UnresolveReviewThreadPayload: UnresolveReviewThreadPayloadResolvers<ContextType>
     UnsubscribedEvent: UnsubscribedEventResolvers<ContextType>
@@ -34526,6 +45695,8 @@ export type Resolvers<ContextType = any> = {
     UpdateBranchProtectionRulePayload: UpdateBranchProtectionRulePayloadResolvers<ContextType>
     UpdateCheckRunPayload: UpdateCheckRunPayloadResolvers<ContextType>
     UpdateCheckSuitePreferencesPayload: UpdateCheckSuitePreferencesPayloadResolvers<ContextType>
+    UpdateDiscussionCommentPayload: UpdateDiscussionCommentPayloadResolvers<ContextType>
+    UpdateDiscussionPayload: UpdateDiscussionPayloadResolvers<ContextType>
     UpdateEnterpriseAdministratorRolePayload: UpdateEnterpriseAdministratorRolePayloadResolvers<ContextType>
     UpdateEnterpriseAllowPrivateRepositoryForkingSettingPayload: UpdateEnterpriseAllowPrivateRepositoryForkingSettingPayloadResolvers<ContextType>
     UpdateEnterpriseDefaultRepositoryPermissionSettingPayload: UpdateEnterpriseDefaultRepositoryPermissionSettingPayloadResolvers<ContextType>
@@ -34538,25 +45709,40 @@ export type Resolvers<ContextType = any> = {
     UpdateEnterpriseMembersCanUpdateProtectedBranchesSettingPayload: UpdateEnterpriseMembersCanUpdateProtectedBranchesSettingPayloadResolvers<ContextType>
     UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayload: UpdateEnterpriseMembersCanViewDependencyInsightsSettingPayloadResolvers<ContextType>
     UpdateEnterpriseOrganizationProjectsSettingPayload: UpdateEnterpriseOrganizationProjectsSettingPayloadResolvers<ContextType>
+    UpdateEnterpriseOwnerOrganizationRolePayload: UpdateEnterpriseOwnerOrganizationRolePayloadResolvers<ContextType>
     UpdateEnterpriseProfilePayload: UpdateEnterpriseProfilePayloadResolvers<ContextType>
     UpdateEnterpriseRepositoryProjectsSettingPayload: UpdateEnterpriseRepositoryProjectsSettingPayloadResolvers<ContextType>
     UpdateEnterpriseTeamDiscussionsSettingPayload: UpdateEnterpriseTeamDiscussionsSettingPayloadResolvers<ContextType>
     UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayload: UpdateEnterpriseTwoFactorAuthenticationRequiredSettingPayloadResolvers<ContextType>
+    UpdateEnvironmentPayload: UpdateEnvironmentPayloadResolvers<ContextType>
     UpdateIpAllowListEnabledSettingPayload: UpdateIpAllowListEnabledSettingPayloadResolvers<ContextType>
     UpdateIpAllowListEntryPayload: UpdateIpAllowListEntryPayloadResolvers<ContextType>
+    UpdateIpAllowListForInstalledAppsEnabledSettingPayload: UpdateIpAllowListForInstalledAppsEnabledSettingPayloadResolvers<ContextType>
     UpdateIssueCommentPayload: UpdateIssueCommentPayloadResolvers<ContextType>
     UpdateIssuePayload: UpdateIssuePayloadResolvers<ContextType>
+    UpdateNotificationRestrictionSettingPayload: UpdateNotificationRestrictionSettingPayloadResolvers<ContextType>
+    UpdateOrganizationAllowPrivateRepositoryForkingSettingPayload: UpdateOrganizationAllowPrivateRepositoryForkingSettingPayloadResolvers<ContextType>
     UpdateProjectCardPayload: UpdateProjectCardPayloadResolvers<ContextType>
     UpdateProjectColumnPayload: UpdateProjectColumnPayloadResolvers<ContextType>
+    UpdateProjectDraftIssuePayload: UpdateProjectDraftIssuePayloadResolvers<ContextType>
+    UpdateProjectNextItemFieldPayload: UpdateProjectNextItemFieldPayloadResolvers<ContextType>
+    UpdateProjectNextPayload: UpdateProjectNextPayloadResolvers<ContextType>
     UpdateProjectPayload: UpdateProjectPayloadResolvers<ContextType>
+    UpdateProjectV2DraftIssuePayload: UpdateProjectV2DraftIssuePayloadResolvers<ContextType>
+    UpdateProjectV2ItemFieldValuePayload: UpdateProjectV2ItemFieldValuePayloadResolvers<ContextType>
+    UpdateProjectV2ItemPositionPayload: UpdateProjectV2ItemPositionPayloadResolvers<ContextType>
+    UpdateProjectV2Payload: UpdateProjectV2PayloadResolvers<ContextType>
+    UpdatePullRequestBranchPayload: UpdatePullRequestBranchPayloadResolvers<ContextType>
     UpdatePullRequestPayload: UpdatePullRequestPayloadResolvers<ContextType>
     UpdatePullRequestReviewCommentPayload: UpdatePullRequestReviewCommentPayloadResolvers<ContextType>
     UpdatePullRequestReviewPayload: UpdatePullRequestReviewPayloadResolvers<ContextType>
     UpdateRefPayload: UpdateRefPayloadResolvers<ContextType>
     UpdateRepositoryPayload: UpdateRepositoryPayloadResolvers<ContextType>
+    UpdateSponsorshipPreferencesPayload: UpdateSponsorshipPreferencesPayloadResolvers<ContextType>
     UpdateSubscriptionPayload: UpdateSubscriptionPayloadResolvers<ContextType>
     UpdateTeamDiscussionCommentPayload: UpdateTeamDiscussionCommentPayloadResolvers<ContextType>
     UpdateTeamDiscussionPayload: UpdateTeamDiscussionPayloadResolvers<ContextType>
+    UpdateTeamsRepositoryPayload: UpdateTeamsRepositoryPayloadResolvers<ContextType>
     UpdateTopicsPayload: UpdateTopicsPayloadResolvers<ContextType>
     User: UserResolvers<ContextType>
     UserBlockedEvent: UserBlockedEventResolvers<ContextType>
@@ -34569,7 +45755,15 @@ export type Resolvers<ContextType = any> = {
     UserStatus: UserStatusResolvers<ContextType>
     UserStatusConnection: UserStatusConnectionResolvers<ContextType>
     UserStatusEdge: UserStatusEdgeResolvers<ContextType>
+    VerifiableDomain: VerifiableDomainResolvers<ContextType>
+    VerifiableDomainConnection: VerifiableDomainConnectionResolvers<ContextType>
+    VerifiableDomainEdge: VerifiableDomainEdgeResolvers<ContextType>
+    VerifiableDomainOwner: VerifiableDomainOwnerResolvers<ContextType>
+    VerifyVerifiableDomainPayload: VerifyVerifiableDomainPayloadResolvers<ContextType>
     ViewerHovercardContext: ViewerHovercardContextResolvers<ContextType>
+    Votable: VotableResolvers<ContextType>
+    Workflow: WorkflowResolvers<ContextType>
+    WorkflowRun: WorkflowRunResolvers<ContextType>
     X509Certificate: GraphQLScalarType
 }
 
@@ -34578,18 +45772,192 @@ export type Resolvers<ContextType = any> = {
  * Use "Resolvers" root object instead. If you wish to get "IResolvers", add "typesPrefix: I" to your config.
  */
 export type IResolvers<ContextType = any> = Resolvers<ContextType>
+export type DirectiveResolvers<ContextType = any> = {
+    requiredCapabilities: RequiredCapabilitiesDirectiveResolver<any, any, ContextType>
+}
 
+/**
+ * @deprecated
+ * Use "DirectiveResolvers" root object instead. If you wish to get "IDirectiveResolvers", add "typesPrefix: I" to your config.
+ */
+export type IDirectiveResolvers<ContextType = any> = DirectiveResolvers<ContextType>
+export const RepositoryMetadata = gql`
+    fragment repositoryMetadata on Repository {
+        name
+        visibility
+        isArchived
+        isFork
+        primaryLanguage {
+            name
+        }
+        repositoryTopics(first: 100) {
+            nodes {
+                topic {
+                    name
+                }
+            }
+        }
+    }
+`
+export const BranchProtection = gql`
+    fragment branchProtection on BranchProtectionRule {
+        isAdminEnforced
+        requiresApprovingReviews
+        restrictsPushes
+        pushAllowances(first: 100) {
+            nodes {
+                actor {
+                    __typename
+                    ... on User {
+                        login
+                    }
+                    ... on Team {
+                        name
+                    }
+                }
+            }
+        }
+        bypassPullRequestAllowances(first: 100) @include(if: $bypassAllowances) {
+            nodes {
+                actor {
+                    __typename
+                    ... on User {
+                        login
+                    }
+                    ... on Team {
+                        name
+                    }
+                }
+            }
+        }
+    }
+`
+export const RepositoryPermissions = gql`
+    fragment repositoryPermissions on Repository {
+        ...repositoryMetadata
+        defaultBranchRef @include(if: $branchProtection) {
+            branchProtectionRule {
+                ...branchProtection
+            }
+        }
+        collaborators(affiliation: $affiliation) {
+            edges {
+                node {
+                    login
+                }
+                permissionSources {
+                    permission
+                    source {
+                        __typename
+                        ... on Organization {
+                            login
+                        }
+                        ... on Team {
+                            name
+                        }
+                        ... on Repository {
+                            name
+                        }
+                    }
+                }
+            }
+        }
+    }
+    ${RepositoryMetadata}
+    ${BranchProtection}
+`
+export const RepositoryPermissionsLegacy = gql`
+    fragment repositoryPermissionsLegacy on Repository {
+        ...repositoryMetadata
+        defaultBranchRef @include(if: $branchProtection) {
+            branchProtectionRule {
+                ...branchProtection
+            }
+        }
+        collaborators(affiliation: $affiliation) {
+            edges {
+                node {
+                    login
+                }
+                permission
+            }
+        }
+    }
+    ${RepositoryMetadata}
+    ${BranchProtection}
+`
+export const GetOrganizationOwners = gql`
+    query getOrganizationOwners($login: String!, $first: Int = 20, $after: String = null) {
+        organization(login: $login) {
+            membersWithRole(first: $first, after: $after) {
+                edges {
+                    role
+                    node {
+                        login
+                    }
+                }
+                pageInfo {
+                    endCursor
+                    hasNextPage
+                }
+            }
+        }
+    }
+`
 export const GetOrganizationPackageFiles = gql`
-    query getOrganizationPackageFiles($login: String!, $first: Int = 20, $after: String = null) {
+    query getOrganizationPackageFiles(
+        $login: String!
+        $first: Int = 20
+        $after: String = null
+        $expression: String = "HEAD:package.json"
+        $pnpmWorkspaceExpression: String = "HEAD:pnpm-workspace.yaml"
+        $lernaConfigExpression: String = "HEAD:lerna.json"
+        $verdaccioConfigExpression: String = "HEAD:.verdaccio.yml"
+        $withText: Boolean = true
+    ) {
         organization(login: $login) {
-            repositories(first: $first, after: $after) {
+            repositories(first: $first, after: $after, orderBy: { field: CREATED_AT, direction: ASC }) {
                 edges {
                     node {
-                        name
-                        object(expression: "master:package.json") {
+                        ...repositoryMetadata
+                        pushedAt
+                        defaultBranchRef {
+                            name
+                        }
+                        object(expression: $expression) {
+                            __typename
+                            oid
+                            ... on Blob {
+                                isBinary
+                                isTruncated
+                                text @include(if: $withText)
+                            }
+                        }
+                        pnpmWorkspace: object(expression: $pnpmWorkspaceExpression) {
                             __typename
+                            oid
                             ... on Blob {
-                                text
+                                isBinary
+                                isTruncated
+                                text @include(if: $withText)
+                            }
+                        }
+                        lernaConfig: object(expression: $lernaConfigExpression) {
+                            __typename
+                            oid
+                            ... on Blob {
+                                isBinary
+                                isTruncated
+                                text @include(if: $withText)
+                            }
+                        }
+                        verdaccioConfig: object(expression: $verdaccioConfigExpression) {
+                            __typename
+                            oid
+                            ... on Blob {
+                                isBinary
+                                isTruncated
+                                text @include(if: $withText)
                             }
                         }
                     }
@@ -34601,36 +45969,47 @@ export const GetOrganizationPackageFiles = gql`
             }
         }
     }
+    ${RepositoryMetadata}
 `
 export const GetOrganizationRepositoryPermissions = gql`
-    query getOrganizationRepositoryPermissions($login: String!, $first: Int = 20, $after: String = null) {
+    query getOrganizationRepositoryPermissions(
+        $login: String!
+        $first: Int = 20
+        $after: String = null
+        $branchProtection: Boolean = false
+        $bypassAllowances: Boolean = false
+        $affiliation: CollaboratorAffiliation = ALL
+    ) {
         organization(login: $login) {
             repositories(first: $first, after: $after) {
                 edges {
                     node {
-                        name
-                        collaborators {
-                            edges {
-                                node {
-                                    login
-                                }
-                                permissionSources {
-                                    permission
-                                    source {
-                                        __typename
-                                        ... on Organization {
-                                            login
-                                        }
-                                        ... on Team {
-                                            name
-                                        }
-                                        ... on Repository {
-                                            name
-                                        }
-                                    }
-                                }
-                            }
-                        }
+                        ...repositoryPermissions
+                    }
+                }
+                pageInfo {
+                    hasNextPage
+                    endCursor
+                }
+            }
+        }
+    }
+    ${RepositoryPermissions}
+`
+export const GetOrganizationRepositoryPermissionsLegacy = gql`
+    query getOrganizationRepositoryPermissionsLegacy(
+        $login: String!
+        $first: Int = 20
+        $after: String = null
+        $branchProtection: Boolean = false
+        $bypassAllowances: Boolean = false
+        $affiliation: CollaboratorAffiliation = ALL
+    ) {
+        organization(login: $login) {
+            repositories(first: $first, after: $after) {
+                edges {
+                    node {
+                        ...repositoryPermissionsLegacy
                     }
                 }
                 pageInfo {
@@ -34640,6 +46019,7 @@ export const GetOrganizationRepositoryPermissions = gql`
             }
         }
     }
+    ${RepositoryPermissionsLegacy}
 `
 export const GetOrganizationTeamNames = gql`
     query getOrganizationTeamNames($login: String!, $first: Int = 20, $after: String = null) {
@@ -34659,16 +46039,187 @@ export const GetOrganizationTeamNames = gql`
     }
 `
 export const GetOrganizationTeams = gql`
-    query getOrganizationTeams($login: String!, $first: Int = 20, $after: String = null) {
+    query getOrganizationTeams($login: String!, $first: Int = 20, $after: String = null, $membership: TeamMembershipType = ALL) {
         organization(login: $login) {
             teams(first: $first, after: $after) {
                 edges {
                     node {
                         name
-                        members(membership: ALL) {
+                        parentTeam {
+                            name
+                        }
+                        childTeams(first: 100, immediateOnly: true) {
                             nodes {
+                                name
+                            }
+                        }
+                        members(membership: $membership) {
+                            nodes {
+                                login
+                            }
+                        }
+                    }
+                }
+                pageInfo {
+                    endCursor
+                    hasNextPage
+                }
+            }
+        }
+    }
+`
+export const GetRepositoryDirectories = gql`
+    query getRepositoryDirectories($owner: String!, $name: String!, $expression: String!) {
+        repository(owner: $owner, name: $name) {
+            object(expression: $expression) {
+                __typename
+                ... on Tree {
+                    entries {
+                        name
+                        type
+                    }
+                }
+            }
+        }
+    }
+`
+export const GetRepositoryFile = gql`
+    query getRepositoryFile($owner: String!, $name: String!, $expression: String!) {
+        repository(owner: $owner, name: $name) {
+            object(expression: $expression) {
+                __typename
+                ... on Blob {
+                    oid
+                    isBinary
+                    isTruncated
+                    text
+                }
+            }
+        }
+    }
+`
+export const GetRepositoryPackageFile = gql`
+    query getRepositoryPackageFile(
+        $owner: String!
+        $name: String!
+        $expression: String!
+        $pnpmWorkspaceExpression: String!
+        $lernaConfigExpression: String!
+        $verdaccioConfigExpression: String!
+    ) {
+        repository(owner: $owner, name: $name) {
+            name
+            object(expression: $expression) {
+                __typename
+                ... on Blob {
+                    oid
+                    isBinary
+                    isTruncated
+                    text
+                }
+            }
+            pnpmWorkspace: object(expression: $pnpmWorkspaceExpression) {
+                __typename
+                ... on Blob {
+                    oid
+                    isBinary
+                    isTruncated
+                    text
+                }
+            }
+            lernaConfig: object(expression: $lernaConfigExpression) {
+                __typename
+                ... on Blob {
+                    oid
+                    isBinary
+                    isTruncated
+                    text
+                }
+            }
+            verdaccioConfig: object(expression: $verdaccioConfigExpression) {
+                __typename
+                ... on Blob {
+                    oid
+                    isBinary
+                    isTruncated
+                    text
+                }
+            }
+        }
+    }
+`
+export const GetRepositoryPermissions = gql`
+    query getRepositoryPermissions(
+        $owner: String!
+        $name: String!
+        $branchProtection: Boolean = false
+        $bypassAllowances: Boolean = false
+        $affiliation: CollaboratorAffiliation = ALL
+    ) {
+        repository(owner: $owner, name: $name) {
+            ...repositoryPermissions
+        }
+    }
+    ${RepositoryPermissions}
+`
+export const GetRepositoryPermissionsLegacy = gql`
+    query getRepositoryPermissionsLegacy(
+        $owner: String!
+        $name: String!
+        $branchProtection: Boolean = false
+        $bypassAllowances: Boolean = false
+        $affiliation: CollaboratorAffiliation = ALL
+    ) {
+        repository(owner: $owner, name: $name) {
+            ...repositoryPermissionsLegacy
+        }
+    }
+    ${RepositoryPermissionsLegacy}
+`
+export const GetSchemaFeatures = gql`
+    query getSchemaFeatures {
+        collaboratorEdge: __type(name: "RepositoryCollaboratorEdge") {
+            fields {
+                name
+            }
+        }
+        branchProtectionRule: __type(name: "BranchProtectionRule") {
+            fields {
+                name
+            }
+        }
+    }
+`
+export const VerifyEnterprise = gql`
+    query verifyEnterprise($slug: String!, $query: String!, $first: Int = 20, $after: String = null) {
+        enterprise(slug: $slug) {
+            organizations(first: 100) {
+                nodes {
+                    login
+                }
+            }
+            members(query: $query, first: $first, after: $after) {
+                edges {
+                    node {
+                        __typename
+                        ... on EnterpriseUserAccount {
+                            login
+                            user {
                                 login
                             }
+                            organizations(first: 100) {
+                                nodes {
+                                    login
+                                }
+                            }
+                        }
+                        ... on User {
+                            login
+                            organizations(first: 100) {
+                                nodes {
+                                    login
+                                }
+                            }
                         }
                     }
                 }
@@ -34704,10 +46255,76 @@ export const VerifyUserIdentity = gql`
         }
     }
 `
+export type BranchProtectionFragment = { __typename?: 'BranchProtectionRule' } & Pick<
+    BranchProtectionRule,
+    'isAdminEnforced' | 'requiresApprovingReviews' | 'restrictsPushes'
+> & {
+        pushAllowances: { __typename?: 'PushAllowanceConnection' } & {
+            nodes: Maybe<
+                Array<
+                    Maybe<
+                        { __typename?: 'PushAllowance' } & {
+                            actor: Maybe<
+                                | { __typename: 'App' }
+                                | ({ __typename: 'Team' } & Pick<Team, 'name'>)
+                                | ({ __typename: 'User' } & Pick<User, 'login'>)
+                            >
+                        }
+                    >
+                >
+            >
+        }
+        bypassPullRequestAllowances: { __typename?: 'BypassPullRequestAllowanceConnection' } & {
+            nodes: Maybe<
+                Array<
+                    Maybe<
+                        { __typename?: 'BypassPullRequestAllowance' } & {
+                            actor: Maybe<
+                                | { __typename: 'App' }
+                                | ({ __typename: 'Team' } & Pick<Team, 'name'>)
+                                | ({ __typename: 'User' } & Pick<User, 'login'>)
+                            >
+                        }
+                    >
+                >
+            >
+        }
+    }
+
+export type GetOrganizationOwnersQueryVariables = Exact<{
+    login: Scalars['String']
+    first?: Maybe<Scalars['Int']>
+    after?: Maybe<Scalars['String']>
+}>
+
+export type GetOrganizationOwnersQuery = { __typename?: 'Query' } & {
+    organization: Maybe<
+        { __typename?: 'Organization' } & {
+            membersWithRole: { __typename?: 'OrganizationMemberConnection' } & {
+                edges: Maybe<
+                    Array<
+                        Maybe<
+                            { __typename?: 'OrganizationMemberEdge' } & Pick<OrganizationMemberEdge, 'role'> & {
+                                    node: Maybe<{ __typename?: 'User' } & Pick<User, 'login'>>
+                                }
+                        >
+                    >
+                >
+                pageInfo: { __typename?: 'PageInfo' } & Pick<PageInfo, 'endCursor' | 'hasNextPage'>
+            }
+        }
+    >
+}
+
 export type GetOrganizationPackageFilesQueryVariables = Exact<{
     login: Scalars['String']
     first?: Maybe<Scalars['Int']>
     after?: Maybe<Scalars['String']>
+    expression?: Maybe<Scalars['String']>
+    pnpmWorkspaceExpression?: Maybe<Scalars['String']>
+    lernaConfigExpression?: Maybe<Scalars['String']>
+    verdaccioConfigExpression?: Maybe<Scalars['String']>
+    withText?: Maybe<Scalars['Boolean']>
 }>
 
 export type GetOrganizationPackageFilesQuery = { __typename?: 'Query' } & {
@@ -34719,14 +46336,45 @@ export type GetOrganizationPackageFilesQuery = { __typename?: 'Query' } & {
                         Maybe<
                             { __typename?: 'RepositoryEdge' } & {
                                 node: Maybe<
-                                    { __typename?: 'Repository' } & Pick<Repository, 'name'> & {
+                                    { __typename?: 'Repository' } & Pick<Repository, 'pushedAt'> & {
+                                            defaultBranchRef: Maybe<{ __typename?: 'Ref' } & Pick<Ref, 'name'>>
                                             object: Maybe<
-                                                | ({ __typename: 'Blob' } & Pick<Blob, 'text'>)
-                                                | { __typename: 'Commit' }
-                                                | { __typename: 'Tag' }
-                                                | { __typename: 'Tree' }
+                                                | ({ __typename: 'Blob' } & MakeMaybe<
+                                                      Pick<Blob, 'isBinary' | 'isTruncated' | 'text' | 'oid'>,
+                                                      'text'
+                                                  >)
+                                                | ({ __typename: 'Commit' } & Pick<Commit, 'oid'>)
+                                                | ({ __typename: 'Tag' } & Pick<Tag, 'oid'>)
+                                                | ({ __typename: 'Tree' } & Pick<Tree, 'oid'>)
                                             >
-                                        }
+                                            pnpmWorkspace: Maybe<
+                                                | ({ __typename: 'Blob' } & MakeMaybe<
+                                                      Pick<Blob, 'isBinary' | 'isTruncated' | 'text' | 'oid'>,
+                                                      'text'
+                                                  >)
+                                                | ({ __typename: 'Commit' } & Pick<Commit, 'oid'>)
+                                                | ({ __typename: 'Tag' } & Pick<Tag, 'oid'>)
+                                                | ({ __typename: 'Tree' } & Pick<Tree, 'oid'>)
+                                            >
+                                            lernaConfig: Maybe<
+                                                | ({ __typename: 'Blob' } & MakeMaybe<
+                                                      Pick<Blob, 'isBinary' | 'isTruncated' | 'text' | 'oid'>,
+                                                      'text'
+                                                  >)
+                                                | ({ __typename: 'Commit' } & Pick<Commit, 'oid'>)
+                                                | ({ __typename: 'Tag' } & Pick<Tag, 'oid'>)
+                                                | ({ __typename: 'Tree' } & Pick<Tree, 'oid'>)
+                                            >
+                                            verdaccioConfig: Maybe<
+                                                | ({ __typename: 'Blob' } & MakeMaybe<
+                                                      Pick<Blob, 'isBinary' | 'isTruncated' | 'text' | 'oid'>,
+                                                      'text'
+                                                  >)
+                                                | ({ __typename: 'Commit' } & Pick<Commit, 'oid'>)
+                                                | ({ __typename: 'Tag' } & Pick<Tag, 'oid'>)
+                                                | ({ __typename: 'Tree' } & Pick<Tree, 'oid'>)
+                                            >
+                                        } & RepositoryMetadataFragment
                                 >
                             }
                         >
@@ -34742,6 +46390,9 @@ export type GetOrganizationRepositoryPermissionsQueryVariables = Exact<{
     login: Scalars['String']
     first?: Maybe<Scalars['Int']>
     after?: Maybe<Scalars['String']>
+    branchProtection?: Maybe<Scalars['Boolean']>
+    bypassAllowances?: Maybe<Scalars['Boolean']>
+    affiliation?: Maybe<CollaboratorAffiliation>
 }>
 
 export type GetOrganizationRepositoryPermissionsQuery = { __typename?: 'Query' } & {
@@ -34752,45 +46403,35 @@ export type GetOrganizationRepositoryPermissionsQuery = { __typename?: 'Query' }
                     Array<
                         Maybe<
                             { __typename?: 'RepositoryEdge' } & {
-                                node: Maybe<
-                                    { __typename?: 'Repository' } & Pick<Repository, 'name'> & {
-                                            collaborators: Maybe<
-                                                { __typename?: 'RepositoryCollaboratorConnection' } & {
-                                                    edges: Maybe<
-                                                        Array<
-                                                            Maybe<
-                                                                { __typename?: 'RepositoryCollaboratorEdge' } & {
-                                                                    node: { __typename?: 'User' } & Pick<User, 'login'>
-                                                                    permissionSources: Maybe<
-                                                                        Array<
-                                                                            { __typename?: 'PermissionSource' } & Pick<
-                                                                                PermissionSource,
-                                                                                'permission'
-                                                                            > & {
-                                                                                    source:
-                                                                                        | ({ __typename: 'Organization' } & Pick<
-                                                                                              Organization,
-                                                                                              'login'
-                                                                                          >)
-                                                                                        | ({ __typename: 'Repository' } & Pick<
-                                                                                              Repository,
-                                                                                              'name'
-                                                                                          >)
-                                                                                        | ({ __typename: 'Team' } & Pick<
-                                                                                              Team,
-                                                                                              'name'
-                                                                                          >)
-                                                                                }
-                                                                        >
-                                                                    >
-                                                                }
-                                                            >
-                                                        >
-                                                    >
-                                                }
-                                            >
-                                        }
-                                >
+                                node: Maybe<{ __typename?: 'Repository' } & RepositoryPermissionsFragment>
+                            }
+                        >
+                    >
+                >
+                pageInfo: { __typename?: 'PageInfo' } & Pick<PageInfo, 'hasNextPage' | 'endCursor'>
+            }
+        }
+    >
+}
+
+export type GetOrganizationRepositoryPermissionsLegacyQueryVariables = Exact<{
+    login: Scalars['String']
+    first?: Maybe<Scalars['Int']>
+    after?: Maybe<Scalars['String']>
+    branchProtection?: Maybe<Scalars['Boolean']>
+    bypassAllowances?: Maybe<Scalars['Boolean']>
+    affiliation?: Maybe<CollaboratorAffiliation>
+}>
+
+export type GetOrganizationRepositoryPermissionsLegacyQuery = { __typename?: 'Query' } & {
+    organization: Maybe<
+        { __typename?: 'Organization' } & {
+            repositories: { __typename?: 'RepositoryConnection' } & {
+                edges: Maybe<
+                    Array<
+                        Maybe<
+                            { __typename?: 'RepositoryEdge' } & {
+                                node: Maybe<{ __typename?: 'Repository' } & RepositoryPermissionsLegacyFragment>
                             }
                         >
                     >
@@ -34824,6 +46465,7 @@ export type GetOrganizationTeamsQueryVariables = Exact<{
     login: Scalars['String']
     first?: Maybe<Scalars['Int']>
     after?: Maybe<Scalars['String']>
+    membership?: Maybe<TeamMembershipType>
 }>
 
 export type GetOrganizationTeamsQuery = { __typename?: 'Query' } & {
@@ -34836,6 +46478,10 @@ export type GetOrganizationTeamsQuery = { __typename?: 'Query' } & {
                             { __typename?: 'TeamEdge' } & {
                                 node: Maybe<
                                     { __typename?: 'Team' } & Pick<Team, 'name'> & {
+                                            parentTeam: Maybe<{ __typename?: 'Team' } & Pick<Team, 'name'>>
+                                            childTeams: { __typename?: 'TeamConnection' } & {
+                                                nodes: Maybe<Array<Maybe<{ __typename?: 'Team' } & Pick<Team, 'name'>>>>
+                                            }
                                             members: { __typename?: 'TeamMemberConnection' } & {
                                                 nodes: Maybe<Array<Maybe<{ __typename?: 'User' } & Pick<User, 'login'>>>>
                                             }
@@ -34851,6 +46497,230 @@ export type GetOrganizationTeamsQuery = { __typename?: 'Query' } & {
     >
 }
 
+export type GetRepositoryDirectoriesQueryVariables = Exact<{
+    owner: Scalars['String']
+    name: Scalars['String']
+    expression: Scalars['String']
+}>
+
+export type GetRepositoryDirectoriesQuery = { __typename?: 'Query' } & {
+    repository: Maybe<
+        { __typename?: 'Repository' } & {
+            object: Maybe<
+                | { __typename: 'Blob' }
+                | { __typename: 'Commit' }
+                | { __typename: 'Tag' }
+                | ({ __typename: 'Tree' } & {
+                      entries: Maybe<Array<{ __typename?: 'TreeEntry' } & Pick<TreeEntry, 'name' | 'type'>>>
+                  })
+            >
+        }
+    >
+}
+
+export type GetRepositoryFileQueryVariables = Exact<{
+    owner: Scalars['String']
+    name: Scalars['String']
+    expression: Scalars['String']
+}>
+
+export type GetRepositoryFileQuery = { __typename?: 'Query' } & {
+    repository: Maybe<
+        { __typename?: 'Repository' } & {
+            object: Maybe<
+                | ({ __typename: 'Blob' } & Pick<Blob, 'oid' | 'isBinary' | 'isTruncated' | 'text'>)
+                | { __typename: 'Commit' }
+                | { __typename: 'Tag' }
+                | { __typename: 'Tree' }
+            >
+        }
+    >
+}
+
+export type GetRepositoryPackageFileQueryVariables = Exact<{
+    owner: Scalars['String']
+    name: Scalars['String']
+    expression: Scalars['String']
+    pnpmWorkspaceExpression: Scalars['String']
+    lernaConfigExpression: Scalars['String']
+    verdaccioConfigExpression: Scalars['String']
+}>
+
+export type GetRepositoryPackageFileQuery = { __typename?: 'Query' } & {
+    repository: Maybe<
+        { __typename?: 'Repository' } & Pick<Repository, 'name'> & {
+                object: Maybe<
+                    | ({ __typename: 'Blob' } & Pick<Blob, 'oid' | 'isBinary' | 'isTruncated' | 'text'>)
+                    | { __typename: 'Commit' }
+                    | { __typename: 'Tag' }
+                    | { __typename: 'Tree' }
+                >
+                pnpmWorkspace: Maybe<
+                    | ({ __typename: 'Blob' } & Pick<Blob, 'oid' | 'isBinary' | 'isTruncated' | 'text'>)
+                    | { __typename: 'Commit' }
+                    | { __typename: 'Tag' }
+                    | { __typename: 'Tree' }
+                >
+                lernaConfig: Maybe<
+                    | ({ __typename: 'Blob' } & Pick<Blob, 'oid' | 'isBinary' | 'isTruncated' | 'text'>)
+                    | { __typename: 'Commit' }
+                    | { __typename: 'Tag' }
+                    | { __typename: 'Tree' }
+                >
+                verdaccioConfig: Maybe<
+                    | ({ __typename: 'Blob' } & Pick<Blob, 'oid' | 'isBinary' | 'isTruncated' | 'text'>)
+                    | { __typename: 'Commit' }
+                    | { __typename: 'Tag' }
+                    | { __typename: 'Tree' }
+                >
+            }
+    >
+}
+
+export type GetRepositoryPermissionsQueryVariables = Exact<{
+    owner: Scalars['String']
+    name: Scalars['String']
+    branchProtection?: Maybe<Scalars['Boolean']>
+    bypassAllowances?: Maybe<Scalars['Boolean']>
+    affiliation?: Maybe<CollaboratorAffiliation>
+}>
+
+export type GetRepositoryPermissionsQuery = { __typename?: 'Query' } & {
+    repository: Maybe<{ __typename?: 'Repository' } & RepositoryPermissionsFragment>
+}
+
+export type GetRepositoryPermissionsLegacyQueryVariables = Exact<{
+    owner: Scalars['String']
+    name: Scalars['String']
+    branchProtection?: Maybe<Scalars['Boolean']>
+    bypassAllowances?: Maybe<Scalars['Boolean']>
+    affiliation?: Maybe<CollaboratorAffiliation>
+}>
+
+export type GetRepositoryPermissionsLegacyQuery = { __typename?: 'Query' } & {
+    repository: Maybe<{ __typename?: 'Repository' } & RepositoryPermissionsLegacyFragment>
+}
+
+export type GetSchemaFeaturesQueryVariables = Exact<{ [key: string]: never }>
+
+export type GetSchemaFeaturesQuery = { __typename?: 'Query' } & {
+    collaboratorEdge: Maybe<
+        { __typename?: '__Type' } & { fields: Maybe<Array<{ __typename?: '__Field' } & Pick<__Field, 'name'>>> }
+    >
+    branchProtectionRule: Maybe<
+        { __typename?: '__Type' } & { fields: Maybe<Array<{ __typename?: '__Field' } & Pick<__Field, 'name'>>> }
+    >
+}
+
+export type RepositoryMetadataFragment = { __typename?: 'Repository' } & Pick<
+    Repository,
+    'name' | 'visibility' | 'isArchived' | 'isFork'
+> & {
+        primaryLanguage: Maybe<{ __typename?: 'Language' } & Pick<Language, 'name'>>
+        repositoryTopics: { __typename?: 'RepositoryTopicConnection' } & {
+            nodes: Maybe<
+                Array<Maybe<{ __typename?: 'RepositoryTopic' } & { topic: { __typename?: 'Topic' } & Pick<Topic, 'name'> }>>
+            >
+        }
+    }
+
+export type RepositoryPermissionsFragment = { __typename?: 'Repository' } & {
+    defaultBranchRef: Maybe<
+        { __typename?: 'Ref' } & {
+            branchProtectionRule: Maybe<{ __typename?: 'BranchProtectionRule' } & BranchProtectionFragment>
+        }
+    >
+    collaborators: Maybe<
+        { __typename?: 'RepositoryCollaboratorConnection' } & {
+            edges: Maybe<
+                Array<
+                    Maybe<
+                        { __typename?: 'RepositoryCollaboratorEdge' } & {
+                            node: { __typename?: 'User' } & Pick<User, 'login'>
+                            permissionSources: Maybe<
+                                Array<
+                                    { __typename?: 'PermissionSource' } & Pick<PermissionSource, 'permission'> & {
+                                            source:
+                                                | ({ __typename: 'Organization' } & Pick<Organization, 'login'>)
+                                                | ({ __typename: 'Repository' } & Pick<Repository, 'name'>)
+                                                | ({ __typename: 'Team' } & Pick<Team, 'name'>)
+                                        }
+                                >
+                            >
+                        }
+                    >
+                >
+            >
+        }
+    >
+} & RepositoryMetadataFragment
+
+export type RepositoryPermissionsLegacyFragment = { __typename?: 'Repository' } & {
+    defaultBranchRef: Maybe<
+        { __typename?: 'Ref' } & {
+            branchProtectionRule: Maybe<{ __typename?: 'BranchProtectionRule' } & BranchProtectionFragment>
+        }
+    >
+    collaborators: Maybe<
+        { __typename?: 'RepositoryCollaboratorConnection' } & {
+            edges: Maybe<
+                Array<
+                    Maybe<
+                        { __typename?: 'RepositoryCollaboratorEdge' } & Pick<RepositoryCollaboratorEdge, 'permission'> & {
+                                node: { __typename?: 'User' } & Pick<User, 'login'>
+                            }
+                    >
+                >
+            >
+        }
+    >
+} & RepositoryMetadataFragment
+
+export type VerifyEnterpriseQueryVariables = Exact<{
+    slug: Scalars['String']
+    query: Scalars['String']
+    first?: Maybe<Scalars['Int']>
+    after?: Maybe<Scalars['String']>
+}>
+
+export type VerifyEnterpriseQuery = { __typename?: 'Query' } & {
+    enterprise: Maybe<
+        { __typename?: 'Enterprise' } & {
+            organizations: { __typename?: 'OrganizationConnection' } & {
+                nodes: Maybe<Array<Maybe<{ __typename?: 'Organization' } & Pick<Organization, 'login'>>>>
+            }
+            members: { __typename?: 'EnterpriseMemberConnection' } & {
+                edges: Maybe<
+                    Array<
+                        Maybe<
+                            { __typename?: 'EnterpriseMemberEdge' } & {
+                                node: Maybe<
+                                    | ({ __typename: 'EnterpriseUserAccount' } & Pick<EnterpriseUserAccount, 'login'> & {
+                                              user: Maybe<{ __typename?: 'User' } & Pick<User, 'login'>>
+                                              organizations: { __typename?: 'EnterpriseOrganizationMembershipConnection' } & {
+                                                  nodes: Maybe<
+                                                      Array<Maybe<{ __typename?: 'Organization' } & Pick<Organization, 'login'>>>
+                                                  >
+                                              }
+                                          })
+                                    | ({ __typename: 'User' } & Pick<User, 'login'> & {
+                                              organizations: { __typename?: 'OrganizationConnection' } & {
+                                                  nodes: Maybe<
+                                                      Array<Maybe<{ __typename?: 'Organization' } & Pick<Organization, 'login'>>>
+                                                  >
+                                              }
+                                          })
+                                >
+                            }
+                        >
+                    >
+                >
+                pageInfo: { __typename?: 'PageInfo' } & Pick<PageInfo, 'endCursor' | 'hasNextPage'>
+            }
+        }
+    >
+}
+
 export type VerifyOrganizationQueryVariables = Exact<{
     login: Scalars['String']
     first?: Maybe<Scalars['Int']>
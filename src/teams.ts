@@ -0,0 +1,21 @@
+import { includes } from 'lodash'
+
+/**
+ * Lists the ancestors of a team, from its parent team up to the top-level team.
+ *
+ * @param teamName - The name of the team.
+ * @param parentTeams - The names of the teams, mapped to the name of their parent team.
+ * @returns The names of the ancestor teams.
+ */
+export const teamAncestors = (teamName: string, parentTeams: Record<string, string | undefined>): string[] => {
+    const ancestors: string[] = []
+    let parent = parentTeams[teamName]
+
+    // Github doesn't allow cycles, but an inconsistent list of teams mustn't loop forever
+    while (parent !== undefined && parent !== teamName && !includes(ancestors, parent)) {
+        ancestors.push(parent)
+        parent = parentTeams[parent]
+    }
+
+    return ancestors
+}
@@ -0,0 +1,19 @@
+import { teamAncestors } from './teams'
+
+describe('teams', () => {
+    describe('teamAncestors', () => {
+        const parentTeams = { engineering: undefined, platform: 'engineering', registry: 'platform' }
+
+        it('lists the ancestors, from the parent team up', () => {
+            expect(teamAncestors('registry', parentTeams)).toStrictEqual(['platform', 'engineering'])
+        })
+
+        it('returns no ancestors for the top-level teams', () => {
+            expect(teamAncestors('engineering', parentTeams)).toStrictEqual([])
+        })
+
+        it('stops on cycles', () => {
+            expect(teamAncestors('a', { a: 'b', b: 'a' })).toStrictEqual(['b'])
+        })
+    })
+})
@@ -202,7 +202,8 @@ export default class GithubScenario {
 
     buildRepos(): Promise<void> {
         const operations = map(this.scenario.repositories, repo => {
-            const createdRepo = this.client.repos.createInOrg({ org: this.organization, name: repo.name })
+            // The packages of public repositories can be read by everyone, the scenarios test the collaborator permissions
+            const createdRepo = this.client.repos.createInOrg({ org: this.organization, name: repo.name, private: true })
 
             const addUsers = createdRepo.then(() => {
                 const ops = map(repo.collaborators, collaborator => {
@@ -0,0 +1,205 @@
+import * as z from 'zod'
+import yaml from 'js-yaml'
+import minimatch from 'minimatch'
+import { filter, flatten, map, some, uniq } from 'lodash'
+
+/**
+ * Lists the names of the sub-directories of a directory in the repository.
+ * The root of the repository is the empty string.
+ */
+export type DirectoryLister = (path: string) => Promise<string[]>
+
+// The default manifest of a repository, and of each of its workspaces
+export const rootManifestPath = 'package.json'
+
+export type WorkspaceFiles = {
+    packageFile?: string
+    pnpmWorkspace?: string
+    lernaConfig?: string
+}
+
+// We don't want to descend infinitely when expanding `**`
+const maxGlobstarDepth = 5
+
+// Directories that never contain workspace packages
+const ignoredDirectories = ['node_modules', '.git']
+
+const packagesListSchema = z.array(z.string())
+
+// `workspaces` can either be a list of globs, or an object with a `packages` key (yarn)
+const packageFileSchema = z.object({
+    workspaces: z.union([packagesListSchema, z.object({ packages: packagesListSchema.optional() })]).optional()
+})
+
+// Both pnpm-workspace.yaml and lerna.json declare their packages under the `packages` key
+const packagesConfigSchema = z.object({
+    packages: packagesListSchema.optional()
+})
+
+/**
+ * Parses a file, returning undefined if the file is invalid.
+ *
+ * @param content - The contents of the file.
+ * @param parse - The parser.
+ * @returns The parsed content, or undefined.
+ */
+const safeParse = (content: string | undefined, parse: (content: string) => unknown): unknown => {
+    if (!content) {
+        return undefined
+    }
+
+    try {
+        return parse(content)
+    } catch (err) {
+        return undefined
+    }
+}
+
+/**
+ * Extracts the workspace globs declared in the repository.
+ *
+ * The globs are read from the `workspaces` key of the root package.json (npm/yarn), the
+ * `pnpm-workspace.yaml` file, and the `lerna.json` file.
+ *
+ * @param files - The workspace files of the repository.
+ * @returns The list of workspace globs.
+ */
+export const workspacePatterns = (files: WorkspaceFiles): string[] => {
+    const patterns: string[] = []
+
+    const packageFile = packageFileSchema.safeParse(safeParse(files.packageFile, JSON.parse))
+    if (packageFile.success && packageFile.data.workspaces) {
+        const workspaces = packageFile.data.workspaces
+        patterns.push(...(Array.isArray(workspaces) ? workspaces : workspaces.packages ?? []))
+    }
+
+    const pnpmWorkspace = packagesConfigSchema.safeParse(safeParse(files.pnpmWorkspace, yaml.safeLoad))
+    if (pnpmWorkspace.success && pnpmWorkspace.data.packages) {
+        patterns.push(...pnpmWorkspace.data.packages)
+    }
+
+    const lernaConfig = packagesConfigSchema.safeParse(safeParse(files.lernaConfig, JSON.parse))
+    if (lernaConfig.success && lernaConfig.data.packages) {
+        patterns.push(...lernaConfig.data.packages)
+    }
+
+    return uniq(patterns)
+}
+
+/**
+ * Normalizes a glob, removing leading `./` and trailing slashes.
+ *
+ * @param pattern - The glob.
+ * @returns The normalized glob.
+ */
+const normalizePattern = (pattern: string): string => pattern.replace(/^(\.\/)+/, '').replace(/\/+$/, '')
+
+/**
+ * Does the string contain glob characters?
+ *
+ * @param value - The string, e.g. a path segment.
+ * @returns True if the string is a glob.
+ */
+export const hasMagic = (value: string): boolean => /[*?[\]{}]/.test(value)
+
+/**
+ * Joins two paths.
+ *
+ * @param base - The base path, can be empty for the root.
+ * @param name - The name to add.
+ * @returns The joined path.
+ */
+export const joinPath = (base: string, name: string): string => (base ? `${base}/${name}` : name)
+
+/**
+ * Expands workspace globs against the directory tree of the repository.
+ *
+ * Negated globs (e.g. `!packages/internal`) are used to exclude directories from the result.
+ *
+ * @param patterns - The workspace globs.
+ * @param listDirectories - Lists the sub-directories of a directory.
+ * @returns A promise of the list of matching directories.
+ */
+export const expandWorkspacePatterns = (patterns: string[], listDirectories: DirectoryLister): Promise<string[]> => {
+    const included = map(
+        filter(patterns, p => !p.startsWith('!')),
+        normalizePattern
+    )
+    const excluded = map(
+        filter(patterns, p => p.startsWith('!')),
+        p => normalizePattern(p.slice(1))
+    )
+
+    // Several globs can list the same directory, so we only list each directory once
+    const listings: Record<string, Promise<string[]>> = {}
+    const list = (path: string): Promise<string[]> => {
+        if (!listings[path]) {
+            listings[path] = listDirectories(path).then(names => filter(names, n => !ignoredDirectories.includes(n)))
+        }
+        return listings[path]
+    }
+
+    const walk = (segments: string[], base: string, depth: number): Promise<string[]> => {
+        if (segments.length === 0) {
+            return Promise.resolve([base])
+        }
+
+        const [segment, ...rest] = segments
+
+        if (segment === '**') {
+            // `**` matches the current directory, and any of its descendants
+            const here = walk(rest, base, depth)
+
+            if (depth >= maxGlobstarDepth) {
+                return here
+            }
+
+            const deeper = list(base).then(names =>
+                Promise.all(map(names, n => walk(segments, joinPath(base, n), depth + 1))).then(flatten)
+            )
+
+            return Promise.all([here, deeper]).then(flatten)
+        }
+
+        if (!hasMagic(segment)) {
+            return walk(rest, joinPath(base, segment), depth)
+        }
+
+        return list(base).then(names =>
+            Promise.all(
+                map(
+                    filter(names, n => minimatch(n, segment)),
+                    n => walk(rest, joinPath(base, n), depth)
+                )
+            ).then(flatten)
+        )
+    }
+
+    return Promise.all(map(included, p => walk(p.split('/'), '', 0))).then(results => {
+        const directories = uniq(flatten(results))
+        return filter(directories, d => d !== '' && !some(excluded, e => minimatch(d, e)))
+    })
+}
+
+/**
+ * Expands manifest paths against the directory tree of the repository.
+ *
+ * Globs are supported in the directory part of the path, the file name is used as-is.
+ *
+ * @param paths - The manifest paths or globs.
+ * @param listDirectories - Lists the sub-directories of a directory.
+ * @returns A promise of the list of manifest paths.
+ */
+export const expandManifestPaths = (paths: string[], listDirectories: DirectoryLister): Promise<string[]> => {
+    return Promise.all(
+        map(paths, p => {
+            const segments = normalizePattern(p).split('/')
+            const fileName = <string>segments.pop()
+
+            const directories =
+                segments.length > 0 ? expandWorkspacePatterns([segments.join('/')], listDirectories) : Promise.resolve([''])
+
+            return directories.then(ds => map(ds, d => joinPath(d, fileName)))
+        })
+    ).then(results => uniq(flatten(results)))
+}
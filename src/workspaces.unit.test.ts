@@ -0,0 +1,129 @@
+import { workspacePatterns, expandWorkspacePatterns, expandManifestPaths } from './workspaces'
+
+describe('workspaces', () => {
+    describe('workspacePatterns', () => {
+        it('reads the workspaces list from the package.json', () => {
+            expect(workspacePatterns({ packageFile: '{"workspaces":["packages/*"]}' })).toStrictEqual(['packages/*'])
+        })
+
+        it('reads the yarn workspaces object from the package.json', () => {
+            expect(workspacePatterns({ packageFile: '{"workspaces":{"packages":["packages/*"]}}' })).toStrictEqual(['packages/*'])
+        })
+
+        it('reads the pnpm workspace file', () => {
+            expect(
+                workspacePatterns({ pnpmWorkspace: "packages:\n  - 'packages/*'\n  - '!packages/internal'\n" })
+            ).toStrictEqual(['packages/*', '!packages/internal'])
+        })
+
+        it('reads the lerna config', () => {
+            expect(workspacePatterns({ lernaConfig: '{"packages":["modules/*"]}' })).toStrictEqual(['modules/*'])
+        })
+
+        it('merges the patterns from all the sources', () => {
+            expect(
+                workspacePatterns({
+                    packageFile: '{"workspaces":["packages/*"]}',
+                    lernaConfig: '{"packages":["packages/*", "modules/*"]}'
+                })
+            ).toStrictEqual(['packages/*', 'modules/*'])
+        })
+
+        it('ignores invalid files', () => {
+            expect(
+                workspacePatterns({
+                    packageFile: '{"workspaces":"packages/*"}',
+                    pnpmWorkspace: 'packages: [',
+                    lernaConfig: 'not json'
+                })
+            ).toStrictEqual([])
+        })
+    })
+
+    describe('expandWorkspacePatterns', () => {
+        const tree: Record<string, string[]> = {
+            '': ['packages', 'tools', 'node_modules'],
+            packages: ['pkg_1', 'pkg_2', 'internal'],
+            'packages/pkg_1': [],
+            'packages/pkg_2': ['nested'],
+            'packages/pkg_2/nested': [],
+            'packages/internal': [],
+            tools: ['cli'],
+            'tools/cli': [],
+            node_modules: ['dependency']
+        }
+
+        const listDirectories = jest.fn((path: string) => Promise.resolve(tree[path] ?? []))
+
+        beforeEach(() => {
+            listDirectories.mockClear()
+        })
+
+        it('expands single-level globs', () => {
+            return expect(expandWorkspacePatterns(['packages/*'], listDirectories)).resolves.toStrictEqual([
+                'packages/pkg_1',
+                'packages/pkg_2',
+                'packages/internal'
+            ])
+        })
+
+        it('keeps literal paths without listing the tree', () => {
+            expect.assertions(2)
+
+            return expandWorkspacePatterns(['./tools/cli/'], listDirectories).then(directories => {
+                expect(directories).toStrictEqual(['tools/cli'])
+                expect(listDirectories).not.toHaveBeenCalled()
+            })
+        })
+
+        it('expands globstars, skipping node_modules', () => {
+            return expect(expandWorkspacePatterns(['**'], listDirectories)).resolves.toStrictEqual([
+                'packages',
+                'packages/pkg_1',
+                'packages/pkg_2',
+                'packages/pkg_2/nested',
+                'packages/internal',
+                'tools',
+                'tools/cli'
+            ])
+        })
+
+        it('excludes negated patterns', () => {
+            return expect(expandWorkspacePatterns(['packages/*', '!packages/internal'], listDirectories)).resolves.toStrictEqual([
+                'packages/pkg_1',
+                'packages/pkg_2'
+            ])
+        })
+
+        it('lists each directory once', () => {
+            expect.assertions(1)
+
+            return expandWorkspacePatterns(['packages/*', 'packages/pkg_*'], listDirectories).then(() => {
+                expect(listDirectories).toHaveBeenCalledTimes(1)
+            })
+        })
+    })
+
+    describe('expandManifestPaths', () => {
+        const tree: Record<string, string[]> = {
+            packages: ['pkg_1', 'pkg_2']
+        }
+
+        const listDirectories = (path: string) => Promise.resolve(tree[path] ?? [])
+
+        it('keeps the root manifest', () => {
+            return expect(expandManifestPaths(['package.json'], listDirectories)).resolves.toStrictEqual(['package.json'])
+        })
+
+        it('keeps literal paths', () => {
+            return expect(expandManifestPaths(['./js/package.json'], listDirectories)).resolves.toStrictEqual(['js/package.json'])
+        })
+
+        it('expands globs in the directory part of the path', () => {
+            return expect(expandManifestPaths(['packages/*/package.json'], listDirectories)).resolves.toStrictEqual([
+                'packages/pkg_1/package.json',
+                'packages/pkg_2/package.json'
+            ])
+        })
+    })
+})